@@ -22,6 +22,12 @@ describe('HealthController', () => {
       emitMedicationPrescribed: jest.fn().mockResolvedValue(undefined),
       initialize: jest.fn().mockResolvedValue(undefined),
       close: jest.fn().mockResolvedValue(undefined),
+      getHealth: jest.fn().mockReturnValue({
+        status: 'healthy',
+        state: 'connected',
+        bufferedEvents: 0,
+        reconnectAttempts: 0,
+      }),
     } as any;
 
     // Create app with mocked service
@@ -943,13 +943,17 @@ export class HealthController {
    */
   public healthCheck = async (req: Request, res: Response): Promise<void> => {
     try {
-      res.status(200).json({
-        status: 'healthy',
+      // Degraded while events are buffered; unhealthy once they would be lost
+      const eventPublisher = this.healthEventService.getHealth();
+
+      res.status(eventPublisher.status === 'unhealthy' ? 503 : 200).json({
+        status: eventPublisher.status,
         service: 'health-service',
         version: '1.0.0',
         timestamp: new Date().toISOString(),
         uptime: process.uptime(),
         correlationId: (req as AuditRequest).auditContext?.correlationId,
+        eventPublisher,
       });
     } catch (error) {
       res.status(503).json({
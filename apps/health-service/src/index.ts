@@ -5,12 +5,13 @@ import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import swaggerJsdoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
-import { logger } from '@smile/common';
+import { logger, startTracing } from '@smile/common';
 import { HealthEventService, HealthEventServiceConfig } from './services/health-event.service';
 import { HealthController } from './controllers/health.controller';
 import {
   securityHeaders,
   requestCorrelation,
+  requestTracing,
   auditLogging,
   authentication,
   healthDataAuthorization,
@@ -40,6 +41,11 @@ const config = {
   departmentId: process.env.DEPARTMENT_ID || 'general',
   departmentName: process.env.DEPARTMENT_NAME || 'General Health Services',
   nodeEnv: process.env.NODE_ENV || 'development',
+  // Health events emitted while RabbitMQ is unreachable wait on disk
+  // (EVENT_BUFFER_ENABLED=false makes emits fail instead)
+  eventBufferEnabled: process.env.EVENT_BUFFER_ENABLED !== 'false',
+  eventBufferPath: process.env.EVENT_BUFFER_PATH || 'data/health-events-buffer.jsonl',
+  eventBufferMaxEvents: parseInt(process.env.EVENT_BUFFER_MAX_EVENTS || '10000', 10),
 };
 
 // Swagger configuration
@@ -190,6 +196,7 @@ function createApp(): Express {
   app.use(rateLimitHeaders);
   app.use(limiter);
   app.use(requestCorrelation);
+  app.use(requestTracing);
   app.use(auditLogging);
 
   // Body parsing middleware
@@ -257,6 +264,11 @@ function configureRoutes(app: Express, healthController: HealthController): void
  */
 async function startServer(): Promise<void> {
   try {
+    // Distributed tracing: spans are exported over OTLP (OTEL_EXPORTER_OTLP_ENDPOINT)
+    const tracing = startTracing({
+      serviceName: process.env.OTEL_SERVICE_NAME || 'health-service',
+    });
+
     // Create Express app
     const app = createApp();
 
@@ -269,6 +281,9 @@ async function startServer(): Promise<void> {
       facilityName: config.facilityName,
       departmentId: config.departmentId,
       departmentName: config.departmentName,
+      ...(config.eventBufferEnabled && {
+        buffer: { path: config.eventBufferPath, maxEvents: config.eventBufferMaxEvents },
+      }),
     };
 
     const healthEventService = new HealthEventService(healthEventServiceConfig);
@@ -304,6 +319,8 @@ async function startServer(): Promise<void> {
           await healthEventService.close();
           logger.info('Health event service closed');
 
+          await tracing.shutdown();
+
           logger.info('Graceful shutdown completed');
           process.exit(0);
         } catch (error) {
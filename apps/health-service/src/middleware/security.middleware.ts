@@ -1,5 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
-import { auditLogger, AuditEventType, logger } from '@smile/common';
+import {
+  auditLogger,
+  AuditEventType,
+  logger,
+  createSpan,
+  endSpan,
+  extractTraceContext,
+  runWithSpan,
+  SpanKind,
+} from '@smile/common';
 
 /**
  * Enhanced request interface with audit context
@@ -64,6 +73,36 @@ export function requestCorrelation(req: AuditRequest, res: Response, next: NextF
   next();
 }
 
+/**
+ * Request tracing middleware
+ *
+ * Handles the request inside a server span (continuing an incoming traceparent header),
+ * so health events emitted while handling it carry the request's trace.
+ */
+export function requestTracing(req: AuditRequest, res: Response, next: NextFunction): void {
+  const correlationId = req.auditContext?.correlationId;
+  const span = createSpan(req.method, {
+    kind: SpanKind.SERVER,
+    parent: extractTraceContext(req.headers),
+    attributes: {
+      'http.request.method': req.method,
+      'url.path': req.path,
+      ...(correlationId && { 'smile.correlation_id': correlationId }),
+    },
+  });
+
+  res.on('finish', () => {
+    // Name the span after the matched route (e.g. POST /api/v1/patients)
+    if (req.route?.path) {
+      span.updateName(`${req.method} ${req.baseUrl}${req.route.path}`);
+    }
+    span.setAttribute('http.response.status_code', res.statusCode);
+    endSpan(span, res.statusCode >= 500 ? new Error(`HTTP ${res.statusCode}`) : undefined);
+  });
+
+  runWithSpan(span, next);
+}
+
 /**
  * Request/Response audit logging middleware
  */
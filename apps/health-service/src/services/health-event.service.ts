@@ -1,5 +1,10 @@
 import { CloudEventV1 } from 'cloudevents';
-import { EventEmitter } from '@smile/cloud-events';
+import {
+  EmitterHealth,
+  EventBufferOptions,
+  EventEmitter,
+  PriorityConfig,
+} from '@smile/cloud-events';
 import {
   logger,
   auditLogger,
@@ -20,6 +25,7 @@ import {
   MedicationData,
   containsHealthPHI,
   PATIENT_REGISTRATION_FIELD_MAPPING,
+  HEALTH_EVENT_PRIORITY,
 } from '../types/health-events';
 
 /**
@@ -33,6 +39,10 @@ export interface HealthEventServiceConfig {
   facilityName: string;
   departmentId?: string;
   departmentName?: string;
+  /** AMQP priority rules (defaults to HEALTH_EVENT_PRIORITY) */
+  priority?: PriorityConfig;
+  /** Disk buffer for events emitted while RabbitMQ is unreachable */
+  buffer?: EventBufferOptions;
 }
 
 /**
@@ -47,9 +57,18 @@ export class HealthEventService {
     this.eventEmitter = new EventEmitter({
       rabbitmqUrl: config.rabbitmqUrl,
       exchange: config.exchange,
+      priority: config.priority ?? HEALTH_EVENT_PRIORITY,
+      ...(config.buffer && { buffer: config.buffer }),
     });
   }
 
+  /**
+   * Get the health of the event publisher
+   */
+  public getHealth(): EmitterHealth {
+    return this.eventEmitter.getHealth();
+  }
+
   /**
    * Initialize the service by connecting to message broker
    */
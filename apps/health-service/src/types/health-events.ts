@@ -1,4 +1,5 @@
 import { SensitiveFieldType } from '@smile/common';
+import { PriorityConfig } from '@smile/cloud-events';
 
 /**
  * Patient registration data with PII/PHI fields marked
@@ -455,4 +456,21 @@ export function containsHealthPHI(eventType: HealthEventType): boolean {
   ];
 
   return phiEvents.includes(eventType);
-}
\ No newline at end of file
+}
+
+/**
+ * AMQP priority rules for health events: critical results and alerts first,
+ * appointment traffic last
+ */
+export const HEALTH_EVENT_PRIORITY: PriorityConfig = {
+  rules: [
+    { type: HealthEventType.LAB_RESULT_CRITICAL, priority: 10 },
+    { field: 'data.eventData.clinicalSignificance', equals: 'critical', priority: 10 },
+    { field: 'data.eventData.tests.flags', equals: 'critical', priority: 10 },
+    { field: 'data.eventData.type', equals: 'critical-alert', priority: 10 },
+    { field: 'data.eventData.priority', equals: ['critical', 'urgent'], priority: 8 },
+    { field: 'data.eventData.type', equals: 'appointment-reminder', priority: 1 },
+    { type: 'health.appointment.*', priority: 2 },
+  ],
+  defaultPriority: 5,
+};
@@ -0,0 +1,131 @@
+/**
+ * EventArchive Unit Tests
+ *
+ * Tests the append-only event archive:
+ * - Sequencing across archive instances (restarts)
+ * - Queries by type, source, subject, correlation id, outcome and time
+ * - Paging and skipping unreadable records
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ValidationError } from '@smile/common';
+import { EventArchive } from '../event-archive';
+
+describe('EventArchive', () => {
+  let directory: string;
+  let filePath: string;
+  let archive: EventArchive;
+
+  const archiveEvent = (
+    id: string,
+    type: string,
+    overrides: Record<string, unknown> = {},
+  ): Promise<unknown> =>
+    archive.append({
+      event: { specversion: '1.0', id, type, source: 'urn:smile:orders-service', subject: id },
+      correlationId: `corr-${id}`,
+      queue: 'interop.orders.queue',
+      outcome: 'delivered',
+      deliveries: [{ type: 'openhim' }],
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'event-archive-'));
+    filePath = path.join(directory, 'archive', 'events.jsonl');
+    archive = new EventArchive(filePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should append numbered records to a JSON-lines file', async () => {
+    const first = await archiveEvent('evt-1', 'order.created');
+    await archiveEvent('evt-2', 'order.updated');
+
+    expect(first).toEqual(
+      expect.objectContaining({ sequence: 1, archivedAt: expect.any(String) }),
+    );
+    const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).event.id)).toEqual(['evt-1', 'evt-2']);
+  });
+
+  it('should continue the sequence after a restart', async () => {
+    await archiveEvent('evt-1', 'order.created');
+    await archiveEvent('evt-2', 'order.created');
+
+    archive = new EventArchive(filePath);
+    const archived = await archiveEvent('evt-3', 'order.created');
+
+    expect(archived).toEqual(expect.objectContaining({ sequence: 3 }));
+  });
+
+  it('should filter by type, subject, correlation id and outcome', async () => {
+    await archiveEvent('evt-1', 'order.created');
+    await archiveEvent('evt-2', 'order.updated', { outcome: 'failed', error: 'timeout' });
+    await archiveEvent('evt-3', 'patient.registered');
+
+    const ids = async (filter: object): Promise<string[]> =>
+      (await archive.query(filter, 0, 10)).events.map((archived) => String(archived.event.id));
+
+    expect(await ids({ type: 'order.*' })).toEqual(['evt-1', 'evt-2']);
+    expect(await ids({ subject: 'evt-3' })).toEqual(['evt-3']);
+    expect(await ids({ correlationId: 'corr-2' })).toEqual([]);
+    expect(await ids({ correlationId: 'corr-evt-2' })).toEqual(['evt-2']);
+    expect(await ids({ outcome: 'failed' })).toEqual(['evt-2']);
+    expect(await ids({ source: 'urn:smile:health-*' })).toEqual([]);
+  });
+
+  it('should filter by archive time', async () => {
+    await archiveEvent('evt-1', 'order.created');
+    const since = new Date(Date.now() + 60000).toISOString();
+
+    const page = await archive.query({ from: since }, 0, 10);
+    const all = await archive.query({ to: since }, 0, 10);
+
+    expect(page.total).toBe(0);
+    expect(all.total).toBe(1);
+  });
+
+  it('should page through matching events', async () => {
+    for (let i = 1; i <= 5; i++) {
+      await archiveEvent(`evt-${i}`, 'order.created');
+    }
+
+    const page = await archive.query({}, 2, 2);
+
+    expect(page.total).toBe(5);
+    expect(page.offset).toBe(2);
+    expect(page.events.map((archived) => archived.sequence)).toEqual([3, 4]);
+  });
+
+  it('should skip unreadable records', async () => {
+    await archiveEvent('evt-1', 'order.created');
+    await fs.appendFile(filePath, '{"sequence": 2, "event": {"id"\n');
+    archive = new EventArchive(filePath);
+    await archiveEvent('evt-3', 'order.created');
+
+    const page = await archive.query({}, 0, 10);
+
+    expect(page.events.map((archived) => [archived.sequence, archived.event.id])).toEqual([
+      [1, 'evt-1'],
+      [2, 'evt-3'],
+    ]);
+  });
+
+  it('should return an empty page before anything was archived', async () => {
+    expect(await archive.query({}, 0, 10)).toEqual({ total: 0, offset: 0, events: [] });
+  });
+
+  it('should reject malformed filters', async () => {
+    await expect(archive.query({ outcome: 'lost' as any }, 0, 10)).rejects.toBeInstanceOf(
+      ValidationError,
+    );
+    await expect(archive.query({ from: 'yesterday' }, 0, 10)).rejects.toThrow(
+      'from must be an ISO 8601 timestamp',
+    );
+  });
+});
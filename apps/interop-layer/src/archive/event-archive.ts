@@ -0,0 +1,215 @@
+/**
+ * EventArchive
+ *
+ * Append-only archive of processed CloudEvents, kept as a JSON-lines file:
+ * - One record per processing attempt, with its outcome and the destinations
+ *   that accepted the event (a retried event is archived once per attempt)
+ * - Records are numbered in archive order and never rewritten
+ * - Queries scan the file, filtering by type, source, subject, correlation id,
+ *   outcome and archive time
+ *
+ * A single process writes the archive; unreadable lines (e.g. a record cut
+ * short by a crash) are skipped.
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { logger, ValidationError } from '@smile/common';
+import { RouteMatchEngine } from '../routing/route-match-engine';
+import {
+  ArchivedEvent,
+  ArchivedEventOutcome,
+  EventArchiveFilter,
+  EventArchivePage,
+} from '../messaging/types';
+
+const OUTCOMES: ArchivedEventOutcome[] = ['delivered', 'failed'];
+
+/**
+ * File-backed event archive
+ */
+export class EventArchive {
+  private readonly matchEngine = new RouteMatchEngine();
+
+  /** Sequence of the last archived event, read from the file on first append */
+  private sequence: number | null = null;
+
+  /** Serializes appends within this process */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Archive a processed event
+   *
+   * @param record - The event with its processing outcome
+   * @returns The archived event with its sequence and archive time
+   */
+  public append(record: Omit<ArchivedEvent, 'sequence' | 'archivedAt'>): Promise<ArchivedEvent> {
+    const run = async (): Promise<ArchivedEvent> => {
+      if (this.sequence === null) {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        this.sequence = await this.readLastSequence();
+      }
+
+      const archived: ArchivedEvent = {
+        sequence: this.sequence + 1,
+        archivedAt: new Date().toISOString(),
+        ...record,
+      };
+      await fs.appendFile(this.filePath, `${JSON.stringify(archived)}\n`);
+      this.sequence = archived.sequence;
+
+      return archived;
+    };
+
+    const result = this.pending.then(run, run);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Get a page of archived events matching a filter, oldest first
+   *
+   * @param filter - Selection criteria (all events if empty)
+   * @param offset - Matching events to skip
+   * @param limit - Maximum events to return
+   * @returns Page of archived events
+   * @throws ValidationError if the filter is malformed
+   */
+  public async query(
+    filter: EventArchiveFilter,
+    offset: number,
+    limit: number,
+  ): Promise<EventArchivePage> {
+    EventArchive.validateFilter(filter);
+    await this.pending;
+
+    const page: EventArchivePage = { total: 0, offset, events: [] };
+    await this.scan((archived) => {
+      if (!this.matches(archived, filter)) {
+        return;
+      }
+      if (page.total >= offset && page.events.length < limit) {
+        page.events.push(archived);
+      }
+      page.total++;
+    });
+
+    return page;
+  }
+
+  /**
+   * Wait for pending appends
+   */
+  public async close(): Promise<void> {
+    await this.pending;
+  }
+
+  /**
+   * Validate a filter
+   *
+   * @param filter - Selection criteria
+   * @throws ValidationError if the filter is malformed
+   */
+  public static validateFilter(filter: EventArchiveFilter): void {
+    const { type, source, subject, correlationId, outcome, from, to } = filter;
+
+    for (const [name, value] of Object.entries({ type, source, subject, correlationId })) {
+      if (value !== undefined && typeof value !== 'string') {
+        throw new ValidationError(`${name} must be a string`);
+      }
+    }
+    if (outcome !== undefined && !OUTCOMES.includes(outcome)) {
+      throw new ValidationError(`outcome must be one of ${OUTCOMES.join(', ')}`);
+    }
+    for (const [name, value] of Object.entries({ from, to })) {
+      if (value !== undefined && Number.isNaN(Date.parse(value))) {
+        throw new ValidationError(`${name} must be an ISO 8601 timestamp`);
+      }
+    }
+  }
+
+  /**
+   * Check whether an archived event matches a filter
+   */
+  private matches(archived: ArchivedEvent, filter: EventArchiveFilter): boolean {
+    const event = typeof archived.event === 'object' ? archived.event ?? {} : {};
+
+    if (filter.type && !this.matchEngine.matchPattern(String(event.type ?? ''), filter.type)) {
+      return false;
+    }
+    if (
+      filter.source &&
+      !this.matchEngine.matchPattern(String(event.source ?? ''), filter.source)
+    ) {
+      return false;
+    }
+    if (filter.subject !== undefined && event.subject !== filter.subject) {
+      return false;
+    }
+    if (filter.correlationId !== undefined && archived.correlationId !== filter.correlationId) {
+      return false;
+    }
+    if (filter.outcome && archived.outcome !== filter.outcome) {
+      return false;
+    }
+
+    const time = Date.parse(archived.archivedAt);
+    if (filter.from && time < Date.parse(filter.from)) {
+      return false;
+    }
+    if (filter.to && time > Date.parse(filter.to)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Find the sequence of the last archived event
+   */
+  private async readLastSequence(): Promise<number> {
+    let last = 0;
+    await this.scan((archived) => {
+      last = Math.max(last, archived.sequence);
+    });
+    return last;
+  }
+
+  /**
+   * Visit every readable record of the archive
+   */
+  private async scan(visit: (archived: ArchivedEvent) => void): Promise<void> {
+    try {
+      await fs.access(this.filePath);
+    } catch {
+      return;
+    }
+
+    let skipped = 0;
+    const lines = readline.createInterface({
+      input: createReadStream(this.filePath, { encoding: 'utf8' }),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (line.trim() === '') {
+        continue;
+      }
+      try {
+        visit(JSON.parse(line) as ArchivedEvent);
+      } catch {
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      logger.warn('Skipped unreadable event archive records', {
+        path: this.filePath,
+        skipped,
+      });
+    }
+  }
+}
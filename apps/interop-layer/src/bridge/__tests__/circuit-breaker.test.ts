@@ -0,0 +1,86 @@
+/**
+ * CircuitBreaker Unit Tests
+ *
+ * Tests opening at the failure threshold and half-open probing
+ */
+
+import { CircuitBreaker } from '../circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const open = (breaker: CircuitBreaker, failures: number): void => {
+    for (let i = 0; i < failures; i++) {
+      breaker.tryAcquire();
+      breaker.recordFailure();
+    }
+  };
+
+  it('should reject an invalid failure threshold', () => {
+    expect(() => new CircuitBreaker({ failureThreshold: 0 })).toThrow(
+      'failureThreshold must be a positive integer',
+    );
+  });
+
+  it('should open after consecutive failures', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3 });
+
+    open(breaker, 2);
+    expect(breaker.getState()).toBe('closed');
+
+    open(breaker, 1);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('should reset the failure count on success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    open(breaker, 1);
+    breaker.recordSuccess();
+    open(breaker, 1);
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should allow a single probe after the reset timeout', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+    open(breaker, 1);
+
+    now += 1000;
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('should re-open when the probe fails', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+    open(breaker, 1);
+
+    now += 1000;
+    breaker.tryAcquire();
+    breaker.recordFailure();
+
+    expect(breaker.getSnapshot()).toEqual({
+      state: 'open',
+      consecutiveFailures: 2,
+      timesOpened: 2,
+      openedAt: new Date(now).toISOString(),
+    });
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+});
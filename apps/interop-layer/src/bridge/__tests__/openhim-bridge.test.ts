@@ -5,13 +5,19 @@
  *
  * The OpenHIM Bridge is a simple protocol converter that:
  * 1. Takes CloudEvents from RabbitMQ
- * 2. Determines OpenHIM endpoint based on event.source
+ * 2. Determines OpenHIM endpoint from the endpoint mapping table
  * 3. Converts CloudEvent to HTTP POST request
  * 4. Sends to OpenHIM with authentication
  * 5. Returns HTTP response
  */
 
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { tracing } from '@opentelemetry/sdk-node';
+import { startTracing, withSpan, SpanKind, TracingHandle } from '@smile/common';
 import { OpenHIMBridge } from '../openhim-bridge';
+import { loadEndpointMappingFile } from '../endpoint-mapping';
 import axios from 'axios';
 
 // Mock axios
@@ -22,14 +28,17 @@ describe('OpenHIMBridge', () => {
   let bridge: OpenHIMBridge;
 
   const mockConfig = {
-    healthEndpoint: 'http://localhost:5001/health',
-    ordersEndpoint: 'http://localhost:5001/orders',
+    baseUrl: 'http://localhost:5001',
+    endpoints: [
+      { name: 'health', source: 'smile.health-service', channel: '/health' },
+      { name: 'orders', source: 'smile.orders-service', channel: '/orders' },
+    ],
     defaultEndpoint: 'http://localhost:5001/events',
     username: 'test@openhim.org',
     password: 'password',
     timeout: 10000,
     retryAttempts: 3,
-    retryDelay: 1000,
+    retryDelay: 10,
   };
 
   beforeEach(() => {
@@ -42,19 +51,20 @@ describe('OpenHIMBridge', () => {
       expect(bridge).toBeInstanceOf(OpenHIMBridge);
     });
 
-    it('should throw error if healthEndpoint is missing', () => {
-      const invalidConfig = { ...mockConfig, healthEndpoint: '' };
-
-      expect(() => new OpenHIMBridge(invalidConfig as any)).toThrow(
-        'healthEndpoint is required',
-      );
-    });
-
-    it('should throw error if ordersEndpoint is missing', () => {
-      const invalidConfig = { ...mockConfig, ordersEndpoint: '' };
+    it('should throw error if the endpoint mapping is invalid', () => {
+      const invalidConfig = {
+        ...mockConfig,
+        baseUrl: undefined,
+        endpoints: [
+          { name: 'health', channel: '/health' },
+          { name: 'health', channel: 'http://openhim/lab', username: 'lab' },
+        ],
+      };
 
       expect(() => new OpenHIMBridge(invalidConfig as any)).toThrow(
-        'ordersEndpoint is required',
+        "Invalid OpenHIM endpoint mapping: endpoint 'health' has a relative channel but no " +
+          "baseUrl is configured, endpoint name 'health' is used more than once, " +
+          "endpoint 'health' must set both username and password",
       );
     });
 
@@ -77,31 +87,94 @@ describe('OpenHIMBridge', () => {
 
       expect(() => new OpenHIMBridge(invalidConfig as any)).toThrow('password is required');
     });
+
+    it('should throw error if retryAttempts is negative', () => {
+      expect(() => new OpenHIMBridge({ ...mockConfig, retryAttempts: -1 })).toThrow(
+        'retryAttempts must be a non-negative integer',
+      );
+    });
+
+    it('should throw error if the CA file cannot be read', () => {
+      expect(
+        () => new OpenHIMBridge({ ...mockConfig, tls: { caFile: '/nonexistent/ca.pem' } }),
+      ).toThrow('Failed to read OpenHIM CA file');
+    });
   });
 
-  describe('getEndpointForSource()', () => {
-    it('should return healthEndpoint for smile.health-service', () => {
-      const endpoint = bridge.getEndpointForSource('smile.health-service');
+  describe('resolveEndpoint()', () => {
+    it('should return the health channel for smile.health-service', () => {
+      const endpoint = bridge.resolveEndpoint({ source: 'smile.health-service' });
 
-      expect(endpoint).toBe(mockConfig.healthEndpoint);
+      expect(endpoint.url).toBe('http://localhost:5001/health');
+      expect(endpoint.name).toBe('health');
     });
 
-    it('should return ordersEndpoint for smile.orders-service', () => {
-      const endpoint = bridge.getEndpointForSource('smile.orders-service');
+    it('should return the orders channel for smile.orders-service', () => {
+      const endpoint = bridge.resolveEndpoint({ source: 'smile.orders-service' });
 
-      expect(endpoint).toBe(mockConfig.ordersEndpoint);
+      expect(endpoint.url).toBe('http://localhost:5001/orders');
     });
 
     it('should return defaultEndpoint for unknown source', () => {
-      const endpoint = bridge.getEndpointForSource('unknown.service');
+      const endpoint = bridge.resolveEndpoint({ source: 'unknown.service' });
 
-      expect(endpoint).toBe(mockConfig.defaultEndpoint);
+      expect(endpoint.url).toBe(mockConfig.defaultEndpoint);
     });
 
     it('should return defaultEndpoint for empty source', () => {
-      const endpoint = bridge.getEndpointForSource('');
+      const endpoint = bridge.resolveEndpoint({ source: '' });
+
+      expect(endpoint.url).toBe(mockConfig.defaultEndpoint);
+    });
+
+    it('should match on type and subject patterns in table order', () => {
+      const labBridge = new OpenHIMBridge({
+        ...mockConfig,
+        endpoints: [
+          {
+            name: 'lab-critical',
+            source: 'urn:smile:lab-system',
+            type: 'lab.result.*',
+            subject: 'critical/*',
+            channel: '/lab/critical',
+            timeout: 2000,
+          },
+          {
+            name: 'lab',
+            source: 'urn:smile:lab-system',
+            channel: 'https://lab.openhim.org/lab',
+            username: 'lab-client',
+            password: 'lab-secret',
+          },
+        ],
+      });
+      const event = { source: 'urn:smile:lab-system', type: 'lab.result.available' };
+
+      expect(labBridge.resolveEndpoint({ ...event, subject: 'critical/123' })).toEqual({
+        name: 'lab-critical',
+        url: 'http://localhost:5001/lab/critical',
+        username: mockConfig.username,
+        password: mockConfig.password,
+        timeout: 2000,
+      });
+      expect(labBridge.resolveEndpoint({ ...event, subject: 'routine/123' })).toEqual({
+        name: 'lab',
+        url: 'https://lab.openhim.org/lab',
+        username: 'lab-client',
+        password: 'lab-secret',
+        timeout: mockConfig.timeout,
+      });
+    });
 
-      expect(endpoint).toBe(mockConfig.defaultEndpoint);
+    it('should resolve routing overrides by URL, path or mapping name', () => {
+      const event = { source: 'unknown.service' };
+
+      expect(bridge.resolveEndpoint(event, 'orders').url).toBe('http://localhost:5001/orders');
+      expect(bridge.resolveEndpoint(event, '/health').name).toBe('health');
+      expect(bridge.resolveEndpoint(event, 'http://other/channel')).toMatchObject({
+        name: 'override',
+        url: 'http://other/channel',
+      });
     });
   });
 
@@ -149,7 +222,7 @@ describe('OpenHIMBridge', () => {
       await bridge.sendToOpenHIM(validCloudEvent, 'correlation-123');
 
       expect(mockedAxios.post).toHaveBeenCalledWith(
-        mockConfig.healthEndpoint,
+        'http://localhost:5001/health',
         validCloudEvent,
         expect.objectContaining({
           headers: expect.objectContaining({
@@ -257,6 +330,252 @@ describe('OpenHIMBridge', () => {
     });
   });
 
+  describe('loadEndpointMappingFile()', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'openhim-endpoints-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should load entries and substitute environment variables', async () => {
+      const filePath = path.join(directory, 'endpoints.yml');
+      await fs.writeFile(
+        filePath,
+        [
+          'baseUrl: "${OPENHIM_BASE:-http://localhost:5001}"',
+          'endpoints:',
+          '  - name: "lab"',
+          '    source: "urn:smile:lab-system"',
+          '    channel: "/lab"',
+          '    password: "${LAB_PASSWORD}"',
+        ].join('\n'),
+      );
+
+      expect(loadEndpointMappingFile(filePath, { LAB_PASSWORD: 'secret' })).toEqual({
+        baseUrl: 'http://localhost:5001',
+        endpoints: [
+          { name: 'lab', source: 'urn:smile:lab-system', channel: '/lab', password: 'secret' },
+        ],
+      });
+      expect(() => loadEndpointMappingFile(filePath, {})).toThrow(
+        'Environment variable LAB_PASSWORD is not set',
+      );
+    });
+
+    it('should load the bundled mapping', () => {
+      const mapping = loadEndpointMappingFile(
+        path.resolve(__dirname, '../../../config/openhim-endpoints.yml'),
+        {},
+      );
+      const bundled = new OpenHIMBridge({ ...mockConfig, ...mapping });
+
+      expect(bundled.resolveEndpoint({ source: 'urn:smile:orders-service' }).url).toBe(
+        'http://localhost:5001/orders',
+      );
+    });
+  });
+
+  describe('retries', () => {
+    const event = {
+      specversion: '1.0',
+      type: 'test.event',
+      source: 'smile.health-service',
+      id: 'test-1',
+    };
+    const okResponse = { status: 200, statusText: 'OK', headers: {}, data: {} };
+    const gatewayError = (status: number) => ({
+      response: { status, statusText: 'Gateway Error', data: {} },
+      isAxiosError: true,
+    });
+
+    it('should retry gateway errors and timeouts until the request succeeds', async () => {
+      mockedAxios.post
+        .mockRejectedValueOnce(gatewayError(503))
+        .mockRejectedValueOnce({ message: 'timeout of 10000ms exceeded', code: 'ECONNABORTED' })
+        .mockResolvedValueOnce(okResponse);
+
+      const result = await bridge.sendToOpenHIM(event, 'correlation-1');
+
+      expect(result.success).toBe(true);
+      expect(mockedAxios.post).toHaveBeenCalledTimes(3);
+      expect(bridge.getStats()).toMatchObject({
+        totalRequests: 1,
+        successfulRequests: 1,
+        retries: 2,
+        retriedRequests: 1,
+        recoveredRequests: 1,
+      });
+    });
+
+    it('should give up after retryAttempts', async () => {
+      mockedAxios.post.mockRejectedValue(gatewayError(502));
+
+      const result = await bridge.sendToOpenHIM(event, 'correlation-1');
+
+      expect(result.success).toBe(false);
+      expect(result.statusCode).toBe(502);
+      expect(mockedAxios.post).toHaveBeenCalledTimes(mockConfig.retryAttempts + 1);
+      expect(bridge.getStats()).toMatchObject({ failedRequests: 1, retries: 3 });
+    });
+
+    it('should not retry other HTTP errors', async () => {
+      mockedAxios.post.mockRejectedValue(gatewayError(500));
+
+      await bridge.sendToOpenHIM(event, 'correlation-1');
+
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(bridge.getStats().retries).toBe(0);
+    });
+
+    it('should reuse keep-alive agents across requests', async () => {
+      mockedAxios.post.mockResolvedValue(okResponse);
+
+      await bridge.sendToOpenHIM(event, 'correlation-1');
+      await bridge.sendToOpenHIM(event, 'correlation-2');
+
+      const [first, second] = mockedAxios.post.mock.calls.map((call) => call[2]);
+      expect(first?.httpsAgent).toBe(second?.httpsAgent);
+      expect(first?.httpsAgent.options).toMatchObject({
+        keepAlive: true,
+        rejectUnauthorized: true,
+      });
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const event = {
+      specversion: '1.0',
+      type: 'test.event',
+      source: 'smile.health-service',
+      id: 'test-1',
+    };
+    const networkError = { message: 'connect ECONNREFUSED', code: 'ECONNREFUSED' };
+
+    beforeEach(() => {
+      bridge = new OpenHIMBridge({
+        ...mockConfig,
+        retryAttempts: 0,
+        circuitBreaker: { failureThreshold: 2, resetTimeout: 50 },
+      });
+    });
+
+    it('should stop calling an endpoint once its circuit opens', async () => {
+      mockedAxios.post.mockRejectedValue(networkError);
+
+      await bridge.sendToOpenHIM(event, 'correlation-1', 'http://openhim/a');
+      await bridge.sendToOpenHIM(event, 'correlation-2', 'http://openhim/a');
+      const result = await bridge.sendToOpenHIM(event, 'correlation-3', 'http://openhim/a');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Circuit breaker open for http://openhim/a');
+      expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+      expect(bridge.getStats()).toMatchObject({
+        failedRequests: 3,
+        rejectedByCircuitBreaker: 1,
+        circuitBreakers: { 'http://openhim/a': { state: 'open', timesOpened: 1 } },
+      });
+    });
+
+    it('should keep other endpoints available', async () => {
+      mockedAxios.post.mockRejectedValueOnce(networkError).mockRejectedValueOnce(networkError);
+      await bridge.sendToOpenHIM(event, 'correlation-1', 'http://openhim/a');
+      await bridge.sendToOpenHIM(event, 'correlation-2', 'http://openhim/a');
+
+      mockedAxios.post.mockResolvedValue({ status: 200, statusText: 'OK', data: {} });
+      const result = await bridge.sendToOpenHIM(event, 'correlation-3', 'http://openhim/b');
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should close the circuit after a successful probe', async () => {
+      mockedAxios.post.mockRejectedValueOnce(networkError).mockRejectedValueOnce(networkError);
+      await bridge.sendToOpenHIM(event, 'correlation-1', 'http://openhim/a');
+      await bridge.sendToOpenHIM(event, 'correlation-2', 'http://openhim/a');
+
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      mockedAxios.post.mockResolvedValue({ status: 200, statusText: 'OK', data: {} });
+      const result = await bridge.sendToOpenHIM(event, 'correlation-3', 'http://openhim/a');
+
+      expect(result.success).toBe(true);
+      expect(bridge.getStats().circuitBreakers['http://openhim/a']?.state).toBe('closed');
+    });
+
+    it('should not count client errors against the endpoint', async () => {
+      mockedAxios.post.mockRejectedValue({
+        response: { status: 400, statusText: 'Bad Request', data: {} },
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await bridge.sendToOpenHIM(event, `correlation-${i}`, 'http://openhim/a');
+      }
+
+      expect(mockedAxios.post).toHaveBeenCalledTimes(3);
+      expect(bridge.getStats().circuitBreakers['http://openhim/a']?.state).toBe('closed');
+    });
+  });
+
+  describe('trace propagation', () => {
+    const exporter = new tracing.InMemorySpanExporter();
+    let tracingHandle: TracingHandle;
+
+    const event = {
+      specversion: '1.0',
+      type: 'order.created',
+      source: 'smile.orders-service',
+      id: 'order-1',
+    };
+
+    beforeAll(() => {
+      tracingHandle = startTracing({
+        serviceName: 'interop-layer-test',
+        spanProcessor: new tracing.SimpleSpanProcessor(exporter),
+      });
+    });
+
+    afterAll(async () => {
+      await tracingHandle.shutdown();
+    });
+
+    beforeEach(() => {
+      exporter.reset();
+    });
+
+    it('should send traceparent for a client span in the current trace', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200, statusText: 'OK', headers: {}, data: {} });
+
+      const traceId = await withSpan('test-queue process', async (span) => {
+        await bridge.sendToOpenHIM(event, 'correlation-1');
+        return span.spanContext().traceId;
+      });
+
+      const client = exporter.getFinishedSpans().find((span) => span.kind === SpanKind.CLIENT);
+      expect(client?.name).toBe('POST orders');
+      expect(client?.spanContext().traceId).toBe(traceId);
+      expect(client?.attributes['http.response.status_code']).toBe(200);
+
+      const headers = mockedAxios.post.mock.calls[0]![2]!.headers as Record<string, string>;
+      expect(headers.traceparent).toBe(`00-${traceId}-${client?.spanContext().spanId}-01`);
+    });
+
+    it('should record one client span per attempt', async () => {
+      mockedAxios.post
+        .mockRejectedValueOnce({ response: { status: 503, data: {} }, isAxiosError: true })
+        .mockResolvedValueOnce({ status: 200, statusText: 'OK', headers: {}, data: {} });
+
+      await withSpan('test-queue process', () => bridge.sendToOpenHIM(event, 'correlation-1'));
+
+      const attempts = exporter
+        .getFinishedSpans()
+        .filter((span) => span.kind === SpanKind.CLIENT)
+        .map((span) => span.attributes['http.response.status_code']);
+      expect(attempts).toEqual([503, 200]);
+    });
+  });
+
   describe('getStats()', () => {
     it('should return initial stats', () => {
       const stats = bridge.getStats();
@@ -322,6 +641,32 @@ describe('OpenHIMBridge', () => {
       expect(stats.failedRequests).toBe(1);
     });
 
+    it('should track attempts per endpoint and status', async () => {
+      mockedAxios.post
+        .mockRejectedValueOnce({ response: { status: 503, data: {} }, isAxiosError: true })
+        .mockResolvedValueOnce({ status: 200, statusText: 'OK', headers: {}, data: {} });
+
+      const event = {
+        specversion: '1.0',
+        type: 'test.event',
+        source: 'smile.health-service',
+        id: 'test-1',
+      };
+
+      await bridge.sendToOpenHIM(event, 'correlation-1', 'http://openhim/a');
+
+      const endpoints = bridge.getStats().endpoints;
+
+      expect(endpoints).toHaveLength(2);
+      expect(endpoints).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ endpoint: 'http://openhim/a', status: '503', requests: 1 }),
+          expect.objectContaining({ endpoint: 'http://openhim/a', status: '200', requests: 1 }),
+        ]),
+      );
+      expect(endpoints[0]!.responseTime.count).toBe(1);
+    });
+
     it('should calculate average response time', async () => {
       const mockResponse = {
         status: 200,
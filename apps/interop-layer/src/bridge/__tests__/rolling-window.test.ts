@@ -0,0 +1,73 @@
+/**
+ * Rolling Window Unit Tests
+ *
+ * Tests request outcome statistics over recent periods:
+ * - Failure rate and average latency
+ * - Reads since a point in time
+ * - Expiry of outcomes older than the retention
+ */
+
+import { RollingWindow } from '../rolling-window';
+
+describe('RollingWindow', () => {
+  const start = 1_700_000_000_000;
+
+  it('should report no requests when empty', () => {
+    const window = new RollingWindow(60000);
+
+    expect(window.getStats(start - 60000, start)).toEqual({
+      requests: 0,
+      failures: 0,
+      failureRate: 0,
+      averageLatencyMs: 0,
+    });
+  });
+
+  it('should compute failure rate and average latency', () => {
+    const window = new RollingWindow(60000);
+
+    window.record(true, 100, start);
+    window.record(false, 300, start + 500);
+    window.record(true, 200, start + 1500);
+    window.record(false, undefined, start + 2500);
+
+    expect(window.getStats(start - 60000, start + 3000)).toEqual({
+      requests: 4,
+      failures: 2,
+      failureRate: 0.5,
+      averageLatencyMs: 200,
+    });
+  });
+
+  it('should read outcomes since a point in time', () => {
+    const window = new RollingWindow(60000);
+
+    window.record(false, 100, start);
+    window.record(true, 100, start + 5000);
+    window.record(true, 100, start + 6000);
+
+    expect(window.getStats(start + 5000, start + 7000)).toEqual(
+      expect.objectContaining({ requests: 2, failures: 0 }),
+    );
+  });
+
+  it('should drop outcomes older than the retention', () => {
+    const window = new RollingWindow(10000);
+
+    window.record(false, 100, start);
+    window.record(true, 100, start + 11000);
+
+    expect(window.getStats(start - 10000, start + 12000)).toEqual(
+      expect.objectContaining({ requests: 1, failures: 0 }),
+    );
+  });
+
+  it('should forget outcomes on reset', () => {
+    const window = new RollingWindow(60000);
+
+    window.record(false, 100, start);
+    window.reset();
+
+    expect(window.getStats(start - 60000, start).requests).toBe(0);
+  });
+});
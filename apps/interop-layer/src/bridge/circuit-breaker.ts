@@ -0,0 +1,132 @@
+/**
+ * Circuit Breaker
+ *
+ * Stops sending requests to an endpoint that keeps failing:
+ * - closed: requests flow; consecutive failures are counted
+ * - open: requests are rejected until resetTimeout has elapsed
+ * - half-open: a single probe request decides whether to close or re-open
+ */
+
+/**
+ * Circuit breaker state
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerConfig {
+  failureThreshold?: number; // Consecutive failures before opening (default 5)
+  resetTimeout?: number; // Time in ms before an open circuit allows a probe (default 30000)
+}
+
+/**
+ * Circuit breaker state snapshot
+ */
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  timesOpened: number;
+  openedAt?: string;
+}
+
+/**
+ * Circuit breaker for a single endpoint
+ */
+export class CircuitBreaker {
+  private static readonly DEFAULT_FAILURE_THRESHOLD = 5;
+  private static readonly DEFAULT_RESET_TIMEOUT = 30000;
+
+  private readonly failureThreshold: number;
+  private readonly resetTimeout: number;
+
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private timesOpened = 0;
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.failureThreshold = config.failureThreshold ?? CircuitBreaker.DEFAULT_FAILURE_THRESHOLD;
+    this.resetTimeout = config.resetTimeout ?? CircuitBreaker.DEFAULT_RESET_TIMEOUT;
+
+    if (!Number.isInteger(this.failureThreshold) || this.failureThreshold < 1) {
+      throw new Error('failureThreshold must be a positive integer');
+    }
+  }
+
+  /**
+   * Ask permission to send a request
+   *
+   * Every granted request must be followed by recordSuccess() or recordFailure().
+   *
+   * @returns Whether the request may be sent
+   */
+  public tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt! < this.resetTimeout) {
+        return false;
+      }
+      this.state = 'half-open';
+    }
+
+    if (this.state === 'half-open') {
+      if (this.probeInFlight) {
+        return false;
+      }
+      this.probeInFlight = true;
+    }
+
+    return true;
+  }
+
+  /**
+   * Record that the endpoint answered
+   */
+  public recordSuccess(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.probeInFlight = false;
+  }
+
+  /**
+   * Record that the endpoint failed (opens the circuit at the threshold or on a failed probe)
+   */
+  public recordFailure(): void {
+    this.consecutiveFailures++;
+    this.probeInFlight = false;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        this.timesOpened++;
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Current state (an open circuit past its reset timeout reports half-open)
+   */
+  public getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt! >= this.resetTimeout) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Get a snapshot of the breaker state
+   *
+   * @returns State snapshot
+   */
+  public getSnapshot(): CircuitBreakerSnapshot {
+    return {
+      state: this.getState(),
+      consecutiveFailures: this.consecutiveFailures,
+      timesOpened: this.timesOpened,
+      ...(this.openedAt !== null && { openedAt: new Date(this.openedAt).toISOString() }),
+    };
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * OpenHIM Endpoint Mapping
+ *
+ * Declarative table that maps CloudEvents to OpenHIM channels:
+ * - Entries match on source, type and subject (each optional, * wildcards)
+ * - The first matching entry wins; unmatched events go to the default endpoint
+ * - Entries may override the channel credentials and request timeout
+ * - Mapping files are YAML; string values may reference ${ENV_VAR} or ${ENV_VAR:-default}
+ */
+
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import { RouteMatchEngine } from '../routing/route-match-engine';
+import { interpolateEnv } from '../config/env-interpolation';
+
+/**
+ * Endpoint mapping entry
+ */
+export interface OpenHIMEndpointMapping {
+  name: string; // Unique entry name (used in logs)
+  source?: string; // CloudEvent source pattern (default *)
+  type?: string; // CloudEvent type pattern (default *)
+  subject?: string; // CloudEvent subject pattern (default *)
+  channel: string; // Channel path (relative to baseUrl) or absolute URL
+  username?: string; // Channel credentials (default: bridge credentials)
+  password?: string;
+  timeout?: number; // Request timeout in ms (default: bridge timeout)
+}
+
+/**
+ * Endpoint mapping file contents
+ */
+export interface OpenHIMEndpointMappingFile {
+  baseUrl?: string; // Base URL for relative channel paths
+  endpoints: OpenHIMEndpointMapping[];
+}
+
+/**
+ * Endpoint an event is sent to, with the settings to use
+ */
+export interface ResolvedEndpoint {
+  name: string;
+  url: string;
+  username: string;
+  password: string;
+  timeout: number;
+}
+
+/**
+ * Settings used when an entry does not override them
+ */
+export interface EndpointDefaults {
+  defaultEndpoint: string;
+  username: string;
+  password: string;
+  timeout: number;
+}
+
+/**
+ * OpenHIM endpoint mapping table
+ */
+export class OpenHIMEndpointTable {
+  private readonly matchEngine = new RouteMatchEngine();
+  private readonly entries: Array<{ mapping: OpenHIMEndpointMapping; url: string }>;
+
+  /**
+   * @param mappings - Entries in match order
+   * @param defaults - Default endpoint and settings
+   * @param baseUrl - Base URL for relative channel paths
+   * @throws Error if the table is invalid
+   */
+  constructor(
+    mappings: OpenHIMEndpointMapping[],
+    private readonly defaults: EndpointDefaults,
+    private readonly baseUrl?: string,
+  ) {
+    const errors = OpenHIMEndpointTable.validate(mappings, baseUrl);
+    if (errors.length > 0) {
+      throw new Error(`Invalid OpenHIM endpoint mapping: ${errors.join(', ')}`);
+    }
+
+    this.entries = mappings.map((mapping) => ({ mapping, url: this.toUrl(mapping.channel) }));
+  }
+
+  /**
+   * Validate mapping entries
+   *
+   * @param mappings - Entries to validate
+   * @param baseUrl - Base URL for relative channel paths
+   * @returns Validation errors (empty if valid)
+   */
+  public static validate(mappings: OpenHIMEndpointMapping[], baseUrl?: string): string[] {
+    const errors: string[] = [];
+    const names = new Set<string>();
+
+    if (!Array.isArray(mappings)) {
+      return ['endpoints must be a list'];
+    }
+
+    mappings.forEach((mapping, index) => {
+      const label = mapping?.name ? `'${mapping.name}'` : `#${index}`;
+
+      if (!mapping?.name) {
+        errors.push(`endpoint ${label} is missing name`);
+      } else if (names.has(mapping.name)) {
+        errors.push(`endpoint name '${mapping.name}' is used more than once`);
+      } else {
+        names.add(mapping.name);
+      }
+
+      if (!mapping?.channel) {
+        errors.push(`endpoint ${label} is missing channel`);
+      } else if (!OpenHIMEndpointTable.isAbsolute(mapping.channel) && !baseUrl) {
+        errors.push(`endpoint ${label} has a relative channel but no baseUrl is configured`);
+      }
+
+      if (Boolean(mapping?.username) !== Boolean(mapping?.password)) {
+        errors.push(`endpoint ${label} must set both username and password`);
+      }
+
+      if (
+        mapping?.timeout !== undefined &&
+        (typeof mapping.timeout !== 'number' || mapping.timeout <= 0)
+      ) {
+        errors.push(`endpoint ${label} timeout must be a positive number`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Resolve the endpoint for an event
+   *
+   * @param event - The CloudEvent
+   * @param endpointOverride - Channel chosen by routing (path, URL or entry name)
+   * @returns Endpoint and settings
+   */
+  public resolve(event: Record<string, unknown>, endpointOverride?: string): ResolvedEndpoint {
+    if (endpointOverride !== undefined) {
+      return this.resolveOverride(endpointOverride);
+    }
+
+    const entry = this.entries.find(({ mapping }) => this.matches(event, mapping));
+    return entry ? this.toResolved(entry.mapping, entry.url) : this.defaultEndpoint();
+  }
+
+  /**
+   * List entry names and URLs in match order, followed by the default endpoint
+   *
+   * @returns Entry names and URLs (credentials omitted)
+   */
+  public list(): Array<{ name: string; url: string }> {
+    return [
+      ...this.entries.map(({ mapping, url }) => ({ name: mapping.name, url })),
+      { name: 'default', url: this.defaults.defaultEndpoint },
+    ];
+  }
+
+  /**
+   * Resolve an endpoint chosen by routing
+   *
+   * An entry with the same name or URL lends its credentials and timeout.
+   */
+  private resolveOverride(endpointOverride: string): ResolvedEndpoint {
+    const url = OpenHIMEndpointTable.isAbsolute(endpointOverride) || !this.baseUrl
+      ? endpointOverride
+      : this.toUrl(endpointOverride);
+    const entry = this.entries.find(
+      ({ mapping, url: entryUrl }) => mapping.name === endpointOverride || entryUrl === url,
+    );
+
+    if (entry) {
+      return this.toResolved(entry.mapping, entry.url);
+    }
+
+    return { ...this.defaultEndpoint(), name: 'override', url };
+  }
+
+  /**
+   * Check whether an event matches an entry
+   */
+  private matches(event: Record<string, unknown>, mapping: OpenHIMEndpointMapping): boolean {
+    return (
+      this.matchEngine.matchPattern(String(event?.source ?? ''), mapping.source ?? '*') &&
+      this.matchEngine.matchPattern(String(event?.type ?? ''), mapping.type ?? '*') &&
+      this.matchEngine.matchPattern(String(event?.subject ?? ''), mapping.subject ?? '*')
+    );
+  }
+
+  /**
+   * Apply defaults to a matched entry
+   */
+  private toResolved(mapping: OpenHIMEndpointMapping, url: string): ResolvedEndpoint {
+    return {
+      name: mapping.name,
+      url,
+      username: mapping.username ?? this.defaults.username,
+      password: mapping.password ?? this.defaults.password,
+      timeout: mapping.timeout ?? this.defaults.timeout,
+    };
+  }
+
+  /**
+   * Endpoint for unmatched events
+   */
+  private defaultEndpoint(): ResolvedEndpoint {
+    return {
+      name: 'default',
+      url: this.defaults.defaultEndpoint,
+      username: this.defaults.username,
+      password: this.defaults.password,
+      timeout: this.defaults.timeout,
+    };
+  }
+
+  /**
+   * Join a channel path to the base URL
+   */
+  private toUrl(channel: string): string {
+    if (OpenHIMEndpointTable.isAbsolute(channel)) {
+      return channel;
+    }
+    return `${this.baseUrl!.replace(/\/+$/, '')}/${channel.replace(/^\/+/, '')}`;
+  }
+
+  /**
+   * Whether a channel is an absolute URL
+   */
+  private static isAbsolute(channel: string): boolean {
+    return /^https?:\/\//i.test(channel);
+  }
+}
+
+/**
+ * Load an endpoint mapping file
+ *
+ * @param filePath - Path to the YAML mapping file
+ * @param env - Environment used for ${VAR} references (defaults to process.env)
+ * @returns Mapping file contents
+ * @throws Error if the file cannot be read or references an unset variable
+ */
+export function loadEndpointMappingFile(
+  filePath: string,
+  env: NodeJS.ProcessEnv = process.env,
+): OpenHIMEndpointMappingFile {
+  try {
+    const parsed = (yaml.load(fs.readFileSync(filePath, 'utf8')) ?? {}) as Record<string, unknown>;
+    const contents = interpolateEnv(parsed, env) as Partial<OpenHIMEndpointMappingFile>;
+
+    return {
+      ...(contents.baseUrl && { baseUrl: contents.baseUrl }),
+      endpoints: contents.endpoints ?? [],
+    };
+  } catch (error) {
+    throw new Error(
+      `Failed to load OpenHIM endpoint mapping ${filePath}: ${(error as Error).message}`,
+    );
+  }
+}
@@ -4,40 +4,74 @@
  * Simple protocol bridge that converts CloudEvents to HTTP requests for OpenHIM.
  *
  * Key responsibilities:
- * 1. Map event.source to OpenHIM endpoint (simple mapping)
+ * 1. Map events to OpenHIM channels (configurable endpoint mapping table)
  * 2. Convert CloudEvent to HTTP POST request
- * 3. Send to OpenHIM with authentication
- * 4. Return HTTP response
- * 5. Track basic statistics
+ * 3. Send to OpenHIM with authentication over keep-alive connections
+ * 4. Retry transient failures with jittered exponential backoff
+ * 5. Stop calling failing endpoints (per-endpoint circuit breaker)
+ * 6. Propagate the trace context (traceparent/tracestate headers, one client span per attempt)
+ * 7. Return HTTP response
+ * 8. Track statistics (lifetime totals, and recent outcomes for backpressure)
  */
 
 import axios, { AxiosError, AxiosRequestConfig } from 'axios';
+import * as fs from 'fs';
+import http from 'http';
 import https from 'https';
-import { logger } from '@smile/common';
+import { logger, createSpan, endSpan, injectTraceContext, SpanKind } from '@smile/common';
+import { CircuitBreaker, CircuitBreakerConfig, CircuitBreakerSnapshot } from './circuit-breaker';
+import { OpenHIMEndpointMapping, OpenHIMEndpointTable, ResolvedEndpoint } from './endpoint-mapping';
+import { Histogram, HistogramSnapshot } from '../metrics/histogram';
+import { RollingWindow, RollingWindowStats } from './rolling-window';
 
 /**
  * Constants
  */
-const EVENT_SOURCES = {
-  HEALTH_SERVICE: 'urn:smile:health-service',
-  ORDERS_SERVICE: 'urn:smile:orders-service',
-} as const;
-
 const CONTENT_TYPE = 'application/cloudevents+json';
 const CORRELATION_HEADER = 'X-Correlation-ID';
+const RECENT_REQUESTS_RETENTION_MS = 5 * 60 * 1000;
+
+/** Gateway errors worth retrying (the upstream did not process the request) */
+const RETRYABLE_STATUS_CODES = [502, 503, 504];
+
+/** Transient network errors worth retrying (timeouts, refused or dropped connections) */
+const RETRYABLE_ERROR_CODES = [
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EPIPE',
+  'EAI_AGAIN',
+];
+
+const DEFAULT_RETRY_MAX_DELAY = 30000;
 
 /**
  * OpenHIM Bridge configuration
  */
 export interface OpenHIMConfig {
-  healthEndpoint: string; // For smile.health-service events
-  ordersEndpoint: string; // For smile.orders-service events
-  defaultEndpoint: string; // Fallback for unknown sources
-  username: string; // OpenHIM username
-  password: string; // OpenHIM password
-  timeout: number; // HTTP request timeout in ms
+  baseUrl?: string; // Base URL for relative channel paths in endpoint mappings
+  endpoints?: OpenHIMEndpointMapping[]; // Endpoint mapping table (first match wins)
+  defaultEndpoint: string; // Fallback for events no mapping matches
+  username: string; // OpenHIM username (unless overridden per channel)
+  password: string; // OpenHIM password (unless overridden per channel)
+  timeout: number; // HTTP request timeout in ms (unless overridden per channel)
   retryAttempts: number; // Number of retry attempts
-  retryDelay: number; // Delay between retries in ms
+  retryDelay: number; // Initial delay between retries in ms (doubles per attempt, jittered)
+  retryMaxDelay?: number; // Maximum delay between retries in ms (default 30000)
+  circuitBreaker?: CircuitBreakerConfig; // Per-endpoint circuit breaker
+  keepAlive?: boolean; // Reuse connections between requests (default true)
+  maxSockets?: number; // Maximum concurrent connections per host (default unlimited)
+  tls?: OpenHIMTlsConfig; // TLS verification for https endpoints
+}
+
+/**
+ * OpenHIM TLS configuration
+ */
+export interface OpenHIMTlsConfig {
+  rejectUnauthorized?: boolean; // Verify the server certificate (default true)
+  ca?: string; // PEM encoded CA certificate(s) to trust
+  caFile?: string; // Path to a PEM file with CA certificate(s) to trust
 }
 
 /**
@@ -60,6 +94,22 @@ export interface BridgeStats {
   successfulRequests: number;
   failedRequests: number;
   averageResponseTimeMs: number;
+  retries: number; // Retry attempts made
+  retriedRequests: number; // Requests that needed at least one retry
+  recoveredRequests: number; // Requests that succeeded after retrying
+  rejectedByCircuitBreaker: number; // Requests not sent because the circuit was open
+  circuitBreakers: Record<string, CircuitBreakerSnapshot>; // Breaker state per endpoint
+  endpoints: BridgeEndpointStats[]; // HTTP attempts per endpoint and status
+}
+
+/**
+ * HTTP attempts to an endpoint that ended with the same status
+ */
+export interface BridgeEndpointStats {
+  endpoint: string; // Endpoint URL
+  status: string; // HTTP status code, or the network error code (e.g. ECONNABORTED)
+  requests: number; // Attempts, including retries
+  responseTime: HistogramSnapshot; // Response time distribution
 }
 
 /**
@@ -69,17 +119,48 @@ export class OpenHIMBridge {
   private config: OpenHIMConfig;
   private stats: BridgeStats;
   private responseTimes: number[] = [];
+  private readonly circuitBreakers = new Map<string, CircuitBreaker>();
+  private readonly endpointTable: OpenHIMEndpointTable;
+  private endpointStats = new Map<string, { requests: number; responseTime: Histogram }>();
+  private readonly recentRequests = new RollingWindow(RECENT_REQUESTS_RETENTION_MS);
+  private readonly httpAgent: http.Agent;
+  private readonly httpsAgent: https.Agent;
 
   constructor(config: OpenHIMConfig) {
     this.validateConfig(config);
     this.config = config;
     this.stats = this.createInitialStats();
+    this.endpointTable = new OpenHIMEndpointTable(
+      config.endpoints ?? [],
+      {
+        defaultEndpoint: config.defaultEndpoint,
+        username: config.username,
+        password: config.password,
+        timeout: config.timeout,
+      },
+      config.baseUrl,
+    );
+
+    // Connections are reused across requests
+    const keepAlive = config.keepAlive ?? true;
+    const maxSockets = config.maxSockets ?? Infinity;
+    this.httpAgent = new http.Agent({ keepAlive, maxSockets });
+    this.httpsAgent = new https.Agent({
+      keepAlive,
+      maxSockets,
+      rejectUnauthorized: config.tls?.rejectUnauthorized ?? true,
+      ...this.loadCertificateAuthority(config.tls),
+    });
+
+    if (config.tls?.rejectUnauthorized === false) {
+      logger.warn('OpenHIM TLS certificate verification is disabled');
+    }
 
     logger.info('OpenHIM Bridge initialized', {
-      healthEndpoint: config.healthEndpoint,
-      ordersEndpoint: config.ordersEndpoint,
-      defaultEndpoint: config.defaultEndpoint,
+      endpoints: this.endpointTable.list(),
       timeout: config.timeout,
+      retryAttempts: config.retryAttempts,
+      keepAlive,
     });
   }
 
@@ -167,14 +248,6 @@ export class OpenHIMBridge {
    * @throws Error if configuration is invalid
    */
   private validateConfig(config: OpenHIMConfig): void {
-    if (!config.healthEndpoint || config.healthEndpoint.trim() === '') {
-      throw new Error('healthEndpoint is required');
-    }
-
-    if (!config.ordersEndpoint || config.ordersEndpoint.trim() === '') {
-      throw new Error('ordersEndpoint is required');
-    }
-
     if (!config.defaultEndpoint || config.defaultEndpoint.trim() === '') {
       throw new Error('defaultEndpoint is required');
     }
@@ -186,113 +259,299 @@ export class OpenHIMBridge {
     if (!config.password || config.password.trim() === '') {
       throw new Error('password is required');
     }
+
+    if (!Number.isInteger(config.retryAttempts) || config.retryAttempts < 0) {
+      throw new Error('retryAttempts must be a non-negative integer');
+    }
   }
 
   /**
-   * Get OpenHIM endpoint based on event source
+   * Load the CA certificates to trust
    *
-   * @param source - CloudEvent source field
-   * @returns OpenHIM endpoint URL
+   * @param tls - TLS configuration
+   * @returns Agent option with the CA, if configured
+   * @throws Error if the CA file cannot be read
    */
-  public getEndpointForSource(source: string): string {
-    if (source === EVENT_SOURCES.HEALTH_SERVICE) {
-      return this.config.healthEndpoint;
-    } else if (source === EVENT_SOURCES.ORDERS_SERVICE) {
-      return this.config.ordersEndpoint;
-    } else {
-      return this.config.defaultEndpoint;
+  private loadCertificateAuthority(tls: OpenHIMTlsConfig | undefined): { ca?: string } {
+    if (tls?.ca) {
+      return { ca: tls.ca };
     }
+
+    if (tls?.caFile) {
+      try {
+        return { ca: fs.readFileSync(tls.caFile, 'utf8') };
+      } catch (error) {
+        throw new Error(`Failed to read OpenHIM CA file: ${(error as Error).message}`);
+      }
+    }
+
+    return {};
+  }
+
+  /**
+   * Resolve the OpenHIM endpoint for an event from the endpoint mapping table
+   *
+   * @param event - The CloudEvent (matched on source, type and subject)
+   * @param endpointOverride - Channel chosen by routing (path, URL or mapping name)
+   * @returns Endpoint URL with its credentials and timeout
+   */
+  public resolveEndpoint(
+    event: Record<string, unknown>,
+    endpointOverride?: string,
+  ): ResolvedEndpoint {
+    return this.endpointTable.resolve(event, endpointOverride);
   }
 
   /**
    * Send CloudEvent to OpenHIM
    *
+   * Transient failures (timeouts, connection errors, 502/503/504) are retried up to
+   * retryAttempts times with jittered exponential backoff. Requests to an endpoint
+   * whose circuit breaker is open fail immediately.
+   *
    * @param event - CloudEvent to send
    * @param correlationId - Correlation ID for tracing
+   * @param endpointOverride - OpenHIM channel endpoint chosen by routing (optional)
    * @returns OpenHIM response
    */
-  public async sendToOpenHIM(event: any, correlationId: string): Promise<OpenHIMResponse> {
+  public async sendToOpenHIM(
+    event: any,
+    correlationId: string,
+    endpointOverride?: string,
+  ): Promise<OpenHIMResponse> {
     const startTime = Date.now();
 
-    // Determine endpoint based on source (declare outside try for error logging)
-    // NOTE: Currently all events go to /smile-default channel
-    // TODO: In future, route to specific channels based on event type or business logic
-    const endpoint = this.getEndpointForSource(event.source);
-
-    try {
-      // Build request configuration
-      const requestConfig: AxiosRequestConfig = {
-        headers: {
-          'Content-Type': CONTENT_TYPE,
-          [CORRELATION_HEADER]: correlationId,
-          Authorization: this.buildAuthHeader(),
-        },
-        timeout: this.config.timeout,
-        // DEV ONLY: Bypass SSL certificate validation for self-signed certs
-        // TODO: Remove in production or configure proper SSL certificates
-        httpsAgent: new https.Agent({
-          rejectUnauthorized: false,
-        }),
-      };
-
-      logger.info('Sending CloudEvent to OpenHIM', {
-        endpoint,
-        eventType: event.type,
-        eventSource: event.source,
-        eventId: event.id,
-        correlationId,
-      });
-
-      // Send HTTP POST request
-      const response = await axios.post(endpoint, event, requestConfig);
+    // Routed events carry their channel endpoint; otherwise use the endpoint mapping
+    const target = this.resolveEndpoint(event, endpointOverride);
+    const endpoint = target.url;
+    const breaker = this.getCircuitBreaker(endpoint);
+
+    // Build request configuration
+    const requestConfig: AxiosRequestConfig = {
+      headers: {
+        'Content-Type': CONTENT_TYPE,
+        [CORRELATION_HEADER]: correlationId,
+        Authorization: this.buildAuthHeader(target.username, target.password),
+      },
+      timeout: target.timeout,
+      httpAgent: this.httpAgent,
+      httpsAgent: this.httpsAgent,
+    };
 
-      // Calculate response time
-      const responseTime = Date.now() - startTime;
-      this.recordSuccess(responseTime);
+    for (let attempt = 0; ; attempt++) {
+      if (!breaker.tryAcquire()) {
+        return this.rejectOpenCircuit(endpoint, correlationId, attempt, startTime);
+      }
 
-      logger.info('OpenHIM request successful', {
-        endpoint,
-        statusCode: response.status,
-        statusText: response.statusText,
-        responseTime,
-        correlationId,
+      const attemptStart = Date.now();
+      const span = createSpan(`POST ${target.name}`, {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'http.request.method': 'POST',
+          'url.full': endpoint,
+          'http.request.resend_count': attempt,
+          'cloudevents.event_id': event.id,
+          'cloudevents.event_type': event.type,
+        },
       });
 
-      return {
-        success: true,
-        statusCode: response.status,
-        statusText: response.statusText,
-        data: response.data,
-        timestamp: new Date().toISOString(),
-      };
-    } catch (error) {
-      // Calculate response time (even for errors)
-      const responseTime = Date.now() - startTime;
-      this.recordFailure(responseTime);
+      try {
+        logger.info('Sending CloudEvent to OpenHIM', {
+          endpoint,
+          mapping: target.name,
+          eventType: event.type,
+          eventSource: event.source,
+          eventId: event.id,
+          correlationId,
+          attempt: attempt + 1,
+        });
 
-      // Log the full axios error (if available) for easier debugging
-      const axiosErr = error as AxiosError;
-      if (axiosErr.response) {
-        logger.error('OpenHIM HTTP error response body', {
+        // Send HTTP POST request
+        const response = await axios.post(endpoint, event, {
+          ...requestConfig,
+          headers: { ...requestConfig.headers, ...injectTraceContext(span) },
+        });
+        this.recordAttempt(endpoint, String(response.status), Date.now() - attemptStart);
+        span.setAttribute('http.response.status_code', response.status);
+        endSpan(span);
+        breaker.recordSuccess();
+
+        // Calculate response time
+        const responseTime = Date.now() - startTime;
+        this.recordSuccess(responseTime);
+        if (attempt > 0) {
+          this.stats.recoveredRequests++;
+        }
+
+        logger.info('OpenHIM request successful', {
           endpoint,
-          statusCode: axiosErr.response.status,
-          statusText: axiosErr.response.statusText,
-          data: axiosErr.response.data,
+          statusCode: response.status,
+          statusText: response.statusText,
+          responseTime,
           correlationId,
+          attempt: attempt + 1,
         });
+
+        return {
+          success: true,
+          statusCode: response.status,
+          statusText: response.statusText,
+          data: response.data,
+          timestamp: new Date().toISOString(),
+        };
+      } catch (error) {
+        const axiosErr = error as AxiosError;
+        this.recordAttempt(endpoint, this.getAttemptStatus(axiosErr), Date.now() - attemptStart);
+        if (axiosErr.response) {
+          span.setAttribute('http.response.status_code', axiosErr.response.status);
+        }
+        endSpan(span, error);
+
+        // Only an unreachable or failing endpoint counts against its breaker
+        if (!axiosErr.response || axiosErr.response.status >= 500) {
+          breaker.recordFailure();
+        } else {
+          breaker.recordSuccess();
+        }
+
+        if (this.isRetryable(axiosErr) && attempt < this.config.retryAttempts) {
+          const delay = this.getRetryDelay(attempt);
+          this.recordRetry(attempt);
+
+          logger.warn('OpenHIM request failed, retrying', {
+            endpoint,
+            statusCode: axiosErr.response?.status,
+            code: axiosErr.code,
+            error: axiosErr.message,
+            attempt: attempt + 1,
+            retryInMs: delay,
+            correlationId,
+          });
+
+          await this.sleep(delay);
+          continue;
+        }
+
+        // Calculate response time (even for errors)
+        const responseTime = Date.now() - startTime;
+        this.recordFailure(responseTime);
+
+        // Log the full axios error (if available) for easier debugging
+        if (axiosErr.response) {
+          logger.error('OpenHIM HTTP error response body', {
+            endpoint,
+            statusCode: axiosErr.response.status,
+            statusText: axiosErr.response.statusText,
+            data: axiosErr.response.data,
+            correlationId,
+          });
+        }
+
+        return this.handleError(error, correlationId);
       }
+    }
+  }
+
+  /**
+   * Release pooled connections
+   */
+  public destroy(): void {
+    this.httpAgent.destroy();
+    this.httpsAgent.destroy();
+  }
+
+  /**
+   * Get (or create) the circuit breaker for an endpoint
+   *
+   * @param endpoint - OpenHIM endpoint URL
+   * @returns The endpoint's circuit breaker
+   */
+  private getCircuitBreaker(endpoint: string): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(endpoint);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.config.circuitBreaker);
+      this.circuitBreakers.set(endpoint, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Fail a request without sending it because the endpoint's circuit is open
+   *
+   * @param endpoint - OpenHIM endpoint URL
+   * @param correlationId - Correlation ID for tracing
+   * @param attempt - Attempts already made for this request
+   * @param startTime - When the request started
+   * @returns OpenHIM error response
+   */
+  private rejectOpenCircuit(
+    endpoint: string,
+    correlationId: string,
+    attempt: number,
+    startTime: number,
+  ): OpenHIMResponse {
+    this.stats.rejectedByCircuitBreaker++;
+    this.recordFailure(attempt > 0 ? Date.now() - startTime : undefined);
+
+    logger.warn('OpenHIM circuit breaker open, request not sent', {
+      endpoint,
+      correlationId,
+      attempts: attempt,
+    });
+
+    return {
+      success: false,
+      error: `Circuit breaker open for ${endpoint}`,
+      timestamp: new Date().toISOString(),
+    };
+  }
 
-      return this.handleError(error, correlationId);
+  /**
+   * Check whether a failed request may be retried
+   *
+   * @param error - The request error
+   * @returns Whether the failure is transient
+   */
+  private isRetryable(error: AxiosError): boolean {
+    if (error.response) {
+      return RETRYABLE_STATUS_CODES.includes(error.response.status);
     }
+    return error.code !== undefined && RETRYABLE_ERROR_CODES.includes(error.code);
+  }
+
+  /**
+   * Backoff before a retry: exponential, capped, with jitter
+   *
+   * Half the delay is fixed and half is random, so retries from many
+   * consumers spread out without retrying too early.
+   *
+   * @param attempt - Zero-based attempt that failed
+   * @returns Delay in milliseconds
+   */
+  private getRetryDelay(attempt: number): number {
+    const maxDelay = this.config.retryMaxDelay ?? DEFAULT_RETRY_MAX_DELAY;
+    const delay = Math.min(maxDelay, this.config.retryDelay * Math.pow(2, attempt));
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+  }
+
+  /**
+   * Wait before retrying
+   *
+   * @param ms - Delay in milliseconds
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
   /**
    * Build Basic authentication header
    *
+   * @param username - Channel username
+   * @param password - Channel password
    * @returns Base64-encoded Basic auth header value
    */
-  private buildAuthHeader(): string {
-    const credentials = `${this.config.username}:${this.config.password}`;
+  private buildAuthHeader(username: string, password: string): string {
+    const credentials = `${username}:${password}`;
     const base64Credentials = Buffer.from(credentials).toString('base64');
     return `Basic ${base64Credentials}`;
   }
@@ -360,6 +619,7 @@ export class OpenHIMBridge {
   private recordSuccess(responseTimeMs: number): void {
     this.stats.totalRequests++;
     this.stats.successfulRequests++;
+    this.recentRequests.record(true, responseTimeMs);
     this.responseTimes.push(responseTimeMs);
     this.updateAverageResponseTime();
   }
@@ -367,13 +627,60 @@ export class OpenHIMBridge {
   /**
    * Record failed request
    *
-   * @param responseTimeMs - Response time in milliseconds
+   * @param responseTimeMs - Response time in milliseconds (omitted if nothing was sent)
    */
-  private recordFailure(responseTimeMs: number): void {
+  private recordFailure(responseTimeMs?: number): void {
     this.stats.totalRequests++;
     this.stats.failedRequests++;
-    this.responseTimes.push(responseTimeMs);
-    this.updateAverageResponseTime();
+    this.recentRequests.record(false, responseTimeMs);
+    if (responseTimeMs !== undefined) {
+      this.responseTimes.push(responseTimeMs);
+      this.updateAverageResponseTime();
+    }
+  }
+
+  /**
+   * Record an HTTP attempt
+   *
+   * @param endpoint - Endpoint URL
+   * @param status - HTTP status code or network error code
+   * @param responseTimeMs - Attempt duration in milliseconds
+   */
+  private recordAttempt(endpoint: string, status: string, responseTimeMs: number): void {
+    const key = `${status} ${endpoint}`;
+    let stats = this.endpointStats.get(key);
+    if (!stats) {
+      stats = { requests: 0, responseTime: new Histogram() };
+      this.endpointStats.set(key, stats);
+    }
+
+    stats.requests++;
+    stats.responseTime.observe(responseTimeMs);
+  }
+
+  /**
+   * Status label of a failed attempt
+   *
+   * @param error - The request error
+   * @returns HTTP status code, network error code or 'error'
+   */
+  private getAttemptStatus(error: AxiosError): string {
+    if (error.response) {
+      return String(error.response.status);
+    }
+    return error.code ?? 'error';
+  }
+
+  /**
+   * Record a retry
+   *
+   * @param attempt - Zero-based attempt that failed
+   */
+  private recordRetry(attempt: number): void {
+    this.stats.retries++;
+    if (attempt === 0) {
+      this.stats.retriedRequests++;
+    }
   }
 
   /**
@@ -395,7 +702,29 @@ export class OpenHIMBridge {
    * @returns Current statistics
    */
   public getStats(): BridgeStats {
-    return { ...this.stats };
+    const circuitBreakers: Record<string, CircuitBreakerSnapshot> = {};
+    for (const [endpoint, breaker] of this.circuitBreakers) {
+      circuitBreakers[endpoint] = breaker.getSnapshot();
+    }
+
+    const endpoints = [...this.endpointStats].map(([key, stats]) => ({
+      endpoint: key.slice(key.indexOf(' ') + 1),
+      status: key.slice(0, key.indexOf(' ')),
+      requests: stats.requests,
+      responseTime: stats.responseTime.snapshot(),
+    }));
+
+    return { ...this.stats, circuitBreakers, endpoints };
+  }
+
+  /**
+   * Get statistics of recent requests (including those rejected by a circuit breaker)
+   *
+   * @param since - Start of the period in milliseconds (at most 5 minutes ago)
+   * @returns Request count, failure rate and average latency since then
+   */
+  public getRecentStats(since: number): RollingWindowStats {
+    return this.recentRequests.getStats(since);
   }
 
   /**
@@ -404,6 +733,8 @@ export class OpenHIMBridge {
   public resetStats(): void {
     this.stats = this.createInitialStats();
     this.responseTimes = [];
+    this.endpointStats = new Map();
+    this.recentRequests.reset();
   }
 
   /**
@@ -417,6 +748,12 @@ export class OpenHIMBridge {
       successfulRequests: 0,
       failedRequests: 0,
       averageResponseTimeMs: 0,
+      retries: 0,
+      retriedRequests: 0,
+      recoveredRequests: 0,
+      rejectedByCircuitBreaker: 0,
+      circuitBreakers: {},
+      endpoints: [],
     };
   }
 }
@@ -0,0 +1,127 @@
+/**
+ * Rolling Window
+ *
+ * Recent request outcomes, for decisions based on current downstream health
+ * rather than lifetime totals:
+ * - Outcomes are counted in fixed time buckets (one second by default)
+ * - Buckets older than the retention period are dropped
+ * - Statistics can be read for any period within the retention
+ */
+
+/**
+ * Request statistics over a period
+ */
+export interface RollingWindowStats {
+  requests: number;
+  failures: number;
+  failureRate: number; // failures / requests (0 without requests)
+  averageLatencyMs: number; // Over requests that were sent (0 if none)
+}
+
+/**
+ * Counts of one bucket
+ */
+interface Bucket {
+  start: number;
+  requests: number;
+  failures: number;
+  timed: number; // Requests with a latency
+  latencySum: number;
+}
+
+/**
+ * Time-bucketed window of request outcomes
+ */
+export class RollingWindow {
+  private buckets: Bucket[] = [];
+
+  /**
+   * @param retentionMs - How long outcomes are kept
+   * @param bucketMs - Bucket width (the resolution of reads)
+   */
+  constructor(
+    private readonly retentionMs: number,
+    private readonly bucketMs = 1000,
+  ) {}
+
+  /**
+   * Record a request outcome
+   *
+   * @param success - Whether the request succeeded
+   * @param latencyMs - Request duration (omitted if nothing was sent)
+   * @param now - Current time in milliseconds
+   */
+  public record(success: boolean, latencyMs?: number, now = Date.now()): void {
+    const start = now - (now % this.bucketMs);
+    let bucket = this.buckets[this.buckets.length - 1];
+
+    if (!bucket || bucket.start !== start) {
+      bucket = { start, requests: 0, failures: 0, timed: 0, latencySum: 0 };
+      this.buckets.push(bucket);
+      this.prune(now);
+    }
+
+    bucket.requests++;
+    if (!success) {
+      bucket.failures++;
+    }
+    if (latencyMs !== undefined) {
+      bucket.timed++;
+      bucket.latencySum += latencyMs;
+    }
+  }
+
+  /**
+   * Get statistics of the outcomes recorded since a point in time
+   *
+   * Reads are bucket-aligned: the bucket containing `since` is included.
+   *
+   * @param since - Start of the period in milliseconds (clamped to the retention)
+   * @param now - Current time in milliseconds
+   * @returns Statistics of the period
+   */
+  public getStats(since: number, now = Date.now()): RollingWindowStats {
+    this.prune(now);
+    const from = since - (since % this.bucketMs);
+
+    let requests = 0;
+    let failures = 0;
+    let timed = 0;
+    let latencySum = 0;
+    for (const bucket of this.buckets) {
+      if (bucket.start >= from) {
+        requests += bucket.requests;
+        failures += bucket.failures;
+        timed += bucket.timed;
+        latencySum += bucket.latencySum;
+      }
+    }
+
+    return {
+      requests,
+      failures,
+      failureRate: requests > 0 ? failures / requests : 0,
+      averageLatencyMs: timed > 0 ? Math.round(latencySum / timed) : 0,
+    };
+  }
+
+  /**
+   * Forget every recorded outcome
+   */
+  public reset(): void {
+    this.buckets = [];
+  }
+
+  /**
+   * Drop buckets older than the retention period
+   */
+  private prune(now: number): void {
+    const oldest = now - this.retentionMs;
+    const firstKept = this.buckets.findIndex((bucket) => bucket.start + this.bucketMs > oldest);
+    if (firstKept === -1) {
+      this.buckets = [];
+    } else if (firstKept > 0) {
+      this.buckets = this.buckets.slice(firstKept);
+    }
+  }
+}
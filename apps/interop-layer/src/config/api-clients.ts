@@ -0,0 +1,89 @@
+/**
+ * API Clients
+ *
+ * Partners calling the HTTP APIs (CloudEvents ingress, subscriptions) are
+ * configured as clients with a unique name and API key.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Client identified by an API key
+ */
+export interface ApiClient {
+  name: string; // Unique client name (used in logs)
+  apiKey: string; // Sent as X-API-Key or Authorization: Bearer
+}
+
+/**
+ * Validate a list of API clients
+ *
+ * @param clients - Configured clients
+ * @returns Validation errors (empty if valid)
+ */
+export function validateApiClients(clients: ApiClient[]): string[] {
+  if (!Array.isArray(clients)) {
+    return ['clients must be a list'];
+  }
+
+  const errors: string[] = [];
+  const names = new Set<string>();
+  const apiKeys = new Set<string>();
+
+  clients.forEach((client, index) => {
+    const label = getClientLabel(client, index);
+
+    if (!client?.name) {
+      errors.push(`client ${label} is missing name`);
+    } else if (names.has(client.name)) {
+      errors.push(`client name '${client.name}' is used more than once`);
+    } else {
+      names.add(client.name);
+    }
+
+    if (!client?.apiKey) {
+      errors.push(`client ${label} is missing apiKey`);
+    } else if (apiKeys.has(client.apiKey)) {
+      errors.push(`client ${label} shares its apiKey with another client`);
+    } else {
+      apiKeys.add(client.apiKey);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Label of a client in validation errors (its name, or its position)
+ */
+export function getClientLabel(client: ApiClient | undefined, index: number): string {
+  return client?.name ? `'${client.name}'` : `#${index}`;
+}
+
+/**
+ * Find the client an API key belongs to
+ *
+ * Keys are compared in constant time.
+ *
+ * @param clients - Configured clients
+ * @param apiKey - Key sent by the caller
+ * @returns The client, or undefined if the key is missing or unknown
+ */
+export function findApiClient<T extends ApiClient>(
+  clients: T[],
+  apiKey: string | undefined,
+): T | undefined {
+  if (!apiKey) {
+    return undefined;
+  }
+
+  return clients.find((client) => keysMatch(client.apiKey, apiKey));
+}
+
+/**
+ * Compare API keys in constant time
+ */
+function keysMatch(expected: string, actual: string): boolean {
+  const digest = (key: string): Buffer => createHash('sha256').update(key).digest();
+  return timingSafeEqual(digest(expected), digest(actual));
+}
@@ -0,0 +1,40 @@
+/**
+ * Environment variable interpolation for YAML configuration files
+ *
+ * String values may reference ${ENV_VAR} or ${ENV_VAR:-default}.
+ */
+
+/** ${NAME} or ${NAME:-default} */
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Replace ${VAR} and ${VAR:-default} references in string values
+ *
+ * @param value - Parsed configuration (strings, lists and objects are walked)
+ * @param env - Environment to resolve references from
+ * @returns The configuration with references replaced
+ * @throws Error if a referenced variable is not set and has no default
+ */
+export function interpolateEnv(value: unknown, env: NodeJS.ProcessEnv): unknown {
+  if (typeof value === 'string') {
+    return value.replace(ENV_REFERENCE, (_match, name: string, fallback?: string) => {
+      const resolved = env[name] ?? fallback;
+      if (resolved === undefined) {
+        throw new Error(`Environment variable ${name} is not set`);
+      }
+      return resolved;
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolateEnv(item, env));
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateEnv(item, env)]),
+    );
+  }
+
+  return value;
+}
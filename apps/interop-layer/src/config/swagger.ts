@@ -15,7 +15,7 @@ const options: swaggerJsdoc.Options = {
       },
     ],
   },
-  apis: ['./src/index.ts'], // Path to the API docs
+  apis: ['./src/index.ts', './src/routes/*.ts'], // Path to the API docs
 };
 
 export const swaggerSpec = swaggerJsdoc(options);
@@ -0,0 +1,153 @@
+/**
+ * Backpressure Controller Unit Tests
+ *
+ * Tests the backpressure state machine:
+ * - Tripping on failure rate or latency once enough requests were made
+ * - Pausing, then probing with a doubling prefetch ratio back to normal
+ * - Tripping again when a probe fails
+ */
+
+import { RollingWindowStats } from '../../bridge/rolling-window';
+import { BackpressureController, BackpressureStatus } from '../backpressure-controller';
+
+describe('BackpressureController', () => {
+  const start = 1_700_000_000_000;
+  const healthy: RollingWindowStats = {
+    requests: 50,
+    failures: 0,
+    failureRate: 0,
+    averageLatencyMs: 100,
+  };
+  const failing: RollingWindowStats = {
+    requests: 50,
+    failures: 40,
+    failureRate: 0.8,
+    averageLatencyMs: 100,
+  };
+
+  let stats: RollingWindowStats;
+  let getRecentStats: jest.Mock<RollingWindowStats, [number]>;
+  let changes: BackpressureStatus[];
+
+  const createController = (config = {}): BackpressureController =>
+    new BackpressureController(getRecentStats, (status) => changes.push(status), {
+      window: 30000,
+      minRequests: 20,
+      failureRateThreshold: 0.5,
+      probeInterval: 10000,
+      rampSteps: 3,
+      ...config,
+    });
+
+  beforeEach(() => {
+    stats = healthy;
+    getRecentStats = jest.fn<RollingWindowStats, [number]>(() => stats);
+    changes = [];
+  });
+
+  it('should stay normal while the downstream is healthy', () => {
+    const controller = createController();
+
+    controller.check(start);
+
+    expect(getRecentStats).toHaveBeenCalledWith(start - 30000);
+    expect(changes).toEqual([]);
+    expect(controller.getStatus()).toEqual(
+      expect.objectContaining({ state: 'normal', prefetchRatio: null, trips: 0, window: healthy }),
+    );
+  });
+
+  it('should ignore failures below the minimum number of requests', () => {
+    const controller = createController();
+    stats = { ...failing, requests: 5, failures: 5, failureRate: 1 };
+
+    controller.check(start);
+
+    expect(controller.getStatus().state).toBe('normal');
+  });
+
+  it('should pause on a high failure rate, then probe back to normal', () => {
+    const controller = createController();
+    stats = failing;
+
+    controller.check(start);
+
+    expect(controller.getStatus()).toEqual(
+      expect.objectContaining({ state: 'paused', reason: 'failure rate 80%', trips: 1 }),
+    );
+
+    // Still paused until the probe interval elapsed
+    controller.check(start + 5000);
+    expect(controller.getStatus().state).toBe('paused');
+
+    stats = healthy;
+    controller.check(start + 10000);
+    controller.check(start + 20000);
+    controller.check(start + 30000);
+    controller.check(start + 40000);
+
+    expect(changes.map((change) => [change.state, change.prefetchRatio])).toEqual([
+      ['paused', null],
+      ['probing', 0.125],
+      ['probing', 0.25],
+      ['probing', 0.5],
+      ['normal', null],
+    ]);
+    expect(getRecentStats).toHaveBeenLastCalledWith(start + 30000);
+  });
+
+  it('should trip again when a probe fails', () => {
+    const controller = createController();
+    stats = failing;
+    controller.check(start);
+    controller.check(start + 10000);
+
+    stats = { requests: 2, failures: 2, failureRate: 1, averageLatencyMs: 0 };
+    controller.check(start + 15000);
+
+    expect(controller.getStatus()).toEqual(
+      expect.objectContaining({
+        state: 'paused',
+        reason: 'probe failed: failure rate 100%',
+        trips: 2,
+      }),
+    );
+  });
+
+  it('should throttle on high latency without pausing', () => {
+    const controller = createController({ mode: 'throttle', latencyThresholdMs: 2000 });
+    stats = { ...healthy, averageLatencyMs: 2500 };
+
+    controller.check(start);
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        state: 'probing',
+        mode: 'throttle',
+        prefetchRatio: 0.125,
+        reason: 'average latency 2500ms',
+      }),
+    ]);
+  });
+
+  it('should check periodically once started', () => {
+    jest.useFakeTimers();
+    try {
+      const controller = createController({ checkInterval: 1000 });
+      controller.start();
+
+      jest.advanceTimersByTime(3000);
+      controller.stop();
+      jest.advanceTimersByTime(3000);
+
+      expect(getRecentStats).toHaveBeenCalledTimes(3);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should reject invalid thresholds', () => {
+    expect(() => createController({ failureRateThreshold: 0 })).toThrow('failureRateThreshold');
+    expect(() => createController({ rampSteps: 0 })).toThrow('rampSteps');
+  });
+});
@@ -5,6 +5,7 @@
  */
 
 import { CloudEventValidator } from '../cloud-event-validator';
+import { SchemaRegistry } from '../../schemas/schema-registry';
 
 describe('CloudEventValidator', () => {
   let validator: CloudEventValidator;
@@ -164,6 +165,62 @@ describe('CloudEventValidator', () => {
     });
   });
 
+  describe('data schema validation', () => {
+    const event = {
+      specversion: '1.0',
+      type: 'order.approved',
+      source: 'urn:smile:orders-service',
+      id: 'evt-1',
+      data: { eventData: { orderId: 42 } },
+    };
+    let registry: SchemaRegistry;
+
+    beforeEach(() => {
+      registry = new SchemaRegistry();
+      registry.register('order.approved', '1.0', {
+        type: 'object',
+        properties: {
+          eventData: {
+            type: 'object',
+            required: ['orderId', 'approvedBy'],
+            properties: { orderId: { type: 'string' } },
+          },
+        },
+      });
+    });
+
+    it('should reject events whose data violates their schema', () => {
+      const result = new CloudEventValidator({ schemaRegistry: registry }).validate(event);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'data.eventData.approvedBy: is required',
+        'data.eventData.orderId: must be string',
+      ]);
+    });
+
+    it('should accept violating events in warn mode', () => {
+      const result = new CloudEventValidator({
+        schemaRegistry: registry,
+        schemaMode: 'warn',
+      }).validate(event);
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should not validate data when the envelope is invalid', () => {
+      const spy = jest.spyOn(registry, 'validate');
+
+      const result = new CloudEventValidator({ schemaRegistry: registry }).validate({
+        ...event,
+        id: undefined,
+      });
+
+      expect(result.errors).toEqual(['Missing required field: id']);
+      expect(spy).not.toHaveBeenCalled();
+    });
+  });
+
   describe('extractCorrelationId()', () => {
     it('should extract correlation ID from data.metadata.correlationId', () => {
       const event = {
@@ -0,0 +1,228 @@
+/**
+ * Consumer Topology Unit Tests
+ *
+ * Tests loading consumers and exchanges from a topology file:
+ * - Defaults merged into each consumer
+ * - Environment references and their conversion to numbers and booleans
+ * - Validation of consumers, exchanges and dead-letter exchanges
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  loadConsumerTopologyFile,
+  validateConsumerConfig,
+  validateConsumerTopology,
+} from '../consumer-topology';
+import { QueueConsumerConfig } from '../../messaging/types';
+
+describe('Consumer Topology', () => {
+  const consumer: QueueConsumerConfig = {
+    name: 'lab-consumer',
+    queue: 'interop.lab.queue',
+    exchange: 'lab.events',
+    exchangeType: 'topic',
+    routingKey: 'lab.#',
+    enabled: true,
+  };
+
+  describe('loadConsumerTopologyFile()', () => {
+    let directory: string;
+
+    const writeTopology = async (lines: string[]): Promise<string> => {
+      const filePath = path.join(directory, 'consumers.yml');
+      await fs.writeFile(filePath, lines.join('\n'));
+      return filePath;
+    };
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'consumer-topology-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should merge defaults into each consumer', async () => {
+      const filePath = await writeTopology([
+        'exchanges:',
+        '  - name: "lab.dlx"',
+        '    type: "fanout"',
+        'defaults:',
+        '  retry: { maxAttempts: 3, initialDelay: 1000, maxDelay: 5000, backoffMultiplier: 2 }',
+        '  dlq: { exchange: "interop.dlx" }',
+        '  options: { durable: true }',
+        'consumers:',
+        '  - name: "lab-consumer"',
+        '    queue: "interop.lab.queue"',
+        '    exchange: "lab.events"',
+        '    routingKey: "lab.#"',
+        '    prefetch: 20',
+        '    options: { messageTtl: 60000, deadLetterExchange: "lab.dlx" }',
+        '    dlq: { queue: "interop.lab.dlq" }',
+        '    consumerOptions: { parallel: true, maxParallel: 20 }',
+        '  - name: "audit-consumer"',
+        '    queue: "interop.audit.queue"',
+        '    exchange: "audit.events"',
+        '    exchangeType: "fanout"',
+        '    routingKey: ""',
+        '    enabled: false',
+        '    retry: null',
+      ]);
+
+      const topology = loadConsumerTopologyFile(filePath, {});
+
+      expect(topology.exchanges).toEqual([{ name: 'lab.dlx', type: 'fanout' }]);
+      expect(topology.consumers[0]).toEqual({
+        ...consumer,
+        prefetch: 20,
+        options: { durable: true, messageTtl: 60000, deadLetterExchange: 'lab.dlx' },
+        retry: { maxAttempts: 3, initialDelay: 1000, maxDelay: 5000, backoffMultiplier: 2 },
+        dlq: { queue: 'interop.lab.dlq', exchange: 'interop.dlx', routingKey: 'interop.lab.queue' },
+        consumerOptions: { parallel: true, maxParallel: 20 },
+      });
+      expect(topology.consumers[1]).toEqual({
+        name: 'audit-consumer',
+        queue: 'interop.audit.queue',
+        exchange: 'audit.events',
+        exchangeType: 'fanout',
+        routingKey: '',
+        enabled: false,
+        options: { durable: true },
+      });
+    });
+
+    it('should convert numeric and boolean settings from environment references', async () => {
+      const filePath = await writeTopology([
+        'consumers:',
+        '  - name: "lab-consumer"',
+        '    queue: "${LAB_QUEUE:-interop.lab.queue}"',
+        '    exchange: "lab.events"',
+        '    routingKey: "lab.#"',
+        '    enabled: "${LAB_ENABLED:-true}"',
+        '    prefetch: "${LAB_PREFETCH:-10}"',
+      ]);
+
+      const topology = loadConsumerTopologyFile(filePath, {
+        LAB_ENABLED: 'false',
+        LAB_PREFETCH: '50',
+      });
+
+      expect(topology.consumers[0]).toEqual(
+        expect.objectContaining({ queue: 'interop.lab.queue', enabled: false, prefetch: 50 }),
+      );
+    });
+
+    it('should reject an invalid topology', async () => {
+      const filePath = await writeTopology([
+        'consumers:',
+        '  - name: "lab-consumer"',
+        '    queue: "interop.lab.queue"',
+        '    routingKey: "lab.#"',
+        '    prefetch: "${LAB_PREFETCH:-many}"',
+      ]);
+
+      const load = (): unknown => loadConsumerTopologyFile(filePath, {});
+
+      expect(load).toThrow(/^Invalid consumer topology /);
+      expect(load).toThrow("consumer 'lab-consumer' is missing exchange");
+      expect(load).toThrow("consumer 'lab-consumer' prefetch must be an integer >= 0");
+    });
+
+    it('should report unreadable files', () => {
+      expect(() => loadConsumerTopologyFile(path.join(directory, 'missing.yml'), {})).toThrow(
+        'Failed to load consumer topology',
+      );
+    });
+
+    it('should load the bundled topology', () => {
+      const topology = loadConsumerTopologyFile(
+        path.resolve(__dirname, '../../../config/consumers.yml'),
+        {},
+      );
+
+      expect(topology.consumers.map((c) => c.name)).toEqual([
+        'health-consumer',
+        'orders-consumer',
+      ]);
+      expect(topology.consumers[1]).toEqual(
+        expect.objectContaining({
+          retry: { maxAttempts: 5, initialDelay: 5000, maxDelay: 60000, backoffMultiplier: 2 },
+          dlq: {
+            queue: 'interop.orders.dlq',
+            exchange: 'interop.dlx',
+            routingKey: 'interop.orders.queue',
+          },
+          deduplication: { window: 86400000 },
+          options: { maxPriority: 10 },
+        }),
+      );
+    });
+  });
+
+  describe('validateConsumerConfig()', () => {
+    it('should accept a valid consumer', () => {
+      expect(validateConsumerConfig(consumer)).toEqual([]);
+    });
+
+    it('should report invalid settings', () => {
+      const errors = validateConsumerConfig({
+        ...consumer,
+        exchangeType: 'x-delayed' as any,
+        options: { maxPriority: 256 },
+        retry: { maxAttempts: 0 } as any,
+        dlq: { queue: 'interop.lab.dlq' } as any,
+        deduplication: { key: 'uuid' as any },
+      });
+
+      expect(errors).toEqual([
+        "consumer 'lab-consumer' exchangeType must be one of topic, direct, fanout, headers",
+        "consumer 'lab-consumer' options.maxPriority must be an integer from 1 to 255",
+        "consumer 'lab-consumer' retry.maxAttempts must be an integer >= 1",
+        "consumer 'lab-consumer' retry.initialDelay is required",
+        "consumer 'lab-consumer' retry.maxDelay is required",
+        "consumer 'lab-consumer' retry.backoffMultiplier is required",
+        "consumer 'lab-consumer' dlq is missing exchange",
+        "consumer 'lab-consumer' dlq is missing routingKey",
+        "consumer 'lab-consumer' deduplication key must be one of id, content-hash, extension",
+      ]);
+    });
+  });
+
+  describe('validateConsumerTopology()', () => {
+    it('should require unique names and declared dead-letter exchanges', () => {
+      const errors = validateConsumerTopology({
+        exchanges: [
+          { name: 'lab.dlx', type: 'fanout' },
+          { name: 'lab.dlx', type: 'fanout' },
+        ],
+        consumers: [
+          consumer,
+          { ...consumer, options: { deadLetterExchange: 'audit.dlx' } },
+        ],
+      });
+
+      expect(errors).toEqual([
+        "exchange 'lab.dlx' is declared more than once",
+        "consumer name 'lab-consumer' is used more than once",
+        "consumer 'lab-consumer' dead-letter exchange 'audit.dlx' is not declared",
+      ]);
+    });
+
+    it('should accept a consumer DLQ exchange as dead-letter exchange', () => {
+      const errors = validateConsumerTopology({
+        exchanges: [],
+        consumers: [
+          {
+            ...consumer,
+            options: { deadLetterExchange: 'interop.dlx' },
+            dlq: { queue: 'interop.lab.dlq', exchange: 'interop.dlx', routingKey: 'lab' },
+          },
+        ],
+      });
+
+      expect(errors).toEqual([]);
+    });
+  });
+});
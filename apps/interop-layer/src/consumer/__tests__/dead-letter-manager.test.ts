@@ -0,0 +1,277 @@
+/**
+ * DeadLetterManager Unit Tests
+ *
+ * Tests DLQ depth, browsing, filtered replay and purge
+ */
+
+import { DeadLetterManager } from '../dead-letter-manager';
+import {
+  ATTEMPTS_HEADER,
+  LAST_ERROR_HEADER,
+  ORIGINAL_EXCHANGE_HEADER,
+  ORIGINAL_QUEUE_HEADER,
+  ORIGINAL_ROUTING_KEY_HEADER,
+} from '../retry-manager';
+import { QueueConsumerConfig } from '../../messaging/types';
+
+jest.mock('@smile/common', () => {
+  class BaseError extends Error {}
+  return {
+    logger: {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    },
+    NotFoundError: class NotFoundError extends BaseError {},
+    ValidationError: class ValidationError extends BaseError {},
+  };
+});
+
+describe('DeadLetterManager', () => {
+  let queue: any[];
+  let mockChannel: any;
+  let mockConnectionManager: any;
+  let consumers: QueueConsumerConfig[];
+  let manager: DeadLetterManager;
+
+  const buildMessage = (id: string, type: string, time: string): any => ({
+    content: Buffer.from(JSON.stringify({ id, type, source: 'urn:smile:orders-service', time })),
+    fields: { deliveryTag: 0 },
+    properties: {
+      contentType: 'application/cloudevents+json',
+      messageId: id,
+      priority: 8,
+      headers: {
+        'x-death': [
+          {
+            queue: 'interop.orders.queue.retry.5000',
+            reason: 'expired',
+            count: 1,
+            exchange: '',
+            'routing-keys': ['interop.orders.queue.retry.5000'],
+            time: { '!': 'timestamp', value: 1760000000 },
+          },
+        ],
+        [ORIGINAL_EXCHANGE_HEADER]: 'orders.events',
+        [ORIGINAL_ROUTING_KEY_HEADER]: `orders.${type}`,
+        [ORIGINAL_QUEUE_HEADER]: 'interop.orders.queue',
+        [LAST_ERROR_HEADER]: 'OpenHIM unavailable',
+        [ATTEMPTS_HEADER]: 4,
+        'ce-type': type,
+      },
+    },
+  });
+
+  beforeEach(() => {
+    queue = [
+      buildMessage('evt-1', 'order.created', '2026-01-01T10:00:00Z'),
+      buildMessage('evt-2', 'order.approved', '2026-01-02T10:00:00Z'),
+      buildMessage('evt-3', 'order.created', '2026-01-03T10:00:00Z'),
+    ];
+
+    // basic.get returns queued messages in order; unacked ones return on close
+    let cursor = 0;
+    mockChannel = {
+      checkQueue: jest.fn(async () => ({ messageCount: queue.length })),
+      get: jest.fn(async () => queue[cursor++] ?? false),
+      ack: jest.fn((message: any) => {
+        queue = queue.filter((m) => m !== message);
+        cursor--;
+      }),
+      publish: jest.fn((_exchange, _key, _content, _options, cb) => cb(null)),
+      close: jest.fn(async () => {
+        cursor = 0;
+      }),
+      on: jest.fn(),
+    };
+
+    mockConnectionManager = {
+      getConfirmChannel: jest.fn().mockResolvedValue(mockChannel),
+    };
+
+    consumers = [
+      {
+        name: 'orders-consumer',
+        queue: 'interop.orders.queue',
+        exchange: 'orders.events',
+        exchangeType: 'topic',
+        routingKey: 'orders.#',
+        enabled: true,
+        dlq: {
+          queue: 'interop.orders.dlq',
+          exchange: 'interop.dlx',
+          routingKey: 'interop.orders.queue',
+        },
+      },
+      {
+        name: 'health-consumer',
+        queue: 'interop.health.queue',
+        exchange: 'health.events',
+        exchangeType: 'topic',
+        routingKey: 'health.#',
+        enabled: true,
+      },
+    ];
+
+    manager = new DeadLetterManager(mockConnectionManager, consumers);
+  });
+
+  describe('getDepths()', () => {
+    it('should report the depth of consumers with a DLQ', async () => {
+      const depths = await manager.getDepths();
+
+      expect(depths).toEqual([
+        { consumer: 'orders-consumer', queue: 'interop.orders.dlq', messageCount: 3 },
+      ]);
+      expect(mockChannel.checkQueue).toHaveBeenCalledWith('interop.orders.dlq');
+      expect(mockChannel.close).toHaveBeenCalled();
+    });
+
+    it('should report errors per queue', async () => {
+      mockChannel.checkQueue.mockRejectedValue(new Error('NOT_FOUND - no queue'));
+
+      const depths = await manager.getDepths();
+
+      expect(depths[0]?.error).toBe('NOT_FOUND - no queue');
+    });
+  });
+
+  describe('listMessages()', () => {
+    it('should return a page without removing messages', async () => {
+      const page = await manager.listMessages('orders-consumer', 1, 1);
+
+      expect(page.total).toBe(3);
+      expect(page.offset).toBe(1);
+      expect(page.messages).toHaveLength(1);
+      expect(page.messages[0]).toMatchObject({
+        position: 1,
+        messageId: 'evt-2',
+        failureReason: 'OpenHIM unavailable',
+        attempts: 4,
+        originalQueue: 'interop.orders.queue',
+        originalExchange: 'orders.events',
+        originalRoutingKey: 'orders.order.approved',
+      });
+      expect(page.messages[0]?.event).toMatchObject({ type: 'order.approved' });
+      expect(page.messages[0]?.deaths[0]).toMatchObject({
+        queue: 'interop.orders.queue.retry.5000',
+        reason: 'expired',
+        count: 1,
+        time: new Date(1760000000 * 1000),
+      });
+      expect(mockChannel.ack).not.toHaveBeenCalled();
+      expect(queue).toHaveLength(3);
+    });
+
+    it('should stop at the end of the queue', async () => {
+      const page = await manager.listMessages('orders-consumer', 2, 50);
+
+      expect(page.messages.map((m) => m.messageId)).toEqual(['evt-3']);
+    });
+
+    it('should cap the page size', async () => {
+      await manager.listMessages('orders-consumer', 0, 1000);
+
+      expect(mockChannel.get.mock.calls.length).toBeLessThanOrEqual(
+        DeadLetterManager.MAX_PAGE_SIZE,
+      );
+    });
+
+    it('should throw for consumers without a DLQ', async () => {
+      await expect(manager.listMessages('health-consumer')).rejects.toThrow(
+        "No dead letter queue configured for consumer 'health-consumer'",
+      );
+    });
+  });
+
+  describe('replay()', () => {
+    it('should republish selected messages to their original destination', async () => {
+      const result = await manager.replay('orders-consumer', { messageIds: ['evt-2'] });
+
+      expect(result).toEqual({ scanned: 3, replayed: ['evt-2'], failed: [] });
+      expect(mockChannel.publish).toHaveBeenCalledTimes(1);
+
+      const [exchange, routingKey, content, options] = mockChannel.publish.mock.calls[0];
+      expect(exchange).toBe('orders.events');
+      expect(routingKey).toBe('orders.order.approved');
+      expect(JSON.parse(content.toString()).id).toBe('evt-2');
+      expect(options).toMatchObject({
+        persistent: true,
+        messageId: 'evt-2',
+        contentType: 'application/cloudevents+json',
+        priority: 8,
+      });
+      expect(options.headers).toEqual({ 'ce-type': 'order.approved' });
+
+      expect(queue.map((m) => m.properties.messageId)).toEqual(['evt-1', 'evt-3']);
+    });
+
+    it('should filter by type pattern and time range', async () => {
+      const result = await manager.replay('orders-consumer', {
+        type: 'order.created',
+        from: '2026-01-02T00:00:00Z',
+      });
+
+      expect(result.replayed).toEqual(['evt-3']);
+    });
+
+    it('should support wildcard patterns', async () => {
+      const result = await manager.replay('orders-consumer', { type: 'order.*' });
+
+      expect(result.replayed).toEqual(['evt-1', 'evt-2', 'evt-3']);
+      expect(queue).toHaveLength(0);
+    });
+
+    it('should fall back to the original queue via the default exchange', async () => {
+      const message = queue[0];
+      delete message.properties.headers[ORIGINAL_EXCHANGE_HEADER];
+      delete message.properties.headers[ORIGINAL_ROUTING_KEY_HEADER];
+      message.properties.headers['x-death'] = [];
+
+      await manager.replay('orders-consumer', { messageIds: ['evt-1'] });
+
+      const [exchange, routingKey] = mockChannel.publish.mock.calls[0];
+      expect(exchange).toBe('');
+      expect(routingKey).toBe('interop.orders.queue');
+    });
+
+    it('should keep messages in the DLQ when the publish fails', async () => {
+      mockChannel.publish.mockImplementation(
+        (_exchange: string, _key: string, _content: Buffer, _options: any, cb: any) =>
+          cb(new Error('Channel closed')),
+      );
+
+      const result = await manager.replay('orders-consumer', { type: 'order.*' });
+
+      expect(result.replayed).toEqual([]);
+      expect(result.failed).toEqual([{ messageId: 'evt-1', error: 'Channel closed' }]);
+      expect(mockChannel.ack).not.toHaveBeenCalled();
+      expect(queue).toHaveLength(3);
+    });
+
+    it('should reject an empty filter', async () => {
+      await expect(manager.replay('orders-consumer', {})).rejects.toThrow(
+        'Replay filter must select messages by id, type, source or time',
+      );
+      expect(mockConnectionManager.getConfirmChannel).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid timestamps', async () => {
+      await expect(manager.replay('orders-consumer', { from: 'yesterday' })).rejects.toThrow(
+        'from must be an ISO 8601 timestamp',
+      );
+    });
+  });
+
+  describe('purge()', () => {
+    it('should remove and return every message', async () => {
+      const purged = await manager.purge('orders-consumer');
+
+      expect(purged.map((m) => m.messageId)).toEqual(['evt-1', 'evt-2', 'evt-3']);
+      expect(purged[0]?.event).toMatchObject({ id: 'evt-1' });
+      expect(queue).toHaveLength(0);
+      expect(mockChannel.close).toHaveBeenCalled();
+    });
+  });
+});
@@ -5,12 +5,23 @@
  */
 
 import * as amqp from 'amqplib';
+import { tracing } from '@opentelemetry/sdk-node';
+import {
+  injectTraceContext,
+  startTracing,
+  SpanKind,
+  SpanStatusCode,
+  TracingHandle,
+} from '@smile/common';
 import { EventConsumer } from '../event-consumer';
+import { CloudEventValidator } from '../cloud-event-validator';
+import { SchemaRegistry } from '../../schemas/schema-registry';
 import { ConnectionManager } from '../../messaging/connection-manager';
 import { QueueConsumerConfig, ConsumerOptions, CloudEventHandler } from '../../messaging/types';
 
 // Mock logger
 jest.mock('@smile/common', () => ({
+  ...jest.requireActual('@smile/common'),
   logger: {
     info: jest.fn(),
     warn: jest.fn(),
@@ -134,6 +145,36 @@ describe('EventConsumer', () => {
       );
     });
 
+    it('should declare the queue with its configured options', async () => {
+      consumerConfig.options = {
+        exclusive: true,
+        messageTtl: 60000,
+        maxLength: 1000,
+        deadLetterExchange: 'test.dlx',
+        deadLetterRoutingKey: 'test',
+        maxPriority: 10,
+      };
+      const configured = new EventConsumer(
+        mockConnectionManager,
+        consumerConfig,
+        consumerOptions,
+        mockHandler,
+      );
+
+      await configured.start();
+
+      expect(mockChannel.assertQueue).toHaveBeenCalledWith('test-queue', {
+        durable: true,
+        autoDelete: false,
+        exclusive: true,
+        messageTtl: 60000,
+        maxLength: 1000,
+        deadLetterExchange: 'test.dlx',
+        deadLetterRoutingKey: 'test',
+        maxPriority: 10,
+      });
+    });
+
     it('should bind queue to exchange with routing key', async () => {
       await consumer.start();
 
@@ -172,6 +213,53 @@ describe('EventConsumer', () => {
       expect(mockChannel.prefetch).toHaveBeenCalledWith(10);
     });
 
+    it('should limit the prefetch to a share of the configured prefetch', async () => {
+      mockConnectionManager.getPrefetchCount = jest.fn().mockReturnValue(10);
+      await consumer.start();
+
+      await consumer.limitPrefetch(0.25);
+      expect(mockChannel.prefetch).toHaveBeenLastCalledWith(2);
+
+      await consumer.limitPrefetch(0.01);
+      expect(mockChannel.prefetch).toHaveBeenLastCalledWith(1);
+
+      await consumer.limitPrefetch(null);
+      expect(mockChannel.prefetch).toHaveBeenLastCalledWith(10);
+    });
+
+    it('should re-create a running consumer after changing its prefetch', async () => {
+      mockConnectionManager.getPrefetchCount = jest.fn().mockReturnValue(10);
+      await consumer.start();
+      jest.clearAllMocks();
+
+      await consumer.limitPrefetch(0.5);
+
+      // The broker applies a per-consumer prefetch only to consumers created after it
+      expect(mockChannel.cancel).toHaveBeenCalledWith('consumer-tag-1');
+      expect(mockChannel.prefetch).toHaveBeenCalledWith(5);
+      expect(mockChannel.cancel.mock.invocationCallOrder[0]).toBeLessThan(
+        mockChannel.prefetch.mock.invocationCallOrder[0],
+      );
+      expect(mockChannel.prefetch.mock.invocationCallOrder[0]).toBeLessThan(
+        mockChannel.consume.mock.invocationCallOrder[0],
+      );
+      expect(consumer.getStats().isActive).toBe(true);
+    });
+
+    it('should start a stopped consumer with the limited prefetch before consuming', async () => {
+      mockConnectionManager.getPrefetchCount = jest.fn().mockReturnValue(10);
+
+      await consumer.limitPrefetch(0.3);
+      expect(mockChannel.prefetch).not.toHaveBeenCalled();
+
+      await consumer.start();
+
+      expect(mockChannel.prefetch).toHaveBeenCalledWith(3);
+      expect(mockChannel.prefetch.mock.invocationCallOrder[0]).toBeLessThan(
+        mockChannel.consume.mock.invocationCallOrder[0],
+      );
+    });
+
     it('should update stats when started', async () => {
       await consumer.start();
 
@@ -227,6 +315,112 @@ describe('EventConsumer', () => {
 
       await expect(consumer.stop()).resolves.not.toThrow();
     });
+
+    it('should start again on a new channel', async () => {
+      mockChannel.close = jest.fn().mockResolvedValue(undefined);
+      await consumer.stop();
+
+      await consumer.start();
+
+      expect(mockChannel.close).toHaveBeenCalledTimes(1);
+      expect(mockConnectionManager.getChannel).toHaveBeenCalledTimes(2);
+      expect(mockChannel.consume).toHaveBeenCalledTimes(2);
+      expect(consumer.getStats().isActive).toBe(true);
+    });
+
+    it('should close the channel on close', async () => {
+      mockChannel.close = jest.fn().mockResolvedValue(undefined);
+
+      await consumer.close();
+
+      expect(mockChannel.cancel).toHaveBeenCalledWith('consumer-tag-1');
+      expect(mockChannel.close).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('graceful drain', () => {
+    let messageCallback: (msg: amqp.ConsumeMessage | null) => Promise<void>;
+    let finishHandler: () => void;
+
+    const createMessage = (id: string, deliveryTag: number): amqp.ConsumeMessage =>
+      ({
+        content: Buffer.from(
+          JSON.stringify({ specversion: '1.0', type: 'test.event', source: 'test', id }),
+        ),
+        fields: { deliveryTag, redelivered: false, exchange: 'test-exchange', routingKey: 'test' },
+        properties: { contentType: 'application/json', messageId: id, headers: {} },
+      }) as any;
+
+    beforeEach(async () => {
+      mockHandler.mockImplementation(
+        () =>
+          new Promise<void>((resolve) => {
+            finishHandler = resolve;
+          }),
+      );
+      await consumer.start();
+      messageCallback = mockChannel.consume.mock.calls[0][1];
+    });
+
+    it('should wait for in-flight messages to be acked before stopping', async () => {
+      const message = createMessage('msg-1', 1);
+      const processing = messageCallback(message);
+
+      const stopping = consumer.stop(1000);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockChannel.cancel).toHaveBeenCalledWith('consumer-tag-1');
+      expect(consumer.getStats()).toEqual(
+        expect.objectContaining({ isDraining: true, messagesInFlight: 1 }),
+      );
+
+      finishHandler();
+      await Promise.all([processing, stopping]);
+
+      expect(mockChannel.ack).toHaveBeenCalledWith(message);
+      expect(mockChannel.nack).not.toHaveBeenCalled();
+      expect(consumer.getStats()).toEqual(
+        expect.objectContaining({ isDraining: false, messagesInFlight: 0 }),
+      );
+    });
+
+    it('should requeue messages still in flight at the drain deadline', async () => {
+      const message = createMessage('msg-1', 1);
+      const processing = messageCallback(message);
+
+      await consumer.stop(10);
+
+      expect(mockChannel.nack).toHaveBeenCalledWith(message, false, true);
+      expect(consumer.getStats()).toEqual(
+        expect.objectContaining({ messagesInFlight: 0, messagesRequeuedOnDrain: 1 }),
+      );
+
+      // The late handler must not settle the delivery a second time
+      finishHandler();
+      await processing;
+
+      expect(mockChannel.ack).not.toHaveBeenCalled();
+      expect(mockChannel.nack).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use the configured drain timeout', async () => {
+      const drainingConsumer = new EventConsumer(
+        mockConnectionManager,
+        consumerConfig,
+        { ...consumerOptions, drainTimeout: 10 },
+        mockHandler,
+      );
+      await drainingConsumer.start();
+      const callback = mockChannel.consume.mock.calls[1][1];
+      const message = createMessage('msg-2', 2);
+      const processing = callback(message);
+
+      await drainingConsumer.stop();
+
+      expect(mockChannel.nack).toHaveBeenCalledWith(message, false, true);
+      finishHandler();
+      await processing;
+    });
   });
 
   describe('message handling', () => {
@@ -351,6 +545,31 @@ describe('EventConsumer', () => {
       expect(stats.messagesFailed).toBe(0);
     });
 
+    it('should record event latency by message priority', async () => {
+      const message = (id: string, priority?: number): amqp.ConsumeMessage =>
+        ({
+          content: Buffer.from(
+            JSON.stringify({
+              specversion: '1.0',
+              type: 'test.event',
+              source: 'test',
+              id,
+              time: new Date(Date.now() - 2000).toISOString(),
+            }),
+          ),
+          fields: { deliveryTag: 1, redelivered: false, exchange: 'test-exchange', routingKey: 'x' },
+          properties: { messageId: id, headers: {}, ...(priority !== undefined && { priority }) },
+        }) as any;
+
+      await messageCallback(message('msg-urgent', 10));
+      await messageCallback(message('msg-routine'));
+
+      const { latencyByPriority } = consumer.getStats();
+      expect(latencyByPriority.map(({ priority }) => priority)).toEqual([0, 10]);
+      expect(latencyByPriority[1]!.latency.count).toBe(1);
+      expect(latencyByPriority[1]!.latency.sum).toBeGreaterThanOrEqual(2);
+    });
+
     it('should track failed messages', async () => {
       mockHandler.mockRejectedValue(new Error('Handler error'));
 
@@ -403,6 +622,519 @@ describe('EventConsumer', () => {
       await dedupCallback(mockMessage);
       expect(mockHandler).toHaveBeenCalledTimes(1); // Should not call handler again
     });
+
+    it('should apply per-consumer deduplication overrides', async () => {
+      const dedupConsumer = new EventConsumer(
+        mockConnectionManager,
+        {
+          ...consumerConfig,
+          deduplication: { enabled: true, key: 'extension', extension: 'idempotencykey' },
+        },
+        consumerOptions,
+        mockHandler,
+      );
+
+      await dedupConsumer.start();
+      const dedupCallback = mockChannel.consume.mock.calls[1][1];
+
+      const buildMessage = (id: string): amqp.ConsumeMessage =>
+        ({
+          content: Buffer.from(JSON.stringify({
+            specversion: '1.0',
+            type: 'order.created',
+            source: 'test',
+            id,
+            idempotencykey: 'invoice-42',
+          })),
+          fields: { deliveryTag: 1, redelivered: false, exchange: 'test-exchange', routingKey: 'k' },
+          properties: { messageId: id, headers: {} },
+        }) as any;
+
+      // Same idempotency key under a new event id after a redeploy
+      await dedupCallback(buildMessage('evt-1'));
+      await dedupCallback(buildMessage('evt-2'));
+
+      expect(mockHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should require an extension attribute for the extension key strategy', () => {
+      expect(
+        () =>
+          new EventConsumer(
+            mockConnectionManager,
+            { ...consumerConfig, deduplication: { key: 'extension' } },
+            consumerOptions,
+            mockHandler,
+          ),
+      ).toThrow("deduplication key 'extension' requires an extension attribute");
+    });
+  });
+
+  describe('trace continuation', () => {
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    const producerSpanId = '00f067aa0ba902b7';
+    const exporter = new tracing.InMemorySpanExporter();
+    let tracingHandle: TracingHandle;
+    let messageCallback: (msg: amqp.ConsumeMessage | null) => Promise<void>;
+
+    beforeAll(() => {
+      tracingHandle = startTracing({
+        serviceName: 'interop-layer-test',
+        spanProcessor: new tracing.SimpleSpanProcessor(exporter),
+      });
+    });
+
+    afterAll(async () => {
+      await tracingHandle.shutdown();
+    });
+
+    beforeEach(async () => {
+      exporter.reset();
+      await consumer.start();
+      messageCallback = mockChannel.consume.mock.calls[0][1];
+    });
+
+    const tracedMessage = (): amqp.ConsumeMessage =>
+      ({
+        content: Buffer.from(
+          JSON.stringify({
+            specversion: '1.0',
+            type: 'test.event',
+            source: 'test',
+            id: 'msg-traced',
+            traceparent: `00-${traceId}-${producerSpanId}-01`,
+            tracestate: 'smile=1',
+          }),
+        ),
+        fields: { deliveryTag: 1, redelivered: false, exchange: 'test-exchange', routingKey: 'k' },
+        properties: { messageId: 'msg-traced', headers: {} },
+      }) as any;
+
+    it('should handle the event in a consumer span continuing the producer trace', async () => {
+      let handlerTraceparent: string | undefined;
+      mockHandler.mockImplementation(async () => {
+        handlerTraceparent = injectTraceContext().traceparent;
+      });
+
+      await messageCallback(tracedMessage());
+
+      const [span] = exporter.getFinishedSpans();
+      expect(span?.name).toBe('test-queue process');
+      expect(span?.kind).toBe(SpanKind.CONSUMER);
+      expect(span?.spanContext().traceId).toBe(traceId);
+      expect(span?.parentSpanId).toBe(producerSpanId);
+      expect(span?.attributes['cloudevents.event_id']).toBe('msg-traced');
+      expect(handlerTraceparent).toBe(`00-${traceId}-${span?.spanContext().spanId}-01`);
+    });
+
+    it('should mark the span failed when the handler throws', async () => {
+      mockHandler.mockRejectedValue(new Error('OpenHIM unavailable'));
+
+      await messageCallback(tracedMessage());
+
+      const [span] = exporter.getFinishedSpans();
+      expect(span?.status).toEqual({
+        code: SpanStatusCode.ERROR,
+        message: 'OpenHIM unavailable',
+      });
+    });
+  });
+
+  describe('delayed retry', () => {
+    let retryConsumer: EventConsumer;
+    let retryCallback: (msg: amqp.ConsumeMessage | null) => Promise<void>;
+
+    const buildMessage = (content: string, deaths: any[] = []): amqp.ConsumeMessage =>
+      ({
+        content: Buffer.from(content),
+        fields: { deliveryTag: 1, redelivered: false, exchange: 'test-exchange', routingKey: 'k' },
+        properties: { messageId: 'msg-retry', headers: { 'x-death': deaths } },
+      }) as any;
+
+    const validEvent = JSON.stringify({
+      specversion: '1.0',
+      type: 'test.event',
+      source: 'test',
+      id: 'msg-retry',
+    });
+
+    beforeEach(async () => {
+      mockChannel.publish = jest.fn((_exchange, _key, _content, _options, cb) => cb(null));
+      mockChannel.on = jest.fn();
+
+      retryConsumer = new EventConsumer(
+        mockConnectionManager,
+        {
+          ...consumerConfig,
+          retry: { maxAttempts: 3, initialDelay: 1000, maxDelay: 10000, backoffMultiplier: 2 },
+          dlq: { queue: 'test-queue.dlq', exchange: 'test.dlx', routingKey: 'test-queue' },
+        },
+        { ...consumerOptions, enableDeduplication: true },
+        mockHandler,
+      );
+
+      await retryConsumer.start();
+      retryCallback = mockChannel.consume.mock.calls[0][1];
+    });
+
+    it('should assert retry queues on start', () => {
+      expect(mockChannel.assertQueue).toHaveBeenCalledWith(
+        'test-queue.retry.1000',
+        expect.objectContaining({ messageTtl: 1000, deadLetterRoutingKey: 'test-queue' }),
+      );
+      expect(mockChannel.assertQueue).toHaveBeenCalledWith(
+        'test-queue.retry.2000',
+        expect.objectContaining({ messageTtl: 2000 }),
+      );
+    });
+
+    it('should republish failed messages to a retry queue and ack the original', async () => {
+      mockHandler.mockRejectedValue(new Error('OpenHIM unavailable'));
+      const message = buildMessage(validEvent);
+
+      await retryCallback(message);
+
+      expect(mockChannel.publish.mock.calls[0][1]).toBe('test-queue.retry.1000');
+      expect(mockChannel.ack).toHaveBeenCalledWith(message);
+      expect(mockChannel.nack).not.toHaveBeenCalled();
+      expect(retryConsumer.getStats().messagesDLQ).toBe(0);
+    });
+
+    it('should carry the destinations that accepted the event to the retry', async () => {
+      mockHandler.mockImplementation(async (_event, context) => {
+        context.deliveredDestinations.add('orders|openhim|');
+        throw new Error('Warehouse queue unavailable');
+      });
+
+      await retryCallback(buildMessage(validEvent));
+
+      expect(mockChannel.publish.mock.calls[0][3].headers['x-delivered-destinations']).toEqual([
+        'orders|openhim|',
+      ]);
+    });
+
+    it('should not retry a delivery requeued by a drain', async () => {
+      let failHandler: (error: Error) => void = () => undefined;
+      mockHandler.mockImplementation(
+        () =>
+          new Promise<void>((_resolve, reject) => {
+            failHandler = reject;
+          }),
+      );
+      const message = buildMessage(validEvent);
+      const processing = retryCallback(message);
+
+      await retryConsumer.stop(10);
+      expect(mockChannel.nack).toHaveBeenCalledWith(message, false, true);
+
+      // The late failure must neither republish nor settle the delivery again
+      failHandler(new Error('OpenHIM unavailable'));
+      await processing;
+
+      expect(mockChannel.publish).not.toHaveBeenCalled();
+      expect(mockChannel.ack).not.toHaveBeenCalled();
+      expect(mockChannel.nack).toHaveBeenCalledTimes(1);
+    });
+
+    it('should process the retried delivery despite deduplication', async () => {
+      mockHandler.mockRejectedValueOnce(new Error('OpenHIM unavailable'));
+
+      await retryCallback(buildMessage(validEvent));
+      await retryCallback(
+        buildMessage(validEvent, [{ queue: 'test-queue.retry.1000', reason: 'expired', count: 1 }]),
+      );
+
+      expect(mockHandler).toHaveBeenCalledTimes(2);
+      expect(retryConsumer.getStats().messagesProcessed).toBe(1);
+    });
+
+    it('should let later events of the subject overtake a delayed retry', async () => {
+      const orderEvent = (id: string) =>
+        JSON.stringify({
+          specversion: '1.0',
+          type: 'test.event',
+          source: 'test',
+          id,
+          subject: 'order-1',
+        });
+      mockHandler.mockRejectedValueOnce(new Error('OpenHIM unavailable'));
+
+      await retryCallback(buildMessage(orderEvent('approved')));
+      await retryCallback(buildMessage(orderEvent('shipped')));
+      await retryCallback(
+        buildMessage(orderEvent('approved'), [
+          { queue: 'test-queue.retry.1000', reason: 'expired', count: 1 },
+        ]),
+      );
+
+      // Ordering holds per delivery only: the retried event is handled after the later one
+      expect(mockHandler.mock.calls.map(([event]) => event.id)).toEqual([
+        'approved',
+        'shipped',
+        'approved',
+      ]);
+      expect(mockChannel.publish).toHaveBeenCalledTimes(1);
+    });
+
+    it('should dead-letter after maxAttempts and count it', async () => {
+      mockHandler.mockRejectedValue(new Error('OpenHIM unavailable'));
+
+      await retryCallback(
+        buildMessage(validEvent, [
+          { queue: 'test-queue.retry.1000', reason: 'expired', count: 1 },
+          { queue: 'test-queue.retry.2000', reason: 'expired', count: 1 },
+        ]),
+      );
+
+      expect(mockChannel.publish.mock.calls[0][0]).toBe('test.dlx');
+      expect(retryConsumer.getStats().messagesDLQ).toBe(1);
+    });
+
+    it('should dead-letter invalid messages without retrying', async () => {
+      await retryCallback(buildMessage('invalid json'));
+
+      expect(mockChannel.publish.mock.calls[0][0]).toBe('test.dlx');
+      expect(mockChannel.ack).toHaveBeenCalled();
+      expect(retryConsumer.getStats().messagesDLQ).toBe(1);
+      expect(retryConsumer.getStats().messagesFailed).toBe(1);
+    });
+
+    it('should dead-letter events whose data violates their schema', async () => {
+      const registry = new SchemaRegistry();
+      registry.register('test.event', '1.0', {
+        type: 'object',
+        required: ['orderId'],
+      });
+      const schemaConsumer = new EventConsumer(
+        mockConnectionManager,
+        {
+          ...consumerConfig,
+          dlq: { queue: 'test-queue.dlq', exchange: 'test.dlx', routingKey: 'test-queue' },
+        },
+        consumerOptions,
+        mockHandler,
+        undefined,
+        new CloudEventValidator({ schemaRegistry: registry }),
+      );
+      await schemaConsumer.start();
+      const callback = mockChannel.consume.mock.calls[1][1];
+
+      await callback(buildMessage(JSON.stringify({ ...JSON.parse(validEvent), data: {} })));
+
+      expect(mockHandler).not.toHaveBeenCalled();
+      expect(mockChannel.publish.mock.calls[0][0]).toBe('test.dlx');
+      expect(mockChannel.publish.mock.calls[0][3].headers['x-last-error']).toBe(
+        'Invalid CloudEvent: data.orderId: is required',
+      );
+    });
+
+    it('should requeue the message when republishing fails', async () => {
+      mockHandler.mockRejectedValue(new Error('OpenHIM unavailable'));
+      mockChannel.publish.mockImplementation(
+        (_exchange: string, _key: string, _content: Buffer, _options: any, cb: any) =>
+          cb(new Error('Channel closed')),
+      );
+      const message = buildMessage(validEvent);
+
+      await retryCallback(message);
+
+      expect(mockChannel.nack).toHaveBeenCalledWith(message, false, true);
+      expect(mockChannel.ack).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('batch content mode', () => {
+    const buildBatch = (events: any[]): amqp.ConsumeMessage =>
+      ({
+        content: Buffer.from(JSON.stringify(events)),
+        fields: { deliveryTag: 7, redelivered: false, exchange: 'test-exchange', routingKey: 'k' },
+        properties: {
+          contentType: 'application/cloudevents-batch+json',
+          messageId: 'batch-1',
+          headers: {},
+        },
+      }) as any;
+
+    const event = (id: string) => ({ specversion: '1.0', type: 'test.event', source: 'test', id });
+
+    it('should process each event and ack the batch once', async () => {
+      await consumer.start();
+      const callback = mockChannel.consume.mock.calls[0][1];
+      const batch = buildBatch([event('evt-1'), event('evt-2'), event('evt-3')]);
+
+      await callback(batch);
+
+      expect(mockHandler).toHaveBeenCalledTimes(3);
+      expect(mockHandler.mock.calls.map(([e]) => e.id)).toEqual(['evt-1', 'evt-2', 'evt-3']);
+      expect(mockChannel.ack).toHaveBeenCalledTimes(1);
+      expect(mockChannel.ack).toHaveBeenCalledWith(batch);
+      expect(consumer.getStats()).toMatchObject({ messagesConsumed: 3, messagesProcessed: 3 });
+    });
+
+    it('should nack the batch if any event fails without retry', async () => {
+      await consumer.start();
+      const callback = mockChannel.consume.mock.calls[0][1];
+      mockHandler.mockRejectedValueOnce(new Error('OpenHIM unavailable'));
+      const batch = buildBatch([event('evt-1'), event('evt-2')]);
+
+      await callback(batch);
+
+      expect(mockChannel.ack).not.toHaveBeenCalled();
+      expect(mockChannel.nack).toHaveBeenCalledTimes(1);
+      expect(mockChannel.nack).toHaveBeenCalledWith(batch, false, false);
+      expect(consumer.getStats()).toMatchObject({ messagesProcessed: 1, messagesFailed: 1 });
+    });
+
+    it('should retry only the failed events when retry is configured', async () => {
+      mockChannel.publish = jest.fn((_exchange, _key, _content, _options, cb) => cb(null));
+      mockChannel.on = jest.fn();
+      const retryConsumer = new EventConsumer(
+        mockConnectionManager,
+        {
+          ...consumerConfig,
+          retry: { maxAttempts: 3, initialDelay: 1000, maxDelay: 10000, backoffMultiplier: 2 },
+        },
+        consumerOptions,
+        mockHandler,
+      );
+      await retryConsumer.start();
+      const callback = mockChannel.consume.mock.calls[0][1];
+      mockHandler.mockImplementation(async (e: any) => {
+        if (e.id === 'evt-2') {
+          throw new Error('OpenHIM unavailable');
+        }
+      });
+      const batch = buildBatch([event('evt-1'), event('evt-2'), { id: 'invalid' }]);
+
+      await callback(batch);
+
+      const published = mockChannel.publish.mock.calls.map(([, key, content, options]: any[]) => ({
+        key,
+        id: JSON.parse(content.toString()).id,
+        contentType: options.contentType,
+      }));
+      expect(published).toEqual([
+        { key: 'test-queue.retry.1000', id: 'evt-2', contentType: 'application/cloudevents+json' },
+      ]);
+      // The invalid event has no DLQ and is nacked, so the batch is nacked
+      expect(mockChannel.nack).toHaveBeenCalledWith(batch, false, false);
+      expect(mockChannel.ack).not.toHaveBeenCalled();
+    });
+
+    it('should ack an empty batch', async () => {
+      await consumer.start();
+      const callback = mockChannel.consume.mock.calls[0][1];
+      const batch = buildBatch([]);
+
+      await callback(batch);
+
+      expect(mockChannel.ack).toHaveBeenCalledWith(batch);
+      expect(mockHandler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('parallel consumption', () => {
+    let parallelConsumer: EventConsumer;
+    let parallelCallback: (msg: amqp.ConsumeMessage | null) => Promise<void>;
+    let releases: Map<string, () => void>;
+    let started: string[];
+
+    const buildMessage = (id: string, subject?: string): amqp.ConsumeMessage =>
+      ({
+        content: Buffer.from(
+          JSON.stringify({ specversion: '1.0', type: 'order.event', source: 'test', id, subject }),
+        ),
+        fields: { deliveryTag: 1, redelivered: false, exchange: 'test-exchange', routingKey: 'k' },
+        properties: { messageId: id, headers: {} },
+      }) as any;
+
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+    beforeEach(async () => {
+      releases = new Map();
+      started = [];
+      mockHandler.mockImplementation(
+        (event: any) =>
+          new Promise<void>((resolve) => {
+            started.push(event.id);
+            releases.set(event.id, resolve);
+          }),
+      );
+
+      parallelConsumer = new EventConsumer(
+        mockConnectionManager,
+        consumerConfig,
+        { ...consumerOptions, parallel: true, maxParallel: 2 },
+        mockHandler,
+      );
+
+      await parallelConsumer.start();
+      parallelCallback = mockChannel.consume.mock.calls[0][1];
+    });
+
+    it('should default the prefetch to maxParallel', () => {
+      expect(mockChannel.prefetch).toHaveBeenCalledWith(2);
+    });
+
+    it('should process up to maxParallel messages at once', async () => {
+      void parallelCallback(buildMessage('evt-1', 'order-1'));
+      void parallelCallback(buildMessage('evt-2', 'order-2'));
+      void parallelCallback(buildMessage('evt-3', 'order-3'));
+      await flush();
+
+      expect(started).toEqual(['evt-1', 'evt-2']);
+
+      releases.get('evt-2')!();
+      await flush();
+
+      expect(started).toEqual(['evt-1', 'evt-2', 'evt-3']);
+    });
+
+    it('should keep events with the same subject in order', async () => {
+      void parallelCallback(buildMessage('approved', 'order-1'));
+      void parallelCallback(buildMessage('shipped', 'order-1'));
+      await flush();
+
+      expect(started).toEqual(['approved']);
+
+      releases.get('approved')!();
+      await flush();
+
+      expect(started).toEqual(['approved', 'shipped']);
+      expect(mockChannel.ack).toHaveBeenCalledTimes(1);
+    });
+
+    it('should order events by a configured attribute', async () => {
+      const keyedConsumer = new EventConsumer(
+        mockConnectionManager,
+        consumerConfig,
+        { ...consumerOptions, parallel: true, maxParallel: 2, orderingKey: 'id' },
+        mockHandler,
+      );
+      await keyedConsumer.start();
+      const keyedCallback = mockChannel.consume.mock.calls[1][1];
+
+      void keyedCallback(buildMessage('evt-1', 'order-1'));
+      void keyedCallback(buildMessage('evt-2', 'order-1'));
+      await flush();
+
+      expect(started).toEqual(['evt-1', 'evt-2']);
+    });
+
+    it('should wait for in-flight messages when stopped', async () => {
+      const processing = parallelCallback(buildMessage('evt-1', 'order-1'));
+      await flush();
+
+      let stopped = false;
+      const stopping = parallelConsumer.stop().then(() => (stopped = true));
+      await flush();
+      expect(stopped).toBe(false);
+
+      releases.get('evt-1')!();
+      await Promise.all([processing, stopping]);
+
+      expect(mockChannel.ack).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('getStats()', () => {
@@ -452,7 +1184,15 @@ describe('EventConsumer', () => {
         await messageCallback(mockMessage);
       }
 
-      const stats = consumer.getStats();
+      // A second after start, so the uptime is never zero
+      const dateNow = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 1000);
+      let stats;
+      try {
+        stats = consumer.getStats();
+      } finally {
+        dateNow.mockRestore();
+      }
+      expect(stats.messagesConsumed).toBe(5);
       expect(stats.messagesPerSecond).toBeGreaterThan(0);
     });
   });
@@ -0,0 +1,157 @@
+/**
+ * FileDeduplicationStore Unit Tests
+ *
+ * Tests persistence across instances, sharing between replicas, removal,
+ * expiry and log compaction
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileDeduplicationStore } from '../file-deduplication-store';
+
+jest.mock('@smile/common', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('FileDeduplicationStore', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'dedup-store-'));
+    filePath = path.join(directory, 'nested', 'dedup.log');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should detect duplicates within the window', async () => {
+    const store = new FileDeduplicationStore(filePath);
+
+    expect(await store.checkAndRecord('orders', 'evt-1', 60000)).toBe(false);
+    expect(await store.checkAndRecord('orders', 'evt-1', 60000)).toBe(true);
+    expect(await store.checkAndRecord('health', 'evt-1', 60000)).toBe(false);
+  });
+
+  it('should remember keys across restarts', async () => {
+    const before = new FileDeduplicationStore(filePath);
+    await before.checkAndRecord('orders', 'evt-1', 60000);
+    await before.close();
+
+    const after = new FileDeduplicationStore(filePath);
+    expect(await after.checkAndRecord('orders', 'evt-1', 60000)).toBe(true);
+  });
+
+  it('should share keys between replicas using the same file', async () => {
+    const replicaA = new FileDeduplicationStore(filePath);
+    const replicaB = new FileDeduplicationStore(filePath);
+
+    await replicaA.checkAndRecord('orders', 'evt-1', 60000);
+
+    expect(await replicaB.checkAndRecord('orders', 'evt-1', 60000)).toBe(true);
+    expect(await replicaB.checkAndRecord('orders', 'evt-2', 60000)).toBe(false);
+    expect(await replicaA.checkAndRecord('orders', 'evt-2', 60000)).toBe(true);
+  });
+
+  it('should let only one of concurrent deliveries through', async () => {
+    const store = new FileDeduplicationStore(filePath);
+
+    const results = await Promise.all([
+      store.checkAndRecord('orders', 'evt-1', 60000),
+      store.checkAndRecord('orders', 'evt-1', 60000),
+      new FileDeduplicationStore(filePath).checkAndRecord('orders', 'evt-1', 60000),
+    ]);
+
+    expect(results.filter((duplicate) => !duplicate)).toHaveLength(1);
+  });
+
+  it('should forget removed keys for every replica', async () => {
+    const replicaA = new FileDeduplicationStore(filePath);
+    const replicaB = new FileDeduplicationStore(filePath);
+    await replicaA.checkAndRecord('orders', 'evt-1', 60000);
+
+    await replicaB.remove('orders', 'evt-1');
+
+    expect(await replicaA.checkAndRecord('orders', 'evt-1', 60000)).toBe(false);
+  });
+
+  it('should not treat keys as duplicates after their window', async () => {
+    const store = new FileDeduplicationStore(filePath);
+    await store.checkAndRecord('orders', 'evt-1', 50);
+
+    await new Promise((resolve) => setTimeout(resolve, 80));
+
+    expect(await store.checkAndRecord('orders', 'evt-1', 50)).toBe(false);
+  });
+
+  it('should compact obsolete records', async () => {
+    const store = new FileDeduplicationStore(filePath, { compactThreshold: 3 });
+    const reader = new FileDeduplicationStore(filePath);
+
+    await store.checkAndRecord('orders', 'evt-1', 60000);
+    await reader.checkAndRecord('orders', 'evt-0', 60000);
+    for (let i = 0; i < 4; i++) {
+      await store.remove('orders', 'evt-1');
+      await store.checkAndRecord('orders', 'evt-1', 60000);
+    }
+
+    const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+    expect(lines.length).toBeLessThan(6);
+
+    // Replicas re-read the replaced log
+    expect(await reader.checkAndRecord('orders', 'evt-1', 60000)).toBe(true);
+    expect(await reader.checkAndRecord('orders', 'evt-0', 60000)).toBe(true);
+  });
+
+  it('should compact unique keys once their window has passed', async () => {
+    const store = new FileDeduplicationStore(filePath, { compactThreshold: 5 });
+    const now = Date.now();
+
+    for (let i = 0; i < 6; i++) {
+      await store.checkAndRecord('orders', `evt-${i}`, 1000);
+    }
+    const before = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+
+    // Past the keys' window and the prune interval
+    const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now + 120000);
+    try {
+      await store.checkAndRecord('orders', 'evt-6', 1000);
+    } finally {
+      dateNow.mockRestore();
+    }
+
+    const after = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+    expect(before).toHaveLength(6);
+    expect(after).toHaveLength(1);
+    expect(JSON.parse(after[0]!)).toEqual(expect.objectContaining({ k: 'evt-6' }));
+  });
+
+  it('should remove a stale lock left by a crashed process', async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(`${filePath}.lock`, '');
+    const past = new Date(Date.now() - 60000);
+    await fs.utimes(`${filePath}.lock`, past, past);
+
+    const store = new FileDeduplicationStore(filePath, { staleLockAge: 1000 });
+
+    expect(await store.checkAndRecord('orders', 'evt-1', 60000)).toBe(false);
+  });
+
+  it('should time out while another process holds the lock', async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(`${filePath}.lock`, '');
+
+    const store = new FileDeduplicationStore(filePath, { lockTimeout: 50 });
+
+    await expect(store.checkAndRecord('orders', 'evt-1', 60000)).rejects.toThrow(
+      'Timed out acquiring deduplication store lock',
+    );
+  });
+});
@@ -6,6 +6,7 @@
 
 import * as amqp from 'amqplib';
 import { MessageHandler } from '../message-handler';
+import { InMemoryDeduplicationStore } from '../deduplication-store';
 import { ConsumerOptions } from '../../messaging/types';
 
 // Mock logger
@@ -107,6 +108,125 @@ describe('MessageHandler', () => {
       // Should still try to parse as JSON
       expect(result.success).toBe(true);
     });
+
+    describe('binary content mode', () => {
+      const binaryHeaders = {
+        'ce-specversion': '1.0',
+        'ce-type': 'lab.result',
+        'ce-source': 'urn:lis',
+        'ce-id': 'evt-bin-1',
+        'ce-subject': 'patient-7',
+      };
+
+      it('should build the event from ce-* headers and a JSON body', () => {
+        mockMessage.properties.headers = binaryHeaders;
+        mockMessage.content = Buffer.from(JSON.stringify({ result: 'positive' }));
+
+        const result = handler.parseMessage(mockMessage);
+
+        expect(result).toMatchObject({ success: true, mode: 'binary' });
+        expect(result.data).toEqual({
+          specversion: '1.0',
+          type: 'lab.result',
+          source: 'urn:lis',
+          id: 'evt-bin-1',
+          subject: 'patient-7',
+          datacontenttype: 'application/json',
+          data: { result: 'positive' },
+        });
+      });
+
+      it('should keep non-JSON data such as HL7 as text', () => {
+        const hl7 = 'MSH|^~\\&|LIS|LAB|||20260101||ORU^R01|1|P|2.5\rPID|1||7';
+        mockMessage.properties.headers = binaryHeaders;
+        mockMessage.properties.contentType = 'x-application/hl7-v2+er7';
+        mockMessage.content = Buffer.from(hl7);
+
+        const result = handler.parseMessage(mockMessage);
+
+        expect(result.data.datacontenttype).toBe('x-application/hl7-v2+er7');
+        expect(result.data.data).toBe(hl7);
+      });
+
+      it('should base64-encode data that is not valid UTF-8', () => {
+        mockMessage.properties.headers = binaryHeaders;
+        mockMessage.properties.contentType = 'application/octet-stream';
+        mockMessage.content = Buffer.from([0xff, 0xfe, 0x00, 0x01]);
+
+        const result = handler.parseMessage(mockMessage);
+
+        expect(result.data.data).toBeUndefined();
+        expect(result.data.data_base64).toBe('//4AAQ==');
+      });
+
+      it('should accept binary events without data', () => {
+        mockMessage.properties.headers = binaryHeaders;
+        mockMessage.content = Buffer.alloc(0);
+
+        const result = handler.parseMessage(mockMessage);
+
+        expect(result.success).toBe(true);
+        expect(result.data).not.toHaveProperty('data');
+      });
+
+      it('should accept cloudEvents: prefixed headers', () => {
+        mockMessage.properties.headers = {
+          'cloudEvents:specversion': '1.0',
+          'cloudEvents:type': 'lab.result',
+          'cloudEvents:source': 'urn:lis',
+          'cloudEvents:id': 'evt-bin-2',
+        };
+
+        const result = handler.parseMessage(mockMessage);
+
+        expect(result.mode).toBe('binary');
+        expect(result.data.id).toBe('evt-bin-2');
+      });
+
+      it('should treat a structured body with matching ce-* headers as structured', () => {
+        mockMessage.properties.headers = { ...binaryHeaders, 'ce-id': 'msg-123' };
+
+        const result = handler.parseMessage(mockMessage);
+
+        expect(result.mode).toBe('structured');
+        expect(result.data.id).toBe('msg-123');
+      });
+
+      it('should fail on a malformed JSON body', () => {
+        mockMessage.properties.headers = binaryHeaders;
+        mockMessage.content = Buffer.from('{not json');
+
+        const result = handler.parseMessage(mockMessage);
+
+        expect(result.success).toBe(false);
+      });
+    });
+
+    describe('batch content mode', () => {
+      it('should parse a batch into an array of events', () => {
+        mockMessage.properties.contentType = 'application/cloudevents-batch+json';
+        mockMessage.content = Buffer.from(
+          JSON.stringify([
+            { specversion: '1.0', type: 'a', source: 's', id: '1' },
+            { specversion: '1.0', type: 'b', source: 's', id: '2' },
+          ]),
+        );
+
+        const result = handler.parseMessage(mockMessage);
+
+        expect(result.mode).toBe('batch');
+        expect(result.data).toHaveLength(2);
+      });
+
+      it('should reject a batch that is not an array', () => {
+        mockMessage.properties.contentType = 'application/cloudevents-batch+json';
+
+        const result = handler.parseMessage(mockMessage);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('CloudEvents batch must be a JSON array');
+      });
+    });
   });
 
   describe('acknowledgeMessage()', () => {
@@ -143,6 +263,12 @@ describe('MessageHandler', () => {
       expect(mockChannel.nack).toHaveBeenCalledWith(mockMessage, false, true);
     });
 
+    it('should let an explicit requeue override requeueOnFailure', async () => {
+      await handler.acknowledgeMessage(mockChannel, mockMessage, false, true);
+
+      expect(mockChannel.nack).toHaveBeenCalledWith(mockMessage, false, true);
+    });
+
     it('should handle channel errors gracefully', async () => {
       mockChannel.ack.mockImplementation(() => {
         throw new Error('Channel closed');
@@ -165,6 +291,23 @@ describe('MessageHandler', () => {
       expect(context.receivedAt).toBeInstanceOf(Date);
     });
 
+    it('should read the destinations that accepted the event before a retry', () => {
+      const retried = {
+        ...mockMessage,
+        properties: {
+          ...mockMessage.properties,
+          headers: { 'x-delivered-destinations': ['orders|openhim|'] },
+        },
+      };
+
+      expect(handler.extractContext(mockMessage, 'q', 'tag').deliveredDestinations).toEqual(
+        new Set(),
+      );
+      expect(handler.extractContext(retried, 'q', 'tag').deliveredDestinations).toEqual(
+        new Set(['orders|openhim|']),
+      );
+    });
+
     it('should extract correlationId from message properties', () => {
       const context = handler.extractContext(mockMessage, 'test-queue', 'tag-1');
 
@@ -190,20 +333,20 @@ describe('MessageHandler', () => {
   });
 
   describe('isDuplicate()', () => {
-    it('should return false when deduplication is disabled', () => {
-      const isDupe = handler.isDuplicate('msg-123');
+    it('should return false when deduplication is disabled', async () => {
+      const isDupe = await handler.isDuplicate('msg-123');
 
       expect(isDupe).toBe(false);
     });
 
-    it('should detect duplicate messages when enabled', () => {
+    it('should detect duplicate messages when enabled', async () => {
       const dedupHandler = new MessageHandler({
         enableDeduplication: true,
         deduplicationWindow: 60000,
       });
 
-      const firstCall = dedupHandler.isDuplicate('msg-456');
-      const secondCall = dedupHandler.isDuplicate('msg-456');
+      const firstCall = await dedupHandler.isDuplicate('msg-456');
+      const secondCall = await dedupHandler.isDuplicate('msg-456');
 
       expect(firstCall).toBe(false);
       expect(secondCall).toBe(true);
@@ -215,29 +358,97 @@ describe('MessageHandler', () => {
         deduplicationWindow: 100, // 100ms window
       });
 
-      const firstCall = dedupHandler.isDuplicate('msg-789');
+      const firstCall = await dedupHandler.isDuplicate('msg-789');
       expect(firstCall).toBe(false);
 
       // Wait for window to expire
       await new Promise((resolve) => setTimeout(resolve, 150));
 
-      const secondCall = dedupHandler.isDuplicate('msg-789');
+      const secondCall = await dedupHandler.isDuplicate('msg-789');
       expect(secondCall).toBe(false); // Should not be duplicate anymore
     });
 
-    it('should handle different message IDs independently', () => {
+    it('should not treat a forgotten message as a duplicate', async () => {
+      const dedupHandler = new MessageHandler({
+        enableDeduplication: true,
+      });
+
+      await dedupHandler.isDuplicate('msg-retry');
+      await dedupHandler.forgetMessage('msg-retry');
+
+      expect(await dedupHandler.isDuplicate('msg-retry')).toBe(false);
+    });
+
+    it('should handle different message IDs independently', async () => {
       const dedupHandler = new MessageHandler({
         enableDeduplication: true,
       });
 
-      const msg1 = dedupHandler.isDuplicate('msg-1');
-      const msg2 = dedupHandler.isDuplicate('msg-2');
-      const msg3 = dedupHandler.isDuplicate('msg-3');
+      const msg1 = await dedupHandler.isDuplicate('msg-1');
+      const msg2 = await dedupHandler.isDuplicate('msg-2');
+      const msg3 = await dedupHandler.isDuplicate('msg-3');
 
       expect(msg1).toBe(false);
       expect(msg2).toBe(false);
       expect(msg3).toBe(false);
     });
+
+    it('should keep consumer namespaces independent in a shared store', async () => {
+      const store = new InMemoryDeduplicationStore();
+      const orders = new MessageHandler({ enableDeduplication: true }, store, 'orders-consumer');
+      const health = new MessageHandler({ enableDeduplication: true }, store, 'health-consumer');
+
+      expect(await orders.isDuplicate('evt-1')).toBe(false);
+      expect(await health.isDuplicate('evt-1')).toBe(false);
+      expect(await orders.isDuplicate('evt-1')).toBe(true);
+    });
+
+    it('should propagate deduplication store failures', async () => {
+      const store = new InMemoryDeduplicationStore();
+      jest.spyOn(store, 'checkAndRecord').mockRejectedValue(new Error('Store unavailable'));
+      const dedupHandler = new MessageHandler({ enableDeduplication: true }, store);
+
+      await expect(dedupHandler.isDuplicate('msg-1')).rejects.toThrow('Store unavailable');
+    });
+  });
+
+  describe('getDeduplicationKey()', () => {
+    const event = {
+      specversion: '1.0',
+      id: 'evt-1',
+      type: 'order.created',
+      source: 'urn:smile:orders-service',
+      idempotencykey: 'invoice-42',
+      data: { orderId: 'ORD-1' },
+    };
+
+    it('should use the event id by default', () => {
+      expect(handler.getDeduplicationKey(event)).toBe('evt-1');
+    });
+
+    it('should hash the content so re-emitted events match', () => {
+      const hashHandler = new MessageHandler({ deduplicationKey: 'content-hash' });
+
+      const key = hashHandler.getDeduplicationKey(event);
+
+      expect(key).toMatch(/^sha256:[0-9a-f]{64}$/);
+      expect(hashHandler.getDeduplicationKey({ ...event, id: 'evt-2' })).toBe(key);
+      expect(
+        hashHandler.getDeduplicationKey({ ...event, data: { orderId: 'ORD-2' } }),
+      ).not.toBe(key);
+    });
+
+    it('should use an extension attribute', () => {
+      const extensionHandler = new MessageHandler({
+        deduplicationKey: 'extension',
+        deduplicationExtension: 'idempotencykey',
+      });
+
+      expect(extensionHandler.getDeduplicationKey(event)).toBe('idempotencykey:invoice-42');
+      expect(
+        extensionHandler.getDeduplicationKey({ ...event, idempotencykey: undefined }),
+      ).toBe('evt-1');
+    });
   });
 
   describe('getStats()', () => {
@@ -292,6 +503,30 @@ describe('MessageHandler', () => {
       expect(stats.averageProcessingTime).toBe(200);
     });
 
+    it('should record processing times in a histogram (seconds)', () => {
+      handler.recordSuccess(100);
+      handler.recordFailure(300);
+
+      const { processingTime } = handler.getStats();
+
+      expect(processingTime.count).toBe(2);
+      expect(processingTime.sum).toBeCloseTo(0.4);
+    });
+
+    it('should record latency per priority, by ascending priority', () => {
+      handler.recordLatency(10, 200);
+      handler.recordLatency(0, 90000);
+      handler.recordLatency(10, -50);
+
+      const { latencyByPriority } = handler.getStats();
+
+      expect(latencyByPriority.map(({ priority }) => priority)).toEqual([0, 10]);
+      expect(latencyByPriority[0]!.latency.sum).toBe(90);
+      expect(latencyByPriority[1]!.latency).toEqual(
+        expect.objectContaining({ count: 2, sum: 0.2 }),
+      );
+    });
+
     it('should handle zero messages for average calculation', () => {
       const stats = handler.getStats();
 
@@ -304,6 +539,7 @@ describe('MessageHandler', () => {
       handler.recordSuccess(100);
       handler.recordFailure(50);
       handler.recordDuplicate();
+      handler.recordLatency(5, 100);
 
       handler.resetStats();
 
@@ -314,6 +550,7 @@ describe('MessageHandler', () => {
       expect(stats.messagesDuplicate).toBe(0);
       expect(stats.totalProcessingTime).toBe(0);
       expect(stats.averageProcessingTime).toBe(0);
+      expect(stats.latencyByPriority).toEqual([]);
     });
   });
 });
@@ -0,0 +1,114 @@
+/**
+ * OrderedDispatcher Unit Tests
+ *
+ * Tests the concurrency bound, per-key ordering and idle tracking
+ */
+
+import { OrderedDispatcher } from '../ordered-dispatcher';
+
+describe('OrderedDispatcher', () => {
+  /**
+   * Create a task that records its start and finishes when released
+   */
+  const createTask = (name: string, log: string[]) => {
+    let release!: () => void;
+    const done = new Promise<void>((resolve) => (release = resolve));
+
+    return {
+      task: async () => {
+        log.push(`start ${name}`);
+        await done;
+        log.push(`end ${name}`);
+      },
+      release: () => release(),
+    };
+  };
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  it('should reject an invalid concurrency', () => {
+    expect(() => new OrderedDispatcher(0)).toThrow('maxConcurrency must be a positive integer');
+  });
+
+  it('should run at most maxConcurrency tasks at once', async () => {
+    const dispatcher = new OrderedDispatcher(2);
+    const log: string[] = [];
+    const tasks = ['a', 'b', 'c'].map((name) => createTask(name, log));
+
+    tasks.forEach(({ task }, index) => dispatcher.dispatch(`key-${index}`, task));
+    await flush();
+
+    expect(log).toEqual(['start a', 'start b']);
+    expect(dispatcher.active).toBe(2);
+    expect(dispatcher.size).toBe(3);
+
+    tasks[1]!.release();
+    await flush();
+
+    expect(log).toEqual(['start a', 'start b', 'end b', 'start c']);
+
+    tasks[0]!.release();
+    tasks[2]!.release();
+    await dispatcher.idle();
+
+    expect(dispatcher.size).toBe(0);
+    expect(dispatcher.active).toBe(0);
+  });
+
+  it('should run tasks with the same key in dispatch order', async () => {
+    const dispatcher = new OrderedDispatcher(4);
+    const log: string[] = [];
+    const approved = createTask('order-1 approved', log);
+    const shipped = createTask('order-1 shipped', log);
+    const other = createTask('order-2 approved', log);
+
+    dispatcher.dispatch('order-1', approved.task);
+    dispatcher.dispatch('order-1', shipped.task);
+    dispatcher.dispatch('order-2', other.task);
+    await flush();
+
+    // The shipped event waits for its approval; other orders are not blocked
+    expect(log).toEqual(['start order-1 approved', 'start order-2 approved']);
+
+    shipped.release();
+    other.release();
+    await flush();
+    expect(log).not.toContain('start order-1 shipped');
+
+    approved.release();
+    await dispatcher.idle();
+
+    expect(log.indexOf('start order-1 shipped')).toBeGreaterThan(
+      log.indexOf('end order-1 approved'),
+    );
+  });
+
+  it('should not order tasks without a key', async () => {
+    const dispatcher = new OrderedDispatcher(2);
+    const log: string[] = [];
+    const first = createTask('first', log);
+    const second = createTask('second', log);
+
+    dispatcher.dispatch(undefined, first.task);
+    dispatcher.dispatch(undefined, second.task);
+    await flush();
+
+    expect(log).toEqual(['start first', 'start second']);
+
+    first.release();
+    second.release();
+    await dispatcher.idle();
+  });
+
+  it('should continue a key after a failed task', async () => {
+    const dispatcher = new OrderedDispatcher(1);
+    const next = jest.fn().mockResolvedValue(undefined);
+
+    const failed = dispatcher.dispatch('order-1', () => Promise.reject(new Error('boom')));
+    dispatcher.dispatch('order-1', next);
+
+    await expect(failed).resolves.toBeUndefined();
+    await dispatcher.idle();
+    expect(next).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * RetryManager Unit Tests
+ *
+ * Tests backoff tiers, attempt counting and dead-lettering
+ */
+
+import * as amqp from 'amqplib';
+import {
+  RetryManager,
+  ORIGINAL_QUEUE_HEADER,
+  ORIGINAL_EXCHANGE_HEADER,
+  ORIGINAL_ROUTING_KEY_HEADER,
+  LAST_ERROR_HEADER,
+  ATTEMPTS_HEADER,
+  DELIVERED_DESTINATIONS_HEADER,
+} from '../retry-manager';
+import { QueueConsumerConfig } from '../../messaging/types';
+
+jest.mock('@smile/common', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('RetryManager', () => {
+  let mockChannel: any;
+  let mockConnectionManager: any;
+  let config: QueueConsumerConfig;
+  let manager: RetryManager;
+
+  const buildMessage = (deaths?: any[]): amqp.ConsumeMessage =>
+    ({
+      content: Buffer.from('{"id":"evt-1"}'),
+      fields: { deliveryTag: 1, redelivered: false, exchange: 'orders.events', routingKey: 'x' },
+      properties: {
+        contentType: 'application/cloudevents+json',
+        messageId: 'evt-1',
+        correlationId: 'corr-1',
+        priority: 9,
+        headers: deaths ? { 'x-death': deaths, 'ce-type': 'order.approved' } : {},
+      },
+    }) as any;
+
+  beforeEach(() => {
+    mockChannel = {
+      assertQueue: jest.fn().mockResolvedValue({}),
+      assertExchange: jest.fn().mockResolvedValue({}),
+      bindQueue: jest.fn().mockResolvedValue({}),
+      publish: jest.fn((_exchange, _key, _content, _options, cb) => cb(null)),
+      on: jest.fn(),
+    };
+
+    mockConnectionManager = {
+      getConfirmChannel: jest.fn().mockResolvedValue(mockChannel),
+    };
+
+    config = {
+      name: 'orders-consumer',
+      queue: 'interop.orders.queue',
+      exchange: 'orders.events',
+      exchangeType: 'topic',
+      routingKey: 'orders.#',
+      enabled: true,
+      retry: { maxAttempts: 4, initialDelay: 5000, maxDelay: 15000, backoffMultiplier: 2 },
+      dlq: {
+        queue: 'interop.orders.dlq',
+        exchange: 'interop.dlx',
+        routingKey: 'interop.orders.queue',
+      },
+    };
+
+    manager = new RetryManager(mockConnectionManager, config);
+  });
+
+  describe('computeDelays()', () => {
+    it('should grow exponentially up to maxDelay', () => {
+      expect(RetryManager.computeDelays(config.retry!)).toEqual([5000, 10000, 15000]);
+    });
+
+    it('should have no retries when maxAttempts is 1', () => {
+      expect(RetryManager.computeDelays({ ...config.retry!, maxAttempts: 1 })).toEqual([]);
+    });
+  });
+
+  describe('setup()', () => {
+    it('should assert a TTL queue per tier dead-lettering to the consumer queue', async () => {
+      await manager.setup(mockChannel);
+
+      expect(mockChannel.assertQueue).toHaveBeenCalledWith('interop.orders.queue.retry.5000', {
+        durable: true,
+        messageTtl: 5000,
+        deadLetterExchange: '',
+        deadLetterRoutingKey: 'interop.orders.queue',
+      });
+      expect(mockChannel.assertQueue).toHaveBeenCalledWith(
+        'interop.orders.queue.retry.15000',
+        expect.objectContaining({ messageTtl: 15000 }),
+      );
+    });
+
+    it('should assert and bind the DLQ', async () => {
+      await manager.setup(mockChannel);
+
+      expect(mockChannel.assertExchange).toHaveBeenCalledWith('interop.dlx', 'direct', {
+        durable: true,
+      });
+      expect(mockChannel.bindQueue).toHaveBeenCalledWith(
+        'interop.orders.dlq',
+        'interop.dlx',
+        'interop.orders.queue',
+      );
+    });
+  });
+
+  describe('getAttempt()', () => {
+    it('should be 1 for a first delivery', () => {
+      expect(manager.getAttempt(buildMessage())).toBe(1);
+    });
+
+    it('should count expiries from this consumer retry queues only', () => {
+      const message = buildMessage([
+        { queue: 'interop.orders.queue.retry.10000', reason: 'expired', count: 1 },
+        { queue: 'interop.orders.queue.retry.5000', reason: 'expired', count: 1 },
+        { queue: 'interop.health.queue.retry.5000', reason: 'expired', count: 3 },
+        { queue: 'interop.orders.queue', reason: 'rejected', count: 1 },
+      ]);
+
+      expect(manager.getAttempt(message)).toBe(3);
+    });
+
+    it('should count attempts from the attempts header when x-death is missing', () => {
+      const message = buildMessage();
+      message.properties.headers = { [ATTEMPTS_HEADER]: 2 };
+
+      expect(manager.getAttempt(message)).toBe(3);
+    });
+
+    it('should use the higher count of the attempts header and x-death', () => {
+      const message = buildMessage([
+        { queue: 'interop.orders.queue.retry.5000', reason: 'expired', count: 1 },
+      ]);
+      message.properties.headers![ATTEMPTS_HEADER] = 3;
+
+      expect(manager.getAttempt(message)).toBe(4);
+    });
+  });
+
+  describe('handleFailure()', () => {
+    it('should republish to the tier for the current attempt', async () => {
+      const outcome = await manager.handleFailure(
+        buildMessage([{ queue: 'interop.orders.queue.retry.5000', reason: 'expired', count: 1 }]),
+        new Error('OpenHIM unavailable'),
+      );
+
+      expect(outcome).toBe('retried');
+      const [exchange, routingKey, content, options] = mockChannel.publish.mock.calls[0];
+      expect(exchange).toBe('');
+      expect(routingKey).toBe('interop.orders.queue.retry.10000');
+      expect(content.toString()).toBe('{"id":"evt-1"}');
+      expect(options).toMatchObject({
+        persistent: true,
+        contentType: 'application/cloudevents+json',
+        messageId: 'evt-1',
+        correlationId: 'corr-1',
+        priority: 9,
+      });
+      expect(options.headers['x-death']).toHaveLength(1);
+      expect(options.headers['ce-type']).toBe('order.approved');
+      expect(options.headers[ATTEMPTS_HEADER]).toBe(2);
+    });
+
+    it('should dead-letter after maxAttempts', async () => {
+      const outcome = await manager.handleFailure(
+        buildMessage([
+          { queue: 'interop.orders.queue.retry.5000', reason: 'expired', count: 1 },
+          { queue: 'interop.orders.queue.retry.10000', reason: 'expired', count: 1 },
+          { queue: 'interop.orders.queue.retry.15000', reason: 'expired', count: 1 },
+        ]),
+        new Error('OpenHIM unavailable'),
+      );
+
+      expect(outcome).toBe('dead-lettered');
+      const [exchange, routingKey, , options] = mockChannel.publish.mock.calls[0];
+      expect(exchange).toBe('interop.dlx');
+      expect(routingKey).toBe('interop.orders.queue');
+      expect(options.headers).toMatchObject({
+        [ORIGINAL_QUEUE_HEADER]: 'interop.orders.queue',
+        [LAST_ERROR_HEADER]: 'OpenHIM unavailable',
+        [ATTEMPTS_HEADER]: 4,
+      });
+    });
+
+    it('should dead-letter after maxAttempts counted by the attempts header', async () => {
+      const message = buildMessage();
+      message.properties.headers = { [ATTEMPTS_HEADER]: 3 };
+
+      const outcome = await manager.handleFailure(message, new Error('OpenHIM unavailable'));
+
+      expect(outcome).toBe('dead-lettered');
+      expect(mockChannel.publish.mock.calls[0][3].headers[ATTEMPTS_HEADER]).toBe(4);
+    });
+
+    it('should record the original exchange and routing key', async () => {
+      await manager.handleFailure(buildMessage(), new Error('boom'));
+
+      expect(mockChannel.publish.mock.calls[0][3].headers).toMatchObject({
+        [ORIGINAL_EXCHANGE_HEADER]: 'orders.events',
+        [ORIGINAL_ROUTING_KEY_HEADER]: 'x',
+      });
+    });
+
+    it('should keep the first-seen origin across retries', async () => {
+      const message = buildMessage();
+      message.fields.exchange = '';
+      message.fields.routingKey = 'interop.orders.queue';
+      message.properties.headers = {
+        [ORIGINAL_EXCHANGE_HEADER]: 'orders.events',
+        [ORIGINAL_ROUTING_KEY_HEADER]: 'orders.created',
+      };
+
+      await manager.handleFailure(message, new Error('boom'));
+
+      expect(mockChannel.publish.mock.calls[0][3].headers).toMatchObject({
+        [ORIGINAL_EXCHANGE_HEADER]: 'orders.events',
+        [ORIGINAL_ROUTING_KEY_HEADER]: 'orders.created',
+      });
+    });
+
+    it('should record the destinations that already accepted the event', async () => {
+      await manager.handleFailure(buildMessage(), new Error('boom'));
+      await manager.handleFailure(
+        buildMessage(),
+        new Error('boom'),
+        true,
+        new Set(['orders|openhim|']),
+      );
+
+      expect(mockChannel.publish.mock.calls[0][3].headers).not.toHaveProperty(
+        DELIVERED_DESTINATIONS_HEADER,
+      );
+      expect(mockChannel.publish.mock.calls[1][3].headers[DELIVERED_DESTINATIONS_HEADER]).toEqual([
+        'orders|openhim|',
+      ]);
+    });
+
+    it('should dead-letter non-retryable failures immediately', async () => {
+      const outcome = await manager.handleFailure(
+        buildMessage(),
+        new Error('Invalid CloudEvent'),
+        false,
+      );
+
+      expect(outcome).toBe('dead-lettered');
+      expect(mockChannel.publish.mock.calls[0][0]).toBe('interop.dlx');
+    });
+
+    it('should reject when retries are exhausted and no DLQ is configured', async () => {
+      delete config.dlq;
+      manager = new RetryManager(mockConnectionManager, config);
+
+      const outcome = await manager.handleFailure(buildMessage(), new Error('boom'), false);
+
+      expect(outcome).toBe('rejected');
+      expect(mockChannel.publish).not.toHaveBeenCalled();
+    });
+
+    it('should propagate publish failures', async () => {
+      mockChannel.publish.mockImplementation(
+        (_exchange: string, _key: string, _content: Buffer, _options: any, cb: any) =>
+          cb(new Error('Channel closed')),
+      );
+
+      await expect(manager.handleFailure(buildMessage(), new Error('boom'))).rejects.toThrow(
+        'Channel closed',
+      );
+    });
+
+    it('should reuse the confirm channel', async () => {
+      await manager.handleFailure(buildMessage(), new Error('boom'));
+      await manager.handleFailure(buildMessage(), new Error('boom'));
+
+      expect(mockConnectionManager.getConfirmChannel).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Backpressure Controller
+ *
+ * Slows consumption down while the downstream (OpenHIM) is unhealthy, so an
+ * outage does not turn into a storm of failing, nacked and logged messages:
+ * - normal: the rolling failure rate and latency of recent requests are checked
+ *   against the thresholds; crossing one trips the controller
+ * - paused: consumers are cancelled ('pause' mode) for one probe interval
+ * - probing: consumers run with a shrunken prefetch (1/2^rampSteps of the
+ *   configured prefetch), doubled after every probe interval without failures
+ *   until it is fully restored; a failing probe trips the controller again.
+ *   In 'throttle' mode tripping goes straight to probing, without cancelling.
+ */
+
+import { logger } from '@smile/common';
+import { RollingWindowStats } from '../bridge/rolling-window';
+
+/**
+ * How consumers are slowed down when the controller trips
+ * - pause: cancel consumption, then resume with a shrunken prefetch
+ * - throttle: keep consuming with a shrunken prefetch
+ */
+export type BackpressureMode = 'pause' | 'throttle';
+
+/**
+ * Backpressure state
+ */
+export type BackpressureState = 'normal' | 'paused' | 'probing';
+
+/**
+ * Backpressure configuration
+ */
+export interface BackpressureConfig {
+  mode?: BackpressureMode; // default pause
+  window?: number; // Rolling window in ms the thresholds apply to (default 30000, max 300000)
+  minRequests?: number; // Requests in the window before the thresholds apply (default 20)
+  failureRateThreshold?: number; // Failure rate (0-1) that trips the controller (default 0.5)
+  latencyThresholdMs?: number; // Average latency that trips the controller (default: not checked)
+  checkInterval?: number; // How often the window is checked in ms (default 5000)
+  probeInterval?: number; // Duration of a pause and of each probing step in ms (default 30000)
+  rampSteps?: number; // Prefetch doublings from the smallest share back to full (default 3)
+}
+
+/**
+ * Backpressure status, as reported in service health
+ */
+export interface BackpressureStatus {
+  state: BackpressureState;
+  mode: BackpressureMode;
+  prefetchRatio: number | null; // Share of the configured prefetch while probing
+  since: string; // When the current state (or probing step) began
+  reason?: string; // Why the controller last tripped
+  trips: number; // Times the controller tripped
+  window: RollingWindowStats; // Requests checked at the last check
+}
+
+/**
+ * Applies a backpressure status to the consumers
+ */
+export type BackpressureListener = (status: BackpressureStatus) => void;
+
+/**
+ * Backpressure controller
+ */
+export class BackpressureController {
+  private static readonly DEFAULT_WINDOW = 30000;
+  private static readonly DEFAULT_MIN_REQUESTS = 20;
+  private static readonly DEFAULT_FAILURE_RATE_THRESHOLD = 0.5;
+  private static readonly DEFAULT_CHECK_INTERVAL = 5000;
+  private static readonly DEFAULT_PROBE_INTERVAL = 30000;
+  private static readonly DEFAULT_RAMP_STEPS = 3;
+
+  private readonly mode: BackpressureMode;
+  private readonly window: number;
+  private readonly minRequests: number;
+  private readonly failureRateThreshold: number;
+  private readonly latencyThresholdMs: number | undefined;
+  private readonly checkInterval: number;
+  private readonly probeInterval: number;
+  private readonly rampSteps: number;
+
+  private state: BackpressureState = 'normal';
+  private step = 0;
+  private since = Date.now();
+  private reason: string | undefined;
+  private trips = 0;
+  private lastWindow: RollingWindowStats = {
+    requests: 0,
+    failures: 0,
+    failureRate: 0,
+    averageLatencyMs: 0,
+  };
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param getRecentStats - Statistics of downstream requests since a point in time
+   * @param listener - Called with the new status on every state or step change
+   * @param config - Thresholds and timings
+   * @throws Error if the configuration is invalid
+   */
+  constructor(
+    private readonly getRecentStats: (since: number) => RollingWindowStats,
+    private readonly listener: BackpressureListener,
+    config: BackpressureConfig = {},
+  ) {
+    this.mode = config.mode ?? 'pause';
+    this.window = config.window ?? BackpressureController.DEFAULT_WINDOW;
+    this.minRequests = config.minRequests ?? BackpressureController.DEFAULT_MIN_REQUESTS;
+    this.failureRateThreshold =
+      config.failureRateThreshold ?? BackpressureController.DEFAULT_FAILURE_RATE_THRESHOLD;
+    this.latencyThresholdMs = config.latencyThresholdMs;
+    this.checkInterval = config.checkInterval ?? BackpressureController.DEFAULT_CHECK_INTERVAL;
+    this.probeInterval = config.probeInterval ?? BackpressureController.DEFAULT_PROBE_INTERVAL;
+    this.rampSteps = config.rampSteps ?? BackpressureController.DEFAULT_RAMP_STEPS;
+
+    if (this.failureRateThreshold <= 0 || this.failureRateThreshold > 1) {
+      throw new Error('failureRateThreshold must be greater than 0 and at most 1');
+    }
+    if (!Number.isInteger(this.rampSteps) || this.rampSteps < 1) {
+      throw new Error('rampSteps must be a positive integer');
+    }
+  }
+
+  /**
+   * Start checking periodically
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.check(), this.checkInterval);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop checking
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Get the current status
+   *
+   * @returns Backpressure status
+   */
+  public getStatus(): BackpressureStatus {
+    return {
+      state: this.state,
+      mode: this.mode,
+      prefetchRatio: this.state === 'probing' ? this.getPrefetchRatio() : null,
+      since: new Date(this.since).toISOString(),
+      ...(this.reason && { reason: this.reason }),
+      trips: this.trips,
+      window: this.lastWindow,
+    };
+  }
+
+  /**
+   * Check recent requests and move to the next state if due
+   *
+   * @param now - Current time in milliseconds
+   */
+  public check(now = Date.now()): void {
+    if (this.state === 'paused') {
+      if (now - this.since >= this.probeInterval) {
+        this.transition('probing', 0, now);
+      }
+      return;
+    }
+
+    if (this.state === 'normal') {
+      this.lastWindow = this.getRecentStats(now - this.window);
+      const reason = this.getTripReason(this.lastWindow);
+      if (reason && this.lastWindow.requests >= this.minRequests) {
+        this.trip(reason, now);
+      }
+      return;
+    }
+
+    // Probing: only requests made at the current prefetch count
+    this.lastWindow = this.getRecentStats(this.since);
+    const reason = this.getTripReason(this.lastWindow);
+    if (reason) {
+      this.trip(`probe failed: ${reason}`, now);
+    } else if (now - this.since >= this.probeInterval) {
+      if (this.step + 1 >= this.rampSteps) {
+        this.transition('normal', 0, now);
+      } else {
+        this.transition('probing', this.step + 1, now);
+      }
+    }
+  }
+
+  /**
+   * Why the downstream counts as unhealthy
+   *
+   * @returns Reason, or undefined if within thresholds
+   */
+  private getTripReason(stats: RollingWindowStats): string | undefined {
+    if (stats.requests === 0) {
+      return undefined;
+    }
+    if (stats.failureRate >= this.failureRateThreshold) {
+      return `failure rate ${Math.round(stats.failureRate * 100)}%`;
+    }
+    const latencyThreshold = this.latencyThresholdMs;
+    if (latencyThreshold !== undefined && stats.averageLatencyMs >= latencyThreshold) {
+      return `average latency ${stats.averageLatencyMs}ms`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Slow consumers down
+   */
+  private trip(reason: string, now: number): void {
+    this.trips++;
+    this.reason = reason;
+
+    logger.warn('Downstream unhealthy, applying backpressure', {
+      reason,
+      mode: this.mode,
+      window: this.lastWindow,
+    });
+
+    this.transition(this.mode === 'pause' ? 'paused' : 'probing', 0, now);
+  }
+
+  /**
+   * Change state and notify the listener
+   */
+  private transition(state: BackpressureState, step: number, now: number): void {
+    this.state = state;
+    this.step = step;
+    this.since = now;
+
+    if (state === 'normal') {
+      logger.info('Downstream recovered, backpressure released');
+    }
+
+    const status = this.getStatus();
+    logger.info('Backpressure state changed', {
+      state,
+      prefetchRatio: status.prefetchRatio,
+    });
+    this.listener(status);
+  }
+
+  /**
+   * Share of the configured prefetch at the current probing step
+   */
+  private getPrefetchRatio(): number {
+    return 1 / 2 ** (this.rampSteps - this.step);
+  }
+}
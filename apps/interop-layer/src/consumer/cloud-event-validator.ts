@@ -1,13 +1,33 @@
 /**
  * CloudEvent Validator
  *
- * Validates CloudEvents according to CloudEvents v1.0 specification
+ * Validates CloudEvents according to CloudEvents v1.0 specification,
+ * optionally validates their data against a schema registry,
  * and extracts correlation IDs for tracing
  */
 
 import { ValidationResult } from '../messaging/types';
+import { SchemaRegistry } from '../schemas/schema-registry';
 import { logger } from '@smile/common';
 
+/**
+ * How data schema violations are handled
+ * - enforce: the event is invalid
+ * - warn: the violation is logged and the event is accepted
+ */
+export type SchemaValidationMode = 'enforce' | 'warn';
+
+/**
+ * CloudEventValidator options
+ */
+export interface CloudEventValidatorOptions {
+  /** Registry of data schemas per event type (data is not validated if omitted) */
+  schemaRegistry?: SchemaRegistry;
+
+  /** How data schema violations are handled (default: enforce) */
+  schemaMode?: SchemaValidationMode;
+}
+
 /**
  * CloudEvent Validator
  *
@@ -17,6 +37,8 @@ export class CloudEventValidator {
   private readonly requiredFields = ['specversion', 'type', 'source', 'id'];
   private readonly supportedVersions = ['1.0'];
 
+  constructor(private readonly options: CloudEventValidatorOptions = {}) {}
+
   /**
    * Validate a CloudEvent
    *
@@ -54,6 +76,11 @@ export class CloudEventValidator {
       errors.push(`Unsupported specversion: ${event.specversion}`);
     }
 
+    // Validate data against its schema once the envelope is valid
+    if (errors.length === 0 && this.options.schemaRegistry) {
+      errors.push(...this.validateData(event));
+    }
+
     // Return result
     if (errors.length > 0) {
       logger.debug('CloudEvent validation failed', { errors, eventId: event.id });
@@ -75,6 +102,33 @@ export class CloudEventValidator {
     };
   }
 
+  /**
+   * Validate event data against the schema registry
+   *
+   * @param event - The CloudEvent
+   * @returns Errors to report (empty in warn mode)
+   */
+  private validateData(event: Record<string, unknown>): string[] {
+    const result = this.options.schemaRegistry!.validate(event);
+    if (result.valid) {
+      return [];
+    }
+
+    const errors = result.errors.map((error) => `${error.path}: ${error.message}`);
+
+    if (this.options.schemaMode === 'warn') {
+      logger.warn('CloudEvent data does not match its schema', {
+        errors,
+        schema: result.schema,
+        eventId: event.id,
+        eventType: event.type,
+      });
+      return [];
+    }
+
+    return errors;
+  }
+
   /**
    * Extract correlation ID from CloudEvent
    *
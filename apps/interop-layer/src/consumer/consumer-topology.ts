@@ -0,0 +1,336 @@
+/**
+ * Consumer Topology
+ *
+ * Declarative consumers and the RabbitMQ topology they need:
+ * - Exchanges declared on start (e.g. dead-letter exchanges named in queue options)
+ * - Consumers with their queue, exchange binding, queue options, retry, DLQ and
+ *   per-consumer prefetch and consumer options
+ * - Defaults merged into every consumer (options, retry, deduplication and
+ *   consumerOptions are merged one level deep; a null value removes a default)
+ * - Topology files are YAML; string values may reference ${ENV_VAR} or ${ENV_VAR:-default},
+ *   and numeric or boolean settings may be given as strings
+ */
+
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import { interpolateEnv } from '../config/env-interpolation';
+import { ExchangeConfig, QueueConsumerConfig } from '../messaging/types';
+
+/**
+ * Exchanges and consumers to declare
+ */
+export interface ConsumerTopology {
+  exchanges: ExchangeConfig[];
+  consumers: QueueConsumerConfig[];
+}
+
+/**
+ * Topology file contents
+ */
+interface ConsumerTopologyFile {
+  exchanges?: ExchangeConfig[];
+  defaults?: Partial<QueueConsumerConfig>;
+  consumers?: Array<Partial<QueueConsumerConfig>>;
+}
+
+/**
+ * Allowed range of a numeric setting
+ */
+interface NumberRule {
+  min: number;
+  max?: number;
+  integer?: boolean;
+  required?: boolean;
+}
+
+const EXCHANGE_TYPES = ['topic', 'direct', 'fanout', 'headers'];
+const DEDUPLICATION_KEYS = ['id', 'content-hash', 'extension'];
+
+/** Settings merged with their default rather than replacing it */
+const MERGED_SETTINGS = ['options', 'retry', 'deduplication', 'consumerOptions'] as const;
+
+/** Settings converted from strings (as produced by ${ENV_VAR} references) */
+const NUMERIC_SETTINGS = new Set([
+  'prefetch',
+  'messageTtl',
+  'maxLength',
+  'maxPriority',
+  'maxAttempts',
+  'initialDelay',
+  'maxDelay',
+  'backoffMultiplier',
+  'jitter',
+  'ttl',
+  'window',
+  'maxParallel',
+  'deduplicationWindow',
+  'drainTimeout',
+]);
+const BOOLEAN_SETTINGS = new Set([
+  'enabled',
+  'durable',
+  'autoDelete',
+  'exclusive',
+  'autoAck',
+  'ackOnSuccess',
+  'requeueOnFailure',
+  'enableDeduplication',
+  'parallel',
+]);
+
+/**
+ * Validate a consumer configuration
+ *
+ * @param config - Consumer configuration
+ * @param label - How the consumer is named in errors (defaults to its name)
+ * @returns Validation errors (empty if valid)
+ */
+export function validateConsumerConfig(config: QueueConsumerConfig, label?: string): string[] {
+  const errors: string[] = [];
+  const name = `consumer ${label ?? `'${config?.name}'`}`;
+
+  if (typeof config !== 'object' || config === null) {
+    return [`${name} must be an object`];
+  }
+
+  for (const field of ['name', 'queue', 'exchange'] as const) {
+    if (typeof config[field] !== 'string' || config[field] === '') {
+      errors.push(`${name} is missing ${field}`);
+    }
+  }
+  if (!EXCHANGE_TYPES.includes(config.exchangeType)) {
+    errors.push(`${name} exchangeType must be one of ${EXCHANGE_TYPES.join(', ')}`);
+  }
+  if (typeof config.routingKey !== 'string') {
+    errors.push(`${name} is missing routingKey`);
+  }
+
+  const overrides = config.consumerOptions;
+  const numbers: Array<[string, unknown, NumberRule]> = [
+    ['prefetch', config.prefetch, { min: 0, integer: true }],
+    ['options.messageTtl', config.options?.messageTtl, { min: 0 }],
+    ['options.maxLength', config.options?.maxLength, { min: 1, integer: true }],
+    ['options.maxPriority', config.options?.maxPriority, { min: 1, max: 255, integer: true }],
+    ['deduplication.window', config.deduplication?.window, { min: 1 }],
+    ['consumerOptions.maxParallel', overrides?.maxParallel, { min: 1, integer: true }],
+    ['consumerOptions.drainTimeout', overrides?.drainTimeout, { min: 0 }],
+  ];
+  if (config.retry) {
+    numbers.push(
+      ['retry.maxAttempts', config.retry.maxAttempts, { min: 1, integer: true, required: true }],
+      ['retry.initialDelay', config.retry.initialDelay, { min: 1, required: true }],
+      ['retry.maxDelay', config.retry.maxDelay, { min: 1, required: true }],
+      ['retry.backoffMultiplier', config.retry.backoffMultiplier, { min: 1, required: true }],
+    );
+  }
+  for (const [field, value, rule] of numbers) {
+    checkNumber(errors, `${name} ${field}`, value, rule);
+  }
+
+  if (config.dlq) {
+    for (const field of ['queue', 'exchange', 'routingKey'] as const) {
+      if (typeof config.dlq[field] !== 'string' || config.dlq[field] === '') {
+        errors.push(`${name} dlq is missing ${field}`);
+      }
+    }
+  }
+
+  const deduplicationKey = config.deduplication?.key ?? overrides?.deduplicationKey;
+  if (deduplicationKey !== undefined && !DEDUPLICATION_KEYS.includes(deduplicationKey)) {
+    errors.push(`${name} deduplication key must be one of ${DEDUPLICATION_KEYS.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a topology
+ *
+ * Checks every exchange and consumer, that names are unique, and that each
+ * dead-letter exchange named in queue options is declared.
+ *
+ * @param topology - Topology to validate
+ * @returns Validation errors (empty if valid)
+ */
+export function validateConsumerTopology(topology: ConsumerTopology): string[] {
+  const errors: string[] = [];
+  const exchanges = new Set<string>();
+  const consumers = new Set<string>();
+
+  if (!Array.isArray(topology.exchanges)) {
+    errors.push('exchanges must be a list');
+  } else {
+    topology.exchanges.forEach((exchange, index) => {
+      const label = exchange?.name ? `'${exchange.name}'` : `#${index}`;
+
+      if (!exchange?.name) {
+        errors.push(`exchange ${label} is missing name`);
+      } else if (exchanges.has(exchange.name)) {
+        errors.push(`exchange '${exchange.name}' is declared more than once`);
+      } else {
+        exchanges.add(exchange.name);
+      }
+
+      if (!EXCHANGE_TYPES.includes(exchange?.type)) {
+        errors.push(`exchange ${label} type must be one of ${EXCHANGE_TYPES.join(', ')}`);
+      }
+    });
+  }
+
+  if (!Array.isArray(topology.consumers)) {
+    return [...errors, 'consumers must be a list'];
+  }
+
+  // Consumer DLQ exchanges are asserted with the consumer
+  for (const consumer of topology.consumers) {
+    if (consumer?.dlq?.exchange) {
+      exchanges.add(consumer.dlq.exchange);
+    }
+  }
+
+  topology.consumers.forEach((consumer, index) => {
+    const label = consumer?.name ? `'${consumer.name}'` : `#${index}`;
+    errors.push(...validateConsumerConfig(consumer, label));
+
+    if (consumer?.name) {
+      if (consumers.has(consumer.name)) {
+        errors.push(`consumer name '${consumer.name}' is used more than once`);
+      }
+      consumers.add(consumer.name);
+    }
+
+    const deadLetterExchange = consumer?.options?.deadLetterExchange;
+    if (deadLetterExchange && !exchanges.has(deadLetterExchange)) {
+      errors.push(
+        `consumer ${label} dead-letter exchange '${deadLetterExchange}' is not declared`,
+      );
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Load a consumer topology file
+ *
+ * @param filePath - Path to the YAML topology file
+ * @param env - Environment for ${VAR} references
+ * @returns Validated topology
+ * @throws Error if the file cannot be read, parsed or is invalid
+ */
+export function loadConsumerTopologyFile(
+  filePath: string,
+  env: NodeJS.ProcessEnv = process.env,
+): ConsumerTopology {
+  let topology: ConsumerTopology;
+
+  try {
+    const parsed = (yaml.load(fs.readFileSync(filePath, 'utf8')) ?? {}) as Record<string, unknown>;
+    const contents = coerceSettings(interpolateEnv(parsed, env)) as ConsumerTopologyFile;
+    const defaults = contents.defaults ?? {};
+
+    topology = {
+      exchanges: contents.exchanges ?? [],
+      consumers: Array.isArray(contents.consumers)
+        ? contents.consumers.map((consumer) => withDefaults(consumer, defaults))
+        : (contents.consumers as unknown as QueueConsumerConfig[]),
+    };
+  } catch (error) {
+    throw new Error(`Failed to load consumer topology ${filePath}: ${(error as Error).message}`);
+  }
+
+  const errors = validateConsumerTopology(topology);
+  if (errors.length > 0) {
+    throw new Error(`Invalid consumer topology ${filePath}: ${errors.join(', ')}`);
+  }
+
+  return topology;
+}
+
+/**
+ * Merge the file defaults into a consumer entry
+ *
+ * Consumers are enabled topic consumers unless configured otherwise. DLQ
+ * defaults (e.g. the exchange) only apply to consumers that declare a DLQ,
+ * which routes by the consumer queue name unless it sets a routing key.
+ */
+function withDefaults(
+  consumer: Partial<QueueConsumerConfig>,
+  defaults: Partial<QueueConsumerConfig>,
+): QueueConsumerConfig {
+  const { dlq: defaultDlq, ...inherited } = defaults;
+  const config: Record<string, unknown> = {
+    enabled: true,
+    exchangeType: 'topic',
+    ...inherited,
+    ...consumer,
+  };
+
+  for (const setting of MERGED_SETTINGS) {
+    const value = consumer?.[setting];
+    if (value === null) {
+      delete config[setting];
+    } else if (defaults[setting] || value) {
+      config[setting] = { ...defaults[setting], ...value };
+    }
+  }
+
+  if (consumer?.dlq) {
+    const dlq = { ...defaultDlq, ...consumer.dlq };
+    config['dlq'] = { ...dlq, routingKey: dlq.routingKey ?? consumer.queue };
+  } else {
+    delete config['dlq'];
+  }
+
+  return config as unknown as QueueConsumerConfig;
+}
+
+/**
+ * Convert string values of numeric and boolean settings
+ */
+function coerceSettings(value: unknown, key?: string): unknown {
+  if (typeof value === 'string' && key !== undefined) {
+    if (NUMERIC_SETTINGS.has(key) && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      return Number(value);
+    }
+    if (BOOLEAN_SETTINGS.has(key) && (value === 'true' || value === 'false')) {
+      return value === 'true';
+    }
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => coerceSettings(item));
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [name, coerceSettings(item, name)]),
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Check a numeric setting against its rule
+ */
+function checkNumber(errors: string[], setting: string, value: unknown, rule: NumberRule): void {
+  if (value === undefined) {
+    if (rule.required) {
+      errors.push(`${setting} is required`);
+    }
+    return;
+  }
+
+  if (
+    typeof value !== 'number' ||
+    !Number.isFinite(value) ||
+    value < rule.min ||
+    (rule.max !== undefined && value > rule.max) ||
+    (rule.integer && !Number.isInteger(value))
+  ) {
+    const range = rule.max === undefined ? `>= ${rule.min}` : `from ${rule.min} to ${rule.max}`;
+    errors.push(`${setting} must be ${rule.integer ? 'an integer' : 'a number'} ${range}`);
+  }
+}
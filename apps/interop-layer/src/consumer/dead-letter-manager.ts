@@ -0,0 +1,530 @@
+/**
+ * DeadLetterManager
+ *
+ * Inspection and recovery of consumer dead letter queues:
+ * - DLQ depth per consumer
+ * - Paging through dead-lettered CloudEvents with failure reason and x-death history
+ * - Replay of selected messages to their original exchange and routing key
+ * - Purge that returns the removed messages (export and purge in one step)
+ *
+ * Messages are read with basic.get on a dedicated confirm channel. Messages that
+ * are not acknowledged (peeked, unselected or failed) return to the DLQ when the
+ * channel is closed.
+ */
+
+import * as amqp from 'amqplib';
+import { logger, NotFoundError, ValidationError } from '@smile/common';
+import { ConfirmMessageChannel } from '@smile/cloud-events';
+import {
+  DLQConfig,
+  DeadLetterDeath,
+  DeadLetterDepth,
+  DeadLetterFilter,
+  DeadLetterMessage,
+  DeadLetterPage,
+  DeadLetterReplayResult,
+  QueueConsumerConfig,
+} from '../messaging/types';
+import { ConnectionManager } from '../messaging/connection-manager';
+import { RouteMatchEngine } from '../routing/route-match-engine';
+import {
+  ATTEMPTS_HEADER,
+  LAST_ERROR_HEADER,
+  ORIGINAL_EXCHANGE_HEADER,
+  ORIGINAL_QUEUE_HEADER,
+  ORIGINAL_ROUTING_KEY_HEADER,
+} from './retry-manager';
+
+/**
+ * Consumer configuration with a DLQ
+ */
+type DeadLetterConsumer = QueueConsumerConfig & { dlq: DLQConfig };
+
+/**
+ * Dead letter queue manager
+ */
+export class DeadLetterManager {
+  /** Largest page returned by listMessages */
+  public static readonly MAX_PAGE_SIZE = 100;
+
+  /** Most messages read from a DLQ in one operation */
+  public static readonly MAX_SCAN = 10000;
+
+  /** Headers describing a failed delivery, removed on replay */
+  private static readonly FAILURE_HEADERS = [
+    'x-death',
+    'x-first-death-exchange',
+    'x-first-death-queue',
+    'x-first-death-reason',
+    ATTEMPTS_HEADER,
+    LAST_ERROR_HEADER,
+    ORIGINAL_EXCHANGE_HEADER,
+    ORIGINAL_QUEUE_HEADER,
+    ORIGINAL_ROUTING_KEY_HEADER,
+  ];
+
+  private readonly consumers: DeadLetterConsumer[];
+  private readonly matchEngine = new RouteMatchEngine();
+
+  constructor(
+    private readonly connectionManager: ConnectionManager,
+    consumers: QueueConsumerConfig[],
+  ) {
+    this.consumers = consumers.filter(
+      (consumer): consumer is DeadLetterConsumer => consumer.dlq !== undefined,
+    );
+  }
+
+  /**
+   * Manage the DLQ of a consumer added at runtime
+   *
+   * @param consumer - Consumer configuration (ignored if it has no DLQ)
+   */
+  public addConsumer(consumer: QueueConsumerConfig): void {
+    if (consumer.dlq !== undefined) {
+      this.consumers.push(consumer as DeadLetterConsumer);
+    }
+  }
+
+  /**
+   * Stop managing the DLQ of a removed consumer
+   *
+   * The DLQ itself is kept.
+   *
+   * @param consumerName - Consumer name
+   */
+  public removeConsumer(consumerName: string): void {
+    const index = this.consumers.findIndex((c) => c.name === consumerName);
+    if (index !== -1) {
+      this.consumers.splice(index, 1);
+    }
+  }
+
+  /**
+   * Get the DLQ depth of every consumer with a DLQ
+   *
+   * @returns Depth per consumer
+   */
+  public async getDepths(): Promise<DeadLetterDepth[]> {
+    const depths: DeadLetterDepth[] = [];
+
+    for (const consumer of this.consumers) {
+      const depth: DeadLetterDepth = {
+        consumer: consumer.name,
+        queue: consumer.dlq.queue,
+        messageCount: 0,
+      };
+
+      try {
+        depth.messageCount = await this.withChannel(
+          async (channel) => (await channel.checkQueue(consumer.dlq.queue)).messageCount,
+        );
+      } catch (error) {
+        depth.error = (error as Error).message;
+      }
+
+      depths.push(depth);
+    }
+
+    return depths;
+  }
+
+  /**
+   * Page through the dead-lettered messages of a consumer without removing them
+   *
+   * @param consumerName - Consumer name
+   * @param offset - Position of the first message
+   * @param limit - Page size (capped at MAX_PAGE_SIZE)
+   * @returns Page of dead-lettered messages
+   * @throws NotFoundError if the consumer has no DLQ
+   */
+  public async listMessages(
+    consumerName: string,
+    offset: number = 0,
+    limit: number = 20,
+  ): Promise<DeadLetterPage> {
+    const consumer = this.getConsumer(consumerName);
+    const pageSize = Math.min(Math.max(limit, 1), DeadLetterManager.MAX_PAGE_SIZE);
+
+    return this.withChannel(async (channel) => {
+      const { messageCount } = await channel.checkQueue(consumer.dlq.queue);
+      const end = Math.min(offset + pageSize, messageCount, DeadLetterManager.MAX_SCAN);
+      const messages: DeadLetterMessage[] = [];
+
+      // Unacknowledged messages are requeued in order when the channel closes
+      for (let position = 0; position < end; position++) {
+        const message = await channel.get(consumer.dlq.queue, { noAck: false });
+        if (!message) {
+          break;
+        }
+        if (position >= offset) {
+          messages.push(this.toDeadLetterMessage(message, position));
+        }
+      }
+
+      return {
+        consumer: consumer.name,
+        queue: consumer.dlq.queue,
+        total: messageCount,
+        offset,
+        messages,
+      };
+    });
+  }
+
+  /**
+   * Republish selected dead-lettered messages to their original destination
+   *
+   * Replayed messages start over with a fresh attempt count. A message is removed
+   * from the DLQ only after the broker confirmed its republish.
+   *
+   * @param consumerName - Consumer name
+   * @param filter - Messages to replay
+   * @returns Replay result
+   * @throws NotFoundError if the consumer has no DLQ
+   * @throws ValidationError if the filter selects nothing or is malformed
+   */
+  public async replay(
+    consumerName: string,
+    filter: DeadLetterFilter,
+  ): Promise<DeadLetterReplayResult> {
+    const consumer = this.getConsumer(consumerName);
+    this.validateFilter(filter);
+
+    const result = await this.withChannel(async (channel) => {
+      const { messageCount } = await channel.checkQueue(consumer.dlq.queue);
+      const scanLimit = Math.min(messageCount, DeadLetterManager.MAX_SCAN);
+      const replayResult: DeadLetterReplayResult = { scanned: 0, replayed: [], failed: [] };
+
+      for (let position = 0; position < scanLimit; position++) {
+        const message = await channel.get(consumer.dlq.queue, { noAck: false });
+        if (!message) {
+          break;
+        }
+        replayResult.scanned++;
+
+        const deadLetter = this.toDeadLetterMessage(message, position);
+        if (!this.matches(deadLetter, filter)) {
+          continue;
+        }
+
+        const target = this.getReplayTarget(deadLetter);
+        if (!target) {
+          this.recordFailure(replayResult, deadLetter, 'Original destination unknown');
+          continue;
+        }
+
+        try {
+          await this.republish(channel, message, target.exchange, target.routingKey);
+          channel.ack(message);
+          replayResult.replayed.push(deadLetter.messageId ?? `position-${position}`);
+        } catch (error) {
+          // A failed publish usually closes the channel; stop and leave the rest queued
+          this.recordFailure(replayResult, deadLetter, (error as Error).message);
+          break;
+        }
+      }
+
+      return replayResult;
+    });
+
+    logger.info('Dead-lettered messages replayed', {
+      consumer: consumer.name,
+      queue: consumer.dlq.queue,
+      filter,
+      scanned: result.scanned,
+      replayed: result.replayed.length,
+      failed: result.failed.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * Remove every message from a consumer DLQ, returning the removed messages
+   *
+   * @param consumerName - Consumer name
+   * @returns The purged messages (at most MAX_SCAN per call)
+   * @throws NotFoundError if the consumer has no DLQ
+   */
+  public async purge(consumerName: string): Promise<DeadLetterMessage[]> {
+    const consumer = this.getConsumer(consumerName);
+
+    const purged = await this.withChannel(async (channel) => {
+      const { messageCount } = await channel.checkQueue(consumer.dlq.queue);
+      const scanLimit = Math.min(messageCount, DeadLetterManager.MAX_SCAN);
+      const messages: DeadLetterMessage[] = [];
+
+      for (let position = 0; position < scanLimit; position++) {
+        const message = await channel.get(consumer.dlq.queue, { noAck: false });
+        if (!message) {
+          break;
+        }
+        messages.push(this.toDeadLetterMessage(message, position));
+        channel.ack(message);
+      }
+
+      return messages;
+    });
+
+    logger.warn('Dead letter queue purged', {
+      consumer: consumer.name,
+      queue: consumer.dlq.queue,
+      purged: purged.length,
+    });
+
+    return purged;
+  }
+
+  /**
+   * Get a consumer with a DLQ by name
+   *
+   * @throws NotFoundError if no such consumer has a DLQ
+   */
+  private getConsumer(consumerName: string): DeadLetterConsumer {
+    const consumer = this.consumers.find((c) => c.name === consumerName);
+
+    if (!consumer) {
+      throw new NotFoundError(`No dead letter queue configured for consumer '${consumerName}'`, {
+        consumer: consumerName,
+      });
+    }
+
+    return consumer;
+  }
+
+  /**
+   * Validate a replay filter
+   *
+   * @throws ValidationError if the filter selects nothing or is malformed
+   */
+  private validateFilter(filter: DeadLetterFilter): void {
+    const { messageIds, type, source, from, to } = filter;
+
+    if (
+      messageIds !== undefined &&
+      (!Array.isArray(messageIds) || messageIds.some((id) => typeof id !== 'string'))
+    ) {
+      throw new ValidationError('messageIds must be an array of strings');
+    }
+    if (messageIds === undefined && !type && !source && !from && !to) {
+      throw new ValidationError('Replay filter must select messages by id, type, source or time');
+    }
+
+    for (const [name, value] of Object.entries({ type, source })) {
+      if (value !== undefined && typeof value !== 'string') {
+        throw new ValidationError(`${name} must be a string`);
+      }
+    }
+    for (const [name, value] of Object.entries({ from, to })) {
+      if (value !== undefined && Number.isNaN(Date.parse(value))) {
+        throw new ValidationError(`${name} must be an ISO 8601 timestamp`);
+      }
+    }
+  }
+
+  /**
+   * Run an operation on a dedicated confirm channel, closing it afterwards
+   *
+   * Closing the channel returns unacknowledged messages to their queue.
+   */
+  private async withChannel<T>(
+    operation: (channel: ConfirmMessageChannel) => Promise<T>,
+  ): Promise<T> {
+    const channel = await this.connectionManager.getConfirmChannel();
+    // Channel errors (e.g. missing queue) are reported through the rejected operation
+    channel.on('error', () => undefined);
+
+    try {
+      return await operation(channel);
+    } finally {
+      try {
+        await channel.close();
+      } catch {
+        // Already closed by a channel error
+      }
+    }
+  }
+
+  /**
+   * Record a message that could not be replayed
+   */
+  private recordFailure(
+    result: DeadLetterReplayResult,
+    deadLetter: DeadLetterMessage,
+    error: string,
+  ): void {
+    result.failed.push(
+      deadLetter.messageId !== undefined ? { messageId: deadLetter.messageId, error } : { error },
+    );
+  }
+
+  /**
+   * Convert a RabbitMQ message to its dead letter description
+   */
+  private toDeadLetterMessage(message: amqp.GetMessage, position: number): DeadLetterMessage {
+    const headers = message.properties.headers ?? {};
+    const content = message.content.toString();
+
+    let event: unknown;
+    try {
+      event = JSON.parse(content);
+    } catch {
+      event = content;
+    }
+
+    const deaths: DeadLetterDeath[] = (headers['x-death'] ?? []).map((death: amqp.XDeath) => {
+      const entry: DeadLetterDeath = {
+        queue: death.queue,
+        reason: death.reason,
+        count: Number(death.count) || 0,
+      };
+      if (death.exchange !== undefined) {
+        entry.exchange = death.exchange;
+      }
+      if (Array.isArray(death['routing-keys'])) {
+        entry.routingKeys = death['routing-keys'];
+      }
+      if (death.time) {
+        entry.time = new Date(this.toMillis(death.time));
+      }
+      return entry;
+    });
+
+    const deadLetter: DeadLetterMessage = { position, event, deaths };
+    const messageId = message.properties.messageId ?? (event as { id?: unknown } | null)?.id;
+
+    if (typeof messageId === 'string') {
+      deadLetter.messageId = messageId;
+    }
+    if (headers[LAST_ERROR_HEADER] !== undefined) {
+      deadLetter.failureReason = String(headers[LAST_ERROR_HEADER]);
+    }
+    if (headers[ATTEMPTS_HEADER] !== undefined) {
+      deadLetter.attempts = Number(headers[ATTEMPTS_HEADER]);
+    }
+    if (headers[ORIGINAL_QUEUE_HEADER] !== undefined) {
+      deadLetter.originalQueue = String(headers[ORIGINAL_QUEUE_HEADER]);
+    }
+    if (headers[ORIGINAL_EXCHANGE_HEADER] !== undefined) {
+      deadLetter.originalExchange = String(headers[ORIGINAL_EXCHANGE_HEADER]);
+    }
+    if (headers[ORIGINAL_ROUTING_KEY_HEADER] !== undefined) {
+      deadLetter.originalRoutingKey = String(headers[ORIGINAL_ROUTING_KEY_HEADER]);
+    }
+
+    return deadLetter;
+  }
+
+  /**
+   * Check whether a dead-lettered message matches a replay filter
+   */
+  private matches(deadLetter: DeadLetterMessage, filter: DeadLetterFilter): boolean {
+    const event = typeof deadLetter.event === 'object' && deadLetter.event !== null
+      ? deadLetter.event as Record<string, unknown>
+      : {};
+
+    if (filter.messageIds && !filter.messageIds.includes(deadLetter.messageId ?? '')) {
+      return false;
+    }
+    if (filter.type && !this.matchEngine.matchPattern(String(event.type ?? ''), filter.type)) {
+      return false;
+    }
+    if (
+      filter.source &&
+      !this.matchEngine.matchPattern(String(event.source ?? ''), filter.source)
+    ) {
+      return false;
+    }
+
+    if (filter.from || filter.to) {
+      const time = Date.parse(String(event.time ?? ''));
+      if (Number.isNaN(time)) {
+        return false;
+      }
+      if (filter.from && time < Date.parse(filter.from)) {
+        return false;
+      }
+      if (filter.to && time > Date.parse(filter.to)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Determine where a dead-lettered message was originally published
+   *
+   * @returns Exchange and routing key, or null if unknown
+   */
+  private getReplayTarget(
+    deadLetter: DeadLetterMessage,
+  ): { exchange: string; routingKey: string } | null {
+    if (deadLetter.originalExchange !== undefined && deadLetter.originalRoutingKey !== undefined) {
+      return { exchange: deadLetter.originalExchange, routingKey: deadLetter.originalRoutingKey };
+    }
+
+    // Dead-lettered by the broker (e.g. queue-level DLX): the oldest death holds the origin
+    const firstDeath = deadLetter.deaths[deadLetter.deaths.length - 1];
+    const routingKey = firstDeath?.routingKeys?.[0];
+    if (firstDeath?.exchange !== undefined && routingKey !== undefined) {
+      return { exchange: firstDeath.exchange, routingKey };
+    }
+
+    if (deadLetter.originalQueue) {
+      return { exchange: '', routingKey: deadLetter.originalQueue };
+    }
+
+    return null;
+  }
+
+  /**
+   * Republish a message without its failure headers and wait for the broker confirm
+   */
+  private async republish(
+    channel: ConfirmMessageChannel,
+    message: amqp.GetMessage,
+    exchange: string,
+    routingKey: string,
+  ): Promise<void> {
+    const { properties } = message;
+    const headers: Record<string, unknown> = { ...properties.headers };
+    for (const header of DeadLetterManager.FAILURE_HEADERS) {
+      delete headers[header];
+    }
+
+    const options: amqp.Options.Publish = { persistent: true, headers };
+    if (properties.contentType) {
+      options.contentType = properties.contentType;
+    }
+    if (properties.messageId) {
+      options.messageId = properties.messageId;
+    }
+    if (properties.correlationId) {
+      options.correlationId = properties.correlationId;
+    }
+    if (properties.timestamp) {
+      options.timestamp = properties.timestamp;
+    }
+    if (properties.priority !== undefined) {
+      options.priority = properties.priority;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      channel.publish(exchange, routingKey, message.content, options, (err) =>
+        err ? reject(err) : resolve(),
+      );
+    });
+  }
+
+  /**
+   * Convert an AMQP timestamp (seconds, possibly wrapped) to milliseconds
+   */
+  private toMillis(time: unknown): number {
+    const seconds = typeof time === 'object' && time !== null
+      ? Number((time as { value?: unknown }).value)
+      : Number(time);
+    return seconds * 1000;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Deduplication Store
+ *
+ * Storage for recently processed event keys:
+ * - Keys are namespaced per consumer so windows stay independent
+ * - Each key expires after the window it was recorded with
+ * - checkAndRecord is atomic, so concurrent deliveries cannot both pass
+ */
+
+/**
+ * Deduplication store
+ */
+export interface DeduplicationStore {
+  /**
+   * Record a key unless it was already seen within its window
+   *
+   * @param namespace - Key namespace (consumer name)
+   * @param key - Deduplication key
+   * @param windowMs - How long the key is remembered
+   * @returns True if the key was already recorded (duplicate)
+   */
+  checkAndRecord(namespace: string, key: string, windowMs: number): Promise<boolean>;
+
+  /**
+   * Forget a key so its next delivery is processed
+   *
+   * @param namespace - Key namespace (consumer name)
+   * @param key - Deduplication key
+   */
+  remove(namespace: string, key: string): Promise<void>;
+
+  /**
+   * Release resources held by the store
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * In-memory deduplication store
+ *
+ * Per-process only: entries are lost on restart and not shared by replicas.
+ */
+export class InMemoryDeduplicationStore implements DeduplicationStore {
+  private static readonly PRUNE_INTERVAL = 60000; // 1 minute in milliseconds
+
+  /** Expiry timestamp per namespaced key */
+  private readonly entries = new Map<string, number>();
+  private lastPrunedAt = Date.now();
+
+  public async checkAndRecord(namespace: string, key: string, windowMs: number): Promise<boolean> {
+    const now = Date.now();
+    this.pruneIfDue(now);
+
+    const entryKey = this.getEntryKey(namespace, key);
+    const expiresAt = this.entries.get(entryKey);
+
+    if (expiresAt !== undefined && expiresAt > now) {
+      return true;
+    }
+
+    this.entries.set(entryKey, now + windowMs);
+    return false;
+  }
+
+  public async remove(namespace: string, key: string): Promise<void> {
+    this.entries.delete(this.getEntryKey(namespace, key));
+  }
+
+  public async close(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /**
+   * Get the number of stored keys (including expired keys not yet pruned)
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Remove expired keys at most once per PRUNE_INTERVAL
+   */
+  private pruneIfDue(now: number): void {
+    if (now - this.lastPrunedAt < InMemoryDeduplicationStore.PRUNE_INTERVAL) {
+      return;
+    }
+
+    for (const [entryKey, expiresAt] of this.entries) {
+      if (expiresAt <= now) {
+        this.entries.delete(entryKey);
+      }
+    }
+    this.lastPrunedAt = now;
+  }
+
+  private getEntryKey(namespace: string, key: string): string {
+    return `${namespace}\u0000${key}`;
+  }
+}
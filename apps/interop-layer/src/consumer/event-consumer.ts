@@ -3,14 +3,19 @@
  *
  * Consumes CloudEvents from RabbitMQ queues with:
  * - Queue and exchange management
+ * - CloudEvents structured, binary and batch content modes
  * - CloudEvent validation
  * - Message acknowledgment
+ * - Bounded parallel processing with per-key ordering (when enabled)
+ * - Delayed retry and dead-lettering of failed messages (when configured)
  * - Statistics tracking
  * - Deduplication support
+ * - Trace continuation from the traceparent/tracestate extension attributes
  */
 
 import * as amqp from 'amqplib';
-import { logger } from '@smile/common';
+import { logger, withSpan, extractTraceContext, SpanKind } from '@smile/common';
+import { MessageChannel } from '@smile/cloud-events';
 import {
   QueueConsumerConfig,
   ConsumerOptions,
@@ -21,6 +26,38 @@ import {
 import { ConnectionManager } from '../messaging/connection-manager';
 import { CloudEventValidator } from './cloud-event-validator';
 import { MessageHandler } from './message-handler';
+import { RetryManager } from './retry-manager';
+import { DeduplicationStore } from './deduplication-store';
+import { OrderedDispatcher } from './ordered-dispatcher';
+
+/**
+ * Statistics kept by the consumer (the rest come from the message handler)
+ */
+type ConsumerCounters = Omit<
+  ConsumerStats,
+  | 'messagesDuplicate'
+  | 'processingTime'
+  | 'latencyByPriority'
+  | 'isDraining'
+  | 'messagesInFlight'
+>;
+
+/**
+ * Settlement of a batch message split into individual events
+ */
+interface BatchSettlement {
+  /** The batch message */
+  message: amqp.ConsumeMessage;
+
+  /** Events not yet settled */
+  remaining: number;
+
+  /** Whether any event was nacked */
+  failed: boolean;
+
+  /** Requeue the batch when nacked (defaults to options.requeueOnFailure) */
+  requeue?: boolean;
+}
 
 /**
  * EventConsumer
@@ -29,31 +66,63 @@ import { MessageHandler } from './message-handler';
  */
 export class EventConsumer {
   private static readonly MS_PER_SECOND = 1000;
+  private static readonly DEFAULT_MAX_PARALLEL = 10;
+  private static readonly DEFAULT_DRAIN_TIMEOUT = 30000;
 
-  private channel: amqp.Channel | null = null;
+  private channel: MessageChannel | null = null;
   private consumerTag: string | null = null;
   private isActive = false;
+  private isDraining = false;
   private startedAt: Date | null = null;
 
   private readonly validator: CloudEventValidator;
   private readonly messageHandler: MessageHandler;
+  private readonly retryManager: RetryManager | null;
+  private readonly dispatcher: OrderedDispatcher;
+  private readonly concurrency: number;
+
+  /** Events split from a batch, pending settlement */
+  private readonly batchParts = new WeakMap<amqp.ConsumeMessage, BatchSettlement>();
+
+  /** Deliveries not yet acked or nacked */
+  private readonly unsettled = new Set<amqp.ConsumeMessage>();
 
-  private stats: ConsumerStats;
+  /** Share of the configured prefetch set by backpressure (null: full prefetch) */
+  private prefetchRatio: number | null = null;
+
+  /** Deliveries nacked with requeue by a timed-out drain */
+  private readonly requeued = new WeakSet<amqp.ConsumeMessage>();
+
+  private stats: ConsumerCounters;
 
   constructor(
     private readonly connectionManager: ConnectionManager,
     private readonly config: QueueConsumerConfig,
     private readonly options: ConsumerOptions,
     private readonly handler: CloudEventHandler,
+    deduplicationStore?: DeduplicationStore,
+    validator?: CloudEventValidator,
   ) {
-    this.validator = new CloudEventValidator();
-    this.messageHandler = new MessageHandler(options);
+    this.validator = validator ?? new CloudEventValidator();
+    this.messageHandler = new MessageHandler(
+      this.getHandlerOptions(),
+      deduplicationStore,
+      config.name,
+    );
+    this.retryManager =
+      config.retry || config.dlq ? new RetryManager(connectionManager, config) : null;
+    this.concurrency = options.parallel
+      ? options.maxParallel ?? EventConsumer.DEFAULT_MAX_PARALLEL
+      : 1;
+    this.dispatcher = new OrderedDispatcher(this.concurrency);
     this.stats = this.createInitialStats();
   }
 
   /**
    * Start consuming messages from the queue
    *
+   * A stopped consumer can be started again: its topology is re-asserted on a new channel.
+   *
    * @throws Error if consumer is already active
    */
   public async start(): Promise<void> {
@@ -63,6 +132,8 @@ export class EventConsumer {
 
     try {
       logger.info('Starting consumer with config', { config: this.config });
+      await this.closeChannel();
+
       // Get channel from connection manager
       this.channel = await this.connectionManager.getChannel();
 
@@ -81,10 +152,12 @@ export class EventConsumer {
       await this.channel.assertQueue(this.config.queue, {
         durable: this.config.options?.durable ?? true,
         autoDelete: this.config.options?.autoDelete ?? false,
+        exclusive: this.config.options?.exclusive ?? false,
         messageTtl: this.config.options?.messageTtl,
         maxLength: this.config.options?.maxLength,
         deadLetterExchange: this.config.options?.deadLetterExchange,
         deadLetterRoutingKey: this.config.options?.deadLetterRoutingKey,
+        maxPriority: this.config.options?.maxPriority,
       });
 
       logger.info('Queue asserted', {
@@ -104,23 +177,21 @@ export class EventConsumer {
         routingKey: this.config.routingKey,
       });
 
-      // Set prefetch if configured
-      if (this.config.prefetch !== undefined) {
-        this.channel.prefetch(this.config.prefetch);
-        logger.info('Prefetch set', { prefetch: this.config.prefetch });
+      // Assert retry queues and DLQ
+      if (this.retryManager) {
+        await this.retryManager.setup(this.channel);
       }
 
-      // Start consuming
-      const consumeResult = await this.channel.consume(
-        this.config.queue,
-        this.handleMessage.bind(this),
-        {
-          noAck: this.options.autoAck ?? false,
-          consumerTag: this.options.consumerTag,
-        },
-      );
+      // Set prefetch before consuming: the broker applies it to consumers created afterwards
+      // (parallel consumers need at least maxParallel)
+      const prefetch = this.getLimitedPrefetch();
+      if (prefetch !== undefined) {
+        this.channel.prefetch(prefetch);
+        logger.info('Prefetch set', { prefetch, concurrency: this.concurrency });
+      }
 
-      this.consumerTag = consumeResult.consumerTag;
+      // Start consuming
+      this.consumerTag = await this.consume(this.channel);
       this.isActive = true;
       this.startedAt = new Date();
 
@@ -140,21 +211,47 @@ export class EventConsumer {
 
   /**
    * Stop consuming messages
+   *
+   * Drains the consumer before returning:
+   * - cancels the consumer so the broker stops delivering
+   * - waits up to the drain timeout for in-flight messages to be acked or nacked
+   * - nacks with requeue whatever is still unsettled, so another replica picks it up
+   *   instead of the broker redelivering it only once the channel closes
+   *
+   * @param drainTimeout - Max wait in milliseconds (defaults to options.drainTimeout)
    */
-  public async stop(): Promise<void> {
+  public async stop(drainTimeout?: number): Promise<void> {
     if (!this.isActive || !this.channel || !this.consumerTag) {
       return;
     }
 
+    const timeout =
+      drainTimeout ?? this.options.drainTimeout ?? EventConsumer.DEFAULT_DRAIN_TIMEOUT;
+
     try {
+      this.isDraining = true;
+
       await this.channel.cancel(this.consumerTag);
 
       this.isActive = false;
       this.consumerTag = null;
 
+      logger.info('Consumer draining', {
+        name: this.config.name,
+        inFlight: this.unsettled.size,
+        drainTimeout: timeout,
+      });
+
+      // Let in-flight messages settle while the channel is still open
+      const drained = await this.waitForIdle(timeout);
+      if (!drained) {
+        this.requeueUnsettled();
+      }
+
       logger.info('Consumer stopped', {
         name: this.config.name,
         queue: this.config.queue,
+        drained,
       });
     } catch (error) {
       logger.error('Failed to stop consumer', {
@@ -162,9 +259,54 @@ export class EventConsumer {
         name: this.config.name,
       });
       // Don't throw - best effort stop
+    } finally {
+      this.isDraining = false;
     }
   }
 
+  /**
+   * Shrink the prefetch to a share of the configured prefetch (backpressure)
+   *
+   * The prefetch is per consumer and only applies to consumers created after it
+   * is set, so a running consumer is re-created with the new prefetch; a stopped
+   * consumer gets it when started.
+   *
+   * @param ratio - Share of the configured prefetch (at least one message),
+   *   or null to restore the configured prefetch
+   */
+  public async limitPrefetch(ratio: number | null): Promise<void> {
+    if (ratio === this.prefetchRatio) {
+      return;
+    }
+    this.prefetchRatio = ratio;
+
+    if (!this.isActive || !this.channel || !this.consumerTag) {
+      return;
+    }
+
+    const prefetch = this.getLimitedPrefetch() ?? this.connectionManager.getPrefetchCount();
+
+    await this.channel.cancel(this.consumerTag);
+    this.channel.prefetch(prefetch);
+    this.consumerTag = await this.consume(this.channel);
+
+    logger.info('Consumer prefetch changed', {
+      name: this.config.name,
+      prefetch,
+      ratio,
+    });
+  }
+
+  /**
+   * Stop consuming and close the consumer channel
+   *
+   * @param drainTimeout - Max wait in milliseconds (defaults to options.drainTimeout)
+   */
+  public async close(drainTimeout?: number): Promise<void> {
+    await this.stop(drainTimeout);
+    await this.closeChannel();
+  }
+
   /**
    * Get consumer statistics
    *
@@ -175,11 +317,19 @@ export class EventConsumer {
     const messagesPerSecond =
       uptime > 0 ? (this.stats.messagesConsumed / uptime) * EventConsumer.MS_PER_SECOND : 0;
 
+    const { messagesDuplicate, processingTime, latencyByPriority } =
+      this.messageHandler.getStats();
+
     return {
       ...this.stats,
+      messagesDuplicate,
+      processingTime,
+      latencyByPriority,
       uptime,
       messagesPerSecond,
       isActive: this.isActive,
+      isDraining: this.isDraining,
+      messagesInFlight: this.unsettled.size,
     };
   }
 
@@ -201,7 +351,11 @@ export class EventConsumer {
   /**
    * Handle incoming message
    *
+   * Messages are parsed and validated in delivery order, then processed through
+   * the dispatcher so events sharing an ordering key never overtake each other.
+   *
    * @param message - The RabbitMQ message
+   * @returns Promise resolving when the message has been settled
    */
   private async handleMessage(message: amqp.ConsumeMessage | null): Promise<void> {
     if (!message || !this.channel) {
@@ -210,50 +364,137 @@ export class EventConsumer {
 
     logger.info('Received message', { content: message.content.toString() });
 
-    const startTime = Date.now();
+    this.stats.messagesConsumed++;
+    if (!this.options.autoAck) {
+      this.unsettled.add(message);
+    }
 
-    try {
-      this.stats.messagesConsumed++;
-
-      // Parse message
-      const parseResult = this.messageHandler.parseMessage(message);
-      if (!parseResult.success) {
-        logger.warn('Failed to parse message', {
-          error: parseResult.error,
-          messageId: message.properties.messageId,
-        });
+    // Parse message
+    const parseResult = this.messageHandler.parseMessage(message);
+    if (!parseResult.success) {
+      logger.warn('Failed to parse message', {
+        error: parseResult.error,
+        messageId: message.properties.messageId,
+      });
 
-        await this.rejectMessage(message);
-        return;
-      }
+      const reason = parseResult.error ?? 'Failed to parse message';
+      return this.dispatcher.dispatch(undefined, () => this.rejectMessage(message, reason));
+    }
 
-      // Validate CloudEvent
-      const validationResult = this.validator.validate(parseResult.data);
-      if (!validationResult.valid) {
-        logger.warn('Invalid CloudEvent', {
-          errors: validationResult.errors,
-          messageId: message.properties.messageId,
-        });
+    if (parseResult.mode === 'batch') {
+      return this.handleBatch(message, parseResult.data);
+    }
 
-        await this.rejectMessage(message);
-        return;
-      }
+    return this.dispatchEvent(message, parseResult.data);
+  }
+
+  /**
+   * Split a CloudEvents batch into individually processed events
+   *
+   * Each event is deduplicated, handled, retried or dead-lettered on its own;
+   * the batch message is acknowledged once every event has been settled
+   * (or nacked if any event was nacked).
+   *
+   * @param message - The batch message
+   * @param events - The events in the batch
+   */
+  private async handleBatch(message: amqp.ConsumeMessage, events: unknown[]): Promise<void> {
+    if (events.length === 0) {
+      await this.acknowledge(message, true);
+      return;
+    }
+
+    // The batch message was counted on receipt; count each event instead
+    this.stats.messagesConsumed += events.length - 1;
+
+    const settlement: BatchSettlement = {
+      message,
+      remaining: events.length,
+      failed: false,
+    };
+
+    const parts = events.map((event) => {
+      const id = (event as { id?: unknown } | null)?.id;
+      const part: amqp.ConsumeMessage = {
+        ...message,
+        content: Buffer.from(JSON.stringify(event)),
+        properties: {
+          ...message.properties,
+          contentType: 'application/cloudevents+json',
+          messageId: typeof id === 'string' ? id : message.properties.messageId,
+        },
+      };
+      this.batchParts.set(part, settlement);
+      return part;
+    });
+
+    logger.debug('CloudEvents batch split', {
+      messageId: message.properties.messageId,
+      events: events.length,
+    });
+
+    await Promise.all(parts.map((part, index) => this.dispatchEvent(part, events[index])));
+  }
+
+  /**
+   * Validate a parsed event and dispatch it for processing
+   *
+   * @param message - The message carrying the event
+   * @param data - The parsed event
+   */
+  private dispatchEvent(message: amqp.ConsumeMessage, data: unknown): Promise<void> {
+    const validationResult = this.validator.validate(data);
+    if (!validationResult.valid) {
+      logger.warn('Invalid CloudEvent', {
+        errors: validationResult.errors,
+        messageId: message.properties.messageId,
+      });
+
+      const reason = `Invalid CloudEvent: ${(validationResult.errors ?? []).join(', ')}`;
+      return this.dispatcher.dispatch(undefined, () => this.rejectMessage(message, reason));
+    }
+
+    const event: Record<string, unknown> = validationResult.event!;
+    return this.dispatcher.dispatch(this.getOrderingKey(event), () =>
+      this.processEvent(message, event),
+    );
+  }
+
+  /**
+   * Deduplicate, handle and settle a valid CloudEvent
+   *
+   * @param message - The RabbitMQ message
+   * @param event - The validated CloudEvent
+   */
+  private async processEvent(
+    message: amqp.ConsumeMessage,
+    event: Record<string, unknown>,
+  ): Promise<void> {
+    if (!this.channel) {
+      return;
+    }
 
-      const event = validationResult.event!;
+    const startTime = Date.now();
+    let deduplicationKey: string | undefined;
+    let context: MessageContext | undefined;
+
+    try {
+      deduplicationKey = this.messageHandler.getDeduplicationKey(event);
 
       // Check for duplicate
-      if (this.messageHandler.isDuplicate(event.id)) {
+      if (await this.messageHandler.isDuplicate(deduplicationKey)) {
         logger.debug('Duplicate message skipped', {
           eventId: event.id,
+          deduplicationKey,
         });
 
         this.messageHandler.recordDuplicate();
-        await this.messageHandler.acknowledgeMessage(this.channel, message, true);
+        await this.acknowledge(message, true);
         return;
       }
 
       // Extract context
-      const context: MessageContext = {
+      context = {
         ...this.messageHandler.extractContext(
           message,
           this.config.queue,
@@ -262,15 +503,30 @@ export class EventConsumer {
         channel: this.channel,
       };
 
-      // Call handler
-      await this.handler(event, context);
+      // Call handler in a consumer span continuing the producer's trace
+      await withSpan(`${this.config.queue} process`, () => this.handler(event, context!), {
+        kind: SpanKind.CONSUMER,
+        parent: extractTraceContext(event),
+        attributes: {
+          'messaging.system': 'rabbitmq',
+          'messaging.destination.name': this.config.queue,
+          'messaging.message.id': message.properties.messageId ?? String(event.id),
+          'cloudevents.event_id': String(event.id),
+          'cloudevents.event_type': String(event.type),
+          'cloudevents.event_source': String(event.source),
+          ...(event.subject !== undefined && {
+            'cloudevents.event_subject': String(event.subject),
+          }),
+        },
+      });
 
       // Acknowledge success
-      await this.messageHandler.acknowledgeMessage(this.channel, message, true);
+      await this.acknowledge(message, true);
 
       const processingTime = Date.now() - startTime;
       this.messageHandler.recordSuccess(processingTime);
       this.stats.messagesProcessed++;
+      this.recordLatency(message, event);
 
       logger.debug('Message processed successfully', {
         eventId: event.id,
@@ -283,10 +539,13 @@ export class EventConsumer {
         messageId: message.properties.messageId,
       });
 
-      if (this.channel) {
-        await this.messageHandler.acknowledgeMessage(this.channel, message, false);
+      // Let the retried or requeued delivery through deduplication
+      if (deduplicationKey) {
+        await this.messageHandler.forgetMessage(deduplicationKey);
       }
 
+      await this.settleFailure(message, error as Error, true, context?.deliveredDestinations);
+
       const processingTime = Date.now() - startTime;
       this.messageHandler.recordFailure(processingTime);
       this.stats.messagesFailed++;
@@ -294,24 +553,347 @@ export class EventConsumer {
   }
 
   /**
-   * Reject a message and update statistics
+   * Acknowledge or reject a message
    *
-   * @param message - The message to reject
+   * Events split from a batch are settled against their batch: the batch message
+   * is acked or nacked once all of its events have been settled.
+   *
+   * @param message - The message (or batch event) to settle
+   * @param success - Whether to ack
+   * @param requeue - Requeue a rejected message (defaults to options.requeueOnFailure)
+   */
+  private async acknowledge(
+    message: amqp.ConsumeMessage,
+    success: boolean,
+    requeue?: boolean,
+  ): Promise<void> {
+    if (!this.channel) {
+      return;
+    }
+
+    const settlement = this.batchParts.get(message);
+    if (!settlement) {
+      await this.settle(message, success, requeue);
+      return;
+    }
+
+    this.batchParts.delete(message);
+    settlement.remaining--;
+    if (!success) {
+      settlement.failed = true;
+      if (requeue !== undefined) {
+        settlement.requeue = (settlement.requeue ?? false) || requeue;
+      }
+    }
+
+    if (settlement.remaining === 0) {
+      await this.settle(settlement.message, !settlement.failed, settlement.requeue);
+    }
+  }
+
+  /**
+   * Ack or nack a delivery once
+   *
+   * Deliveries already requeued by a drain are skipped: settling a delivery tag
+   * twice closes the channel.
+   *
+   * @param message - The delivery to settle
+   * @param success - Whether to ack
+   * @param requeue - Requeue a rejected message (defaults to options.requeueOnFailure)
    */
-  private async rejectMessage(message: amqp.ConsumeMessage): Promise<void> {
-    if (this.channel) {
-      await this.messageHandler.acknowledgeMessage(this.channel, message, false);
+  private async settle(
+    message: amqp.ConsumeMessage,
+    success: boolean,
+    requeue?: boolean,
+  ): Promise<void> {
+    if (!this.channel || (!this.options.autoAck && !this.unsettled.delete(message))) {
+      return;
     }
+
+    await this.messageHandler.acknowledgeMessage(this.channel, message, success, requeue);
+  }
+
+  /**
+   * Close the channel of a stopped consumer
+   */
+  private async closeChannel(): Promise<void> {
+    const channel = this.channel;
+    if (!channel) {
+      return;
+    }
+
+    this.channel = null;
+    try {
+      await channel.close();
+    } catch {
+      // Already closed with its connection
+    }
+  }
+
+  /**
+   * Wait for the dispatcher to go idle, up to a deadline
+   *
+   * @param timeout - Max wait in milliseconds
+   * @returns Whether all in-flight messages settled in time
+   */
+  private async waitForIdle(timeout: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeout);
+    });
+
+    try {
+      return await Promise.race([this.dispatcher.idle().then(() => true), deadline]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Nack every unsettled delivery with requeue after the drain deadline passed
+   *
+   * Their handlers keep running, but their acks are dropped (see settle) and their
+   * failures are neither retried nor dead-lettered (see settleFailure).
+   */
+  private requeueUnsettled(): void {
+    if (!this.channel || this.unsettled.size === 0) {
+      return;
+    }
+
+    logger.warn('Drain timed out, requeueing in-flight messages', {
+      name: this.config.name,
+      count: this.unsettled.size,
+    });
+
+    for (const message of this.unsettled) {
+      this.requeued.add(message);
+      try {
+        this.channel.nack(message, false, true);
+      } catch (error) {
+        logger.error('Failed to requeue message', {
+          error: (error as Error).message,
+          deliveryTag: message.fields.deliveryTag,
+        });
+      }
+    }
+
+    this.stats.messagesRequeuedOnDrain += this.unsettled.size;
+    this.unsettled.clear();
+  }
+
+  /**
+   * Get the channel prefetch for this consumer
+   *
+   * Parallel consumers default to a prefetch of maxParallel; a lower configured
+   * prefetch caps the effective concurrency.
+   *
+   * @returns Prefetch count, or undefined to leave the channel default
+   */
+  private getPrefetch(): number | undefined {
+    if (this.config.prefetch !== undefined) {
+      if (this.config.prefetch > 0 && this.config.prefetch < this.concurrency) {
+        logger.warn('Prefetch is lower than maxParallel, concurrency is limited by prefetch', {
+          name: this.config.name,
+          prefetch: this.config.prefetch,
+          maxParallel: this.concurrency,
+        });
+      }
+      return this.config.prefetch;
+    }
+
+    return this.options.parallel ? this.concurrency : undefined;
+  }
+
+  /**
+   * Get the prefetch reduced by the backpressure ratio
+   *
+   * @returns Prefetch count, or undefined to leave the channel default
+   */
+  private getLimitedPrefetch(): number | undefined {
+    const configured = this.getPrefetch();
+    if (this.prefetchRatio === null) {
+      return configured;
+    }
+
+    const base = configured ?? this.connectionManager.getPrefetchCount();
+    return Math.max(1, Math.floor(base * this.prefetchRatio));
+  }
+
+  /**
+   * Register the consumer on the channel
+   *
+   * @returns Consumer tag
+   */
+  private async consume(channel: MessageChannel): Promise<string> {
+    const { consumerTag } = await channel.consume(
+      this.config.queue,
+      this.handleMessage.bind(this),
+      {
+        noAck: this.options.autoAck ?? false,
+        consumerTag: this.options.consumerTag,
+      },
+    );
+
+    return consumerTag;
+  }
+
+  /**
+   * Get the ordering key of a CloudEvent
+   *
+   * @param event - The validated CloudEvent
+   * @returns Value of the ordering attribute, or undefined if the event has none
+   */
+  private getOrderingKey(event: Record<string, unknown>): string | undefined {
+    const value = event[this.options.orderingKey ?? 'subject'];
+    return value === undefined || value === null || value === '' ? undefined : String(value);
+  }
+
+  /**
+   * Record the end-to-end latency of a processed event by message priority
+   *
+   * Latency is measured from the CloudEvent time; events without one are skipped.
+   *
+   * @param message - The RabbitMQ message
+   * @param event - The processed CloudEvent
+   */
+  private recordLatency(message: amqp.ConsumeMessage, event: Record<string, unknown>): void {
+    const time = typeof event.time === 'string' ? Date.parse(event.time) : NaN;
+    if (Number.isNaN(time)) {
+      return;
+    }
+
+    this.messageHandler.recordLatency(message.properties.priority ?? 0, Date.now() - time);
+  }
+
+  /**
+   * Reject an unprocessable message and update statistics
+   *
+   * Invalid messages are never retried; they go to the DLQ if one is configured.
+   *
+   * @param message - The message to reject
+   * @param reason - Why the message was rejected
+   */
+  private async rejectMessage(message: amqp.ConsumeMessage, reason: string): Promise<void> {
+    await this.settleFailure(message, new Error(reason), false);
     this.stats.messagesFailed++;
   }
 
+  /**
+   * Retry, dead-letter or nack a failed message
+   *
+   * The original delivery is acknowledged only once the broker confirmed the
+   * republished copy; if republishing fails, the message is requeued instead.
+   * Deliveries already requeued by a drain are left to their redelivery.
+   *
+   * @param message - The failed message
+   * @param error - The failure
+   * @param retryable - Whether the failure may succeed on a later attempt
+   * @param delivered - Route destinations that already accepted the event
+   */
+  private async settleFailure(
+    message: amqp.ConsumeMessage,
+    error: Error,
+    retryable: boolean,
+    delivered?: ReadonlySet<string>,
+  ): Promise<void> {
+    if (!this.channel) {
+      return;
+    }
+
+    // The broker redelivers a requeued delivery; retrying it too would duplicate it
+    if (this.isRequeued(message)) {
+      logger.debug('Failure of a requeued message ignored', {
+        error: error.message,
+        messageId: message.properties.messageId,
+      });
+      return;
+    }
+
+    if (!this.retryManager) {
+      await this.acknowledge(message, false);
+      return;
+    }
+
+    try {
+      const outcome = await this.retryManager.handleFailure(
+        message,
+        error,
+        retryable,
+        delivered,
+      );
+
+      if (outcome === 'rejected') {
+        await this.acknowledge(message, false);
+        return;
+      }
+
+      if (outcome === 'dead-lettered') {
+        this.stats.messagesDLQ++;
+      }
+
+      await this.acknowledge(message, true);
+    } catch (republishError) {
+      logger.error('Failed to republish failed message, requeueing', {
+        error: (republishError as Error).message,
+        messageId: message.properties.messageId,
+        queue: this.config.queue,
+      });
+
+      await this.acknowledge(message, false, true);
+    }
+  }
+
+  /**
+   * Check whether a delivery (or the batch it was split from) was requeued by a drain
+   *
+   * @param message - The message (or batch event)
+   * @returns Whether the delivery is already settled by the requeue
+   */
+  private isRequeued(message: amqp.ConsumeMessage): boolean {
+    return this.requeued.has(this.batchParts.get(message)?.message ?? message);
+  }
+
+  /**
+   * Merge this consumer's deduplication overrides into the consumer options
+   *
+   * @returns Options for the message handler
+   * @throws Error if the extension key strategy has no extension attribute
+   */
+  private getHandlerOptions(): ConsumerOptions {
+    const deduplication = this.config.deduplication;
+    const options: ConsumerOptions = { ...this.options };
+
+    if (deduplication?.enabled !== undefined) {
+      options.enableDeduplication = deduplication.enabled;
+    }
+    if (deduplication?.window !== undefined) {
+      options.deduplicationWindow = deduplication.window;
+    }
+    if (deduplication?.key !== undefined) {
+      options.deduplicationKey = deduplication.key;
+    }
+    if (deduplication?.extension !== undefined) {
+      options.deduplicationExtension = deduplication.extension;
+    }
+
+    if (options.deduplicationKey === 'extension' && !options.deduplicationExtension) {
+      throw new Error(
+        `Consumer '${this.config.name}': deduplication key 'extension' requires ` +
+          'an extension attribute',
+      );
+    }
+
+    return options;
+  }
+
   /**
    * Create initial statistics object
    *
    * @returns Fresh statistics object
    */
-  private createInitialStats(): ConsumerStats {
+  private createInitialStats(): ConsumerCounters {
     return {
+      name: this.config.name,
       messagesConsumed: 0,
       messagesProcessed: 0,
       messagesFailed: 0,
@@ -321,6 +903,7 @@ export class EventConsumer {
       messagesPerSecond: 0,
       queueName: this.config.queue,
       isActive: false,
+      messagesRequeuedOnDrain: 0,
     };
   }
 }
@@ -0,0 +1,330 @@
+/**
+ * FileDeduplicationStore
+ *
+ * Deduplication store persisted as an append-only JSON-lines log:
+ * - Survives restarts (the log is replayed on first use)
+ * - Shareable by replicas mounting the same volume: every operation takes an
+ *   exclusive lock file and first applies records appended by other processes
+ * - Compacts the log (drops expired and removed keys) once it holds
+ *   compactThreshold obsolete records; expired keys are pruned from memory
+ *   at most once per PRUNE_INTERVAL, so unique keys past their window count
+ *   as obsolete too
+ *
+ * Each record is `{"n": namespace, "k": key, "x": expiresAt}`; an expiry of 0
+ * marks a removed key.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '@smile/common';
+import { DeduplicationStore } from './deduplication-store';
+
+/**
+ * File deduplication store options
+ */
+export interface FileDeduplicationStoreOptions {
+  /** Obsolete records tolerated in the log before it is compacted */
+  compactThreshold?: number;
+
+  /** Maximum time to wait for the lock file (milliseconds) */
+  lockTimeout?: number;
+
+  /** Age after which a lock file left by a crashed process is removed (milliseconds) */
+  staleLockAge?: number;
+}
+
+/**
+ * Log record
+ */
+interface DeduplicationRecord {
+  n: string;
+  k: string;
+  x: number;
+}
+
+/**
+ * File-backed deduplication store
+ */
+export class FileDeduplicationStore implements DeduplicationStore {
+  private static readonly LOCK_RETRY_DELAY = 10;
+  private static readonly PRUNE_INTERVAL = 60000; // 1 minute in milliseconds
+
+  private readonly lockPath: string;
+  private readonly compactThreshold: number;
+  private readonly lockTimeout: number;
+  private readonly staleLockAge: number;
+
+  /** Expiry timestamp per namespaced key, as of the last read of the log */
+  private readonly entries = new Map<string, number>();
+
+  /** Bytes of the log already applied, the log file identity and its record count */
+  private offset = 0;
+  private inode: number | null = null;
+  private records = 0;
+  private lastPrunedAt = Date.now();
+
+  /** Serializes operations within this process */
+  private pending: Promise<unknown> = Promise.resolve();
+  private initialized = false;
+
+  constructor(
+    private readonly filePath: string,
+    options: FileDeduplicationStoreOptions = {},
+  ) {
+    this.lockPath = `${filePath}.lock`;
+    this.compactThreshold = options.compactThreshold ?? 10000;
+    this.lockTimeout = options.lockTimeout ?? 5000;
+    this.staleLockAge = options.staleLockAge ?? 30000;
+  }
+
+  public checkAndRecord(namespace: string, key: string, windowMs: number): Promise<boolean> {
+    return this.withLock(async () => {
+      const now = Date.now();
+      const entryKey = this.getEntryKey(namespace, key);
+      const expiresAt = this.entries.get(entryKey);
+
+      if (expiresAt !== undefined && expiresAt > now) {
+        return true;
+      }
+
+      await this.append({ n: namespace, k: key, x: now + windowMs });
+      return false;
+    });
+  }
+
+  public remove(namespace: string, key: string): Promise<void> {
+    return this.withLock(async () => {
+      if (this.entries.has(this.getEntryKey(namespace, key))) {
+        await this.append({ n: namespace, k: key, x: 0 });
+      }
+    });
+  }
+
+  public async close(): Promise<void> {
+    await this.pending.catch(() => undefined);
+    this.entries.clear();
+  }
+
+  /**
+   * Rewrite the log with only the unexpired keys
+   */
+  public compact(): Promise<void> {
+    return this.withLock(() => this.rewrite());
+  }
+
+  /**
+   * Run an operation holding the lock file, after applying new log records
+   */
+  private withLock<T>(operation: () => Promise<T>): Promise<T> {
+    const run = async (): Promise<T> => {
+      if (!this.initialized) {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        this.initialized = true;
+      }
+
+      const lock = await this.acquireLock();
+      try {
+        await this.sync();
+        const result = await operation();
+        this.pruneIfDue(Date.now());
+
+        // Records superseded by a later record or expired since being written
+        if (this.records - this.entries.size >= this.compactThreshold) {
+          await this.rewrite();
+        }
+
+        return result;
+      } finally {
+        await lock.close();
+        await fs.unlink(this.lockPath).catch(() => undefined);
+      }
+    };
+
+    const result = this.pending.then(run, run);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Create the lock file, waiting while another process holds it
+   *
+   * @throws Error if the lock is not acquired within lockTimeout
+   */
+  private async acquireLock(): Promise<fs.FileHandle> {
+    const deadline = Date.now() + this.lockTimeout;
+
+    for (;;) {
+      try {
+        return await fs.open(this.lockPath, 'wx');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      await this.removeStaleLock();
+
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out acquiring deduplication store lock '${this.lockPath}'`);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, FileDeduplicationStore.LOCK_RETRY_DELAY));
+    }
+  }
+
+  /**
+   * Remove a lock file left behind by a crashed process
+   */
+  private async removeStaleLock(): Promise<void> {
+    try {
+      const stats = await fs.stat(this.lockPath);
+
+      if (Date.now() - stats.mtimeMs > this.staleLockAge) {
+        await fs.unlink(this.lockPath);
+        logger.warn('Removed stale deduplication store lock', { lockPath: this.lockPath });
+      }
+    } catch {
+      // Lock released in the meantime
+    }
+  }
+
+  /**
+   * Apply records appended to the log since the last read
+   *
+   * The whole log is re-read if it was compacted (replaced) by another process.
+   */
+  private async sync(): Promise<void> {
+    let stats;
+    try {
+      stats = await fs.stat(this.filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      this.reset(null);
+      return;
+    }
+
+    if (stats.ino !== this.inode || stats.size < this.offset) {
+      this.reset(stats.ino);
+    }
+    if (stats.size === this.offset) {
+      return;
+    }
+
+    const handle = await fs.open(this.filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(stats.size - this.offset);
+      await handle.read(buffer, 0, buffer.length, this.offset);
+
+      // Only apply complete lines; a partial last line is re-read next time
+      const content = buffer.toString('utf8');
+      const end = content.lastIndexOf('\n') + 1;
+
+      for (const line of content.slice(0, end).split('\n')) {
+        this.applyLine(line);
+      }
+      this.offset += Buffer.byteLength(content.slice(0, end));
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Apply one log line
+   */
+  private applyLine(line: string): void {
+    if (!line.trim()) {
+      return;
+    }
+
+    try {
+      const record = JSON.parse(line) as DeduplicationRecord;
+      const entryKey = this.getEntryKey(record.n, record.k);
+
+      if (record.x > Date.now()) {
+        this.entries.set(entryKey, record.x);
+      } else {
+        this.entries.delete(entryKey);
+      }
+      this.records++;
+    } catch {
+      logger.warn('Skipping corrupt deduplication store record', { filePath: this.filePath });
+    }
+  }
+
+  /**
+   * Append a record to the log and apply it
+   */
+  private async append(record: DeduplicationRecord): Promise<void> {
+    const line = `${JSON.stringify(record)}\n`;
+    await fs.appendFile(this.filePath, line);
+
+    if (this.inode === null) {
+      this.inode = (await fs.stat(this.filePath)).ino;
+    }
+    this.offset += Buffer.byteLength(line);
+    this.applyLine(line);
+  }
+
+  /**
+   * Replace the log with the unexpired keys (caller holds the lock)
+   */
+  private async rewrite(): Promise<void> {
+    const now = Date.now();
+    const lines: string[] = [];
+
+    for (const [entryKey, expiresAt] of this.entries) {
+      if (expiresAt > now) {
+        const [n, k] = entryKey.split('\u0000') as [string, string];
+        lines.push(JSON.stringify({ n, k, x: expiresAt }));
+      } else {
+        this.entries.delete(entryKey);
+      }
+    }
+
+    const content = lines.map((line) => `${line}\n`).join('');
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, content);
+    await fs.rename(tempPath, this.filePath);
+
+    this.inode = (await fs.stat(this.filePath)).ino;
+    this.offset = Buffer.byteLength(content);
+    this.records = lines.length;
+
+    logger.debug('Deduplication store compacted', {
+      filePath: this.filePath,
+      entries: lines.length,
+    });
+  }
+
+  /**
+   * Remove expired keys at most once per PRUNE_INTERVAL (their records become obsolete)
+   */
+  private pruneIfDue(now: number): void {
+    if (now - this.lastPrunedAt < FileDeduplicationStore.PRUNE_INTERVAL) {
+      return;
+    }
+
+    for (const [entryKey, expiresAt] of this.entries) {
+      if (expiresAt <= now) {
+        this.entries.delete(entryKey);
+      }
+    }
+    this.lastPrunedAt = now;
+  }
+
+  /**
+   * Forget everything read from the log
+   */
+  private reset(inode: number | null): void {
+    this.entries.clear();
+    this.offset = 0;
+    this.inode = inode;
+    this.records = 0;
+  }
+
+  private getEntryKey(namespace: string, key: string): string {
+    return `${namespace}\u0000${key}`;
+  }
+}
@@ -2,7 +2,7 @@
  * Message Handler
  *
  * Handles RabbitMQ message processing including:
- * - Message parsing and deserialization
+ * - Message parsing and deserialization (CloudEvents structured, binary and batch modes)
  * - Acknowledgment strategies
  * - Deduplication
  * - Context extraction
@@ -10,16 +10,31 @@
  */
 
 import * as amqp from 'amqplib';
+import { createHash } from 'crypto';
 import { logger } from '@smile/common';
-import { ConsumerOptions, MessageContext } from '../messaging/types';
+import { MessageChannel } from '@smile/cloud-events';
+import { ConsumerOptions, MessageContext, PriorityLatency } from '../messaging/types';
+import { DeduplicationStore, InMemoryDeduplicationStore } from './deduplication-store';
+import { DELIVERED_DESTINATIONS_HEADER } from './retry-manager';
+import { EVENT_LATENCY_BUCKETS, Histogram, HistogramSnapshot } from '../metrics/histogram';
+
+/**
+ * CloudEvents AMQP content mode
+ * - structured: the whole event is the JSON body
+ * - binary: attributes in ce-* headers, event data as the raw body
+ * - batch: JSON array of structured events (application/cloudevents-batch+json)
+ */
+export type ContentMode = 'structured' | 'binary' | 'batch';
 
 /**
  * Parse result for message parsing
  */
 export interface ParseResult {
   success: boolean;
+  /** The event (an array of events in batch mode) */
   data?: any;
   error?: string;
+  mode?: ContentMode;
 }
 
 /**
@@ -31,6 +46,8 @@ export interface MessageStats {
   messagesDuplicate: number;
   totalProcessingTime: number;
   averageProcessingTime: number;
+  processingTime: HistogramSnapshot;
+  latencyByPriority: PriorityLatency[];
 }
 
 /**
@@ -40,21 +57,36 @@ export interface MessageStats {
  */
 export class MessageHandler {
   private static readonly DEFAULT_DEDUPLICATION_WINDOW = 60000; // 1 minute in milliseconds
+  private static readonly STRUCTURED_CONTENT_TYPE = 'application/cloudevents';
+  private static readonly BATCH_CONTENT_TYPE = 'application/cloudevents-batch';
+  private static readonly ATTRIBUTE_HEADER_PREFIXES = ['ce-', 'cloudevents:', 'cloudevents_'];
 
-  private deduplicationCache: Map<string, number> = new Map();
-  private stats: MessageStats;
+  private stats: Omit<MessageStats, 'processingTime' | 'latencyByPriority'>;
+  private readonly processingTime = new Histogram();
+  private readonly latencyByPriority = new Map<number, Histogram>();
 
-  constructor(private readonly options: ConsumerOptions) {
+  /**
+   * @param options - Consumer options
+   * @param deduplicationStore - Store for seen deduplication keys (shared by consumers)
+   * @param deduplicationNamespace - Namespace of this consumer's keys in the store
+   */
+  constructor(
+    private readonly options: ConsumerOptions,
+    private readonly deduplicationStore: DeduplicationStore = new InMemoryDeduplicationStore(),
+    private readonly deduplicationNamespace: string = 'default',
+  ) {
     this.stats = this.createInitialStats();
-
-    // Start cleanup interval for deduplication cache if enabled
-    if (options.enableDeduplication) {
-      this.startDeduplicationCleanup();
-    }
   }
 
   /**
-   * Parse message content as JSON
+   * Parse a message into a CloudEvent (or a batch of CloudEvents)
+   *
+   * The content mode is detected from the content type and headers:
+   * - application/cloudevents-batch+json: batch
+   * - application/cloudevents+json: structured
+   * - ce-* (or cloudEvents: / cloudEvents_) headers: binary, unless the body is the
+   *   matching structured event (older emitters set both)
+   * - otherwise: structured JSON
    *
    * @param message - The RabbitMQ message
    * @returns Parse result with data or error
@@ -64,6 +96,21 @@ export class MessageHandler {
       const content = message.content.toString();
       logger.info('Received message content', { content });
 
+      const contentType = (message.properties.contentType ?? '').toLowerCase();
+
+      if (contentType.startsWith(MessageHandler.BATCH_CONTENT_TYPE)) {
+        return this.parseBatch(content);
+      }
+
+      const attributes = this.getBinaryAttributes(message);
+      if (
+        attributes &&
+        !contentType.startsWith(MessageHandler.STRUCTURED_CONTENT_TYPE) &&
+        !this.isStructuredBody(content, attributes)
+      ) {
+        return this.parseBinary(message, attributes);
+      }
+
       if (!content || content.trim() === '') {
         return {
           success: false,
@@ -82,6 +129,7 @@ export class MessageHandler {
       return {
         success: true,
         data,
+        mode: 'structured',
       };
     } catch (error) {
       logger.error('Failed to parse message', {
@@ -102,11 +150,13 @@ export class MessageHandler {
    * @param channel - The RabbitMQ channel
    * @param message - The message to acknowledge
    * @param success - Whether processing was successful
+   * @param requeue - Requeue a rejected message (defaults to options.requeueOnFailure)
    */
   public async acknowledgeMessage(
-    channel: amqp.Channel,
+    channel: MessageChannel,
     message: amqp.ConsumeMessage,
     success: boolean,
+    requeue?: boolean,
   ): Promise<void> {
     // Skip if autoAck is enabled
     if (this.options.autoAck) {
@@ -124,14 +174,14 @@ export class MessageHandler {
         });
       } else {
         // Reject and optionally requeue failed message
-        const requeue = this.options.requeueOnFailure || false;
+        const requeueMessage = requeue ?? (this.options.requeueOnFailure || false);
 
-        channel.nack(message, false, requeue);
+        channel.nack(message, false, requeueMessage);
 
         logger.debug('Message rejected', {
           deliveryTag: message.fields.deliveryTag,
           messageId: message.properties.messageId,
-          requeued: requeue,
+          requeued: requeueMessage,
         });
       }
     } catch (error) {
@@ -161,45 +211,106 @@ export class MessageHandler {
       message.properties.messageId ||
       message.fields.deliveryTag.toString();
 
+    // Destinations that accepted the event before the message was retried
+    const delivered = message.properties.headers?.[DELIVERED_DESTINATIONS_HEADER];
+
     return {
       message,
       queue,
       consumerTag,
       correlationId,
       receivedAt: new Date(),
+      deliveredDestinations: new Set(
+        Array.isArray(delivered) ? delivered.map((key) => String(key)) : [],
+      ),
     } as Omit<MessageContext, 'channel'>;
   }
 
   /**
-   * Check if message is a duplicate
+   * Get the deduplication key of a CloudEvent
+   *
+   * @param event - The validated CloudEvent
+   * @returns Key according to the configured deduplication key strategy
+   */
+  public getDeduplicationKey(event: Record<string, unknown>): string {
+    const strategy = this.options.deduplicationKey ?? 'id';
+
+    if (strategy === 'content-hash') {
+      const content = JSON.stringify([
+        event.type,
+        event.source,
+        event.subject ?? null,
+        event.datacontenttype ?? null,
+        event.data ?? event.data_base64 ?? null,
+      ]);
+      return `sha256:${createHash('sha256').update(content).digest('hex')}`;
+    }
+
+    if (strategy === 'extension') {
+      const attribute = this.options.deduplicationExtension;
+      const value = attribute ? event[attribute] : undefined;
+
+      if (value !== undefined && value !== null && value !== '') {
+        return `${attribute}:${String(value)}`;
+      }
+
+      logger.debug('Deduplication extension missing, using event id', {
+        eventId: event.id,
+        extension: attribute,
+      });
+    }
+
+    return String(event.id);
+  }
+
+  /**
+   * Check if message is a duplicate, recording it if not
    *
-   * @param messageId - The message ID to check
+   * @param key - The deduplication key (see getDeduplicationKey)
    * @returns Whether message is a duplicate
+   * @throws Error if the deduplication store is unavailable
    */
-  public isDuplicate(messageId: string): boolean {
+  public async isDuplicate(key: string): Promise<boolean> {
     if (!this.options.enableDeduplication) {
       return false;
     }
 
-    const now = Date.now();
-    const lastSeen = this.deduplicationCache.get(messageId);
+    const duplicate = await this.deduplicationStore.checkAndRecord(
+      this.deduplicationNamespace,
+      key,
+      this.getDeduplicationWindow(),
+    );
 
-    if (lastSeen !== undefined) {
-      // Check if within deduplication window
-      const window = this.getDeduplicationWindow();
+    if (duplicate) {
+      logger.debug('Duplicate message detected', {
+        key,
+        namespace: this.deduplicationNamespace,
+      });
+    }
 
-      if (now - lastSeen < window) {
-        logger.debug('Duplicate message detected', {
-          messageId,
-          lastSeen: new Date(lastSeen),
-        });
-        return true;
-      }
+    return duplicate;
+  }
+
+  /**
+   * Forget a deduplication key so a later redelivery is not treated as a duplicate
+   *
+   * Used when processing failed and the message will be retried.
+   *
+   * @param key - The deduplication key to forget
+   */
+  public async forgetMessage(key: string): Promise<void> {
+    if (!this.options.enableDeduplication) {
+      return;
     }
 
-    // Store current timestamp
-    this.deduplicationCache.set(messageId, now);
-    return false;
+    try {
+      await this.deduplicationStore.remove(this.deduplicationNamespace, key);
+    } catch (error) {
+      logger.error('Failed to forget deduplication key', {
+        error: (error as Error).message,
+        key,
+      });
+    }
   }
 
   /**
@@ -210,6 +321,7 @@ export class MessageHandler {
   public recordSuccess(processingTimeMs: number): void {
     this.stats.messagesProcessed++;
     this.stats.totalProcessingTime += processingTimeMs;
+    this.processingTime.observe(processingTimeMs);
     this.updateAverageProcessingTime();
 
     logger.debug('Message processing recorded', {
@@ -226,6 +338,7 @@ export class MessageHandler {
   public recordFailure(processingTimeMs: number): void {
     this.stats.messagesFailed++;
     this.stats.totalProcessingTime += processingTimeMs;
+    this.processingTime.observe(processingTimeMs);
 
     logger.debug('Message failure recorded', {
       processingTime: processingTimeMs,
@@ -233,6 +346,23 @@ export class MessageHandler {
     });
   }
 
+  /**
+   * Record the end-to-end latency of a processed event
+   *
+   * @param priority - AMQP priority of the message (0 if it has none)
+   * @param latencyMs - Time from the event time to successful processing
+   */
+  public recordLatency(priority: number, latencyMs: number): void {
+    let histogram = this.latencyByPriority.get(priority);
+    if (!histogram) {
+      histogram = new Histogram(EVENT_LATENCY_BUCKETS);
+      this.latencyByPriority.set(priority, histogram);
+    }
+
+    // Producer clocks may run ahead of ours
+    histogram.observe(Math.max(latencyMs, 0));
+  }
+
   /**
    * Record duplicate message
    */
@@ -250,7 +380,13 @@ export class MessageHandler {
    * @returns Current message processing statistics
    */
   public getStats(): MessageStats {
-    return { ...this.stats };
+    return {
+      ...this.stats,
+      processingTime: this.processingTime.snapshot(),
+      latencyByPriority: [...this.latencyByPriority.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([priority, histogram]) => ({ priority, latency: histogram.snapshot() })),
+    };
   }
 
   /**
@@ -258,46 +394,142 @@ export class MessageHandler {
    */
   public resetStats(): void {
     this.stats = this.createInitialStats();
+    this.processingTime.reset();
+    this.latencyByPriority.clear();
     logger.info('Message handler statistics reset');
   }
 
   /**
-   * Update average processing time
+   * Parse a batch of structured CloudEvents
+   *
+   * @throws Error if the content is not JSON
    */
-  private updateAverageProcessingTime(): void {
-    if (this.stats.messagesProcessed > 0) {
-      this.stats.averageProcessingTime =
-        this.stats.totalProcessingTime / this.stats.messagesProcessed;
-    } else {
-      this.stats.averageProcessingTime = 0;
+  private parseBatch(content: string): ParseResult {
+    const data = JSON.parse(content);
+
+    if (!Array.isArray(data)) {
+      return { success: false, error: 'CloudEvents batch must be a JSON array' };
     }
+
+    logger.debug('CloudEvents batch parsed', { events: data.length });
+
+    return { success: true, data, mode: 'batch' };
   }
 
   /**
-   * Start periodic cleanup of deduplication cache
+   * Build a CloudEvent from a binary-mode message
+   *
+   * JSON data (or JSON without a content type) is parsed; other data is kept as
+   * text, or as data_base64 if the body is not valid UTF-8.
+   *
+   * @throws Error if a JSON body does not parse
    */
-  private startDeduplicationCleanup(): void {
-    const cleanupInterval = this.getDeduplicationWindow();
-
-    setInterval(() => {
-      const now = Date.now();
-      const window = this.getDeduplicationWindow();
-      let removed = 0;
-
-      for (const [messageId, timestamp] of this.deduplicationCache.entries()) {
-        if (now - timestamp > window) {
-          this.deduplicationCache.delete(messageId);
-          removed++;
-        }
+  private parseBinary(
+    message: amqp.ConsumeMessage,
+    attributes: Record<string, string>,
+  ): ParseResult {
+    const event: Record<string, unknown> = { ...attributes };
+    const contentType = message.properties.contentType;
+
+    if (contentType) {
+      event['datacontenttype'] = contentType;
+    }
+
+    if (message.content.length > 0) {
+      const text = message.content.toString('utf8');
+
+      if (this.isJsonContentType(contentType)) {
+        event['data'] = JSON.parse(text);
+      } else if (!contentType && this.isJson(text)) {
+        // No content type implies JSON data
+        event['data'] = JSON.parse(text);
+      } else if (Buffer.from(text, 'utf8').equals(message.content)) {
+        event['data'] = text;
+      } else {
+        event['data_base64'] = message.content.toString('base64');
       }
+    }
 
-      if (removed > 0) {
-        logger.debug('Cleaned up deduplication cache', {
-          removed,
-          remaining: this.deduplicationCache.size,
-        });
+    logger.debug('Binary-mode CloudEvent parsed', {
+      messageId: message.properties.messageId,
+      datacontenttype: contentType,
+    });
+
+    return { success: true, data: event, mode: 'binary' };
+  }
+
+  /**
+   * Get the CloudEvent attributes carried in message headers
+   *
+   * @returns Attributes by (lower-case) name, or null if there is no ce specversion header
+   */
+  private getBinaryAttributes(message: amqp.ConsumeMessage): Record<string, string> | null {
+    const attributes: Record<string, string> = {};
+
+    for (const [header, value] of Object.entries(message.properties.headers ?? {})) {
+      const lower = header.toLowerCase();
+      const prefix = MessageHandler.ATTRIBUTE_HEADER_PREFIXES.find((p) => lower.startsWith(p));
+
+      if (prefix && value !== undefined && value !== null) {
+        attributes[lower.slice(prefix.length)] =
+          value instanceof Date ? value.toISOString() : value.toString();
       }
-    }, cleanupInterval);
+    }
+
+    return attributes['specversion'] ? attributes : null;
+  }
+
+  /**
+   * Check whether a body is the structured form of the event described by headers
+   */
+  private isStructuredBody(content: string, attributes: Record<string, string>): boolean {
+    try {
+      const body = JSON.parse(content);
+      return (
+        typeof body === 'object' &&
+        body !== null &&
+        body.specversion !== undefined &&
+        body.id === attributes['id']
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether text is valid JSON
+   */
+  private isJson(text: string): boolean {
+    try {
+      JSON.parse(text);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a data content type is JSON
+   */
+  private isJsonContentType(contentType: string | undefined): boolean {
+    if (!contentType) {
+      return false;
+    }
+
+    const mediaType = contentType.split(';')[0]!.trim().toLowerCase();
+    return mediaType === 'application/json' || mediaType.endsWith('+json');
+  }
+
+  /**
+   * Update average processing time
+   */
+  private updateAverageProcessingTime(): void {
+    if (this.stats.messagesProcessed > 0) {
+      this.stats.averageProcessingTime =
+        this.stats.totalProcessingTime / this.stats.messagesProcessed;
+    } else {
+      this.stats.averageProcessingTime = 0;
+    }
   }
 
   /**
@@ -314,7 +546,7 @@ export class MessageHandler {
    *
    * @returns Fresh statistics object with zero values
    */
-  private createInitialStats(): MessageStats {
+  private createInitialStats(): Omit<MessageStats, 'processingTime' | 'latencyByPriority'> {
     return {
       messagesProcessed: 0,
       messagesFailed: 0,
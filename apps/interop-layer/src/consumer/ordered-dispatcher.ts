@@ -0,0 +1,113 @@
+/**
+ * OrderedDispatcher
+ *
+ * Runs message processing tasks with bounded concurrency:
+ * - At most maxConcurrency tasks run at once
+ * - Tasks sharing an ordering key run strictly one after another, in dispatch order
+ * - Tasks without a key are only bounded by the concurrency limit
+ *
+ * Ordering only covers tasks dispatched on this consumer: a failed message sent
+ * to a delayed retry queue completes its task, so later messages with its key
+ * are processed before the retried delivery comes back.
+ */
+
+/**
+ * Message processing task (must handle its own errors)
+ */
+export type DispatchTask = () => Promise<void>;
+
+/**
+ * Ordered dispatcher
+ */
+export class OrderedDispatcher {
+  /** Last task per ordering key; the next task with that key waits on it */
+  private readonly tails = new Map<string, Promise<void>>();
+
+  /** Tasks waiting for a free slot */
+  private readonly waiting: Array<() => void> = [];
+
+  /** Dispatched tasks that have not completed */
+  private readonly pending = new Set<Promise<void>>();
+
+  private running = 0;
+
+  constructor(private readonly maxConcurrency: number = 1) {
+    if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+      throw new Error(`maxConcurrency must be a positive integer, got ${maxConcurrency}`);
+    }
+  }
+
+  /**
+   * Dispatch a task
+   *
+   * @param key - Ordering key (undefined for no ordering constraint)
+   * @param task - The task
+   * @returns Promise resolving when the task completed
+   */
+  public dispatch(key: string | undefined, task: DispatchTask): Promise<void> {
+    const previous = key !== undefined ? this.tails.get(key) : undefined;
+    const run = (previous ?? Promise.resolve())
+      .then(() => this.runWithSlot(task))
+      .catch(() => undefined);
+
+    if (key !== undefined) {
+      this.tails.set(key, run);
+    }
+    this.pending.add(run);
+
+    void run.then(() => {
+      this.pending.delete(run);
+      if (key !== undefined && this.tails.get(key) === run) {
+        this.tails.delete(key);
+      }
+    });
+
+    return run;
+  }
+
+  /**
+   * Wait until every dispatched task has completed
+   */
+  public async idle(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
+  }
+
+  /**
+   * Number of dispatched tasks that have not completed (running or waiting)
+   */
+  public get size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Number of tasks currently running
+   */
+  public get active(): number {
+    return this.running;
+  }
+
+  /**
+   * Run a task once a concurrency slot is free
+   */
+  private async runWithSlot(task: DispatchTask): Promise<void> {
+    if (this.running >= this.maxConcurrency) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.running++;
+    }
+
+    try {
+      await task();
+    } finally {
+      // Hand the slot straight to the next waiting task
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.running--;
+      }
+    }
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * RetryManager
+ *
+ * Delayed retry and dead-lettering of failed messages for one consumer:
+ * - Exponential backoff tiers, one retry queue per distinct delay
+ *   (queue TTL dead-letters the message back to the consumer queue)
+ * - Attempt counting from the x-delivery-attempts header written on every
+ *   republish, or the broker-maintained x-death header when it counts more
+ * - Dead-lettering to the configured DLQ after maxAttempts
+ * - Destinations that already accepted a fan-out travel with the retried copy
+ *
+ * Messages are republished on a confirm channel; the caller acknowledges the
+ * original delivery only after the broker confirmed the republish.
+ */
+
+import * as amqp from 'amqplib';
+import { logger } from '@smile/common';
+import { ConfirmMessageChannel, MessageChannel } from '@smile/cloud-events';
+import { QueueConsumerConfig, RetryStrategy } from '../messaging/types';
+import { ConnectionManager } from '../messaging/connection-manager';
+
+/**
+ * What happened to a failed message
+ * - retried: republished to a retry queue
+ * - dead-lettered: republished to the DLQ
+ * - rejected: neither retry nor DLQ applies; the caller should nack it
+ */
+export type FailureOutcome = 'retried' | 'dead-lettered' | 'rejected';
+
+/**
+ * Header recording the queue a dead-lettered message was consumed from
+ */
+export const ORIGINAL_QUEUE_HEADER = 'x-original-queue';
+
+/**
+ * Header recording the exchange the message was originally published to
+ */
+export const ORIGINAL_EXCHANGE_HEADER = 'x-original-exchange';
+
+/**
+ * Header recording the routing key the message was originally published with
+ */
+export const ORIGINAL_ROUTING_KEY_HEADER = 'x-original-routing-key';
+
+/**
+ * Header recording the last processing error
+ */
+export const LAST_ERROR_HEADER = 'x-last-error';
+
+/**
+ * Header recording the number of delivery attempts
+ */
+export const ATTEMPTS_HEADER = 'x-delivery-attempts';
+
+/**
+ * Header recording the route destinations that already accepted the event,
+ * so a retried fan-out is only delivered to the destinations that failed
+ */
+export const DELIVERED_DESTINATIONS_HEADER = 'x-delivered-destinations';
+
+/**
+ * Retry manager
+ */
+export class RetryManager {
+  private static readonly MAX_ERROR_LENGTH = 512;
+  private static readonly COPIED_PROPERTIES = [
+    'contentType',
+    'contentEncoding',
+    'messageId',
+    'correlationId',
+    'timestamp',
+    'type',
+    'appId',
+    'priority',
+  ] as const;
+
+  private readonly delays: number[];
+  private confirmChannel: Promise<ConfirmMessageChannel> | null = null;
+
+  constructor(
+    private readonly connectionManager: ConnectionManager,
+    private readonly config: QueueConsumerConfig,
+  ) {
+    this.delays = config.retry ? RetryManager.computeDelays(config.retry) : [];
+  }
+
+  /**
+   * Compute the backoff delay before each retry
+   *
+   * @param strategy - Retry strategy
+   * @returns Delay in milliseconds before retry 1..maxAttempts-1
+   */
+  public static computeDelays(strategy: RetryStrategy): number[] {
+    const delays: number[] = [];
+
+    for (let retry = 0; retry < strategy.maxAttempts - 1; retry++) {
+      const delay = strategy.initialDelay * Math.pow(strategy.backoffMultiplier, retry);
+      delays.push(Math.round(Math.min(delay, strategy.maxDelay)));
+    }
+
+    return delays;
+  }
+
+  /**
+   * Get the retry queue for a backoff delay
+   *
+   * @param delay - Delay in milliseconds
+   * @returns Retry queue name
+   */
+  public getRetryQueue(delay: number): string {
+    return `${this.config.queue}.retry.${delay}`;
+  }
+
+  /**
+   * Assert the retry queues and DLQ topology
+   *
+   * @param channel - Channel to assert on
+   */
+  public async setup(channel: MessageChannel): Promise<void> {
+    for (const delay of new Set(this.delays)) {
+      const retryQueue = this.getRetryQueue(delay);
+
+      await channel.assertQueue(retryQueue, {
+        durable: true,
+        messageTtl: delay,
+        // Default exchange: expired messages go straight back to the consumer queue
+        deadLetterExchange: '',
+        deadLetterRoutingKey: this.config.queue,
+      });
+
+      logger.info('Retry queue asserted', { queue: retryQueue, delay });
+    }
+
+    const dlq = this.config.dlq;
+    if (dlq) {
+      await channel.assertExchange(dlq.exchange, 'direct', { durable: true });
+      await channel.assertQueue(dlq.queue, {
+        durable: true,
+        messageTtl: dlq.ttl,
+        maxLength: dlq.maxLength,
+      });
+      await channel.bindQueue(dlq.queue, dlq.exchange, dlq.routingKey);
+
+      logger.info('Dead letter queue asserted', {
+        queue: dlq.queue,
+        exchange: dlq.exchange,
+        routingKey: dlq.routingKey,
+      });
+    }
+  }
+
+  /**
+   * Get the delivery attempt number of a message
+   *
+   * The x-delivery-attempts header is authoritative: brokers may rewrite or drop
+   * the x-death counts copied into a republished message.
+   *
+   * @param message - The RabbitMQ message
+   * @returns 1 for the first delivery, plus one per earlier failed attempt
+   */
+  public getAttempt(message: amqp.ConsumeMessage): number {
+    const attempts = Number(message.properties.headers?.[ATTEMPTS_HEADER]);
+    const deaths: amqp.XDeath[] = message.properties.headers?.['x-death'] ?? [];
+    const retryQueuePrefix = `${this.config.queue}.retry.`;
+
+    const retries = deaths
+      .filter(
+        (death) =>
+          death.reason === 'expired' &&
+          typeof death.queue === 'string' &&
+          death.queue.startsWith(retryQueuePrefix),
+      )
+      .reduce((total, death) => total + (Number(death.count) || 0), 0);
+
+    return Math.max(Number.isInteger(attempts) ? attempts : 0, retries) + 1;
+  }
+
+  /**
+   * Retry or dead-letter a failed message
+   *
+   * @param message - The failed message
+   * @param error - The processing error
+   * @param retryable - Whether the failure may succeed on a later attempt
+   * @param delivered - Route destinations that already accepted the event
+   * @returns What happened to the message
+   * @throws Error if the message could not be republished
+   */
+  public async handleFailure(
+    message: amqp.ConsumeMessage,
+    error: Error,
+    retryable: boolean = true,
+    delivered: ReadonlySet<string> = new Set(),
+  ): Promise<FailureOutcome> {
+    const attempt = this.getAttempt(message);
+    const delay = retryable ? this.delays[attempt - 1] : undefined;
+
+    if (delay !== undefined) {
+      const retryQueue = this.getRetryQueue(delay);
+      await this.publish('', retryQueue, message, error, attempt, delivered);
+
+      logger.warn('Message scheduled for retry', {
+        messageId: message.properties.messageId,
+        queue: this.config.queue,
+        attempt,
+        maxAttempts: this.config.retry?.maxAttempts,
+        delay,
+        error: error.message,
+      });
+      return 'retried';
+    }
+
+    const dlq = this.config.dlq;
+    if (dlq) {
+      await this.publish(dlq.exchange, dlq.routingKey, message, error, attempt, delivered);
+
+      logger.error('Message dead-lettered', {
+        messageId: message.properties.messageId,
+        queue: this.config.queue,
+        dlq: dlq.queue,
+        attempts: attempt,
+        error: error.message,
+      });
+      return 'dead-lettered';
+    }
+
+    return 'rejected';
+  }
+
+  /**
+   * Republish a message and wait for the broker confirm
+   */
+  private async publish(
+    exchange: string,
+    routingKey: string,
+    message: amqp.ConsumeMessage,
+    error: Error,
+    attempt: number,
+    delivered: ReadonlySet<string>,
+  ): Promise<void> {
+    const channel = await this.getConfirmChannel();
+    const { properties } = message;
+
+    const options: amqp.Options.Publish = {
+      persistent: true,
+      headers: {
+        ...properties.headers,
+        // Retried deliveries arrive via the default exchange; keep the first-seen origin
+        [ORIGINAL_EXCHANGE_HEADER]:
+          properties.headers?.[ORIGINAL_EXCHANGE_HEADER] ?? message.fields.exchange,
+        [ORIGINAL_ROUTING_KEY_HEADER]:
+          properties.headers?.[ORIGINAL_ROUTING_KEY_HEADER] ?? message.fields.routingKey,
+        [ORIGINAL_QUEUE_HEADER]: this.config.queue,
+        [LAST_ERROR_HEADER]: error.message.slice(0, RetryManager.MAX_ERROR_LENGTH),
+        [ATTEMPTS_HEADER]: attempt,
+        ...(delivered.size > 0 && { [DELIVERED_DESTINATIONS_HEADER]: [...delivered] }),
+      },
+    };
+
+    // Preserve the original message properties
+    for (const key of RetryManager.COPIED_PROPERTIES) {
+      if (properties[key] !== undefined && properties[key] !== null) {
+        (options as Record<string, unknown>)[key] = properties[key];
+      }
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      channel.publish(exchange, routingKey, message.content, options, (err) =>
+        err ? reject(err) : resolve(),
+      );
+    });
+  }
+
+  /**
+   * Get (or lazily create) the confirm channel used for republishing
+   */
+  private getConfirmChannel(): Promise<ConfirmMessageChannel> {
+    if (!this.confirmChannel) {
+      this.confirmChannel = this.connectionManager.getConfirmChannel().then(
+        (channel) => {
+          channel.on('close', () => {
+            this.confirmChannel = null;
+          });
+          return channel;
+        },
+        (error) => {
+          this.confirmChannel = null;
+          throw error;
+        },
+      );
+    }
+
+    return this.confirmChannel;
+  }
+}
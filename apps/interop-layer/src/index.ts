@@ -1,10 +1,22 @@
 import 'dotenv/config';
+import path from 'path';
 import express, { Express } from 'express';
 import cors from 'cors';
 import swaggerUi from 'swagger-ui-express';
-import { ServiceConfig, logger } from '@smile/common';
+import { ServiceConfig, logger, startTracing } from '@smile/common';
 import { InteropService } from './services/interop-service';
+import { loadEndpointMappingFile } from './bridge/endpoint-mapping';
+import { loadConsumerTopologyFile } from './consumer/consumer-topology';
+import { loadIngressConfigFile } from './ingress/event-ingress';
+import { loadSubscriptionsConfigFile } from './subscriptions/subscription-manager';
+import { PrometheusExporter, PROMETHEUS_CONTENT_TYPE } from './metrics/prometheus-exporter';
 import { swaggerSpec } from './config/swagger';
+import { createRoutingRouter } from './routes/routing.routes';
+import { createDeadLetterRouter } from './routes/dlq.routes';
+import { createConsumersRouter } from './routes/consumers.routes';
+import { createArchiveRouter } from './routes/archive.routes';
+import { createEventsRouter } from './routes/events.routes';
+import { createSubscriptionsRouter } from './routes/subscriptions.routes';
 
 // Service configuration
 const config: ServiceConfig = {
@@ -14,6 +26,14 @@ const config: ServiceConfig = {
   environment: (process.env.NODE_ENV as 'development' | 'production' | 'test') ?? 'development',
 };
 
+// Spans are exported over OTLP (OTEL_EXPORTER_OTLP_ENDPOINT; OTEL_SDK_DISABLED=true turns off)
+const tracing = startTracing({ serviceName: process.env.OTEL_SERVICE_NAME ?? config.name });
+
+// Consumers, their queues and exchanges (retry, DLQ and deduplication are configured there)
+const consumerTopology = loadConsumerTopologyFile(
+  process.env.CONSUMER_TOPOLOGY_PATH ?? path.resolve(__dirname, '../config/consumers.yml'),
+);
+
 // InteropService configuration
 const interopConfig = {
   rabbitmq: {
@@ -23,10 +43,10 @@ const interopConfig = {
     maxReconnectAttempts: parseInt(process.env.RABBITMQ_MAX_RECONNECT_ATTEMPTS ?? '10', 10),
   },
   openhim: {
-    healthEndpoint:
-      process.env.OPENHIM_HEALTH_ENDPOINT ?? 'http://localhost:5001/health',
-    ordersEndpoint:
-      process.env.OPENHIM_ORDERS_ENDPOINT ?? 'http://localhost:5001/orders',
+    ...loadEndpointMappingFile(
+      process.env.OPENHIM_ENDPOINTS_PATH ??
+        path.resolve(__dirname, '../config/openhim-endpoints.yml'),
+    ),
     defaultEndpoint:
       process.env.OPENHIM_DEFAULT_ENDPOINT ?? 'http://localhost:5001/events',
     username: process.env.OPENHIM_USERNAME ?? 'interop@openhim.org',
@@ -34,32 +54,88 @@ const interopConfig = {
     timeout: parseInt(process.env.OPENHIM_TIMEOUT ?? '10000', 10),
     retryAttempts: parseInt(process.env.HTTP_RETRY_ATTEMPTS ?? '3', 10),
     retryDelay: parseInt(process.env.HTTP_RETRY_DELAY ?? '1000', 10),
-  },
-  consumers: [
-    {
-      name: 'health-consumer',
-      queue: process.env.CONSUMER_HEALTH_QUEUE ?? 'interop.health.queue',
-      exchange: process.env.CONSUMER_HEALTH_EXCHANGE ?? 'health.events',
-      exchangeType: 'topic' as const,
-      routingKey: process.env.CONSUMER_HEALTH_ROUTING_KEY ?? 'health.#',
-      enabled: true,
+    retryMaxDelay: parseInt(process.env.HTTP_RETRY_MAX_DELAY ?? '30000', 10),
+    circuitBreaker: {
+      failureThreshold: parseInt(process.env.OPENHIM_BREAKER_FAILURE_THRESHOLD ?? '5', 10),
+      resetTimeout: parseInt(process.env.OPENHIM_BREAKER_RESET_TIMEOUT ?? '30000', 10),
     },
-    {
-      name: 'orders-consumer',
-      queue: process.env.CONSUMER_ORDERS_QUEUE ?? 'interop.orders.queue',
-      exchange: process.env.CONSUMER_ORDERS_EXCHANGE ?? 'orders.events',
-      exchangeType: 'topic' as const,
-      routingKey: process.env.CONSUMER_ORDERS_ROUTING_KEY ?? 'orders.#',
-      enabled: true,
+    keepAlive: process.env.OPENHIM_KEEP_ALIVE !== 'false',
+    tls: {
+      rejectUnauthorized: process.env.OPENHIM_TRUST_SELF_SIGNED !== 'true',
+      ...(process.env.OPENHIM_CA_FILE && { caFile: process.env.OPENHIM_CA_FILE }),
     },
-  ],
+  },
+  ...consumerTopology,
   consumerOptions: {
     enableDeduplication: true,
     deduplicationWindow: parseInt(
       process.env.MESSAGE_DEDUPLICATION_WINDOW ?? '60000',
       10,
     ),
+    // Events with the same subject (e.g. an order id) are always processed in order
+    parallel: process.env.CONSUMER_PARALLEL === 'true',
+    maxParallel: parseInt(process.env.CONSUMER_MAX_PARALLEL ?? '10', 10),
+    // Keep below the pod's terminationGracePeriodSeconds
+    drainTimeout: parseInt(process.env.SHUTDOWN_DRAIN_TIMEOUT ?? '30000', 10),
+  },
+  // Use a file store on a shared volume so restarts and replicas keep deduplicating
+  deduplicationStore: {
+    type: (process.env.DEDUPLICATION_STORE ?? 'memory') as 'memory' | 'file',
+    path: process.env.DEDUPLICATION_STORE_PATH ?? path.resolve(process.cwd(), 'data/dedup.log'),
   },
+  routing: {
+    configPath:
+      process.env.ROUTING_CONFIG_PATH ?? path.resolve(__dirname, '../config/routing.yml'),
+    fallbackQueue: process.env.ROUTING_FALLBACK_QUEUE ?? 'interop.fallback.queue',
+  },
+  schemas: {
+    directory: process.env.SCHEMA_DIRECTORY ?? path.resolve(__dirname, '../config/schemas'),
+    mode: (process.env.SCHEMA_VALIDATION_MODE ?? 'enforce') as 'enforce' | 'warn',
+    requireSchema: process.env.SCHEMA_REQUIRED === 'true',
+  },
+  // Every processed event with its outcome, for queries and replay (EVENT_ARCHIVE_ENABLED=false
+  // turns off)
+  ...(process.env.EVENT_ARCHIVE_ENABLED !== 'false' && {
+    archive: {
+      path: process.env.EVENT_ARCHIVE_PATH ?? path.resolve(process.cwd(), 'data/events.jsonl'),
+    },
+  }),
+  // Partners publishing CloudEvents over HTTP (POST /events; INGRESS_ENABLED=false turns off)
+  ...(process.env.INGRESS_ENABLED !== 'false' && {
+    ingress: loadIngressConfigFile(
+      process.env.INGRESS_CONFIG_PATH ?? path.resolve(__dirname, '../config/ingress.yml'),
+    ),
+  }),
+  // Webhook consumers managing their own subscriptions (/subscriptions;
+  // SUBSCRIPTIONS_ENABLED=false turns off)
+  ...(process.env.SUBSCRIPTIONS_ENABLED !== 'false' && {
+    subscriptions: {
+      path:
+        process.env.SUBSCRIPTIONS_PATH ?? path.resolve(process.cwd(), 'data/subscriptions.json'),
+      ...loadSubscriptionsConfigFile(
+        process.env.SUBSCRIPTIONS_CONFIG_PATH ??
+          path.resolve(__dirname, '../config/subscriptions.yml'),
+      ),
+    },
+  }),
+  // Administrators changing routing, DLQs, consumers and the archive (every change is refused
+  // without ADMIN_API_KEY)
+  ...(process.env.ADMIN_API_KEY && {
+    admins: [{ name: 'admin', apiKey: process.env.ADMIN_API_KEY }],
+  }),
+  // Suspend ('pause') or throttle consumers while OpenHIM is failing or slow
+  ...(process.env.BACKPRESSURE_ENABLED === 'true' && {
+    backpressure: {
+      mode: (process.env.BACKPRESSURE_MODE ?? 'pause') as 'pause' | 'throttle',
+      window: parseInt(process.env.BACKPRESSURE_WINDOW ?? '30000', 10),
+      minRequests: parseInt(process.env.BACKPRESSURE_MIN_REQUESTS ?? '20', 10),
+      failureRateThreshold: parseFloat(process.env.BACKPRESSURE_FAILURE_RATE ?? '0.5'),
+      ...(process.env.BACKPRESSURE_LATENCY_MS && {
+        latencyThresholdMs: parseInt(process.env.BACKPRESSURE_LATENCY_MS, 10),
+      }),
+      probeInterval: parseInt(process.env.BACKPRESSURE_PROBE_INTERVAL ?? '30000', 10),
+    },
+  }),
 };
 
 // Create InteropService instance
@@ -69,6 +145,10 @@ const interopService = new InteropService(interopConfig);
 const app: Express = express();
 
 app.use(cors());
+
+// CloudEvents HTTP ingress (reads the raw body, so it comes before the JSON parser)
+app.use('/events', createEventsRouter(interopService));
+
 app.use(express.json());
 
 // Swagger UI
@@ -91,7 +171,7 @@ app.get('/health', (_req, res) => {
   // Return comprehensive health information (not constrained by basic HealthCheck type)
   const health = {
     // Basic health check fields
-    status: serviceHealth.status, // 'healthy' | 'unhealthy' | 'degraded'
+    status: serviceHealth.status, // 'healthy' | 'unhealthy' | 'degraded' | 'draining'
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
     version: config.version,
@@ -116,6 +196,9 @@ app.get('/health', (_req, res) => {
       active: serviceHealth.activeConsumers,
       total: serviceHealth.totalConsumers,
     },
+
+    // Backpressure on an unhealthy OpenHIM (if enabled)
+    ...(serviceHealth.backpressure && { backpressure: serviceHealth.backpressure }),
   };
 
   const statusCode = serviceHealth.status === 'healthy' ? 200 : 503;
@@ -128,6 +211,27 @@ app.get('/stats', (_req, res) => {
   res.json(stats);
 });
 
+// Prometheus metrics endpoint
+const metricsExporter = new PrometheusExporter();
+app.get('/metrics', (_req, res) => {
+  res.type(PROMETHEUS_CONTENT_TYPE).send(metricsExporter.render(interopService.getStats()));
+});
+
+// Routing administration endpoints
+app.use('/routing', createRoutingRouter(interopService));
+
+// Dead letter queue administration endpoints
+app.use('/dlq', createDeadLetterRouter(interopService));
+
+// Consumer administration endpoints
+app.use('/consumers', createConsumersRouter(interopService));
+
+// Event archive query and replay endpoints
+app.use('/archive', createArchiveRouter(interopService));
+
+// CloudEvents Subscriptions API for webhook consumers
+app.use('/subscriptions', createSubscriptionsRouter(interopService));
+
 // Graceful shutdown handler
 async function shutdown(signal: string): Promise<void> {
   logger.info(`Received ${signal}, starting graceful shutdown...`);
@@ -137,6 +241,9 @@ async function shutdown(signal: string): Promise<void> {
     await interopService.stop();
     logger.info('InteropService stopped successfully');
 
+    // Flush pending spans
+    await tracing.shutdown();
+
     // Close HTTP server if it's running
     process.exit(0);
   } catch (error) {
@@ -0,0 +1,124 @@
+/**
+ * CloudEvents HTTP Binding Unit Tests
+ *
+ * Tests reading structured, binary and batch mode requests
+ */
+
+import { ValidationError } from '@smile/common';
+import { parseHttpCloudEvents } from '../cloud-event-http';
+
+describe('parseHttpCloudEvents()', () => {
+  const event = {
+    specversion: '1.0',
+    id: 'lab-0001',
+    source: 'urn:district:lab-system',
+    type: 'health.lab.result-available',
+    data: { resultId: 'R-1' },
+  };
+
+  it('should read a structured event', () => {
+    const result = parseHttpCloudEvents(
+      { 'content-type': 'application/cloudevents+json; charset=utf-8' },
+      Buffer.from(JSON.stringify(event)),
+    );
+
+    expect(result).toEqual({ mode: 'structured', events: [event] });
+  });
+
+  it('should read a batch of events', () => {
+    const second = { ...event, id: 'lab-0002' };
+
+    const result = parseHttpCloudEvents(
+      { 'content-type': 'application/cloudevents-batch+json' },
+      Buffer.from(JSON.stringify([event, second])),
+    );
+
+    expect(result).toEqual({ mode: 'batch', events: [event, second] });
+  });
+
+  it('should read a binary event with JSON data', () => {
+    const result = parseHttpCloudEvents(
+      {
+        'content-type': 'application/json',
+        'ce-specversion': '1.0',
+        'ce-id': 'lab-0001',
+        'ce-source': 'urn:district:lab-system',
+        'ce-type': 'health.lab.result-available',
+        'ce-correlationid': 'corr-1',
+      },
+      Buffer.from(JSON.stringify({ resultId: 'R-1' })),
+    );
+
+    expect(result).toEqual({
+      mode: 'binary',
+      events: [{
+        specversion: '1.0',
+        id: 'lab-0001',
+        source: 'urn:district:lab-system',
+        type: 'health.lab.result-available',
+        correlationid: 'corr-1',
+        datacontenttype: 'application/json',
+        data: { resultId: 'R-1' },
+      }],
+    });
+  });
+
+  it('should percent-decode binary attribute headers', () => {
+    const { events } = parseHttpCloudEvents(
+      {
+        'content-type': 'text/plain',
+        'ce-specversion': '1.0',
+        'ce-id': 'lab-0001',
+        'ce-source': 'urn:district:lab-system',
+        'ce-type': 'health.lab.result-available',
+        'ce-subject': 'Ward%203%20%E2%82%AC',
+      },
+      Buffer.from('result ready'),
+    );
+
+    expect(events[0]).toEqual(expect.objectContaining({
+      subject: 'Ward 3 €',
+      data: 'result ready',
+    }));
+  });
+
+  it('should keep non-text binary data as base64', () => {
+    const { events } = parseHttpCloudEvents(
+      {
+        'content-type': 'application/pdf',
+        'ce-specversion': '1.0',
+        'ce-id': 'lab-0001',
+        'ce-source': 'urn:district:lab-system',
+        'ce-type': 'health.lab.report',
+      },
+      Buffer.from([0xff, 0xfe, 0x00]),
+    );
+
+    expect(events[0]).toEqual(expect.objectContaining({ data_base64: '//4A' }));
+    expect(events[0]).not.toHaveProperty('data');
+  });
+
+  it('should reject a request that is not a CloudEvent', () => {
+    expect(() =>
+      parseHttpCloudEvents({ 'content-type': 'application/json' }, Buffer.from('{}')),
+    ).toThrow(/Request is not a CloudEvent/);
+  });
+
+  it('should reject a body that is not JSON', () => {
+    expect(() =>
+      parseHttpCloudEvents(
+        { 'content-type': 'application/cloudevents+json' },
+        Buffer.from('{not json'),
+      ),
+    ).toThrow(ValidationError);
+  });
+
+  it('should reject a batch that is not an array', () => {
+    expect(() =>
+      parseHttpCloudEvents(
+        { 'content-type': 'application/cloudevents-batch+json' },
+        Buffer.from(JSON.stringify(event)),
+      ),
+    ).toThrow('CloudEvents batch must be a JSON array');
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * EventIngress Unit Tests
+ *
+ * Tests API key authentication, validation, source permissions, exchange
+ * mapping and confirmed publishing of partner events
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ForbiddenError,
+  ServiceUnavailableError,
+  UnauthorizedError,
+  ValidationError,
+} from '@smile/common';
+import { EventIngress, IngressConfig, loadIngressConfigFile } from '../event-ingress';
+import { CloudEventValidator } from '../../consumer/cloud-event-validator';
+import { RouteDispatcher } from '../../routing/route-dispatcher';
+import { SchemaRegistry } from '../../schemas/schema-registry';
+
+jest.mock('../../routing/route-dispatcher');
+jest.mock('@smile/common', () => ({
+  ...jest.requireActual('@smile/common'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('EventIngress', () => {
+  let dispatcher: jest.Mocked<RouteDispatcher>;
+  let ingress: EventIngress;
+
+  const config: IngressConfig = {
+    clients: [
+      { name: 'district-lab', apiKey: 'lab-key', sources: ['urn:district:lab-*'] },
+      { name: 'integration-tests', apiKey: 'test-key' },
+    ],
+    exchanges: [
+      { source: 'urn:district:lab-*', type: 'health.*', exchange: 'health.events' },
+      { source: 'urn:partner:*', exchange: 'partner.events', routingKey: 'partner.inbound' },
+    ],
+    maxBatchSize: 3,
+  };
+  const lab = config.clients[0]!;
+  const tester = config.clients[1]!;
+
+  const labEvent = (id: string, data: unknown = { resultId: 'R-1' }): any => ({
+    specversion: '1.0',
+    id,
+    source: 'urn:district:lab-system',
+    type: 'health.lab.result-available',
+    data,
+  });
+
+  beforeEach(() => {
+    dispatcher = new (RouteDispatcher as jest.MockedClass<typeof RouteDispatcher>)(
+      {} as any,
+      {} as any,
+    ) as jest.Mocked<RouteDispatcher>;
+    dispatcher.dispatchToDestination.mockImplementation(async (route, destination) => ({
+      success: true,
+      route,
+      destination,
+      latencyMs: 1,
+    }));
+    ingress = new EventIngress(config, new CloudEventValidator(), dispatcher);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('validate()', () => {
+    it('should accept a valid configuration', () => {
+      expect(EventIngress.validate(config)).toEqual([]);
+    });
+
+    it('should report missing and duplicate settings', () => {
+      const errors = EventIngress.validate({
+        clients: [
+          { name: 'lab', apiKey: 'shared' },
+          { name: 'lab', apiKey: 'shared' },
+          { name: '', apiKey: '' },
+        ],
+        exchanges: [{ source: '', exchange: '' }],
+        maxBatchSize: 0,
+      });
+
+      expect(errors).toEqual([
+        "client name 'lab' is used more than once",
+        "client 'lab' shares its apiKey with another client",
+        'client #2 is missing name',
+        'client #2 is missing apiKey',
+        'exchange mapping #0 is missing source',
+        'exchange mapping #0 is missing exchange',
+        'maxBatchSize must be a positive integer',
+      ]);
+    });
+
+    it('should refuse to create an ingress with an invalid configuration', () => {
+      const invalid = { clients: [], exchanges: null as any };
+
+      expect(() => new EventIngress(invalid, new CloudEventValidator(), dispatcher)).toThrow(
+        'Invalid ingress configuration: exchanges must be a list',
+      );
+    });
+  });
+
+  describe('authenticate()', () => {
+    it('should return the client an API key belongs to', () => {
+      expect(ingress.authenticate('lab-key')).toBe(lab);
+    });
+
+    it('should reject a missing or unknown API key', () => {
+      expect(() => ingress.authenticate(undefined)).toThrow(UnauthorizedError);
+      expect(() => ingress.authenticate(undefined)).toThrow('API key required');
+      expect(() => ingress.authenticate('wrong')).toThrow('Invalid API key');
+    });
+  });
+
+  describe('publish()', () => {
+    it('should publish to the mapped exchange with the event type as routing key', async () => {
+      const published = await ingress.publish(lab, [labEvent('lab-1')], 'corr-1');
+
+      expect(published).toEqual([
+        { id: 'lab-1', exchange: 'health.events', routingKey: 'health.lab.result-available' },
+      ]);
+      expect(dispatcher.dispatchToDestination).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'http-ingress' }),
+        { type: 'topic', exchange: 'health.events', routingKey: 'health.lab.result-available' },
+        labEvent('lab-1'),
+        'corr-1',
+      );
+    });
+
+    it('should use the routing key of the mapping and the event correlation ID', async () => {
+      const event = {
+        ...labEvent('partner-1'),
+        source: 'urn:partner:billing',
+        correlationid: 'corr-from-event',
+      };
+
+      const [published] = await ingress.publish(tester, [event]);
+
+      expect(published).toEqual(expect.objectContaining({
+        exchange: 'partner.events',
+        routingKey: 'partner.inbound',
+      }));
+      expect(dispatcher.dispatchToDestination.mock.calls[0]![3]).toBe('corr-from-event');
+    });
+
+    it('should publish a batch in order', async () => {
+      await ingress.publish(lab, [labEvent('lab-1'), labEvent('lab-2'), labEvent('lab-3')]);
+
+      const ids = dispatcher.dispatchToDestination.mock.calls.map(([, , event]) => event.id);
+      expect(ids).toEqual(['lab-1', 'lab-2', 'lab-3']);
+    });
+
+    it('should publish nothing if any event of a batch is invalid', async () => {
+      const invalid = { ...labEvent('lab-2'), type: undefined };
+
+      await expect(ingress.publish(lab, [labEvent('lab-1'), invalid]))
+        .rejects.toThrow('Event #1 is invalid: Missing required field: type');
+      expect(dispatcher.dispatchToDestination).not.toHaveBeenCalled();
+    });
+
+    it('should validate event data against its schema', async () => {
+      const schemaRegistry = new SchemaRegistry();
+      schemaRegistry.register('health.lab.result-available', '1.0', {
+        type: 'object',
+        required: ['resultId'],
+      });
+      ingress = new EventIngress(config, new CloudEventValidator({ schemaRegistry }), dispatcher);
+
+      await expect(ingress.publish(lab, [labEvent('lab-1', { patientId: 'P-1' })]))
+        .rejects.toThrow(ValidationError);
+      expect(dispatcher.dispatchToDestination).not.toHaveBeenCalled();
+    });
+
+    it('should reject events from sources the client may not publish', async () => {
+      const event = { ...labEvent('lab-1'), source: 'urn:smile:health-service' };
+
+      await expect(ingress.publish(lab, [event])).rejects.toThrow(ForbiddenError);
+      expect(dispatcher.dispatchToDestination).not.toHaveBeenCalled();
+    });
+
+    it('should reject events no exchange is mapped for', async () => {
+      const event = { ...labEvent('lab-1'), type: 'lab.result-available' };
+
+      await expect(ingress.publish(lab, [event])).rejects.toThrow(
+        "Event has no exchange for source 'urn:district:lab-system' " +
+          "and type 'lab.result-available'",
+      );
+    });
+
+    it('should reject empty and oversized batches', async () => {
+      const batch = ['lab-1', 'lab-2', 'lab-3', 'lab-4'].map((id) => labEvent(id));
+
+      await expect(ingress.publish(lab, [])).rejects.toThrow('No CloudEvents to publish');
+      await expect(ingress.publish(lab, batch)).rejects.toThrow(
+        'Batch has 4 events, at most 3 are accepted',
+      );
+    });
+
+    it('should stop at an event the broker did not confirm', async () => {
+      dispatcher.dispatchToDestination
+        .mockResolvedValueOnce({ success: true } as any)
+        .mockResolvedValueOnce({ success: false, error: new Error('Channel closed') } as any);
+
+      const error = await ingress
+        .publish(lab, [labEvent('lab-1'), labEvent('lab-2'), labEvent('lab-3')])
+        .catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(ServiceUnavailableError);
+      expect(error.message).toBe("Event 'lab-2' was not published: Channel closed");
+      expect(error.context).toEqual({ published: ['lab-1'] });
+      expect(dispatcher.dispatchToDestination).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('loadIngressConfigFile()', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ingress-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should load clients and mappings with environment references', async () => {
+      const filePath = path.join(directory, 'ingress.yml');
+      await fs.writeFile(filePath, [
+        'maxBatchSize: "${INGRESS_MAX_BATCH_SIZE:-50}"',
+        'clients:',
+        '  - name: "district-lab"',
+        '    apiKey: "${LAB_KEY}"',
+        'exchanges:',
+        '  - source: "urn:district:lab-*"',
+        '    exchange: "health.events"',
+      ].join('\n'));
+
+      expect(loadIngressConfigFile(filePath, { LAB_KEY: 'secret' })).toEqual({
+        maxBatchSize: 50,
+        clients: [{ name: 'district-lab', apiKey: 'secret' }],
+        exchanges: [{ source: 'urn:district:lab-*', exchange: 'health.events' }],
+      });
+    });
+
+    it('should report a file that cannot be loaded', () => {
+      expect(() => loadIngressConfigFile(path.join(directory, 'missing.yml'))).toThrow(
+        /Failed to load ingress configuration/,
+      );
+    });
+  });
+});
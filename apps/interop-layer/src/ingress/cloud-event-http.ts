@@ -0,0 +1,166 @@
+/**
+ * CloudEvents HTTP Binding
+ *
+ * Reads CloudEvents from HTTP requests in the three content modes of the
+ * CloudEvents HTTP protocol binding:
+ * - structured: the event as an application/cloudevents+json body
+ * - batch: a JSON array of events as an application/cloudevents-batch+json body
+ * - binary: attributes in ce-* headers, data as the body with its content type
+ */
+
+import { IncomingHttpHeaders } from 'http';
+import { ValidationError } from '@smile/common';
+
+/**
+ * HTTP content mode of a CloudEvents request
+ */
+export type HttpContentMode = 'structured' | 'binary' | 'batch';
+
+/**
+ * CloudEvents read from an HTTP request
+ */
+export interface HttpCloudEvents {
+  mode: HttpContentMode;
+
+  /** Events in request order (one unless mode is batch), not yet validated */
+  events: unknown[];
+}
+
+const STRUCTURED_CONTENT_TYPE = 'application/cloudevents+json';
+const BATCH_CONTENT_TYPE = 'application/cloudevents-batch+json';
+const ATTRIBUTE_HEADER_PREFIX = 'ce-';
+
+/**
+ * Read the CloudEvents of an HTTP request
+ *
+ * Attributes are not validated here; missing or invalid attributes are left to
+ * the CloudEventValidator.
+ *
+ * @param headers - Request headers
+ * @param body - Raw request body
+ * @returns Content mode and events
+ * @throws ValidationError if the request is not a CloudEvent or its body does not parse
+ */
+export function parseHttpCloudEvents(
+  headers: IncomingHttpHeaders,
+  body: Buffer,
+): HttpCloudEvents {
+  const contentType = headers['content-type'];
+  const mediaType = (contentType ?? '').split(';')[0]!.trim().toLowerCase();
+
+  if (mediaType === BATCH_CONTENT_TYPE) {
+    const events = parseJson(body, 'CloudEvents batch');
+    if (!Array.isArray(events)) {
+      throw new ValidationError('CloudEvents batch must be a JSON array');
+    }
+    return { mode: 'batch', events };
+  }
+
+  if (mediaType === STRUCTURED_CONTENT_TYPE) {
+    const event = parseJson(body, 'CloudEvent');
+    if (typeof event !== 'object' || event === null || Array.isArray(event)) {
+      throw new ValidationError('Structured CloudEvent must be a JSON object');
+    }
+    return { mode: 'structured', events: [event] };
+  }
+
+  const attributes = getBinaryAttributes(headers);
+  if (!attributes) {
+    throw new ValidationError(
+      `Request is not a CloudEvent: use ${STRUCTURED_CONTENT_TYPE}, ${BATCH_CONTENT_TYPE} ` +
+        'or ce-* headers with ce-specversion',
+    );
+  }
+
+  return { mode: 'binary', events: [toBinaryEvent(attributes, contentType, body)] };
+}
+
+/**
+ * Build a CloudEvent from binary-mode attributes and body
+ *
+ * JSON data is parsed; other data is kept as text, or as data_base64 if the
+ * body is not valid UTF-8.
+ */
+function toBinaryEvent(
+  attributes: Record<string, string>,
+  contentType: string | undefined,
+  body: Buffer,
+): Record<string, unknown> {
+  const event: Record<string, unknown> = { ...attributes };
+
+  if (contentType) {
+    event['datacontenttype'] = contentType;
+  }
+
+  if (body.length > 0) {
+    const text = body.toString('utf8');
+
+    if (isJsonContentType(contentType)) {
+      event['data'] = parseJson(body, 'CloudEvent data');
+    } else if (Buffer.from(text, 'utf8').equals(body)) {
+      event['data'] = text;
+    } else {
+      event['data_base64'] = body.toString('base64');
+    }
+  }
+
+  return event;
+}
+
+/**
+ * Get the CloudEvent attributes carried in ce-* headers
+ *
+ * Header values are percent-decoded as the HTTP binding requires.
+ *
+ * @returns Attributes by (lower-case) name, or null without a ce-specversion header
+ */
+function getBinaryAttributes(headers: IncomingHttpHeaders): Record<string, string> | null {
+  const attributes: Record<string, string> = {};
+
+  for (const [header, value] of Object.entries(headers)) {
+    const name = header.toLowerCase();
+    if (name.startsWith(ATTRIBUTE_HEADER_PREFIX) && value !== undefined) {
+      attributes[name.slice(ATTRIBUTE_HEADER_PREFIX.length)] = percentDecode(
+        Array.isArray(value) ? value.join(',') : value,
+      );
+    }
+  }
+
+  return attributes['specversion'] ? attributes : null;
+}
+
+/**
+ * Percent-decode a header value (left as is if it is not valid percent-encoding)
+ */
+function percentDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Whether a content type is JSON (application/json or a +json suffix)
+ */
+function isJsonContentType(contentType: string | undefined): boolean {
+  const mediaType = (contentType ?? '').split(';')[0]!.trim().toLowerCase();
+  return mediaType === 'application/json' || mediaType.endsWith('+json');
+}
+
+/**
+ * Parse a JSON body
+ *
+ * @throws ValidationError if the body is empty or not JSON
+ */
+function parseJson(body: Buffer, what: string): unknown {
+  if (body.length === 0) {
+    throw new ValidationError(`${what} body is empty`);
+  }
+
+  try {
+    return JSON.parse(body.toString('utf8'));
+  } catch (error) {
+    throw new ValidationError(`${what} is not valid JSON: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * CloudEvents HTTP Ingress
+ *
+ * Lets partners that cannot speak AMQP put CloudEvents on the bus:
+ * - Clients authenticate with an API key and may only publish their own sources
+ * - Events are validated (envelope and data schema) before anything is published
+ * - Each event goes to the exchange mapped from its source (and type), with its
+ *   type as routing key unless the mapping sets one
+ * - Events are published in request order and only reported accepted once the
+ *   broker confirmed them
+ * - Ingress files are YAML; string values may reference ${ENV_VAR} or ${ENV_VAR:-default}
+ */
+
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import {
+  logger,
+  ForbiddenError,
+  ServiceUnavailableError,
+  UnauthorizedError,
+  ValidationError,
+} from '@smile/common';
+import { CloudEventValidator } from '../consumer/cloud-event-validator';
+import { RouteDispatcher } from '../routing/route-dispatcher';
+import { RouteMatchEngine } from '../routing/route-match-engine';
+import { interpolateEnv } from '../config/env-interpolation';
+import {
+  ApiClient,
+  findApiClient,
+  getClientLabel,
+  validateApiClients,
+} from '../config/api-clients';
+import { RouteDefinition } from '../messaging/types';
+
+/**
+ * Partner allowed to publish through the ingress
+ */
+export interface IngressClient extends ApiClient {
+  sources?: string[]; // CloudEvent source patterns the client may publish (default *)
+}
+
+/**
+ * Exchange events are published to, by source and type
+ */
+export interface IngressExchangeMapping {
+  source: string; // CloudEvent source pattern
+  type?: string; // CloudEvent type pattern (default *)
+  exchange: string; // Topic exchange
+  routingKey?: string; // Routing key (default: the event type)
+}
+
+/**
+ * Ingress file contents
+ */
+export interface IngressConfig {
+  clients: IngressClient[];
+  exchanges: IngressExchangeMapping[]; // Tried in order, the first match wins
+  maxBatchSize?: number; // Events accepted per batch request (default 100)
+}
+
+/**
+ * Event published through the ingress
+ */
+export interface IngressPublishResult {
+  id: string;
+  exchange: string;
+  routingKey: string;
+}
+
+/**
+ * A validated ingress event and the exchange it goes to
+ */
+interface IngressTarget {
+  event: Record<string, unknown>;
+  exchange: string;
+  routingKey: string;
+}
+
+const DEFAULT_MAX_BATCH_SIZE = 100;
+
+/** Route reported for ingress publishes in dispatcher logs and results */
+const INGRESS_ROUTE: RouteDefinition = {
+  name: 'http-ingress',
+  enabled: true,
+  source: '*',
+  type: '*',
+  strategy: 'default',
+  priority: 0,
+};
+
+/**
+ * CloudEvents HTTP ingress
+ */
+export class EventIngress {
+  private readonly matchEngine = new RouteMatchEngine();
+  private readonly maxBatchSize: number;
+
+  /**
+   * @param config - Clients and exchange mappings
+   * @param validator - Validator for the event envelope and data schema
+   * @param routeDispatcher - Publishes to topic exchanges with broker confirms
+   * @throws Error if the configuration is invalid
+   */
+  constructor(
+    private readonly config: IngressConfig,
+    private readonly validator: CloudEventValidator,
+    private readonly routeDispatcher: RouteDispatcher,
+  ) {
+    const errors = EventIngress.validate(config);
+    if (errors.length > 0) {
+      throw new Error(`Invalid ingress configuration: ${errors.join(', ')}`);
+    }
+
+    this.maxBatchSize = config.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+  }
+
+  /**
+   * Validate an ingress configuration
+   *
+   * @param config - Configuration to validate
+   * @returns Validation errors (empty if valid)
+   */
+  public static validate(config: IngressConfig): string[] {
+    const errors = validateApiClients(config?.clients);
+
+    if (Array.isArray(config?.clients)) {
+      config.clients.forEach((client, index) => {
+        if (client?.sources !== undefined && !Array.isArray(client.sources)) {
+          errors.push(`client ${getClientLabel(client, index)} sources must be a list`);
+        }
+      });
+    }
+
+    if (!Array.isArray(config?.exchanges)) {
+      errors.push('exchanges must be a list');
+    } else {
+      config.exchanges.forEach((mapping, index) => {
+        if (!mapping?.source) {
+          errors.push(`exchange mapping #${index} is missing source`);
+        }
+        if (!mapping?.exchange) {
+          errors.push(`exchange mapping #${index} is missing exchange`);
+        }
+      });
+    }
+
+    if (
+      config?.maxBatchSize !== undefined &&
+      (!Number.isInteger(config.maxBatchSize) || config.maxBatchSize < 1)
+    ) {
+      errors.push('maxBatchSize must be a positive integer');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Find the client an API key belongs to
+   *
+   * @param apiKey - Key sent by the caller
+   * @returns The client
+   * @throws UnauthorizedError if the key is missing or unknown
+   */
+  public authenticate(apiKey: string | undefined): IngressClient {
+    const client = findApiClient(this.config.clients, apiKey);
+
+    if (!client) {
+      throw new UnauthorizedError(apiKey ? 'Invalid API key' : 'API key required');
+    }
+
+    return client;
+  }
+
+  /**
+   * Validate and publish events
+   *
+   * Nothing is published unless every event is valid, allowed for the client
+   * and mapped to an exchange. Events are then published in order; if the
+   * broker does not confirm one, the events before it stay published.
+   *
+   * @param client - Authenticated client
+   * @param events - Events in request order
+   * @param correlationId - Correlation ID for tracing (default: each event's)
+   * @returns Published events, in order
+   * @throws ValidationError if an event is invalid or no exchange is mapped for it
+   * @throws ForbiddenError if the client may not publish an event's source
+   * @throws ServiceUnavailableError if the broker did not confirm an event
+   */
+  public async publish(
+    client: IngressClient,
+    events: unknown[],
+    correlationId?: string,
+  ): Promise<IngressPublishResult[]> {
+    if (events.length === 0) {
+      throw new ValidationError('No CloudEvents to publish');
+    }
+    if (events.length > this.maxBatchSize) {
+      throw new ValidationError(
+        `Batch has ${events.length} events, at most ${this.maxBatchSize} are accepted`,
+      );
+    }
+
+    const targets = events.map((event, index) => this.resolve(client, event, index, events.length));
+    const published: IngressPublishResult[] = [];
+
+    for (const { event, exchange, routingKey } of targets) {
+      const id = String(event.id);
+      const eventCorrelationId = correlationId ?? this.validator.extractCorrelationId(event);
+      const result = await this.routeDispatcher.dispatchToDestination(
+        INGRESS_ROUTE,
+        { type: 'topic', exchange, routingKey },
+        event,
+        eventCorrelationId,
+      );
+
+      if (!result.success) {
+        logger.error('Ingress event was not confirmed by the broker', {
+          client: client.name,
+          eventId: id,
+          exchange,
+          published: published.length,
+          error: result.error?.message,
+        });
+        throw new ServiceUnavailableError(
+          `Event '${id}' was not published: ${result.error?.message ?? 'unknown error'}`,
+          { published: published.map((item) => item.id) },
+        );
+      }
+
+      published.push({ id, exchange, routingKey });
+    }
+
+    logger.info('Ingress events published', {
+      client: client.name,
+      events: published.length,
+      correlationId,
+    });
+
+    return published;
+  }
+
+  /**
+   * Validate an event and find the exchange it goes to
+   *
+   * @returns The validated event with its exchange and routing key
+   * @throws ValidationError if the event is invalid or unmapped
+   * @throws ForbiddenError if the client may not publish its source
+   */
+  private resolve(
+    client: IngressClient,
+    event: unknown,
+    index: number,
+    count: number,
+  ): IngressTarget {
+    const label = count > 1 ? `Event #${index}` : 'Event';
+    const validation = this.validator.validate(event);
+    if (!validation.valid) {
+      throw new ValidationError(`${label} is invalid: ${validation.errors?.join('; ')}`, {
+        index,
+        errors: validation.errors,
+      });
+    }
+
+    // A valid event is a JSON object
+    const cloudEvent = validation.event as Record<string, unknown>;
+    const source = String(cloudEvent.source);
+    const allowed = (client.sources ?? ['*']).some((pattern) =>
+      this.matchEngine.matchPattern(source, pattern),
+    );
+    if (!allowed) {
+      throw new ForbiddenError(`Client '${client.name}' may not publish events from '${source}'`);
+    }
+
+    const type = String(cloudEvent.type);
+    const mapping = this.config.exchanges.find(
+      (candidate) =>
+        this.matchEngine.matchPattern(source, candidate.source) &&
+        this.matchEngine.matchPattern(type, candidate.type ?? '*'),
+    );
+    if (!mapping) {
+      throw new ValidationError(
+        `${label} has no exchange for source '${source}' and type '${type}'`,
+      );
+    }
+
+    return {
+      event: cloudEvent,
+      exchange: mapping.exchange,
+      routingKey: mapping.routingKey ?? type,
+    };
+  }
+}
+
+/**
+ * Load an ingress file
+ *
+ * @param filePath - Path to the YAML ingress file
+ * @param env - Environment used for ${VAR} references (defaults to process.env)
+ * @returns Ingress configuration
+ * @throws Error if the file cannot be read or references an unset variable
+ */
+export function loadIngressConfigFile(
+  filePath: string,
+  env: NodeJS.ProcessEnv = process.env,
+): IngressConfig {
+  try {
+    const parsed = (yaml.load(fs.readFileSync(filePath, 'utf8')) ?? {}) as Record<string, unknown>;
+    const contents = interpolateEnv(parsed, env) as Partial<IngressConfig>;
+    const maxBatchSize = contents.maxBatchSize === undefined
+      ? undefined
+      : Number(contents.maxBatchSize);
+
+    return {
+      clients: contents.clients ?? [],
+      exchanges: contents.exchanges ?? [],
+      ...(maxBatchSize !== undefined && { maxBatchSize }),
+    };
+  } catch (error) {
+    throw new Error(
+      `Failed to load ingress configuration ${filePath}: ${(error as Error).message}`,
+    );
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * In-Memory Transport Unit Tests
+ *
+ * Tests the in-memory broker through the ConnectionManager:
+ * - Topic, direct and fanout routing
+ * - Acks, nacks with requeue and prefetch limits
+ * - Dead-lettering of rejected, expired and overflowing messages
+ * - Priority queues and channel errors
+ */
+
+import * as amqp from 'amqplib';
+import { InMemoryBroker, MessageChannel } from '@smile/cloud-events';
+import { ConnectionManager } from '../connection-manager';
+import { ConnectionState, RabbitMQConfig } from '../types';
+
+jest.mock('@smile/common', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('In-memory transport', () => {
+  let broker: InMemoryBroker;
+  let connectionManager: ConnectionManager;
+  let channel: MessageChannel;
+
+  const flush = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+  const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+  const publish = (
+    exchange: string,
+    routingKey: string,
+    body: string,
+    options?: amqp.Options.Publish,
+  ): boolean => channel.publish(exchange, routingKey, Buffer.from(body), options);
+
+  const drain = async (queue: string): Promise<string[]> => {
+    const bodies: string[] = [];
+    for (let message = await channel.get(queue, { noAck: true }); message;) {
+      bodies.push(message.content.toString());
+      message = await channel.get(queue, { noAck: true });
+    }
+    return bodies;
+  };
+
+  const collect = async (queue: string, noAck = false): Promise<amqp.ConsumeMessage[]> => {
+    const received: amqp.ConsumeMessage[] = [];
+    await channel.consume(
+      queue,
+      (message) => {
+        if (message) {
+          received.push(message);
+        }
+      },
+      { noAck },
+    );
+    return received;
+  };
+
+  beforeEach(async () => {
+    broker = new InMemoryBroker();
+    const config: RabbitMQConfig = {
+      url: 'amqp://in-memory',
+      prefetchCount: 10,
+      reconnectDelay: 1000,
+      maxReconnectAttempts: 1,
+      transport: broker,
+    };
+    connectionManager = new ConnectionManager(config);
+    await connectionManager.connect();
+    channel = await connectionManager.getChannel();
+  });
+
+  afterEach(async () => {
+    await connectionManager.disconnect();
+    broker.close();
+  });
+
+  it('should connect through the configured transport', () => {
+    expect(connectionManager.getHealth().state).toBe(ConnectionState.CONNECTED);
+  });
+
+  describe('routing', () => {
+    it('should match topic wildcards', async () => {
+      await channel.assertExchange('orders.events', 'topic');
+      await channel.assertQueue('all');
+      await channel.assertQueue('approved');
+      await channel.assertQueue('single-word');
+      await channel.bindQueue('all', 'orders.events', 'orders.#');
+      await channel.bindQueue('approved', 'orders.events', 'orders.*.approved');
+      await channel.bindQueue('single-word', 'orders.events', 'orders.*');
+
+      publish('orders.events', 'orders.order.approved', 'approved');
+      publish('orders.events', 'orders.order.shipped', 'shipped');
+      publish('orders.events', 'orders', 'bare');
+      publish('orders.events', 'health.patient.created', 'other');
+
+      expect(await drain('all')).toEqual(['approved', 'shipped', 'bare']);
+      expect(await drain('approved')).toEqual(['approved']);
+      expect(await drain('single-word')).toEqual([]);
+    });
+
+    it('should route by queue name through the default exchange', async () => {
+      await channel.assertQueue('work');
+
+      channel.sendToQueue('work', Buffer.from('job'));
+
+      expect(await drain('work')).toEqual(['job']);
+    });
+
+    it('should route direct and fanout exchanges', async () => {
+      await channel.assertExchange('direct.events', 'direct');
+      await channel.assertExchange('fanout.events', 'fanout');
+      await channel.assertQueue('a');
+      await channel.assertQueue('b');
+      await channel.bindQueue('a', 'direct.events', 'key-a');
+      await channel.bindQueue('a', 'fanout.events', '');
+      await channel.bindQueue('b', 'fanout.events', '');
+
+      publish('direct.events', 'key-a', 'direct');
+      publish('direct.events', 'key-b', 'unrouted');
+      publish('fanout.events', 'anything', 'fanout');
+
+      expect(await drain('a')).toEqual(['direct', 'fanout']);
+      expect(await drain('b')).toEqual(['fanout']);
+    });
+
+    it('should keep message properties and headers', async () => {
+      await channel.assertQueue('work');
+
+      channel.sendToQueue('work', Buffer.from('{}'), {
+        contentType: 'application/cloudevents+json',
+        messageId: 'evt-1',
+        persistent: true,
+        headers: { 'ce-type': 'order.approved' },
+      });
+      const message = await channel.get('work');
+
+      expect(message && message.properties).toEqual(expect.objectContaining({
+        contentType: 'application/cloudevents+json',
+        messageId: 'evt-1',
+        deliveryMode: 2,
+        headers: { 'ce-type': 'order.approved' },
+      }));
+    });
+  });
+
+  describe('consuming', () => {
+    beforeEach(async () => {
+      await channel.assertQueue('work');
+    });
+
+    it('should deliver messages to consumers and remove them on ack', async () => {
+      const received = await collect('work');
+
+      channel.sendToQueue('work', Buffer.from('first'));
+      channel.sendToQueue('work', Buffer.from('second'));
+      await flush();
+
+      expect(received.map((message) => message.content.toString())).toEqual(['first', 'second']);
+      expect(broker.getQueueStats('work')).toEqual({
+        messageCount: 0,
+        unacknowledgedCount: 2,
+        consumerCount: 1,
+      });
+
+      channel.ack(received[1]!, true);
+
+      expect(broker.getQueueStats('work')?.unacknowledgedCount).toBe(0);
+    });
+
+    it('should redeliver a message nacked with requeue', async () => {
+      const received = await collect('work');
+
+      channel.sendToQueue('work', Buffer.from('retry-me'));
+      await flush();
+      channel.nack(received[0]!, false, true);
+      await flush();
+
+      expect(received).toHaveLength(2);
+      expect(received[1]!.fields.redelivered).toBe(true);
+    });
+
+    it('should not deliver more unacknowledged messages than the prefetch count', async () => {
+      await channel.prefetch(2);
+      const received = await collect('work');
+
+      for (let index = 0; index < 5; index++) {
+        channel.sendToQueue('work', Buffer.from(`message-${index}`));
+      }
+      await flush();
+      expect(received).toHaveLength(2);
+
+      channel.ack(received[0]!);
+      await flush();
+
+      expect(received).toHaveLength(3);
+      expect(broker.getQueueStats('work')?.messageCount).toBe(2);
+    });
+
+    it('should return unacknowledged messages to the queue when the channel closes', async () => {
+      await collect('work');
+      channel.sendToQueue('work', Buffer.from('in-flight'));
+      await flush();
+
+      await channel.close();
+      channel = await connectionManager.getChannel();
+
+      const message = await channel.get('work');
+      expect(message && message.content.toString()).toBe('in-flight');
+      expect(message && message.fields.redelivered).toBe(true);
+    });
+
+    it('should deliver higher priority messages first', async () => {
+      await channel.assertQueue('urgent-work', { maxPriority: 10 });
+
+      channel.sendToQueue('urgent-work', Buffer.from('normal'), { priority: 1 });
+      channel.sendToQueue('urgent-work', Buffer.from('critical'), { priority: 9 });
+      channel.sendToQueue('urgent-work', Buffer.from('urgent'), { priority: 5 });
+
+      expect(await drain('urgent-work')).toEqual(['critical', 'urgent', 'normal']);
+    });
+  });
+
+  describe('dead-lettering', () => {
+    beforeEach(async () => {
+      await channel.assertExchange('work.dlx', 'fanout');
+      await channel.assertQueue('work.dlq');
+      await channel.bindQueue('work.dlq', 'work.dlx', '');
+    });
+
+    it('should dead-letter rejected messages with x-death history', async () => {
+      await channel.assertQueue('work', { deadLetterExchange: 'work.dlx' });
+      const received = await collect('work');
+
+      channel.sendToQueue('work', Buffer.from('poison'));
+      await flush();
+      channel.nack(received[0]!, false, false);
+
+      const deadLetter = await channel.get('work.dlq');
+      expect(deadLetter && deadLetter.content.toString()).toBe('poison');
+      expect(deadLetter && deadLetter.properties.headers).toEqual(expect.objectContaining({
+        'x-first-death-reason': 'rejected',
+        'x-first-death-queue': 'work',
+        'x-death': [expect.objectContaining({
+          queue: 'work',
+          reason: 'rejected',
+          count: 1,
+          exchange: '',
+          'routing-keys': ['work'],
+        })],
+      }));
+    });
+
+    it('should dead-letter messages whose TTL expired', async () => {
+      await channel.assertQueue('delay', {
+        messageTtl: 20,
+        deadLetterExchange: '',
+        deadLetterRoutingKey: 'work.dlq',
+      });
+
+      channel.sendToQueue('delay', Buffer.from('later'));
+      await sleep(40);
+
+      expect(await drain('delay')).toEqual([]);
+      expect(await drain('work.dlq')).toEqual(['later']);
+    });
+
+    it('should dead-letter the oldest messages when the queue is full', async () => {
+      await channel.assertQueue('bounded', { maxLength: 2, deadLetterExchange: 'work.dlx' });
+
+      for (const body of ['one', 'two', 'three']) {
+        channel.sendToQueue('bounded', Buffer.from(body));
+      }
+
+      expect(await drain('bounded')).toEqual(['two', 'three']);
+      expect(await drain('work.dlq')).toEqual(['one']);
+    });
+
+    it('should drop rejected messages without a dead-letter exchange', async () => {
+      await channel.assertQueue('work');
+      const received = await collect('work');
+
+      channel.sendToQueue('work', Buffer.from('dropped'));
+      await flush();
+      channel.nack(received[0]!, false, false);
+
+      expect(broker.getQueueStats('work')).toEqual(expect.objectContaining({
+        messageCount: 0,
+        unacknowledgedCount: 0,
+      }));
+      expect(await drain('work.dlq')).toEqual([]);
+    });
+  });
+
+  describe('channel errors', () => {
+    it('should close the channel when a queue does not exist', async () => {
+      const errors: Error[] = [];
+      channel.on('error', (error: Error) => errors.push(error));
+
+      await expect(channel.checkQueue('missing')).rejects.toThrow(/404 \(NOT-FOUND\)/);
+
+      expect(errors).toHaveLength(1);
+      await expect(channel.assertQueue('work')).rejects.toThrow('Channel closed');
+    });
+
+    it('should reject re-declaring an exchange with another type', async () => {
+      channel.on('error', () => undefined);
+      await channel.assertExchange('orders.events', 'topic');
+
+      await expect(channel.assertExchange('orders.events', 'fanout'))
+        .rejects.toThrow(/406 \(PRECONDITION-FAILED\)/);
+    });
+  });
+});
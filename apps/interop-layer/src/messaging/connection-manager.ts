@@ -9,8 +9,13 @@
  * - Event emission for connection state changes
  */
 
-import * as amqp from 'amqplib';
 import { logger } from '@smile/common';
+import {
+  AmqpTransport,
+  ConfirmMessageChannel,
+  MessageChannel,
+  MessageTransport,
+} from '@smile/cloud-events';
 import { v4 as uuidv4 } from 'uuid';
 import {
   RabbitMQConfig,
@@ -50,11 +55,14 @@ export class ConnectionManager implements IConnectionManager {
   private lastErrorAt: Date | null = null;
   private eventHandlers: Map<ConnectionEvent, Set<ConnectionEventHandler>> = new Map();
   private isShuttingDown = false;
+  private readonly transport: MessageTransport;
 
   constructor(
     private readonly config: RabbitMQConfig,
     private readonly retryStrategy: RetryStrategy = DEFAULT_RETRY_STRATEGY,
   ) {
+    this.transport = config.transport ?? new AmqpTransport();
+
     // Initialize event handler sets
     Object.values(ConnectionEvent).forEach((event) => {
       this.eventHandlers.set(event as ConnectionEvent, new Set());
@@ -104,7 +112,7 @@ export class ConnectionManager implements IConnectionManager {
       }
 
       // Create connection
-      this.connection = await amqp.connect(this.config.url, {
+      this.connection = await this.transport.connect(this.config.url, {
         heartbeat: this.config.heartbeat || 60,
         ...this.config.socketOptions,
       });
@@ -307,7 +315,7 @@ export class ConnectionManager implements IConnectionManager {
   /**
    * Get a channel from the pool or create a new one
    */
-  public async getChannel(): Promise<amqp.Channel> {
+  public async getChannel(): Promise<MessageChannel> {
     if (!this.connection || this.state !== ConnectionState.CONNECTED) {
       throw new Error('Not connected to RabbitMQ');
     }
@@ -362,7 +370,7 @@ export class ConnectionManager implements IConnectionManager {
   /**
    * Get a confirm channel from the pool or create a new one
    */
-  public async getConfirmChannel(): Promise<amqp.ConfirmChannel> {
+  public async getConfirmChannel(): Promise<ConfirmMessageChannel> {
     if (!this.connection || this.state !== ConnectionState.CONNECTED) {
       throw new Error('Not connected to RabbitMQ');
     }
@@ -414,6 +422,13 @@ export class ConnectionManager implements IConnectionManager {
     }
   }
 
+  /**
+   * Get the prefetch count new channels are created with
+   */
+  public getPrefetchCount(): number {
+    return this.config.prefetchCount;
+  }
+
   /**
    * Release a channel (mark as not in use)
    */
@@ -6,6 +6,8 @@
  */
 
 import * as amqp from 'amqplib';
+import { ConfirmMessageChannel, MessageChannel, MessageTransport } from '@smile/cloud-events';
+import { HistogramSnapshot } from '../metrics/histogram';
 
 /**
  * RabbitMQ connection configuration
@@ -32,6 +34,9 @@ export interface RabbitMQConfig {
     keepAlive?: boolean;
     noDelay?: boolean;
   };
+
+  /** Broker transport (AMQP if omitted); InMemoryBroker runs without RabbitMQ */
+  transport?: MessageTransport;
 }
 
 /**
@@ -68,7 +73,113 @@ export interface QueueConsumerConfig {
     maxLength?: number;
     deadLetterExchange?: string;
     deadLetterRoutingKey?: string;
+    /**
+     * Highest message priority (x-max-priority, 1-255). Messages with a higher
+     * priority are delivered first. Changing it requires recreating the queue.
+     */
+    maxPriority?: number;
   };
+
+  /**
+   * Delayed retry of failed messages through per-consumer retry queues.
+   * Each distinct backoff delay becomes a retry queue whose TTL dead-letters
+   * back to this queue (jitter is not applied; tier delays are fixed).
+   * Failed messages are nacked without retry if omitted.
+   */
+  retry?: RetryStrategy;
+
+  /** Dead letter queue for messages that exhausted their retries or are invalid */
+  dlq?: DLQConfig;
+
+  /** Deduplication overrides for this consumer (defaults come from ConsumerOptions) */
+  deduplication?: DeduplicationConfig;
+
+  /** Consumer option overrides for this consumer (merged over the service ConsumerOptions) */
+  consumerOptions?: ConsumerOptions;
+}
+
+/**
+ * Exchange declared on start (e.g. a dead-letter exchange named in queue options)
+ */
+export interface ExchangeConfig {
+  /** Exchange name */
+  name: string;
+
+  /** Exchange type */
+  type: 'topic' | 'direct' | 'fanout' | 'headers';
+
+  /** Survive broker restarts (default true) */
+  durable?: boolean;
+
+  /** Delete when the last queue is unbound (default false) */
+  autoDelete?: boolean;
+}
+
+/**
+ * Lifecycle state of a managed consumer
+ * - running: consuming from its queue
+ * - paused: cancelled at runtime, its queue and channel are kept
+ * - suspended: cancelled by backpressure while the downstream is unhealthy,
+ *   resumed automatically
+ * - stopped: the service is not running
+ */
+export type ConsumerState = 'running' | 'paused' | 'suspended' | 'stopped';
+
+/**
+ * A consumer as reported by the consumer administration API
+ */
+export interface ConsumerInfo {
+  /** Consumer name */
+  name: string;
+
+  /** Lifecycle state */
+  state: ConsumerState;
+
+  /** Consumer configuration */
+  config: QueueConsumerConfig;
+
+  /** Consumer statistics */
+  stats: ConsumerStats;
+}
+
+/**
+ * What identifies a duplicate event
+ * - id: the CloudEvent id
+ * - content-hash: SHA-256 of type, source, subject, datacontenttype and data
+ *   (catches re-emitted events that were given a new id)
+ * - extension: a CloudEvent extension attribute (e.g. an idempotency key);
+ *   events without the attribute fall back to their id
+ */
+export type DeduplicationKeyStrategy = 'id' | 'content-hash' | 'extension';
+
+/**
+ * Per-consumer deduplication settings
+ */
+export interface DeduplicationConfig {
+  /** Enable deduplication for this consumer */
+  enabled?: boolean;
+
+  /** Deduplication window in milliseconds */
+  window?: number;
+
+  /** Deduplication key strategy */
+  key?: DeduplicationKeyStrategy;
+
+  /** Extension attribute name (required when key is 'extension') */
+  extension?: string;
+}
+
+/**
+ * Deduplication store backing all consumers
+ * - memory: per-process, lost on restart
+ * - file: append-only log on disk, shareable by replicas on the same volume
+ */
+export interface DeduplicationStoreConfig {
+  /** Store type */
+  type: 'memory' | 'file';
+
+  /** Log file path (required for the file store) */
+  path?: string;
 }
 
 /**
@@ -91,6 +202,421 @@ export interface DLQConfig {
   maxLength?: number;
 }
 
+/**
+ * Dead letter queue depth for one consumer
+ */
+export interface DeadLetterDepth {
+  /** Consumer name */
+  consumer: string;
+
+  /** DLQ queue name */
+  queue: string;
+
+  /** Messages waiting in the DLQ */
+  messageCount: number;
+
+  /** Error if the depth could not be read */
+  error?: string;
+}
+
+/**
+ * One entry of a message's x-death history
+ */
+export interface DeadLetterDeath {
+  /** Queue the message was dead-lettered from */
+  queue: string;
+
+  /** Why it was dead-lettered (expired, rejected, maxlen, ...) */
+  reason: string;
+
+  /** How many times this happened */
+  count: number;
+
+  /** Exchange the message was published to before dead-lettering */
+  exchange?: string;
+
+  /** Routing keys the message was published with */
+  routingKeys?: string[];
+
+  /** When it last happened */
+  time?: Date;
+}
+
+/**
+ * A dead-lettered message
+ */
+export interface DeadLetterMessage {
+  /** Position in the DLQ (0 = head) */
+  position: number;
+
+  /** Message ID (CloudEvent id) */
+  messageId?: string;
+
+  /** Parsed CloudEvent, or the raw content if it is not JSON */
+  event: unknown;
+
+  /** Last processing error */
+  failureReason?: string;
+
+  /** Delivery attempts before dead-lettering */
+  attempts?: number;
+
+  /** Queue the message was consumed from */
+  originalQueue?: string;
+
+  /** Exchange the message was originally published to */
+  originalExchange?: string;
+
+  /** Routing key the message was originally published with */
+  originalRoutingKey?: string;
+
+  /** x-death history, most recent first */
+  deaths: DeadLetterDeath[];
+}
+
+/**
+ * A page of dead-lettered messages
+ */
+export interface DeadLetterPage {
+  /** Consumer name */
+  consumer: string;
+
+  /** DLQ queue name */
+  queue: string;
+
+  /** Messages in the DLQ */
+  total: number;
+
+  /** Offset of the first message in this page */
+  offset: number;
+
+  /** Messages in this page */
+  messages: DeadLetterMessage[];
+}
+
+/**
+ * Selection of dead-lettered messages to replay
+ *
+ * Filters combine with AND; type and source support * wildcards and
+ * from/to (ISO-8601) are compared against the CloudEvent time.
+ */
+export interface DeadLetterFilter {
+  /** Message IDs to replay */
+  messageIds?: string[];
+
+  /** CloudEvent type pattern */
+  type?: string;
+
+  /** CloudEvent source pattern */
+  source?: string;
+
+  /** Earliest CloudEvent time (inclusive) */
+  from?: string;
+
+  /** Latest CloudEvent time (inclusive) */
+  to?: string;
+}
+
+/**
+ * Result of a dead letter replay
+ */
+export interface DeadLetterReplayResult {
+  /** Messages examined */
+  scanned: number;
+
+  /** IDs of the messages republished to their original destination */
+  replayed: string[];
+
+  /** Messages that could not be republished (left in the DLQ) */
+  failed: Array<{ messageId?: string; error: string }>;
+}
+
+/**
+ * Outcome of processing an archived event
+ */
+export type ArchivedEventOutcome = 'delivered' | 'failed';
+
+/**
+ * A destination an archived event was delivered to
+ */
+export interface ArchivedDelivery {
+  /** Route that matched (absent when routing is not configured) */
+  route?: string;
+
+  /** Destination type */
+  type: RouteDestination['type'];
+
+  /** Endpoint, queue or exchange of the destination */
+  target?: string;
+}
+
+/**
+ * A processed CloudEvent in the event archive
+ */
+export interface ArchivedEvent {
+  /** Position in the archive (1 = first archived event) */
+  sequence: number;
+
+  /** When the event was processed (ISO-8601) */
+  archivedAt: string;
+
+  /** The CloudEvent as consumed */
+  event: Record<string, unknown>;
+
+  /** Correlation ID the event was processed with */
+  correlationId: string;
+
+  /** Queue the event was consumed from */
+  queue?: string;
+
+  /** Whether every destination accepted the event */
+  outcome: ArchivedEventOutcome;
+
+  /** Destinations that accepted the event */
+  deliveries: ArchivedDelivery[];
+
+  /** Processing error (failed outcome) */
+  error?: string;
+}
+
+/**
+ * Selection of archived events
+ *
+ * Filters combine with AND; type and source support * wildcards and
+ * from/to (ISO-8601) are compared against the time the event was archived.
+ */
+export interface EventArchiveFilter {
+  /** CloudEvent type pattern */
+  type?: string;
+
+  /** CloudEvent source pattern */
+  source?: string;
+
+  /** CloudEvent subject */
+  subject?: string;
+
+  /** Correlation ID */
+  correlationId?: string;
+
+  /** Processing outcome */
+  outcome?: ArchivedEventOutcome;
+
+  /** Earliest archive time (inclusive) */
+  from?: string;
+
+  /** Latest archive time (inclusive) */
+  to?: string;
+}
+
+/**
+ * A page of archived events, oldest first
+ */
+export interface EventArchivePage {
+  /** Archived events matching the filter */
+  total: number;
+
+  /** Offset of the first event in this page */
+  offset: number;
+
+  /** Events in this page */
+  events: ArchivedEvent[];
+}
+
+/**
+ * Archived events to replay and where to
+ *
+ * Events go through the routing pipeline (or straight to OpenHIM without
+ * routing) unless a route or destination is given.
+ */
+export interface EventArchiveReplayRequest extends EventArchiveFilter {
+  /** Replay only to the destinations of this route (enabled or not) */
+  route?: string;
+
+  /** Replay only to this destination */
+  destination?: RouteDestination;
+
+  /** Maximum events to replay */
+  limit?: number;
+}
+
+/**
+ * Result of an event archive replay
+ */
+export interface EventArchiveReplayResult {
+  /** Distinct events that matched the filter */
+  matched: number;
+
+  /** IDs of the events every destination accepted */
+  replayed: string[];
+
+  /** Events that failed to replay */
+  failed: Array<{ eventId: string; error: string }>;
+
+  /** Whether more events matched than the replay limit */
+  truncated: boolean;
+}
+
+/**
+ * CloudEvents Subscriptions API filter expression, one dialect per object
+ *
+ * - exact / prefix / suffix: one attribute (type, source, subject, an extension...)
+ *   and the string its value must equal, start with or end with
+ * - all / any: nested filters that must all match / of which one must match
+ * - not: nested filter that must not match
+ */
+export type SubscriptionFilter =
+  | { exact: Record<string, string> }
+  | { prefix: Record<string, string> }
+  | { suffix: Record<string, string> }
+  | { all: SubscriptionFilter[] }
+  | { any: SubscriptionFilter[] }
+  | { not: SubscriptionFilter };
+
+/**
+ * Credential sent to a subscription sink
+ */
+export interface SinkCredential {
+  /** Only access tokens are supported, sent as Authorization: Bearer */
+  credentialtype: 'ACCESSTOKEN';
+
+  /** Access token */
+  accesstoken: string;
+}
+
+/**
+ * HTTP settings of a subscription sink
+ */
+export interface SubscriptionProtocolSettings {
+  /** HTTP method (default POST) */
+  method?: 'POST' | 'PUT';
+
+  /** Headers sent with every delivery */
+  headers?: Record<string, string>;
+}
+
+/**
+ * How events are delivered to a subscription sink
+ */
+export interface SubscriptionDeliverySettings {
+  /** Delivery attempts per event, including the first */
+  maxAttempts: number;
+
+  /** Delay before the first retry in milliseconds */
+  initialDelay: number;
+
+  /** Maximum delay between retries in milliseconds */
+  maxDelay: number;
+
+  /** Backoff multiplier for exponential backoff */
+  backoffMultiplier: number;
+
+  /** HTTP request timeout in milliseconds */
+  timeout: number;
+}
+
+/**
+ * Subscription as created or replaced by a client
+ *
+ * Follows the CloudEvents Subscriptions API; delivery is an extension of this
+ * service. All conditions (source, types and every filter) must match.
+ */
+export interface SubscriptionRequest {
+  /** Source events must have (exact match) */
+  source?: string;
+
+  /** Types events must have one of (exact match) */
+  types?: string[];
+
+  /** Filters events must all match */
+  filters?: SubscriptionFilter[];
+
+  /** URL events are delivered to */
+  sink: string;
+
+  /** Credential sent to the sink */
+  sinkcredential?: SinkCredential;
+
+  /** Delivery protocol (only HTTP) */
+  protocol?: 'HTTP';
+
+  /** HTTP settings of the sink */
+  protocolsettings?: SubscriptionProtocolSettings;
+
+  /** Retry and timeout overrides (defaults come from the subscriptions configuration) */
+  delivery?: Partial<SubscriptionDeliverySettings>;
+}
+
+/**
+ * Persisted subscription
+ */
+export interface Subscription extends Omit<SubscriptionRequest, 'protocol' | 'delivery'> {
+  /** Unique subscription ID */
+  id: string;
+
+  /** Name of the client that created the subscription */
+  owner: string;
+
+  protocol: 'HTTP';
+  filters: SubscriptionFilter[];
+  delivery: SubscriptionDeliverySettings;
+
+  /** When the subscription was created (ISO-8601) */
+  createdAt: string;
+
+  /** When the subscription was last replaced (ISO-8601) */
+  updatedAt: string;
+}
+
+/**
+ * Delivery statistics of a subscription since the service started
+ */
+export interface SubscriptionDeliveryStatus {
+  /** Events the sink accepted */
+  delivered: number;
+
+  /** Events given up after their last attempt (or dropped while too many were pending) */
+  failed: number;
+
+  /** Events waiting for delivery or a retry */
+  pending: number;
+
+  /** When the sink last accepted an event (ISO-8601) */
+  lastDeliveredAt?: string;
+
+  /** Last delivery error */
+  lastError?: string;
+
+  /** When the last delivery attempt failed (ISO-8601) */
+  lastErrorAt?: string;
+}
+
+/**
+ * Subscription as returned to its client (the access token is never returned)
+ */
+export interface SubscriptionInfo extends Omit<Subscription, 'owner' | 'sinkcredential'> {
+  sinkcredential?: Omit<SinkCredential, 'accesstoken'>;
+  status: SubscriptionDeliveryStatus;
+}
+
+/**
+ * Result of sending a test event to a subscription sink
+ */
+export interface SubscriptionTestResult {
+  /** Whether the sink accepted the test event */
+  success: boolean;
+
+  /** ID of the test event */
+  eventId: string;
+
+  /** HTTP status returned by the sink */
+  statusCode?: number;
+
+  /** Delivery error */
+  error?: string;
+
+  latencyMs: number;
+}
+
 /**
  * Connection state enumeration
  */
@@ -140,8 +666,8 @@ export interface ConnectionHealth {
  * Channel wrapper with metadata
  */
 export interface ManagedChannel {
-  /** The underlying amqplib channel */
-  channel: amqp.Channel | amqp.ConfirmChannel;
+  /** The underlying transport channel */
+  channel: MessageChannel | ConfirmMessageChannel;
 
   /** Unique ID for this channel */
   id: string;
@@ -208,10 +734,10 @@ export interface IConnectionManager {
   disconnect(): Promise<void>;
 
   /** Get a channel from the pool */
-  getChannel(): Promise<amqp.Channel>;
+  getChannel(): Promise<MessageChannel>;
 
   /** Get a confirm channel from the pool */
-  getConfirmChannel(): Promise<amqp.ConfirmChannel>;
+  getConfirmChannel(): Promise<ConfirmMessageChannel>;
 
   /** Release a channel back to the pool */
   releaseChannel(channelId: string): void;
@@ -251,7 +777,7 @@ export interface MessageContext {
   message: amqp.ConsumeMessage;
 
   /** The channel the message was received on */
-  channel: amqp.Channel;
+  channel: MessageChannel;
 
   /** Consumer tag */
   consumerTag: string;
@@ -264,12 +790,33 @@ export interface MessageContext {
 
   /** Timestamp when message was received */
   receivedAt: Date;
+
+  /**
+   * Route destinations that accepted the event on an earlier attempt (see
+   * RouteDispatcher.getDestinationKey). Handlers add the destinations they
+   * deliver to, and retries of the message skip them.
+   */
+  deliveredDestinations: Set<string>;
+}
+
+/**
+ * End-to-end latency of the events of one message priority
+ */
+export interface PriorityLatency {
+  /** AMQP message priority (0 when the message has none) */
+  priority: number;
+
+  /** Time from the CloudEvent time to successful processing */
+  latency: HistogramSnapshot;
 }
 
 /**
  * Consumer statistics
  */
 export interface ConsumerStats {
+  /** Consumer name */
+  name: string;
+
   /** Total messages consumed */
   messagesConsumed: number;
 
@@ -282,6 +829,15 @@ export interface ConsumerStats {
   /** Messages sent to DLQ */
   messagesDLQ: number;
 
+  /** Messages skipped as duplicates */
+  messagesDuplicate: number;
+
+  /** Processing time distribution (handler duration, successful and failed) */
+  processingTime: HistogramSnapshot;
+
+  /** End-to-end latency of processed events per message priority, by ascending priority */
+  latencyByPriority: PriorityLatency[];
+
   /** Consumer start time */
   startedAt: Date;
 
@@ -296,6 +852,15 @@ export interface ConsumerStats {
 
   /** Whether consumer is active */
   isActive: boolean;
+
+  /** Whether the consumer is draining in-flight messages before stopping */
+  isDraining: boolean;
+
+  /** Messages delivered but not yet acked or nacked */
+  messagesInFlight: number;
+
+  /** In-flight messages requeued because a drain deadline passed */
+  messagesRequeuedOnDrain: number;
 }
 
 /**
@@ -339,14 +904,35 @@ export interface ConsumerOptions {
   /** Deduplication window in milliseconds */
   deduplicationWindow?: number;
 
+  /** Deduplication key strategy (defaults to 'id') */
+  deduplicationKey?: DeduplicationKeyStrategy;
+
+  /** Extension attribute used when deduplicationKey is 'extension' */
+  deduplicationExtension?: string;
+
   /** Consumer tag */
   consumerTag?: string;
 
-  /** Enable parallel processing */
+  /**
+   * Enable parallel processing: up to maxParallel messages are processed at once,
+   * while events sharing an ordering key are processed strictly in order
+   */
   parallel?: boolean;
 
-  /** Max parallel messages */
+  /** Max parallel messages (default 10; also the default channel prefetch) */
   maxParallel?: number;
+
+  /**
+   * CloudEvent attribute whose value orders events (defaults to 'subject'); an
+   * event sent to a delayed retry queue is overtaken by later events of its key
+   */
+  orderingKey?: string;
+
+  /**
+   * Max time in milliseconds to wait on stop for in-flight messages to settle;
+   * messages still unsettled after it are requeued (default 30000)
+   */
+  drainTimeout?: number;
 }
 
 /**
@@ -381,22 +967,81 @@ export interface RoutingSettings {
 
   /** Enable route metrics tracking */
   enableMetrics: boolean;
+
+  /**
+   * Route selection mode (default: first-match)
+   * - first-match: only the highest-priority matching route is used
+   * - all-matches: every matching route is used (fan-out)
+   */
+  routingMode?: 'first-match' | 'all-matches';
 }
 
 /**
- * Route condition for content-based routing
+ * Field comparison operator
  */
-export interface RouteCondition {
-  /** JSONPath expression for field to evaluate */
+export type ConditionOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'contains'
+  | 'greaterThan'
+  | 'lessThan'
+  | 'regex'
+  | 'in'
+  | 'notIn'
+  | 'exists'
+  | 'between'
+  | 'startsWith'
+  | 'endsWith';
+
+/**
+ * Field condition comparing one event field against a value
+ */
+export interface FieldCondition {
+  /**
+   * Field path, e.g. "data.eventData.priority"
+   * - items[0] selects an array element
+   * - items[*] selects every element; the condition holds if any selected value matches
+   */
   field: string;
 
   /** Comparison operator */
-  operator: 'equals' | 'notEquals' | 'contains' | 'greaterThan' | 'lessThan' | 'regex';
+  operator: ConditionOperator;
+
+  /**
+   * Value to compare against
+   * - in/notIn: array of values
+   * - between: [min, max] (inclusive)
+   * - exists: optional boolean (false matches an absent field)
+   */
+  value?: any;
+}
 
-  /** Value to compare against */
-  value: any;
+/**
+ * Matches when every nested condition matches
+ */
+export interface AllCondition {
+  all: RouteCondition[];
+}
+
+/**
+ * Matches when at least one nested condition matches
+ */
+export interface AnyCondition {
+  any: RouteCondition[];
+}
+
+/**
+ * Matches when the nested condition does not match
+ */
+export interface NotCondition {
+  not: RouteCondition;
 }
 
+/**
+ * Route condition for content-based routing
+ */
+export type RouteCondition = FieldCondition | AllCondition | AnyCondition | NotCondition;
+
 /**
  * Route destination configuration
  */
@@ -482,8 +1127,11 @@ export interface RouteDefinition {
   /** Content-based routing condition */
   condition?: RouteCondition;
 
-  /** Destination configuration */
-  destination: RouteDestination;
+  /** Destination configuration (required unless destinations is set) */
+  destination?: RouteDestination;
+
+  /** Additional destinations, each delivered independently (fan-out) */
+  destinations?: RouteDestination[];
 
   /** Transformation configuration */
   transform?: TransformConfig;
@@ -537,8 +1185,100 @@ export interface RoutingResult {
   error?: Error;
 
   /** Response from destination (if applicable) */
-  response?: any;
+  response?: unknown;
 
   /** Routing latency in milliseconds */
   latencyMs: number;
 }
+
+/**
+ * Per-route routing statistics
+ */
+export interface RouteStats {
+  /** Route name ('fallback' for unmatched events) */
+  routeName: string;
+
+  /** Events matched by the route */
+  matched: number;
+
+  /** Successful destination deliveries */
+  delivered: number;
+
+  /** Failed destination deliveries */
+  failed: number;
+
+  /** Unmatched events dropped (fallback only) */
+  dropped: number;
+
+  /** Delivery latency */
+  latency: {
+    /** Number of deliveries measured */
+    count: number;
+
+    /** Average latency in milliseconds */
+    avgMs: number;
+
+    /** Minimum latency in milliseconds */
+    minMs: number;
+
+    /** Maximum latency in milliseconds */
+    maxMs: number;
+  };
+
+  /** When the route last matched an event */
+  lastMatchedAt?: Date;
+
+  /** Error from the last failed delivery */
+  lastError?: string;
+}
+
+/**
+ * Route definition with its statistics
+ */
+export interface RouteWithStats extends RouteDefinition {
+  /** Route statistics */
+  stats: RouteStats;
+}
+
+/**
+ * Evaluation of one route during a routing dry run
+ */
+export interface RouteEvaluation {
+  /** Route name */
+  route: string;
+
+  /** Route priority */
+  priority: number;
+
+  /** Whether the route matches the event */
+  matched: boolean;
+
+  /** Whether the route would receive the event */
+  selected: boolean;
+
+  /** Why the route would not receive the event */
+  reason?: string;
+}
+
+/**
+ * Result of a routing dry run
+ */
+export interface RoutingDryRunResult {
+  /** Route selection mode in effect */
+  routingMode: 'first-match' | 'all-matches';
+
+  /** Whether any configured route matched */
+  matched: boolean;
+
+  /** Routes that would receive the event (including 'fallback') */
+  selectedRoutes: string[];
+
+  /** Destinations the event would be delivered to */
+  destinations: RouteDestination[];
+
+  /** Fallback behavior applied when no route matched */
+  fallbackBehavior?: RoutingSettings['fallbackBehavior'];
+
+  /** Every configured route, highest priority first */
+  evaluations: RouteEvaluation[];
+}
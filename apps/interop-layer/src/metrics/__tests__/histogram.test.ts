@@ -0,0 +1,44 @@
+/**
+ * Histogram Unit Tests
+ *
+ * Tests cumulative bucket counting, sum/count and reset
+ */
+
+import { Histogram } from '../histogram';
+
+describe('Histogram', () => {
+  it('should count observations in cumulative buckets', () => {
+    const histogram = new Histogram([0.1, 0.01, 1]);
+
+    histogram.observe(5);
+    histogram.observe(50);
+    histogram.observe(2000);
+
+    expect(histogram.snapshot()).toEqual({
+      buckets: [
+        { le: 0.01, count: 1 },
+        { le: 0.1, count: 2 },
+        { le: 1, count: 2 },
+      ],
+      sum: 2.055,
+      count: 3,
+    });
+  });
+
+  it('should count an observation on a bucket bound in that bucket', () => {
+    const histogram = new Histogram([0.1]);
+
+    histogram.observe(100);
+
+    expect(histogram.snapshot().buckets).toEqual([{ le: 0.1, count: 1 }]);
+  });
+
+  it('should clear observations on reset', () => {
+    const histogram = new Histogram([0.1]);
+    histogram.observe(10);
+
+    histogram.reset();
+
+    expect(histogram.snapshot()).toEqual({ buckets: [{ le: 0.1, count: 0 }], sum: 0, count: 0 });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * PrometheusExporter Unit Tests
+ *
+ * Tests the exposition of consumer, OpenHIM bridge and RabbitMQ statistics
+ */
+
+import { PrometheusExporter } from '../prometheus-exporter';
+import { ServiceStats } from '../../services/interop-service';
+import { ConnectionState } from '../../messaging/types';
+
+describe('PrometheusExporter', () => {
+  const histogram = {
+    buckets: [
+      { le: 0.1, count: 3 },
+      { le: 1, count: 4 },
+    ],
+    sum: 0.42,
+    count: 5,
+  };
+
+  const stats: ServiceStats = {
+    consumers: [
+      {
+        name: 'orders-consumer',
+        queueName: 'orders.queue',
+        messagesConsumed: 10,
+        messagesProcessed: 7,
+        messagesFailed: 2,
+        messagesDLQ: 1,
+        messagesDuplicate: 1,
+        processingTime: histogram,
+        latencyByPriority: [
+          { priority: 0, latency: histogram },
+          { priority: 10, latency: { buckets: [{ le: 1, count: 2 }], sum: 0.5, count: 2 } },
+        ],
+        startedAt: new Date(),
+        uptime: 1000,
+        messagesPerSecond: 10,
+        isActive: true,
+        isDraining: false,
+        messagesInFlight: 3,
+        messagesRequeuedOnDrain: 0,
+      },
+    ],
+    bridge: {
+      totalRequests: 6,
+      successfulRequests: 5,
+      failedRequests: 1,
+      averageResponseTimeMs: 80,
+      retries: 2,
+      retriedRequests: 1,
+      recoveredRequests: 1,
+      rejectedByCircuitBreaker: 0,
+      circuitBreakers: {
+        'http://openhim/orders': { state: 'open', consecutiveFailures: 5, timesOpened: 1 },
+      },
+      endpoints: [
+        {
+          endpoint: 'http://openhim/orders',
+          status: '503',
+          requests: 2,
+          responseTime: histogram,
+        },
+      ],
+    },
+    rabbitmq: {
+      state: ConnectionState.CONNECTED,
+      isHealthy: true,
+      uptime: 1000,
+      reconnectAttempts: 3,
+      activeChannels: 4,
+      activeConsumers: 1,
+    },
+  };
+
+  let output: string;
+
+  beforeEach(() => {
+    output = new PrometheusExporter().render(stats);
+  });
+
+  it('should expose consumer counters per consumer', () => {
+    const labels = '{consumer="orders-consumer",queue="orders.queue"}';
+
+    expect(output).toContain('# TYPE interop_consumer_messages_consumed_total counter');
+    expect(output).toContain(`interop_consumer_messages_consumed_total${labels} 10`);
+    expect(output).toContain(`interop_consumer_messages_processed_total${labels} 7`);
+    expect(output).toContain(`interop_consumer_messages_failed_total${labels} 2`);
+    expect(output).toContain(`interop_consumer_messages_duplicate_total${labels} 1`);
+    expect(output).toContain(`interop_consumer_messages_dlq_total${labels} 1`);
+    expect(output).toContain(`interop_consumer_active${labels} 1`);
+    expect(output).toContain(`interop_consumer_messages_in_flight${labels} 3`);
+    expect(output).toContain(`interop_consumer_messages_requeued_on_drain_total${labels} 0`);
+  });
+
+  it('should expose processing-time histograms', () => {
+    const name = 'interop_consumer_processing_duration_seconds';
+
+    expect(output).toContain(`# TYPE ${name} histogram`);
+    expect(output).toContain(
+      `${name}_bucket{consumer="orders-consumer",queue="orders.queue",le="0.1"} 3`,
+    );
+    expect(output).toContain(
+      `${name}_bucket{consumer="orders-consumer",queue="orders.queue",le="+Inf"} 5`,
+    );
+    expect(output).toContain(`${name}_sum{consumer="orders-consumer",queue="orders.queue"} 0.42`);
+    expect(output).toContain(`${name}_count{consumer="orders-consumer",queue="orders.queue"} 5`);
+  });
+
+  it('should expose event latency histograms per priority', () => {
+    const name = 'interop_consumer_event_latency_seconds';
+    const labels = 'consumer="orders-consumer",queue="orders.queue"';
+
+    expect(output).toContain(`# TYPE ${name} histogram`);
+    expect(output).toContain(`${name}_bucket{${labels},priority="0",le="0.1"} 3`);
+    expect(output).toContain(`${name}_bucket{${labels},priority="10",le="+Inf"} 2`);
+    expect(output).toContain(`${name}_sum{${labels},priority="10"} 0.5`);
+  });
+
+  it('should expose OpenHIM requests by endpoint and status', () => {
+    const labels = '{endpoint="http://openhim/orders",status="503"}';
+
+    expect(output).toContain(`interop_openhim_requests_total${labels} 2`);
+    expect(output).toContain(`interop_openhim_request_duration_seconds_count${labels} 5`);
+    expect(output).toContain('interop_openhim_retries_total 2');
+    expect(output).toContain(
+      'interop_openhim_circuit_breaker_state{endpoint="http://openhim/orders",state="open"} 1',
+    );
+    expect(output).toContain(
+      'interop_openhim_circuit_breaker_state{endpoint="http://openhim/orders",state="closed"} 0',
+    );
+  });
+
+  it('should expose RabbitMQ connection health', () => {
+    expect(output).toContain('interop_rabbitmq_connection_state{state="CONNECTED"} 1');
+    expect(output).toContain('interop_rabbitmq_connection_state{state="RECONNECTING"} 0');
+    expect(output).toContain('interop_rabbitmq_connected 1');
+    expect(output).toContain('interop_rabbitmq_reconnect_attempts 3');
+    expect(output).toContain('interop_rabbitmq_channels 4');
+  });
+
+  it('should escape label values', () => {
+    const escaped = new PrometheusExporter().render({
+      ...stats,
+      consumers: [{ ...stats.consumers[0]!, name: 'a"b\\c' }],
+    });
+
+    expect(escaped).toContain('consumer="a\\"b\\\\c"');
+  });
+});
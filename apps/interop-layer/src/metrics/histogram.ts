@@ -0,0 +1,101 @@
+/**
+ * Histogram
+ *
+ * Cumulative bucket histogram of durations, in the shape Prometheus exposes:
+ * - Observations are counted in every bucket whose upper bound they do not exceed
+ * - Sum and count are kept for averages
+ */
+
+/**
+ * Default bucket upper bounds in seconds (5ms to 10s)
+ */
+export const DEFAULT_DURATION_BUCKETS: readonly number[] = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+/**
+ * Bucket upper bounds in seconds for end-to-end event latency (10ms to 5 minutes),
+ * which includes time spent queued and in retries
+ */
+export const EVENT_LATENCY_BUCKETS: readonly number[] = [
+  0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300,
+];
+
+/**
+ * Histogram bucket
+ */
+export interface HistogramBucket {
+  /** Upper bound in seconds */
+  le: number;
+
+  /** Observations less than or equal to the upper bound */
+  count: number;
+}
+
+/**
+ * Histogram state snapshot
+ */
+export interface HistogramSnapshot {
+  /** Cumulative buckets in ascending order (the implicit +Inf bucket equals count) */
+  buckets: HistogramBucket[];
+
+  /** Sum of observed values in seconds */
+  sum: number;
+
+  /** Number of observations */
+  count: number;
+}
+
+/**
+ * Duration histogram
+ */
+export class Histogram {
+  private readonly bounds: number[];
+  private counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(buckets: readonly number[] = DEFAULT_DURATION_BUCKETS) {
+    this.bounds = [...buckets].sort((a, b) => a - b);
+    this.counts = this.bounds.map(() => 0);
+  }
+
+  /**
+   * Record a duration
+   *
+   * @param durationMs - Duration in milliseconds
+   */
+  public observe(durationMs: number): void {
+    const seconds = durationMs / 1000;
+
+    this.bounds.forEach((bound, index) => {
+      if (seconds <= bound) {
+        this.counts[index]!++;
+      }
+    });
+    this.sum += seconds;
+    this.count++;
+  }
+
+  /**
+   * Get the histogram state
+   *
+   * @returns Snapshot with cumulative buckets
+   */
+  public snapshot(): HistogramSnapshot {
+    return {
+      buckets: this.bounds.map((le, index) => ({ le, count: this.counts[index]! })),
+      sum: this.sum,
+      count: this.count,
+    };
+  }
+
+  /**
+   * Clear all observations
+   */
+  public reset(): void {
+    this.counts = this.bounds.map(() => 0);
+    this.sum = 0;
+    this.count = 0;
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * PrometheusExporter
+ *
+ * Renders interop layer statistics in the Prometheus text exposition format (0.0.4):
+ * - Consumer counters, processing-time histograms (per consumer) and end-to-end
+ *   event latency histograms (per consumer and message priority)
+ * - OpenHIM bridge attempts and response-time histograms (per endpoint and status),
+ *   retries and circuit breaker state
+ * - RabbitMQ connection state, reconnect attempts and channel count
+ */
+
+import { ConnectionState } from '../messaging/types';
+import { ServiceStats } from '../services/interop-service';
+import { HistogramSnapshot } from './histogram';
+import { CircuitState } from '../bridge/circuit-breaker';
+
+/**
+ * Content type of the text exposition format
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Type of a non-histogram metric
+ */
+type MetricType = 'counter' | 'gauge';
+
+/**
+ * Metric labels
+ */
+type Labels = Record<string, string>;
+
+/**
+ * Circuit breaker states, exposed as one gauge per state
+ */
+const CIRCUIT_STATES: CircuitState[] = ['closed', 'open', 'half-open'];
+
+/**
+ * Prometheus exporter
+ */
+export class PrometheusExporter {
+  constructor(private readonly prefix: string = 'interop') {}
+
+  /**
+   * Render service statistics
+   *
+   * @param stats - Service statistics
+   * @returns Metrics in the text exposition format
+   */
+  public render(stats: ServiceStats): string {
+    const lines: string[] = [];
+
+    this.renderConsumers(lines, stats);
+    this.renderBridge(lines, stats);
+    this.renderRabbitMQ(lines, stats);
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Consumer metrics
+   */
+  private renderConsumers(lines: string[], stats: ServiceStats): void {
+    const labels = stats.consumers.map((consumer) => ({
+      consumer: consumer.name,
+      queue: consumer.queueName,
+    }));
+    const counter = (name: string, help: string, values: number[]): void =>
+      this.family(lines, name, 'counter', help, labels.map((l, i) => [l, values[i]!]));
+
+    counter(
+      'consumer_messages_consumed_total',
+      'Messages received from the queue',
+      stats.consumers.map((consumer) => consumer.messagesConsumed),
+    );
+    counter(
+      'consumer_messages_processed_total',
+      'Messages processed successfully',
+      stats.consumers.map((consumer) => consumer.messagesProcessed),
+    );
+    counter(
+      'consumer_messages_failed_total',
+      'Messages that failed processing or validation',
+      stats.consumers.map((consumer) => consumer.messagesFailed),
+    );
+    counter(
+      'consumer_messages_duplicate_total',
+      'Messages skipped as duplicates',
+      stats.consumers.map((consumer) => consumer.messagesDuplicate),
+    );
+    counter(
+      'consumer_messages_dlq_total',
+      'Messages sent to the dead letter queue',
+      stats.consumers.map((consumer) => consumer.messagesDLQ),
+    );
+    this.family(
+      lines,
+      'consumer_active',
+      'gauge',
+      'Whether the consumer is consuming (1) or not (0)',
+      labels.map((l, i) => [l, stats.consumers[i]!.isActive ? 1 : 0]),
+    );
+    this.family(
+      lines,
+      'consumer_messages_in_flight',
+      'gauge',
+      'Messages delivered but not yet acked or nacked',
+      labels.map((l, i) => [l, stats.consumers[i]!.messagesInFlight]),
+    );
+    counter(
+      'consumer_messages_requeued_on_drain_total',
+      'In-flight messages requeued because a shutdown drain timed out',
+      stats.consumers.map((consumer) => consumer.messagesRequeuedOnDrain),
+    );
+    this.histogram(
+      lines,
+      'consumer_processing_duration_seconds',
+      'Time spent handling a message',
+      labels.map((l, i) => [l, stats.consumers[i]!.processingTime]),
+    );
+    this.histogram(
+      lines,
+      'consumer_event_latency_seconds',
+      'Time from the event time to successful processing, by message priority',
+      stats.consumers.flatMap((consumer, i) =>
+        consumer.latencyByPriority.map(({ priority, latency }): [Labels, HistogramSnapshot] => [
+          { ...labels[i]!, priority: String(priority) },
+          latency,
+        ]),
+      ),
+    );
+  }
+
+  /**
+   * OpenHIM bridge metrics
+   */
+  private renderBridge(lines: string[], stats: ServiceStats): void {
+    const { bridge } = stats;
+    const attempts = bridge.endpoints.map((entry) => ({
+      labels: { endpoint: entry.endpoint, status: entry.status },
+      entry,
+    }));
+
+    this.family(
+      lines,
+      'openhim_requests_total',
+      'counter',
+      'HTTP requests to OpenHIM (including retries) by endpoint and status',
+      attempts.map(({ labels, entry }) => [labels, entry.requests]),
+    );
+    this.histogram(
+      lines,
+      'openhim_request_duration_seconds',
+      'OpenHIM response time by endpoint and status',
+      attempts.map(({ labels, entry }) => [labels, entry.responseTime]),
+    );
+    this.family(lines, 'openhim_events_total', 'counter', 'Events sent to OpenHIM by outcome', [
+      [{ outcome: 'success' }, bridge.successfulRequests],
+      [{ outcome: 'failure' }, bridge.failedRequests],
+    ]);
+    this.family(lines, 'openhim_retries_total', 'counter', 'OpenHIM request retries', [
+      [{}, bridge.retries],
+    ]);
+    this.family(
+      lines,
+      'openhim_circuit_breaker_rejections_total',
+      'counter',
+      'Events not sent because the endpoint circuit breaker was open',
+      [[{}, bridge.rejectedByCircuitBreaker]],
+    );
+    this.family(
+      lines,
+      'openhim_circuit_breaker_state',
+      'gauge',
+      'Circuit breaker state per endpoint (1 for the current state)',
+      Object.entries(bridge.circuitBreakers).flatMap(([endpoint, breaker]) =>
+        CIRCUIT_STATES.map((state): [Labels, number] => [
+          { endpoint, state },
+          breaker.state === state ? 1 : 0,
+        ]),
+      ),
+    );
+  }
+
+  /**
+   * RabbitMQ connection metrics
+   */
+  private renderRabbitMQ(lines: string[], stats: ServiceStats): void {
+    const health = stats.rabbitmq;
+
+    this.family(
+      lines,
+      'rabbitmq_connection_state',
+      'gauge',
+      'RabbitMQ connection state (1 for the current state)',
+      Object.values(ConnectionState).map((state): [Labels, number] => [
+        { state },
+        health.state === state ? 1 : 0,
+      ]),
+    );
+    this.family(lines, 'rabbitmq_connected', 'gauge', 'Whether RabbitMQ is connected', [
+      [{}, health.isHealthy ? 1 : 0],
+    ]);
+    this.family(
+      lines,
+      'rabbitmq_reconnect_attempts',
+      'gauge',
+      'RabbitMQ reconnection attempts made',
+      [[{}, health.reconnectAttempts]],
+    );
+    this.family(lines, 'rabbitmq_channels', 'gauge', 'Open RabbitMQ channels', [
+      [{}, health.activeChannels],
+    ]);
+  }
+
+  /**
+   * Append a counter or gauge family
+   */
+  private family(
+    lines: string[],
+    name: string,
+    type: MetricType,
+    help: string,
+    samples: Array<[Labels, number]>,
+  ): void {
+    const metric = `${this.prefix}_${name}`;
+
+    lines.push(`# HELP ${metric} ${help}`, `# TYPE ${metric} ${type}`);
+    for (const [labels, value] of samples) {
+      lines.push(`${metric}${this.formatLabels(labels)} ${this.formatValue(value)}`);
+    }
+  }
+
+  /**
+   * Append a histogram family
+   */
+  private histogram(
+    lines: string[],
+    name: string,
+    help: string,
+    samples: Array<[Labels, HistogramSnapshot]>,
+  ): void {
+    const metric = `${this.prefix}_${name}`;
+
+    lines.push(`# HELP ${metric} ${help}`, `# TYPE ${metric} histogram`);
+    for (const [labels, snapshot] of samples) {
+      for (const bucket of snapshot.buckets) {
+        const bucketLabels = this.formatLabels({ ...labels, le: String(bucket.le) });
+        lines.push(`${metric}_bucket${bucketLabels} ${bucket.count}`);
+      }
+      lines.push(
+        `${metric}_bucket${this.formatLabels({ ...labels, le: '+Inf' })} ${snapshot.count}`,
+        `${metric}_sum${this.formatLabels(labels)} ${this.formatValue(snapshot.sum)}`,
+        `${metric}_count${this.formatLabels(labels)} ${snapshot.count}`,
+      );
+    }
+  }
+
+  /**
+   * Format labels as {name="value",...} (empty string without labels)
+   */
+  private formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(
+      ([name, value]) =>
+        `${name}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`,
+    );
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+  }
+
+  /**
+   * Format a sample value
+   */
+  private formatValue(value: number): string {
+    if (Number.isNaN(value)) {
+      return 'NaN';
+    }
+    if (!Number.isFinite(value)) {
+      return value > 0 ? '+Inf' : '-Inf';
+    }
+    return String(value);
+  }
+}
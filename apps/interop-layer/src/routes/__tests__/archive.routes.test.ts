@@ -0,0 +1,96 @@
+/**
+ * Event Archive Routes Unit Tests
+ *
+ * Tests that replaying archived events requires an administrator API key
+ */
+
+import request from 'supertest';
+import express, { Application } from 'express';
+import { createArchiveRouter } from '../archive.routes';
+import { InteropService } from '../../services/interop-service';
+
+jest.mock('@smile/common', () => ({
+  ...jest.requireActual('@smile/common'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('Event archive routes', () => {
+  let app: Application;
+  let interopService: InteropService;
+
+  const replay = { type: 'order.created', route: 'orders', limit: 10 };
+
+  beforeEach(() => {
+    interopService = new InteropService({
+      rabbitmq: {
+        url: 'amqp://localhost:5672',
+        prefetchCount: 10,
+        reconnectDelay: 5000,
+        maxReconnectAttempts: 10,
+      },
+      openhim: {
+        baseUrl: 'http://localhost:5001',
+        endpoints: [],
+        defaultEndpoint: 'http://localhost:5001/events',
+        username: 'test@openhim.org',
+        password: 'test-password',
+        timeout: 10000,
+        retryAttempts: 3,
+        retryDelay: 1000,
+      },
+      consumers: [],
+      admins: [{ name: 'ops', apiKey: 'admin-key' }],
+    });
+    jest.spyOn(interopService, 'replayArchivedEvents').mockResolvedValue({
+      matched: 1,
+      replayed: ['evt-1'],
+      failed: [],
+      truncated: false,
+    });
+
+    app = express();
+    app.use(express.json());
+    app.use('/archive', createArchiveRouter(interopService));
+  });
+
+  describe('POST /archive/replay', () => {
+    it('should reject a request without an API key', async () => {
+      const response = await request(app).post('/archive/replay').send(replay).expect(401);
+
+      expect(response.body).toEqual({ error: 'API key required' });
+      expect(interopService.replayArchivedEvents).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown API key', async () => {
+      const response = await request(app)
+        .post('/archive/replay')
+        .set('X-API-Key', 'wrong-key')
+        .send(replay)
+        .expect(401);
+
+      expect(response.body).toEqual({ error: 'Invalid API key' });
+      expect(interopService.replayArchivedEvents).not.toHaveBeenCalled();
+    });
+
+    it('should replay archived events for an administrator', async () => {
+      const response = await request(app)
+        .post('/archive/replay')
+        .set('X-API-Key', 'admin-key')
+        .send(replay)
+        .expect(200);
+
+      expect(response.body).toEqual({
+        matched: 1,
+        replayed: ['evt-1'],
+        failed: [],
+        truncated: false,
+      });
+      expect(interopService.replayArchivedEvents).toHaveBeenCalledWith(replay);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Consumer Routes Unit Tests
+ *
+ * Tests that adding, pausing, resuming and removing consumers require an
+ * administrator API key, while listing them does not
+ */
+
+import request from 'supertest';
+import express, { Application } from 'express';
+import { createConsumersRouter } from '../consumers.routes';
+import { InteropService } from '../../services/interop-service';
+import { ConsumerInfo, QueueConsumerConfig } from '../../messaging/types';
+
+jest.mock('@smile/common', () => ({
+  ...jest.requireActual('@smile/common'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('Consumer routes', () => {
+  let app: Application;
+  let interopService: InteropService;
+
+  const consumerConfig: QueueConsumerConfig = {
+    name: 'lab-consumer',
+    queue: 'interop.lab.queue',
+    exchange: 'lab.events',
+    exchangeType: 'topic',
+    routingKey: 'lab.#',
+    enabled: true,
+  };
+  const consumer = {
+    name: 'lab-consumer',
+    state: 'running',
+    config: consumerConfig,
+  } as ConsumerInfo;
+
+  /** Routes that require an administrator API key */
+  const adminRoutes: Array<['post' | 'delete', string]> = [
+    ['post', '/consumers'],
+    ['post', '/consumers/lab-consumer/pause'],
+    ['post', '/consumers/lab-consumer/resume'],
+    ['delete', '/consumers/lab-consumer'],
+  ];
+
+  beforeEach(() => {
+    interopService = new InteropService({
+      rabbitmq: {
+        url: 'amqp://localhost:5672',
+        prefetchCount: 10,
+        reconnectDelay: 5000,
+        maxReconnectAttempts: 10,
+      },
+      openhim: {
+        baseUrl: 'http://localhost:5001',
+        endpoints: [],
+        defaultEndpoint: 'http://localhost:5001/events',
+        username: 'test@openhim.org',
+        password: 'test-password',
+        timeout: 10000,
+        retryAttempts: 3,
+        retryDelay: 1000,
+      },
+      consumers: [],
+      admins: [{ name: 'ops', apiKey: 'admin-key' }],
+    });
+    jest.spyOn(interopService, 'listConsumers').mockReturnValue([consumer]);
+    jest.spyOn(interopService, 'addConsumer').mockResolvedValue(consumer);
+    jest.spyOn(interopService, 'pauseConsumer').mockResolvedValue({ ...consumer, state: 'paused' });
+    jest.spyOn(interopService, 'resumeConsumer').mockResolvedValue(consumer);
+    jest.spyOn(interopService, 'removeConsumer').mockResolvedValue();
+
+    app = express();
+    app.use(express.json());
+    app.use('/consumers', createConsumersRouter(interopService));
+  });
+
+  it('should list consumers without an API key', async () => {
+    await request(app).get('/consumers').expect(200);
+
+    expect(interopService.listConsumers).toHaveBeenCalled();
+  });
+
+  it.each(adminRoutes)('should reject %s %s without an API key', async (method, path) => {
+    const response = await request(app)[method](path).send(consumerConfig).expect(401);
+
+    expect(response.body).toEqual({ error: 'API key required' });
+  });
+
+  it.each(adminRoutes)('should reject %s %s with an unknown API key', async (method, path) => {
+    const response = await request(app)[method](path)
+      .set('X-API-Key', 'wrong-key')
+      .send(consumerConfig)
+      .expect(401);
+
+    expect(response.body).toEqual({ error: 'Invalid API key' });
+    expect(interopService.addConsumer).not.toHaveBeenCalled();
+    expect(interopService.pauseConsumer).not.toHaveBeenCalled();
+    expect(interopService.resumeConsumer).not.toHaveBeenCalled();
+    expect(interopService.removeConsumer).not.toHaveBeenCalled();
+  });
+
+  it('should add a consumer for an administrator', async () => {
+    await request(app)
+      .post('/consumers')
+      .set('X-API-Key', 'admin-key')
+      .send(consumerConfig)
+      .expect(201);
+
+    expect(interopService.addConsumer).toHaveBeenCalledWith(consumerConfig);
+  });
+
+  it('should pause and resume a consumer for an administrator', async () => {
+    const paused = await request(app)
+      .post('/consumers/lab-consumer/pause')
+      .set('X-API-Key', 'admin-key')
+      .expect(200);
+    await request(app)
+      .post('/consumers/lab-consumer/resume')
+      .set('Authorization', 'Bearer admin-key')
+      .expect(200);
+
+    expect(paused.body.state).toBe('paused');
+    expect(interopService.pauseConsumer).toHaveBeenCalledWith('lab-consumer');
+    expect(interopService.resumeConsumer).toHaveBeenCalledWith('lab-consumer');
+  });
+
+  it('should remove a consumer for an administrator', async () => {
+    await request(app).delete('/consumers/lab-consumer').set('X-API-Key', 'admin-key').expect(204);
+
+    expect(interopService.removeConsumer).toHaveBeenCalledWith('lab-consumer');
+  });
+});
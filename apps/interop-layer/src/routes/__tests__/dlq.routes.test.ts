@@ -0,0 +1,118 @@
+/**
+ * Dead Letter Queue Routes Unit Tests
+ *
+ * Tests that replaying and purging dead letters require an administrator API key
+ */
+
+import request from 'supertest';
+import express, { Application } from 'express';
+import { createDeadLetterRouter } from '../dlq.routes';
+import { InteropService } from '../../services/interop-service';
+
+jest.mock('@smile/common', () => ({
+  ...jest.requireActual('@smile/common'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('Dead letter queue routes', () => {
+  let app: Application;
+  let interopService: InteropService;
+
+  beforeEach(() => {
+    interopService = new InteropService({
+      rabbitmq: {
+        url: 'amqp://localhost:5672',
+        prefetchCount: 10,
+        reconnectDelay: 5000,
+        maxReconnectAttempts: 10,
+      },
+      openhim: {
+        baseUrl: 'http://localhost:5001',
+        endpoints: [],
+        defaultEndpoint: 'http://localhost:5001/events',
+        username: 'test@openhim.org',
+        password: 'test-password',
+        timeout: 10000,
+        retryAttempts: 3,
+        retryDelay: 1000,
+      },
+      consumers: [],
+      admins: [{ name: 'ops', apiKey: 'admin-key' }],
+    });
+    jest.spyOn(interopService, 'replayDeadLetters').mockResolvedValue({
+      scanned: 1,
+      replayed: ['evt-1'],
+      failed: [],
+    });
+    jest.spyOn(interopService, 'purgeDeadLetters').mockResolvedValue([]);
+
+    app = express();
+    app.use(express.json());
+    app.use('/dlq', createDeadLetterRouter(interopService));
+  });
+
+  describe('POST /dlq/:consumer/replay', () => {
+    it('should reject a request without an API key', async () => {
+      const response = await request(app).post('/dlq/orders-consumer/replay').send({}).expect(401);
+
+      expect(response.body).toEqual({ error: 'API key required' });
+      expect(interopService.replayDeadLetters).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown API key', async () => {
+      const response = await request(app)
+        .post('/dlq/orders-consumer/replay')
+        .set('X-API-Key', 'wrong-key')
+        .send({})
+        .expect(401);
+
+      expect(response.body).toEqual({ error: 'Invalid API key' });
+      expect(interopService.replayDeadLetters).not.toHaveBeenCalled();
+    });
+
+    it('should replay dead letters for an administrator', async () => {
+      const response = await request(app)
+        .post('/dlq/orders-consumer/replay')
+        .set('X-API-Key', 'admin-key')
+        .send({ type: 'order.created' })
+        .expect(200);
+
+      expect(response.body).toEqual({ scanned: 1, replayed: ['evt-1'], failed: [] });
+      expect(interopService.replayDeadLetters).toHaveBeenCalledWith('orders-consumer', {
+        type: 'order.created',
+      });
+    });
+  });
+
+  describe('POST /dlq/:consumer/purge', () => {
+    it('should reject a request without an API key', async () => {
+      await request(app).post('/dlq/orders-consumer/purge').expect(401);
+
+      expect(interopService.purgeDeadLetters).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown API key', async () => {
+      await request(app)
+        .post('/dlq/orders-consumer/purge')
+        .set('Authorization', 'Bearer wrong-key')
+        .expect(401);
+
+      expect(interopService.purgeDeadLetters).not.toHaveBeenCalled();
+    });
+
+    it('should purge the dead letter queue for an administrator', async () => {
+      const response = await request(app)
+        .post('/dlq/orders-consumer/purge')
+        .set('Authorization', 'Bearer admin-key')
+        .expect(200);
+
+      expect(response.body).toEqual({ purged: 0, messages: [] });
+      expect(interopService.purgeDeadLetters).toHaveBeenCalledWith('orders-consumer');
+    });
+  });
+});
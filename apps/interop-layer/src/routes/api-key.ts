@@ -0,0 +1,36 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { InteropService } from '../services/interop-service';
+import { sendError } from './errors';
+
+/**
+ * Get the API key from X-API-Key or an Authorization Bearer header
+ *
+ * @param req - Express request
+ * @returns The API key, or undefined if the request has none
+ */
+export function getApiKey(req: Request): string | undefined {
+  const apiKey = req.header('x-api-key');
+  if (apiKey) {
+    return apiKey;
+  }
+
+  const authorization = req.header('authorization');
+  return authorization?.startsWith('Bearer ') ? authorization.slice(7) : undefined;
+}
+
+/**
+ * Require an administrator API key
+ *
+ * @param interopService - The InteropService authenticating administrators
+ * @returns Middleware responding 401 unless the request carries an administrator key
+ */
+export function requireAdmin(interopService: InteropService): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      interopService.authenticateAdmin(getApiKey(req));
+      return next();
+    } catch (error) {
+      return sendError(res, error);
+    }
+  };
+}
@@ -0,0 +1,199 @@
+import { Router, Request, Response, IRouter } from 'express';
+import { InteropService } from '../services/interop-service';
+import { EventArchiveFilter, EventArchiveReplayRequest } from '../messaging/types';
+import { requireAdmin } from './api-key';
+import { sendError } from './errors';
+
+const MAX_PAGE_SIZE = 100;
+const FILTER_PARAMETERS = [
+  'type',
+  'source',
+  'subject',
+  'correlationId',
+  'outcome',
+  'from',
+  'to',
+] as const;
+
+/**
+ * Create event archive routes
+ *
+ * Replaying archived events requires an administrator API key.
+ *
+ * @param interopService - The running InteropService
+ * @returns Express router mounted under /archive
+ */
+export function createArchiveRouter(interopService: InteropService): IRouter {
+  const router: IRouter = Router();
+  const admin = requireAdmin(interopService);
+
+  /**
+   * @swagger
+   * /archive/events:
+   *   get:
+   *     tags: [Event Archive]
+   *     summary: Query archived events
+   *     description: Processed CloudEvents with their outcome and the destinations that
+   *       accepted them, oldest first. An event is archived once per processing attempt.
+   *       Criteria combine with AND; from/to are compared against the archive time.
+   *     parameters:
+   *       - in: query
+   *         name: type
+   *         description: CloudEvent type pattern (supports *)
+   *         schema:
+   *           type: string
+   *           example: order.*
+   *       - in: query
+   *         name: source
+   *         description: CloudEvent source pattern (supports *)
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: subject
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: correlationId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: outcome
+   *         schema:
+   *           type: string
+   *           enum: [delivered, failed]
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: offset
+   *         schema:
+   *           type: integer
+   *           default: 0
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           default: 20
+   *           maximum: 100
+   *     responses:
+   *       200:
+   *         description: Page of archived events
+   *       400:
+   *         description: Invalid filter, offset or limit
+   *       409:
+   *         description: Event archive is not configured
+   */
+  router.get('/events', async (req: Request, res: Response) => {
+    const offset = Number(req.query['offset'] ?? 0);
+    const limit = Number(req.query['limit'] ?? 20);
+
+    if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1) {
+      return res
+        .status(400)
+        .json({ error: 'offset must be a non-negative integer and limit a positive integer' });
+    }
+
+    const filter: Record<string, unknown> = {};
+    for (const name of FILTER_PARAMETERS) {
+      if (req.query[name] !== undefined) {
+        filter[name] = req.query[name];
+      }
+    }
+
+    try {
+      return res.json(
+        await interopService.queryArchivedEvents(
+          filter as EventArchiveFilter,
+          offset,
+          Math.min(limit, MAX_PAGE_SIZE),
+        ),
+      );
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /archive/replay:
+   *   post:
+   *     tags: [Event Archive]
+   *     summary: Replay archived events
+   *     description: Delivers the selected events again, in archive order and with their
+   *       original correlation ID, to backfill a destination. Without route or
+   *       destination, events go through the routing pipeline as when first consumed.
+   *       Each event is replayed once, even if it was archived for several attempts.
+   *       Replays bypass deduplication and are not archived again.
+   *     parameters:
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Administrator API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               type:
+   *                 type: string
+   *                 example: order.*
+   *               source:
+   *                 type: string
+   *               subject:
+   *                 type: string
+   *               correlationId:
+   *                 type: string
+   *               outcome:
+   *                 type: string
+   *                 enum: [delivered, failed]
+   *               from:
+   *                 type: string
+   *                 format: date-time
+   *               to:
+   *                 type: string
+   *                 format: date-time
+   *               route:
+   *                 type: string
+   *                 description: Replay only to this route's destinations (enabled or not)
+   *               destination:
+   *                 type: object
+   *                 description: Replay only to this destination (same format as a route
+   *                   destination)
+   *               limit:
+   *                 type: integer
+   *                 default: 1000
+   *                 maximum: 10000
+   *     responses:
+   *       200:
+   *         description: Replayed and failed event IDs
+   *       400:
+   *         description: Filter is empty or malformed
+   *       401:
+   *         description: Administrator API key missing or unknown
+   *       404:
+   *         description: Route not found
+   *       409:
+   *         description: Service is not running, or the archive or routing is not configured
+   */
+  router.post('/replay', admin, async (req: Request, res: Response) => {
+    const request: EventArchiveReplayRequest = req.body ?? {};
+
+    try {
+      return res.json(await interopService.replayArchivedEvents(request));
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,243 @@
+import { Router, Request, Response, IRouter } from 'express';
+import { InteropService } from '../services/interop-service';
+import { QueueConsumerConfig } from '../messaging/types';
+import { requireAdmin } from './api-key';
+import { sendError } from './errors';
+
+/**
+ * Create consumer administration routes
+ *
+ * Adding, pausing, resuming and removing consumers require an administrator API key.
+ *
+ * @param interopService - The running InteropService
+ * @returns Express router mounted under /consumers
+ */
+export function createConsumersRouter(interopService: InteropService): IRouter {
+  const router: IRouter = Router();
+  const admin = requireAdmin(interopService);
+
+  /**
+   * @swagger
+   * /consumers:
+   *   get:
+   *     tags: [Consumers]
+   *     summary: List consumers
+   *     description: Every consumer with its configuration, state (running, paused,
+   *       suspended by backpressure or stopped) and statistics.
+   *     responses:
+   *       200:
+   *         description: Consumers
+   */
+  router.get('/', (_req: Request, res: Response) => {
+    return res.json({ consumers: interopService.listConsumers() });
+  });
+
+  /**
+   * @swagger
+   * /consumers/{name}:
+   *   get:
+   *     tags: [Consumers]
+   *     summary: Get a consumer
+   *     parameters:
+   *       - in: path
+   *         name: name
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Consumer
+   *       404:
+   *         description: Consumer not found
+   */
+  router.get('/:name', (req: Request, res: Response) => {
+    try {
+      return res.json(interopService.getConsumer(req.params['name'] ?? ''));
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /consumers:
+   *   post:
+   *     tags: [Consumers]
+   *     summary: Add a consumer
+   *     description: Asserts the consumer queue, its binding, retry queues and DLQ, then
+   *       starts consuming. Takes the same settings as an entry of the consumer topology
+   *       file, including prefetch and consumerOptions overrides. Runtime changes are not
+   *       written back to the topology file.
+   *     parameters:
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Administrator API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [name, queue, exchange, exchangeType, routingKey]
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 example: lab-consumer
+   *               queue:
+   *                 type: string
+   *                 example: interop.lab.queue
+   *               exchange:
+   *                 type: string
+   *                 example: lab.events
+   *               exchangeType:
+   *                 type: string
+   *                 enum: [topic, direct, fanout, headers]
+   *               routingKey:
+   *                 type: string
+   *                 example: lab.#
+   *               enabled:
+   *                 type: boolean
+   *                 default: true
+   *               prefetch:
+   *                 type: integer
+   *               options:
+   *                 type: object
+   *               retry:
+   *                 type: object
+   *               dlq:
+   *                 type: object
+   *               deduplication:
+   *                 type: object
+   *               consumerOptions:
+   *                 type: object
+   *     responses:
+   *       201:
+   *         description: Consumer added
+   *       400:
+   *         description: Invalid consumer configuration
+   *       401:
+   *         description: Administrator API key missing or unknown
+   *       409:
+   *         description: A consumer with the same name exists
+   */
+  router.post('/', admin, async (req: Request, res: Response) => {
+    try {
+      const consumer = await interopService.addConsumer(req.body as QueueConsumerConfig);
+      return res.status(201).json(consumer);
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /consumers/{name}/pause:
+   *   post:
+   *     tags: [Consumers]
+   *     summary: Pause a consumer
+   *     description: Stops consuming after in-flight messages settled (or were requeued at
+   *       the drain deadline). Messages stay in the queue until the consumer is resumed.
+   *     parameters:
+   *       - in: path
+   *         name: name
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Administrator API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Consumer paused
+   *       401:
+   *         description: Administrator API key missing or unknown
+   *       404:
+   *         description: Consumer not found
+   *       409:
+   *         description: Service is not running
+   */
+  router.post('/:name/pause', admin, async (req: Request, res: Response) => {
+    try {
+      return res.json(await interopService.pauseConsumer(req.params['name'] ?? ''));
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /consumers/{name}/resume:
+   *   post:
+   *     tags: [Consumers]
+   *     summary: Resume a consumer
+   *     description: Starts a paused or disabled consumer.
+   *     parameters:
+   *       - in: path
+   *         name: name
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Administrator API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Consumer resumed
+   *       401:
+   *         description: Administrator API key missing or unknown
+   *       404:
+   *         description: Consumer not found
+   *       409:
+   *         description: Service is not running
+   */
+  router.post('/:name/resume', admin, async (req: Request, res: Response) => {
+    try {
+      return res.json(await interopService.resumeConsumer(req.params['name'] ?? ''));
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /consumers/{name}:
+   *   delete:
+   *     tags: [Consumers]
+   *     summary: Remove a consumer
+   *     description: Drains and removes the consumer. Its queue and DLQ are kept.
+   *     parameters:
+   *       - in: path
+   *         name: name
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Administrator API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *     responses:
+   *       204:
+   *         description: Consumer removed
+   *       401:
+   *         description: Administrator API key missing or unknown
+   *       404:
+   *         description: Consumer not found
+   */
+  router.delete('/:name', admin, async (req: Request, res: Response) => {
+    try {
+      await interopService.removeConsumer(req.params['name'] ?? '');
+      return res.status(204).send();
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  return router;
+}
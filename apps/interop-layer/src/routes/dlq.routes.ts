@@ -0,0 +1,199 @@
+import { Router, Request, Response, IRouter } from 'express';
+import { InteropService } from '../services/interop-service';
+import { DeadLetterFilter } from '../messaging/types';
+import { requireAdmin } from './api-key';
+import { sendError } from './errors';
+
+/**
+ * Create dead letter queue administration routes
+ *
+ * Replaying and purging dead letters require an administrator API key.
+ *
+ * @param interopService - The running InteropService
+ * @returns Express router mounted under /dlq
+ */
+export function createDeadLetterRouter(interopService: InteropService): IRouter {
+  const router: IRouter = Router();
+  const admin = requireAdmin(interopService);
+
+  /**
+   * @swagger
+   * /dlq:
+   *   get:
+   *     tags: [Dead Letter Queues]
+   *     summary: Dead letter queue depths
+   *     description: Number of dead-lettered messages for every consumer with a DLQ.
+   *     responses:
+   *       200:
+   *         description: DLQ depth per consumer
+   *       409:
+   *         description: Service is not running
+   */
+  router.get('/', async (_req: Request, res: Response) => {
+    try {
+      return res.json({ queues: await interopService.getDeadLetterDepths() });
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /dlq/{consumer}/messages:
+   *   get:
+   *     tags: [Dead Letter Queues]
+   *     summary: Browse dead-lettered messages
+   *     description: Returns a page of dead-lettered CloudEvents with their failure reason,
+   *       attempt count and x-death history. Messages stay in the DLQ.
+   *     parameters:
+   *       - in: path
+   *         name: consumer
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: offset
+   *         schema:
+   *           type: integer
+   *           default: 0
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           default: 20
+   *           maximum: 100
+   *     responses:
+   *       200:
+   *         description: Page of dead-lettered messages
+   *       400:
+   *         description: Invalid offset or limit
+   *       404:
+   *         description: Consumer has no DLQ
+   *       409:
+   *         description: Service is not running
+   */
+  router.get('/:consumer/messages', async (req: Request, res: Response) => {
+    const offset = Number(req.query['offset'] ?? 0);
+    const limit = Number(req.query['limit'] ?? 20);
+
+    if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1) {
+      return res
+        .status(400)
+        .json({ error: 'offset must be a non-negative integer and limit a positive integer' });
+    }
+
+    try {
+      return res.json(
+        await interopService.listDeadLetters(req.params['consumer'] ?? '', offset, limit),
+      );
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /dlq/{consumer}/replay:
+   *   post:
+   *     tags: [Dead Letter Queues]
+   *     summary: Replay dead-lettered messages
+   *     description: Republishes the selected messages to their original exchange and
+   *       routing key with a fresh attempt count. Criteria combine with AND. A message
+   *       is removed from the DLQ only after the broker confirmed its republish.
+   *     parameters:
+   *       - in: path
+   *         name: consumer
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Administrator API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               messageIds:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *               type:
+   *                 type: string
+   *                 example: order.*
+   *               source:
+   *                 type: string
+   *               from:
+   *                 type: string
+   *                 format: date-time
+   *               to:
+   *                 type: string
+   *                 format: date-time
+   *     responses:
+   *       200:
+   *         description: Replayed and failed message IDs
+   *       400:
+   *         description: Filter is empty or malformed
+   *       401:
+   *         description: Administrator API key missing or unknown
+   *       404:
+   *         description: Consumer has no DLQ
+   *       409:
+   *         description: Service is not running
+   */
+  router.post('/:consumer/replay', admin, async (req: Request, res: Response) => {
+    const filter: DeadLetterFilter = req.body ?? {};
+
+    try {
+      return res.json(
+        await interopService.replayDeadLetters(req.params['consumer'] ?? '', filter),
+      );
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /dlq/{consumer}/purge:
+   *   post:
+   *     tags: [Dead Letter Queues]
+   *     summary: Purge a dead letter queue
+   *     description: Removes every message from the consumer DLQ and returns the removed
+   *       messages, so they can be archived before they are lost.
+   *     parameters:
+   *       - in: path
+   *         name: consumer
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Administrator API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Purged messages
+   *       401:
+   *         description: Administrator API key missing or unknown
+   *       404:
+   *         description: Consumer has no DLQ
+   *       409:
+   *         description: Service is not running
+   */
+  router.post('/:consumer/purge', admin, async (req: Request, res: Response) => {
+    try {
+      const messages = await interopService.purgeDeadLetters(req.params['consumer'] ?? '');
+      return res.json({ purged: messages.length, messages });
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,13 @@
+import { Response } from 'express';
+import { BaseError } from '@smile/common';
+
+/**
+ * Send an error response, using the status code of @smile/common errors
+ *
+ * @param res - Express response
+ * @param error - Error thrown by the InteropService
+ */
+export function sendError(res: Response, error: unknown): Response {
+  const statusCode = error instanceof BaseError ? error.statusCode : 500;
+  return res.status(statusCode).json({ error: (error as Error).message });
+}
@@ -0,0 +1,109 @@
+import express, { Router, Request, Response, IRouter } from 'express';
+import { InteropService } from '../services/interop-service';
+import { parseHttpCloudEvents } from '../ingress/cloud-event-http';
+import { getApiKey } from './api-key';
+import { sendError } from './errors';
+
+const MAX_BODY_SIZE = '1mb';
+
+/**
+ * Create CloudEvents ingress routes
+ *
+ * The body is read raw, so the router must be mounted before the JSON body parser.
+ *
+ * @param interopService - The running InteropService
+ * @returns Express router mounted under /events
+ */
+export function createEventsRouter(interopService: InteropService): IRouter {
+  const router: IRouter = Router();
+
+  /**
+   * @swagger
+   * /events:
+   *   post:
+   *     tags: [CloudEvents Ingress]
+   *     summary: Publish CloudEvents
+   *     description: CloudEvents HTTP binding for partners that cannot publish over AMQP.
+   *       Send one event in structured mode (application/cloudevents+json) or binary mode
+   *       (ce-* headers, data as the body), or several in batch mode
+   *       (application/cloudevents-batch+json). Events are validated, including their data
+   *       schema, and published to the exchange mapped from their source; nothing is
+   *       published if any event of a batch is rejected. The response is sent once the
+   *       broker confirmed every event. Retrying with the same event ids is safe, consumers
+   *       deduplicate them.
+   *     parameters:
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Client API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: X-Correlation-ID
+   *         description: Correlation ID for tracing (default from each event)
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/cloudevents+json:
+   *           schema:
+   *             type: object
+   *             required: [specversion, id, source, type]
+   *             example:
+   *               specversion: '1.0'
+   *               id: 8f3c2a1e-lab-0001
+   *               source: urn:district:lab-system
+   *               type: health.lab.result-available
+   *               datacontenttype: application/json
+   *               data:
+   *                 resultId: R-2001
+   *                 patientId: P-1001
+   *                 facilityId: FAC-001
+   *                 testCode: HB
+   *                 status: final
+   *                 resultedAt: '2025-01-15T10:30:00Z'
+   *         application/cloudevents-batch+json:
+   *           schema:
+   *             type: array
+   *             items:
+   *               type: object
+   *     responses:
+   *       202:
+   *         description: Published event id (ids for a batch)
+   *       400:
+   *         description: Not a CloudEvent, invalid event, or no exchange for its source
+   *       401:
+   *         description: API key missing or unknown
+   *       403:
+   *         description: Client may not publish events from this source
+   *       409:
+   *         description: Service is not running or the ingress is not configured
+   *       503:
+   *         description: The broker did not confirm an event (earlier events of a batch
+   *           are published)
+   */
+  router.post(
+    '/',
+    express.raw({ type: () => true, limit: MAX_BODY_SIZE }),
+    async (req: Request, res: Response) => {
+      try {
+        const client = interopService.authenticateIngressClient(getApiKey(req));
+        const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        const { mode, events } = parseHttpCloudEvents(req.headers, body);
+
+        const published = await interopService.publishIngressEvents(
+          client,
+          events,
+          req.header('x-correlation-id'),
+        );
+        const ids = published.map((event) => event.id);
+
+        return res.status(202).json(mode === 'batch' ? { ids } : { id: ids[0] });
+      } catch (error) {
+        return sendError(res, error);
+      }
+    },
+  );
+
+  return router;
+}
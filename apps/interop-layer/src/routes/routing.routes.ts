@@ -0,0 +1,269 @@
+import { Router, Request, Response, IRouter } from 'express';
+import { logger } from '@smile/common';
+import { InteropService } from '../services/interop-service';
+import { requireAdmin } from './api-key';
+import { sendError } from './errors';
+
+/**
+ * Create routing administration routes
+ *
+ * Reloading the configuration and enabling or disabling routes require an
+ * administrator API key.
+ *
+ * @param interopService - The running InteropService
+ * @returns Express router mounted under /routing
+ */
+export function createRoutingRouter(interopService: InteropService): IRouter {
+  const router: IRouter = Router();
+  const admin = requireAdmin(interopService);
+
+  /**
+   * @swagger
+   * /routing/status:
+   *   get:
+   *     tags: [Routing]
+   *     summary: Routing configuration status
+   *     description: Active routing configuration version and hot-reload status, including
+   *       errors from the last rejected reload
+   *     responses:
+   *       200:
+   *         description: Routing status
+   *       404:
+   *         description: Content-based routing is not configured
+   */
+  router.get('/status', (_req: Request, res: Response) => {
+    const status = interopService.getRoutingStatus();
+
+    if (!status) {
+      return res.status(404).json({ error: 'Content-based routing is not configured' });
+    }
+
+    return res.json(status);
+  });
+
+  /**
+   * @swagger
+   * /routing/reload:
+   *   post:
+   *     tags: [Routing]
+   *     summary: Reload routing configuration
+   *     description: Re-read and validate the routing configuration file. An invalid file
+   *       keeps the last good configuration active.
+   *     parameters:
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Administrator API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Configuration reloaded
+   *       401:
+   *         description: Administrator API key missing or unknown
+   *       422:
+   *         description: Configuration rejected (validation errors returned)
+   *       409:
+   *         description: Routing is not active
+   */
+  router.post('/reload', admin, (_req: Request, res: Response) => {
+    try {
+      const result = interopService.reloadRouting();
+
+      if (result.errors) {
+        return res.status(422).json({
+          ...result,
+          status: interopService.getRoutingStatus(),
+        });
+      }
+
+      return res.json({
+        ...result,
+        status: interopService.getRoutingStatus(),
+      });
+    } catch (error) {
+      logger.warn('Routing reload requested while routing is inactive', {
+        error: (error as Error).message,
+      });
+      return res.status(409).json({ error: (error as Error).message });
+    }
+  });
+
+  /**
+   * @swagger
+   * /routing/routes:
+   *   get:
+   *     tags: [Routing]
+   *     summary: List routes
+   *     description: Every configured route (highest priority first) with its matched,
+   *       delivered, failed and dropped counters and delivery latency
+   *     responses:
+   *       200:
+   *         description: Routes with statistics
+   *       409:
+   *         description: Routing is not active
+   */
+  router.get('/routes', (_req: Request, res: Response) => {
+    try {
+      return res.json({ routes: interopService.getRoutes() });
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /routing/routes/{name}:
+   *   get:
+   *     tags: [Routing]
+   *     summary: Get a route
+   *     parameters:
+   *       - in: path
+   *         name: name
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Route with statistics
+   *       404:
+   *         description: Route not found
+   *       409:
+   *         description: Routing is not active
+   */
+  router.get('/routes/:name', (req: Request, res: Response) => {
+    try {
+      const route = interopService.getRoutes().find((r) => r.name === req.params['name']);
+
+      if (!route) {
+        return res.status(404).json({ error: `Route '${req.params['name']}' not found` });
+      }
+
+      return res.json(route);
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /routing/routes/{name}/enable:
+   *   post:
+   *     tags: [Routing]
+   *     summary: Enable a route
+   *     description: Takes effect for the next consumed event. Lasts until the routing
+   *       configuration is next reloaded from file.
+   *     parameters:
+   *       - in: path
+   *         name: name
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Administrator API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Updated route
+   *       401:
+   *         description: Administrator API key missing or unknown
+   *       404:
+   *         description: Route not found
+   *       409:
+   *         description: Routing is not active
+   */
+  router.post('/routes/:name/enable', admin, (req: Request, res: Response) => {
+    try {
+      return res.json(interopService.setRouteEnabled(req.params['name'] ?? '', true));
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /routing/routes/{name}/disable:
+   *   post:
+   *     tags: [Routing]
+   *     summary: Disable a route
+   *     description: Takes effect for the next consumed event. Lasts until the routing
+   *       configuration is next reloaded from file.
+   *     parameters:
+   *       - in: path
+   *         name: name
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Administrator API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Updated route
+   *       401:
+   *         description: Administrator API key missing or unknown
+   *       404:
+   *         description: Route not found
+   *       409:
+   *         description: Routing is not active
+   */
+  router.post('/routes/:name/disable', admin, (req: Request, res: Response) => {
+    try {
+      return res.json(interopService.setRouteEnabled(req.params['name'] ?? '', false));
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /routing/dry-run:
+   *   post:
+   *     tags: [Routing]
+   *     summary: Explain how a CloudEvent would be routed
+   *     description: Evaluates a sample CloudEvent against the active routes without
+   *       dispatching it. Returns the selected routes and destinations, and the reason
+   *       each other route was not selected.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [type, source]
+   *             properties:
+   *               type:
+   *                 type: string
+   *                 example: order.approved
+   *               source:
+   *                 type: string
+   *                 example: urn:smile:orders-service
+   *               data:
+   *                 type: object
+   *     responses:
+   *       200:
+   *         description: Dry-run result
+   *       400:
+   *         description: Event is missing type or source
+   *       409:
+   *         description: Routing is not active
+   */
+  router.post('/dry-run', (req: Request, res: Response) => {
+    const event = req.body;
+
+    if (!event || typeof event.type !== 'string' || typeof event.source !== 'string') {
+      return res.status(400).json({ error: 'Event must include string type and source' });
+    }
+
+    try {
+      return res.json(interopService.dryRunRoute(event));
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,317 @@
+import { Router, Request, Response, IRouter } from 'express';
+import { InteropService } from '../services/interop-service';
+import { SubscriptionRequest } from '../messaging/types';
+import { getApiKey } from './api-key';
+import { sendError } from './errors';
+
+/**
+ * Create CloudEvents Subscriptions API routes
+ *
+ * Every route authenticates the caller by API key; clients only see and
+ * change their own subscriptions.
+ *
+ * @param interopService - The running InteropService
+ * @returns Express router mounted under /subscriptions
+ */
+export function createSubscriptionsRouter(interopService: InteropService): IRouter {
+  const router: IRouter = Router();
+
+  /**
+   * @swagger
+   * /subscriptions:
+   *   get:
+   *     tags: [CloudEvents Subscriptions]
+   *     summary: List subscriptions
+   *     description: Subscriptions of the calling client, with their delivery status since
+   *       the service started.
+   *     parameters:
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Client API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Subscriptions
+   *       401:
+   *         description: API key missing or unknown
+   *       409:
+   *         description: Service is not running or subscriptions are not configured
+   */
+  router.get('/', (req: Request, res: Response) => {
+    try {
+      const client = interopService.authenticateSubscriptionClient(getApiKey(req));
+      return res.json(interopService.listSubscriptions(client));
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /subscriptions:
+   *   post:
+   *     tags: [CloudEvents Subscriptions]
+   *     summary: Create a subscription
+   *     description: Processed events matching the source, types and every filter are
+   *       delivered to the sink as structured CloudEvents. Failed deliveries are retried
+   *       with exponential backoff (delivery settings). Filters use the exact, prefix,
+   *       suffix, all, any and not dialects; the client only receives the event types it
+   *       is allowed and the sink must match an allowed sink pattern.
+   *     parameters:
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Client API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [sink]
+   *             properties:
+   *               sink:
+   *                 type: string
+   *                 example: https://partner.example.org/cloudevents
+   *               source:
+   *                 type: string
+   *                 example: urn:smile:orders-service
+   *               types:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                 example: [order.created, order.approved]
+   *               filters:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                 example:
+   *                   - prefix:
+   *                       subject: FAC-001
+   *               sinkcredential:
+   *                 type: object
+   *                 properties:
+   *                   credentialtype:
+   *                     type: string
+   *                     enum: [ACCESSTOKEN]
+   *                   accesstoken:
+   *                     type: string
+   *               protocol:
+   *                 type: string
+   *                 enum: [HTTP]
+   *               protocolsettings:
+   *                 type: object
+   *                 properties:
+   *                   method:
+   *                     type: string
+   *                     enum: [POST, PUT]
+   *                   headers:
+   *                     type: object
+   *               delivery:
+   *                 type: object
+   *                 properties:
+   *                   maxAttempts:
+   *                     type: integer
+   *                     example: 5
+   *                   initialDelay:
+   *                     type: integer
+   *                     example: 1000
+   *                   maxDelay:
+   *                     type: integer
+   *                     example: 60000
+   *                   backoffMultiplier:
+   *                     type: number
+   *                     example: 2
+   *                   timeout:
+   *                     type: integer
+   *                     example: 5000
+   *     responses:
+   *       201:
+   *         description: Subscription created (Location is its URL)
+   *       400:
+   *         description: Invalid subscription
+   *       401:
+   *         description: API key missing or unknown
+   *       409:
+   *         description: Service is not running, subscriptions are not configured, or the
+   *           client holds its maximum number of subscriptions
+   */
+  router.post('/', async (req: Request, res: Response) => {
+    try {
+      const client = interopService.authenticateSubscriptionClient(getApiKey(req));
+      const subscription = await interopService.createSubscription(
+        client,
+        req.body as SubscriptionRequest,
+      );
+
+      return res
+        .status(201)
+        .location(`${req.baseUrl}/${subscription.id}`)
+        .json(subscription);
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /subscriptions/{id}:
+   *   get:
+   *     tags: [CloudEvents Subscriptions]
+   *     summary: Get a subscription
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Client API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Subscription with its delivery status
+   *       401:
+   *         description: API key missing or unknown
+   *       404:
+   *         description: The client has no subscription with this id
+   */
+  router.get('/:id', (req: Request, res: Response) => {
+    try {
+      const client = interopService.authenticateSubscriptionClient(getApiKey(req));
+      return res.json(interopService.getSubscription(client, req.params['id'] ?? ''));
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /subscriptions/{id}:
+   *   put:
+   *     tags: [CloudEvents Subscriptions]
+   *     summary: Replace a subscription
+   *     description: Takes the same settings as creating a subscription. Pending retries
+   *       are delivered with the new settings.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Client API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [sink]
+   *     responses:
+   *       200:
+   *         description: Subscription updated
+   *       400:
+   *         description: Invalid subscription
+   *       401:
+   *         description: API key missing or unknown
+   *       404:
+   *         description: The client has no subscription with this id
+   */
+  router.put('/:id', async (req: Request, res: Response) => {
+    try {
+      const client = interopService.authenticateSubscriptionClient(getApiKey(req));
+      return res.json(
+        await interopService.updateSubscription(
+          client,
+          req.params['id'] ?? '',
+          req.body as SubscriptionRequest,
+        ),
+      );
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /subscriptions/{id}:
+   *   delete:
+   *     tags: [CloudEvents Subscriptions]
+   *     summary: Delete a subscription
+   *     description: No more events are delivered to the sink, including pending retries.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Client API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *     responses:
+   *       204:
+   *         description: Subscription deleted
+   *       401:
+   *         description: API key missing or unknown
+   *       404:
+   *         description: The client has no subscription with this id
+   */
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const client = interopService.authenticateSubscriptionClient(getApiKey(req));
+      await interopService.deleteSubscription(client, req.params['id'] ?? '');
+      return res.status(204).send();
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  /**
+   * @swagger
+   * /subscriptions/{id}/test:
+   *   post:
+   *     tags: [CloudEvents Subscriptions]
+   *     summary: Send a test event to the sink
+   *     description: Delivers an interop.subscription.test event to the sink once, without
+   *       retries, and reports whether the sink accepted it. Use it to check a sink while
+   *       onboarding.
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: header
+   *         name: X-API-Key
+   *         description: Client API key (or Authorization Bearer)
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Test result (success is false if the sink rejected the event)
+   *       401:
+   *         description: API key missing or unknown
+   *       404:
+   *         description: The client has no subscription with this id
+   */
+  router.post('/:id/test', async (req: Request, res: Response) => {
+    try {
+      const client = interopService.authenticateSubscriptionClient(getApiKey(req));
+      return res.json(await interopService.testSubscription(client, req.params['id'] ?? ''));
+    } catch (error) {
+      return sendError(res, error);
+    }
+  });
+
+  return router;
+}
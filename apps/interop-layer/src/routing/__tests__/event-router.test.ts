@@ -0,0 +1,308 @@
+/**
+ * EventRouter Unit Tests
+ *
+ * Tests matching, dispatch and fallback behavior of the routing pipeline
+ */
+
+import { EventRouter, DEFAULT_FALLBACK_QUEUE } from '../event-router';
+import { RouteMatchEngine } from '../route-match-engine';
+import { RoutingConfigLoader } from '../routing-config-loader';
+import { RouteDispatcher } from '../route-dispatcher';
+import { RoutingConfig, RoutingSettings } from '../../messaging/types';
+
+describe('EventRouter', () => {
+  let loader: RoutingConfigLoader;
+  let dispatcher: jest.Mocked<RouteDispatcher>;
+  let router: EventRouter;
+
+  const buildConfig = (fallbackBehavior: RoutingSettings['fallbackBehavior']): RoutingConfig => ({
+    metadata: {
+      version: '1.0.0',
+      lastUpdated: '2025-10-20T00:00:00Z',
+      description: 'Test routing configuration',
+    },
+    settings: {
+      fallbackBehavior,
+      validateOnLoad: true,
+      dynamicReload: false,
+      reloadInterval: 30000,
+      enableMetrics: true,
+    },
+    routes: [
+      {
+        name: 'orders-to-openhim',
+        enabled: true,
+        source: 'urn:smile:orders-service',
+        type: 'order.*',
+        strategy: 'source',
+        priority: 5,
+        destination: { type: 'openhim', endpoint: 'https://openhim-core:5000/transform' },
+      },
+      {
+        name: 'disabled-route',
+        enabled: false,
+        source: '*',
+        type: '*',
+        strategy: 'default',
+        priority: 0,
+        destination: { type: 'queue', queue: 'disabled' },
+      },
+    ],
+  });
+
+  const orderEvent = {
+    specversion: '1.0',
+    type: 'order.approved',
+    source: 'urn:smile:orders-service',
+    id: 'order-event-1',
+  };
+
+  const labEvent = {
+    specversion: '1.0',
+    type: 'lab.result.available',
+    source: 'urn:smile:lab-system',
+    id: 'lab-event-1',
+  };
+
+  beforeEach(() => {
+    loader = new RoutingConfigLoader();
+    loader.setConfig(buildConfig('route-to-fallback-queue'));
+
+    dispatcher = {
+      dispatch: jest.fn().mockImplementation(async (route) => [
+        {
+          success: true,
+          route,
+          destination: route.destination,
+          latencyMs: 1,
+        },
+      ]),
+    } as any;
+
+    router = new EventRouter(loader, new RouteMatchEngine(), dispatcher);
+  });
+
+  describe('route()', () => {
+    it('should dispatch to the matched route', async () => {
+      const [result] = await router.route(orderEvent, 'corr-1');
+
+      expect(dispatcher.dispatch).toHaveBeenCalledTimes(1);
+      expect(dispatcher.dispatch.mock.calls[0]?.[0].name).toBe('orders-to-openhim');
+      expect(dispatcher.dispatch.mock.calls[0]?.[1]).toBe(orderEvent);
+      expect(dispatcher.dispatch.mock.calls[0]?.[2]).toBe('corr-1');
+      expect(result?.success).toBe(true);
+      expect(result?.destination.type).toBe('openhim');
+    });
+
+    it('should use only the highest-priority route in first-match mode', async () => {
+      const config = buildConfig('drop');
+      config.routes.push({
+        name: 'orders-audit',
+        enabled: true,
+        source: '*',
+        type: 'order.approved',
+        strategy: 'type',
+        priority: 3,
+        destination: { type: 'topic', exchange: 'audit.events' },
+      });
+      loader.setConfig(config);
+
+      const results = await router.route(orderEvent, 'corr-8');
+
+      expect(results).toHaveLength(1);
+      expect(dispatcher.dispatch.mock.calls[0]?.[0].name).toBe('orders-to-openhim');
+    });
+
+    it('should fan out to every matching route in all-matches mode', async () => {
+      const config = buildConfig('drop');
+      config.settings.routingMode = 'all-matches';
+      config.routes.push({
+        name: 'orders-audit',
+        enabled: true,
+        source: '*',
+        type: 'order.approved',
+        strategy: 'type',
+        priority: 3,
+        destination: { type: 'topic', exchange: 'audit.events' },
+      });
+      loader.setConfig(config);
+
+      const results = await router.route(orderEvent, 'corr-9');
+
+      expect(results).toHaveLength(2);
+      expect(dispatcher.dispatch.mock.calls.map((call) => call[0].name)).toEqual([
+        'orders-to-openhim',
+        'orders-audit',
+      ]);
+    });
+
+    it('should ignore disabled routes', async () => {
+      loader.setConfig(buildConfig('drop'));
+
+      const results = await router.route(labEvent, 'corr-2');
+
+      expect(results).toEqual([]);
+      expect(dispatcher.dispatch).not.toHaveBeenCalled();
+    });
+
+    it('should route unmatched events to the fallback queue', async () => {
+      const [result] = await router.route(labEvent, 'corr-3');
+
+      expect(dispatcher.dispatch).toHaveBeenCalledTimes(1);
+      const fallbackRoute = dispatcher.dispatch.mock.calls[0]?.[0];
+      expect(fallbackRoute?.strategy).toBe('fallback');
+      expect(fallbackRoute?.destination).toEqual({
+        type: 'queue',
+        queue: DEFAULT_FALLBACK_QUEUE,
+      });
+      expect(result?.success).toBe(true);
+    });
+
+    it('should use a custom fallback queue', async () => {
+      router = new EventRouter(loader, new RouteMatchEngine(), dispatcher, 'custom.fallback');
+
+      await router.route(labEvent, 'corr-4');
+
+      expect(dispatcher.dispatch.mock.calls[0]?.[0].destination?.queue).toBe('custom.fallback');
+    });
+
+    it('should drop unmatched events when fallbackBehavior is drop', async () => {
+      loader.setConfig(buildConfig('drop'));
+
+      const results = await router.route(labEvent, 'corr-5');
+
+      expect(results).toEqual([]);
+      expect(dispatcher.dispatch).not.toHaveBeenCalled();
+    });
+
+    it('should throw for unmatched events when fallbackBehavior is error', async () => {
+      loader.setConfig(buildConfig('error'));
+
+      await expect(router.route(labEvent, 'corr-6')).rejects.toThrow(
+        "No enabled route matches event type 'lab.result.available'",
+      );
+      expect(dispatcher.dispatch).not.toHaveBeenCalled();
+    });
+
+    it('should return failed routing results from the dispatcher', async () => {
+      dispatcher.dispatch.mockImplementation(async (route) => [
+        {
+          success: false,
+          route,
+          destination: route.destination!,
+          error: new Error('OpenHIM unavailable'),
+          latencyMs: 5,
+        },
+      ]);
+
+      const [result] = await router.route(orderEvent, 'corr-7');
+
+      expect(result?.success).toBe(false);
+      expect(result?.error?.message).toBe('OpenHIM unavailable');
+    });
+  });
+
+  describe('metrics', () => {
+    it('should record matches, deliveries and latency per route', async () => {
+      await router.route(orderEvent, 'corr-10');
+      await router.route(orderEvent, 'corr-11');
+
+      const stats = router.getMetrics().getRouteStats('orders-to-openhim');
+      expect(stats.matched).toBe(2);
+      expect(stats.delivered).toBe(2);
+      expect(stats.failed).toBe(0);
+      expect(stats.latency).toEqual({ count: 2, avgMs: 1, minMs: 1, maxMs: 1 });
+    });
+
+    it('should record failed deliveries with the last error', async () => {
+      dispatcher.dispatch.mockImplementation(async (route) => [
+        {
+          success: false,
+          route,
+          destination: route.destination!,
+          error: new Error('OpenHIM unavailable'),
+          latencyMs: 5,
+        },
+      ]);
+
+      await router.route(orderEvent, 'corr-12');
+
+      const stats = router.getMetrics().getRouteStats('orders-to-openhim');
+      expect(stats.failed).toBe(1);
+      expect(stats.lastError).toBe('OpenHIM unavailable');
+    });
+
+    it('should record dropped events against the fallback route', async () => {
+      loader.setConfig(buildConfig('drop'));
+
+      await router.route(labEvent, 'corr-13');
+
+      expect(router.getMetrics().getRouteStats('fallback').dropped).toBe(1);
+    });
+
+    it('should not record metrics when enableMetrics is false', async () => {
+      const config = buildConfig('route-to-fallback-queue');
+      config.settings.enableMetrics = false;
+      loader.setConfig(config);
+
+      await router.route(orderEvent, 'corr-14');
+
+      expect(router.getMetrics().getStats()).toEqual([]);
+    });
+  });
+
+  describe('dryRun()', () => {
+    it('should explain the selected route and every non-match', () => {
+      const result = router.dryRun(orderEvent);
+
+      expect(result.matched).toBe(true);
+      expect(result.selectedRoutes).toEqual(['orders-to-openhim']);
+      expect(result.destinations).toEqual([
+        { type: 'openhim', endpoint: 'https://openhim-core:5000/transform' },
+      ]);
+      expect(result.evaluations).toEqual([
+        { route: 'orders-to-openhim', priority: 5, matched: true, selected: true },
+        {
+          route: 'disabled-route',
+          priority: 0,
+          matched: false,
+          selected: false,
+          reason: 'Route is disabled',
+        },
+      ]);
+      expect(dispatcher.dispatch).not.toHaveBeenCalled();
+    });
+
+    it('should report routes shadowed by a higher-priority match', () => {
+      const config = buildConfig('drop');
+      config.routes.push({
+        name: 'orders-audit',
+        enabled: true,
+        source: '*',
+        type: 'order.*',
+        strategy: 'type',
+        priority: 3,
+        destination: { type: 'topic', exchange: 'audit.events' },
+      });
+      loader.setConfig(config);
+
+      const audit = router.dryRun(orderEvent).evaluations.find((e) => e.route === 'orders-audit');
+
+      expect(audit?.matched).toBe(true);
+      expect(audit?.selected).toBe(false);
+      expect(audit?.reason).toBe("Shadowed by higher-priority route 'orders-to-openhim'");
+    });
+
+    it('should report the fallback destination when nothing matches', () => {
+      const result = router.dryRun(labEvent);
+
+      expect(result.matched).toBe(false);
+      expect(result.fallbackBehavior).toBe('route-to-fallback-queue');
+      expect(result.selectedRoutes).toEqual(['fallback']);
+      expect(result.destinations).toEqual([{ type: 'queue', queue: DEFAULT_FALLBACK_QUEUE }]);
+      expect(result.evaluations[0]?.reason).toBe(
+        "Source 'urn:smile:lab-system' does not match pattern 'urn:smile:orders-service'",
+      );
+    });
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * RouteDispatcher Unit Tests
+ *
+ * Tests delivery to every destination type
+ */
+
+import axios from 'axios';
+import { RouteDispatcher } from '../route-dispatcher';
+import { RouteDefinition, RouteDestination } from '../../messaging/types';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('RouteDispatcher', () => {
+  let dispatcher: RouteDispatcher;
+  let mockChannel: any;
+  let mockConnectionManager: any;
+  let mockBridge: any;
+
+  const event = {
+    specversion: '1.0',
+    type: 'order.approved',
+    source: 'urn:smile:orders-service',
+    id: 'event-123',
+    data: { orderId: 'ORD-1' },
+  };
+
+  const buildRoute = (destination: RouteDestination): RouteDefinition => ({
+    name: 'test-route',
+    enabled: true,
+    source: '*',
+    type: 'order.*',
+    strategy: 'type',
+    priority: 5,
+    destination,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockChannel = {
+      assertQueue: jest.fn().mockResolvedValue({}),
+      assertExchange: jest.fn().mockResolvedValue({}),
+      bindQueue: jest.fn().mockResolvedValue({}),
+      sendToQueue: jest.fn((_queue, _content, _options, cb) => cb(null)),
+      publish: jest.fn((_exchange, _key, _content, _options, cb) => cb(null)),
+      on: jest.fn(),
+    };
+
+    mockConnectionManager = {
+      getConfirmChannel: jest.fn().mockResolvedValue(mockChannel),
+    };
+
+    mockBridge = {
+      sendToOpenHIM: jest.fn().mockResolvedValue({ success: true, statusCode: 200 }),
+    };
+
+    dispatcher = new RouteDispatcher(mockConnectionManager, mockBridge);
+  });
+
+  describe('http destination', () => {
+    it('should send the event with configured method and headers', async () => {
+      mockedAxios.request.mockResolvedValue({ status: 201, data: { ok: true } });
+
+      const [result] = await dispatcher.dispatch(
+        buildRoute({
+          type: 'http',
+          endpoint: 'http://fhir-client:3010/orders',
+          method: 'PUT',
+          headers: { 'X-Client': 'fhir' },
+          timeout: 5000,
+        }),
+        event,
+        'corr-1',
+      );
+
+      expect(result?.success).toBe(true);
+      expect(result?.response).toEqual({ statusCode: 201, data: { ok: true } });
+      expect(result?.latencyMs).toBeGreaterThanOrEqual(0);
+      expect(mockedAxios.request).toHaveBeenCalledWith({
+        url: 'http://fhir-client:3010/orders',
+        method: 'PUT',
+        data: event,
+        headers: {
+          'Content-Type': 'application/cloudevents+json',
+          'X-Correlation-ID': 'corr-1',
+          'X-Client': 'fhir',
+        },
+        timeout: 5000,
+      });
+    });
+
+    it('should report HTTP error responses as failures', async () => {
+      mockedAxios.request.mockRejectedValue({
+        response: { status: 503, statusText: 'Service Unavailable' },
+      });
+
+      const [result] = await dispatcher.dispatch(
+        buildRoute({ type: 'http', endpoint: 'http://fhir-client:3010/orders' }),
+        event,
+        'corr-2',
+      );
+
+      expect(result?.success).toBe(false);
+      expect(result?.error?.message).toBe('HTTP 503: Service Unavailable');
+    });
+  });
+
+  describe('webhook destination', () => {
+    it('should always POST to the webhook endpoint', async () => {
+      mockedAxios.request.mockResolvedValue({ status: 200, data: {} });
+
+      await dispatcher.dispatch(
+        buildRoute({ type: 'webhook', endpoint: 'http://billing:3203/webhook', method: 'GET' }),
+        event,
+        'corr-3',
+      );
+
+      expect(mockedAxios.request).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'POST', url: 'http://billing:3203/webhook' }),
+      );
+    });
+  });
+
+  describe('openhim destination', () => {
+    it('should send through the bridge with the route endpoint', async () => {
+      const [result] = await dispatcher.dispatch(
+        buildRoute({ type: 'openhim', endpoint: 'https://openhim-core:5000/transform' }),
+        event,
+        'corr-4',
+      );
+
+      expect(result?.success).toBe(true);
+      expect(mockBridge.sendToOpenHIM).toHaveBeenCalledWith(
+        event,
+        'corr-4',
+        'https://openhim-core:5000/transform',
+      );
+    });
+
+    it('should report bridge failures', async () => {
+      mockBridge.sendToOpenHIM.mockResolvedValue({
+        success: false,
+        error: 'HTTP 502: Bad Gateway',
+      });
+
+      const [result] = await dispatcher.dispatch(buildRoute({ type: 'openhim' }), event, 'corr-5');
+
+      expect(result?.success).toBe(false);
+      expect(result?.error?.message).toBe('HTTP 502: Bad Gateway');
+    });
+  });
+
+  describe('queue destination', () => {
+    it('should publish the event to the queue', async () => {
+      const [result] = await dispatcher.dispatch(
+        buildRoute({ type: 'queue', queue: 'warehouse.orders' }),
+        event,
+        'corr-6',
+      );
+
+      expect(result?.success).toBe(true);
+      expect(mockChannel.assertQueue).toHaveBeenCalledWith('warehouse.orders', { durable: true });
+
+      const [queue, content, options] = mockChannel.sendToQueue.mock.calls[0];
+      expect(queue).toBe('warehouse.orders');
+      expect(JSON.parse(content.toString())).toEqual(event);
+      expect(options).toMatchObject({
+        persistent: true,
+        messageId: 'event-123',
+        correlationId: 'corr-6',
+      });
+    });
+
+    it('should reuse the confirm channel', async () => {
+      const route = buildRoute({ type: 'queue', queue: 'warehouse.orders' });
+
+      await dispatcher.dispatch(route, event, 'corr-7');
+      await dispatcher.dispatch(route, event, 'corr-8');
+
+      expect(mockConnectionManager.getConfirmChannel).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report broker nacks as failures', async () => {
+      mockChannel.sendToQueue.mockImplementation(
+        (_queue: string, _content: Buffer, _options: any, cb: (err: any) => void) =>
+          cb(new Error('Message nacked')),
+      );
+
+      const [result] = await dispatcher.dispatch(
+        buildRoute({ type: 'queue', queue: 'warehouse.orders' }),
+        event,
+        'corr-9',
+      );
+
+      expect(result?.success).toBe(false);
+      expect(result?.error?.message).toBe('Message nacked');
+    });
+  });
+
+  describe('multiple destinations', () => {
+    it('should deliver to every destination of a route', async () => {
+      mockedAxios.request.mockResolvedValue({ status: 200, data: {} });
+
+      const results = await dispatcher.dispatch(
+        {
+          ...buildRoute({ type: 'openhim' }),
+          destinations: [
+            { type: 'queue', queue: 'warehouse.orders' },
+            { type: 'topic', exchange: 'audit.events' },
+          ],
+        },
+        event,
+        'corr-13',
+      );
+
+      expect(results).toHaveLength(3);
+      expect(results.map((r) => r.destination.type)).toEqual(['openhim', 'queue', 'topic']);
+      expect(results.every((r) => r.success)).toBe(true);
+      expect(mockBridge.sendToOpenHIM).toHaveBeenCalledTimes(1);
+      expect(mockChannel.sendToQueue).toHaveBeenCalledTimes(1);
+      expect(mockChannel.publish).toHaveBeenCalledTimes(1);
+      // Concurrent AMQP deliveries share one confirm channel
+      expect(mockConnectionManager.getConfirmChannel).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not let one failing destination block the others', async () => {
+      mockBridge.sendToOpenHIM.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      const results = await dispatcher.dispatch(
+        {
+          ...buildRoute({ type: 'openhim' }),
+          destinations: [{ type: 'queue', queue: 'warehouse.orders' }],
+        },
+        event,
+        'corr-14',
+      );
+
+      expect(results[0]?.success).toBe(false);
+      expect(results[0]?.error?.message).toBe('ECONNREFUSED');
+      expect(results[1]?.success).toBe(true);
+    });
+
+    it('should skip destinations that already accepted the event', async () => {
+      const route = {
+        ...buildRoute({ type: 'openhim' }),
+        destinations: [{ type: 'queue' as const, queue: 'warehouse.orders' }],
+      };
+
+      const results = await dispatcher.dispatch(
+        route,
+        event,
+        'corr-15',
+        new Set([RouteDispatcher.getDestinationKey(route, { type: 'openhim' })]),
+      );
+
+      expect(results.map((r) => r.destination.type)).toEqual(['queue']);
+      expect(mockBridge.sendToOpenHIM).not.toHaveBeenCalled();
+      expect(RouteDispatcher.getDestinationKey(route, route.destinations[0]!)).toBe(
+        'test-route|queue|warehouse.orders',
+      );
+    });
+
+    it('should support routes with only a destinations list', () => {
+      const { destination, ...route } = buildRoute({ type: 'openhim' });
+
+      expect(destination).toBeDefined();
+      expect(
+        RouteDispatcher.getDestinations({
+          ...route,
+          destinations: [{ type: 'queue', queue: 'a' }, { type: 'queue', queue: 'b' }],
+        }).map((d) => d.queue),
+      ).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('topic destination', () => {
+    it('should publish to the exchange using the event type as routing key', async () => {
+      await dispatcher.dispatch(
+        buildRoute({ type: 'topic', exchange: 'audit.events' }),
+        event,
+        'corr-10',
+      );
+
+      expect(mockChannel.assertExchange).toHaveBeenCalledWith('audit.events', 'topic', {
+        durable: true,
+      });
+      expect(mockChannel.publish.mock.calls[0][0]).toBe('audit.events');
+      expect(mockChannel.publish.mock.calls[0][1]).toBe('order.approved');
+      expect(mockChannel.bindQueue).not.toHaveBeenCalled();
+    });
+
+    it('should bind the named queue with the configured routing key', async () => {
+      await dispatcher.dispatch(
+        buildRoute({
+          type: 'topic',
+          exchange: 'audit.events',
+          queue: 'audit.orders',
+          routingKey: 'audit.order',
+        }),
+        event,
+        'corr-11',
+      );
+
+      expect(mockChannel.bindQueue).toHaveBeenCalledWith(
+        'audit.orders',
+        'audit.events',
+        'audit.order',
+      );
+      expect(mockChannel.publish.mock.calls[0][1]).toBe('audit.order');
+    });
+
+    it('should fail when exchange is missing', async () => {
+      const [result] = await dispatcher.dispatch(buildRoute({ type: 'topic' }), event, 'corr-12');
+
+      expect(result?.success).toBe(false);
+      expect(result?.error?.message).toBe('Topic destination requires exchange');
+    });
+  });
+});
@@ -248,6 +248,280 @@ describe('RouteMatchEngine', () => {
     });
   });
 
+  describe('evaluateCondition() operators', () => {
+    const event = {
+      type: 'order.created',
+      source: 'urn:smile:orders-service',
+      data: {
+        eventData: {
+          orderNumber: 'ORD-2025-0042',
+          priority: 'urgent',
+          facilityId: 'FAC-001',
+          totalAmount: 250,
+          notes: null,
+          items: [
+            { category: 'MEDICINE', quantity: 4, lots: ['L-1', 'L-2'] },
+            { category: 'EQUIPMENT', quantity: 1, lots: [] },
+          ],
+        },
+      },
+    };
+
+    it('should evaluate in / notIn', () => {
+      expect(
+        engine.evaluateCondition(event, {
+          field: 'data.eventData.priority',
+          operator: 'in',
+          value: ['urgent', 'high'],
+        }),
+      ).toBe(true);
+      expect(
+        engine.evaluateCondition(event, {
+          field: 'data.eventData.priority',
+          operator: 'notIn',
+          value: ['urgent', 'high'],
+        }),
+      ).toBe(false);
+    });
+
+    it('should evaluate exists for present, null and absent fields', () => {
+      expect(
+        engine.evaluateCondition(event, { field: 'data.eventData.facilityId', operator: 'exists' }),
+      ).toBe(true);
+      expect(
+        engine.evaluateCondition(event, { field: 'data.eventData.notes', operator: 'exists' }),
+      ).toBe(false);
+      expect(
+        engine.evaluateCondition(event, {
+          field: 'data.eventData.approvedBy',
+          operator: 'exists',
+          value: false,
+        }),
+      ).toBe(true);
+    });
+
+    it('should evaluate between inclusively', () => {
+      expect(
+        engine.evaluateCondition(event, {
+          field: 'data.eventData.totalAmount',
+          operator: 'between',
+          value: [100, 250],
+        }),
+      ).toBe(true);
+      expect(
+        engine.evaluateCondition(event, {
+          field: 'data.eventData.totalAmount',
+          operator: 'between',
+          value: [0, 249],
+        }),
+      ).toBe(false);
+    });
+
+    it('should evaluate startsWith / endsWith', () => {
+      expect(
+        engine.evaluateCondition(event, {
+          field: 'data.eventData.orderNumber',
+          operator: 'startsWith',
+          value: 'ORD-2025',
+        }),
+      ).toBe(true);
+      expect(
+        engine.evaluateCondition(event, {
+          field: 'data.eventData.orderNumber',
+          operator: 'endsWith',
+          value: '0043',
+        }),
+      ).toBe(false);
+    });
+
+    it('should select array elements by index', () => {
+      expect(
+        engine.evaluateCondition(event, {
+          field: 'data.eventData.items[1].category',
+          operator: 'equals',
+          value: 'EQUIPMENT',
+        }),
+      ).toBe(true);
+    });
+
+    it('should match when any element selected by [*] matches', () => {
+      expect(
+        engine.evaluateCondition(event, {
+          field: 'data.eventData.items[*].category',
+          operator: 'equals',
+          value: 'MEDICINE',
+        }),
+      ).toBe(true);
+      expect(
+        engine.evaluateCondition(event, {
+          field: 'data.eventData.items[*].category',
+          operator: 'equals',
+          value: 'VACCINE',
+        }),
+      ).toBe(false);
+    });
+
+    it('should flatten nested wildcards', () => {
+      expect(
+        engine.evaluateCondition(event, {
+          field: 'data.eventData.items[*].lots[*]',
+          operator: 'in',
+          value: ['L-2'],
+        }),
+      ).toBe(true);
+    });
+
+    it('should not match on a malformed path', () => {
+      expect(
+        engine.evaluateCondition(event, {
+          field: 'data.eventData.items[x]',
+          operator: 'exists',
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe('evaluateCondition() composition', () => {
+    const urgentMedicineFromFacility = {
+      all: [
+        { field: 'data.eventData.priority', operator: 'equals', value: 'urgent' },
+        { field: 'data.eventData.facilityId', operator: 'equals', value: 'FAC-001' },
+        { field: 'data.eventData.items[*].category', operator: 'equals', value: 'MEDICINE' },
+      ],
+    } as const;
+
+    const buildEvent = (priority: string, facilityId: string, categories: string[]): any => ({
+      type: 'order.created',
+      source: 'urn:smile:orders-service',
+      data: {
+        eventData: {
+          priority,
+          facilityId,
+          items: categories.map((category) => ({ category })),
+        },
+      },
+    });
+
+    it('should require every condition in all', () => {
+      expect(
+        engine.evaluateCondition(
+          buildEvent('urgent', 'FAC-001', ['EQUIPMENT', 'MEDICINE']),
+          urgentMedicineFromFacility as any,
+        ),
+      ).toBe(true);
+      expect(
+        engine.evaluateCondition(
+          buildEvent('urgent', 'FAC-002', ['MEDICINE']),
+          urgentMedicineFromFacility as any,
+        ),
+      ).toBe(false);
+    });
+
+    it('should require at least one condition in any', () => {
+      const condition = {
+        any: [
+          { field: 'data.eventData.priority', operator: 'equals', value: 'urgent' },
+          { field: 'data.eventData.facilityId', operator: 'startsWith', value: 'FAC-9' },
+        ],
+      } as any;
+
+      expect(engine.evaluateCondition(buildEvent('normal', 'FAC-901', []), condition)).toBe(true);
+      expect(engine.evaluateCondition(buildEvent('normal', 'FAC-001', []), condition)).toBe(false);
+    });
+
+    it('should negate with not', () => {
+      const condition = {
+        not: { field: 'data.eventData.items[*].category', operator: 'equals', value: 'MEDICINE' },
+      } as any;
+
+      const equipmentOnly = buildEvent('normal', 'FAC-001', ['EQUIPMENT']);
+      const medicine = buildEvent('normal', 'FAC-001', ['MEDICINE']);
+
+      expect(engine.evaluateCondition(equipmentOnly, condition)).toBe(true);
+      expect(engine.evaluateCondition(medicine, condition)).toBe(false);
+    });
+  });
+
+  describe('explainRoute()', () => {
+    const event = {
+      type: 'order.created',
+      source: 'urn:smile:orders-service',
+      data: { eventData: { priority: 'normal', items: [{ category: 'EQUIPMENT' }] } },
+    };
+
+    const route: RouteDefinition = {
+      name: 'urgent-medicine',
+      enabled: true,
+      source: 'urn:smile:orders-service',
+      type: 'order.*',
+      strategy: 'content',
+      priority: 8,
+      condition: {
+        all: [
+          { field: 'data.eventData.items[*].category', operator: 'equals', value: 'EQUIPMENT' },
+          { field: 'data.eventData.priority', operator: 'in', value: ['urgent', 'high'] },
+        ],
+      },
+      destination: { type: 'queue', queue: 'urgent.medicine' },
+    };
+
+    it('should report a matching route without a reason', () => {
+      const result = engine.explainRoute(event, { ...route, condition: undefined as any });
+
+      expect(result).toEqual({ matched: true, route: expect.any(Object) });
+    });
+
+    it('should report disabled routes', () => {
+      expect(engine.explainRoute(event, { ...route, enabled: false }).reason).toBe(
+        'Route is disabled',
+      );
+    });
+
+    it('should report a type mismatch', () => {
+      expect(engine.explainRoute(event, { ...route, type: 'health.*' }).reason).toBe(
+        "Type 'order.created' does not match pattern 'health.*'",
+      );
+    });
+
+    it('should report the failing field condition with its actual value', () => {
+      expect(engine.explainRoute(event, route).reason).toBe(
+        'Condition not met: data.eventData.priority in ["urgent","high"] (actual: "normal")',
+      );
+    });
+
+    it('should report a matched negation', () => {
+      const result = engine.explainRoute(event, {
+        ...route,
+        condition: {
+          not: { field: 'data.eventData.items[*].category', operator: 'equals', value: 'EQUIPMENT' },
+        },
+      });
+
+      expect(result.reason).toBe(
+        'Condition not met: not (data.eventData.items[*].category equals "EQUIPMENT")',
+      );
+    });
+  });
+
+  describe('parseFieldPath()', () => {
+    it('should parse keys, indexes and wildcards', () => {
+      expect(RouteMatchEngine.parseFieldPath('data.items[*].lots[0]')).toEqual([
+        { kind: 'key', key: 'data' },
+        { kind: 'key', key: 'items' },
+        { kind: 'wildcard' },
+        { kind: 'key', key: 'lots' },
+        { kind: 'index', index: 0 },
+      ]);
+    });
+
+    it.each(['', 'data..items', '[0].data', 'data.items[', 'data.items[-1]'])(
+      'should reject malformed path %p',
+      (path) => {
+        expect(() => RouteMatchEngine.parseFieldPath(path)).toThrow('Invalid field path');
+      },
+    );
+  });
+
   describe('findMatchingRoute()', () => {
     const routes: RouteDefinition[] = [
       {
@@ -417,6 +691,67 @@ describe('RouteMatchEngine', () => {
     });
   });
 
+  describe('findMatchingRoutes()', () => {
+    const routes: RouteDefinition[] = [
+      {
+        name: 'audit-all-orders',
+        enabled: true,
+        source: '*',
+        type: 'order.*',
+        strategy: 'type',
+        priority: 2,
+        destination: { type: 'topic', exchange: 'audit.events' },
+      },
+      {
+        name: 'approved-to-warehouse',
+        enabled: true,
+        source: 'urn:smile:orders-service',
+        type: 'order.approved',
+        strategy: 'hybrid',
+        priority: 8,
+        destination: { type: 'queue', queue: 'warehouse.orders' },
+      },
+      {
+        name: 'disabled-orders',
+        enabled: false,
+        source: '*',
+        type: 'order.*',
+        strategy: 'type',
+        priority: 10,
+        destination: { type: 'queue', queue: 'disabled' },
+      },
+      {
+        name: 'patients',
+        enabled: true,
+        source: '*',
+        type: 'health.patient.*',
+        strategy: 'type',
+        priority: 5,
+        destination: { type: 'openhim' },
+      },
+    ];
+
+    it('should return every enabled matching route by priority', () => {
+      const event = {
+        type: 'order.approved',
+        source: 'urn:smile:orders-service',
+      };
+
+      const matched = engine.findMatchingRoutes(event, routes);
+
+      expect(matched.map((route) => route.name)).toEqual([
+        'approved-to-warehouse',
+        'audit-all-orders',
+      ]);
+    });
+
+    it('should return an empty array when nothing matches', () => {
+      const event = { type: 'lab.result.available', source: 'urn:smile:lab-system' };
+
+      expect(engine.findMatchingRoutes(event, routes)).toEqual([]);
+    });
+  });
+
   describe('sortRoutesByPriority()', () => {
     it('should sort routes by priority descending', () => {
       const routes: RouteDefinition[] = [
@@ -0,0 +1,82 @@
+/**
+ * RouteMetrics Unit Tests
+ *
+ * Tests per-route counters and latency aggregation
+ */
+
+import { RouteMetrics } from '../route-metrics';
+import { RouteDefinition, RoutingResult } from '../../messaging/types';
+
+describe('RouteMetrics', () => {
+  let metrics: RouteMetrics;
+
+  const route: RouteDefinition = {
+    name: 'orders',
+    enabled: true,
+    source: '*',
+    type: 'order.*',
+    strategy: 'type',
+    priority: 5,
+    destination: { type: 'openhim' },
+  };
+
+  const buildResult = (success: boolean, latencyMs: number, error?: string): RoutingResult => ({
+    success,
+    route,
+    destination: { type: 'openhim' },
+    latencyMs,
+    ...(error ? { error: new Error(error) } : {}),
+  });
+
+  beforeEach(() => {
+    metrics = new RouteMetrics();
+  });
+
+  it('should return zeroed stats for a route without activity', () => {
+    expect(metrics.getRouteStats('unused')).toEqual({
+      routeName: 'unused',
+      matched: 0,
+      delivered: 0,
+      failed: 0,
+      dropped: 0,
+      latency: { count: 0, avgMs: 0, minMs: 0, maxMs: 0 },
+    });
+  });
+
+  it('should count matches, deliveries, failures and drops', () => {
+    metrics.recordMatch('orders');
+    metrics.recordMatch('orders');
+    metrics.recordResults([buildResult(true, 10), buildResult(false, 30, 'HTTP 503')]);
+    metrics.recordDrop('fallback');
+
+    const stats = metrics.getRouteStats('orders');
+    expect(stats.matched).toBe(2);
+    expect(stats.delivered).toBe(1);
+    expect(stats.failed).toBe(1);
+    expect(stats.lastError).toBe('HTTP 503');
+    expect(stats.lastMatchedAt).toBeInstanceOf(Date);
+    expect(metrics.getRouteStats('fallback').dropped).toBe(1);
+  });
+
+  it('should aggregate delivery latency', () => {
+    metrics.recordResults([buildResult(true, 10), buildResult(true, 30), buildResult(true, 20)]);
+
+    expect(metrics.getRouteStats('orders').latency).toEqual({
+      count: 3,
+      avgMs: 20,
+      minMs: 10,
+      maxMs: 30,
+    });
+  });
+
+  it('should list and reset every route with activity', () => {
+    metrics.recordMatch('orders');
+    metrics.recordDrop('fallback');
+
+    expect(metrics.getStats().map((stats) => stats.routeName)).toEqual(['orders', 'fallback']);
+
+    metrics.reset();
+
+    expect(metrics.getStats()).toEqual([]);
+  });
+});
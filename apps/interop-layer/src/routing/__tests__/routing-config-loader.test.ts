@@ -4,6 +4,7 @@
  * TDD approach: Write tests first, then implement loader
  */
 
+import { NotFoundError } from '@smile/common';
 import { RoutingConfigLoader } from '../routing-config-loader';
 import { RoutingConfig } from '../../messaging/types';
 import * as fs from 'fs';
@@ -122,6 +123,46 @@ routes:
     });
   });
 
+  describe('setRouteEnabled()', () => {
+    beforeEach(() => {
+      loader.setConfig({
+        metadata: { version: '1.0.0', lastUpdated: '2025-10-10T00:00:00Z', description: 'Test' },
+        settings: {
+          fallbackBehavior: 'drop',
+          validateOnLoad: true,
+          dynamicReload: false,
+          reloadInterval: 60000,
+          enableMetrics: true,
+        },
+        routes: [
+          {
+            name: 'test-route',
+            enabled: true,
+            source: '*',
+            type: 'order.*',
+            strategy: 'type',
+            priority: 5,
+            destination: { type: 'openhim' },
+          },
+        ],
+      });
+    });
+
+    it('should swap in a configuration with the route toggled', () => {
+      const before = loader.getRoutes();
+
+      const updated = loader.setRouteEnabled('test-route', false);
+
+      expect(updated.enabled).toBe(false);
+      expect(loader.getRoutes(true)).toHaveLength(0);
+      expect(before[0]?.enabled).toBe(true);
+    });
+
+    it('should throw NotFoundError for an unknown route', () => {
+      expect(() => loader.setRouteEnabled('missing', false)).toThrow(NotFoundError);
+    });
+  });
+
   describe('validate()', () => {
     const validConfig: RoutingConfig = {
       metadata: {
@@ -194,6 +235,150 @@ routes:
       expect(errors.some((e) => e.includes('at least one route'))).toBe(true);
     });
 
+    it('should require exchange for topic destinations', () => {
+      const invalidConfig: RoutingConfig = {
+        ...validConfig,
+        routes: [{ ...validConfig.routes[0]!, destination: { type: 'topic', queue: 'test' } }],
+      };
+
+      const errors = loader.validate(invalidConfig);
+
+      expect(errors.some((e) => e.includes('Topic destination requires exchange'))).toBe(true);
+    });
+
+    it('should require endpoint for webhook destinations', () => {
+      const invalidConfig: RoutingConfig = {
+        ...validConfig,
+        routes: [{ ...validConfig.routes[0]!, destination: { type: 'webhook' } }],
+      };
+
+      const errors = loader.validate(invalidConfig);
+
+      expect(errors.some((e) => e.includes('Webhook destination requires endpoint'))).toBe(true);
+    });
+
+    it('should accept routes with a destinations list only', () => {
+      const { destination, ...route } = validConfig.routes[0]!;
+      const fanOutConfig: RoutingConfig = {
+        ...validConfig,
+        settings: { ...validConfig.settings, routingMode: 'all-matches' },
+        routes: [
+          {
+            ...route,
+            destinations: [
+              { type: 'openhim' },
+              { type: 'queue', queue: 'warehouse.orders' },
+            ],
+          },
+        ],
+      };
+
+      expect(destination).toBeDefined();
+      expect(loader.validate(fanOutConfig)).toHaveLength(0);
+    });
+
+    it('should validate each entry of a destinations list', () => {
+      const invalidConfig: RoutingConfig = {
+        ...validConfig,
+        routes: [
+          {
+            ...validConfig.routes[0]!,
+            destinations: [{ type: 'openhim' }, { type: 'http' }],
+          },
+        ],
+      };
+
+      const errors = loader.validate(invalidConfig);
+
+      expect(
+        errors.some((e) => e.includes('destination 1: HTTP destination requires endpoint')),
+      ).toBe(true);
+    });
+
+    it('should reject an empty destinations list', () => {
+      const invalidConfig: RoutingConfig = {
+        ...validConfig,
+        routes: [{ ...validConfig.routes[0]!, destinations: [] }],
+      };
+
+      const errors = loader.validate(invalidConfig);
+
+      expect(errors.some((e) => e.includes('destinations must be a non-empty array'))).toBe(true);
+    });
+
+    it('should reject an unknown routingMode', () => {
+      const invalidConfig = {
+        ...validConfig,
+        settings: { ...validConfig.settings, routingMode: 'broadcast' },
+      } as any;
+
+      const errors = loader.validate(invalidConfig);
+
+      expect(errors.some((e) => e.includes('settings.routingMode'))).toBe(true);
+    });
+
+    it('should accept compound conditions', () => {
+      const conditionConfig: RoutingConfig = {
+        ...validConfig,
+        routes: [
+          {
+            ...validConfig.routes[0]!,
+            condition: {
+              all: [
+                { field: 'data.eventData.priority', operator: 'in', value: ['urgent', 'high'] },
+                {
+                  field: 'data.eventData.items[*].category',
+                  operator: 'equals',
+                  value: 'MEDICINE',
+                },
+                { not: { field: 'data.eventData.cancelledAt', operator: 'exists' } },
+                {
+                  any: [
+                    { field: 'data.eventData.totalAmount', operator: 'between', value: [0, 500] },
+                    { field: 'data.eventData.facilityId', operator: 'startsWith', value: 'FAC-' },
+                  ],
+                },
+              ],
+            },
+          },
+        ],
+      };
+
+      expect(loader.validate(conditionConfig)).toHaveLength(0);
+    });
+
+    it('should report invalid nested conditions with their path', () => {
+      const invalidConfig = {
+        ...validConfig,
+        routes: [
+          {
+            ...validConfig.routes[0]!,
+            condition: {
+              all: [
+                { field: 'data.eventData.priority', operator: 'oneOf', value: ['urgent'] },
+                { any: [] },
+                { not: { field: 'data.items[x]', operator: 'exists' } },
+                { field: 'data.total', operator: 'between', value: [10, 1] },
+                { field: 'data.priority', operator: 'in', value: 'urgent' },
+                { field: 'data.priority', operator: 'equals', all: [] },
+              ],
+            },
+          },
+        ],
+      } as any;
+
+      const errors: string[] = loader.validate(invalidConfig);
+
+      expect(errors).toEqual([
+        "Route 0 (test): condition.all[0]: Unknown operator 'oneOf'",
+        'Route 0 (test): condition.all[1].any must be a non-empty array',
+        "Route 0 (test): condition.all[2].not: Invalid field path 'data.items[x]'",
+        'Route 0 (test): condition.all[3]: between min must not exceed max',
+        'Route 0 (test): condition.all[4]: in requires an array value',
+        'Route 0 (test): condition.all[5] must have exactly one of field, all, any or not',
+      ]);
+    });
+
     it('should detect duplicate route names', () => {
       const invalidConfig = {
         ...validConfig,
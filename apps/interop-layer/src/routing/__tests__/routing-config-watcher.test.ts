@@ -0,0 +1,212 @@
+/**
+ * RoutingConfigWatcher Unit Tests
+ *
+ * Tests hot-reload, validation and last-good-config retention
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RoutingConfigWatcher } from '../routing-config-watcher';
+import { RoutingConfigLoader } from '../routing-config-loader';
+
+describe('RoutingConfigWatcher', () => {
+  let tmpDir: string;
+  let filePath: string;
+  let loader: RoutingConfigLoader;
+  let watcher: RoutingConfigWatcher;
+
+  const buildYaml = (version: string, endpoint: string, dynamicReload = true): string => `
+metadata:
+  version: "${version}"
+  lastUpdated: "2025-10-20T00:00:00Z"
+  description: "Test routing configuration"
+
+settings:
+  fallbackBehavior: "drop"
+  validateOnLoad: true
+  dynamicReload: ${dynamicReload}
+  reloadInterval: 1000
+  enableMetrics: true
+
+routes:
+  - name: "orders"
+    enabled: true
+    source: "*"
+    type: "order.*"
+    strategy: "type"
+    priority: 5
+    destination:
+      type: "openhim"
+      endpoint: "${endpoint}"
+`;
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'routing-watcher-'));
+    filePath = path.join(tmpDir, 'routing.yml');
+    fs.writeFileSync(filePath, buildYaml('1.0.0', 'https://openhim-core:5000/orders'));
+
+    loader = new RoutingConfigLoader();
+    await loader.loadFromFile(filePath);
+    watcher = new RoutingConfigWatcher(loader, filePath);
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('start()', () => {
+    it('should watch when dynamicReload is enabled', () => {
+      watcher.start();
+
+      const status = watcher.getStatus();
+      expect(status.watching).toBe(true);
+      expect(status.reloadInterval).toBe(1000);
+      expect(status.activeVersion).toBe('1.0.0');
+    });
+
+    it('should not watch when dynamicReload is disabled', () => {
+      fs.writeFileSync(filePath, buildYaml('1.0.0', 'https://openhim-core:5000/orders', false));
+      loader.setConfig(loader.loadFromString(fs.readFileSync(filePath, 'utf8')));
+
+      watcher.start();
+
+      expect(watcher.getStatus().watching).toBe(false);
+    });
+  });
+
+  describe('checkForChanges()', () => {
+    beforeEach(() => {
+      watcher.start();
+    });
+
+    it('should not reload an unchanged file', () => {
+      const result = watcher.checkForChanges();
+
+      expect(result.reloaded).toBe(false);
+      expect(watcher.getStatus().reloadCount).toBe(0);
+    });
+
+    it('should swap in a valid edited configuration', () => {
+      const previousRoutes = loader.getRoutes();
+      fs.writeFileSync(filePath, buildYaml('1.1.0', 'https://openhim-core:5000/orders-v2'));
+
+      const result = watcher.checkForChanges();
+
+      expect(result.reloaded).toBe(true);
+      expect(loader.getConfig().metadata.version).toBe('1.1.0');
+      expect(loader.getRoutes()[0]?.destination?.endpoint).toBe(
+        'https://openhim-core:5000/orders-v2',
+      );
+      // Routes handed out before the swap are untouched
+      expect(previousRoutes[0]?.destination?.endpoint).toBe('https://openhim-core:5000/orders');
+      expect(watcher.getStatus().reloadCount).toBe(1);
+    });
+
+    it('should keep the last good configuration when validation fails', () => {
+      fs.writeFileSync(
+        filePath,
+        buildYaml('2.0.0', 'x').replace('priority: 5', 'priority: 42'),
+      );
+
+      const result = watcher.checkForChanges();
+
+      expect(result.reloaded).toBe(false);
+      expect(result.errors?.some((e) => e.includes('priority must be between 0 and 10'))).toBe(
+        true,
+      );
+      expect(loader.getConfig().metadata.version).toBe('1.0.0');
+
+      const status = watcher.getStatus();
+      expect(status.failedReloadCount).toBe(1);
+      expect(status.lastErrors).toEqual(result.errors);
+    });
+
+    it('should keep the last good configuration when YAML is malformed', () => {
+      fs.writeFileSync(filePath, 'routes: [unclosed');
+
+      const result = watcher.checkForChanges();
+
+      expect(result.reloaded).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(loader.getConfig().metadata.version).toBe('1.0.0');
+    });
+
+    it('should keep the last good configuration when a route entry is null', () => {
+      fs.writeFileSync(
+        filePath,
+        buildYaml('2.1.0', 'x').replace(/routes:[\s\S]*$/, 'routes: [~]\n'),
+      );
+
+      const result = watcher.checkForChanges();
+
+      expect(result.reloaded).toBe(false);
+      expect(result.errors).toEqual(['Route 0 must be an object']);
+      expect(loader.getConfig().metadata.version).toBe('1.0.0');
+    });
+
+    it('should reject a reload interval that is not a positive number', () => {
+      fs.writeFileSync(
+        filePath,
+        buildYaml('2.2.0', 'x').replace('reloadInterval: 1000', 'reloadInterval: "soon"'),
+      );
+
+      const result = watcher.checkForChanges();
+
+      expect(result.errors).toEqual([
+        'settings.reloadInterval must be a positive number, got soon',
+      ]);
+      expect(watcher.getStatus().reloadInterval).toBe(1000);
+    });
+
+    it('should report unexpected errors on the timer as rejected reloads', () => {
+      jest.useFakeTimers();
+      try {
+        watcher.start();
+        jest.spyOn(watcher, 'checkForChanges').mockImplementation(() => {
+          throw new TypeError('boom');
+        });
+
+        expect(() => jest.advanceTimersByTime(1000)).not.toThrow();
+
+        const status = watcher.getStatus();
+        expect(status.failedReloadCount).toBe(1);
+        expect(status.lastErrors).toEqual(['boom']);
+        expect(loader.getConfig().metadata.version).toBe('1.0.0');
+      } finally {
+        watcher.stop();
+        jest.useRealTimers();
+      }
+    });
+
+    it('should not re-parse the same broken edit', () => {
+      fs.writeFileSync(filePath, 'routes: [unclosed');
+
+      watcher.checkForChanges();
+      watcher.checkForChanges();
+
+      expect(watcher.getStatus().failedReloadCount).toBe(1);
+    });
+
+    it('should clear errors after a subsequent valid edit', () => {
+      fs.writeFileSync(filePath, 'routes: [unclosed');
+      watcher.checkForChanges();
+
+      fs.writeFileSync(filePath, buildYaml('1.2.0', 'https://openhim-core:5000/orders'));
+      watcher.checkForChanges();
+
+      const status = watcher.getStatus();
+      expect(status.activeVersion).toBe('1.2.0');
+      expect(status.lastErrors).toBeUndefined();
+    });
+
+    it('should stop watching when the new configuration disables dynamicReload', () => {
+      fs.writeFileSync(filePath, buildYaml('1.3.0', 'https://openhim-core:5000/orders', false));
+
+      watcher.checkForChanges();
+
+      expect(watcher.getStatus().watching).toBe(false);
+    });
+  });
+});
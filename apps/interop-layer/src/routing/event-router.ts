@@ -0,0 +1,229 @@
+/**
+ * EventRouter
+ *
+ * Content-based routing pipeline for consumed CloudEvents:
+ * 1. Match the event against the loaded routing configuration
+ *    (first match, or every match when settings.routingMode is 'all-matches')
+ * 2. Dispatch to every destination of the matched route(s)
+ * 3. Apply the configured fallback behavior when no route matches
+ * 4. Record per-route metrics when settings.enableMetrics is set
+ *
+ * Also explains routing decisions for a sample event (dry run) without dispatching.
+ */
+
+import { logger } from '@smile/common';
+import {
+  RouteDefinition,
+  RouteEvaluation,
+  RoutingDryRunResult,
+  RoutingResult,
+  RoutingSettings,
+} from '../messaging/types';
+import { RouteMatchEngine } from './route-match-engine';
+import { RoutingConfigLoader } from './routing-config-loader';
+import { RouteDispatcher } from './route-dispatcher';
+import { RouteMetrics } from './route-metrics';
+
+/**
+ * Default queue for events that match no route
+ */
+export const DEFAULT_FALLBACK_QUEUE = 'interop.fallback.queue';
+
+/**
+ * Event router
+ */
+export class EventRouter {
+  private readonly fallbackRoute: RouteDefinition;
+
+  constructor(
+    private readonly configLoader: RoutingConfigLoader,
+    private readonly matchEngine: RouteMatchEngine,
+    private readonly dispatcher: RouteDispatcher,
+    fallbackQueue: string = DEFAULT_FALLBACK_QUEUE,
+    private readonly metrics: RouteMetrics = new RouteMetrics(),
+  ) {
+    this.fallbackRoute = {
+      name: 'fallback',
+      description: 'Unmatched events',
+      enabled: true,
+      source: '*',
+      type: '*',
+      strategy: 'fallback',
+      priority: 0,
+      destination: {
+        type: 'queue',
+        queue: fallbackQueue,
+      },
+    };
+  }
+
+  /**
+   * Route a CloudEvent to its destinations
+   *
+   * @param event - The CloudEvent
+   * @param correlationId - Correlation ID for tracing
+   * @param skip - Keys of destinations that already accepted the event
+   * @returns One routing result per destination (empty if the event was dropped)
+   * @throws Error if no route matches and fallback behavior is 'error'
+   */
+  public async route(
+    event: Record<string, unknown>,
+    correlationId: string,
+    skip?: ReadonlySet<string>,
+  ): Promise<RoutingResult[]> {
+    const routes = this.configLoader.getRoutes(true);
+    const settings = this.configLoader.getSettings();
+
+    const matchedRoutes = this.findRoutes(event, routes, settings.routingMode);
+
+    if (matchedRoutes.length > 0) {
+      const results = await Promise.all(
+        matchedRoutes.map((route) =>
+          this.dispatchRoute(route, event, correlationId, settings, skip),
+        ),
+      );
+      return results.flat();
+    }
+
+    if (settings.fallbackBehavior === 'drop') {
+      logger.warn('Dropping unrouted CloudEvent', {
+        eventId: event.id,
+        eventType: event.type,
+        eventSource: event.source,
+        correlationId,
+      });
+      if (settings.enableMetrics) {
+        this.metrics.recordDrop(this.fallbackRoute.name);
+      }
+      return [];
+    }
+
+    if (settings.fallbackBehavior === 'error') {
+      throw new Error(
+        `No enabled route matches event type '${event.type}' from source '${event.source}'`,
+      );
+    }
+
+    // route-to-fallback-queue
+    logger.warn('Routing unmatched CloudEvent to fallback queue', {
+      eventId: event.id,
+      eventType: event.type,
+      queue: this.fallbackRoute.destination?.queue,
+      correlationId,
+    });
+    return this.dispatchRoute(this.fallbackRoute, event, correlationId, settings, skip);
+  }
+
+  /**
+   * Explain how an event would be routed, without dispatching it
+   *
+   * @param event - Sample CloudEvent
+   * @returns Selected routes and destinations, and an evaluation of every route
+   */
+  public dryRun(event: Record<string, unknown>): RoutingDryRunResult {
+    const settings = this.configLoader.getSettings();
+    const routingMode = settings.routingMode ?? 'first-match';
+    const routes = this.matchEngine.sortRoutesByPriority(this.configLoader.getRoutes());
+
+    const selected: RouteDefinition[] = [];
+    const evaluations: RouteEvaluation[] = routes.map((route) => {
+      const match = this.matchEngine.explainRoute(event, route);
+      const evaluation: RouteEvaluation = {
+        route: route.name,
+        priority: route.priority,
+        matched: match.matched,
+        selected: false,
+      };
+
+      if (!match.matched) {
+        evaluation.reason = match.reason ?? 'No match';
+      } else if (routingMode === 'first-match' && selected[0]) {
+        evaluation.reason = `Shadowed by higher-priority route '${selected[0].name}'`;
+      } else {
+        evaluation.selected = true;
+        selected.push(route);
+      }
+
+      return evaluation;
+    });
+
+    const result: RoutingDryRunResult = {
+      routingMode,
+      matched: selected.length > 0,
+      selectedRoutes: selected.map((route) => route.name),
+      destinations: selected.flatMap((route) => RouteDispatcher.getDestinations(route)),
+      evaluations,
+    };
+
+    if (selected.length === 0) {
+      result.fallbackBehavior = settings.fallbackBehavior;
+
+      if (settings.fallbackBehavior === 'route-to-fallback-queue') {
+        result.selectedRoutes = [this.fallbackRoute.name];
+        result.destinations = RouteDispatcher.getDestinations(this.fallbackRoute);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get per-route metrics
+   *
+   * @returns Route metrics
+   */
+  public getMetrics(): RouteMetrics {
+    return this.metrics;
+  }
+
+  /**
+   * Dispatch a matched route and record its metrics
+   *
+   * @param route - The matched route
+   * @param event - The CloudEvent
+   * @param correlationId - Correlation ID for tracing
+   * @param settings - Active routing settings
+   * @param skip - Keys of destinations that already accepted the event
+   * @returns One routing result per destination that was not skipped
+   */
+  private async dispatchRoute(
+    route: RouteDefinition,
+    event: Record<string, unknown>,
+    correlationId: string,
+    settings: RoutingSettings,
+    skip?: ReadonlySet<string>,
+  ): Promise<RoutingResult[]> {
+    if (settings.enableMetrics) {
+      this.metrics.recordMatch(route.name);
+    }
+
+    const results = await this.dispatcher.dispatch(route, event, correlationId, skip);
+
+    if (settings.enableMetrics) {
+      this.metrics.recordResults(results);
+    }
+
+    return results;
+  }
+
+  /**
+   * Select the routes for an event according to the routing mode
+   *
+   * @param event - The CloudEvent
+   * @param routes - Enabled routes
+   * @param routingMode - Route selection mode
+   * @returns Selected routes (empty if none match)
+   */
+  private findRoutes(
+    event: Record<string, unknown>,
+    routes: RouteDefinition[],
+    routingMode: RoutingSettings['routingMode'],
+  ): RouteDefinition[] {
+    if (routingMode === 'all-matches') {
+      return this.matchEngine.findMatchingRoutes(event, routes);
+    }
+
+    const match = this.matchEngine.findMatchingRoute(event, routes);
+    return match.matched && match.route ? [match.route] : [];
+  }
+}
@@ -0,0 +1,360 @@
+/**
+ * RouteDispatcher
+ *
+ * Delivers CloudEvents to every destination of a matched route
+ * (each destination independently) by destination type:
+ * - http / webhook: HTTP request with the structured CloudEvent as body
+ * - openhim: OpenHIM channel via the OpenHIM bridge
+ * - queue: RabbitMQ queue (default exchange)
+ * - topic: RabbitMQ topic exchange
+ */
+
+import * as amqp from 'amqplib';
+import axios, { AxiosError } from 'axios';
+import { logger } from '@smile/common';
+import { ConfirmMessageChannel } from '@smile/cloud-events';
+import { ConnectionManager } from '../messaging/connection-manager';
+import { OpenHIMBridge } from '../bridge/openhim-bridge';
+import { RouteDefinition, RouteDestination, RoutingResult } from '../messaging/types';
+
+/**
+ * Constants
+ */
+const CONTENT_TYPE = 'application/cloudevents+json';
+const CORRELATION_HEADER = 'X-Correlation-ID';
+const DEFAULT_HTTP_TIMEOUT = 10000;
+
+/**
+ * Route dispatcher
+ */
+export class RouteDispatcher {
+  private channel: Promise<ConfirmMessageChannel> | null = null;
+
+  constructor(
+    private readonly connectionManager: ConnectionManager,
+    private readonly openHIMBridge: OpenHIMBridge,
+  ) {}
+
+  /**
+   * Deliver an event to every destination of a route
+   *
+   * Destinations are delivered concurrently and independently, so one failing
+   * target does not block the others. Never throws: delivery failures are
+   * reported in the per-destination routing results.
+   *
+   * @param route - The matched route
+   * @param event - The CloudEvent
+   * @param correlationId - Correlation ID for tracing
+   * @param skip - Keys of destinations that already accepted the event (see getDestinationKey)
+   * @returns One routing result per destination that was not skipped
+   */
+  public async dispatch(
+    route: RouteDefinition,
+    event: Record<string, unknown>,
+    correlationId: string,
+    skip?: ReadonlySet<string>,
+  ): Promise<RoutingResult[]> {
+    const destinations = RouteDispatcher.getDestinations(route).filter(
+      (destination) => !skip?.has(RouteDispatcher.getDestinationKey(route, destination)),
+    );
+
+    return Promise.all(
+      destinations.map((destination) =>
+        this.dispatchToDestination(route, destination, event, correlationId),
+      ),
+    );
+  }
+
+  /**
+   * Get the key identifying a destination of a route across deliveries
+   *
+   * @param route - The route definition
+   * @param destination - A destination of the route
+   * @returns Route name, destination type and target
+   */
+  public static getDestinationKey(route: RouteDefinition, destination: RouteDestination): string {
+    const target = destination.endpoint ?? destination.queue ?? destination.exchange ?? '';
+    return `${route.name}|${destination.type}|${target}`;
+  }
+
+  /**
+   * Get all destinations of a route
+   *
+   * @param route - The route definition
+   * @returns destination followed by destinations
+   */
+  public static getDestinations(route: RouteDefinition): RouteDestination[] {
+    const destinations: RouteDestination[] = [];
+
+    if (route.destination) {
+      destinations.push(route.destination);
+    }
+    if (route.destinations) {
+      destinations.push(...route.destinations);
+    }
+
+    return destinations;
+  }
+
+  /**
+   * Deliver an event to a single route destination
+   *
+   * @param route - The matched route
+   * @param destination - The destination to deliver to
+   * @param event - The CloudEvent
+   * @param correlationId - Correlation ID for tracing
+   * @returns Routing result for the delivery
+   */
+  public async dispatchToDestination(
+    route: RouteDefinition,
+    destination: RouteDestination,
+    event: Record<string, unknown>,
+    correlationId: string,
+  ): Promise<RoutingResult> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Dispatching CloudEvent to route destination', {
+        routeName: route.name,
+        destinationType: destination.type,
+        eventId: event.id,
+        eventType: event.type,
+        correlationId,
+      });
+
+      const response = await this.deliver(destination, event, correlationId);
+
+      return {
+        success: true,
+        route,
+        destination,
+        response,
+        latencyMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      logger.error('Failed to dispatch CloudEvent to route destination', {
+        routeName: route.name,
+        destinationType: destination.type,
+        eventId: event.id,
+        correlationId,
+        error: (error as Error).message,
+      });
+
+      return {
+        success: false,
+        route,
+        destination,
+        error: error as Error,
+        latencyMs: Date.now() - startTime,
+      };
+    }
+  }
+
+  /**
+   * Deliver an event based on destination type
+   *
+   * @param destination - Destination configuration
+   * @param event - The CloudEvent
+   * @param correlationId - Correlation ID for tracing
+   * @returns Response from the destination (if any)
+   * @throws Error if delivery fails
+   */
+  private async deliver(
+    destination: RouteDestination,
+    event: Record<string, unknown>,
+    correlationId: string,
+  ): Promise<unknown> {
+    if (destination.type === 'http' || destination.type === 'webhook') {
+      return this.deliverHttp(destination, event, correlationId);
+    }
+
+    if (destination.type === 'openhim') {
+      return this.deliverOpenHIM(destination, event, correlationId);
+    }
+
+    if (destination.type === 'queue') {
+      return this.deliverQueue(destination, event, correlationId);
+    }
+
+    if (destination.type === 'topic') {
+      return this.deliverTopic(destination, event, correlationId);
+    }
+
+    throw new Error(`Unsupported destination type: ${(destination as RouteDestination).type}`);
+  }
+
+  /**
+   * Send the event as an HTTP request
+   */
+  private async deliverHttp(
+    destination: RouteDestination,
+    event: Record<string, unknown>,
+    correlationId: string,
+  ): Promise<unknown> {
+    if (!destination.endpoint) {
+      throw new Error(`${destination.type} destination requires endpoint`);
+    }
+
+    try {
+      const response = await axios.request({
+        url: destination.endpoint,
+        method: destination.type === 'webhook' ? 'POST' : destination.method ?? 'POST',
+        data: event,
+        headers: {
+          'Content-Type': CONTENT_TYPE,
+          [CORRELATION_HEADER]: correlationId,
+          ...destination.headers,
+        },
+        timeout: destination.timeout ?? DEFAULT_HTTP_TIMEOUT,
+      });
+
+      return {
+        statusCode: response.status,
+        data: response.data,
+      };
+    } catch (error) {
+      const axiosError = error as AxiosError;
+      if (axiosError.response) {
+        throw new Error(
+          `HTTP ${axiosError.response.status}: ${axiosError.response.statusText}`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send the event to OpenHIM through the bridge
+   */
+  private async deliverOpenHIM(
+    destination: RouteDestination,
+    event: Record<string, unknown>,
+    correlationId: string,
+  ): Promise<unknown> {
+    const result = await this.openHIMBridge.sendToOpenHIM(
+      event,
+      correlationId,
+      destination.endpoint,
+    );
+
+    if (!result.success) {
+      throw new Error(result.error || 'Unknown OpenHIM error');
+    }
+
+    return result;
+  }
+
+  /**
+   * Publish the event directly to a queue
+   */
+  private async deliverQueue(
+    destination: RouteDestination,
+    event: Record<string, unknown>,
+    correlationId: string,
+  ): Promise<unknown> {
+    if (!destination.queue) {
+      throw new Error('Queue destination requires queue name');
+    }
+
+    const channel = await this.getChannel();
+    await channel.assertQueue(destination.queue, { durable: true });
+
+    await new Promise<void>((resolve, reject) => {
+      channel.sendToQueue(
+        destination.queue!,
+        Buffer.from(JSON.stringify(event)),
+        this.buildPublishOptions(destination, event, correlationId),
+        (err) => (err ? reject(err) : resolve()),
+      );
+    });
+
+    return { queue: destination.queue };
+  }
+
+  /**
+   * Publish the event to a topic exchange
+   */
+  private async deliverTopic(
+    destination: RouteDestination,
+    event: Record<string, unknown>,
+    correlationId: string,
+  ): Promise<unknown> {
+    if (!destination.exchange) {
+      throw new Error('Topic destination requires exchange');
+    }
+
+    const routingKey = destination.routingKey ?? String(event.type);
+    const channel = await this.getChannel();
+    await channel.assertExchange(destination.exchange, 'topic', { durable: true });
+
+    // Make sure the named queue receives the event
+    if (destination.queue) {
+      await channel.assertQueue(destination.queue, { durable: true });
+      await channel.bindQueue(destination.queue, destination.exchange, routingKey);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      channel.publish(
+        destination.exchange!,
+        routingKey,
+        Buffer.from(JSON.stringify(event)),
+        this.buildPublishOptions(destination, event, correlationId),
+        (err) => (err ? reject(err) : resolve()),
+      );
+    });
+
+    return { exchange: destination.exchange, routingKey };
+  }
+
+  /**
+   * Build AMQP publish options for an event
+   */
+  private buildPublishOptions(
+    destination: RouteDestination,
+    event: Record<string, unknown>,
+    correlationId: string,
+  ): amqp.Options.Publish {
+    return {
+      persistent: true,
+      contentType: CONTENT_TYPE,
+      messageId: String(event.id),
+      correlationId,
+      headers: {
+        'ce-specversion': event.specversion,
+        'ce-type': event.type,
+        'ce-source': event.source,
+        'ce-id': event.id,
+        ...destination.headers,
+      },
+    };
+  }
+
+  /**
+   * Get (or lazily create) the confirm channel used for publishing
+   *
+   * Concurrent deliveries share a single pending channel creation.
+   */
+  private getChannel(): Promise<ConfirmMessageChannel> {
+    if (!this.channel) {
+      const pending = this.connectionManager.getConfirmChannel().then((channel) => {
+        channel.on('close', () => {
+          if (this.channel === pending) {
+            this.channel = null;
+          }
+        });
+        return channel;
+      });
+
+      // Allow a retry on the next delivery if channel creation fails
+      pending.catch(() => {
+        if (this.channel === pending) {
+          this.channel = null;
+        }
+      });
+
+      this.channel = pending;
+    }
+
+    return this.channel;
+  }
+}
@@ -4,17 +4,81 @@
  * Handles pattern matching and route selection for CloudEvents with:
  * - Wildcard pattern matching (*, ?)
  * - Source and type matching
- * - Content-based condition evaluation
+ * - Content-based condition evaluation (all/any/not composition, array field paths)
  * - Priority-based route selection
+ * - All-matches selection for fan-out routing
  */
 
 import { logger } from '@smile/common';
-import { RouteDefinition, RouteCondition, RouteMatchResult } from '../messaging/types';
+import {
+  RouteDefinition,
+  RouteCondition,
+  RouteMatchResult,
+  FieldCondition,
+  ConditionOperator,
+} from '../messaging/types';
+
+/**
+ * Parsed field path segment
+ */
+export type FieldPathSegment =
+  | { kind: 'key'; key: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' };
 
 /**
  * Route matching engine
  */
 export class RouteMatchEngine {
+  /** Supported field condition operators */
+  public static readonly OPERATORS: readonly ConditionOperator[] = [
+    'equals',
+    'notEquals',
+    'contains',
+    'greaterThan',
+    'lessThan',
+    'regex',
+    'in',
+    'notIn',
+    'exists',
+    'between',
+    'startsWith',
+    'endsWith',
+  ];
+
+  /**
+   * Parse a field path such as "data.eventData.items[*].category"
+   *
+   * @param path - The field path
+   * @returns Path segments
+   * @throws Error if the path is malformed
+   */
+  public static parseFieldPath(path: string): FieldPathSegment[] {
+    const segments: FieldPathSegment[] = [];
+
+    for (const part of path.split('.')) {
+      const match = /^([^[\]]*)((?:\[(?:\*|\d+)\])*)$/.exec(part);
+      const key = match?.[1] ?? '';
+      const brackets = match?.[2] ?? '';
+
+      if (!match || (key === '' && brackets === '') || (key === '' && segments.length === 0)) {
+        throw new Error(`Invalid field path '${path}'`);
+      }
+
+      if (key) {
+        segments.push({ kind: 'key', key });
+      }
+
+      for (const [, selector] of brackets.matchAll(/\[(\*|\d+)\]/g)) {
+        segments.push(
+          selector === '*' ? { kind: 'wildcard' } : { kind: 'index', index: Number(selector) },
+        );
+      }
+    }
+
+    return segments;
+  }
+
   /**
    * Match a string against a pattern with wildcard support
    *
@@ -77,71 +141,259 @@ export class RouteMatchEngine {
     return true;
   }
 
+  /**
+   * Explain whether an event matches a route
+   *
+   * Same rules as matchRoute, but reports why a route does not match.
+   * Intended for diagnostics (dry runs), not the hot path.
+   *
+   * @param event - The CloudEvent
+   * @param route - The route definition
+   * @returns Match result with the reason for a non-match
+   */
+  public explainRoute(event: Record<string, unknown>, route: RouteDefinition): RouteMatchResult {
+    if (!route.enabled) {
+      return { matched: false, route, reason: 'Route is disabled' };
+    }
+
+    if (!this.matchPattern(event.source as string, route.source)) {
+      return {
+        matched: false,
+        route,
+        reason: `Source '${event.source}' does not match pattern '${route.source}'`,
+      };
+    }
+
+    if (!this.matchPattern(event.type as string, route.type)) {
+      return {
+        matched: false,
+        route,
+        reason: `Type '${event.type}' does not match pattern '${route.type}'`,
+      };
+    }
+
+    const conditionFailure = route.condition
+      ? this.explainCondition(event, route.condition)
+      : null;
+    if (conditionFailure) {
+      return { matched: false, route, reason: `Condition not met: ${conditionFailure}` };
+    }
+
+    return { matched: true, route };
+  }
+
+  /**
+   * Explain why a condition is not met
+   *
+   * @param event - The CloudEvent
+   * @param condition - The condition to evaluate
+   * @returns Description of the failing condition, or null if the condition is met
+   */
+  public explainCondition(event: Record<string, unknown>, condition: RouteCondition): string | null {
+    if ('all' in condition) {
+      for (const nested of condition.all) {
+        const failure = this.explainCondition(event, nested);
+        if (failure) {
+          return failure;
+        }
+      }
+      return null;
+    }
+
+    if ('any' in condition) {
+      const failures = condition.any.map((nested) => this.explainCondition(event, nested));
+      return failures.some((failure) => failure === null)
+        ? null
+        : `none of [${failures.join('; ')}]`;
+    }
+
+    if ('not' in condition) {
+      return this.evaluateCondition(event, condition.not)
+        ? `not (${this.describeCondition(condition.not)})`
+        : null;
+    }
+
+    if (this.evaluateFieldCondition(event, condition)) {
+      return null;
+    }
+
+    let actual: unknown[];
+    try {
+      actual = this.getFieldValues(event, condition.field);
+    } catch (error) {
+      return (error as Error).message;
+    }
+
+    const shown = condition.field.includes('[*]') ? actual : actual[0];
+    return `${this.describeCondition(condition)} (actual: ${JSON.stringify(shown) ?? 'undefined'})`;
+  }
+
+  /**
+   * Describe a condition in a compact, human-readable form
+   *
+   * @param condition - The condition
+   * @returns Description, e.g. "data.priority equals \"urgent\""
+   */
+  private describeCondition(condition: RouteCondition): string {
+    if ('all' in condition) {
+      return `all [${condition.all.map((nested) => this.describeCondition(nested)).join('; ')}]`;
+    }
+
+    if ('any' in condition) {
+      return `any [${condition.any.map((nested) => this.describeCondition(nested)).join('; ')}]`;
+    }
+
+    if ('not' in condition) {
+      return `not (${this.describeCondition(condition.not)})`;
+    }
+
+    return condition.value === undefined
+      ? `${condition.field} ${condition.operator}`
+      : `${condition.field} ${condition.operator} ${JSON.stringify(condition.value)}`;
+  }
+
   /**
    * Evaluate a content-based routing condition
    *
+   * Composite conditions (all/any/not) are evaluated recursively. A field condition
+   * on a path with [*] holds if any selected value satisfies it.
+   *
    * @param event - The CloudEvent
    * @param condition - The condition to evaluate
    * @returns Whether the condition is met
    */
   public evaluateCondition(event: any, condition: RouteCondition): boolean {
-    const value = this.getFieldValue(event, condition.field);
+    if ('all' in condition) {
+      return condition.all.every((nested) => this.evaluateCondition(event, nested));
+    }
+
+    if ('any' in condition) {
+      return condition.any.some((nested) => this.evaluateCondition(event, nested));
+    }
+
+    if ('not' in condition) {
+      return !this.evaluateCondition(event, condition.not);
+    }
+
+    return this.evaluateFieldCondition(event, condition);
+  }
 
-    if (value === undefined || value === null) {
+  /**
+   * Evaluate a single field condition
+   *
+   * @param event - The CloudEvent
+   * @param condition - The field condition
+   * @returns Whether the condition is met
+   */
+  private evaluateFieldCondition(event: Record<string, unknown>, condition: FieldCondition): boolean {
+    let values: unknown[];
+    try {
+      values = this.getFieldValues(event, condition.field);
+    } catch (error) {
+      logger.warn('Invalid condition field path', {
+        field: condition.field,
+        error: (error as Error).message,
+      });
       return false;
     }
 
-    switch (condition.operator) {
-      case 'equals':
-        return value === condition.value;
+    const present = values.filter((value) => value !== undefined && value !== null);
 
-      case 'notEquals':
-        return value !== condition.value;
+    if (condition.operator === 'exists') {
+      return (present.length > 0) === (condition.value !== false);
+    }
 
-      case 'greaterThan':
-        return typeof value === 'number' && value > condition.value;
+    return present.some((value) => this.compare(value, condition));
+  }
 
-      case 'lessThan':
-        return typeof value === 'number' && value < condition.value;
+  /**
+   * Compare a field value against a condition
+   *
+   * @param value - The (non-null) field value
+   * @param condition - The field condition
+   * @returns Whether the value satisfies the condition
+   */
+  private compare(value: unknown, condition: FieldCondition): boolean {
+    const { operator, value: expected } = condition;
 
-      case 'contains':
-        if (Array.isArray(value)) {
-          return value.includes(condition.value);
-        }
-        if (typeof value === 'string') {
-          return value.includes(condition.value);
-        }
-        return false;
+    if (operator === 'equals') {
+      return value === expected;
+    }
 
-      case 'regex':
-        if (typeof value === 'string') {
-          const regex = new RegExp(condition.value);
-          return regex.test(value);
-        }
-        return false;
+    if (operator === 'notEquals') {
+      return value !== expected;
+    }
 
-      default:
-        logger.warn('Unknown condition operator', { operator: condition.operator });
-        return false;
+    if (operator === 'greaterThan') {
+      return typeof value === 'number' && value > expected;
+    }
+
+    if (operator === 'lessThan') {
+      return typeof value === 'number' && value < expected;
     }
+
+    if (operator === 'contains') {
+      return (Array.isArray(value) || typeof value === 'string') && value.includes(expected);
+    }
+
+    if (operator === 'regex') {
+      return typeof value === 'string' && new RegExp(expected).test(value);
+    }
+
+    if (operator === 'in' || operator === 'notIn') {
+      return Array.isArray(expected) && expected.includes(value) === (operator === 'in');
+    }
+
+    if (operator === 'between') {
+      const [min, max] = Array.isArray(expected) ? expected : [];
+      return (
+        (typeof value === 'number' || typeof value === 'string') &&
+        typeof value === typeof min &&
+        typeof value === typeof max &&
+        value >= min &&
+        value <= max
+      );
+    }
+
+    if (operator === 'startsWith') {
+      return typeof value === 'string' && value.startsWith(expected);
+    }
+
+    if (operator === 'endsWith') {
+      return typeof value === 'string' && value.endsWith(expected);
+    }
+
+    logger.warn('Unknown condition operator', { operator });
+    return false;
   }
 
   /**
-   * Get a field value from an object using dot notation
+   * Get the values selected by a field path
    *
    * @param obj - The object
-   * @param path - The field path (e.g., "data.eventData.priority")
-   * @returns The field value or undefined
+   * @param path - The field path (e.g., "data.eventData.items[*].category")
+   * @returns Selected values (a [*] segment yields one value per array element)
+   * @throws Error if the path is malformed
    */
-  private getFieldValue(obj: any, path: string): any {
-    const parts = path.split('.');
-    let current = obj;
+  private getFieldValues(obj: unknown, path: string): unknown[] {
+    let current: unknown[] = [obj];
+
+    for (const segment of RouteMatchEngine.parseFieldPath(path)) {
+      const next: unknown[] = [];
+
+      for (const value of current) {
+        if (value === undefined || value === null) {
+          continue;
+        }
 
-    for (const part of parts) {
-      if (current === undefined || current === null) {
-        return undefined;
+        if (segment.kind === 'key') {
+          next.push((value as Record<string, unknown>)[segment.key]);
+        } else if (Array.isArray(value)) {
+          next.push(...(segment.kind === 'wildcard' ? value : [value[segment.index]]));
+        }
       }
-      current = current[part];
+
+      current = next;
     }
 
     return current;
@@ -187,6 +439,27 @@ export class RouteMatchEngine {
     };
   }
 
+  /**
+   * Find every route matching an event (fan-out)
+   *
+   * @param event - The CloudEvent
+   * @param routes - Available routes
+   * @returns Matching routes, highest priority first (empty if none match)
+   */
+  public findMatchingRoutes(event: Record<string, unknown>, routes: RouteDefinition[]): RouteDefinition[] {
+    const matchedRoutes = this.sortRoutesByPriority(routes).filter((route) =>
+      this.matchRoute(event, route),
+    );
+
+    logger.debug('Routes matched', {
+      eventType: event.type,
+      eventSource: event.source,
+      routeNames: matchedRoutes.map((route) => route.name),
+    });
+
+    return matchedRoutes;
+  }
+
   /**
    * Sort routes by priority (descending)
    *
@@ -0,0 +1,158 @@
+/**
+ * RouteMetrics
+ *
+ * Tracks per-route routing activity:
+ * - Events matched by each route
+ * - Delivered and failed destination deliveries
+ * - Dropped unmatched events
+ * - Delivery latency (from RoutingResult.latencyMs)
+ */
+
+import { RouteStats, RoutingResult } from '../messaging/types';
+
+/**
+ * Mutable per-route counters
+ */
+interface RouteCounters {
+  matched: number;
+  delivered: number;
+  failed: number;
+  dropped: number;
+  latencyCount: number;
+  latencyTotal: number;
+  latencyMin: number;
+  latencyMax: number;
+  lastMatchedAt: Date | null;
+  lastError: string | null;
+}
+
+/**
+ * Per-route metrics
+ */
+export class RouteMetrics {
+  private readonly counters = new Map<string, RouteCounters>();
+
+  /**
+   * Record that a route matched an event
+   *
+   * @param routeName - Route name
+   */
+  public recordMatch(routeName: string): void {
+    const counters = this.getCounters(routeName);
+    counters.matched++;
+    counters.lastMatchedAt = new Date();
+  }
+
+  /**
+   * Record destination delivery results
+   *
+   * @param results - Routing results (one per destination)
+   */
+  public recordResults(results: RoutingResult[]): void {
+    for (const result of results) {
+      const counters = this.getCounters(result.route.name);
+
+      if (result.success) {
+        counters.delivered++;
+      } else {
+        counters.failed++;
+        counters.lastError = result.error?.message ?? 'Unknown error';
+      }
+
+      counters.latencyCount++;
+      counters.latencyTotal += result.latencyMs;
+      counters.latencyMin = Math.min(counters.latencyMin, result.latencyMs);
+      counters.latencyMax = Math.max(counters.latencyMax, result.latencyMs);
+    }
+  }
+
+  /**
+   * Record that an event was dropped
+   *
+   * @param routeName - Route name
+   */
+  public recordDrop(routeName: string): void {
+    this.getCounters(routeName).dropped++;
+  }
+
+  /**
+   * Get statistics for a route
+   *
+   * @param routeName - Route name
+   * @returns Route statistics (zeroed if the route has no activity)
+   */
+  public getRouteStats(routeName: string): RouteStats {
+    const counters = this.counters.get(routeName) ?? this.createCounters();
+
+    const stats: RouteStats = {
+      routeName,
+      matched: counters.matched,
+      delivered: counters.delivered,
+      failed: counters.failed,
+      dropped: counters.dropped,
+      latency: {
+        count: counters.latencyCount,
+        avgMs: counters.latencyCount > 0 ? counters.latencyTotal / counters.latencyCount : 0,
+        minMs: counters.latencyCount > 0 ? counters.latencyMin : 0,
+        maxMs: counters.latencyMax,
+      },
+    };
+
+    if (counters.lastMatchedAt) {
+      stats.lastMatchedAt = counters.lastMatchedAt;
+    }
+    if (counters.lastError) {
+      stats.lastError = counters.lastError;
+    }
+
+    return stats;
+  }
+
+  /**
+   * Get statistics for every route with recorded activity
+   *
+   * @returns Route statistics
+   */
+  public getStats(): RouteStats[] {
+    return [...this.counters.keys()].map((routeName) => this.getRouteStats(routeName));
+  }
+
+  /**
+   * Reset all statistics
+   */
+  public reset(): void {
+    this.counters.clear();
+  }
+
+  /**
+   * Get (or create) the counters for a route
+   */
+  private getCounters(routeName: string): RouteCounters {
+    let counters = this.counters.get(routeName);
+
+    if (!counters) {
+      counters = this.createCounters();
+      this.counters.set(routeName, counters);
+    }
+
+    return counters;
+  }
+
+  /**
+   * Create zeroed counters
+   */
+  private createCounters(): RouteCounters {
+    return {
+      matched: 0,
+      delivered: 0,
+      failed: 0,
+      dropped: 0,
+      latencyCount: 0,
+      latencyTotal: 0,
+      latencyMin: Number.POSITIVE_INFINITY,
+      latencyMax: 0,
+      lastMatchedAt: null,
+      lastError: null,
+    };
+  }
+}
@@ -10,12 +10,15 @@
 
 import * as fs from 'fs';
 import * as yaml from 'js-yaml';
-import { logger } from '@smile/common';
+import { logger, NotFoundError } from '@smile/common';
 import {
   RoutingConfig,
   RoutingSettings,
   RouteDefinition,
+  RouteDestination,
+  RouteCondition,
 } from '../messaging/types';
+import { RouteMatchEngine } from './route-match-engine';
 
 /**
  * Routing configuration loader
@@ -116,12 +119,24 @@ export class RoutingConfigLoader {
       if (config.settings.dynamicReload === undefined) {
         errors.push('Missing required field: settings.dynamicReload');
       }
-      if (!config.settings.reloadInterval) {
+      const { reloadInterval } = config.settings;
+      if (reloadInterval === undefined || reloadInterval === null) {
         errors.push('Missing required field: settings.reloadInterval');
+      } else if (typeof reloadInterval !== 'number' || !(reloadInterval > 0)) {
+        errors.push(`settings.reloadInterval must be a positive number, got ${reloadInterval}`);
       }
       if (config.settings.enableMetrics === undefined) {
         errors.push('Missing required field: settings.enableMetrics');
       }
+      if (
+        config.settings.routingMode !== undefined &&
+        !['first-match', 'all-matches'].includes(config.settings.routingMode)
+      ) {
+        errors.push(
+          "settings.routingMode must be 'first-match' or 'all-matches', " +
+            `got ${config.settings.routingMode}`,
+        );
+      }
     }
 
     // Validate routes
@@ -137,6 +152,9 @@ export class RoutingConfigLoader {
       // Check for duplicate route names
       const routeNames = new Set<string>();
       for (const route of config.routes) {
+        if (!isObject(route)) {
+          continue;
+        }
         if (routeNames.has(route.name)) {
           errors.push(`duplicate route name: ${route.name}`);
         }
@@ -145,6 +163,10 @@ export class RoutingConfigLoader {
 
       // Validate each route
       config.routes.forEach((route, index) => {
+        if (!isObject(route)) {
+          errors.push(`Route ${index} must be an object`);
+          return;
+        }
         const routeErrors = this.validateRoute(route, index);
         errors.push(...routeErrors);
       });
@@ -165,7 +187,7 @@ export class RoutingConfigLoader {
     const prefix = `Route ${index} (${route.name || 'unnamed'})`;
 
     // Validate required fields
-    if (!route.name || route.name.trim() === '') {
+    if (typeof route.name !== 'string' || route.name.trim() === '') {
       errors.push(`${prefix}: Missing or empty route name`);
     }
 
@@ -194,21 +216,164 @@ export class RoutingConfigLoader {
       }
     }
 
-    if (!route.destination) {
+    if (!route.destination && !route.destinations) {
       errors.push(`${prefix}: Missing required field: destination`);
+    }
+
+    if (route.destination) {
+      errors.push(...this.validateDestination(route.destination, prefix));
+    }
+
+    if (route.condition !== undefined) {
+      errors.push(...this.validateCondition(route.condition, `${prefix}: condition`));
+    }
+
+    if (route.destinations !== undefined) {
+      if (!Array.isArray(route.destinations) || route.destinations.length === 0) {
+        errors.push(`${prefix}: destinations must be a non-empty array`);
+      } else {
+        route.destinations.forEach((destination, destinationIndex) => {
+          errors.push(
+            ...this.validateDestination(destination, `${prefix} destination ${destinationIndex}`),
+          );
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate a single route destination
+   *
+   * @param destination - Destination to validate
+   * @param prefix - Error message prefix
+   * @returns Array of validation error messages
+   */
+  private validateDestination(destination: RouteDestination, prefix: string): string[] {
+    if (!isObject(destination)) {
+      return [`${prefix}: destination must be an object`];
+    }
+
+    const errors: string[] = [];
+
+    // Validate destination based on type
+    if (destination.type === 'http') {
+      if (!destination.endpoint) {
+        errors.push(`${prefix}: HTTP destination requires endpoint`);
+      }
+    }
+
+    if (destination.type === 'webhook') {
+      if (!destination.endpoint) {
+        errors.push(`${prefix}: Webhook destination requires endpoint`);
+      }
+    }
+
+    if (destination.type === 'queue') {
+      if (!destination.queue) {
+        errors.push(`${prefix}: Queue destination requires queue name`);
+      }
+    }
+
+    if (destination.type === 'topic') {
+      if (!destination.exchange) {
+        errors.push(`${prefix}: Topic destination requires exchange`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate a (possibly nested) route condition
+   *
+   * @param condition - Condition to validate
+   * @param prefix - Error message prefix including the condition path
+   * @returns Array of validation error messages
+   */
+  private validateCondition(condition: RouteCondition, prefix: string): string[] {
+    if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+      return [`${prefix} must be an object`];
+    }
+
+    const kinds = ['field', 'all', 'any', 'not'].filter((kind) => kind in condition);
+    if (kinds.length !== 1) {
+      return [`${prefix} must have exactly one of field, all, any or not`];
+    }
+
+    if ('all' in condition || 'any' in condition) {
+      const kind = 'all' in condition ? 'all' : 'any';
+      const nested: RouteCondition[] = 'all' in condition ? condition.all : condition.any;
+
+      if (!Array.isArray(nested) || nested.length === 0) {
+        return [`${prefix}.${kind} must be a non-empty array`];
+      }
+
+      return nested.flatMap((child, index) =>
+        this.validateCondition(child, `${prefix}.${kind}[${index}]`),
+      );
+    }
+
+    if ('not' in condition) {
+      return this.validateCondition(condition.not, `${prefix}.not`);
+    }
+
+    const errors: string[] = [];
+    const { field, operator, value } = condition;
+
+    if (typeof field !== 'string' || field.trim() === '') {
+      errors.push(`${prefix}: Missing required field: field`);
     } else {
-      // Validate destination based on type
-      if (route.destination.type === 'http') {
-        if (!route.destination.endpoint) {
-          errors.push(`${prefix}: HTTP destination requires endpoint`);
-        }
+      try {
+        RouteMatchEngine.parseFieldPath(field);
+      } catch (error) {
+        errors.push(`${prefix}: ${(error as Error).message}`);
       }
+    }
+
+    if (!RouteMatchEngine.OPERATORS.includes(operator)) {
+      errors.push(`${prefix}: Unknown operator '${operator}'`);
+      return errors;
+    }
 
-      if (route.destination.type === 'queue' || route.destination.type === 'topic') {
-        if (!route.destination.queue) {
-          errors.push(`${prefix}: Queue/topic destination requires queue name`);
+    if (operator === 'in' || operator === 'notIn') {
+      if (!Array.isArray(value)) {
+        errors.push(`${prefix}: ${operator} requires an array value`);
+      }
+    } else if (operator === 'between') {
+      const [min, max] = Array.isArray(value) ? value : [];
+      const comparable =
+        Array.isArray(value) &&
+        value.length === 2 &&
+        (typeof min === 'number' || typeof min === 'string') &&
+        typeof min === typeof max;
+
+      if (!comparable) {
+        errors.push(`${prefix}: between requires [min, max] numbers or strings`);
+      } else if (min > max) {
+        errors.push(`${prefix}: between min must not exceed max`);
+      }
+    } else if (operator === 'greaterThan' || operator === 'lessThan') {
+      if (typeof value !== 'number') {
+        errors.push(`${prefix}: ${operator} requires a numeric value`);
+      }
+    } else if (operator === 'startsWith' || operator === 'endsWith' || operator === 'regex') {
+      if (typeof value !== 'string') {
+        errors.push(`${prefix}: ${operator} requires a string value`);
+      } else if (operator === 'regex') {
+        try {
+          new RegExp(value);
+        } catch {
+          errors.push(`${prefix}: Invalid regex '${value}'`);
         }
       }
+    } else if (operator === 'exists') {
+      if (value !== undefined && typeof value !== 'boolean') {
+        errors.push(`${prefix}: exists value must be a boolean`);
+      }
+    } else if (value === undefined) {
+      errors.push(`${prefix}: ${operator} requires a value`);
     }
 
     return errors;
@@ -223,6 +388,36 @@ export class RoutingConfigLoader {
     this.config = config;
   }
 
+  /**
+   * Enable or disable a route at runtime
+   *
+   * Swaps in a copy of the configuration, so events already matched are unaffected.
+   * The change lasts until the configuration is next loaded from file.
+   *
+   * @param name - Route name
+   * @param enabled - Whether the route should be enabled
+   * @returns The updated route
+   * @throws NotFoundError if no route has the given name
+   */
+  public setRouteEnabled(name: string, enabled: boolean): RouteDefinition {
+    const config = this.getConfig();
+    const existing = config.routes.find((route) => route.name === name);
+
+    if (!existing) {
+      throw new NotFoundError(`Route '${name}' not found`, { routeName: name });
+    }
+
+    const updated: RouteDefinition = { ...existing, enabled };
+    this.config = {
+      ...config,
+      routes: config.routes.map((route) => (route === existing ? updated : route)),
+    };
+
+    logger.info(`Route ${enabled ? 'enabled' : 'disabled'}`, { routeName: name });
+
+    return updated;
+  }
+
   /**
    * Get all routes
    *
@@ -270,3 +465,10 @@ export class RoutingConfigLoader {
     return this.config;
   }
 }
+
+/**
+ * Whether a parsed YAML value is a mapping (not null, a scalar or a list)
+ */
+function isObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,296 @@
+/**
+ * RoutingConfigWatcher
+ *
+ * Hot-reloads the routing configuration file with:
+ * - Periodic change detection (content hash, every settings.reloadInterval ms)
+ * - Validation via RoutingConfigLoader.validate before activation
+ * - Atomic swap of the active configuration (in-flight events keep their route)
+ * - Last-good-config retention and error reporting on invalid edits
+ */
+
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { logger } from '@smile/common';
+import { RoutingConfig } from '../messaging/types';
+import { RoutingConfigLoader } from './routing-config-loader';
+
+/**
+ * Reload status reported to operators
+ */
+export interface RoutingReloadStatus {
+  /** Watched configuration file */
+  filePath: string;
+
+  /** Whether the file is being watched for changes */
+  watching: boolean;
+
+  /** Poll interval in milliseconds */
+  reloadInterval: number;
+
+  /** Version of the active configuration */
+  activeVersion?: string;
+
+  /** When the active configuration was loaded */
+  activeSince?: Date;
+
+  /** Number of successful reloads since start */
+  reloadCount: number;
+
+  /** Number of rejected reloads since start */
+  failedReloadCount: number;
+
+  /** When the last reload was attempted */
+  lastAttemptAt?: Date;
+
+  /** Errors from the last rejected reload (cleared on success) */
+  lastErrors?: string[];
+}
+
+/**
+ * Result of a reload attempt
+ */
+export interface RoutingReloadResult {
+  /** Whether a new configuration was activated */
+  reloaded: boolean;
+
+  /** Validation or parse errors (if rejected) */
+  errors?: string[];
+}
+
+/**
+ * Routing configuration watcher
+ */
+export class RoutingConfigWatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private lastHash: string | null = null;
+  private reloadInterval = 0;
+  private activeSince: Date | null = null;
+  private reloadCount = 0;
+  private failedReloadCount = 0;
+  private lastAttemptAt: Date | null = null;
+  private lastErrors: string[] | null = null;
+
+  constructor(
+    private readonly loader: RoutingConfigLoader,
+    private readonly filePath: string,
+  ) {}
+
+  /**
+   * Start watching if the active configuration enables dynamic reload
+   *
+   * Must be called after the initial configuration has been loaded.
+   */
+  public start(): void {
+    const settings = this.loader.getSettings();
+
+    this.lastHash = this.hashFile();
+    this.activeSince = this.activeSince ?? new Date();
+
+    if (!settings.dynamicReload) {
+      logger.info('Routing configuration hot-reload disabled', { filePath: this.filePath });
+      return;
+    }
+
+    this.schedule(settings.reloadInterval);
+  }
+
+  /**
+   * Stop watching the configuration file
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Stopped watching routing configuration', { filePath: this.filePath });
+    }
+  }
+
+  /**
+   * Reload the configuration if the file content changed
+   *
+   * @returns Reload result
+   */
+  public checkForChanges(): RoutingReloadResult {
+    const hash = this.hashFile();
+
+    if (hash === null || hash === this.lastHash) {
+      return { reloaded: false };
+    }
+
+    return this.reload();
+  }
+
+  /**
+   * Read, validate and activate the configuration file
+   *
+   * An invalid file keeps the last good configuration active.
+   *
+   * @returns Reload result
+   */
+  public reload(): RoutingReloadResult {
+    this.lastAttemptAt = new Date();
+
+    let content: string;
+    try {
+      content = fs.readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      return this.rejectReload([(error as Error).message]);
+    }
+
+    // Remember the content so the same broken edit is not re-parsed every poll
+    this.lastHash = this.hash(content);
+
+    let config: RoutingConfig;
+    let errors: string[];
+    try {
+      config = this.loader.loadFromString(content);
+      errors =
+        config && typeof config === 'object' && !Array.isArray(config)
+          ? this.loader.validate(config)
+          : ['Configuration must be a YAML object'];
+    } catch (error) {
+      return this.rejectReload([(error as Error).message]);
+    }
+
+    if (errors.length > 0) {
+      return this.rejectReload(errors);
+    }
+
+    const previousVersion = this.loader.getConfig().metadata.version;
+
+    // Swap the reference: events already matched keep the route they were given
+    this.loader.setConfig(config);
+
+    this.activeSince = new Date();
+    this.reloadCount++;
+    this.lastErrors = null;
+
+    logger.info('Routing configuration reloaded', {
+      filePath: this.filePath,
+      previousVersion,
+      version: config.metadata.version,
+      routeCount: config.routes.length,
+    });
+
+    this.applySettings(config);
+
+    return { reloaded: true };
+  }
+
+  /**
+   * Get reload status
+   *
+   * @returns Current reload status
+   */
+  public getStatus(): RoutingReloadStatus {
+    const status: RoutingReloadStatus = {
+      filePath: this.filePath,
+      watching: this.timer !== null,
+      reloadInterval: this.reloadInterval,
+      reloadCount: this.reloadCount,
+      failedReloadCount: this.failedReloadCount,
+    };
+
+    try {
+      status.activeVersion = this.loader.getConfig().metadata.version;
+    } catch {
+      // Configuration not loaded yet
+    }
+    if (this.activeSince) {
+      status.activeSince = this.activeSince;
+    }
+    if (this.lastAttemptAt) {
+      status.lastAttemptAt = this.lastAttemptAt;
+    }
+    if (this.lastErrors) {
+      status.lastErrors = this.lastErrors;
+    }
+
+    return status;
+  }
+
+  /**
+   * Record a rejected reload
+   */
+  private rejectReload(errors: string[]): RoutingReloadResult {
+    this.failedReloadCount++;
+    this.lastErrors = errors;
+
+    logger.error('Routing configuration reload rejected, keeping last good configuration', {
+      filePath: this.filePath,
+      errors,
+    });
+
+    return { reloaded: false, errors };
+  }
+
+  /**
+   * Apply reload settings from a newly activated configuration
+   */
+  private applySettings(config: RoutingConfig): void {
+    if (!config.settings.dynamicReload) {
+      this.stop();
+      return;
+    }
+
+    if (!this.timer || config.settings.reloadInterval !== this.reloadInterval) {
+      this.schedule(config.settings.reloadInterval);
+    }
+  }
+
+  /**
+   * (Re)schedule the change detection timer
+   */
+  private schedule(interval: number): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    this.reloadInterval = interval;
+
+    this.timer = setInterval(() => this.poll(), interval);
+    this.timer.unref();
+
+    logger.info('Watching routing configuration for changes', {
+      filePath: this.filePath,
+      reloadInterval: interval,
+    });
+  }
+
+  /**
+   * Check for changes from the timer
+   *
+   * Any unexpected error rejects the reload instead of escaping the timer and
+   * crashing the process.
+   */
+  private poll(): void {
+    try {
+      this.checkForChanges();
+    } catch (error) {
+      this.rejectReload([(error as Error).message]);
+    }
+  }
+
+  /**
+   * Hash the current file content
+   *
+   * @returns Content hash, or null if the file cannot be read
+   */
+  private hashFile(): string | null {
+    try {
+      return this.hash(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (error) {
+      logger.warn('Unable to read routing configuration file', {
+        filePath: this.filePath,
+        error: (error as Error).message,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Hash configuration content
+   */
+  private hash(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * JsonSchemaValidator Unit Tests
+ *
+ * Tests the supported keywords and the paths reported for violations
+ */
+
+import { JsonSchema, JsonSchemaValidator } from '../json-schema-validator';
+
+describe('JsonSchemaValidator', () => {
+  const validator = new JsonSchemaValidator();
+
+  const messages = (schema: JsonSchema, value: unknown): string[] =>
+    validator.validate(schema, value, 'data').map((error) => `${error.path}: ${error.message}`);
+
+  it('should accept conforming values', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      required: ['orderId'],
+      properties: {
+        orderId: { type: 'string', minLength: 1 },
+        itemCount: { type: 'integer', minimum: 0 },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+    };
+
+    expect(messages(schema, { orderId: 'ORD-1', itemCount: 3, tags: ['urgent'] })).toEqual([]);
+  });
+
+  it('should report nested violations with their paths', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        eventData: {
+          type: 'object',
+          required: ['orderId'],
+          properties: {
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { quantity: { type: 'integer', exclusiveMinimum: 0 } },
+              },
+            },
+          },
+        },
+      },
+    };
+
+    const items = [{ quantity: 1 }, { quantity: 1.5 }, { quantity: 0 }];
+
+    expect(messages(schema, { eventData: { items } })).toEqual([
+      'data.eventData.orderId: is required',
+      'data.eventData.items[1].quantity: must be integer',
+      'data.eventData.items[2].quantity: must be > 0',
+    ]);
+  });
+
+  it('should check enum, const, pattern and length', () => {
+    expect(messages({ enum: ['low', 'high'] }, 'medium')).toEqual([
+      'data: must be one of "low", "high"',
+    ]);
+    expect(messages({ const: 'orders-service' }, 'health-service')).toEqual([
+      'data: must be "orders-service"',
+    ]);
+    expect(messages({ type: 'string', pattern: '^ORD-\\d+$' }, 'ORD-x')).toEqual([
+      "data: must match pattern '^ORD-\\d+$'",
+    ]);
+    expect(messages({ type: 'string', maxLength: 3 }, 'abcd')).toEqual([
+      'data: must be at most 3 characters',
+    ]);
+  });
+
+  it('should check formats', () => {
+    expect(messages({ format: 'date-time' }, '2025-10-10T08:00:00Z')).toEqual([]);
+    expect(messages({ format: 'date-time' }, '2025-10-10')).toEqual([
+      'data: must be a valid date-time',
+    ]);
+    expect(messages({ format: 'date' }, '2025-02-30')).toEqual(['data: must be a valid date']);
+    expect(messages({ format: 'email' }, 'nobody')).toEqual(['data: must be a valid email']);
+    expect(messages({ format: 'unknown-format' }, 'anything')).toEqual([]);
+  });
+
+  it('should reject additional properties when disallowed', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { orderId: { type: 'string' } },
+      additionalProperties: false,
+    };
+
+    expect(messages(schema, { orderId: 'ORD-1', extra: true })).toEqual([
+      'data.extra: is not allowed',
+    ]);
+  });
+
+  it('should support combinators', () => {
+    const schema: JsonSchema = {
+      anyOf: [{ type: 'string' }, { type: 'number' }],
+      not: { const: 0 },
+    };
+
+    expect(messages(schema, 'a')).toEqual([]);
+    expect(messages(schema, 0)).toEqual(['data: must not match the excluded schema']);
+    expect(messages(schema, true)).toEqual([
+      'data: must match at least one allowed schema',
+      'data: must be string',
+    ]);
+    expect(messages({ oneOf: [{ type: 'number' }, { type: 'integer' }] }, 1)).toEqual([
+      'data: must match exactly one allowed schema (matched 2)',
+    ]);
+  });
+
+  it('should resolve local references', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { priority: { $ref: '#/definitions/priority' } },
+      definitions: { priority: { enum: ['low', 'urgent'] } },
+    };
+
+    expect(messages(schema, { priority: 'urgent' })).toEqual([]);
+    expect(messages(schema, { priority: 'soon' })).toEqual([
+      'data.priority: must be one of "low", "urgent"',
+    ]);
+    expect(() => messages({ $ref: '#/definitions/missing' }, {})).toThrow(
+      "Unresolvable schema reference '#/definitions/missing'",
+    );
+  });
+});
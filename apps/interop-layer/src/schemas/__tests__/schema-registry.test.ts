@@ -0,0 +1,185 @@
+/**
+ * SchemaRegistry Unit Tests
+ *
+ * Tests schema selection by dataschema, event version and latest version,
+ * loading from a directory and the bundled event schemas
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SchemaRegistry } from '../schema-registry';
+
+jest.mock('@smile/common', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('SchemaRegistry', () => {
+  const orderSchema = (required: string[]) => ({
+    type: 'object' as const,
+    properties: { eventData: { type: 'object' as const, required } },
+  });
+
+  const createEvent = (eventData: any, extra: Record<string, any> = {}) => ({
+    specversion: '1.0',
+    type: 'order.approved',
+    source: 'urn:smile:orders-service',
+    id: 'evt-1',
+    data: { eventData, metadata: { eventVersion: '1.0' } },
+    ...extra,
+  });
+
+  let registry: SchemaRegistry;
+
+  beforeEach(() => {
+    registry = new SchemaRegistry();
+    registry.register('order.approved', '1.0', orderSchema(['orderId']));
+    registry.register('order.approved', '2.0', {
+      $id: 'https://schemas.smile.org/order.approved/2.0',
+      ...orderSchema(['orderId', 'approvedBy']),
+    });
+  });
+
+  it('should list registered schemas with their URIs', () => {
+    expect(registry.list()).toEqual([
+      { type: 'order.approved', version: '1.0', uri: 'urn:smile:schemas:order.approved:1.0' },
+      {
+        type: 'order.approved',
+        version: '2.0',
+        uri: 'https://schemas.smile.org/order.approved/2.0',
+      },
+    ]);
+  });
+
+  it('should select the schema by the event version', () => {
+    const result = registry.validate(createEvent({ orderId: 'ORD-1' }));
+
+    expect(result).toEqual({
+      valid: true,
+      schema: 'urn:smile:schemas:order.approved:1.0',
+      errors: [],
+    });
+  });
+
+  it('should prefer the dataschema attribute', () => {
+    const result = registry.validate(
+      createEvent(
+        { orderId: 'ORD-1' },
+        { dataschema: 'https://schemas.smile.org/order.approved/2.0' },
+      ),
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([{ path: 'data.eventData.approvedBy', message: 'is required' }]);
+  });
+
+  it('should use the latest version when the event has none', () => {
+    const event = createEvent({ orderId: 'ORD-1' });
+    delete (event.data as any).metadata;
+
+    expect(registry.validate(event).schema).toBe('https://schemas.smile.org/order.approved/2.0');
+  });
+
+  it('should reject a dataschema registered for another type', () => {
+    const result = registry.validate(
+      createEvent(
+        {},
+        { type: 'order.created', dataschema: 'urn:smile:schemas:order.approved:1.0' },
+      ),
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]?.path).toBe('dataschema');
+  });
+
+  it('should accept events without a schema unless schemas are required', () => {
+    const event = createEvent({}, { type: 'order.unknown' });
+
+    expect(registry.validate(event).valid).toBe(true);
+    expect(new SchemaRegistry({ requireSchema: true }).validate(event)).toEqual({
+      valid: false,
+      errors: [{ path: 'type', message: 'no data schema registered for order.unknown' }],
+    });
+  });
+
+  it('should not register a URI twice for different schemas', () => {
+    expect(() =>
+      registry.register('order.created', '1.0', {
+        $id: 'https://schemas.smile.org/order.approved/2.0',
+      }),
+    ).toThrow('is already registered for order.approved 2.0');
+  });
+
+  describe('loadFromDirectory()', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'schemas-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should load <type>/<version>.json files', async () => {
+      await fs.mkdir(path.join(directory, 'order.created'));
+      await fs.writeFile(path.join(directory, 'order.created', '1.0.json'), '{"type":"object"}');
+      await fs.writeFile(path.join(directory, 'README.md'), 'not a schema');
+
+      const loaded = await new SchemaRegistry().loadFromDirectory(directory);
+
+      expect(loaded).toBe(1);
+    });
+
+    it('should name the file that fails to parse', async () => {
+      await fs.mkdir(path.join(directory, 'order.created'));
+      await fs.writeFile(path.join(directory, 'order.created', '1.0.json'), '{');
+
+      await expect(new SchemaRegistry().loadFromDirectory(directory)).rejects.toThrow(
+        `Failed to load schema ${path.join(directory, 'order.created', '1.0.json')}`,
+      );
+    });
+
+    it('should validate producer events against the bundled schemas', async () => {
+      const bundled = new SchemaRegistry({ requireSchema: true });
+      await bundled.loadFromDirectory(path.resolve(__dirname, '../../../config/schemas'));
+
+      const metadata = {
+        facilityId: 'FAC-001',
+        userId: 'user-1',
+        correlationId: 'evt-1',
+        service: 'orders-service',
+        containsPII: false,
+        dataClassification: 'internal',
+        eventVersion: '1.0',
+      };
+      const approved = {
+        orderId: 'ORD-1',
+        orderType: 'medicine',
+        priority: 'urgent',
+        approvedBy: 'manager-1',
+        approvalDate: '2025-10-10T08:00:00.000Z',
+        estimatedValue: 1200,
+      };
+
+      expect(bundled.validate(createEvent(approved, { data: { eventData: approved, metadata } })))
+        .toMatchObject({ valid: true });
+
+      const malformed = { ...approved, priority: 'asap' };
+      expect(
+        bundled.validate(createEvent(malformed, { data: { eventData: malformed, metadata } }))
+          .errors,
+      ).toEqual([
+        {
+          path: 'data.eventData.priority',
+          message: 'must be one of "low", "normal", "high", "urgent"',
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * JSON Schema Validator
+ *
+ * Validates values against the JSON Schema (draft-07 / 2019-09) keywords used by
+ * event data schemas:
+ * - type, enum, const
+ * - properties, required, additionalProperties
+ * - items, minItems, maxItems, uniqueItems
+ * - minLength, maxLength, pattern, format (date-time, date, email, uri, uuid)
+ * - minimum, maximum, exclusiveMinimum, exclusiveMaximum
+ * - allOf, anyOf, oneOf, not
+ * - $ref to local definitions (#/definitions/... or #/$defs/...)
+ *
+ * Other keywords (title, description, $id, x-*, ...) are ignored.
+ */
+
+/**
+ * JSON Schema document (or subschema)
+ */
+export interface JsonSchema {
+  $id?: string;
+  $ref?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  not?: JsonSchema;
+  definitions?: Record<string, JsonSchema>;
+  $defs?: Record<string, JsonSchema>;
+  [keyword: string]: unknown;
+}
+
+/**
+ * JSON Schema primitive type
+ */
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/**
+ * A schema violation at a path in the validated value
+ */
+export interface SchemaError {
+  /** Path of the offending value (e.g. data.items[2].quantity) */
+  path: string;
+
+  /** What is wrong */
+  message: string;
+}
+
+/**
+ * String formats
+ */
+const FORMATS: Record<string, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z0-9+.-]*:[^\s]*$/i,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+};
+
+/**
+ * JSON Schema validator
+ */
+export class JsonSchemaValidator {
+  /**
+   * Validate a value against a schema
+   *
+   * @param schema - Root schema ($ref targets are resolved against it)
+   * @param value - Value to validate
+   * @param path - Path of the value, used as prefix in error paths
+   * @returns Schema violations (empty if the value conforms)
+   * @throws Error if the schema contains an unresolvable $ref
+   */
+  public validate(schema: JsonSchema, value: unknown, path: string = '$'): SchemaError[] {
+    const errors: SchemaError[] = [];
+    this.validateNode(schema, schema, value, path, errors);
+    return errors;
+  }
+
+  /**
+   * Validate a value against a subschema, collecting errors
+   */
+  private validateNode(
+    root: JsonSchema,
+    schema: JsonSchema,
+    value: unknown,
+    path: string,
+    errors: SchemaError[],
+  ): void {
+    if (schema.$ref !== undefined) {
+      this.validateNode(root, this.resolveRef(root, schema.$ref), value, path, errors);
+    }
+
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some((type) => this.isType(value, type))) {
+        errors.push({ path, message: `must be ${types.join(' or ')}` });
+        return;
+      }
+    }
+
+    if (schema.enum !== undefined && !schema.enum.some((option) => this.equals(option, value))) {
+      errors.push({
+        path,
+        message: `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`,
+      });
+    }
+
+    if (schema.const !== undefined && !this.equals(schema.const, value)) {
+      errors.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+    }
+
+    if (typeof value === 'string') {
+      this.validateString(schema, value, path, errors);
+    } else if (typeof value === 'number') {
+      this.validateNumber(schema, value, path, errors);
+    } else if (Array.isArray(value)) {
+      this.validateArray(root, schema, value, path, errors);
+    } else if (typeof value === 'object' && value !== null) {
+      this.validateObject(root, schema, value as Record<string, unknown>, path, errors);
+    }
+
+    this.validateCombinators(root, schema, value, path, errors);
+  }
+
+  /**
+   * Validate string keywords
+   */
+  private validateString(
+    schema: JsonSchema,
+    value: string,
+    path: string,
+    errors: SchemaError[],
+  ): void {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      errors.push({ path, message: `must match pattern '${schema.pattern}'` });
+    }
+
+    const format = schema.format !== undefined ? FORMATS[schema.format] : undefined;
+    if (format && (!format.test(value) || !this.isValidDate(schema.format!, value))) {
+      errors.push({ path, message: `must be a valid ${schema.format}` });
+    }
+  }
+
+  /**
+   * Validate number keywords
+   */
+  private validateNumber(
+    schema: JsonSchema,
+    value: number,
+    path: string,
+    errors: SchemaError[],
+  ): void {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      errors.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      errors.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+    }
+  }
+
+  /**
+   * Validate array keywords
+   */
+  private validateArray(
+    root: JsonSchema,
+    schema: JsonSchema,
+    value: unknown[],
+    path: string,
+    errors: SchemaError[],
+  ): void {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.uniqueItems) {
+      const seen = new Set(value.map((item) => JSON.stringify(item)));
+      if (seen.size !== value.length) {
+        errors.push({ path, message: 'must not contain duplicate items' });
+      }
+    }
+
+    if (schema.items !== undefined) {
+      value.forEach((item, index) =>
+        this.validateNode(root, schema.items!, item, `${path}[${index}]`, errors),
+      );
+    }
+  }
+
+  /**
+   * Validate object keywords
+   */
+  private validateObject(
+    root: JsonSchema,
+    schema: JsonSchema,
+    value: Record<string, unknown>,
+    path: string,
+    errors: SchemaError[],
+  ): void {
+    for (const property of schema.required ?? []) {
+      if (value[property] === undefined) {
+        errors.push({ path: `${path}.${property}`, message: 'is required' });
+      }
+    }
+
+    const properties = schema.properties ?? {};
+    for (const [property, propertyValue] of Object.entries(value)) {
+      const propertyPath = `${path}.${property}`;
+      const propertySchema = properties[property];
+
+      if (propertySchema !== undefined) {
+        this.validateNode(root, propertySchema, propertyValue, propertyPath, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: propertyPath, message: 'is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        this.validateNode(root, schema.additionalProperties, propertyValue, propertyPath, errors);
+      }
+    }
+  }
+
+  /**
+   * Validate allOf, anyOf, oneOf and not
+   */
+  private validateCombinators(
+    root: JsonSchema,
+    schema: JsonSchema,
+    value: unknown,
+    path: string,
+    errors: SchemaError[],
+  ): void {
+    for (const subschema of schema.allOf ?? []) {
+      this.validateNode(root, subschema, value, path, errors);
+    }
+
+    if (schema.anyOf !== undefined) {
+      const results = schema.anyOf.map((subschema) => this.collect(root, subschema, value, path));
+      if (!results.some((result) => result.length === 0)) {
+        // Report the closest alternative
+        const closest = results.reduce((best, result) =>
+          result.length < best.length ? result : best,
+        );
+        errors.push({ path, message: 'must match at least one allowed schema' }, ...closest);
+      }
+    }
+
+    if (schema.oneOf !== undefined) {
+      const matches = schema.oneOf.filter(
+        (subschema) => this.collect(root, subschema, value, path).length === 0,
+      ).length;
+      if (matches !== 1) {
+        errors.push({
+          path,
+          message: `must match exactly one allowed schema (matched ${matches})`,
+        });
+      }
+    }
+
+    if (schema.not !== undefined && this.collect(root, schema.not, value, path).length === 0) {
+      errors.push({ path, message: 'must not match the excluded schema' });
+    }
+  }
+
+  /**
+   * Validate against a subschema, returning its errors
+   */
+  private collect(
+    root: JsonSchema,
+    schema: JsonSchema,
+    value: unknown,
+    path: string,
+  ): SchemaError[] {
+    const errors: SchemaError[] = [];
+    this.validateNode(root, schema, value, path, errors);
+    return errors;
+  }
+
+  /**
+   * Resolve a local $ref
+   *
+   * @throws Error if the reference is not a local definition
+   */
+  private resolveRef(root: JsonSchema, ref: string): JsonSchema {
+    if (ref === '#') {
+      return root;
+    }
+
+    const match = /^#\/(definitions|\$defs)\/(.+)$/.exec(ref);
+    const definitions = match
+      ? (root[match[1]!] as Record<string, JsonSchema> | undefined)
+      : undefined;
+    const target = match ? definitions?.[match[2]!] : undefined;
+    if (!target) {
+      throw new Error(`Unresolvable schema reference '${ref}'`);
+    }
+
+    return target;
+  }
+
+  /**
+   * Check a value against a JSON Schema type
+   */
+  private isType(value: unknown, type: JsonSchemaType): boolean {
+    if (type === 'integer') {
+      return Number.isInteger(value);
+    }
+    if (type === 'number') {
+      return typeof value === 'number' && Number.isFinite(value);
+    }
+    if (type === 'array') {
+      return Array.isArray(value);
+    }
+    if (type === 'object') {
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+    if (type === 'null') {
+      return value === null;
+    }
+    return typeof value === type;
+  }
+
+  /**
+   * Check that a date or date-time string is a real calendar date
+   */
+  private isValidDate(format: string, value: string): boolean {
+    if (format === 'date') {
+      const date = new Date(`${value}T00:00:00Z`);
+      return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+    }
+    if (format === 'date-time') {
+      return !Number.isNaN(new Date(value).getTime());
+    }
+    return true;
+  }
+
+  /**
+   * Deep equality for enum and const
+   */
+  private equals(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+}
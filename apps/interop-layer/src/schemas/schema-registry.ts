@@ -0,0 +1,253 @@
+/**
+ * SchemaRegistry
+ *
+ * Maps CloudEvent types and versions to JSON Schemas for their `data`:
+ * - Schemas are registered per type and version, or loaded from a directory
+ *   laid out as <directory>/<type>/<version>.json
+ * - Each schema is identified by its $id, or urn:smile:schemas:<type>:<version>
+ * - The schema for an event is selected by its `dataschema` attribute, then by
+ *   data.metadata.eventVersion, then the latest registered version of its type
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '@smile/common';
+import { JsonSchema, JsonSchemaValidator, SchemaError } from './json-schema-validator';
+
+/**
+ * Registered schema summary
+ */
+export interface RegisteredSchema {
+  /** CloudEvent type */
+  type: string;
+
+  /** Schema version */
+  version: string;
+
+  /** Schema URI (matched against the dataschema attribute) */
+  uri: string;
+}
+
+/**
+ * Result of validating an event's data
+ */
+export interface SchemaValidationResult {
+  /** Whether the data conforms (or no schema applies) */
+  valid: boolean;
+
+  /** URI of the schema the data was validated against */
+  schema?: string;
+
+  /** Schema violations */
+  errors: SchemaError[];
+}
+
+/**
+ * SchemaRegistry options
+ */
+export interface SchemaRegistryOptions {
+  /** Reject events whose type has no registered schema (default: false) */
+  requireSchema?: boolean;
+}
+
+/**
+ * Registered schema with its document
+ */
+interface SchemaEntry extends RegisteredSchema {
+  schema: JsonSchema;
+}
+
+/**
+ * Schema registry
+ */
+export class SchemaRegistry {
+  private readonly validator = new JsonSchemaValidator();
+  private readonly byUri = new Map<string, SchemaEntry>();
+  private readonly byType = new Map<string, Map<string, SchemaEntry>>();
+
+  constructor(private readonly options: SchemaRegistryOptions = {}) {}
+
+  /**
+   * Register a data schema for an event type and version
+   *
+   * @param type - CloudEvent type (e.g. order.approved)
+   * @param version - Schema version (e.g. 1.0)
+   * @param schema - JSON Schema for the event data
+   * @returns The registered schema
+   * @throws Error if the schema is not an object or its URI is already registered
+   */
+  public register(type: string, version: string, schema: JsonSchema): RegisteredSchema {
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+      throw new Error(`Schema for ${type} ${version} must be an object`);
+    }
+
+    const uri = schema.$id ?? `urn:smile:schemas:${type}:${version}`;
+    const existing = this.byUri.get(uri);
+    if (existing && (existing.type !== type || existing.version !== version)) {
+      throw new Error(
+        `Schema URI '${uri}' is already registered for ${existing.type} ${existing.version}`,
+      );
+    }
+
+    const previous = this.byType.get(type)?.get(version);
+    if (previous) {
+      this.byUri.delete(previous.uri);
+    }
+
+    const entry: SchemaEntry = { type, version, uri, schema };
+    this.byUri.set(uri, entry);
+    if (!this.byType.has(type)) {
+      this.byType.set(type, new Map());
+    }
+    this.byType.get(type)!.set(version, entry);
+
+    logger.debug('Registered event data schema', { type, version, uri });
+
+    return { type, version, uri };
+  }
+
+  /**
+   * Load schemas from a directory laid out as <directory>/<type>/<version>.json
+   *
+   * @param directory - Schema directory
+   * @returns Number of schemas loaded
+   * @throws Error if a schema file cannot be read or parsed
+   */
+  public async loadFromDirectory(directory: string): Promise<number> {
+    const types = await fs.promises.readdir(directory, { withFileTypes: true });
+    let loaded = 0;
+
+    for (const typeEntry of types) {
+      if (!typeEntry.isDirectory()) {
+        continue;
+      }
+
+      const typeDirectory = path.join(directory, typeEntry.name);
+      const files = await fs.promises.readdir(typeDirectory);
+
+      for (const file of files.filter((name) => name.endsWith('.json'))) {
+        const filePath = path.join(typeDirectory, file);
+
+        try {
+          const schema = JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as JsonSchema;
+          this.register(typeEntry.name, path.basename(file, '.json'), schema);
+          loaded++;
+        } catch (error) {
+          throw new Error(`Failed to load schema ${filePath}: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    logger.info('Event data schemas loaded', { directory, schemas: loaded });
+
+    return loaded;
+  }
+
+  /**
+   * Validate an event's data against its schema
+   *
+   * @param event - The CloudEvent (envelope already validated)
+   * @returns Validation result with errors at paths such as data.eventData.orderId
+   * @throws Error if the schema contains an unresolvable $ref
+   */
+  public validate(event: Record<string, unknown>): SchemaValidationResult {
+    const dataschema = event.dataschema;
+    const declared = typeof dataschema === 'string' ? this.byUri.get(dataschema) : undefined;
+
+    if (declared && declared.type !== event.type) {
+      return {
+        valid: false,
+        errors: [
+          {
+            path: 'dataschema',
+            message: `'${declared.uri}' is registered for ${declared.type}, not ${event.type}`,
+          },
+        ],
+      };
+    }
+
+    const entry = declared ?? this.findByType(event);
+    if (!entry) {
+      if (!this.options.requireSchema) {
+        return { valid: true, errors: [] };
+      }
+
+      return {
+        valid: false,
+        errors: [
+          typeof dataschema === 'string'
+            ? { path: 'dataschema', message: `unknown schema '${dataschema}'` }
+            : { path: 'type', message: `no data schema registered for ${event.type}` },
+        ],
+      };
+    }
+
+    const errors = this.validator.validate(entry.schema, event.data, 'data');
+
+    return { valid: errors.length === 0, schema: entry.uri, errors };
+  }
+
+  /**
+   * List registered schemas, ordered by type and version
+   *
+   * @returns Registered schemas
+   */
+  public list(): RegisteredSchema[] {
+    return [...this.byUri.values()]
+      .map(({ type, version, uri }) => ({ type, version, uri }))
+      .sort(
+        (a, b) => a.type.localeCompare(b.type) || this.compareVersions(a.version, b.version),
+      );
+  }
+
+  /**
+   * Find the schema for an event without a (known) dataschema
+   *
+   * Uses data.metadata.eventVersion if present, else the latest version.
+   */
+  private findByType(event: Record<string, unknown>): SchemaEntry | undefined {
+    const type = event.type;
+    const versions = typeof type === 'string' ? this.byType.get(type) : undefined;
+    if (!versions) {
+      return undefined;
+    }
+
+    const metadata = this.getProperty(event.data, 'metadata');
+    const eventVersion = this.getProperty(metadata, 'eventVersion');
+    if (eventVersion !== undefined && versions.has(String(eventVersion))) {
+      return versions.get(String(eventVersion));
+    }
+
+    const latest = [...versions.keys()].sort((a, b) => this.compareVersions(b, a))[0];
+    return latest !== undefined ? versions.get(latest) : undefined;
+  }
+
+  /**
+   * Get a property of a value if it is an object
+   */
+  private getProperty(value: unknown, name: string): unknown {
+    return typeof value === 'object' && value !== null
+      ? (value as Record<string, unknown>)[name]
+      : undefined;
+  }
+
+  /**
+   * Compare dotted version strings numerically (1.10 > 1.9)
+   */
+  private compareVersions(a: string, b: string): number {
+    const left = a.split('.');
+    const right = b.split('.');
+
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      const x = left[i] ?? '0';
+      const y = right[i] ?? '0';
+      const difference =
+        /^\d+$/.test(x) && /^\d+$/.test(y) ? Number(x) - Number(y) : x.localeCompare(y);
+      if (difference !== 0) {
+        return difference;
+      }
+    }
+
+    return 0;
+  }
+}
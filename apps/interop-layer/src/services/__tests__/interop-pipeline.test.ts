@@ -0,0 +1,181 @@
+/**
+ * Interop Pipeline Integration Tests
+ *
+ * Runs the event pipeline in-process on the in-memory broker: order events
+ * emitted by the cloud-events EventEmitter, and partner events published
+ * through the HTTP ingress, are consumed by the InteropService and forwarded
+ * to (a mocked) OpenHIM, with retries and dead-lettering.
+ */
+
+import { CloudEvent } from 'cloudevents';
+import { EventEmitter, InMemoryBroker } from '@smile/cloud-events';
+import { InteropService } from '../interop-service';
+import { OpenHIMBridge } from '../../bridge/openhim-bridge';
+import { QueueConsumerConfig } from '../../messaging/types';
+
+jest.mock('../../bridge/openhim-bridge');
+jest.mock('@smile/common', () => ({
+  ...jest.requireActual('@smile/common'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('Interop pipeline (in-memory broker)', () => {
+  let broker: InMemoryBroker;
+  let emitter: EventEmitter;
+  let service: InteropService;
+  let sendToOpenHIM: jest.Mock;
+
+  const ordersConsumer: QueueConsumerConfig = {
+    name: 'orders-consumer',
+    queue: 'interop.orders.queue',
+    exchange: 'orders.events',
+    exchangeType: 'topic',
+    routingKey: 'orders.#',
+    enabled: true,
+    retry: { maxAttempts: 2, initialDelay: 20, maxDelay: 20, backoffMultiplier: 1 },
+    dlq: {
+      queue: 'interop.orders.dlq',
+      exchange: 'interop.dlx',
+      routingKey: 'interop.orders.queue',
+    },
+  };
+
+  const healthConsumer: QueueConsumerConfig = {
+    name: 'health-consumer',
+    queue: 'interop.health.queue',
+    exchange: 'health.events',
+    exchangeType: 'topic',
+    routingKey: 'health.#',
+    enabled: true,
+  };
+
+  const orderEvent = (id: string, type = 'order.approved'): CloudEvent<unknown> =>
+    new CloudEvent({
+      id,
+      type,
+      source: 'urn:smile:orders-service',
+      datacontenttype: 'application/json',
+      data: { orderId: 'order-1' },
+    });
+
+  const waitFor = async (condition: () => boolean, timeout = 2000): Promise<void> => {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for the pipeline');
+      }
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  };
+
+  beforeEach(async () => {
+    broker = new InMemoryBroker();
+
+    service = new InteropService({
+      rabbitmq: {
+        url: 'amqp://in-memory',
+        prefetchCount: 10,
+        reconnectDelay: 1000,
+        maxReconnectAttempts: 1,
+        transport: broker,
+      },
+      openhim: {
+        baseUrl: 'http://localhost:5001',
+        defaultEndpoint: 'http://localhost:5001/events',
+        username: 'test@openhim.org',
+        password: 'test-password',
+        timeout: 1000,
+        retryAttempts: 0,
+        retryDelay: 0,
+      },
+      consumers: [ordersConsumer, healthConsumer],
+      consumerOptions: { drainTimeout: 1000 },
+      ingress: {
+        clients: [{ name: 'district-lab', apiKey: 'lab-key', sources: ['urn:district:lab-*'] }],
+        exchanges: [{ source: 'urn:district:lab-*', exchange: 'health.events' }],
+      },
+    });
+    const bridge = (OpenHIMBridge as jest.MockedClass<typeof OpenHIMBridge>).mock.instances[0]!;
+    sendToOpenHIM = bridge.sendToOpenHIM as jest.Mock;
+    sendToOpenHIM.mockResolvedValue({ success: true, statusCode: 200 });
+
+    emitter = new EventEmitter({
+      rabbitmqUrl: 'amqp://in-memory',
+      exchange: 'orders.events',
+      routingKey: 'orders.event',
+      transport: broker,
+    });
+
+    await service.start();
+    await emitter.connect();
+  });
+
+  afterEach(async () => {
+    await emitter.close();
+    await service.stop();
+    broker.close();
+    jest.clearAllMocks();
+  });
+
+  it('should forward emitted order events to OpenHIM', async () => {
+    await emitter.emit(orderEvent('evt-1'), 'orders.order.approved');
+
+    await waitFor(() => sendToOpenHIM.mock.calls.length === 1);
+
+    expect(sendToOpenHIM).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'evt-1', type: 'order.approved' }),
+      expect.any(String),
+    );
+    await waitFor(() => broker.getQueueStats('interop.orders.queue')?.unacknowledgedCount === 0);
+  });
+
+  it('should not consume events outside the bound routing keys', async () => {
+    await emitter.emit(orderEvent('evt-1'), 'inventory.item.updated');
+    await emitter.emit(orderEvent('evt-2'), 'orders.order.shipped');
+
+    await waitFor(() => sendToOpenHIM.mock.calls.length === 1);
+
+    expect(sendToOpenHIM.mock.calls[0]![0]).toEqual(expect.objectContaining({ id: 'evt-2' }));
+  });
+
+  it('should retry an event OpenHIM failed to accept', async () => {
+    sendToOpenHIM.mockResolvedValueOnce({ success: false, error: 'OpenHIM unavailable' });
+
+    await emitter.emit(orderEvent('evt-1'), 'orders.order.approved');
+
+    await waitFor(() => sendToOpenHIM.mock.calls.length === 2);
+    expect(broker.getQueueStats('interop.orders.dlq')?.messageCount).toBe(0);
+  });
+
+  it('should dead-letter an event once its retries are exhausted', async () => {
+    sendToOpenHIM.mockResolvedValue({ success: false, error: 'OpenHIM unavailable' });
+
+    await emitter.emit(orderEvent('evt-1'), 'orders.order.approved');
+
+    await waitFor(() => broker.getQueueStats('interop.orders.dlq')?.messageCount === 1);
+    expect(sendToOpenHIM).toHaveBeenCalledTimes(2);
+  });
+
+  it('should forward partner events published through the HTTP ingress', async () => {
+    const client = service.authenticateIngressClient('lab-key');
+
+    const published = await service.publishIngressEvents(client, [{
+      specversion: '1.0',
+      id: 'lab-1',
+      source: 'urn:district:lab-system',
+      type: 'health.lab.result-available',
+      data: { resultId: 'R-1' },
+    }]);
+
+    expect(published).toEqual([
+      { id: 'lab-1', exchange: 'health.events', routingKey: 'health.lab.result-available' },
+    ]);
+    await waitFor(() => sendToOpenHIM.mock.calls.length === 1);
+    expect(sendToOpenHIM.mock.calls[0]![0]).toEqual(expect.objectContaining({ id: 'lab-1' }));
+  });
+});
@@ -5,15 +5,46 @@
  * EventConsumer with OpenHIM Bridge
  */
 
+import {
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '@smile/common';
 import { InteropService } from '../interop-service';
 import { ConnectionManager } from '../../messaging/connection-manager';
 import { OpenHIMBridge } from '../../bridge/openhim-bridge';
 import { EventConsumer } from '../../consumer/event-consumer';
+import { EventRouter } from '../../routing/event-router';
+import { RoutingConfigLoader } from '../../routing/routing-config-loader';
+import { RoutingConfigWatcher } from '../../routing/routing-config-watcher';
+import { RouteMetrics } from '../../routing/route-metrics';
+import { DeadLetterManager } from '../../consumer/dead-letter-manager';
+import { InMemoryDeduplicationStore } from '../../consumer/deduplication-store';
+import { FileDeduplicationStore } from '../../consumer/file-deduplication-store';
+import { EventArchive } from '../../archive/event-archive';
+import { SubscriptionManager } from '../../subscriptions/subscription-manager';
 
 // Mock dependencies
+// The real logger runs pino-pretty in a worker thread that keeps Jest from exiting
+jest.mock('@smile/common/dist/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
 jest.mock('../../messaging/connection-manager');
 jest.mock('../../bridge/openhim-bridge');
 jest.mock('../../consumer/event-consumer');
+jest.mock('../../routing/event-router');
+jest.mock('../../routing/routing-config-loader');
+jest.mock('../../routing/routing-config-watcher');
+jest.mock('../../consumer/dead-letter-manager');
+jest.mock('../../consumer/file-deduplication-store');
+jest.mock('../../archive/event-archive');
+jest.mock('../../subscriptions/subscription-manager');
 
 describe('InteropService', () => {
   let service: InteropService;
@@ -28,8 +59,11 @@ describe('InteropService', () => {
       maxReconnectAttempts: 10,
     },
     openhim: {
-      healthEndpoint: 'http://localhost:5001/health',
-      ordersEndpoint: 'http://localhost:5001/orders',
+      baseUrl: 'http://localhost:5001',
+      endpoints: [
+        { name: 'health', source: 'urn:smile:health-service', channel: '/health' },
+        { name: 'orders', source: 'urn:smile:orders-service', channel: '/orders' },
+      ],
       defaultEndpoint: 'http://localhost:5001/events',
       username: 'test@openhim.org',
       password: 'test-password',
@@ -76,6 +110,7 @@ describe('InteropService', () => {
         failedRequests: 0,
         averageResponseTimeMs: 0,
       }),
+      destroy: jest.fn(),
     } as any;
 
     (ConnectionManager as jest.MockedClass<typeof ConnectionManager>).mockImplementation(
@@ -89,6 +124,10 @@ describe('InteropService', () => {
     service = new InteropService(mockConfig);
   });
 
+  afterEach(async () => {
+    await service.stop();
+  });
+
   describe('constructor', () => {
     it('should create service with valid configuration', () => {
       expect(service).toBeInstanceOf(InteropService);
@@ -105,6 +144,31 @@ describe('InteropService', () => {
     it('should create EventConsumers for each enabled consumer config', () => {
       expect(EventConsumer).toHaveBeenCalledTimes(2);
     });
+
+    it('should share an in-memory deduplication store by default', () => {
+      const calls = (EventConsumer as jest.MockedClass<typeof EventConsumer>).mock.calls;
+
+      expect(calls[0]?.[4]).toBeInstanceOf(InMemoryDeduplicationStore);
+      expect(calls[1]?.[4]).toBe(calls[0]?.[4]);
+    });
+
+    it('should create a file deduplication store when configured', () => {
+      jest.clearAllMocks();
+      new InteropService({
+        ...mockConfig,
+        deduplicationStore: { type: 'file', path: '/var/lib/interop/dedup.log' },
+      });
+
+      expect(FileDeduplicationStore).toHaveBeenCalledWith('/var/lib/interop/dedup.log');
+      const calls = (EventConsumer as jest.MockedClass<typeof EventConsumer>).mock.calls;
+      expect(calls[0]?.[4]).toBeInstanceOf(FileDeduplicationStore);
+    });
+
+    it('should require a path for the file deduplication store', () => {
+      expect(
+        () => new InteropService({ ...mockConfig, deduplicationStore: { type: 'file' } }),
+      ).toThrow('File deduplication store requires a path');
+    });
   });
 
   describe('start()', () => {
@@ -125,8 +189,8 @@ describe('InteropService', () => {
           }) as any,
       );
 
-      const newService = new InteropService(mockConfig);
-      await newService.start();
+      service = new InteropService(mockConfig);
+      await service.start();
 
       expect(mockConsumerStart).toHaveBeenCalledTimes(2);
     });
@@ -142,6 +206,26 @@ describe('InteropService', () => {
 
       await expect(service.start()).rejects.toThrow('Connection failed');
     });
+
+    it('should release what it started when the connection fails', async () => {
+      mockConnectionManager.connect.mockRejectedValue(new Error('Connection failed'));
+      const failedService = new InteropService({
+        ...mockConfig,
+        routing: { configPath: '/config/routing.yml', fallbackQueue: 'test.fallback' },
+        deduplicationStore: { type: 'file', path: '/var/lib/interop/dedup.log' },
+      });
+
+      await expect(failedService.start()).rejects.toThrow('Connection failed');
+
+      const watcher = (RoutingConfigWatcher as jest.MockedClass<typeof RoutingConfigWatcher>)
+        .mock.instances[0];
+      const store = (FileDeduplicationStore as jest.MockedClass<typeof FileDeduplicationStore>)
+        .mock.instances[0];
+      expect(watcher?.start).toHaveBeenCalled();
+      expect(watcher?.stop).toHaveBeenCalled();
+      expect(store?.close).toHaveBeenCalled();
+      expect(mockBridge.destroy).toHaveBeenCalled();
+    });
   });
 
   describe('stop()', () => {
@@ -156,9 +240,9 @@ describe('InteropService', () => {
           }) as any,
       );
 
-      const newService = new InteropService(mockConfig);
-      await newService.start();
-      await newService.stop();
+      service = new InteropService(mockConfig);
+      await service.start();
+      await service.stop();
 
       expect(mockConsumerStop).toHaveBeenCalledTimes(2);
     });
@@ -170,9 +254,47 @@ describe('InteropService', () => {
       expect(mockConnectionManager.disconnect).toHaveBeenCalledTimes(1);
     });
 
+    it('should release OpenHIM connections', async () => {
+      await service.start();
+      await service.stop();
+
+      expect(mockBridge.destroy).toHaveBeenCalledTimes(1);
+    });
+
     it('should not throw if not started', async () => {
       await expect(service.stop()).resolves.not.toThrow();
     });
+
+    it('should drain consumers in parallel before disconnecting', async () => {
+      let releaseDrain: () => void = () => undefined;
+      const drain = new Promise<void>((resolve) => {
+        releaseDrain = resolve;
+      });
+      const mockConsumerStop = jest.fn().mockReturnValue(drain);
+      (EventConsumer as jest.MockedClass<typeof EventConsumer>).mockImplementation(
+        () =>
+          ({
+            start: jest.fn(),
+            stop: mockConsumerStop,
+            getStats: jest.fn().mockReturnValue({ isActive: false }),
+          }) as any,
+      );
+
+      service = new InteropService(mockConfig);
+      await service.start();
+      const stopping = service.stop();
+      await Promise.resolve();
+
+      expect(mockConsumerStop).toHaveBeenCalledTimes(2);
+      expect(service.getHealth().status).toBe('draining');
+      expect(mockConnectionManager.disconnect).not.toHaveBeenCalled();
+
+      releaseDrain();
+      await stopping;
+
+      expect(mockConnectionManager.disconnect).toHaveBeenCalledTimes(1);
+      expect(service.getHealth().status).toBe('degraded');
+    });
   });
 
   describe('handleCloudEvent()', () => {
@@ -252,6 +374,276 @@ describe('InteropService', () => {
     });
   });
 
+  describe('administrators', () => {
+    it('should authenticate administrators by API key', () => {
+      const adminService = new InteropService({
+        ...mockConfig,
+        admins: [{ name: 'ops', apiKey: 'ops-key' }],
+      });
+
+      expect(adminService.authenticateAdmin('ops-key')).toEqual({ name: 'ops', apiKey: 'ops-key' });
+      expect(() => adminService.authenticateAdmin('wrong')).toThrow('Invalid API key');
+      expect(() => adminService.authenticateAdmin(undefined)).toThrow('API key required');
+    });
+
+    it('should refuse every key without administrators', () => {
+      expect(() => service.authenticateAdmin('ops-key')).toThrow(UnauthorizedError);
+    });
+
+    it('should reject invalid administrators', () => {
+      expect(
+        () =>
+          new InteropService({
+            ...mockConfig,
+            admins: [
+              { name: 'ops', apiKey: 'key' },
+              { name: 'ops', apiKey: 'other' },
+            ],
+          }),
+      ).toThrow("Invalid administrators: client name 'ops' is used more than once");
+    });
+  });
+
+  describe('content-based routing', () => {
+    const routingConfig = {
+      ...mockConfig,
+      routing: { configPath: '/config/routing.yml', fallbackQueue: 'test.fallback' },
+    };
+
+    const event = {
+      specversion: '1.0',
+      type: 'order.approved',
+      source: 'urn:smile:orders-service',
+      id: 'routed-123',
+    };
+
+    // Handler of the most recently created consumer (the routed service)
+    const getHandler = (): any =>
+      (EventConsumer as jest.MockedClass<typeof EventConsumer>).mock.calls.at(-1)?.[3];
+
+    it('should load routing configuration on start', async () => {
+      service = new InteropService(routingConfig);
+      await service.start();
+
+      const loader = (RoutingConfigLoader as jest.MockedClass<typeof RoutingConfigLoader>).mock
+        .instances[0];
+      expect(loader?.loadFromFile).toHaveBeenCalledWith('/config/routing.yml');
+      expect(EventRouter).toHaveBeenCalledWith(
+        loader,
+        expect.anything(),
+        expect.anything(),
+        'test.fallback',
+      );
+    });
+
+    it('should watch routing configuration while running', async () => {
+      service = new InteropService(routingConfig);
+      await service.start();
+
+      const watcher = (RoutingConfigWatcher as jest.MockedClass<typeof RoutingConfigWatcher>)
+        .mock.instances[0]!;
+      expect(RoutingConfigWatcher).toHaveBeenCalledWith(expect.anything(), '/config/routing.yml');
+      expect(watcher.start).toHaveBeenCalledTimes(1);
+
+      await service.stop();
+
+      expect(watcher.stop).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reload routing configuration on demand', async () => {
+      service = new InteropService(routingConfig);
+      expect(() => service.reloadRouting()).toThrow('Routing is not active');
+
+      await service.start();
+      const watcher = (RoutingConfigWatcher as jest.MockedClass<typeof RoutingConfigWatcher>)
+        .mock.instances[0]!;
+      (watcher.reload as jest.Mock).mockReturnValue({ reloaded: true });
+
+      expect(service.reloadRouting()).toEqual({ reloaded: true });
+    });
+
+    it('should list routes by priority with their statistics', async () => {
+      service = new InteropService(routingConfig);
+      await service.start();
+
+      const loader = (RoutingConfigLoader as jest.MockedClass<typeof RoutingConfigLoader>).mock
+        .instances[0]!;
+      const router = (EventRouter as jest.MockedClass<typeof EventRouter>).mock.instances[0]!;
+      const metrics = new RouteMetrics();
+      metrics.recordMatch('orders');
+      (router.getMetrics as jest.Mock).mockReturnValue(metrics);
+      (loader.getRoutes as jest.Mock).mockReturnValue([
+        { name: 'default', priority: 0 },
+        { name: 'orders', priority: 5 },
+      ]);
+
+      const routes = service.getRoutes();
+
+      expect(routes.map((route) => route.name)).toEqual(['orders', 'default']);
+      expect(routes[0]?.stats.matched).toBe(1);
+      expect(routes[1]?.stats.matched).toBe(0);
+    });
+
+    it('should toggle routes and dry-run events through the routing components', async () => {
+      service = new InteropService(routingConfig);
+      expect(() => service.setRouteEnabled('orders', false)).toThrow(ConflictError);
+      expect(() => service.dryRunRoute(event)).toThrow(ConflictError);
+
+      await service.start();
+      const loader = (RoutingConfigLoader as jest.MockedClass<typeof RoutingConfigLoader>).mock
+        .instances[0]!;
+      const router = (EventRouter as jest.MockedClass<typeof EventRouter>).mock.instances[0]!;
+      (router.dryRun as jest.Mock).mockReturnValue({ matched: true, selectedRoutes: ['orders'] });
+
+      service.setRouteEnabled('orders', false);
+
+      expect(loader.setRouteEnabled).toHaveBeenCalledWith('orders', false);
+      expect(service.dryRunRoute(event)).toEqual({
+        matched: true,
+        selectedRoutes: ['orders'],
+      });
+      expect(router.dryRun).toHaveBeenCalledWith(event);
+    });
+
+    it('should report no routing status when routing is not configured', () => {
+      expect(service.getRoutingStatus()).toBeNull();
+    });
+
+    it('should route events instead of calling the bridge directly', async () => {
+      service = new InteropService(routingConfig);
+      await service.start();
+
+      const router = (EventRouter as jest.MockedClass<typeof EventRouter>).mock.instances[0]!;
+      (router.route as jest.Mock).mockResolvedValue([
+        {
+          success: true,
+          route: { name: 'orders' },
+          destination: { type: 'openhim' },
+          latencyMs: 3,
+        },
+      ]);
+
+      const deliveredDestinations = new Set(['warehouse|queue|warehouse.queue']);
+      await getHandler()(event, { correlationId: 'corr-routed', deliveredDestinations });
+
+      expect(router.route).toHaveBeenCalledWith(event, 'corr-routed', deliveredDestinations);
+      expect(mockBridge.sendToOpenHIM).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the routed delivery fails', async () => {
+      service = new InteropService(routingConfig);
+      await service.start();
+
+      const router = (EventRouter as jest.MockedClass<typeof EventRouter>).mock.instances[0]!;
+      (router.route as jest.Mock).mockResolvedValue([
+        {
+          success: false,
+          route: { name: 'orders' },
+          destination: { type: 'queue' },
+          error: new Error('Queue unavailable'),
+          latencyMs: 3,
+        },
+      ]);
+
+      await expect(getHandler()(event, { correlationId: 'corr-fail' })).rejects.toThrow(
+        'Queue unavailable',
+      );
+    });
+
+    it('should report every failed destination of a fan-out', async () => {
+      service = new InteropService(routingConfig);
+      await service.start();
+
+      const router = (EventRouter as jest.MockedClass<typeof EventRouter>).mock.instances[0]!;
+      (router.route as jest.Mock).mockResolvedValue([
+        { success: true, route: { name: 'openhim' }, destination: { type: 'openhim' }, latencyMs: 1 },
+        {
+          success: false,
+          route: { name: 'warehouse' },
+          destination: { type: 'queue' },
+          error: new Error('Channel closed'),
+          latencyMs: 2,
+        },
+      ]);
+
+      await expect(getHandler()(event, { correlationId: 'corr-partial' })).rejects.toThrow(
+        'Delivery failed for 1 of 2 destination(s): warehouse (Channel closed)',
+      );
+    });
+
+    it('should record the destinations of a fan-out that accepted the event', async () => {
+      service = new InteropService(routingConfig);
+      await service.start();
+
+      const router = (EventRouter as jest.MockedClass<typeof EventRouter>).mock.instances[0]!;
+      (router.route as jest.Mock).mockResolvedValue([
+        {
+          success: true,
+          route: { name: 'openhim' },
+          destination: { type: 'openhim' },
+          latencyMs: 1,
+        },
+        {
+          success: false,
+          route: { name: 'warehouse' },
+          destination: { type: 'queue', queue: 'warehouse.queue' },
+          error: new Error('Channel closed'),
+          latencyMs: 2,
+        },
+      ]);
+
+      // Retries of the message skip the recorded destinations
+      const deliveredDestinations = new Set<string>();
+      await expect(
+        getHandler()(event, { correlationId: 'corr-partial', deliveredDestinations }),
+      ).rejects.toThrow('Channel closed');
+
+      expect([...deliveredDestinations]).toEqual(['openhim|openhim|']);
+    });
+
+    it('should acknowledge dropped events', async () => {
+      service = new InteropService(routingConfig);
+      await service.start();
+
+      const router = (EventRouter as jest.MockedClass<typeof EventRouter>).mock.instances[0]!;
+      (router.route as jest.Mock).mockResolvedValue([]);
+
+      await expect(getHandler()(event, { correlationId: 'corr-drop' })).resolves.toBeUndefined();
+    });
+  });
+
+  describe('dead letter queues', () => {
+    const getManager = (): jest.Mocked<DeadLetterManager> =>
+      (DeadLetterManager as jest.MockedClass<typeof DeadLetterManager>).mock
+        .instances[0] as jest.Mocked<DeadLetterManager>;
+
+    it('should create the manager from the consumer configurations', () => {
+      expect(DeadLetterManager).toHaveBeenCalledWith(mockConnectionManager, mockConfig.consumers);
+    });
+
+    it('should reject DLQ operations when the service is not running', async () => {
+      await expect(service.getDeadLetterDepths()).rejects.toBeInstanceOf(ConflictError);
+      await expect(service.purgeDeadLetters('orders-consumer')).rejects.toThrow(
+        'Service is not running',
+      );
+      expect(getManager().purge).not.toHaveBeenCalled();
+    });
+
+    it('should delegate DLQ operations when running', async () => {
+      await service.start();
+      const manager = getManager();
+      manager.replay.mockResolvedValue({ scanned: 1, replayed: ['evt-1'], failed: [] });
+
+      const result = await service.replayDeadLetters('orders-consumer', { type: 'order.*' });
+
+      expect(result.replayed).toEqual(['evt-1']);
+      expect(manager.replay).toHaveBeenCalledWith('orders-consumer', { type: 'order.*' });
+
+      await service.listDeadLetters('orders-consumer', 20, 10);
+      expect(manager.listMessages).toHaveBeenCalledWith('orders-consumer', 20, 10);
+    });
+  });
+
   describe('getStats()', () => {
     it('should return combined statistics', async () => {
       const mockConsumerStats = {
@@ -280,12 +672,18 @@ describe('InteropService', () => {
         successfulRequests: 8,
         failedRequests: 1,
         averageResponseTimeMs: 250,
+        retries: 2,
+        retriedRequests: 1,
+        recoveredRequests: 1,
+        rejectedByCircuitBreaker: 0,
+        circuitBreakers: {},
+        endpoints: [],
       });
 
-      const newService = new InteropService(mockConfig);
-      await newService.start();
+      service = new InteropService(mockConfig);
+      await service.start();
 
-      const stats = newService.getStats();
+      const stats = service.getStats();
 
       expect(stats.consumers).toHaveLength(2);
       expect(stats.consumers[0]).toEqual(mockConsumerStats);
@@ -294,6 +692,12 @@ describe('InteropService', () => {
         successfulRequests: 8,
         failedRequests: 1,
         averageResponseTimeMs: 250,
+        retries: 2,
+        retriedRequests: 1,
+        recoveredRequests: 1,
+        rejectedByCircuitBreaker: 0,
+        circuitBreakers: {},
+        endpoints: [],
       });
       expect(stats.rabbitmq.isHealthy).toBe(true);
     });
@@ -329,4 +733,516 @@ describe('InteropService', () => {
       expect(health.status).toBe('degraded');
     });
   });
+
+  describe('consumer administration', () => {
+    const labConsumer = {
+      name: 'lab-consumer',
+      queue: 'interop.lab.queue',
+      exchange: 'lab.events',
+      exchangeType: 'topic' as const,
+      routingKey: 'lab.#',
+      enabled: true,
+      prefetch: 20,
+      consumerOptions: { parallel: true },
+    };
+    let consumers: Array<{ start: jest.Mock; stop: jest.Mock; close: jest.Mock }>;
+    let mockDeadLetterManager: jest.Mocked<DeadLetterManager>;
+
+    beforeEach(() => {
+      consumers = [];
+      (EventConsumer as jest.MockedClass<typeof EventConsumer>).mockImplementation(() => {
+        let active = false;
+        const consumer = {
+          start: jest.fn(async () => {
+            active = true;
+          }),
+          stop: jest.fn(async () => {
+            active = false;
+          }),
+          close: jest.fn(async () => {
+            active = false;
+          }),
+          getStats: jest.fn(() => ({ isActive: active })),
+        };
+        consumers.push(consumer);
+        return consumer as any;
+      });
+      service = new InteropService({
+        ...mockConfig,
+        consumerOptions: { maxParallel: 5 },
+      });
+      const { instances } = (DeadLetterManager as jest.MockedClass<typeof DeadLetterManager>).mock;
+      mockDeadLetterManager = instances[instances.length - 1] as jest.Mocked<DeadLetterManager>;
+    });
+
+    it('should list consumers with their state', async () => {
+      expect(service.listConsumers().map((c) => [c.name, c.state])).toEqual([
+        ['health-consumer', 'stopped'],
+        ['orders-consumer', 'stopped'],
+      ]);
+
+      await service.start();
+
+      expect(service.getConsumer('orders-consumer')).toEqual(
+        expect.objectContaining({ state: 'running', stats: { isActive: true } }),
+      );
+      expect(() => service.getConsumer('lab-consumer')).toThrow(NotFoundError);
+    });
+
+    it('should start disabled consumers paused', async () => {
+      service = new InteropService({
+        ...mockConfig,
+        consumers: [mockConfig.consumers[0]!, { ...mockConfig.consumers[1]!, enabled: false }],
+      });
+      await service.start();
+
+      expect(consumers[2]!.start).toHaveBeenCalled();
+      expect(consumers[3]!.start).not.toHaveBeenCalled();
+      expect(service.getConsumer('orders-consumer').state).toBe('paused');
+      expect(service.getHealth().status).toBe('healthy');
+
+      await service.resumeConsumer('orders-consumer');
+
+      expect(consumers[3]!.start).toHaveBeenCalled();
+      expect(service.getConsumer('orders-consumer').state).toBe('running');
+    });
+
+    it('should add and start a consumer with its own options', async () => {
+      await service.start();
+
+      const added = await service.addConsumer(labConsumer);
+
+      expect(added.state).toBe('running');
+      expect(consumers[2]!.start).toHaveBeenCalled();
+      expect(EventConsumer).toHaveBeenLastCalledWith(
+        mockConnectionManager,
+        labConsumer,
+        { maxParallel: 5, parallel: true },
+        expect.any(Function),
+        expect.any(InMemoryDeduplicationStore),
+        expect.anything(),
+      );
+      expect(mockDeadLetterManager.addConsumer).toHaveBeenCalledWith(labConsumer);
+      expect(service.listConsumers()).toHaveLength(3);
+    });
+
+    it('should reject invalid and duplicate consumers', async () => {
+      await expect(service.addConsumer({ ...labConsumer, queue: '' })).rejects.toThrow(
+        ValidationError,
+      );
+      await expect(
+        service.addConsumer({ ...labConsumer, name: 'orders-consumer' }),
+      ).rejects.toThrow(ConflictError);
+      expect(service.listConsumers()).toHaveLength(2);
+    });
+
+    it('should forget a consumer that fails to start', async () => {
+      await service.start();
+      (EventConsumer as jest.MockedClass<typeof EventConsumer>).mockImplementationOnce(
+        () =>
+          ({
+            start: jest.fn().mockRejectedValue(new Error('PRECONDITION_FAILED')),
+            close: jest.fn(),
+          }) as any,
+      );
+
+      await expect(service.addConsumer(labConsumer)).rejects.toThrow('PRECONDITION_FAILED');
+      expect(service.listConsumers()).toHaveLength(2);
+    });
+
+    it('should pause and resume a consumer', async () => {
+      await service.start();
+
+      const paused = await service.pauseConsumer('health-consumer');
+
+      expect(consumers[0]!.stop).toHaveBeenCalledTimes(1);
+      expect(paused.state).toBe('paused');
+      expect(service.getHealth().status).toBe('healthy');
+
+      await service.pauseConsumer('health-consumer');
+      expect(consumers[0]!.stop).toHaveBeenCalledTimes(1);
+
+      const resumed = await service.resumeConsumer('health-consumer');
+
+      expect(consumers[0]!.start).toHaveBeenCalledTimes(2);
+      expect(resumed.state).toBe('running');
+    });
+
+    it('should require a running service to pause or resume', async () => {
+      await expect(service.pauseConsumer('health-consumer')).rejects.toThrow(ConflictError);
+      await expect(service.resumeConsumer('health-consumer')).rejects.toThrow(ConflictError);
+    });
+
+    it('should remove a consumer', async () => {
+      await service.start();
+
+      await service.removeConsumer('orders-consumer');
+
+      expect(consumers[1]!.close).toHaveBeenCalled();
+      expect(mockDeadLetterManager.removeConsumer).toHaveBeenCalledWith('orders-consumer');
+      expect(service.listConsumers().map((c) => c.name)).toEqual(['health-consumer']);
+      await expect(service.removeConsumer('orders-consumer')).rejects.toThrow(NotFoundError);
+    });
+
+    it('should declare configured exchanges before starting consumers', async () => {
+      const channel = { assertExchange: jest.fn(), close: jest.fn() };
+      mockConnectionManager.getChannel = jest.fn().mockResolvedValue(channel);
+      service = new InteropService({
+        ...mockConfig,
+        exchanges: [{ name: 'lab.dlx', type: 'fanout' }],
+      });
+
+      await service.start();
+
+      expect(channel.assertExchange).toHaveBeenCalledWith('lab.dlx', 'fanout', {
+        durable: true,
+        autoDelete: false,
+      });
+      expect(channel.close).toHaveBeenCalled();
+      expect(channel.assertExchange.mock.invocationCallOrder[0]).toBeLessThan(
+        consumers[2]!.start.mock.invocationCallOrder[0]!,
+      );
+    });
+  });
+
+  describe('backpressure', () => {
+    const failing = { requests: 30, failures: 30, failureRate: 1, averageLatencyMs: 0 };
+    const healthy = { requests: 30, failures: 0, failureRate: 0, averageLatencyMs: 50 };
+    let consumers: Array<{ start: jest.Mock; stop: jest.Mock; limitPrefetch: jest.Mock }>;
+    let stats: typeof healthy;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      consumers = [];
+      stats = healthy;
+      mockBridge.getRecentStats = jest.fn().mockImplementation(() => stats);
+      (EventConsumer as jest.MockedClass<typeof EventConsumer>).mockImplementation(() => {
+        let active = false;
+        const consumer = {
+          start: jest.fn(async () => {
+            active = true;
+          }),
+          stop: jest.fn(async () => {
+            active = false;
+          }),
+          limitPrefetch: jest.fn(),
+          getStats: jest.fn(() => ({ isActive: active })),
+        };
+        consumers.push(consumer);
+        return consumer as any;
+      });
+      service = new InteropService({
+        ...mockConfig,
+        backpressure: { minRequests: 20, checkInterval: 1000, probeInterval: 2000, rampSteps: 1 },
+      });
+    });
+
+    afterEach(async () => {
+      await service.stop();
+      jest.useRealTimers();
+    });
+
+    it('should report normal backpressure in health', async () => {
+      await service.start();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(service.getHealth()).toEqual(
+        expect.objectContaining({
+          status: 'healthy',
+          backpressure: expect.objectContaining({ state: 'normal', window: healthy }),
+        }),
+      );
+    });
+
+    it('should suspend consumers while OpenHIM fails and resume them gradually', async () => {
+      await service.start();
+
+      stats = failing;
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(consumers[0]!.stop).toHaveBeenCalled();
+      expect(consumers[1]!.stop).toHaveBeenCalled();
+      expect(service.getConsumer('orders-consumer').state).toBe('suspended');
+      expect(service.getHealth()).toEqual(
+        expect.objectContaining({
+          status: 'degraded',
+          activeConsumers: 0,
+          backpressure: expect.objectContaining({ state: 'paused', reason: 'failure rate 100%' }),
+        }),
+      );
+
+      stats = healthy;
+      await jest.advanceTimersByTimeAsync(2000);
+
+      expect(consumers[0]!.start).toHaveBeenCalledTimes(2);
+      expect(consumers[0]!.limitPrefetch).toHaveBeenLastCalledWith(0.5);
+      // The reduced prefetch is set before the consumer is re-created
+      expect(consumers[0]!.limitPrefetch.mock.invocationCallOrder.at(-1)).toBeLessThan(
+        consumers[0]!.start.mock.invocationCallOrder[1]!,
+      );
+      expect(service.getConsumer('orders-consumer').state).toBe('running');
+      expect(service.getHealth().status).toBe('degraded');
+
+      await jest.advanceTimersByTimeAsync(2000);
+
+      expect(consumers[1]!.limitPrefetch).toHaveBeenLastCalledWith(null);
+      expect(service.getHealth().status).toBe('healthy');
+    });
+
+    it('should leave consumers paused by an administrator alone', async () => {
+      await service.start();
+      await service.pauseConsumer('orders-consumer');
+
+      stats = failing;
+      await jest.advanceTimersByTimeAsync(1000);
+      stats = healthy;
+      await jest.advanceTimersByTimeAsync(2000);
+
+      expect(consumers[1]!.stop).toHaveBeenCalledTimes(1);
+      expect(consumers[1]!.start).toHaveBeenCalledTimes(1);
+      expect(service.getConsumer('orders-consumer').state).toBe('paused');
+    });
+  });
+
+  describe('event archive', () => {
+    const event = {
+      specversion: '1.0',
+      type: 'order.created',
+      source: 'urn:smile:orders-service',
+      id: 'evt-1',
+    };
+    const context = { correlationId: 'corr-1', queue: 'interop.orders.queue' } as any;
+    const archived = (id: string, outcome = 'delivered'): any => ({
+      sequence: 1,
+      archivedAt: '2026-01-01T00:00:00.000Z',
+      event: { ...event, id },
+      correlationId: `corr-${id}`,
+      outcome,
+      deliveries: [],
+    });
+    let archive: jest.Mocked<EventArchive>;
+
+    const getHandler = (): ((event: any, context: any) => Promise<void>) =>
+      (EventConsumer as jest.MockedClass<typeof EventConsumer>).mock.calls[0]![3];
+
+    beforeEach(() => {
+      (EventConsumer as jest.MockedClass<typeof EventConsumer>).mockClear();
+      service = new InteropService({ ...mockConfig, archive: { path: '/data/events.jsonl' } });
+      const { instances } = (EventArchive as jest.MockedClass<typeof EventArchive>).mock;
+      archive = instances[instances.length - 1] as jest.Mocked<EventArchive>;
+    });
+
+    it('should create the archive from configuration', () => {
+      expect(EventArchive).toHaveBeenLastCalledWith('/data/events.jsonl');
+    });
+
+    it('should archive delivered events with their destinations', async () => {
+      await service.start();
+
+      await getHandler()(event, context);
+
+      expect(archive.append).toHaveBeenCalledWith({
+        event,
+        correlationId: 'corr-1',
+        queue: 'interop.orders.queue',
+        outcome: 'delivered',
+        deliveries: [{ type: 'openhim' }],
+      });
+    });
+
+    it('should archive failed events and still fail processing', async () => {
+      mockBridge.sendToOpenHIM.mockResolvedValueOnce({ success: false, error: 'HTTP 503' } as any);
+      archive.append.mockRejectedValueOnce(new Error('disk full'));
+      await service.start();
+
+      await expect(getHandler()(event, context)).rejects.toThrow('HTTP 503');
+
+      expect(archive.append).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: 'failed', deliveries: [], error: 'HTTP 503' }),
+      );
+    });
+
+    it('should reject archive operations without an archive', async () => {
+      service = new InteropService(mockConfig);
+
+      await expect(service.queryArchivedEvents({}, 0, 20)).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('should delegate queries to the archive', async () => {
+      archive.query.mockResolvedValue({ total: 0, offset: 5, events: [] });
+
+      await service.queryArchivedEvents({ type: 'order.*' }, 5, 10);
+
+      expect(archive.query).toHaveBeenCalledWith({ type: 'order.*' }, 5, 10);
+    });
+
+    it('should replay each matching event once through the pipeline', async () => {
+      archive.query.mockResolvedValue({
+        total: 3,
+        offset: 0,
+        events: [archived('evt-1', 'failed'), archived('evt-1'), archived('evt-2')],
+      });
+      mockBridge.sendToOpenHIM
+        .mockResolvedValueOnce({ success: true, statusCode: 200 } as any)
+        .mockResolvedValueOnce({ success: false, error: 'HTTP 500' } as any);
+      await service.start();
+
+      const result = await service.replayArchivedEvents({ type: 'order.*', limit: 5 });
+
+      expect(result).toEqual({
+        matched: 2,
+        replayed: ['evt-1'],
+        failed: [{ eventId: 'evt-2', error: 'HTTP 500' }],
+        truncated: false,
+      });
+      expect(mockBridge.sendToOpenHIM).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'evt-1' }),
+        'corr-evt-1',
+      );
+      expect(archive.append).not.toHaveBeenCalled();
+    });
+
+    it('should replay to a single destination', async () => {
+      archive.query.mockResolvedValue({ total: 1, offset: 0, events: [archived('evt-1')] });
+      await service.start();
+
+      const result = await service.replayArchivedEvents({
+        from: '2026-01-01T00:00:00Z',
+        destination: { type: 'openhim', endpoint: 'http://openhim:5001/lab' },
+      });
+
+      expect(result.replayed).toEqual(['evt-1']);
+      expect(mockBridge.sendToOpenHIM).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'evt-1' }),
+        'corr-evt-1',
+        'http://openhim:5001/lab',
+      );
+    });
+
+    it('should reject invalid replay requests', async () => {
+      await expect(service.replayArchivedEvents({ type: 'order.*' })).rejects.toThrow(
+        'Service is not running',
+      );
+
+      await service.start();
+
+      await expect(service.replayArchivedEvents({})).rejects.toBeInstanceOf(ValidationError);
+      await expect(
+        service.replayArchivedEvents({ type: 'order.*', limit: 0 }),
+      ).rejects.toBeInstanceOf(ValidationError);
+      await expect(
+        service.replayArchivedEvents({ type: 'order.*', destination: { type: 'ftp' } as any }),
+      ).rejects.toThrow('destination type must be one of');
+      await expect(
+        service.replayArchivedEvents({ type: 'order.*', route: 'lab' }),
+      ).rejects.toThrow('Routing is not active');
+      expect(archive.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('CloudEvents ingress', () => {
+    const ingress = {
+      clients: [{ name: 'district-lab', apiKey: 'lab-key' }],
+      exchanges: [{ source: 'urn:district:lab-*', exchange: 'health.events' }],
+    };
+    const labEvent = {
+      specversion: '1.0',
+      type: 'health.lab.result-available',
+      source: 'urn:district:lab-system',
+      id: 'lab-1',
+    };
+
+    it('should reject ingress operations without an ingress', async () => {
+      expect(() => service.authenticateIngressClient('lab-key')).toThrow(
+        'CloudEvents ingress is not configured',
+      );
+    });
+
+    it('should authenticate ingress clients by API key', () => {
+      service = new InteropService({ ...mockConfig, ingress });
+
+      expect(service.authenticateIngressClient('lab-key').name).toBe('district-lab');
+    });
+
+    it('should only publish ingress events while running', async () => {
+      service = new InteropService({ ...mockConfig, ingress });
+      const client = service.authenticateIngressClient('lab-key');
+
+      await expect(service.publishIngressEvents(client, [labEvent])).rejects.toThrow(
+        'Service is not running',
+      );
+    });
+  });
+
+  describe('CloudEvents subscriptions', () => {
+    const subscriptions = {
+      path: '/data/subscriptions.json',
+      clients: [{ name: 'sandbox', apiKey: 'sandbox-key' }],
+    };
+    const client = subscriptions.clients[0]!;
+    const event = {
+      specversion: '1.0',
+      type: 'order.created',
+      source: 'urn:smile:orders-service',
+      id: 'evt-1',
+    };
+    const context = { correlationId: 'corr-1', queue: 'interop.orders.queue' } as any;
+    let manager: jest.Mocked<SubscriptionManager>;
+
+    const getHandler = (): ((event: any, context: any) => Promise<void>) =>
+      (EventConsumer as jest.MockedClass<typeof EventConsumer>).mock.calls[0]![3];
+
+    beforeEach(() => {
+      (EventConsumer as jest.MockedClass<typeof EventConsumer>).mockClear();
+      service = new InteropService({ ...mockConfig, subscriptions });
+      const { instances } = (SubscriptionManager as jest.MockedClass<typeof SubscriptionManager>)
+        .mock;
+      manager = instances[instances.length - 1] as jest.Mocked<SubscriptionManager>;
+    });
+
+    it('should reject subscription operations without subscriptions', () => {
+      service = new InteropService(mockConfig);
+
+      expect(() => service.authenticateSubscriptionClient('sandbox-key')).toThrow(
+        'CloudEvents subscriptions are not configured',
+      );
+    });
+
+    it('should load subscriptions on start and close them on stop', async () => {
+      await service.start();
+      expect(manager.load).toHaveBeenCalled();
+
+      await service.stop();
+      expect(manager.close).toHaveBeenCalled();
+    });
+
+    it('should only manage subscriptions while running', async () => {
+      await expect(
+        service.createSubscription(client, { sink: 'https://partner.example.org/events' }),
+      ).rejects.toThrow('Service is not running');
+      expect(() => service.listSubscriptions(client)).toThrow(ConflictError);
+
+      await service.start();
+      await service.deleteSubscription(client, 'sub-1');
+
+      expect(manager.delete).toHaveBeenCalledWith(client, 'sub-1');
+    });
+
+    it('should offer delivered events to subscriptions', async () => {
+      await service.start();
+
+      await getHandler()(event, context);
+
+      expect(manager.publish).toHaveBeenCalledWith(event, 'corr-1');
+    });
+
+    it('should not offer events that failed processing to subscriptions', async () => {
+      mockBridge.sendToOpenHIM.mockResolvedValueOnce({ success: false, error: 'HTTP 503' } as any);
+      await service.start();
+
+      await expect(getHandler()(event, context)).rejects.toThrow('HTTP 503');
+
+      expect(manager.publish).not.toHaveBeenCalled();
+    });
+  });
 });
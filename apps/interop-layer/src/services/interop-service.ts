@@ -8,24 +8,166 @@
  * This service manages the complete lifecycle:
  * 1. Connects to RabbitMQ
  * 2. Starts consuming CloudEvents from multiple queues
- * 3. Routes each CloudEvent to OpenHIM via HTTP bridge
+ * 3. Routes each CloudEvent via the routing configuration
+ *    (or straight to OpenHIM when routing is not configured)
  * 4. Tracks statistics and health
+ * 5. Archives every processed CloudEvent with its outcome (when configured),
+ *    so history can be queried and replayed
+ *
+ * Consumers can be added, paused, resumed and removed while the service runs.
+ * With backpressure enabled, consumers are suspended or throttled while OpenHIM
+ * is unhealthy and resumed gradually once it recovers.
  */
 
-import { logger } from '@smile/common';
+import {
+  logger,
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '@smile/common';
+import { ApiClient, findApiClient, validateApiClients } from '../config/api-clients';
 import { ConnectionManager } from '../messaging/connection-manager';
-import { OpenHIMBridge, OpenHIMConfig } from '../bridge/openhim-bridge';
+import { OpenHIMBridge, OpenHIMConfig, BridgeStats } from '../bridge/openhim-bridge';
 import { EventConsumer } from '../consumer/event-consumer';
+import { CloudEventValidator, SchemaValidationMode } from '../consumer/cloud-event-validator';
+import { DeadLetterManager } from '../consumer/dead-letter-manager';
+import { DeduplicationStore, InMemoryDeduplicationStore } from '../consumer/deduplication-store';
+import { FileDeduplicationStore } from '../consumer/file-deduplication-store';
+import { validateConsumerConfig } from '../consumer/consumer-topology';
+import { EventArchive } from '../archive/event-archive';
+import {
+  EventIngress,
+  IngressClient,
+  IngressConfig,
+  IngressPublishResult,
+} from '../ingress/event-ingress';
+import {
+  SubscriptionClient,
+  SubscriptionManager,
+  SubscriptionsConfig,
+} from '../subscriptions/subscription-manager';
+import {
+  BackpressureConfig,
+  BackpressureController,
+  BackpressureStatus,
+} from '../consumer/backpressure-controller';
+import { SchemaRegistry } from '../schemas/schema-registry';
+import { RoutingConfigLoader } from '../routing/routing-config-loader';
+import { RouteMatchEngine } from '../routing/route-match-engine';
+import { RouteDispatcher } from '../routing/route-dispatcher';
+import { EventRouter } from '../routing/event-router';
+import {
+  RoutingConfigWatcher,
+  RoutingReloadResult,
+  RoutingReloadStatus,
+} from '../routing/routing-config-watcher';
 import {
   RabbitMQConfig,
   QueueConsumerConfig,
   ConsumerOptions,
+  ConsumerInfo,
+  ExchangeConfig,
   CloudEventHandler,
   MessageContext,
   ConsumerStats,
   ConnectionHealth,
+  RouteDefinition,
+  RouteWithStats,
+  RoutingDryRunResult,
+  DeadLetterDepth,
+  DeadLetterFilter,
+  DeadLetterMessage,
+  DeadLetterPage,
+  DeadLetterReplayResult,
+  DeduplicationStoreConfig,
+  ArchivedDelivery,
+  ArchivedEvent,
+  EventArchiveFilter,
+  EventArchivePage,
+  EventArchiveReplayRequest,
+  EventArchiveReplayResult,
+  RoutingResult,
+  RouteDestination,
+  SubscriptionInfo,
+  SubscriptionRequest,
+  SubscriptionTestResult,
 } from '../messaging/types';
-import { BridgeStats } from '../bridge/openhim-bridge';
+
+/**
+ * Content-based routing options
+ */
+export interface RoutingOptions {
+  /** Path to the routing YAML configuration */
+  configPath: string;
+
+  /** Queue for events that match no route (route-to-fallback-queue) */
+  fallbackQueue?: string;
+}
+
+/**
+ * Event data schema validation options
+ */
+export interface SchemaOptions {
+  /** Directory of data schemas, laid out as <directory>/<type>/<version>.json */
+  directory: string;
+
+  /** How schema violations are handled (default: enforce) */
+  mode?: SchemaValidationMode;
+
+  /** Reject events whose type has no registered schema (default: false) */
+  requireSchema?: boolean;
+}
+
+/** Events replayed from the archive by default, and at most, per replay */
+const DEFAULT_REPLAY_LIMIT = 1000;
+const MAX_REPLAY_LIMIT = 10000;
+
+/** Archive records considered per replay */
+const MAX_REPLAY_SCAN = 50000;
+
+const DESTINATION_TYPES = ['http', 'queue', 'topic', 'openhim', 'webhook'];
+
+/** Route reported for archived events replayed to an explicit destination */
+const REPLAY_ROUTE: RouteDefinition = {
+  name: 'archive-replay',
+  enabled: true,
+  source: '*',
+  type: '*',
+  strategy: 'default',
+  priority: 0,
+};
+
+/**
+ * Event archive options
+ */
+export interface ArchiveOptions {
+  /** Path to the JSON-lines archive file */
+  path: string;
+}
+
+/**
+ * Content-based routing components (present when routing is configured)
+ */
+interface RoutingComponents {
+  loader: RoutingConfigLoader;
+  router: EventRouter;
+  watcher: RoutingConfigWatcher;
+}
+
+/**
+ * A consumer with its configuration and runtime state
+ */
+interface ManagedConsumer {
+  consumer: EventConsumer;
+  config: QueueConsumerConfig;
+
+  /** Paused at runtime, or disabled in configuration */
+  paused: boolean;
+
+  /** Stopped by backpressure until the downstream recovers */
+  suspended: boolean;
+}
 
 /**
  * InteropService configuration
@@ -37,11 +179,38 @@ export interface InteropServiceConfig {
   /** OpenHIM bridge configuration */
   openhim: OpenHIMConfig;
 
-  /** Consumer configurations */
+  /** Consumer configurations (disabled consumers start paused) */
   consumers: QueueConsumerConfig[];
 
+  /** Exchanges to declare on start, before any consumer (e.g. dead-letter exchanges) */
+  exchanges?: ExchangeConfig[];
+
   /** Optional consumer options */
   consumerOptions?: ConsumerOptions;
+
+  /** Deduplication store shared by all consumers (in-memory if omitted) */
+  deduplicationStore?: DeduplicationStoreConfig;
+
+  /** Optional content-based routing (events go straight to OpenHIM if omitted) */
+  routing?: RoutingOptions;
+
+  /** Optional event data schema validation (only the envelope is validated if omitted) */
+  schemas?: SchemaOptions;
+
+  /** Optional adaptive backpressure on OpenHIM failures and latency (off if omitted) */
+  backpressure?: BackpressureConfig;
+
+  /** Optional archive of processed events (nothing is archived if omitted) */
+  archive?: ArchiveOptions;
+
+  /** Optional CloudEvents HTTP ingress for partners (POST /events is refused if omitted) */
+  ingress?: IngressConfig;
+
+  /** Optional CloudEvents subscriptions for webhook consumers (refused if omitted) */
+  subscriptions?: SubscriptionsConfig;
+
+  /** Administrators (routing, DLQ, consumer and archive changes are refused if omitted) */
+  admins?: ApiClient[];
 }
 
 /**
@@ -58,12 +227,17 @@ export interface ServiceStats {
   rabbitmq: ConnectionHealth;
 }
 
+/**
+ * Overall service status
+ */
+export type ServiceStatus = 'healthy' | 'unhealthy' | 'degraded' | 'draining';
+
 /**
  * Service health status
  */
 export interface ServiceHealth {
-  /** Overall service status */
-  status: 'healthy' | 'unhealthy' | 'degraded';
+  /** Overall service status ('draining' while stopping) */
+  status: ServiceStatus;
 
   /** RabbitMQ connection health */
   rabbitmq: ConnectionHealth;
@@ -73,6 +247,9 @@ export interface ServiceHealth {
 
   /** Total consumers count */
   totalConsumers: number;
+
+  /** Backpressure status (if enabled); 'degraded' unless its state is normal */
+  backpressure?: BackpressureStatus;
 }
 
 /**
@@ -81,31 +258,127 @@ export interface ServiceHealth {
 export class InteropService {
   private readonly connectionManager: ConnectionManager;
   private readonly openHIMBridge: OpenHIMBridge;
-  private readonly consumers: EventConsumer[] = [];
+  private readonly consumers = new Map<string, ManagedConsumer>();
   private readonly config: InteropServiceConfig;
+  private readonly routeDispatcher: RouteDispatcher;
+  private readonly routingConfigLoader: RoutingConfigLoader | null = null;
+  private readonly eventRouter: EventRouter | null = null;
+  private readonly routingConfigWatcher: RoutingConfigWatcher | null = null;
+  private readonly deadLetterManager: DeadLetterManager;
+  private readonly deduplicationStore: DeduplicationStore;
+  private readonly schemaRegistry: SchemaRegistry | null = null;
+  private readonly validator: CloudEventValidator;
+  private readonly backpressure: BackpressureController | null = null;
+  private readonly eventArchive: EventArchive | null = null;
+  private readonly eventIngress: EventIngress | null = null;
+  private readonly subscriptionManager: SubscriptionManager | null = null;
+
+  /** Backpressure changes, applied one at a time */
+  private backpressureUpdates: Promise<void> = Promise.resolve();
 
   private isRunning = false;
+  private isDraining = false;
 
   constructor(config: InteropServiceConfig) {
     this.config = config;
 
+    if (config.admins) {
+      const errors = validateApiClients(config.admins);
+      if (errors.length > 0) {
+        throw new Error(`Invalid administrators: ${errors.join(', ')}`);
+      }
+    }
+
     // Create ConnectionManager
     this.connectionManager = new ConnectionManager(config.rabbitmq);
 
     // Create OpenHIM Bridge
     this.openHIMBridge = new OpenHIMBridge(config.openhim);
 
+    // Delivers to route destinations (also used to replay archived events)
+    this.routeDispatcher = new RouteDispatcher(this.connectionManager, this.openHIMBridge);
+
+    // Create content-based router (configuration is loaded on start)
+    if (config.routing) {
+      this.routingConfigLoader = new RoutingConfigLoader();
+      this.eventRouter = new EventRouter(
+        this.routingConfigLoader,
+        new RouteMatchEngine(),
+        this.routeDispatcher,
+        config.routing.fallbackQueue,
+      );
+      this.routingConfigWatcher = new RoutingConfigWatcher(
+        this.routingConfigLoader,
+        config.routing.configPath,
+      );
+    }
+
+    // Create the deduplication store shared by all consumers
+    this.deduplicationStore = this.createDeduplicationStore();
+
+    // Archive processed events for queries and replay
+    if (config.archive) {
+      this.eventArchive = new EventArchive(config.archive.path);
+    }
+
+    // Create the CloudEvent validator (schemas are loaded on start)
+    if (config.schemas) {
+      this.schemaRegistry = new SchemaRegistry({
+        requireSchema: config.schemas.requireSchema ?? false,
+      });
+    }
+    this.validator = new CloudEventValidator({
+      ...(this.schemaRegistry && { schemaRegistry: this.schemaRegistry }),
+      schemaMode: config.schemas?.mode ?? 'enforce',
+    });
+
+    // Partner events received over HTTP; their data schema is always enforced
+    if (config.ingress) {
+      this.eventIngress = new EventIngress(
+        config.ingress,
+        new CloudEventValidator({
+          ...(this.schemaRegistry && { schemaRegistry: this.schemaRegistry }),
+          schemaMode: 'enforce',
+        }),
+        this.routeDispatcher,
+      );
+    }
+
+    // Webhook consumers subscribed to processed events (subscriptions are loaded on start)
+    if (config.subscriptions) {
+      this.subscriptionManager = new SubscriptionManager(
+        config.subscriptions,
+        this.routeDispatcher,
+      );
+    }
+
+    // Dead letter queue administration for consumers with a DLQ
+    this.deadLetterManager = new DeadLetterManager(this.connectionManager, config.consumers);
+
+    // Watch OpenHIM health to slow consumers down while it is unhealthy
+    if (config.backpressure) {
+      this.backpressure = new BackpressureController(
+        (since) => this.openHIMBridge.getRecentStats(since),
+        (status) => this.applyBackpressure(status),
+        config.backpressure,
+      );
+    }
+
     // Create consumers
     this.createConsumers();
 
     logger.info('InteropService initialized', {
-      consumersCount: this.consumers.length,
+      consumersCount: this.consumers.size,
       rabbitmqUrl: config.rabbitmq.url,
-      openhimEndpoints: {
-        health: config.openhim.healthEndpoint,
-        orders: config.openhim.ordersEndpoint,
-        default: config.openhim.defaultEndpoint,
-      },
+      openhimEndpoints: config.openhim.endpoints?.length ?? 0,
+      openhimDefaultEndpoint: config.openhim.defaultEndpoint,
+      routingConfigPath: config.routing?.configPath,
+      deduplicationStore: config.deduplicationStore?.type ?? 'memory',
+      backpressure: this.backpressure?.getStatus().mode ?? 'disabled',
+      archivePath: config.archive?.path,
+      ingressClients: config.ingress?.clients.length ?? 0,
+      subscriptionClients: config.subscriptions?.clients.length ?? 0,
+      admins: config.admins?.length ?? 0,
     });
   }
 
@@ -115,38 +388,86 @@ export class InteropService {
   private createConsumers(): void {
     for (const consumerConfig of this.config.consumers) {
       if (!consumerConfig.enabled) {
-        logger.info('Skipping disabled consumer', {
+        logger.info('Consumer disabled, it starts paused', {
           name: consumerConfig.name,
         });
-        continue;
       }
 
-      const consumer = new EventConsumer(
-        this.connectionManager,
-        consumerConfig,
-        this.config.consumerOptions || {},
-        this.createEventHandler(),
-      );
-
-      this.consumers.push(consumer);
+      this.registerConsumer(consumerConfig);
+    }
+  }
 
-      logger.info('Consumer created', {
-        name: consumerConfig.name,
-        queue: consumerConfig.queue,
-        exchange: consumerConfig.exchange,
+  /**
+   * Create an EventConsumer and add it to the managed consumers
+   *
+   * Consumer option overrides in the consumer configuration are merged over
+   * the service consumer options.
+   *
+   * @param consumerConfig - Consumer configuration
+   * @returns The managed consumer
+   * @throws ConflictError if a consumer with the same name exists
+   */
+  private registerConsumer(consumerConfig: QueueConsumerConfig): ManagedConsumer {
+    if (this.consumers.has(consumerConfig.name)) {
+      throw new ConflictError(`Consumer '${consumerConfig.name}' already exists`, {
+        consumer: consumerConfig.name,
       });
     }
+
+    const consumer = new EventConsumer(
+      this.connectionManager,
+      consumerConfig,
+      { ...this.config.consumerOptions, ...consumerConfig.consumerOptions },
+      this.createEventHandler(),
+      this.deduplicationStore,
+      this.validator,
+    );
+
+    const managed: ManagedConsumer = {
+      consumer,
+      config: consumerConfig,
+      paused: !consumerConfig.enabled,
+      suspended: false,
+    };
+    this.consumers.set(consumerConfig.name, managed);
+
+    logger.info('Consumer created', {
+      name: consumerConfig.name,
+      queue: consumerConfig.queue,
+      exchange: consumerConfig.exchange,
+    });
+
+    return managed;
+  }
+
+  /**
+   * Create the deduplication store from configuration
+   *
+   * @returns Deduplication store
+   * @throws Error if the file store has no path
+   */
+  private createDeduplicationStore(): DeduplicationStore {
+    const storeConfig = this.config.deduplicationStore;
+
+    if (storeConfig?.type === 'file') {
+      if (!storeConfig.path) {
+        throw new Error('File deduplication store requires a path');
+      }
+      return new FileDeduplicationStore(storeConfig.path);
+    }
+
+    return new InMemoryDeduplicationStore();
   }
 
   /**
-   * Create the CloudEvent handler that uses OpenHIM Bridge
+   * Create the CloudEvent handler that routes events to their destinations
    *
    * @returns CloudEvent handler function
    */
   private createEventHandler(): CloudEventHandler {
-    return async (event: any, context: MessageContext): Promise<void> => {
+    return async (event: Record<string, unknown>, context: MessageContext): Promise<void> => {
       // Extract correlation ID (fallback to event.id)
-      const correlationId = context.correlationId || event.id;
+      const correlationId = context.correlationId || String(event.id);
 
       logger.info('Processing CloudEvent', {
         eventId: event.id,
@@ -156,30 +477,186 @@ export class InteropService {
         queue: context.queue,
       });
 
+      let deliveries: ArchivedDelivery[];
       try {
-        // Send CloudEvent to OpenHIM
-        const result = await this.openHIMBridge.sendToOpenHIM(event, correlationId);
+        deliveries = await this.deliver(event, correlationId, context.deliveredDestinations);
+      } catch (error) {
+        await this.archiveEvent(event, context, correlationId, [], error as Error);
 
-        if (!result.success) {
-          throw new Error(result.error || 'Unknown OpenHIM error');
-        }
+        // Re-throw to let EventConsumer handle (will NACK the message)
+        throw error;
+      }
 
-        logger.info('CloudEvent successfully forwarded to OpenHIM', {
-          eventId: event.id,
-          correlationId,
-          statusCode: result.statusCode,
-        });
-      } catch (error) {
-        logger.error('Failed to forward CloudEvent to OpenHIM', {
+      await this.archiveEvent(event, context, correlationId, deliveries);
+
+      // Delivered to subscription sinks in the background, with their own retries
+      this.subscriptionManager?.publish(event, correlationId);
+    };
+  }
+
+  /**
+   * Deliver a CloudEvent through the content-based router, or straight to
+   * OpenHIM when routing is not configured
+   *
+   * @param event - The CloudEvent
+   * @param correlationId - Correlation ID for tracing
+   * @param delivered - Route destinations that already accepted the event
+   * @returns Destinations that accepted the event
+   * @throws Error if a destination failed
+   */
+  private async deliver(
+    event: Record<string, unknown>,
+    correlationId: string,
+    delivered?: Set<string>,
+  ): Promise<ArchivedDelivery[]> {
+    if (this.eventRouter) {
+      const results = await this.routeEvent(event, correlationId, delivered);
+      return results.map((result) => this.toArchivedDelivery(result));
+    }
+
+    await this.forwardToOpenHIM(event, correlationId);
+    return [{ type: 'openhim' }];
+  }
+
+  /**
+   * Send a CloudEvent to OpenHIM
+   *
+   * @param event - The CloudEvent
+   * @param correlationId - Correlation ID for tracing
+   * @throws Error if OpenHIM did not accept the event
+   */
+  private async forwardToOpenHIM(
+    event: Record<string, unknown>,
+    correlationId: string,
+  ): Promise<void> {
+    try {
+      // Send CloudEvent to OpenHIM
+      const result = await this.openHIMBridge.sendToOpenHIM(event, correlationId);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Unknown OpenHIM error');
+      }
+
+      logger.info('CloudEvent successfully forwarded to OpenHIM', {
+        eventId: event.id,
+        correlationId,
+        statusCode: result.statusCode,
+      });
+    } catch (error) {
+      logger.error('Failed to forward CloudEvent to OpenHIM', {
+        eventId: event.id,
+        correlationId,
+        error: (error as Error).message,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Route a CloudEvent through the content-based router
+   *
+   * Every destination is attempted; the message is only NACKed after all
+   * destinations have been tried and at least one of them failed. Destinations
+   * that accepted the event are added to delivered, so the retried message
+   * skips them and only goes to the destinations that failed.
+   *
+   * @param event - The CloudEvent
+   * @param correlationId - Correlation ID for tracing
+   * @param delivered - Route destinations that already accepted the event
+   * @returns Routing results (all successful)
+   * @throws Error if routing fails (EventConsumer will NACK the message)
+   */
+  private async routeEvent(
+    event: Record<string, unknown>,
+    correlationId: string,
+    delivered?: Set<string>,
+  ): Promise<RoutingResult[]> {
+    try {
+      const results = await this.eventRouter!.route(event, correlationId, delivered);
+
+      // Failed deliveries are logged by the dispatcher
+      for (const result of results.filter((r) => r.success)) {
+        delivered?.add(RouteDispatcher.getDestinationKey(result.route, result.destination));
+        logger.info('CloudEvent delivered', {
           eventId: event.id,
           correlationId,
-          error: (error as Error).message,
+          routeName: result.route.name,
+          destinationType: result.destination.type,
+          latencyMs: result.latencyMs,
         });
+      }
 
-        // Re-throw to let EventConsumer handle (will NACK the message)
-        throw error;
+      const failed = results.filter((result) => !result.success);
+      if (failed.length > 0) {
+        const details = failed
+          .map((result) => `${result.route.name} (${result.error?.message ?? 'unknown'})`)
+          .join(', ');
+        throw new Error(
+          `Delivery failed for ${failed.length} of ${results.length} destination(s): ${details}`,
+        );
       }
-    };
+
+      logger.info('CloudEvent successfully routed', {
+        eventId: event.id,
+        correlationId,
+        destinations: results.length,
+      });
+
+      return results;
+    } catch (error) {
+      logger.error('Failed to route CloudEvent', {
+        eventId: event.id,
+        correlationId,
+        error: (error as Error).message,
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Archive a processed CloudEvent
+   *
+   * Archive failures are logged and do not affect the processing outcome.
+   */
+  private async archiveEvent(
+    event: Record<string, unknown>,
+    context: MessageContext,
+    correlationId: string,
+    deliveries: ArchivedDelivery[],
+    error?: Error,
+  ): Promise<void> {
+    if (!this.eventArchive) {
+      return;
+    }
+
+    try {
+      await this.eventArchive.append({
+        event,
+        correlationId,
+        ...(context.queue && { queue: context.queue }),
+        outcome: error ? 'failed' : 'delivered',
+        deliveries,
+        ...(error && { error: error.message }),
+      });
+    } catch (archiveError) {
+      logger.error('Failed to archive CloudEvent', {
+        eventId: event.id,
+        correlationId,
+        error: (archiveError as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Describe the destination of a successful routing result
+   */
+  private toArchivedDelivery(result: RoutingResult): ArchivedDelivery {
+    const { type, endpoint, queue, exchange } = result.destination;
+    const target = endpoint ?? queue ?? exchange;
+
+    return { route: result.route.name, type, ...(target && { target }) };
   }
 
   /**
@@ -198,27 +675,47 @@ export class InteropService {
     try {
       logger.info('Starting InteropService...');
 
+      // Load routing configuration before any event is consumed
+      if (this.routingConfigLoader && this.config.routing) {
+        await this.routingConfigLoader.loadFromFile(this.config.routing.configPath);
+        this.routingConfigWatcher?.start();
+      }
+
+      // Load event data schemas before any event is consumed
+      if (this.schemaRegistry && this.config.schemas) {
+        await this.schemaRegistry.loadFromDirectory(this.config.schemas.directory);
+      }
+
+      // Load subscriptions before any event is consumed
+      await this.subscriptionManager?.load();
+
       // Connect to RabbitMQ
       await this.connectionManager.connect();
       logger.info('Connected to RabbitMQ');
 
-      // Start all consumers
-      for (const consumer of this.consumers) {
-        await consumer.start();
+      // Declare shared exchanges before the queues that reference them
+      await this.declareExchanges();
+
+      // Start all consumers that are not paused
+      const running = [...this.consumers.values()].filter((managed) => !managed.paused);
+      for (const managed of running) {
+        await this.activateConsumer(managed);
       }
 
       this.isRunning = true;
+      this.backpressure?.start();
 
       logger.info('InteropService started successfully', {
-        consumersRunning: this.consumers.length,
+        consumersRunning: running.length,
+        consumersPaused: this.consumers.size - running.length,
       });
     } catch (error) {
       logger.error('Failed to start InteropService', {
         error: (error as Error).message,
       });
 
-      // Cleanup on failure
-      await this.stop();
+      // Release whatever was started before the failure (stop() needs a running service)
+      await this.shutdown();
 
       throw error;
     }
@@ -227,7 +724,8 @@ export class InteropService {
   /**
    * Stop the service
    *
-   * - Stops all consumers
+   * - Drains all consumers in parallel, sharing one drain deadline
+   *   (consumerOptions.drainTimeout); health reports 'draining' meanwhile
    * - Disconnects from RabbitMQ
    */
   public async stop(): Promise<void> {
@@ -236,24 +734,47 @@ export class InteropService {
       return;
     }
 
+    await this.shutdown();
+  }
+
+  /**
+   * Stop the watchers, consumers, connection and stores, whether or not the
+   * service finished starting
+   */
+  private async shutdown(): Promise<void> {
     try {
       logger.info('Stopping InteropService...');
 
-      // Stop all consumers
-      for (const consumer of this.consumers) {
-        try {
-          await consumer.stop();
-        } catch (error) {
-          logger.error('Failed to stop consumer', {
-            error: (error as Error).message,
-          });
-          // Continue stopping other consumers
-        }
-      }
+      // Stop watching routing configuration and OpenHIM health
+      this.routingConfigWatcher?.stop();
+      this.backpressure?.stop();
+
+      // Drain all consumers (after any backpressure change in progress)
+      this.isDraining = true;
+      await this.backpressureUpdates;
+      await Promise.all(
+        [...this.consumers.values()].map(async ({ consumer }) => {
+          try {
+            await consumer.stop();
+          } catch (error) {
+            logger.error('Failed to stop consumer', {
+              error: (error as Error).message,
+            });
+            // Continue stopping other consumers
+          }
+        }),
+      );
 
       // Disconnect from RabbitMQ
       await this.connectionManager.disconnect();
 
+      // Release pooled OpenHIM connections
+      this.openHIMBridge.destroy();
+
+      await this.deduplicationStore.close();
+      await this.eventArchive?.close();
+      await this.subscriptionManager?.close();
+
       this.isRunning = false;
 
       logger.info('InteropService stopped successfully');
@@ -262,6 +783,8 @@ export class InteropService {
         error: (error as Error).message,
       });
       // Don't throw - best effort stop
+    } finally {
+      this.isDraining = false;
     }
   }
 
@@ -272,7 +795,7 @@ export class InteropService {
    */
   public getStats(): ServiceStats {
     return {
-      consumers: this.consumers.map((consumer) => consumer.getStats()),
+      consumers: [...this.consumers.values()].map(({ consumer }) => consumer.getStats()),
       bridge: this.openHIMBridge.getStats(),
       rabbitmq: this.connectionManager.getHealth(),
     };
@@ -285,17 +808,26 @@ export class InteropService {
    */
   public getHealth(): ServiceHealth {
     const rabbitmqHealth = this.connectionManager.getHealth();
-    const activeConsumers = this.consumers.filter((c) => c.getStats().isActive).length;
+    // Paused and suspended consumers are stopped on purpose and do not affect health
+    const expected = [...this.consumers.values()].filter(
+      (managed) => !managed.paused && !managed.suspended,
+    );
+    const activeConsumers = expected.filter(({ consumer }) => consumer.getStats().isActive).length;
+    const backpressure = this.backpressure?.getStatus();
 
-    let status: 'healthy' | 'unhealthy' | 'degraded' = 'healthy';
+    let status: ServiceStatus = 'healthy';
 
-    if (!this.isRunning) {
+    if (this.isDraining) {
+      status = 'draining';
+    } else if (!this.isRunning) {
       status = 'degraded';
     } else if (!rabbitmqHealth.isHealthy) {
       status = 'unhealthy';
-    } else if (activeConsumers === 0) {
+    } else if (activeConsumers === 0 && expected.length > 0) {
       status = 'unhealthy';
-    } else if (activeConsumers < this.consumers.length) {
+    } else if (activeConsumers < expected.length) {
+      status = 'degraded';
+    } else if (backpressure && backpressure.state !== 'normal') {
       status = 'degraded';
     }
 
@@ -303,7 +835,784 @@ export class InteropService {
       status,
       rabbitmq: rabbitmqHealth,
       activeConsumers,
-      totalConsumers: this.consumers.length,
+      totalConsumers: this.consumers.size,
+      ...(backpressure && { backpressure }),
+    };
+  }
+
+  /**
+   * Authenticate an administrator
+   *
+   * @param apiKey - API key sent by the caller
+   * @returns The administrator the key belongs to
+   * @throws UnauthorizedError if the key is missing or unknown (always, without administrators)
+   */
+  public authenticateAdmin(apiKey: string | undefined): ApiClient {
+    const admin = findApiClient(this.config.admins ?? [], apiKey);
+
+    if (!admin) {
+      throw new UnauthorizedError(apiKey ? 'Invalid API key' : 'API key required');
+    }
+
+    return admin;
+  }
+
+  /**
+   * List every consumer with its state and statistics
+   *
+   * @returns Consumers in the order they were added
+   */
+  public listConsumers(): ConsumerInfo[] {
+    return [...this.consumers.values()].map((managed) => this.toConsumerInfo(managed));
+  }
+
+  /**
+   * Get a consumer with its state and statistics
+   *
+   * @param name - Consumer name
+   * @returns The consumer
+   * @throws NotFoundError if no consumer has the given name
+   */
+  public getConsumer(name: string): ConsumerInfo {
+    return this.toConsumerInfo(this.requireConsumer(name));
+  }
+
+  /**
+   * Add a consumer at runtime
+   *
+   * The consumer's queue, binding, retry queues and DLQ are asserted and it starts
+   * consuming right away if the service is running (or on start otherwise), unless
+   * it is disabled, in which case it is added paused. Runtime changes are not written
+   * back to the topology file.
+   *
+   * @param consumerConfig - Consumer configuration (enabled defaults to true)
+   * @returns The added consumer
+   * @throws ValidationError if the configuration is invalid
+   * @throws ConflictError if a consumer with the same name exists
+   */
+  public async addConsumer(consumerConfig: QueueConsumerConfig): Promise<ConsumerInfo> {
+    const errors = validateConsumerConfig(consumerConfig);
+    if (errors.length > 0) {
+      throw new ValidationError(`Invalid consumer configuration: ${errors.join(', ')}`, {
+        errors,
+      });
+    }
+
+    const managed = this.registerConsumer({
+      ...consumerConfig,
+      enabled: consumerConfig.enabled ?? true,
+    });
+
+    if (this.isRunning && !managed.paused) {
+      try {
+        await this.activateConsumer(managed);
+      } catch (error) {
+        this.consumers.delete(consumerConfig.name);
+        await managed.consumer.close();
+        throw error;
+      }
+    }
+
+    this.deadLetterManager.addConsumer(managed.config);
+
+    logger.info('Consumer added', { name: consumerConfig.name, paused: managed.paused });
+
+    return this.toConsumerInfo(managed);
+  }
+
+  /**
+   * Pause a consumer, draining its in-flight messages
+   *
+   * @param name - Consumer name
+   * @returns The paused consumer
+   * @throws ConflictError if the service is not running
+   * @throws NotFoundError if no consumer has the given name
+   */
+  public async pauseConsumer(name: string): Promise<ConsumerInfo> {
+    this.requireRunning();
+    const managed = this.requireConsumer(name);
+
+    if (!managed.paused) {
+      if (!managed.suspended) {
+        await managed.consumer.stop();
+      }
+      managed.paused = true;
+      managed.suspended = false;
+
+      logger.info('Consumer paused', { name });
+    }
+
+    return this.toConsumerInfo(managed);
+  }
+
+  /**
+   * Resume a paused (or disabled) consumer
+   *
+   * @param name - Consumer name
+   * @returns The resumed consumer
+   * @throws ConflictError if the service is not running
+   * @throws NotFoundError if no consumer has the given name
+   */
+  public async resumeConsumer(name: string): Promise<ConsumerInfo> {
+    this.requireRunning();
+    const managed = this.requireConsumer(name);
+
+    if (managed.paused) {
+      await this.activateConsumer(managed);
+      managed.paused = false;
+
+      logger.info('Consumer resumed', { name });
+    }
+
+    return this.toConsumerInfo(managed);
+  }
+
+  /**
+   * Remove a consumer, draining its in-flight messages
+   *
+   * Its queue is kept, so messages published meanwhile are consumed if it is added again.
+   *
+   * @param name - Consumer name
+   * @throws NotFoundError if no consumer has the given name
+   */
+  public async removeConsumer(name: string): Promise<void> {
+    const managed = this.requireConsumer(name);
+
+    await managed.consumer.close();
+    this.consumers.delete(name);
+    this.deadLetterManager.removeConsumer(name);
+
+    logger.info('Consumer removed', { name });
+  }
+
+  /**
+   * Get routing configuration reload status
+   *
+   * @returns Reload status, or null if routing is not configured
+   */
+  public getRoutingStatus(): RoutingReloadStatus | null {
+    return this.routingConfigWatcher ? this.routingConfigWatcher.getStatus() : null;
+  }
+
+  /**
+   * Reload routing configuration from file immediately
+   *
+   * @returns Reload result
+   * @throws ConflictError if routing is not configured or not yet loaded
+   */
+  public reloadRouting(): RoutingReloadResult {
+    return this.requireRouting().watcher.reload();
+  }
+
+  /**
+   * Get every configured route with its statistics
+   *
+   * @returns Routes, highest priority first
+   * @throws ConflictError if routing is not configured or not yet loaded
+   */
+  public getRoutes(): RouteWithStats[] {
+    const { loader, router } = this.requireRouting();
+    const metrics = router.getMetrics();
+
+    return [...loader.getRoutes()]
+      .sort((a, b) => b.priority - a.priority)
+      .map((route) => ({ ...route, stats: metrics.getRouteStats(route.name) }));
+  }
+
+  /**
+   * Enable or disable a route at runtime
+   *
+   * @param name - Route name
+   * @param enabled - Whether the route should be enabled
+   * @returns The updated route
+   * @throws ConflictError if routing is not active
+   * @throws NotFoundError if no route has the given name
+   */
+  public setRouteEnabled(name: string, enabled: boolean): RouteDefinition {
+    return this.requireRouting().loader.setRouteEnabled(name, enabled);
+  }
+
+  /**
+   * Explain how a sample CloudEvent would be routed, without dispatching it
+   *
+   * @param event - Sample CloudEvent
+   * @returns Dry-run result
+   * @throws ConflictError if routing is not active
+   */
+  public dryRunRoute(event: Record<string, unknown>): RoutingDryRunResult {
+    return this.requireRouting().router.dryRun(event);
+  }
+
+  /**
+   * Get the DLQ depth of every consumer with a DLQ
+   *
+   * @returns Depth per consumer
+   * @throws ConflictError if the service is not running
+   */
+  public async getDeadLetterDepths(): Promise<DeadLetterDepth[]> {
+    return this.requireDeadLetters().getDepths();
+  }
+
+  /**
+   * Page through the dead-lettered messages of a consumer
+   *
+   * @param consumer - Consumer name
+   * @param offset - Position of the first message
+   * @param limit - Page size
+   * @returns Page of dead-lettered messages
+   * @throws ConflictError if the service is not running
+   * @throws NotFoundError if the consumer has no DLQ
+   */
+  public async listDeadLetters(
+    consumer: string,
+    offset?: number,
+    limit?: number,
+  ): Promise<DeadLetterPage> {
+    return this.requireDeadLetters().listMessages(consumer, offset, limit);
+  }
+
+  /**
+   * Replay selected dead-lettered messages to their original destination
+   *
+   * @param consumer - Consumer name
+   * @param filter - Messages to replay
+   * @returns Replay result
+   * @throws ConflictError if the service is not running
+   * @throws NotFoundError if the consumer has no DLQ
+   */
+  public async replayDeadLetters(
+    consumer: string,
+    filter: DeadLetterFilter,
+  ): Promise<DeadLetterReplayResult> {
+    return this.requireDeadLetters().replay(consumer, filter);
+  }
+
+  /**
+   * Remove every message from a consumer DLQ
+   *
+   * @param consumer - Consumer name
+   * @returns The purged messages
+   * @throws ConflictError if the service is not running
+   * @throws NotFoundError if the consumer has no DLQ
+   */
+  public async purgeDeadLetters(consumer: string): Promise<DeadLetterMessage[]> {
+    return this.requireDeadLetters().purge(consumer);
+  }
+
+  /**
+   * Query the event archive
+   *
+   * @param filter - Selection criteria (all events if empty)
+   * @param offset - Matching events to skip
+   * @param limit - Maximum events to return
+   * @returns Page of archived events, oldest first
+   * @throws ConflictError if the archive is not configured
+   * @throws ValidationError if the filter is malformed
+   */
+  public async queryArchivedEvents(
+    filter: EventArchiveFilter,
+    offset: number,
+    limit: number,
+  ): Promise<EventArchivePage> {
+    return this.requireArchive().query(filter, offset, limit);
+  }
+
+  /**
+   * Replay archived events
+   *
+   * Selected events are delivered again in archive order with their original
+   * correlation ID: through the routing pipeline, or only to the destinations of
+   * the given route, or only to the given destination. An event archived several
+   * times (e.g. failed attempts before its delivery) is replayed once. Replays
+   * bypass deduplication and are not archived again.
+   *
+   * @param request - Events to replay and where to
+   * @returns Replayed and failed event IDs
+   * @throws ConflictError if the service is not running or the archive is not configured
+   * @throws ValidationError if the request selects nothing or is malformed
+   * @throws NotFoundError if the route does not exist
+   */
+  public async replayArchivedEvents(
+    request: EventArchiveReplayRequest,
+  ): Promise<EventArchiveReplayResult> {
+    const archive = this.requireArchive();
+    this.requireRunning();
+
+    const { route: routeName, destination, limit = DEFAULT_REPLAY_LIMIT, ...filter } = request;
+    if (!Object.values(filter).some((value) => value !== undefined && value !== '')) {
+      throw new ValidationError(
+        'Replay filter must select events by type, source, subject, correlation id, ' +
+          'outcome or time',
+      );
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_REPLAY_LIMIT) {
+      throw new ValidationError(`limit must be an integer between 1 and ${MAX_REPLAY_LIMIT}`);
+    }
+    if (routeName !== undefined && destination !== undefined) {
+      throw new ValidationError('Replay to either a route or a destination, not both');
+    }
+    if (destination !== undefined && !DESTINATION_TYPES.includes(destination?.type)) {
+      throw new ValidationError(`destination type must be one of ${DESTINATION_TYPES.join(', ')}`);
+    }
+    const route = routeName !== undefined ? this.findRoute(routeName) : undefined;
+
+    // First record of every distinct event, in archive order
+    const page = await archive.query(filter, 0, MAX_REPLAY_SCAN);
+    const events = new Map<string, ArchivedEvent>();
+    for (const archived of page.events) {
+      const eventId = String(archived.event?.id);
+      if (!events.has(eventId)) {
+        events.set(eventId, archived);
+      }
+    }
+
+    const result: EventArchiveReplayResult = {
+      matched: events.size,
+      replayed: [],
+      failed: [],
+      truncated: page.total > page.events.length || events.size > limit,
+    };
+
+    for (const [eventId, archived] of [...events].slice(0, limit)) {
+      try {
+        await this.replayEvent(archived, route, destination);
+        result.replayed.push(eventId);
+      } catch (error) {
+        result.failed.push({ eventId, error: (error as Error).message });
+      }
+    }
+
+    logger.info('Archived events replayed', {
+      filter,
+      route: routeName,
+      destinationType: destination?.type,
+      matched: result.matched,
+      replayed: result.replayed.length,
+      failed: result.failed.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * Get the dead letter manager, ensuring the service is connected
+   *
+   * @throws ConflictError if the service is not running
+   */
+  private requireDeadLetters(): DeadLetterManager {
+    this.requireRunning();
+
+    return this.deadLetterManager;
+  }
+
+  /**
+   * Deliver an archived event again
+   *
+   * @throws Error if a destination failed
+   */
+  private async replayEvent(
+    archived: ArchivedEvent,
+    route?: RouteDefinition,
+    destination?: RouteDestination,
+  ): Promise<void> {
+    const { event, correlationId } = archived;
+    let results: RoutingResult[];
+
+    if (route) {
+      results = await this.routeDispatcher.dispatch(route, event, correlationId);
+    } else if (destination) {
+      results = [
+        await this.routeDispatcher.dispatchToDestination(
+          REPLAY_ROUTE,
+          destination,
+          event,
+          correlationId,
+        ),
+      ];
+    } else {
+      await this.deliver(event, correlationId);
+      return;
+    }
+
+    const failed = results.find((result) => !result.success);
+    if (failed) {
+      throw failed.error ?? new Error(`Delivery to ${failed.destination.type} failed`);
+    }
+  }
+
+  /**
+   * Authenticate a CloudEvents ingress client
+   *
+   * @param apiKey - API key sent by the caller
+   * @returns The client the key belongs to
+   * @throws ConflictError if the ingress is not configured
+   * @throws UnauthorizedError if the key is missing or unknown
+   */
+  public authenticateIngressClient(apiKey: string | undefined): IngressClient {
+    return this.requireIngress().authenticate(apiKey);
+  }
+
+  /**
+   * Publish CloudEvents received over HTTP
+   *
+   * Every event is validated (envelope and data schema) and checked against the
+   * client's sources before any is published; each is then published to the
+   * exchange mapped from its source and confirmed by the broker, in order.
+   *
+   * @param client - Authenticated ingress client
+   * @param events - Events in request order
+   * @param correlationId - Correlation ID for tracing (default: each event's)
+   * @returns Published events, in order
+   * @throws ConflictError if the service is not running or the ingress is not configured
+   * @throws ValidationError if an event is invalid or no exchange is mapped for it
+   * @throws ForbiddenError if the client may not publish an event's source
+   * @throws ServiceUnavailableError if the broker did not confirm an event
+   */
+  public async publishIngressEvents(
+    client: IngressClient,
+    events: unknown[],
+    correlationId?: string,
+  ): Promise<IngressPublishResult[]> {
+    const ingress = this.requireIngress();
+    this.requireRunning();
+
+    return ingress.publish(client, events, correlationId);
+  }
+
+  /**
+   * Authenticate a CloudEvents subscriptions client
+   *
+   * @param apiKey - API key sent by the caller
+   * @returns The client the key belongs to
+   * @throws ConflictError if subscriptions are not configured
+   * @throws UnauthorizedError if the key is missing or unknown
+   */
+  public authenticateSubscriptionClient(apiKey: string | undefined): SubscriptionClient {
+    return this.requireSubscriptions().authenticate(apiKey);
+  }
+
+  /**
+   * List the subscriptions of a client
+   *
+   * @param client - Authenticated subscriptions client
+   * @returns Subscriptions with their delivery status, in creation order
+   * @throws ConflictError if the service is not running or subscriptions are not configured
+   */
+  public listSubscriptions(client: SubscriptionClient): SubscriptionInfo[] {
+    const subscriptions = this.requireSubscriptions();
+    this.requireRunning();
+
+    return subscriptions.list(client);
+  }
+
+  /**
+   * Get a subscription of a client
+   *
+   * @param client - Authenticated subscriptions client
+   * @param id - Subscription ID
+   * @returns The subscription with its delivery status
+   * @throws ConflictError if the service is not running or subscriptions are not configured
+   * @throws NotFoundError if the client has no subscription with this ID
+   */
+  public getSubscription(client: SubscriptionClient, id: string): SubscriptionInfo {
+    const subscriptions = this.requireSubscriptions();
+    this.requireRunning();
+
+    return subscriptions.get(client, id);
+  }
+
+  /**
+   * Create a subscription; matching events processed from now on go to its sink
+   *
+   * @param client - Authenticated subscriptions client
+   * @param request - Subscription settings
+   * @returns The created subscription
+   * @throws ConflictError if the service is not running, subscriptions are not
+   *   configured or the client holds its maximum number of subscriptions
+   * @throws ValidationError if the settings are invalid
+   */
+  public async createSubscription(
+    client: SubscriptionClient,
+    request: SubscriptionRequest,
+  ): Promise<SubscriptionInfo> {
+    const subscriptions = this.requireSubscriptions();
+    this.requireRunning();
+
+    return subscriptions.create(client, request);
+  }
+
+  /**
+   * Replace the settings of a subscription
+   *
+   * @param client - Authenticated subscriptions client
+   * @param id - Subscription ID
+   * @param request - New subscription settings
+   * @returns The updated subscription
+   * @throws ConflictError if the service is not running or subscriptions are not configured
+   * @throws ValidationError if the settings are invalid
+   * @throws NotFoundError if the client has no subscription with this ID
+   */
+  public async updateSubscription(
+    client: SubscriptionClient,
+    id: string,
+    request: SubscriptionRequest,
+  ): Promise<SubscriptionInfo> {
+    const subscriptions = this.requireSubscriptions();
+    this.requireRunning();
+
+    return subscriptions.update(client, id, request);
+  }
+
+  /**
+   * Delete a subscription
+   *
+   * @param client - Authenticated subscriptions client
+   * @param id - Subscription ID
+   * @throws ConflictError if the service is not running or subscriptions are not configured
+   * @throws NotFoundError if the client has no subscription with this ID
+   */
+  public async deleteSubscription(client: SubscriptionClient, id: string): Promise<void> {
+    const subscriptions = this.requireSubscriptions();
+    this.requireRunning();
+
+    await subscriptions.delete(client, id);
+  }
+
+  /**
+   * Send a test event to the sink of a subscription (no retries)
+   *
+   * @param client - Authenticated subscriptions client
+   * @param id - Subscription ID
+   * @returns Test result
+   * @throws ConflictError if the service is not running or subscriptions are not configured
+   * @throws NotFoundError if the client has no subscription with this ID
+   */
+  public async testSubscription(
+    client: SubscriptionClient,
+    id: string,
+  ): Promise<SubscriptionTestResult> {
+    const subscriptions = this.requireSubscriptions();
+    this.requireRunning();
+
+    return subscriptions.test(client, id);
+  }
+
+  /**
+   * Get the CloudEvents ingress
+   *
+   * @throws ConflictError if the ingress is not configured
+   */
+  private requireIngress(): EventIngress {
+    if (!this.eventIngress) {
+      throw new ConflictError('CloudEvents ingress is not configured');
+    }
+
+    return this.eventIngress;
+  }
+
+  /**
+   * Get the subscription manager
+   *
+   * @throws ConflictError if subscriptions are not configured
+   */
+  private requireSubscriptions(): SubscriptionManager {
+    if (!this.subscriptionManager) {
+      throw new ConflictError('CloudEvents subscriptions are not configured');
+    }
+
+    return this.subscriptionManager;
+  }
+
+  /**
+   * Get the event archive
+   *
+   * @throws ConflictError if the archive is not configured
+   */
+  private requireArchive(): EventArchive {
+    if (!this.eventArchive) {
+      throw new ConflictError('Event archive is not configured');
+    }
+
+    return this.eventArchive;
+  }
+
+  /**
+   * Find a configured route by name, enabled or not
+   *
+   * @throws ConflictError if routing is not active
+   * @throws NotFoundError if no route has the given name
+   */
+  private findRoute(name: string): RouteDefinition {
+    const route = this.requireRouting()
+      .loader.getRoutes()
+      .find((candidate) => candidate.name === name);
+
+    if (!route) {
+      throw new NotFoundError(`Route '${name}' not found`, { routeName: name });
+    }
+
+    return route;
+  }
+
+  /**
+   * Start a consumer, or suspend it while backpressure has consumers paused
+   *
+   * A consumer started while backpressure is probing starts with the reduced prefetch.
+   */
+  private async activateConsumer(managed: ManagedConsumer): Promise<void> {
+    const backpressure = this.backpressure?.getStatus();
+
+    if (backpressure?.state === 'paused') {
+      managed.suspended = true;
+      return;
+    }
+
+    if (backpressure) {
+      await managed.consumer.limitPrefetch(backpressure.prefetchRatio);
+    }
+    await managed.consumer.start();
+    managed.suspended = false;
+  }
+
+  /**
+   * Queue a backpressure change for the running consumers
+   */
+  private applyBackpressure(status: BackpressureStatus): void {
+    this.backpressureUpdates = this.backpressureUpdates.then(() =>
+      this.updateConsumers(status),
+    );
+  }
+
+  /**
+   * Suspend running consumers, or resume suspended consumers at the prefetch
+   * ratio of the backpressure status. Paused consumers are left alone.
+   */
+  private async updateConsumers(status: BackpressureStatus): Promise<void> {
+    if (!this.isRunning || this.isDraining) {
+      return;
+    }
+
+    const active = [...this.consumers.values()].filter((managed) => !managed.paused);
+    await Promise.all(
+      active.map(async (managed) => {
+        try {
+          if (status.state === 'paused') {
+            if (!managed.suspended) {
+              managed.suspended = true;
+              await managed.consumer.stop();
+              logger.info('Consumer suspended by backpressure', { name: managed.config.name });
+            }
+            return;
+          }
+
+          // A suspended consumer resumes with the reduced prefetch
+          await managed.consumer.limitPrefetch(status.prefetchRatio);
+          if (managed.suspended) {
+            await managed.consumer.start();
+            managed.suspended = false;
+            logger.info('Consumer resumed after backpressure', { name: managed.config.name });
+          }
+        } catch (error) {
+          logger.error('Failed to apply backpressure to consumer', {
+            name: managed.config.name,
+            state: status.state,
+            error: (error as Error).message,
+          });
+        }
+      }),
+    );
+  }
+
+  /**
+   * Ensure the service is connected
+   *
+   * @throws ConflictError if the service is not running
+   */
+  private requireRunning(): void {
+    if (!this.isRunning) {
+      throw new ConflictError('Service is not running');
+    }
+  }
+
+  /**
+   * Get a managed consumer by name
+   *
+   * @throws NotFoundError if no consumer has the given name
+   */
+  private requireConsumer(name: string): ManagedConsumer {
+    const managed = this.consumers.get(name);
+
+    if (!managed) {
+      throw new NotFoundError(`Consumer '${name}' not found`, { consumer: name });
+    }
+
+    return managed;
+  }
+
+  /**
+   * Describe a managed consumer
+   */
+  private toConsumerInfo(managed: ManagedConsumer): ConsumerInfo {
+    let state: ConsumerInfo['state'] = 'running';
+    if (!this.isRunning) {
+      state = 'stopped';
+    } else if (managed.paused) {
+      state = 'paused';
+    } else if (managed.suspended) {
+      state = 'suspended';
+    }
+
+    return {
+      name: managed.config.name,
+      state,
+      config: managed.config,
+      stats: managed.consumer.getStats(),
+    };
+  }
+
+  /**
+   * Declare the configured exchanges
+   */
+  private async declareExchanges(): Promise<void> {
+    const exchanges = this.config.exchanges ?? [];
+    if (exchanges.length === 0) {
+      return;
+    }
+
+    const channel = await this.connectionManager.getChannel();
+    try {
+      for (const exchange of exchanges) {
+        await channel.assertExchange(exchange.name, exchange.type, {
+          durable: exchange.durable ?? true,
+          autoDelete: exchange.autoDelete ?? false,
+        });
+
+        logger.info('Exchange declared', { exchange: exchange.name, type: exchange.type });
+      }
+    } finally {
+      await channel.close();
+    }
+  }
+
+  /**
+   * Get the routing components, ensuring routing is active
+   *
+   * @throws ConflictError if routing is not configured or not yet loaded
+   */
+  private requireRouting(): RoutingComponents {
+    if (
+      !this.routingConfigLoader ||
+      !this.eventRouter ||
+      !this.routingConfigWatcher ||
+      !this.isRunning
+    ) {
+      throw new ConflictError('Routing is not active');
+    }
+
+    return {
+      loader: this.routingConfigLoader,
+      router: this.eventRouter,
+      watcher: this.routingConfigWatcher,
     };
   }
 
@@ -0,0 +1,202 @@
+/**
+ * SubscriptionDispatcher Unit Tests
+ *
+ * Tests sink requests, retries with backoff, delivery statistics and shutdown
+ */
+
+import { SubscriptionDispatcher } from '../subscription-dispatcher';
+import { RouteDispatcher } from '../../routing/route-dispatcher';
+import { Subscription } from '../../messaging/types';
+
+jest.mock('../../routing/route-dispatcher');
+jest.mock('@smile/common', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('SubscriptionDispatcher', () => {
+  let routeDispatcher: jest.Mocked<RouteDispatcher>;
+  let subscriptions: Map<string, Subscription>;
+  let dispatcher: SubscriptionDispatcher;
+
+  const subscription: Subscription = {
+    id: 'sub-1',
+    owner: 'sandbox',
+    filters: [],
+    sink: 'https://partner.example.org/events',
+    sinkcredential: { credentialtype: 'ACCESSTOKEN', accesstoken: 'partner-token' },
+    protocol: 'HTTP',
+    protocolsettings: { method: 'PUT', headers: { 'X-Partner': 'lab' } },
+    delivery: {
+      maxAttempts: 3,
+      initialDelay: 1000,
+      maxDelay: 5000,
+      backoffMultiplier: 2,
+      timeout: 2000,
+    },
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  const event = {
+    specversion: '1.0',
+    id: 'evt-1',
+    source: 'urn:smile:orders-service',
+    type: 'order.created',
+  };
+
+  const succeed = (): void => {
+    routeDispatcher.dispatchToDestination.mockImplementation(async (route, destination) => ({
+      success: true,
+      route,
+      destination,
+      response: { statusCode: 202 },
+      latencyMs: 5,
+    }));
+  };
+  const fail = (message = 'HTTP 503: Service Unavailable'): void => {
+    routeDispatcher.dispatchToDestination.mockImplementation(async (route, destination) => ({
+      success: false,
+      route,
+      destination,
+      error: new Error(message),
+      latencyMs: 5,
+    }));
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    routeDispatcher = new (RouteDispatcher as jest.MockedClass<typeof RouteDispatcher>)(
+      {} as any,
+      {} as any,
+    ) as jest.Mocked<RouteDispatcher>;
+    subscriptions = new Map([[subscription.id, subscription]]);
+    dispatcher = new SubscriptionDispatcher(routeDispatcher, (id) => subscriptions.get(id));
+    succeed();
+  });
+
+  afterEach(async () => {
+    await dispatcher.close();
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should send the event to the sink with its HTTP settings and credential', async () => {
+    dispatcher.enqueue(subscription, event, 'corr-1');
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(routeDispatcher.dispatchToDestination).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'subscription:sub-1' }),
+      {
+        type: 'http',
+        endpoint: 'https://partner.example.org/events',
+        method: 'PUT',
+        timeout: 2000,
+        headers: { 'X-Partner': 'lab', Authorization: 'Bearer partner-token' },
+      },
+      event,
+      'corr-1',
+    );
+    expect(dispatcher.getStatus('sub-1')).toEqual({
+      delivered: 1,
+      failed: 0,
+      pending: 0,
+      lastDeliveredAt: expect.any(String),
+    });
+  });
+
+  it('should retry a failed delivery with exponential backoff', async () => {
+    fail();
+    dispatcher.enqueue(subscription, event, 'corr-1');
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(routeDispatcher.dispatchToDestination).toHaveBeenCalledTimes(1);
+    expect(dispatcher.getStatus('sub-1')).toEqual(
+      expect.objectContaining({
+        pending: 1,
+        failed: 0,
+        lastError: 'HTTP 503: Service Unavailable',
+      }),
+    );
+
+    succeed();
+    await jest.advanceTimersByTimeAsync(999);
+    expect(routeDispatcher.dispatchToDestination).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(routeDispatcher.dispatchToDestination).toHaveBeenCalledTimes(2);
+    expect(dispatcher.getStatus('sub-1')).toEqual(
+      expect.objectContaining({ delivered: 1, pending: 0, failed: 0 }),
+    );
+  });
+
+  it('should give up after maxAttempts', async () => {
+    fail();
+    dispatcher.enqueue(subscription, event, 'corr-1');
+
+    // Retries after 1000 and 2000 ms
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(routeDispatcher.dispatchToDestination).toHaveBeenCalledTimes(3);
+    expect(dispatcher.getStatus('sub-1')).toEqual(
+      expect.objectContaining({ delivered: 0, failed: 1, pending: 0 }),
+    );
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(routeDispatcher.dispatchToDestination).toHaveBeenCalledTimes(3);
+  });
+
+  it('should deliver retries with the current settings and drop them once deleted', async () => {
+    fail();
+    dispatcher.enqueue(subscription, event, 'corr-1');
+    await jest.advanceTimersByTimeAsync(0);
+
+    subscriptions.set('sub-1', { ...subscription, sink: 'https://partner.example.org/v2' });
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(routeDispatcher.dispatchToDestination.mock.calls[1]![1].endpoint).toBe(
+      'https://partner.example.org/v2',
+    );
+
+    subscriptions.delete('sub-1');
+    dispatcher.remove('sub-1');
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(routeDispatcher.dispatchToDestination).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop pending retries on close', async () => {
+    fail();
+    dispatcher.enqueue(subscription, event, 'corr-1');
+    await jest.advanceTimersByTimeAsync(0);
+
+    await dispatcher.close();
+    await jest.advanceTimersByTimeAsync(10000);
+
+    expect(routeDispatcher.dispatchToDestination).toHaveBeenCalledTimes(1);
+    dispatcher.enqueue(subscription, event, 'corr-2');
+    expect(routeDispatcher.dispatchToDestination).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report the outcome of a test event without retrying', async () => {
+    jest.useRealTimers();
+    fail('HTTP 404: Not Found');
+
+    const result = await dispatcher.test(subscription);
+
+    expect(result).toEqual({
+      success: false,
+      eventId: expect.any(String),
+      error: 'HTTP 404: Not Found',
+      latencyMs: 5,
+    });
+    expect(routeDispatcher.dispatchToDestination).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ endpoint: subscription.sink }),
+      expect.objectContaining({ type: 'interop.subscription.test', id: result.eventId }),
+      result.eventId,
+    );
+    expect(dispatcher.getStatus('sub-1')).toEqual({ delivered: 0, failed: 0, pending: 0 });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Subscription Filter Unit Tests
+ *
+ * Tests validation and matching of the CloudEvents Subscriptions API filter dialects
+ */
+
+import {
+  matchesSubscriptionFilters,
+  validateSubscriptionFilters,
+} from '../subscription-filter';
+import { SubscriptionFilter } from '../../messaging/types';
+
+describe('Subscription filters', () => {
+  const event = {
+    specversion: '1.0',
+    id: 'evt-1',
+    source: 'urn:smile:orders-service',
+    type: 'order.created',
+    subject: 'FAC-001/ORD-42',
+    priority: 2,
+    data: { orderId: 'ORD-42' },
+  };
+
+  describe('validateSubscriptionFilters()', () => {
+    it('should accept every supported dialect', () => {
+      const filters: SubscriptionFilter[] = [
+        { exact: { type: 'order.created' } },
+        { prefix: { source: 'urn:smile:' } },
+        { suffix: { subject: '/ORD-42' } },
+        { all: [{ exact: { type: 'order.created' } }] },
+        { any: [{ exact: { priority: '2' } }, { not: { exact: { priority: '0' } } }] },
+      ];
+
+      expect(validateSubscriptionFilters(filters)).toEqual([]);
+    });
+
+    it('should report malformed filters with their position', () => {
+      expect(
+        validateSubscriptionFilters([
+          { exact: { type: 'order.created', source: 'urn:smile:orders-service' } },
+          { prefix: { subject: '' } },
+          { suffix: { Type: 'created' } },
+          { exact: { data: 'ORD-42' } },
+          { all: [] },
+          { not: { exact: { type: 1 } } },
+          { sql: "type = 'order.created'" },
+          { exact: { type: 'a' }, prefix: { type: 'b' } },
+        ]),
+      ).toEqual([
+        'filters[0].exact must name exactly one attribute',
+        'filters[1].prefix.subject must not be empty',
+        "filters[2].suffix has invalid attribute name 'Type'",
+        "filters[3].exact has invalid attribute name 'data'",
+        'filters[4].all must be a non-empty list',
+        'filters[5].not.exact.type must be a string',
+        "filters[6] has unsupported dialect 'sql'",
+        'filters[7] must have exactly one dialect',
+      ]);
+    });
+
+    it('should reject filters that are not a list or nest too deeply', () => {
+      let nested: any = { exact: { type: 'order.created' } };
+      for (let depth = 0; depth < 8; depth++) {
+        nested = { not: nested };
+      }
+
+      expect(validateSubscriptionFilters({ exact: { type: 'x' } })).toEqual([
+        'filters must be a list',
+      ]);
+      expect(validateSubscriptionFilters([nested])[0]).toMatch(/nests filters deeper than 8/);
+    });
+  });
+
+  describe('matchesSubscriptionFilters()', () => {
+    it('should match attributes exactly, by prefix and by suffix', () => {
+      expect(matchesSubscriptionFilters(event, [{ exact: { type: 'order.created' } }])).toBe(true);
+      expect(matchesSubscriptionFilters(event, [{ exact: { type: 'order' } }])).toBe(false);
+      expect(matchesSubscriptionFilters(event, [{ prefix: { subject: 'FAC-001/' } }])).toBe(true);
+      expect(matchesSubscriptionFilters(event, [{ suffix: { source: 'orders-service' } }])).toBe(
+        true,
+      );
+    });
+
+    it('should compare extension values as strings', () => {
+      expect(matchesSubscriptionFilters(event, [{ exact: { priority: '2' } }])).toBe(true);
+    });
+
+    it('should not match attributes the event does not have', () => {
+      expect(matchesSubscriptionFilters(event, [{ prefix: { tenant: '' } }])).toBe(false);
+      expect(matchesSubscriptionFilters(event, [{ not: { exact: { tenant: 'a' } } }])).toBe(true);
+    });
+
+    it('should combine filters with all, any and not', () => {
+      const filters: SubscriptionFilter[] = [
+        {
+          any: [
+            { exact: { type: 'order.approved' } },
+            { all: [{ prefix: { type: 'order.' } }, { not: { suffix: { subject: '-00' } } }] },
+          ],
+        },
+      ];
+
+      expect(matchesSubscriptionFilters(event, filters)).toBe(true);
+      expect(matchesSubscriptionFilters({ ...event, subject: 'FAC-001/ORD-00' }, filters)).toBe(
+        false,
+      );
+    });
+
+    it('should require every top-level filter to match', () => {
+      expect(matchesSubscriptionFilters(event, [])).toBe(true);
+      expect(
+        matchesSubscriptionFilters(event, [
+          { exact: { type: 'order.created' } },
+          { exact: { source: 'urn:smile:health-service' } },
+        ]),
+      ).toBe(false);
+    });
+  });
+});
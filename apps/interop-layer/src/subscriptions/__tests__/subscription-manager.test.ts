@@ -0,0 +1,332 @@
+/**
+ * SubscriptionManager Unit Tests
+ *
+ * Tests client authentication, subscription validation, ownership, persistence
+ * and matching of processed events
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '@smile/common';
+import {
+  loadSubscriptionsConfigFile,
+  SubscriptionManager,
+  SubscriptionsConfig,
+} from '../subscription-manager';
+import { RouteDispatcher } from '../../routing/route-dispatcher';
+
+jest.mock('../../routing/route-dispatcher');
+jest.mock('@smile/common', () => ({
+  ...jest.requireActual('@smile/common'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('SubscriptionManager', () => {
+  let directory: string;
+  let config: SubscriptionsConfig;
+  let dispatcher: jest.Mocked<RouteDispatcher>;
+  let manager: SubscriptionManager;
+
+  const sandbox = {
+    name: 'sandbox',
+    apiKey: 'sandbox-key',
+    types: ['order.*'],
+    maxSubscriptions: 2,
+  };
+  const lab = { name: 'district-lab', apiKey: 'lab-key' };
+
+  const orderCreated = {
+    specversion: '1.0',
+    id: 'evt-1',
+    source: 'urn:smile:orders-service',
+    type: 'order.created',
+    subject: 'FAC-001',
+  };
+
+  const createManager = async (): Promise<SubscriptionManager> => {
+    const created = new SubscriptionManager(config, dispatcher);
+    await created.load();
+    return created;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'subscriptions-'));
+    config = {
+      path: path.join(directory, 'subscriptions.json'),
+      clients: [sandbox, lab],
+      sinks: ['https://*', 'http://localhost:*'],
+      delivery: { maxAttempts: 3 },
+    };
+    dispatcher = new (RouteDispatcher as jest.MockedClass<typeof RouteDispatcher>)(
+      {} as any,
+      {} as any,
+    ) as jest.Mocked<RouteDispatcher>;
+    dispatcher.dispatchToDestination.mockImplementation(async (route, destination) => ({
+      success: true,
+      route,
+      destination,
+      latencyMs: 1,
+    }));
+    manager = await createManager();
+  });
+
+  afterEach(async () => {
+    await manager.close();
+    await fs.rm(directory, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  describe('validate()', () => {
+    it('should accept a valid configuration', () => {
+      expect(SubscriptionManager.validate(config)).toEqual([]);
+    });
+
+    it('should report invalid settings', () => {
+      const errors = SubscriptionManager.validate({
+        path: '',
+        clients: [
+          { name: 'sandbox', apiKey: 'key', types: 'order.*' as any, maxSubscriptions: -1 },
+          { name: 'sandbox', apiKey: 'key' },
+        ],
+        sinks: 'https://*' as any,
+        delivery: { maxAttempts: 20, timeout: 0 },
+      });
+
+      expect(errors).toEqual([
+        "client name 'sandbox' is used more than once",
+        "client 'sandbox' shares its apiKey with another client",
+        'path is required',
+        "client 'sandbox' types must be a list",
+        "client 'sandbox' maxSubscriptions must be a non-negative integer",
+        'sinks must be a list',
+        'delivery maxAttempts must be an integer from 1 to 10',
+        'delivery timeout must be an integer from 1 to 30000',
+      ]);
+    });
+  });
+
+  describe('authenticate()', () => {
+    it('should return the client an API key belongs to', () => {
+      expect(manager.authenticate('sandbox-key')).toBe(sandbox);
+    });
+
+    it('should reject a missing or unknown API key', () => {
+      expect(() => manager.authenticate(undefined)).toThrow(UnauthorizedError);
+      expect(() => manager.authenticate('wrong')).toThrow('Invalid API key');
+    });
+  });
+
+  describe('create()', () => {
+    it('should create a subscription with delivery defaults and hide its token', async () => {
+      const subscription = await manager.create(sandbox, {
+        sink: 'https://partner.example.org/events',
+        types: ['order.created'],
+        sinkcredential: { credentialtype: 'ACCESSTOKEN', accesstoken: 'secret' },
+        delivery: { timeout: 2000 },
+      });
+
+      expect(subscription).toEqual({
+        id: expect.any(String),
+        types: ['order.created'],
+        filters: [],
+        sink: 'https://partner.example.org/events',
+        sinkcredential: { credentialtype: 'ACCESSTOKEN' },
+        protocol: 'HTTP',
+        delivery: {
+          maxAttempts: 3,
+          initialDelay: 1000,
+          maxDelay: 60000,
+          backoffMultiplier: 2,
+          timeout: 2000,
+        },
+        createdAt: expect.any(String),
+        updatedAt: subscription.createdAt,
+        status: { delivered: 0, failed: 0, pending: 0 },
+      });
+    });
+
+    it('should reject invalid subscriptions with every error', async () => {
+      const error = await manager
+        .create(sandbox, {
+          sink: 'ftp://partner.example.org',
+          types: ['health.lab.result-available'],
+          filters: [{ sql: "type = 'order.created'" } as any],
+          protocol: 'MQTT' as any,
+          sinkcredential: { credentialtype: 'REFRESHTOKEN' as any, accesstoken: '' },
+          protocolsettings: { method: 'GET' as any },
+          delivery: { initialDelay: 5000, maxDelay: 1000 },
+        })
+        .catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.context.errors).toEqual([
+        'sink must be an http(s) URL matching one of https://*, http://localhost:*',
+        'protocol must be HTTP',
+        "type 'health.lab.result-available' is not available to client 'sandbox'",
+        "filters[0] has unsupported dialect 'sql'",
+        'sinkcredential credentialtype must be ACCESSTOKEN',
+        'sinkcredential accesstoken is required',
+        'protocolsettings method must be one of POST, PUT',
+        'delivery initialDelay must not exceed maxDelay',
+      ]);
+    });
+
+    it('should only allow sinks matching an allowed pattern', async () => {
+      await expect(
+        manager.create(sandbox, { sink: 'http://partner.example.org/events' }),
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        manager.create(sandbox, { sink: 'http://localhost:8080/events' }),
+      ).resolves.toEqual(expect.objectContaining({ sink: 'http://localhost:8080/events' }));
+    });
+
+    it('should limit the subscriptions of a client', async () => {
+      await manager.create(sandbox, { sink: 'https://partner.example.org/1' });
+      await manager.create(sandbox, { sink: 'https://partner.example.org/2' });
+
+      await expect(
+        manager.create(sandbox, { sink: 'https://partner.example.org/3' }),
+      ).rejects.toThrow(ConflictError);
+      await expect(
+        manager.create(lab, { sink: 'https://lab.example.org/events' }),
+      ).resolves.toBeDefined();
+    });
+  });
+
+  describe('ownership', () => {
+    it('should only show and change subscriptions of the calling client', async () => {
+      const own = await manager.create(sandbox, { sink: 'https://partner.example.org/events' });
+      await manager.create(lab, { sink: 'https://lab.example.org/events' });
+
+      expect(manager.list(sandbox).map((subscription) => subscription.id)).toEqual([own.id]);
+      expect(() => manager.get(lab, own.id)).toThrow(NotFoundError);
+      await expect(manager.delete(lab, own.id)).rejects.toThrow(NotFoundError);
+      await expect(
+        manager.update(lab, own.id, { sink: 'https://lab.example.org/events' }),
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should keep subscriptions across restarts', async () => {
+      const created = await manager.create(sandbox, {
+        sink: 'https://partner.example.org/events',
+        sinkcredential: { credentialtype: 'ACCESSTOKEN', accesstoken: 'secret' },
+      });
+      await manager.close();
+
+      manager = await createManager();
+      const stored = JSON.parse(await fs.readFile(config.path, 'utf8'));
+
+      expect(manager.get(sandbox, created.id)).toEqual(created);
+      expect(stored.subscriptions[0]).toEqual(
+        expect.objectContaining({ owner: 'sandbox', sinkcredential: expect.any(Object) }),
+      );
+    });
+
+    it('should persist updates and deletions', async () => {
+      const created = await manager.create(sandbox, { sink: 'https://partner.example.org/v1' });
+
+      const updated = await manager.update(sandbox, created.id, {
+        sink: 'https://partner.example.org/v2',
+        filters: [{ prefix: { subject: 'FAC-' } }],
+      });
+      expect(updated).toEqual(
+        expect.objectContaining({
+          id: created.id,
+          sink: 'https://partner.example.org/v2',
+          createdAt: created.createdAt,
+        }),
+      );
+
+      await manager.delete(sandbox, created.id);
+      await manager.close();
+      manager = await createManager();
+
+      expect(manager.list(sandbox)).toEqual([]);
+    });
+
+    it('should not apply a change that could not be persisted', async () => {
+      await fs.mkdir(config.path);
+
+      await expect(
+        manager.create(sandbox, { sink: 'https://partner.example.org/events' }),
+      ).rejects.toThrow();
+      expect(manager.list(sandbox)).toEqual([]);
+    });
+  });
+
+  describe('publish()', () => {
+    it('should deliver an event to every matching subscription', async () => {
+      await manager.create(sandbox, {
+        sink: 'https://partner.example.org/all-orders',
+        source: 'urn:smile:orders-service',
+      });
+      await manager.create(lab, {
+        sink: 'https://lab.example.org/facility',
+        types: ['order.created'],
+        filters: [{ exact: { subject: 'FAC-001' } }],
+      });
+
+      expect(manager.publish(orderCreated, 'corr-1')).toBe(2);
+      expect(manager.publish({ ...orderCreated, subject: 'FAC-002' }, 'corr-2')).toBe(1);
+      expect(manager.publish({ ...orderCreated, type: 'order.approved' }, 'corr-3')).toBe(1);
+      expect(manager.publish({ ...orderCreated, source: 'urn:smile:x' }, 'corr-4')).toBe(1);
+    });
+
+    it('should only deliver event types the owner is allowed to receive', async () => {
+      await manager.create(sandbox, { sink: 'https://partner.example.org/events' });
+
+      expect(manager.publish({ ...orderCreated, type: 'health.patient.registered' }, 'c')).toBe(0);
+      expect(manager.publish(orderCreated, 'corr-1')).toBe(1);
+    });
+
+    it('should stop delivering to clients removed from the configuration', async () => {
+      await manager.create(lab, { sink: 'https://lab.example.org/events' });
+      await manager.close();
+
+      config = { ...config, clients: [sandbox] };
+      manager = await createManager();
+
+      expect(manager.publish(orderCreated, 'corr-1')).toBe(0);
+    });
+  });
+
+  describe('loadSubscriptionsConfigFile()', () => {
+    it('should load clients, sinks and delivery defaults with environment references', async () => {
+      const filePath = path.join(directory, 'subscriptions.yml');
+      await fs.writeFile(filePath, [
+        'sinks: ["https://*"]',
+        'delivery:',
+        '  maxAttempts: "${MAX_ATTEMPTS:-4}"',
+        'clients:',
+        '  - name: "sandbox"',
+        '    apiKey: "${SANDBOX_KEY}"',
+        '    maxSubscriptions: "3"',
+      ].join('\n'));
+
+      expect(loadSubscriptionsConfigFile(filePath, { SANDBOX_KEY: 'secret' })).toEqual({
+        sinks: ['https://*'],
+        delivery: { maxAttempts: 4 },
+        clients: [{ name: 'sandbox', apiKey: 'secret', maxSubscriptions: 3 }],
+      });
+    });
+
+    it('should report a file that cannot be loaded', () => {
+      expect(() => loadSubscriptionsConfigFile(path.join(directory, 'missing.yml'))).toThrow(
+        /Failed to load subscriptions configuration/,
+      );
+    });
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * SubscriptionDispatcher
+ *
+ * Delivers events to subscription sinks over HTTP:
+ * - Each event is delivered to each matching subscription independently, so a
+ *   failing sink never delays processing or other sinks
+ * - Failed deliveries are retried with exponential backoff (delivery settings
+ *   of the subscription) and given up after maxAttempts
+ * - Every attempt uses the subscription as it is at that time: a replaced sink
+ *   receives pending retries, a deleted subscription receives nothing more
+ * - Delivery statistics are kept per subscription
+ *
+ * Pending retries are held in memory and dropped on shutdown; events are not
+ * delivered in order.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '@smile/common';
+import { RouteDispatcher } from '../routing/route-dispatcher';
+import { RetryManager } from '../consumer/retry-manager';
+import {
+  RouteDefinition,
+  RouteDestination,
+  Subscription,
+  SubscriptionDeliveryStatus,
+  SubscriptionTestResult,
+} from '../messaging/types';
+
+/** Events held per subscription while its sink is failing; later events are dropped */
+const MAX_PENDING_DELIVERIES = 1000;
+
+const TEST_EVENT_TYPE = 'interop.subscription.test';
+const TEST_EVENT_SOURCE = 'urn:smile:interop-layer';
+
+/**
+ * Subscription sink dispatcher
+ */
+export class SubscriptionDispatcher {
+  private readonly statuses = new Map<string, SubscriptionDeliveryStatus>();
+  private readonly timers = new Set<NodeJS.Timeout>();
+  private readonly inFlight = new Set<Promise<void>>();
+  private closed = false;
+
+  /**
+   * @param routeDispatcher - Sends the HTTP requests
+   * @param getSubscription - Current version of a subscription (undefined once deleted)
+   */
+  constructor(
+    private readonly routeDispatcher: RouteDispatcher,
+    private readonly getSubscription: (id: string) => Subscription | undefined,
+  ) {}
+
+  /**
+   * Start delivering an event to a subscription
+   *
+   * Never throws: failures are retried, logged and counted.
+   *
+   * @param subscription - Matching subscription
+   * @param event - The CloudEvent
+   * @param correlationId - Correlation ID for tracing
+   */
+  public enqueue(
+    subscription: Subscription,
+    event: Record<string, unknown>,
+    correlationId: string,
+  ): void {
+    if (this.closed) {
+      return;
+    }
+
+    const status = this.getOrCreateStatus(subscription.id);
+    if (status.pending >= MAX_PENDING_DELIVERIES) {
+      this.recordFailure(status, `More than ${MAX_PENDING_DELIVERIES} deliveries pending`);
+      logger.warn('Subscription delivery dropped, too many pending', {
+        subscriptionId: subscription.id,
+        eventId: event.id,
+        correlationId,
+      });
+      return;
+    }
+
+    status.pending++;
+    this.attempt(subscription.id, event, correlationId, 1);
+  }
+
+  /**
+   * Send a test event to a subscription sink, without retries
+   *
+   * @param subscription - Subscription to test
+   * @returns Test result
+   */
+  public async test(subscription: Subscription): Promise<SubscriptionTestResult> {
+    const event = {
+      specversion: '1.0',
+      id: uuidv4(),
+      source: TEST_EVENT_SOURCE,
+      type: TEST_EVENT_TYPE,
+      time: new Date().toISOString(),
+      datacontenttype: 'application/json',
+      data: { subscriptionId: subscription.id },
+    };
+
+    const result = await this.routeDispatcher.dispatchToDestination(
+      SubscriptionDispatcher.toRoute(subscription),
+      SubscriptionDispatcher.toDestination(subscription),
+      event,
+      event.id,
+    );
+
+    const statusCode = (result.response as { statusCode?: number } | undefined)?.statusCode;
+
+    return {
+      success: result.success,
+      eventId: event.id,
+      ...(statusCode !== undefined && { statusCode }),
+      ...(result.error && { error: result.error.message }),
+      latencyMs: result.latencyMs,
+    };
+  }
+
+  /**
+   * Get the delivery statistics of a subscription
+   *
+   * @param id - Subscription ID
+   * @returns Statistics since the service started
+   */
+  public getStatus(id: string): SubscriptionDeliveryStatus {
+    return { ...(this.statuses.get(id) ?? SubscriptionDispatcher.emptyStatus()) };
+  }
+
+  /**
+   * Forget the statistics of a deleted subscription
+   *
+   * Its pending retries are given up at their next attempt.
+   *
+   * @param id - Subscription ID
+   */
+  public remove(id: string): void {
+    this.statuses.delete(id);
+  }
+
+  /**
+   * Drop pending retries and wait for deliveries in progress
+   */
+  public async close(): Promise<void> {
+    this.closed = true;
+
+    if (this.timers.size > 0) {
+      logger.warn('Dropping pending subscription retries', { retries: this.timers.size });
+    }
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+
+    await Promise.all([...this.inFlight]);
+  }
+
+  /**
+   * Make one delivery attempt, scheduling a retry if it fails
+   */
+  private attempt(
+    id: string,
+    event: Record<string, unknown>,
+    correlationId: string,
+    attempt: number,
+  ): void {
+    const run = async (): Promise<void> => {
+      const subscription = this.getSubscription(id);
+      const status = this.statuses.get(id);
+
+      if (!subscription || !status || this.closed) {
+        logger.debug('Subscription delivery abandoned', { subscriptionId: id, eventId: event.id });
+        return;
+      }
+
+      const result = await this.routeDispatcher.dispatchToDestination(
+        SubscriptionDispatcher.toRoute(subscription),
+        SubscriptionDispatcher.toDestination(subscription),
+        event,
+        correlationId,
+      );
+
+      if (result.success) {
+        status.pending--;
+        status.delivered++;
+        status.lastDeliveredAt = new Date().toISOString();
+        return;
+      }
+
+      const error = result.error?.message ?? 'unknown error';
+      const { delivery } = subscription;
+
+      if (attempt < delivery.maxAttempts && !this.closed) {
+        const delay = RetryManager.computeDelays(delivery)[attempt - 1] ?? delivery.maxDelay;
+        status.lastError = error;
+        status.lastErrorAt = new Date().toISOString();
+        this.schedule(() => this.attempt(id, event, correlationId, attempt + 1), delay);
+        return;
+      }
+
+      status.pending--;
+      this.recordFailure(status, error);
+      logger.warn('Subscription delivery failed', {
+        subscriptionId: id,
+        eventId: event.id,
+        correlationId,
+        attempts: attempt,
+        error,
+      });
+    };
+
+    const delivery = run();
+    this.inFlight.add(delivery);
+    void delivery.finally(() => this.inFlight.delete(delivery));
+  }
+
+  /**
+   * Run a retry after a delay
+   */
+  private schedule(retry: () => void, delay: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      retry();
+    }, delay);
+    timer.unref();
+    this.timers.add(timer);
+  }
+
+  private recordFailure(status: SubscriptionDeliveryStatus, error: string): void {
+    status.failed++;
+    status.lastError = error;
+    status.lastErrorAt = new Date().toISOString();
+  }
+
+  private getOrCreateStatus(id: string): SubscriptionDeliveryStatus {
+    let status = this.statuses.get(id);
+    if (!status) {
+      status = SubscriptionDispatcher.emptyStatus();
+      this.statuses.set(id, status);
+    }
+    return status;
+  }
+
+  private static emptyStatus(): SubscriptionDeliveryStatus {
+    return { delivered: 0, failed: 0, pending: 0 };
+  }
+
+  /**
+   * Route reported for a subscription in dispatcher logs
+   */
+  private static toRoute(subscription: Subscription): RouteDefinition {
+    return {
+      name: `subscription:${subscription.id}`,
+      enabled: true,
+      source: '*',
+      type: '*',
+      strategy: 'default',
+      priority: 0,
+    };
+  }
+
+  /**
+   * HTTP destination of a subscription sink
+   */
+  private static toDestination(subscription: Subscription): RouteDestination {
+    const { protocolsettings, sinkcredential, delivery } = subscription;
+
+    return {
+      type: 'http',
+      endpoint: subscription.sink,
+      method: protocolsettings?.method ?? 'POST',
+      timeout: delivery.timeout,
+      headers: {
+        ...protocolsettings?.headers,
+        ...(sinkcredential && { Authorization: `Bearer ${sinkcredential.accesstoken}` }),
+      },
+    };
+  }
+}
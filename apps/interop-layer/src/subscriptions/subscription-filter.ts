@@ -0,0 +1,151 @@
+/**
+ * Subscription Filters
+ *
+ * Filter dialects of the CloudEvents Subscriptions API:
+ * - exact, prefix, suffix: compare one context attribute (or extension) with a
+ *   string; events without the attribute do not match
+ * - all, any, not: combine nested filters
+ *
+ * The optional sql dialect is not supported.
+ */
+
+import { SubscriptionFilter } from '../messaging/types';
+
+const VALUE_DIALECTS = ['exact', 'prefix', 'suffix'] as const;
+const NESTED_DIALECTS = ['all', 'any', 'not'] as const;
+
+/** CloudEvents attribute names: lower-case letters and digits */
+const ATTRIBUTE_NAME = /^[a-z0-9]+$/;
+
+/** Deepest nesting of all, any and not */
+const MAX_FILTER_DEPTH = 8;
+
+/**
+ * Validate subscription filters
+ *
+ * @param filters - Filters to validate
+ * @param path - Name of the filters in errors
+ * @returns Validation errors (empty if valid)
+ */
+export function validateSubscriptionFilters(filters: unknown, path = 'filters'): string[] {
+  if (!Array.isArray(filters)) {
+    return [`${path} must be a list`];
+  }
+
+  return filters.flatMap((filter, index) => validateFilter(filter, `${path}[${index}]`, 1));
+}
+
+/**
+ * Check whether an event matches every filter
+ *
+ * @param event - The CloudEvent
+ * @param filters - Validated filters
+ * @returns True if the event matches all filters (or there are none)
+ */
+export function matchesSubscriptionFilters(
+  event: Record<string, unknown>,
+  filters: SubscriptionFilter[],
+): boolean {
+  return filters.every((filter) => matchesFilter(event, filter));
+}
+
+/**
+ * Validate one filter expression
+ */
+function validateFilter(filter: unknown, path: string, depth: number): string[] {
+  if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+    return [`${path} must be an object`];
+  }
+
+  const dialects = Object.keys(filter);
+  if (dialects.length !== 1) {
+    return [`${path} must have exactly one dialect`];
+  }
+
+  const dialect = dialects[0]!;
+  const value = (filter as Record<string, unknown>)[dialect];
+
+  if ((VALUE_DIALECTS as readonly string[]).includes(dialect)) {
+    return validateAttributeValue(value, `${path}.${dialect}`, dialect !== 'exact');
+  }
+
+  if (!(NESTED_DIALECTS as readonly string[]).includes(dialect)) {
+    return [`${path} has unsupported dialect '${dialect}'`];
+  }
+  if (depth >= MAX_FILTER_DEPTH) {
+    return [`${path} nests filters deeper than ${MAX_FILTER_DEPTH} levels`];
+  }
+
+  if (dialect === 'not') {
+    return validateFilter(value, `${path}.not`, depth + 1);
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    return [`${path}.${dialect} must be a non-empty list`];
+  }
+
+  return value.flatMap((nested, index) =>
+    validateFilter(nested, `${path}.${dialect}[${index}]`, depth + 1),
+  );
+}
+
+/**
+ * Validate the attribute and string of an exact, prefix or suffix filter
+ */
+function validateAttributeValue(value: unknown, path: string, requireValue: boolean): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [`${path} must be an object`];
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length !== 1) {
+    return [`${path} must name exactly one attribute`];
+  }
+
+  const [attribute, expected] = entries[0]!;
+  if (!ATTRIBUTE_NAME.test(attribute) || attribute === 'data') {
+    return [`${path} has invalid attribute name '${attribute}'`];
+  }
+  if (typeof expected !== 'string') {
+    return [`${path}.${attribute} must be a string`];
+  }
+  if (requireValue && expected === '') {
+    return [`${path}.${attribute} must not be empty`];
+  }
+
+  return [];
+}
+
+/**
+ * Check whether an event matches one filter expression
+ */
+function matchesFilter(event: Record<string, unknown>, filter: SubscriptionFilter): boolean {
+  if ('all' in filter) {
+    return filter.all.every((nested) => matchesFilter(event, nested));
+  }
+  if ('any' in filter) {
+    return filter.any.some((nested) => matchesFilter(event, nested));
+  }
+  if ('not' in filter) {
+    return !matchesFilter(event, filter.not);
+  }
+
+  const [dialect, attributes] = Object.entries(filter)[0] as [
+    (typeof VALUE_DIALECTS)[number],
+    Record<string, string>,
+  ];
+  const [attribute, expected] = Object.entries(attributes)[0]!;
+  const actual = event[attribute];
+
+  if (actual === undefined || actual === null) {
+    return false;
+  }
+
+  const value = String(actual);
+  if (dialect === 'prefix') {
+    return value.startsWith(expected);
+  }
+  if (dialect === 'suffix') {
+    return value.endsWith(expected);
+  }
+  return value === expected;
+}
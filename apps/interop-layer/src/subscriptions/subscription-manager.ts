@@ -0,0 +1,664 @@
+/**
+ * SubscriptionManager
+ *
+ * CloudEvents Subscriptions API for webhook consumers:
+ * - Clients authenticate with an API key and manage their own subscriptions
+ *   (sink, source, types, filters, HTTP settings and delivery settings)
+ * - Clients only receive the event types they are allowed, and may only
+ *   deliver to sinks matching the allowed sink patterns
+ * - Subscriptions are persisted in a local JSON file and loaded on start
+ * - Processed events are matched against every subscription and delivered to
+ *   the matching sinks by the SubscriptionDispatcher
+ * - Subscription files are YAML; string values may reference ${ENV_VAR} or ${ENV_VAR:-default}
+ */
+
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  logger,
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from '@smile/common';
+import { RouteDispatcher } from '../routing/route-dispatcher';
+import { RouteMatchEngine } from '../routing/route-match-engine';
+import { interpolateEnv } from '../config/env-interpolation';
+import {
+  ApiClient,
+  findApiClient,
+  getClientLabel,
+  validateApiClients,
+} from '../config/api-clients';
+import {
+  Subscription,
+  SubscriptionDeliverySettings,
+  SubscriptionInfo,
+  SubscriptionRequest,
+  SubscriptionTestResult,
+} from '../messaging/types';
+import { SubscriptionStore } from './subscription-store';
+import { SubscriptionDispatcher } from './subscription-dispatcher';
+import { matchesSubscriptionFilters, validateSubscriptionFilters } from './subscription-filter';
+
+/**
+ * Client allowed to manage subscriptions
+ */
+export interface SubscriptionClient extends ApiClient {
+  types?: string[]; // Event type patterns the client may receive (default *)
+  maxSubscriptions?: number; // Subscriptions the client may hold (default 10)
+}
+
+/**
+ * Subscriptions configuration
+ */
+export interface SubscriptionsConfig {
+  path: string; // JSON file subscriptions are persisted in
+  clients: SubscriptionClient[];
+  sinks?: string[]; // Sink URL patterns subscriptions may deliver to (default https://*)
+  delivery?: Partial<SubscriptionDeliverySettings>; // Defaults for subscriptions
+}
+
+/**
+ * Subscriptions file contents (the store path is set by the service)
+ */
+export type SubscriptionsFileConfig = Omit<SubscriptionsConfig, 'path'>;
+
+const DEFAULT_SINKS = ['https://*'];
+const DEFAULT_MAX_SUBSCRIPTIONS = 10;
+
+/** Upper bounds of delivery settings */
+const MAX_DELIVERY_ATTEMPTS = 10;
+const MAX_DELIVERY_TIMEOUT = 30000;
+
+const DEFAULT_DELIVERY: SubscriptionDeliverySettings = {
+  maxAttempts: 5,
+  initialDelay: 1000,
+  maxDelay: 60000,
+  backoffMultiplier: 2,
+  timeout: 5000,
+};
+
+const HTTP_METHODS = ['POST', 'PUT'];
+
+/**
+ * CloudEvents subscription manager
+ */
+export class SubscriptionManager {
+  private readonly matchEngine = new RouteMatchEngine();
+  private readonly store: SubscriptionStore;
+  private readonly dispatcher: SubscriptionDispatcher;
+  private readonly sinks: string[];
+  private readonly delivery: SubscriptionDeliverySettings;
+
+  /** Subscriptions by ID, in creation order */
+  private subscriptions = new Map<string, Subscription>();
+
+  /** Serializes changes (each is persisted before it takes effect) */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param config - Clients, allowed sinks, delivery defaults and store path
+   * @param routeDispatcher - Sends events to sinks
+   * @throws Error if the configuration is invalid
+   */
+  constructor(
+    private readonly config: SubscriptionsConfig,
+    routeDispatcher: RouteDispatcher,
+  ) {
+    const errors = SubscriptionManager.validate(config);
+    if (errors.length > 0) {
+      throw new Error(`Invalid subscriptions configuration: ${errors.join(', ')}`);
+    }
+
+    this.sinks = config.sinks ?? DEFAULT_SINKS;
+    this.delivery = { ...DEFAULT_DELIVERY, ...config.delivery };
+    this.store = new SubscriptionStore(config.path);
+    this.dispatcher = new SubscriptionDispatcher(routeDispatcher, (id) =>
+      this.subscriptions.get(id),
+    );
+  }
+
+  /**
+   * Validate a subscriptions configuration
+   *
+   * @param config - Configuration to validate
+   * @returns Validation errors (empty if valid)
+   */
+  public static validate(config: SubscriptionsConfig): string[] {
+    const errors = validateApiClients(config?.clients);
+
+    if (!config?.path) {
+      errors.push('path is required');
+    }
+
+    if (Array.isArray(config?.clients)) {
+      config.clients.forEach((client, index) => {
+        const label = getClientLabel(client, index);
+
+        if (client?.types !== undefined && !Array.isArray(client.types)) {
+          errors.push(`client ${label} types must be a list`);
+        }
+        if (
+          client?.maxSubscriptions !== undefined &&
+          (!Number.isInteger(client.maxSubscriptions) || client.maxSubscriptions < 0)
+        ) {
+          errors.push(`client ${label} maxSubscriptions must be a non-negative integer`);
+        }
+      });
+    }
+
+    if (config?.sinks !== undefined && !Array.isArray(config.sinks)) {
+      errors.push('sinks must be a list');
+    }
+
+    if (config?.delivery !== undefined) {
+      errors.push(...SubscriptionManager.validateDelivery(config.delivery, 'delivery'));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Load the persisted subscriptions
+   *
+   * @throws Error if the store cannot be read
+   */
+  public async load(): Promise<void> {
+    const subscriptions = await this.store.load();
+    this.subscriptions = new Map(
+      subscriptions.map((subscription) => [subscription.id, subscription]),
+    );
+
+    logger.info('Subscriptions loaded', { subscriptions: this.subscriptions.size });
+  }
+
+  /**
+   * Find the client an API key belongs to
+   *
+   * @param apiKey - Key sent by the caller
+   * @returns The client
+   * @throws UnauthorizedError if the key is missing or unknown
+   */
+  public authenticate(apiKey: string | undefined): SubscriptionClient {
+    const client = findApiClient(this.config.clients, apiKey);
+
+    if (!client) {
+      throw new UnauthorizedError(apiKey ? 'Invalid API key' : 'API key required');
+    }
+
+    return client;
+  }
+
+  /**
+   * List the subscriptions of a client
+   *
+   * @param client - Authenticated client
+   * @returns Subscriptions in creation order
+   */
+  public list(client: SubscriptionClient): SubscriptionInfo[] {
+    return [...this.subscriptions.values()]
+      .filter((subscription) => subscription.owner === client.name)
+      .map((subscription) => this.toInfo(subscription));
+  }
+
+  /**
+   * Get a subscription of a client
+   *
+   * @param client - Authenticated client
+   * @param id - Subscription ID
+   * @returns The subscription
+   * @throws NotFoundError if the client has no subscription with this ID
+   */
+  public get(client: SubscriptionClient, id: string): SubscriptionInfo {
+    return this.toInfo(this.requireSubscription(client, id));
+  }
+
+  /**
+   * Create a subscription
+   *
+   * @param client - Authenticated client
+   * @param request - Subscription settings
+   * @returns The created subscription
+   * @throws ValidationError if the settings are invalid
+   * @throws ConflictError if the client holds its maximum number of subscriptions
+   */
+  public async create(
+    client: SubscriptionClient,
+    request: SubscriptionRequest,
+  ): Promise<SubscriptionInfo> {
+    const fields = this.parseRequest(client, request);
+
+    return this.change(async (subscriptions) => {
+      const owned = [...subscriptions.values()].filter(
+        (subscription) => subscription.owner === client.name,
+      );
+      const limit = client.maxSubscriptions ?? DEFAULT_MAX_SUBSCRIPTIONS;
+      if (owned.length >= limit) {
+        throw new ConflictError(
+          `Client '${client.name}' may hold at most ${limit} subscriptions`,
+          { limit },
+        );
+      }
+
+      const now = new Date().toISOString();
+      const subscription: Subscription = {
+        id: uuidv4(),
+        owner: client.name,
+        ...fields,
+        createdAt: now,
+        updatedAt: now,
+      };
+      subscriptions.set(subscription.id, subscription);
+
+      logger.info('Subscription created', {
+        client: client.name,
+        subscriptionId: subscription.id,
+        sink: subscription.sink,
+      });
+
+      return this.toInfo(subscription);
+    });
+  }
+
+  /**
+   * Replace the settings of a subscription
+   *
+   * Pending retries are delivered with the new settings.
+   *
+   * @param client - Authenticated client
+   * @param id - Subscription ID
+   * @param request - New subscription settings
+   * @returns The updated subscription
+   * @throws ValidationError if the settings are invalid
+   * @throws NotFoundError if the client has no subscription with this ID
+   */
+  public async update(
+    client: SubscriptionClient,
+    id: string,
+    request: SubscriptionRequest,
+  ): Promise<SubscriptionInfo> {
+    const fields = this.parseRequest(client, request);
+
+    return this.change(async (subscriptions) => {
+      const existing = this.requireSubscription(client, id);
+      const subscription: Subscription = {
+        id,
+        owner: client.name,
+        ...fields,
+        createdAt: existing.createdAt,
+        updatedAt: new Date().toISOString(),
+      };
+      subscriptions.set(id, subscription);
+
+      logger.info('Subscription updated', {
+        client: client.name,
+        subscriptionId: id,
+        sink: subscription.sink,
+      });
+
+      return this.toInfo(subscription);
+    });
+  }
+
+  /**
+   * Delete a subscription; its pending retries are given up
+   *
+   * @param client - Authenticated client
+   * @param id - Subscription ID
+   * @throws NotFoundError if the client has no subscription with this ID
+   */
+  public async delete(client: SubscriptionClient, id: string): Promise<void> {
+    await this.change(async (subscriptions) => {
+      this.requireSubscription(client, id);
+      subscriptions.delete(id);
+    });
+    this.dispatcher.remove(id);
+
+    logger.info('Subscription deleted', { client: client.name, subscriptionId: id });
+  }
+
+  /**
+   * Send a test event to the sink of a subscription
+   *
+   * @param client - Authenticated client
+   * @param id - Subscription ID
+   * @returns Test result
+   * @throws NotFoundError if the client has no subscription with this ID
+   */
+  public async test(client: SubscriptionClient, id: string): Promise<SubscriptionTestResult> {
+    return this.dispatcher.test(this.requireSubscription(client, id));
+  }
+
+  /**
+   * Deliver a processed event to every matching subscription
+   *
+   * Returns immediately; deliveries and their retries run in the background.
+   *
+   * @param event - The CloudEvent
+   * @param correlationId - Correlation ID for tracing
+   * @returns Number of subscriptions the event is delivered to
+   */
+  public publish(event: Record<string, unknown>, correlationId: string): number {
+    let matched = 0;
+
+    for (const subscription of this.subscriptions.values()) {
+      if (this.matches(subscription, event)) {
+        this.dispatcher.enqueue(subscription, event, correlationId);
+        matched++;
+      }
+    }
+
+    if (matched > 0) {
+      logger.debug('CloudEvent matched subscriptions', {
+        eventId: event.id,
+        correlationId,
+        subscriptions: matched,
+      });
+    }
+
+    return matched;
+  }
+
+  /**
+   * Wait for pending changes and deliveries in progress, dropping pending retries
+   */
+  public async close(): Promise<void> {
+    await this.pending.catch(() => undefined);
+    await this.dispatcher.close();
+    await this.store.close();
+  }
+
+  /**
+   * Check whether an event goes to a subscription
+   *
+   * The owner must still be configured and allowed to receive the event type.
+   */
+  private matches(subscription: Subscription, event: Record<string, unknown>): boolean {
+    const client = this.config.clients.find((candidate) => candidate.name === subscription.owner);
+    const type = String(event.type ?? '');
+
+    if (!client || !this.isTypeAllowed(client, type)) {
+      return false;
+    }
+    if (subscription.source !== undefined && event.source !== subscription.source) {
+      return false;
+    }
+    if (subscription.types && !subscription.types.includes(type)) {
+      return false;
+    }
+
+    return matchesSubscriptionFilters(event, subscription.filters);
+  }
+
+  private isTypeAllowed(client: SubscriptionClient, type: string): boolean {
+    return (client.types ?? ['*']).some((pattern) => this.matchEngine.matchPattern(type, pattern));
+  }
+
+  /**
+   * Apply a change to a copy of the subscriptions, persist it, then make it current
+   */
+  private change<T>(apply: (subscriptions: Map<string, Subscription>) => Promise<T>): Promise<T> {
+    const run = async (): Promise<T> => {
+      const subscriptions = new Map(this.subscriptions);
+      const result = await apply(subscriptions);
+
+      await this.store.save([...subscriptions.values()]);
+      this.subscriptions = subscriptions;
+
+      return result;
+    };
+
+    const result = this.pending.then(run, run);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Validate a subscription request and resolve its defaults
+   *
+   * @throws ValidationError if the request is invalid
+   */
+  private parseRequest(
+    client: SubscriptionClient,
+    request: SubscriptionRequest,
+  ): Omit<Subscription, 'id' | 'owner' | 'createdAt' | 'updatedAt'> {
+    const errors = this.validateRequest(client, request);
+    if (errors.length > 0) {
+      throw new ValidationError(`Invalid subscription: ${errors.join(', ')}`, { errors });
+    }
+
+    const { source, types, filters, sink, sinkcredential, protocolsettings, delivery } = request;
+
+    return {
+      ...(source !== undefined && { source }),
+      ...(types !== undefined && { types }),
+      filters: filters ?? [],
+      sink,
+      ...(sinkcredential && {
+        sinkcredential: {
+          credentialtype: sinkcredential.credentialtype,
+          accesstoken: sinkcredential.accesstoken,
+        },
+      }),
+      protocol: 'HTTP',
+      ...(protocolsettings && {
+        protocolsettings: {
+          ...(protocolsettings.method && { method: protocolsettings.method }),
+          ...(protocolsettings.headers && { headers: protocolsettings.headers }),
+        },
+      }),
+      delivery: { ...this.delivery, ...delivery },
+    };
+  }
+
+  /**
+   * Validate a subscription request
+   *
+   * @returns Validation errors (empty if valid)
+   */
+  private validateRequest(client: SubscriptionClient, request: SubscriptionRequest): string[] {
+    if (typeof request !== 'object' || request === null || Array.isArray(request)) {
+      return ['subscription must be an object'];
+    }
+
+    const errors: string[] = [];
+    const { source, types, filters, sink, sinkcredential, protocol, protocolsettings, delivery } =
+      request;
+
+    if (typeof sink !== 'string' || !sink) {
+      errors.push('sink is required');
+    } else if (!this.isSinkAllowed(sink)) {
+      errors.push(`sink must be an http(s) URL matching one of ${this.sinks.join(', ')}`);
+    }
+
+    if (protocol !== undefined && protocol !== 'HTTP') {
+      errors.push('protocol must be HTTP');
+    }
+
+    if (source !== undefined && (typeof source !== 'string' || !source)) {
+      errors.push('source must be a non-empty string');
+    }
+
+    if (types !== undefined) {
+      if (!Array.isArray(types) || types.some((type) => typeof type !== 'string' || !type)) {
+        errors.push('types must be a list of non-empty strings');
+      } else {
+        for (const type of types.filter((candidate) => !this.isTypeAllowed(client, candidate))) {
+          errors.push(`type '${type}' is not available to client '${client.name}'`);
+        }
+      }
+    }
+
+    if (filters !== undefined) {
+      errors.push(...validateSubscriptionFilters(filters));
+    }
+
+    if (sinkcredential !== undefined) {
+      if (sinkcredential?.credentialtype !== 'ACCESSTOKEN') {
+        errors.push('sinkcredential credentialtype must be ACCESSTOKEN');
+      }
+      if (typeof sinkcredential?.accesstoken !== 'string' || !sinkcredential.accesstoken) {
+        errors.push('sinkcredential accesstoken is required');
+      }
+    }
+
+    if (protocolsettings !== undefined) {
+      const { method, headers } = protocolsettings ?? {};
+
+      if (method !== undefined && !HTTP_METHODS.includes(method)) {
+        errors.push(`protocolsettings method must be one of ${HTTP_METHODS.join(', ')}`);
+      }
+      if (
+        headers !== undefined &&
+        (typeof headers !== 'object' ||
+          headers === null ||
+          Object.values(headers).some((value) => typeof value !== 'string'))
+      ) {
+        errors.push('protocolsettings headers must map names to strings');
+      }
+    }
+
+    if (delivery !== undefined) {
+      errors.push(...SubscriptionManager.validateDelivery(delivery, 'delivery', this.delivery));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate delivery settings, merged over defaults
+   */
+  private static validateDelivery(
+    delivery: Partial<SubscriptionDeliverySettings>,
+    path: string,
+    defaults: SubscriptionDeliverySettings = DEFAULT_DELIVERY,
+  ): string[] {
+    if (typeof delivery !== 'object' || delivery === null || Array.isArray(delivery)) {
+      return [`${path} must be an object`];
+    }
+
+    const errors: string[] = [];
+    const { maxAttempts, initialDelay, maxDelay, backoffMultiplier, timeout } = {
+      ...defaults,
+      ...delivery,
+    };
+
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > MAX_DELIVERY_ATTEMPTS) {
+      errors.push(`${path} maxAttempts must be an integer from 1 to ${MAX_DELIVERY_ATTEMPTS}`);
+    }
+    for (const [name, value] of Object.entries({ initialDelay, maxDelay })) {
+      if (!Number.isInteger(value) || value < 0) {
+        errors.push(`${path} ${name} must be a non-negative integer`);
+      }
+    }
+    if (initialDelay > maxDelay) {
+      errors.push(`${path} initialDelay must not exceed maxDelay`);
+    }
+    if (typeof backoffMultiplier !== 'number' || !(backoffMultiplier >= 1)) {
+      errors.push(`${path} backoffMultiplier must be at least 1`);
+    }
+    if (!Number.isInteger(timeout) || timeout < 1 || timeout > MAX_DELIVERY_TIMEOUT) {
+      errors.push(`${path} timeout must be an integer from 1 to ${MAX_DELIVERY_TIMEOUT}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Check whether a sink is an http(s) URL matching an allowed sink pattern
+   */
+  private isSinkAllowed(sink: string): boolean {
+    let url: URL;
+    try {
+      url = new URL(sink);
+    } catch {
+      return false;
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return false;
+    }
+
+    return this.sinks.some((pattern) => this.matchEngine.matchPattern(sink, pattern));
+  }
+
+  /**
+   * Get a subscription owned by a client
+   *
+   * @throws NotFoundError if the client has no subscription with this ID
+   */
+  private requireSubscription(client: SubscriptionClient, id: string): Subscription {
+    const subscription = this.subscriptions.get(id);
+
+    // Subscriptions of other clients are reported as missing
+    if (!subscription || subscription.owner !== client.name) {
+      throw new NotFoundError(`Subscription '${id}' not found`, { subscriptionId: id });
+    }
+
+    return subscription;
+  }
+
+  /**
+   * Describe a subscription for its client (without the access token)
+   */
+  private toInfo(subscription: Subscription): SubscriptionInfo {
+    const { id, source, types, filters, sink, sinkcredential, protocol, protocolsettings } =
+      subscription;
+
+    return {
+      id,
+      ...(source !== undefined && { source }),
+      ...(types !== undefined && { types }),
+      filters,
+      sink,
+      ...(sinkcredential && { sinkcredential: { credentialtype: sinkcredential.credentialtype } }),
+      protocol,
+      ...(protocolsettings && { protocolsettings }),
+      delivery: subscription.delivery,
+      createdAt: subscription.createdAt,
+      updatedAt: subscription.updatedAt,
+      status: this.dispatcher.getStatus(id),
+    };
+  }
+}
+
+/**
+ * Load a subscriptions file
+ *
+ * @param filePath - Path to the YAML subscriptions file
+ * @param env - Environment used for ${VAR} references (defaults to process.env)
+ * @returns Subscriptions configuration, without the store path
+ * @throws Error if the file cannot be read or references an unset variable
+ */
+export function loadSubscriptionsConfigFile(
+  filePath: string,
+  env: NodeJS.ProcessEnv = process.env,
+): SubscriptionsFileConfig {
+  try {
+    const parsed = (yaml.load(fs.readFileSync(filePath, 'utf8')) ?? {}) as Record<string, unknown>;
+    const contents = interpolateEnv(parsed, env) as Partial<SubscriptionsFileConfig>;
+
+    // Environment references are strings; numbers are converted back
+    const clients = (contents.clients ?? []).map((client) => ({
+      ...client,
+      ...(client.maxSubscriptions !== undefined && {
+        maxSubscriptions: Number(client.maxSubscriptions),
+      }),
+    }));
+    const delivery = contents.delivery && Object.fromEntries(
+      Object.entries(contents.delivery).map(([name, value]) => [name, Number(value)]),
+    );
+
+    return {
+      clients,
+      ...(contents.sinks !== undefined && { sinks: contents.sinks }),
+      ...(delivery && { delivery }),
+    };
+  } catch (error) {
+    throw new Error(
+      `Failed to load subscriptions configuration ${filePath}: ${(error as Error).message}`,
+    );
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * SubscriptionStore
+ *
+ * Subscriptions persisted as one JSON file:
+ * - Read once on start; a missing file means no subscriptions
+ * - Rewritten as a whole on every change, through a temporary file and a
+ *   rename so a crash never leaves a partial file behind
+ *
+ * A single process writes the file.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Subscription } from '../messaging/types';
+
+/**
+ * File contents
+ */
+interface SubscriptionFile {
+  subscriptions: Subscription[];
+}
+
+/**
+ * File-backed subscription store
+ */
+export class SubscriptionStore {
+  /** Serializes writes within this process */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Read the persisted subscriptions
+   *
+   * @returns Subscriptions in creation order
+   * @throws Error if the file cannot be read or parsed
+   */
+  public async load(): Promise<Subscription[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    try {
+      const file = JSON.parse(content) as Partial<SubscriptionFile>;
+      return Array.isArray(file.subscriptions) ? file.subscriptions : [];
+    } catch (error) {
+      throw new Error(
+        `Failed to read subscriptions ${this.filePath}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Replace the persisted subscriptions
+   *
+   * @param subscriptions - Every subscription, in creation order
+   */
+  public save(subscriptions: Subscription[]): Promise<void> {
+    const file: SubscriptionFile = { subscriptions };
+    const content = `${JSON.stringify(file, null, 2)}\n`;
+
+    const run = async (): Promise<void> => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, content, { mode: 0o600 });
+      await fs.rename(tempPath, this.filePath);
+    };
+
+    const result = this.pending.then(run, run);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Wait for pending writes
+   */
+  public async close(): Promise<void> {
+    await this.pending;
+  }
+}
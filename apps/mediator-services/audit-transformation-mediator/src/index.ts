@@ -7,6 +7,7 @@
 
 import express, { Application, Request, Response, NextFunction } from 'express';
 import bodyParser from 'body-parser';
+import { propagateTraceContext, traceContextMiddleware } from '@smile/mediator-common';
 import { config, validateConfig } from './config';
 import { logger } from './utils/logger';
 import { registerWithOpenHIM, unregisterFromOpenHIM } from './utils/registration';
@@ -25,6 +26,10 @@ function createApp(): Application {
   }));
   app.use(bodyParser.urlencoded({ extended: true }));
 
+  // Handle each request within its trace context and pass it on to outbound requests
+  app.use(traceContextMiddleware);
+  propagateTraceContext();
+
   // Request logging middleware
   app.use((req: Request, res: Response, next: NextFunction) => {
     const start = Date.now();
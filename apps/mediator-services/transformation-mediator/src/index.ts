@@ -9,6 +9,7 @@
 
 import express, { Express } from 'express';
 import bodyParser from 'body-parser';
+import { propagateTraceContext, traceContextMiddleware } from '@smile/mediator-common';
 import { config } from './config';
 import { getLogger } from './utils/logger';
 import { registerWithOpenHIM, unregisterFromOpenHIM } from './utils/registration';
@@ -31,6 +32,10 @@ function createApp(): Express {
   }));
   app.use(bodyParser.urlencoded({ extended: true }));
 
+  // Handle each request within its trace context and pass it on to outbound requests
+  app.use(traceContextMiddleware);
+  propagateTraceContext();
+
   // Request logging middleware
   app.use((req, res, next) => {
     const startTime = Date.now();
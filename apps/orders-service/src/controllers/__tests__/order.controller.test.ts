@@ -81,6 +81,12 @@ describe('OrderController', () => {
       returnOrder: jest.fn(),
       completeReturn: jest.fn(),
       getNextStates: jest.fn(),
+      getEventPublisherHealth: jest.fn().mockReturnValue({
+        status: 'healthy',
+        state: 'connected',
+        bufferedEvents: 0,
+        reconnectAttempts: 0,
+      }),
     } as any;
 
     // Mock validators to pass through data
@@ -543,6 +549,41 @@ describe('OrderController', () => {
       );
     });
 
+    it('should report degraded while order events are buffered', async () => {
+      mockOrderService.getEventPublisherHealth.mockReturnValue({
+        status: 'degraded',
+        state: 'reconnecting',
+        bufferedEvents: 12,
+        bufferCapacity: 10000,
+        reconnectAttempts: 3,
+      });
+
+      await controller.healthCheck(mockRequest as Request, mockResponse as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(200);
+      expect(jsonMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'degraded',
+          eventPublisher: expect.objectContaining({ state: 'reconnecting', bufferedEvents: 12 }),
+        }),
+      );
+    });
+
+    it('should return 503 when order events cannot be published or buffered', async () => {
+      mockOrderService.getEventPublisherHealth.mockReturnValue({
+        status: 'unhealthy',
+        state: 'reconnecting',
+        bufferedEvents: 10000,
+        bufferCapacity: 10000,
+        reconnectAttempts: 8,
+      });
+
+      await controller.healthCheck(mockRequest as Request, mockResponse as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(503);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ status: 'unhealthy' }));
+    });
+
     it('should use default correlationId if not present', async () => {
       delete mockRequest.correlationId;
 
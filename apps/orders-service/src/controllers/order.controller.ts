@@ -1031,15 +1031,20 @@ export class OrderController {
 
   /**
    * Health check endpoint for monitoring
+   *
+   * Degraded while order events are buffered; unhealthy (503) once they would be lost.
    */
   public healthCheck = async (req: Request, res: Response): Promise<void> => {
-    res.status(200).json({
-      status: 'healthy',
+    const eventPublisher = this.orderService.getEventPublisherHealth();
+
+    res.status(eventPublisher.status === 'unhealthy' ? 503 : 200).json({
+      status: eventPublisher.status,
       service: 'orders-service',
       version: '1.0.0',
       timestamp: new Date().toISOString(),
       uptime: process.uptime(),
       correlationId: (req as BusinessRequest).correlationId || 'health-check',
+      eventPublisher,
     });
   };
 
@@ -0,0 +1,57 @@
+/**
+ * Outbox Controller
+ *
+ * Admin endpoints for the order event outbox.
+ */
+
+import { Response } from 'express';
+import { logger } from '@smile/common';
+import { BusinessRequest } from '../middleware/business.middleware';
+import { OutboxRelayService } from '../services/outbox-relay.service';
+
+export class OutboxController {
+  constructor(private outboxRelay: OutboxRelayService) {}
+
+  /**
+   * @swagger
+   * /api/v1/admin/outbox:
+   *   get:
+   *     summary: Get order event outbox status
+   *     description: |
+   *       Counts of pending and sent order events and the pending events that are stuck
+   *       (failed repeatedly or waiting too long). Stuck events are still retried.
+   *     tags: [Admin]
+   *     security:
+   *       - BearerAuth: []
+   *       - ApiKeyAuth: []
+   *     responses:
+   *       200:
+   *         description: Outbox status
+   *       403:
+   *         description: Insufficient permissions
+   */
+  public getOutboxStatus = async (req: BusinessRequest, res: Response): Promise<void> => {
+    try {
+      const outbox = await this.outboxRelay.getStatus();
+
+      res.status(200).json({
+        outbox,
+        correlationId: req.correlationId,
+        timestamp: new Date().toISOString(),
+      });
+
+    } catch (error: any) {
+      logger.error('Failed to get outbox status', {
+        error: error.message,
+        correlationId: req.correlationId,
+        userId: req.user?.userId,
+      });
+
+      res.status(500).json({
+        error: 'Failed to retrieve outbox status',
+        correlationId: req.correlationId,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  };
+}
@@ -5,13 +5,17 @@ import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import swaggerJsdoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
-import { logger } from '@smile/common';
+import { logger, startTracing } from '@smile/common';
 import { OrderEventService, OrderEventServiceConfig } from './services/order-event.service';
 import { OrderService } from './services/order.service';
+import { OrderRepository } from './services/order.repository';
+import { OutboxRelayService } from './services/outbox-relay.service';
 import { OrderController } from './controllers/order.controller';
+import { OutboxController } from './controllers/outbox.controller';
 import {
   businessSecurityHeaders,
   requestCorrelation,
+  requestTracing,
   businessAuditLogging,
   businessAuthentication,
   businessAuthorization,
@@ -42,6 +46,13 @@ const config = {
   departmentId: process.env.DEPARTMENT_ID || 'purchasing',
   departmentName: process.env.DEPARTMENT_NAME || 'Purchasing Department',
   nodeEnv: process.env.NODE_ENV || 'development',
+  // Order events emitted while RabbitMQ is unreachable wait on disk
+  // (EVENT_BUFFER_ENABLED=false makes emits fail instead)
+  eventBufferEnabled: process.env.EVENT_BUFFER_ENABLED !== 'false',
+  eventBufferPath: process.env.EVENT_BUFFER_PATH || 'data/order-events-buffer.jsonl',
+  eventBufferMaxEvents: parseInt(process.env.EVENT_BUFFER_MAX_EVENTS || '10000', 10),
+  // Order events are recorded in the order outbox and published by the outbox relay
+  outboxPollInterval: parseInt(process.env.OUTBOX_POLL_INTERVAL || '1000', 10),
 };
 
 // Swagger configuration
@@ -220,6 +231,7 @@ function createApp(): Express {
   app.use(limiter);
   app.use(requestTimeout(30000)); // 30 second timeout
   app.use(requestCorrelation);
+  app.use(requestTracing);
   app.use(businessAuditLogging);
 
   // Body parsing middleware
@@ -233,7 +245,11 @@ function createApp(): Express {
 /**
  * Configure API routes
  */
-function configureRoutes(app: Express, orderController: OrderController): void {
+function configureRoutes(
+  app: Express,
+  orderController: OrderController,
+  outboxController: OutboxController,
+): void {
   // API Documentation
   app.get('/api/docs/swagger.json', (_req, res) => {
     res.setHeader('Content-Type', 'application/json');
@@ -279,6 +295,9 @@ function configureRoutes(app: Express, orderController: OrderController): void {
   apiRouter.post('/orders/:orderId/return', orderController.returnOrder);
   apiRouter.post('/orders/:orderId/complete-return', orderController.completeReturn);
 
+  // Admin endpoints
+  apiRouter.get('/admin/outbox', outboxController.getOutboxStatus);
+
   // Mount API router
   app.use('/api/v1', apiRouter);
 
@@ -301,6 +320,11 @@ function configureRoutes(app: Express, orderController: OrderController): void {
  */
 async function startServer(): Promise<void> {
   try {
+    // Distributed tracing: spans are exported over OTLP (OTEL_EXPORTER_OTLP_ENDPOINT)
+    const tracing = startTracing({
+      serviceName: process.env.OTEL_SERVICE_NAME || 'orders-service',
+    });
+
     // Create Express app
     const app = createApp();
 
@@ -312,19 +336,28 @@ async function startServer(): Promise<void> {
       facilityName: config.facilityName,
       departmentId: config.departmentId,
       departmentName: config.departmentName,
+      ...(config.eventBufferEnabled && {
+        buffer: { path: config.eventBufferPath, maxEvents: config.eventBufferMaxEvents },
+      }),
     };
 
     const orderEventService = new OrderEventService(orderEventServiceConfig);
     await orderEventService.initialize();
 
     // Initialize services
-    const orderService = new OrderService(orderEventService);
+    const orderRepository = new OrderRepository();
+    const outboxRelay = new OutboxRelayService(orderRepository, orderEventService, {
+      pollInterval: config.outboxPollInterval,
+    });
+    const orderService = new OrderService(orderEventService, orderRepository, outboxRelay);
+    outboxRelay.start();
 
-    // Initialize controller
+    // Initialize controllers
     const orderController = new OrderController(orderService);
+    const outboxController = new OutboxController(outboxRelay);
 
     // Configure routes
-    configureRoutes(app, orderController);
+    configureRoutes(app, orderController, outboxController);
 
     // Start HTTP server
     const server = app.listen(config.port, () => {
@@ -346,10 +379,15 @@ async function startServer(): Promise<void> {
         logger.info('HTTP server closed');
 
         try {
+          // Let the current outbox pass finish before closing the publisher
+          await outboxRelay.stop();
+
           // Close order event service connections
           await orderEventService.close();
           logger.info('Order event service closed');
 
+          await tracing.shutdown();
+
           logger.info('Graceful shutdown completed');
           process.exit(0);
         } catch (error) {
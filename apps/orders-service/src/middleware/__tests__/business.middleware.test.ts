@@ -45,6 +45,7 @@ describe('Business Middleware', () => {
     mockRequest = {
       headers: {},
       method: 'GET',
+      baseUrl: '',
       path: '/api/v1/orders',
       ip: '127.0.0.1',
     };
@@ -278,6 +279,34 @@ describe('Business Middleware', () => {
       expect(nextFunction).toHaveBeenCalled();
     });
 
+    it('should check routes mounted under the API router by their full path', () => {
+      mockRequest.method = 'GET';
+      (mockRequest as any).baseUrl = '/api/v1';
+      (mockRequest as any).path = '/admin/outbox';
+      // order-viewer is not an order-manager
+
+      businessAuthorization(mockRequest as BusinessRequest, mockResponse as Response, nextFunction);
+
+      expect(statusMock).toHaveBeenCalledWith(403);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+        error: 'Insufficient permissions',
+        message: 'Required roles: order-manager',
+      }));
+      expect(nextFunction).not.toHaveBeenCalled();
+    });
+
+    it('should allow order managers to view the outbox', () => {
+      mockRequest.user!.roles = ['order-manager'];
+      mockRequest.method = 'GET';
+      (mockRequest as any).baseUrl = '/api/v1';
+      (mockRequest as any).path = '/admin/outbox';
+
+      businessAuthorization(mockRequest as BusinessRequest, mockResponse as Response, nextFunction);
+
+      expect(nextFunction).toHaveBeenCalled();
+      expect(statusMock).not.toHaveBeenCalled();
+    });
+
     it('should allow access to routes without specific permissions', () => {
       mockRequest.method = 'GET';
       (mockRequest as any).path = '/api/v1/health';
@@ -9,7 +9,14 @@
 import { Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import jwt from 'jsonwebtoken';
-import { logger } from '@smile/common';
+import {
+  logger,
+  createSpan,
+  endSpan,
+  extractTraceContext,
+  runWithSpan,
+  SpanKind,
+} from '@smile/common';
 
 /**
  * Extended request interface with business context
@@ -60,6 +67,35 @@ export function requestCorrelation(req: BusinessRequest, res: Response, next: Ne
   next();
 }
 
+/**
+ * Request tracing middleware
+ *
+ * Handles the request inside a server span (continuing an incoming traceparent header),
+ * so order events emitted while handling it carry the request's trace.
+ */
+export function requestTracing(req: BusinessRequest, res: Response, next: NextFunction): void {
+  const span = createSpan(req.method, {
+    kind: SpanKind.SERVER,
+    parent: extractTraceContext(req.headers),
+    attributes: {
+      'http.request.method': req.method,
+      'url.path': req.path,
+      ...(req.correlationId && { 'smile.correlation_id': req.correlationId }),
+    },
+  });
+
+  res.on('finish', () => {
+    // Name the span after the matched route (e.g. POST /api/v1/orders/:orderId/approve)
+    if (req.route?.path) {
+      span.updateName(`${req.method} ${req.baseUrl}${req.route.path}`);
+    }
+    span.setAttribute('http.response.status_code', res.statusCode);
+    endSpan(span, res.statusCode >= 500 ? new Error(`HTTP ${res.statusCode}`) : undefined);
+  });
+
+  runWithSpan(span, next);
+}
+
 /**
  * Business audit logging middleware
  */
@@ -196,7 +232,9 @@ export function businessAuthorization(req: BusinessRequest, res: Response, next:
       return;
     }
 
-    const { method, path } = req;
+    // Permissions are keyed by the full path, including the mount path of the API router
+    const { method } = req;
+    const path = `${req.baseUrl}${req.path}`;
     const userRoles = req.user.roles;
 
     // Define permission matrix for business operations
@@ -215,6 +253,7 @@ export function businessAuthorization(req: BusinessRequest, res: Response, next:
       'POST:/api/v1/orders/:id/fulfill': ['order-manager'],
       'POST:/api/v1/orders/:id/return': ['order-manager', 'receiving-staff'],
       'POST:/api/v1/orders/:id/complete-return': ['order-manager'],
+      'GET:/api/v1/admin/outbox': ['order-manager'],
     };
 
     // Normalize path for permission checking
@@ -1,12 +1,12 @@
 /**
  * Order Event Service Unit Tests
  *
- * Tests for CloudEvents emission for order lifecycle events
+ * Tests for CloudEvents construction and publishing for order lifecycle events
  */
 
 import { OrderEventService, OrderEventServiceConfig } from '../order-event.service';
 import { EventEmitter } from '@smile/cloud-events';
-import { OrderEventType } from '../../types/order-events';
+import { OrderEventType, ORDER_EVENT_ROUTING } from '../../types/order-events';
 import { Order } from '../../types/order-types';
 import { OrderStatus, OrderType, OrderPriority } from '../../types/order-status';
 
@@ -135,19 +135,19 @@ describe('OrderEventService', () => {
     });
   });
 
-  describe('emitOrderCreated', () => {
+  describe('buildOrderCreatedEvent', () => {
     beforeEach(async () => {
       await service.initialize();
     });
 
-    it('should emit order created event successfully', async () => {
-      await service.emitOrderCreated(sampleOrder, 'user-123', 'corr-123', 'sess-123');
+    it('should build order created event successfully', async () => {
+      const pending = service.buildOrderCreatedEvent(sampleOrder, 'user-123', 'corr-123', 'sess-123');
 
-      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      expect(pending.event).toEqual(
         expect.objectContaining({
           specversion: '1.0',
           type: OrderEventType.ORDER_CREATED,
-          source: 'smile.orders-service',
+          source: 'urn:smile:orders-service',
           id: 'corr-123',
           subject: 'order/order-123',
           datacontenttype: 'application/json',
@@ -157,9 +157,9 @@ describe('OrderEventService', () => {
     });
 
     it('should include order details in event data', async () => {
-      await service.emitOrderCreated(sampleOrder, 'user-123', 'corr-123');
+      const pending = service.buildOrderCreatedEvent(sampleOrder, 'user-123', 'corr-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.eventData).toEqual(
         expect.objectContaining({
           orderId: 'order-123',
@@ -178,9 +178,9 @@ describe('OrderEventService', () => {
     });
 
     it('should include metadata in event', async () => {
-      await service.emitOrderCreated(sampleOrder, 'user-123', 'corr-123', 'sess-123');
+      const pending = service.buildOrderCreatedEvent(sampleOrder, 'user-123', 'corr-123', 'sess-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.metadata).toEqual(
         expect.objectContaining({
           facilityId: 'facility-001',
@@ -199,42 +199,69 @@ describe('OrderEventService', () => {
     });
 
     it('should generate correlation ID when not provided', async () => {
-      await service.emitOrderCreated(sampleOrder, 'user-123');
+      const pending = service.buildOrderCreatedEvent(sampleOrder, 'user-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.id).toMatch(/^order-\d+-[a-z0-9]+$/);
     });
 
     it('should handle optional fields correctly', async () => {
       const { departmentId, tags, financials, vendor, ...orderWithoutOptionals } = sampleOrder;
 
-      await service.emitOrderCreated(orderWithoutOptionals as Order, 'user-123');
+      const pending = service.buildOrderCreatedEvent(orderWithoutOptionals as Order, 'user-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.eventData).not.toHaveProperty('estimatedValue');
       expect(emittedEvent.data.eventData).not.toHaveProperty('vendorId');
       expect(emittedEvent.data.eventData).not.toHaveProperty('tags');
     });
 
+    it('should set the routing key for the event type', () => {
+      const pending = service.buildOrderCreatedEvent(sampleOrder, 'user-123', 'corr-123');
+
+      expect(pending.routingKey).toBe(
+        ORDER_EVENT_ROUTING[OrderEventType.ORDER_CREATED]?.routingKey,
+      );
+    });
+
+    it('should not publish the event', () => {
+      service.buildOrderCreatedEvent(sampleOrder, 'user-123', 'corr-123');
+
+      expect(mockEventEmitter.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publish', () => {
+    beforeEach(async () => {
+      await service.initialize();
+    });
+
+    it('should emit the event with its routing key', async () => {
+      const pending = service.buildOrderCreatedEvent(sampleOrder, 'user-123', 'corr-123');
+
+      await service.publish(pending);
+
+      expect(mockEventEmitter.emit).toHaveBeenCalledWith(pending.event, pending.routingKey);
+    });
+
     it('should handle emit errors', async () => {
       mockEventEmitter.emit.mockRejectedValue(new Error('Emit failed'));
+      const pending = service.buildOrderCreatedEvent(sampleOrder, 'user-123', 'corr-123');
 
-      await expect(
-        service.emitOrderCreated(sampleOrder, 'user-123', 'corr-123'),
-      ).rejects.toThrow('Emit failed');
+      await expect(service.publish(pending)).rejects.toThrow('Emit failed');
     });
   });
 
-  describe('emitOrderUpdated', () => {
+  describe('buildOrderUpdatedEvent', () => {
     beforeEach(async () => {
       await service.initialize();
     });
 
-    it('should emit order updated event', async () => {
+    it('should build order updated event', async () => {
       const updatedFields = ['priority', 'notes'];
       const previousValues = { priority: OrderPriority.NORMAL, notes: undefined };
 
-      await service.emitOrderUpdated(
+      const pending = service.buildOrderUpdatedEvent(
         { ...sampleOrder, priority: OrderPriority.HIGH, notes: 'Updated notes' },
         updatedFields,
         previousValues,
@@ -242,7 +269,7 @@ describe('OrderEventService', () => {
         'corr-123',
       );
 
-      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      expect(pending.event).toEqual(
         expect.objectContaining({
           type: OrderEventType.ORDER_UPDATED,
           subject: 'order/order-123',
@@ -254,14 +281,14 @@ describe('OrderEventService', () => {
       const updatedFields = ['priority'];
       const previousValues = { priority: OrderPriority.NORMAL };
 
-      await service.emitOrderUpdated(
+      const pending = service.buildOrderUpdatedEvent(
         sampleOrder,
         updatedFields,
         previousValues,
         'user-456',
       );
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.eventData).toEqual(
         expect.objectContaining({
           orderId: 'order-123',
@@ -274,20 +301,20 @@ describe('OrderEventService', () => {
     });
   });
 
-  describe('emitOrderDeleted', () => {
+  describe('buildOrderDeletedEvent', () => {
     beforeEach(async () => {
       await service.initialize();
     });
 
-    it('should emit order deleted event', async () => {
-      await service.emitOrderDeleted(
+    it('should build order deleted event', async () => {
+      const pending = service.buildOrderDeletedEvent(
         sampleOrder,
         'Duplicate order created by mistake',
         'user-123',
         'corr-123',
       );
 
-      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      expect(pending.event).toEqual(
         expect.objectContaining({
           type: OrderEventType.ORDER_DELETED,
           subject: 'order/order-123',
@@ -296,13 +323,13 @@ describe('OrderEventService', () => {
     });
 
     it('should include deletion details', async () => {
-      await service.emitOrderDeleted(
+      const pending = service.buildOrderDeletedEvent(
         sampleOrder,
         'No longer needed',
         'user-123',
       );
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.eventData).toEqual(
         expect.objectContaining({
           orderId: 'order-123',
@@ -317,17 +344,17 @@ describe('OrderEventService', () => {
     });
   });
 
-  describe('emitOrderSubmitted', () => {
+  describe('buildOrderSubmittedEvent', () => {
     beforeEach(async () => {
       await service.initialize();
     });
 
-    it('should emit order submitted event', async () => {
+    it('should build order submitted event', async () => {
       const submittedOrder = { ...sampleOrder, status: OrderStatus.SUBMITTED };
 
-      await service.emitOrderSubmitted(submittedOrder, 'user-123', 'corr-123');
+      const pending = service.buildOrderSubmittedEvent(submittedOrder, 'user-123', 'corr-123');
 
-      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      expect(pending.event).toEqual(
         expect.objectContaining({
           type: OrderEventType.ORDER_SUBMITTED,
           subject: 'order/order-123',
@@ -338,9 +365,9 @@ describe('OrderEventService', () => {
     it('should include state transition details', async () => {
       const submittedOrder = { ...sampleOrder, status: OrderStatus.SUBMITTED };
 
-      await service.emitOrderSubmitted(submittedOrder, 'user-123');
+      const pending = service.buildOrderSubmittedEvent(submittedOrder, 'user-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.eventData).toEqual(
         expect.objectContaining({
           orderId: 'order-123',
@@ -355,12 +382,12 @@ describe('OrderEventService', () => {
     });
   });
 
-  describe('emitOrderApproved', () => {
+  describe('buildOrderApprovedEvent', () => {
     beforeEach(async () => {
       await service.initialize();
     });
 
-    it('should emit order approved event', async () => {
+    it('should build order approved event', async () => {
       const approvedOrder = { ...sampleOrder, status: OrderStatus.APPROVED };
       const approvalData = {
         approvedBy: 'approver-123',
@@ -368,9 +395,9 @@ describe('OrderEventService', () => {
         notes: 'Approved for procurement',
       };
 
-      await service.emitOrderApproved(approvedOrder, approvalData, 'approver-123', 'corr-123');
+      const pending = service.buildOrderApprovedEvent(approvedOrder, approvalData, 'approver-123', 'corr-123');
 
-      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      expect(pending.event).toEqual(
         expect.objectContaining({
           type: OrderEventType.ORDER_APPROVED,
           subject: 'order/order-123',
@@ -386,9 +413,9 @@ describe('OrderEventService', () => {
         notes: 'Approved',
       };
 
-      await service.emitOrderApproved(approvedOrder, approvalData, 'approver-123');
+      const pending = service.buildOrderApprovedEvent(approvedOrder, approvalData, 'approver-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.eventData).toEqual(
         expect.objectContaining({
           orderId: 'order-123',
@@ -403,12 +430,12 @@ describe('OrderEventService', () => {
     });
   });
 
-  describe('emitOrderRejected', () => {
+  describe('buildOrderRejectedEvent', () => {
     beforeEach(async () => {
       await service.initialize();
     });
 
-    it('should emit order rejected event', async () => {
+    it('should build order rejected event', async () => {
       const rejectedOrder = { ...sampleOrder, status: OrderStatus.REJECTED };
       const rejectionData = {
         rejectionReason: 'Budget constraints require additional approval',
@@ -416,9 +443,9 @@ describe('OrderEventService', () => {
         userId: 'approver-123',
       };
 
-      await service.emitOrderRejected(rejectedOrder, rejectionData, 'corr-123');
+      const pending = service.buildOrderRejectedEvent(rejectedOrder, rejectionData, 'corr-123');
 
-      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      expect(pending.event).toEqual(
         expect.objectContaining({
           type: OrderEventType.ORDER_REJECTED,
           subject: 'order/order-123',
@@ -433,9 +460,9 @@ describe('OrderEventService', () => {
         userId: 'approver-123',
       };
 
-      await service.emitOrderRejected(rejectedOrder, rejectionData);
+      const pending = service.buildOrderRejectedEvent(rejectedOrder, rejectionData);
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.eventData).toEqual(
         expect.objectContaining({
           orderId: 'order-123',
@@ -448,12 +475,12 @@ describe('OrderEventService', () => {
     });
   });
 
-  describe('emitOrderShipped', () => {
+  describe('buildOrderShippedEvent', () => {
     beforeEach(async () => {
       await service.initialize();
     });
 
-    it('should emit order shipped event', async () => {
+    it('should build order shipped event', async () => {
       const shippedOrder = { ...sampleOrder, status: OrderStatus.SHIPPED };
       const shippingData = {
         trackingNumber: 'TRACK123456',
@@ -461,9 +488,9 @@ describe('OrderEventService', () => {
         estimatedDelivery: '2025-10-12T10:00:00Z',
       };
 
-      await service.emitOrderShipped(shippedOrder, shippingData, 'warehouse-123', 'corr-123');
+      const pending = service.buildOrderShippedEvent(shippedOrder, shippingData, 'warehouse-123', 'corr-123');
 
-      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      expect(pending.event).toEqual(
         expect.objectContaining({
           type: OrderEventType.ORDER_SHIPPED,
           subject: 'order/order-123',
@@ -478,9 +505,9 @@ describe('OrderEventService', () => {
         carrier: 'UPS',
       };
 
-      await service.emitOrderShipped(shippedOrder, shippingData, 'warehouse-123');
+      const pending = service.buildOrderShippedEvent(shippedOrder, shippingData, 'warehouse-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.eventData).toEqual(
         expect.objectContaining({
           orderId: 'order-123',
@@ -503,12 +530,12 @@ describe('OrderEventService', () => {
     });
   });
 
-  describe('emitOrderReceived', () => {
+  describe('buildOrderReceivedEvent', () => {
     beforeEach(async () => {
       await service.initialize();
     });
 
-    it('should emit order received event', async () => {
+    it('should build order received event', async () => {
       const receivedOrder = { ...sampleOrder, status: OrderStatus.RECEIVED };
       const receivedData = {
         receivedBy: 'staff-456',
@@ -516,9 +543,9 @@ describe('OrderEventService', () => {
         notes: 'All items in good condition',
       };
 
-      await service.emitOrderReceived(receivedOrder, receivedData, 'receiver-123', 'corr-123');
+      const pending = service.buildOrderReceivedEvent(receivedOrder, receivedData, 'receiver-123', 'corr-123');
 
-      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      expect(pending.event).toEqual(
         expect.objectContaining({
           type: OrderEventType.ORDER_RECEIVED,
           subject: 'order/order-123',
@@ -532,9 +559,9 @@ describe('OrderEventService', () => {
         receivedBy: 'staff-456',
       };
 
-      await service.emitOrderReceived(receivedOrder, receivedData, 'receiver-123');
+      const pending = service.buildOrderReceivedEvent(receivedOrder, receivedData, 'receiver-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.eventData).toEqual(
         expect.objectContaining({
           orderId: 'order-123',
@@ -556,44 +583,44 @@ describe('OrderEventService', () => {
 
     it('should set requiresInspection true for medicine orders', async () => {
       const medicineOrder = { ...sampleOrder, orderType: OrderType.MEDICINE };
-      await service.emitOrderReceived(medicineOrder, { receivedBy: 'staff-456' }, 'user-123');
+      const pending = service.buildOrderReceivedEvent(medicineOrder, { receivedBy: 'staff-456' }, 'user-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.eventData.requiresInspection).toBe(true);
     });
 
     it('should set requiresInspection true for equipment orders', async () => {
       const equipmentOrder = { ...sampleOrder, orderType: OrderType.EQUIPMENT };
-      await service.emitOrderReceived(equipmentOrder, { receivedBy: 'staff-456' }, 'user-123');
+      const pending = service.buildOrderReceivedEvent(equipmentOrder, { receivedBy: 'staff-456' }, 'user-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.eventData.requiresInspection).toBe(true);
     });
 
     it('should set requiresInspection false for supplies orders', async () => {
       const suppliesOrder = { ...sampleOrder, orderType: OrderType.SUPPLIES };
-      await service.emitOrderReceived(suppliesOrder, { receivedBy: 'staff-456' }, 'user-123');
+      const pending = service.buildOrderReceivedEvent(suppliesOrder, { receivedBy: 'staff-456' }, 'user-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.eventData.requiresInspection).toBe(false);
     });
   });
 
-  describe('emitOrderFulfilled', () => {
+  describe('buildOrderFulfilledEvent', () => {
     beforeEach(async () => {
       await service.initialize();
     });
 
-    it('should emit order fulfilled event', async () => {
+    it('should build order fulfilled event', async () => {
       const fulfilledOrder = { ...sampleOrder, status: OrderStatus.FULFILLED };
       const fulfillmentData = {
         satisfactionRating: 9,
         completionNotes: 'Excellent quality and timely delivery',
       };
 
-      await service.emitOrderFulfilled(fulfilledOrder, fulfillmentData, 'requester-123', 'corr-123');
+      const pending = service.buildOrderFulfilledEvent(fulfilledOrder, fulfillmentData, 'requester-123', 'corr-123');
 
-      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      expect(pending.event).toEqual(
         expect.objectContaining({
           type: OrderEventType.ORDER_FULFILLED,
           subject: 'order/order-123',
@@ -608,9 +635,9 @@ describe('OrderEventService', () => {
         completionNotes: 'Good service',
       };
 
-      await service.emitOrderFulfilled(fulfilledOrder, fulfillmentData, 'requester-123');
+      const pending = service.buildOrderFulfilledEvent(fulfilledOrder, fulfillmentData, 'requester-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.eventData).toEqual(
         expect.objectContaining({
           orderId: 'order-123',
@@ -628,12 +655,12 @@ describe('OrderEventService', () => {
     });
   });
 
-  describe('emitOrderReturned', () => {
+  describe('buildOrderReturnedEvent', () => {
     beforeEach(async () => {
       await service.initialize();
     });
 
-    it('should emit order returned event', async () => {
+    it('should build order returned event', async () => {
       const returnedOrder = { ...sampleOrder, status: OrderStatus.RETURNED };
       const returnData = {
         returnReason: 'Items damaged during shipment',
@@ -649,9 +676,9 @@ describe('OrderEventService', () => {
         userId: 'receiver-123',
       };
 
-      await service.emitOrderReturned(returnedOrder, returnData, 'corr-123');
+      const pending = service.buildOrderReturnedEvent(returnedOrder, returnData, 'corr-123');
 
-      expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      expect(pending.event).toEqual(
         expect.objectContaining({
           type: OrderEventType.ORDER_RETURNED,
           subject: 'order/order-123',
@@ -674,9 +701,9 @@ describe('OrderEventService', () => {
         userId: 'receiver-123',
       };
 
-      await service.emitOrderReturned(returnedOrder, returnData);
+      const pending = service.buildOrderReturnedEvent(returnedOrder, returnData);
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.eventData).toEqual(
         expect.objectContaining({
           orderId: 'order-123',
@@ -706,9 +733,9 @@ describe('OrderEventService', () => {
         userId: 'user-123',
       };
 
-      await service.emitOrderReturned(sampleOrder, returnData);
+      const pending = service.buildOrderReturnedEvent(sampleOrder, returnData);
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.eventData.replacementRequired).toBe(true);
     });
 
@@ -720,9 +747,9 @@ describe('OrderEventService', () => {
         userId: 'user-123',
       };
 
-      await service.emitOrderReturned(sampleOrder, returnData);
+      const pending = service.buildOrderReturnedEvent(sampleOrder, returnData);
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.eventData.replacementRequired).toBe(false);
     });
   });
@@ -733,37 +760,37 @@ describe('OrderEventService', () => {
     });
 
     it('should always set containsPII to false for order events', async () => {
-      await service.emitOrderCreated(sampleOrder, 'user-123');
+      const pending = service.buildOrderCreatedEvent(sampleOrder, 'user-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.metadata.containsPII).toBe(false);
     });
 
     it('should set dataClassification to internal', async () => {
-      await service.emitOrderCreated(sampleOrder, 'user-123');
+      const pending = service.buildOrderCreatedEvent(sampleOrder, 'user-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.metadata.dataClassification).toBe('internal');
     });
 
     it('should use CloudEvents 1.0 spec version', async () => {
-      await service.emitOrderCreated(sampleOrder, 'user-123');
+      const pending = service.buildOrderCreatedEvent(sampleOrder, 'user-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.specversion).toBe('1.0');
     });
 
-    it('should use smile.orders-service as source', async () => {
-      await service.emitOrderCreated(sampleOrder, 'user-123');
+    it('should use urn:smile:orders-service as source', async () => {
+      const pending = service.buildOrderCreatedEvent(sampleOrder, 'user-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
-      expect(emittedEvent.source).toBe('smile.orders-service');
+      const emittedEvent: any = pending.event;
+      expect(emittedEvent.source).toBe('urn:smile:orders-service');
     });
 
     it('should use application/json as data content type', async () => {
-      await service.emitOrderCreated(sampleOrder, 'user-123');
+      const pending = service.buildOrderCreatedEvent(sampleOrder, 'user-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.datacontenttype).toBe('application/json');
     });
   });
@@ -779,9 +806,9 @@ describe('OrderEventService', () => {
 
       const serviceWithoutDept = new OrderEventService(configWithoutDept);
       await serviceWithoutDept.initialize();
-      await serviceWithoutDept.emitOrderCreated(sampleOrder, 'user-123');
+      const pending = serviceWithoutDept.buildOrderCreatedEvent(sampleOrder, 'user-123');
 
-      const emittedEvent = (mockEventEmitter.emit as jest.Mock).mock.calls[0]?.[0];
+      const emittedEvent: any = pending.event;
       expect(emittedEvent.data.metadata).not.toHaveProperty('departmentId');
       expect(emittedEvent.data.metadata).not.toHaveProperty('departmentName');
     });
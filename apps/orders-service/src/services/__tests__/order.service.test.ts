@@ -12,8 +12,11 @@ import {
   OrderNotEditableError,
 } from '../order.service';
 import { OrderEventService } from '../order-event.service';
+import { OrderRepository } from '../order.repository';
+import { OutboxRelayService } from '../outbox-relay.service';
 import { OrderStatus, OrderType, OrderPriority } from '../../types/order-status';
 import { CreateOrderRequest, UpdateOrderRequest } from '../../types/order-types';
+import { PendingOrderEvent } from '../../types/order-outbox';
 
 // Mock dependencies
 jest.mock('../order-event.service');
@@ -29,25 +32,36 @@ jest.mock('@smile/common', () => ({
 describe('OrderService', () => {
   let orderService: OrderService;
   let mockEventService: jest.Mocked<OrderEventService>;
+  let repository: OrderRepository;
+  let mockOutboxRelay: jest.Mocked<OutboxRelayService>;
+
+  const pendingEvent = (type: string): PendingOrderEvent => ({
+    event: { type, data: { eventData: {}, metadata: {} } } as any,
+    routingKey: `orders.${type}`,
+  });
 
   beforeEach(() => {
     // Create mock event service
     mockEventService = {
-      emitOrderCreated: jest.fn().mockResolvedValue(undefined),
-      emitOrderUpdated: jest.fn().mockResolvedValue(undefined),
-      emitOrderDeleted: jest.fn().mockResolvedValue(undefined),
-      emitOrderSubmitted: jest.fn().mockResolvedValue(undefined),
-      emitOrderApproved: jest.fn().mockResolvedValue(undefined),
-      emitOrderRejected: jest.fn().mockResolvedValue(undefined),
-      emitOrderShipped: jest.fn().mockResolvedValue(undefined),
-      emitOrderReceived: jest.fn().mockResolvedValue(undefined),
-      emitOrderFulfilled: jest.fn().mockResolvedValue(undefined),
-      emitOrderReturned: jest.fn().mockResolvedValue(undefined),
+      buildOrderCreatedEvent: jest.fn(() => pendingEvent('order.created')),
+      buildOrderUpdatedEvent: jest.fn(() => pendingEvent('order.updated')),
+      buildOrderDeletedEvent: jest.fn(() => pendingEvent('order.deleted')),
+      buildOrderSubmittedEvent: jest.fn(() => pendingEvent('order.submitted')),
+      buildOrderApprovedEvent: jest.fn(() => pendingEvent('order.approved')),
+      buildOrderRejectedEvent: jest.fn(() => pendingEvent('order.rejected')),
+      buildOrderShippedEvent: jest.fn(() => pendingEvent('order.shipped')),
+      buildOrderReceivedEvent: jest.fn(() => pendingEvent('order.received')),
+      buildOrderFulfilledEvent: jest.fn(() => pendingEvent('order.fulfilled')),
+      buildOrderReturnedEvent: jest.fn(() => pendingEvent('order.returned')),
+      publish: jest.fn().mockResolvedValue(undefined),
       initialize: jest.fn().mockResolvedValue(undefined),
       close: jest.fn().mockResolvedValue(undefined),
     } as any;
 
-    orderService = new OrderService(mockEventService);
+    repository = new OrderRepository();
+    mockOutboxRelay = { trigger: jest.fn().mockResolvedValue(undefined) } as any;
+
+    orderService = new OrderService(mockEventService, repository, mockOutboxRelay);
   });
 
   afterEach(() => {
@@ -94,10 +108,10 @@ describe('OrderService', () => {
       expect(order.updatedAt).toBeDefined();
     });
 
-    it('should emit order created event', async () => {
+    it('should record order created event', async () => {
       const order = await orderService.createOrder(validCreateRequest, 'user-123', 'corr-123', 'sess-123');
 
-      expect(mockEventService.emitOrderCreated).toHaveBeenCalledWith(
+      expect(mockEventService.buildOrderCreatedEvent).toHaveBeenCalledWith(
         order,
         'user-123',
         'corr-123',
@@ -238,7 +252,7 @@ describe('OrderService', () => {
       expect(new Date(updated.updatedAt).getTime()).toBeGreaterThanOrEqual(new Date(created.updatedAt).getTime());
     });
 
-    it('should emit update event with changed fields', async () => {
+    it('should record update event with changed fields', async () => {
       const created = await orderService.createOrder({
         facilityId: 'facility-001',
         orderType: OrderType.MEDICINE,
@@ -261,8 +275,8 @@ describe('OrderService', () => {
 
       await orderService.updateOrder(created.orderId, updateRequest, 'user-456', 'corr-123', 'sess-123');
 
-      expect(mockEventService.emitOrderUpdated).toHaveBeenCalled();
-      const callArgs = (mockEventService.emitOrderUpdated as jest.Mock).mock.calls[0];
+      expect(mockEventService.buildOrderUpdatedEvent).toHaveBeenCalled();
+      const callArgs = (mockEventService.buildOrderUpdatedEvent as jest.Mock).mock.calls[0];
       expect(callArgs[1]).toContain('priority');
       expect(callArgs[2]).toHaveProperty('priority', OrderPriority.NORMAL);
     });
@@ -353,7 +367,7 @@ describe('OrderService', () => {
       ).rejects.toThrow(OrderNotFoundError);
     });
 
-    it('should emit deletion event before deleting', async () => {
+    it('should record deletion event with the deletion', async () => {
       const created = await orderService.createOrder({
         facilityId: 'facility-001',
         orderType: OrderType.MEDICINE,
@@ -372,7 +386,7 @@ describe('OrderService', () => {
 
       await orderService.deleteOrder(created.orderId, 'Duplicate', 'user-123', 'corr-123', 'sess-123');
 
-      expect(mockEventService.emitOrderDeleted).toHaveBeenCalledWith(
+      expect(mockEventService.buildOrderDeletedEvent).toHaveBeenCalledWith(
         expect.objectContaining({ orderId: created.orderId }),
         'Duplicate',
         'user-123',
@@ -530,10 +544,10 @@ describe('OrderService', () => {
         expect(submitted.statusHistory[1]?.toStatus).toBe(OrderStatus.SUBMITTED);
       });
 
-      it('should emit submitted event', async () => {
+      it('should record submitted event', async () => {
         await orderService.submitOrder(testOrder.orderId, 'user-123', 'corr-123', 'sess-123');
 
-        expect(mockEventService.emitOrderSubmitted).toHaveBeenCalled();
+        expect(mockEventService.buildOrderSubmittedEvent).toHaveBeenCalled();
       });
 
       it('should not allow submitting already submitted order', async () => {
@@ -558,7 +572,7 @@ describe('OrderService', () => {
         expect(approved.statusHistory).toHaveLength(3);
       });
 
-      it('should emit approval event', async () => {
+      it('should record approval event', async () => {
         await orderService.submitOrder(testOrder.orderId, 'user-123');
         await orderService.approveOrder(
           testOrder.orderId,
@@ -568,7 +582,7 @@ describe('OrderService', () => {
           'sess-123',
         );
 
-        expect(mockEventService.emitOrderApproved).toHaveBeenCalledWith(
+        expect(mockEventService.buildOrderApprovedEvent).toHaveBeenCalledWith(
           expect.objectContaining({ status: OrderStatus.APPROVED }),
           expect.objectContaining({ approvedBy: 'approver-123', notes: 'Approved' }),
           'approver-123',
@@ -609,7 +623,7 @@ describe('OrderService', () => {
         expect(order.status).toBe(OrderStatus.DRAFT);
       });
 
-      it('should emit rejection event', async () => {
+      it('should record rejection event', async () => {
         await orderService.submitOrder(testOrder.orderId, 'user-123');
         await orderService.rejectOrder(
           testOrder.orderId,
@@ -618,7 +632,7 @@ describe('OrderService', () => {
           'sess-123',
         );
 
-        expect(mockEventService.emitOrderRejected).toHaveBeenCalled();
+        expect(mockEventService.buildOrderRejectedEvent).toHaveBeenCalled();
       });
     });
 
@@ -811,4 +825,107 @@ describe('OrderService', () => {
       expect(error.statusCode).toBe(422);
     });
   });
+
+  describe('Transactional outbox', () => {
+    const createRequest: CreateOrderRequest = {
+      facilityId: 'facility-001',
+      orderType: OrderType.SUPPLIES,
+      priority: OrderPriority.NORMAL,
+      requestedBy: 'user-123',
+      requiredDate: new Date(Date.now() + 86400000 * 7).toISOString(),
+      items: [{ name: 'Gloves', category: 'PPE', unitOfMeasure: 'box', quantityOrdered: 5 }],
+      deliveryAddress: {
+        street: '123 St',
+        city: 'City',
+        state: 'CA',
+        zipCode: '12345',
+        country: 'USA',
+      },
+    };
+
+    it('should record the event in the outbox with the order', async () => {
+      const order = await orderService.createOrder(createRequest, 'user-123');
+
+      const entries = await repository.listOutboxEntries();
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({
+        orderId: order.orderId,
+        eventType: 'order.created',
+        routingKey: 'orders.order.created',
+        status: 'pending',
+        attempts: 0,
+      });
+    });
+
+    it('should not publish events directly', async () => {
+      await orderService.createOrder(createRequest, 'user-123');
+
+      expect(mockEventService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should trigger the outbox relay after the write', async () => {
+      await orderService.createOrder(createRequest, 'user-123');
+
+      expect(mockOutboxRelay.trigger).toHaveBeenCalledTimes(1);
+    });
+
+    it('should record events in the order they happened', async () => {
+      const order = await orderService.createOrder(createRequest, 'user-123');
+      await orderService.submitOrder(order.orderId, 'user-123');
+      await orderService.approveOrder(order.orderId, 'Approved', 'approver-123');
+      await orderService.packOrder(order.orderId, 'warehouse-123');
+      await orderService.shipOrder(order.orderId, { carrier: 'FedEx' }, 'warehouse-123');
+
+      const entries = await repository.listOutboxEntries('pending');
+      expect(entries.map(entry => entry.eventType)).toEqual([
+        'order.created',
+        'order.submitted',
+        'order.approved',
+        'order.shipped',
+      ]);
+    });
+
+    it('should build the shipped event from the stored order', async () => {
+      const order = await orderService.createOrder(createRequest, 'user-123');
+      await orderService.submitOrder(order.orderId, 'user-123');
+      await orderService.approveOrder(order.orderId, 'Approved', 'approver-123');
+      await orderService.packOrder(order.orderId, 'warehouse-123');
+      await orderService.shipOrder(
+        order.orderId,
+        { trackingNumber: 'TRACK-1', carrier: 'FedEx' },
+        'warehouse-123',
+      );
+
+      expect(mockEventService.buildOrderShippedEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: OrderStatus.SHIPPED,
+          deliveryInfo: expect.objectContaining({ trackingNumber: 'TRACK-1', carrier: 'FedEx' }),
+        }),
+        { trackingNumber: 'TRACK-1', carrier: 'FedEx' },
+        'warehouse-123',
+        undefined,
+        undefined,
+      );
+    });
+
+    it('should not record an event for a rejected change', async () => {
+      const order = await orderService.createOrder(createRequest, 'user-123');
+
+      await expect(
+        orderService.approveOrder(order.orderId, 'Approved', 'approver-123'),
+      ).rejects.toThrow(InvalidStateTransitionError);
+
+      const entries = await repository.listOutboxEntries();
+      expect(entries.map(entry => entry.eventType)).toEqual(['order.created']);
+    });
+
+    it('should keep the deletion event after the order is gone', async () => {
+      const order = await orderService.createOrder(createRequest, 'user-123');
+      await orderService.deleteOrder(order.orderId, 'Duplicate', 'user-123');
+
+      await expect(orderService.getOrder(order.orderId)).rejects.toThrow(OrderNotFoundError);
+      const entries = await repository.listOutboxEntries();
+      expect(entries.map(entry => entry.eventType)).toEqual(['order.created', 'order.deleted']);
+    });
+  });
 });
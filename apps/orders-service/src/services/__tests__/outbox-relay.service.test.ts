@@ -0,0 +1,265 @@
+/**
+ * Outbox Relay Service Unit Tests
+ *
+ * Tests for publishing order outbox entries with retries
+ */
+
+import { OutboxRelayService } from '../outbox-relay.service';
+import { OrderRepository } from '../order.repository';
+import { OrderEventService } from '../order-event.service';
+import { PendingOrderEvent } from '../../types/order-outbox';
+import { Order } from '../../types/order-types';
+import { OrderStatus, OrderType, OrderPriority } from '../../types/order-status';
+
+jest.mock('../order-event.service');
+jest.mock('@smile/common', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('OutboxRelayService', () => {
+  let repository: OrderRepository;
+  let mockEventService: jest.Mocked<OrderEventService>;
+  let relay: OutboxRelayService;
+
+  const order = (orderId: string): Order => ({
+    orderId,
+    facilityId: 'facility-001',
+    orderType: OrderType.SUPPLIES,
+    priority: OrderPriority.NORMAL,
+    status: OrderStatus.DRAFT,
+    requestedBy: 'user-123',
+    requestedDate: '2026-01-01T00:00:00.000Z',
+    requiredDate: '2026-01-08T00:00:00.000Z',
+    items: [],
+    deliveryAddress: {
+      street: '123 St',
+      city: 'City',
+      state: 'CA',
+      zipCode: '12345',
+      country: 'USA',
+    },
+    statusHistory: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    lastModifiedBy: 'user-123',
+  });
+
+  const pendingEvent = (orderId: string, type: string): PendingOrderEvent => ({
+    event: { type, id: `${orderId}-${type}`, data: { eventData: { orderId } } } as any,
+    routingKey: `orders.${type}`,
+  });
+
+  const publishedTypes = (): string[] =>
+    mockEventService.publish.mock.calls.map(([pending]) => pending.event.type);
+
+  beforeEach(() => {
+    repository = new OrderRepository();
+    mockEventService = {
+      publish: jest.fn().mockResolvedValue(undefined),
+    } as any;
+    relay = new OutboxRelayService(repository, mockEventService, {
+      initialRetryDelay: 1000,
+      maxRetryDelay: 4000,
+      stuckAfterAttempts: 3,
+    });
+  });
+
+  afterEach(async () => {
+    await relay.stop();
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  describe('trigger', () => {
+    it('should publish pending entries in recording order and mark them sent', async () => {
+      await repository.create(order('order-1'), [pendingEvent('order-1', 'created')]);
+      await repository.update('order-1', order('order-1'), [pendingEvent('order-1', 'submitted')]);
+
+      await relay.trigger();
+
+      expect(publishedTypes()).toEqual(['created', 'submitted']);
+      expect(mockEventService.publish).toHaveBeenCalledWith(
+        expect.objectContaining({ routingKey: 'orders.created' }),
+      );
+      const entries = await repository.listOutboxEntries();
+      expect(entries.every(entry => entry.status === 'sent' && entry.sentAt)).toBe(true);
+    });
+
+    it('should not publish sent entries again', async () => {
+      await repository.create(order('order-1'), [pendingEvent('order-1', 'created')]);
+
+      await relay.trigger();
+      await relay.trigger();
+
+      expect(mockEventService.publish).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep a failed entry pending with the error and next attempt time', async () => {
+      mockEventService.publish.mockRejectedValueOnce(new Error('Channel closed'));
+      await repository.create(order('order-1'), [pendingEvent('order-1', 'created')]);
+
+      await relay.trigger();
+
+      const [entry] = await repository.listOutboxEntries();
+      expect(entry).toMatchObject({
+        status: 'pending',
+        attempts: 1,
+        lastError: 'Channel closed',
+      });
+      expect(Date.parse(entry!.nextAttemptAt) - Date.parse(entry!.lastAttemptAt!)).toBe(1000);
+    });
+
+    it('should hold back later events of an order until the failed one is published', async () => {
+      mockEventService.publish.mockRejectedValueOnce(new Error('Channel closed'));
+      await repository.create(order('order-1'), [pendingEvent('order-1', 'created')]);
+      await repository.update('order-1', order('order-1'), [pendingEvent('order-1', 'submitted')]);
+
+      await relay.trigger();
+
+      expect(publishedTypes()).toEqual(['created']);
+      const pending = await repository.listOutboxEntries('pending');
+      expect(pending.map(entry => entry.eventType)).toEqual(['created', 'submitted']);
+    });
+
+    it('should keep publishing events of other orders', async () => {
+      mockEventService.publish.mockRejectedValueOnce(new Error('Channel closed'));
+      await repository.create(order('order-1'), [pendingEvent('order-1', 'created')]);
+      await repository.create(order('order-2'), [pendingEvent('order-2', 'created')]);
+
+      await relay.trigger();
+
+      const sent = await repository.listOutboxEntries('sent');
+      expect(sent.map(entry => entry.orderId)).toEqual(['order-2']);
+    });
+
+    it('should retry failed entries with exponential backoff', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00.000Z') });
+      mockEventService.publish.mockRejectedValue(new Error('Channel closed'));
+      await repository.create(order('order-1'), [pendingEvent('order-1', 'created')]);
+
+      await relay.trigger();
+      await relay.trigger();
+      expect(mockEventService.publish).toHaveBeenCalledTimes(1);
+
+      jest.setSystemTime(new Date('2026-01-01T00:00:01.000Z'));
+      await relay.trigger();
+      expect(mockEventService.publish).toHaveBeenCalledTimes(2);
+
+      const [entry] = await repository.listOutboxEntries();
+      expect(entry!.nextAttemptAt).toBe('2026-01-01T00:00:03.000Z');
+
+      mockEventService.publish.mockResolvedValue(undefined);
+      jest.setSystemTime(new Date('2026-01-01T00:00:03.000Z'));
+      await relay.trigger();
+
+      expect(await repository.listOutboxEntries('pending')).toHaveLength(0);
+    });
+
+    it('should cap the retry delay', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00.000Z') });
+      mockEventService.publish.mockRejectedValue(new Error('Channel closed'));
+      await repository.create(order('order-1'), [pendingEvent('order-1', 'created')]);
+
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await relay.trigger();
+        jest.setSystemTime(Date.now() + 60000);
+      }
+
+      const [entry] = await repository.listOutboxEntries();
+      expect(entry!.attempts).toBe(5);
+      expect(Date.parse(entry!.nextAttemptAt) - Date.parse(entry!.lastAttemptAt!)).toBe(4000);
+    });
+
+    it('should run one pass at a time', async () => {
+      let resolvePublish: () => void = () => undefined;
+      const published = new Promise<void>(resolve => {
+        resolvePublish = resolve;
+      });
+      mockEventService.publish.mockReturnValueOnce(published);
+      await repository.create(order('order-1'), [pendingEvent('order-1', 'created')]);
+
+      const first = relay.trigger();
+      const second = relay.trigger();
+      resolvePublish();
+      await Promise.all([first, second]);
+      await relay.stop();
+
+      expect(mockEventService.publish).toHaveBeenCalledTimes(1);
+    });
+
+    it('should prune sent entries past the retention period', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00.000Z') });
+      relay = new OutboxRelayService(repository, mockEventService, { sentRetention: 60000 });
+      await repository.create(order('order-1'), [pendingEvent('order-1', 'created')]);
+
+      await relay.trigger();
+      expect(await repository.listOutboxEntries('sent')).toHaveLength(1);
+
+      jest.setSystemTime(new Date('2026-01-01T00:01:01.000Z'));
+      await relay.trigger();
+
+      expect(await repository.listOutboxEntries()).toHaveLength(0);
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should report counts and the oldest pending entry', async () => {
+      mockEventService.publish.mockRejectedValueOnce(new Error('Channel closed'));
+      await repository.create(order('order-1'), [pendingEvent('order-1', 'created')]);
+      await repository.create(order('order-2'), [pendingEvent('order-2', 'created')]);
+
+      await relay.trigger();
+      const status = await relay.getStatus();
+
+      expect(status.pending).toBe(1);
+      expect(status.sent).toBe(1);
+      expect(status.oldestPendingAt).toBeDefined();
+      expect(status.stuck).toEqual([]);
+    });
+
+    it('should report entries that failed repeatedly as stuck', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00.000Z') });
+      mockEventService.publish.mockRejectedValue(new Error('Exchange not found'));
+      await repository.create(order('order-1'), [pendingEvent('order-1', 'created')]);
+
+      for (let attempt = 0; attempt < 3; attempt++) {
+        await relay.trigger();
+        jest.setSystemTime(Date.now() + 10000);
+      }
+      const status = await relay.getStatus();
+
+      expect(status.stuck).toHaveLength(1);
+      expect(status.stuck[0]).toMatchObject({
+        orderId: 'order-1',
+        attempts: 3,
+        lastError: 'Exchange not found',
+      });
+    });
+
+    it('should report entries pending for too long as stuck', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00.000Z') });
+      await repository.create(order('order-1'), [pendingEvent('order-1', 'created')]);
+
+      jest.setSystemTime(new Date('2026-01-01T00:06:00.000Z'));
+      const status = await relay.getStatus();
+
+      expect(status.stuck).toHaveLength(1);
+    });
+  });
+
+  describe('start', () => {
+    it('should publish pending entries when started', async () => {
+      await repository.create(order('order-1'), [pendingEvent('order-1', 'created')]);
+
+      relay.start();
+      await relay.stop();
+
+      expect(mockEventService.publish).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -1,11 +1,17 @@
 /**
  * Order Event Service
  *
- * Handles CloudEvent emission for order lifecycle events.
+ * Builds CloudEvents for order lifecycle events and publishes them.
  * Provides business-focused event handling without PII/PHI concerns.
+ * Events are recorded in the order outbox and published by the outbox relay.
  */
 
-import { EventEmitter } from '@smile/cloud-events';
+import {
+  EmitterHealth,
+  EventBufferOptions,
+  EventEmitter,
+  PriorityConfig,
+} from '@smile/cloud-events';
 import { logger } from '@smile/common';
 import {
   OrderEventType,
@@ -23,9 +29,11 @@ import {
   OrderReturnedEventData,
   OrderFulfilledEventData,
   ORDER_EVENT_ROUTING,
+  ORDER_EVENT_PRIORITY,
 } from '../types/order-events';
 import { Order, RejectOrderRequest, InitiateReturnRequest } from '../types/order-types';
 import { OrderStatus } from '../types/order-status';
+import { PendingOrderEvent } from '../types/order-outbox';
 
 export interface OrderEventServiceConfig {
   rabbitmqUrl: string;
@@ -34,6 +42,10 @@ export interface OrderEventServiceConfig {
   facilityName: string;
   departmentId?: string;
   departmentName?: string;
+  /** AMQP priority rules (defaults to ORDER_EVENT_PRIORITY) */
+  priority?: PriorityConfig;
+  /** Disk buffer for events emitted while RabbitMQ is unreachable */
+  buffer?: EventBufferOptions;
 }
 
 export class OrderEventService {
@@ -45,9 +57,18 @@ export class OrderEventService {
     this.eventEmitter = new EventEmitter({
       rabbitmqUrl: config.rabbitmqUrl,
       exchange: config.exchange,
+      priority: config.priority ?? ORDER_EVENT_PRIORITY,
+      ...(config.buffer && { buffer: config.buffer }),
     });
   }
 
+  /**
+   * Get the health of the event publisher
+   */
+  getHealth(): EmitterHealth {
+    return this.eventEmitter.getHealth();
+  }
+
   /**
    * Initialize the event service
    */
@@ -77,14 +98,14 @@ export class OrderEventService {
   }
 
   /**
-   * Emit order created event
+   * Build order created event
    */
-  async emitOrderCreated(
+  buildOrderCreatedEvent(
     order: Order,
     userId: string,
     correlationId?: string,
     sessionId?: string,
-  ): Promise<void> {
+  ): PendingOrderEvent {
     const eventData: OrderCreatedEventData = {
       orderId: order.orderId,
       orderType: order.orderType,
@@ -104,7 +125,7 @@ export class OrderEventService {
       ...(order.tags && { tags: order.tags }),
     };
 
-    await this.emitEvent(
+    return this.buildEvent(
       OrderEventType.ORDER_CREATED,
       eventData,
       order.orderId,
@@ -115,16 +136,16 @@ export class OrderEventService {
   }
 
   /**
-   * Emit order updated event
+   * Build order updated event
    */
-  async emitOrderUpdated(
+  buildOrderUpdatedEvent(
     order: Order,
     updatedFields: string[],
     previousValues: Record<string, any>,
     userId: string,
     correlationId?: string,
     sessionId?: string,
-  ): Promise<void> {
+  ): PendingOrderEvent {
     const eventData: OrderUpdatedEventData = {
       orderId: order.orderId,
       orderType: order.orderType,
@@ -139,7 +160,7 @@ export class OrderEventService {
       itemsModified: 0, // Calculate based on comparison
     };
 
-    await this.emitEvent(
+    return this.buildEvent(
       OrderEventType.ORDER_UPDATED,
       eventData,
       order.orderId,
@@ -150,15 +171,15 @@ export class OrderEventService {
   }
 
   /**
-   * Emit order deleted event
+   * Build order deleted event
    */
-  async emitOrderDeleted(
+  buildOrderDeletedEvent(
     order: Order,
     deletionReason: string,
     userId: string,
     correlationId?: string,
     sessionId?: string,
-  ): Promise<void> {
+  ): PendingOrderEvent {
     const eventData: OrderDeletedEventData = {
       orderId: order.orderId,
       orderType: order.orderType,
@@ -169,7 +190,7 @@ export class OrderEventService {
       orderAge: this.calculateOrderAge(order.createdAt),
     };
 
-    await this.emitEvent(
+    return this.buildEvent(
       OrderEventType.ORDER_DELETED,
       eventData,
       order.orderId,
@@ -180,14 +201,14 @@ export class OrderEventService {
   }
 
   /**
-   * Emit order submitted event
+   * Build order submitted event
    */
-  async emitOrderSubmitted(
+  buildOrderSubmittedEvent(
     order: Order,
     userId: string,
     correlationId?: string,
     sessionId?: string,
-  ): Promise<void> {
+  ): PendingOrderEvent {
     const eventData: OrderStateTransitionEventData = {
       orderId: order.orderId,
       fromStatus: OrderStatus.DRAFT,
@@ -201,7 +222,7 @@ export class OrderEventService {
       ...(order.vendor?.vendorId && { vendorId: order.vendor.vendorId }),
     };
 
-    await this.emitEvent(
+    return this.buildEvent(
       OrderEventType.ORDER_SUBMITTED,
       eventData,
       order.orderId,
@@ -212,15 +233,15 @@ export class OrderEventService {
   }
 
   /**
-   * Emit order approved event
+   * Build order approved event
    */
-  async emitOrderApproved(
+  buildOrderApprovedEvent(
     order: Order,
     approvalData: { approvedBy: string; approvalDate: string; notes?: string },
     userId: string,
     correlationId?: string,
     sessionId?: string,
-  ): Promise<void> {
+  ): PendingOrderEvent {
     const eventData: OrderApprovedEventData = {
       orderId: order.orderId,
       orderType: order.orderType,
@@ -234,7 +255,7 @@ export class OrderEventService {
       ...(approvalData.notes && { approvalNotes: approvalData.notes }),
     };
 
-    await this.emitEvent(
+    return this.buildEvent(
       OrderEventType.ORDER_APPROVED,
       eventData,
       order.orderId,
@@ -245,14 +266,14 @@ export class OrderEventService {
   }
 
   /**
-   * Emit order rejected event
+   * Build order rejected event
    */
-  async emitOrderRejected(
+  buildOrderRejectedEvent(
     order: Order,
     rejectionData: RejectOrderRequest,
     correlationId?: string,
     sessionId?: string,
-  ): Promise<void> {
+  ): PendingOrderEvent {
     const eventData: OrderRejectedEventData = {
       orderId: order.orderId,
       orderType: order.orderType,
@@ -265,7 +286,7 @@ export class OrderEventService {
       ...(rejectionData.notes && { rejectionNotes: rejectionData.notes }),
     };
 
-    await this.emitEvent(
+    return this.buildEvent(
       OrderEventType.ORDER_REJECTED,
       eventData,
       order.orderId,
@@ -276,15 +297,15 @@ export class OrderEventService {
   }
 
   /**
-   * Emit order shipped event
+   * Build order shipped event
    */
-  async emitOrderShipped(
+  buildOrderShippedEvent(
     order: Order,
     shippingData: { trackingNumber?: string; carrier?: string; estimatedDelivery?: string },
     userId: string,
     correlationId?: string,
     sessionId?: string,
-  ): Promise<void> {
+  ): PendingOrderEvent {
     const eventData: OrderShippedEventData = {
       orderId: order.orderId,
       orderType: order.orderType,
@@ -304,7 +325,7 @@ export class OrderEventService {
       },
     };
 
-    await this.emitEvent(
+    return this.buildEvent(
       OrderEventType.ORDER_SHIPPED,
       eventData,
       order.orderId,
@@ -315,15 +336,15 @@ export class OrderEventService {
   }
 
   /**
-   * Emit order received event
+   * Build order received event
    */
-  async emitOrderReceived(
+  buildOrderReceivedEvent(
     order: Order,
     receivedData: { receivedBy: string; deliveredBy?: string; notes?: string },
     userId: string,
     correlationId?: string,
     sessionId?: string,
-  ): Promise<void> {
+  ): PendingOrderEvent {
     const eventData: OrderReceivedEventData = {
       orderId: order.orderId,
       orderType: order.orderType,
@@ -341,7 +362,7 @@ export class OrderEventService {
       requiresInspection: this.requiresInspection(order),
     };
 
-    await this.emitEvent(
+    return this.buildEvent(
       OrderEventType.ORDER_RECEIVED,
       eventData,
       order.orderId,
@@ -352,15 +373,15 @@ export class OrderEventService {
   }
 
   /**
-   * Emit order fulfilled event
+   * Build order fulfilled event
    */
-  async emitOrderFulfilled(
+  buildOrderFulfilledEvent(
     order: Order,
     fulfillmentData: { satisfactionRating?: number; completionNotes?: string },
     userId: string,
     correlationId?: string,
     sessionId?: string,
-  ): Promise<void> {
+  ): PendingOrderEvent {
     const eventData: OrderFulfilledEventData = {
       orderId: order.orderId,
       orderType: order.orderType,
@@ -375,7 +396,7 @@ export class OrderEventService {
       ...(fulfillmentData.completionNotes && { completionNotes: fulfillmentData.completionNotes }),
     };
 
-    await this.emitEvent(
+    return this.buildEvent(
       OrderEventType.ORDER_FULFILLED,
       eventData,
       order.orderId,
@@ -386,14 +407,14 @@ export class OrderEventService {
   }
 
   /**
-   * Emit order returned event
+   * Build order returned event
    */
-  async emitOrderReturned(
+  buildOrderReturnedEvent(
     order: Order,
     returnData: InitiateReturnRequest,
     correlationId?: string,
     sessionId?: string,
-  ): Promise<void> {
+  ): PendingOrderEvent {
     const eventData: OrderReturnedEventData = {
       orderId: order.orderId,
       orderType: order.orderType,
@@ -412,7 +433,7 @@ export class OrderEventService {
       replacementRequired: returnData.returnType === 'damaged' || returnData.returnType === 'wrong_item',
     };
 
-    await this.emitEvent(
+    return this.buildEvent(
       OrderEventType.ORDER_RETURNED,
       eventData,
       order.orderId,
@@ -423,71 +444,81 @@ export class OrderEventService {
   }
 
   /**
-   * Core event emission method
+   * Publish an order event through the event emitter
+   *
+   * @throws Error if the event could not be published
    */
-  private async emitEvent(
-    eventType: OrderEventType,
-    eventData: OrderEventData,
-    resourceId: string,
-    userId: string,
-    correlationId?: string,
-    sessionId?: string,
-  ): Promise<void> {
+  async publish(pending: PendingOrderEvent): Promise<void> {
+    const { event, routingKey } = pending;
+    const orderId = event.data.eventData.orderId;
+
     try {
-      const eventId = correlationId || this.generateCorrelationId();
-      const metadata: OrderEventMetadata = {
-        facilityId: this.config.facilityId,
-        ...(this.config.facilityName && { facilityName: this.config.facilityName }),
-        ...(this.config.departmentId && { departmentId: this.config.departmentId }),
-        ...(this.config.departmentName && { departmentName: this.config.departmentName }),
-        userId,
-        correlationId: eventId,
-        ...(sessionId && { sessionId }),
-        service: 'orders-service',
-        containsPII: false, // Orders don't contain PII/PHI
-        dataClassification: 'internal',
-        eventVersion: '1.0',
-      };
-
-      const cloudEvent: OrderCloudEvent = {
-        specversion: '1.0',
-        type: eventType,
-        source: 'urn:smile:orders-service',
-        id: eventId,
-        time: new Date().toISOString(),
-        datacontenttype: 'application/json',
-        subject: `order/${resourceId}`,
-        data: {
-          eventData,
-          metadata,
-        },
-      };
-
-      // Get the routing key from ORDER_EVENT_ROUTING configuration
-      const routingConfig = ORDER_EVENT_ROUTING[eventType];
-      const routingKey = routingConfig?.routingKey;
-
-      await this.eventEmitter.emit(cloudEvent as any, routingKey);
+      await this.eventEmitter.emit(event as any, routingKey);
 
       logger.info('Order event emitted successfully', {
-        eventType,
-        orderId: resourceId,
-        correlationId: eventId,
-        userId,
+        eventType: event.type,
+        orderId,
+        correlationId: event.id,
+        userId: event.data.metadata.userId,
         routingKey,
       });
-
     } catch (error: any) {
       logger.error('Failed to emit order event', {
-        eventType,
-        orderId: resourceId,
+        eventType: event.type,
+        orderId,
         error,
-        userId,
+        userId: event.data.metadata.userId,
       });
       throw error;
     }
   }
 
+  /**
+   * Core event construction method
+   */
+  private buildEvent(
+    eventType: OrderEventType,
+    eventData: OrderEventData,
+    resourceId: string,
+    userId: string,
+    correlationId?: string,
+    sessionId?: string,
+  ): PendingOrderEvent {
+    const eventId = correlationId || this.generateCorrelationId();
+    const metadata: OrderEventMetadata = {
+      facilityId: this.config.facilityId,
+      ...(this.config.facilityName && { facilityName: this.config.facilityName }),
+      ...(this.config.departmentId && { departmentId: this.config.departmentId }),
+      ...(this.config.departmentName && { departmentName: this.config.departmentName }),
+      userId,
+      correlationId: eventId,
+      ...(sessionId && { sessionId }),
+      service: 'orders-service',
+      containsPII: false, // Orders don't contain PII/PHI
+      dataClassification: 'internal',
+      eventVersion: '1.0',
+    };
+
+    const event: OrderCloudEvent = {
+      specversion: '1.0',
+      type: eventType,
+      source: 'urn:smile:orders-service',
+      id: eventId,
+      time: new Date().toISOString(),
+      datacontenttype: 'application/json',
+      subject: `order/${resourceId}`,
+      data: {
+        eventData,
+        metadata,
+      },
+    };
+
+    // Get the routing key from ORDER_EVENT_ROUTING configuration
+    const routingKey = ORDER_EVENT_ROUTING[eventType]?.routingKey;
+
+    return { event, ...(routingKey && { routingKey }) };
+  }
+
   /**
    * Generate correlation ID for event tracking
    */
@@ -0,0 +1,185 @@
+/**
+ * Order Repository
+ *
+ * Order storage with a transactional outbox: order changes and the events they
+ * produce are written together, so an order change is never stored without its
+ * event and an event is never published for a change that was not stored.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Order, OrderFilters } from '../types/order-types';
+import { OutboxEntry, OutboxEntryStatus, PendingOrderEvent } from '../types/order-outbox';
+
+/**
+ * In-memory storage for demonstration purposes
+ * In production, this would be replaced with a database; each write below then
+ * stores the order and its outbox entries in one transaction.
+ */
+export class OrderRepository {
+  private orders: Map<string, Order> = new Map();
+  private outbox: Map<string, OutboxEntry> = new Map();
+  private outboxSequence = 0;
+
+  async create(order: Order, events: PendingOrderEvent[] = []): Promise<Order> {
+    this.orders.set(order.orderId, order);
+    this.addOutboxEntries(order.orderId, events);
+    return order;
+  }
+
+  async findById(orderId: string): Promise<Order | null> {
+    return this.orders.get(orderId) || null;
+  }
+
+  async update(orderId: string, order: Order, events: PendingOrderEvent[] = []): Promise<Order> {
+    this.orders.set(orderId, order);
+    this.addOutboxEntries(orderId, events);
+    return order;
+  }
+
+  async delete(orderId: string, events: PendingOrderEvent[] = []): Promise<boolean> {
+    const deleted = this.orders.delete(orderId);
+    if (deleted) {
+      this.addOutboxEntries(orderId, events);
+    }
+    return deleted;
+  }
+
+  async findMany(filters: OrderFilters): Promise<{ orders: Order[]; total: number }> {
+    let filteredOrders = Array.from(this.orders.values());
+
+    // Apply filters
+    if (filters.facilityId) {
+      filteredOrders = filteredOrders.filter(o => o.facilityId === filters.facilityId);
+    }
+    if (filters.departmentId) {
+      filteredOrders = filteredOrders.filter(o => o.departmentId === filters.departmentId);
+    }
+    if (filters.orderType) {
+      filteredOrders = filteredOrders.filter(o => o.orderType === filters.orderType);
+    }
+    if (filters.status) {
+      filteredOrders = filteredOrders.filter(o => o.status === filters.status);
+    }
+    if (filters.priority) {
+      filteredOrders = filteredOrders.filter(o => o.priority === filters.priority);
+    }
+    if (filters.requestedBy) {
+      filteredOrders = filteredOrders.filter(o => o.requestedBy === filters.requestedBy);
+    }
+    if (filters.vendorId) {
+      filteredOrders = filteredOrders.filter(o => o.vendor?.vendorId === filters.vendorId);
+    }
+    if (filters.dateFrom) {
+      filteredOrders = filteredOrders.filter(o => o.createdAt >= filters.dateFrom!);
+    }
+    if (filters.dateTo) {
+      filteredOrders = filteredOrders.filter(o => o.createdAt <= filters.dateTo!);
+    }
+    if (filters.tags && filters.tags.length > 0) {
+      filteredOrders = filteredOrders.filter(o =>
+        o.tags?.some(tag => filters.tags!.includes(tag)),
+      );
+    }
+
+    // Sort
+    if (filters.sortBy) {
+      filteredOrders.sort((a, b) => {
+        const aValue = (a as any)[filters.sortBy!];
+        const bValue = (b as any)[filters.sortBy!];
+        const comparison = aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
+        return filters.sortOrder === 'desc' ? -comparison : comparison;
+      });
+    }
+
+    const total = filteredOrders.length;
+
+    // Pagination
+    if (filters.offset) {
+      filteredOrders = filteredOrders.slice(filters.offset);
+    }
+    if (filters.limit) {
+      filteredOrders = filteredOrders.slice(0, filters.limit);
+    }
+
+    return { orders: filteredOrders, total };
+  }
+
+  /**
+   * Get pending outbox entries in recording order
+   */
+  async findPendingOutboxEntries(limit: number): Promise<OutboxEntry[]> {
+    return this.listOutbox('pending').slice(0, limit);
+  }
+
+  async listOutboxEntries(status?: OutboxEntryStatus): Promise<OutboxEntry[]> {
+    return this.listOutbox(status);
+  }
+
+  async markOutboxEntrySent(id: string, sentAt: string): Promise<void> {
+    const entry = this.outbox.get(id);
+    if (entry) {
+      entry.status = 'sent';
+      entry.attempts++;
+      entry.lastAttemptAt = sentAt;
+      entry.sentAt = sentAt;
+      delete entry.lastError;
+    }
+  }
+
+  async markOutboxEntryFailed(
+    id: string,
+    error: string,
+    attemptedAt: string,
+    nextAttemptAt: string,
+  ): Promise<void> {
+    const entry = this.outbox.get(id);
+    if (entry) {
+      entry.attempts++;
+      entry.lastAttemptAt = attemptedAt;
+      entry.lastError = error;
+      entry.nextAttemptAt = nextAttemptAt;
+    }
+  }
+
+  /**
+   * Remove entries sent before the given time
+   *
+   * @returns Number of entries removed
+   */
+  async deleteSentOutboxEntries(before: string): Promise<number> {
+    let removed = 0;
+    for (const entry of this.outbox.values()) {
+      if (entry.status === 'sent' && entry.sentAt !== undefined && entry.sentAt < before) {
+        this.outbox.delete(entry.id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private addOutboxEntries(orderId: string, events: PendingOrderEvent[]): void {
+    const now = new Date().toISOString();
+    for (const { event, routingKey } of events) {
+      const entry: OutboxEntry = {
+        id: uuidv4(),
+        sequence: ++this.outboxSequence,
+        orderId,
+        eventType: event.type,
+        event: structuredClone(event),
+        ...(routingKey && { routingKey }),
+        status: 'pending',
+        attempts: 0,
+        createdAt: now,
+        nextAttemptAt: now,
+      };
+      this.outbox.set(entry.id, entry);
+    }
+  }
+
+  private listOutbox(status?: OutboxEntryStatus): OutboxEntry[] {
+    return Array.from(this.outbox.values())
+      .filter(entry => status === undefined || entry.status === status)
+      .sort((a, b) => a.sequence - b.sequence)
+      .map(entry => ({ ...entry }));
+  }
+}
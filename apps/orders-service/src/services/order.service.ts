@@ -7,6 +7,7 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '@smile/common';
+import { EmitterHealth } from '@smile/cloud-events';
 import {
   Order,
   CreateOrderRequest,
@@ -25,6 +26,9 @@ import {
   getNextStates,
 } from '../types/order-status';
 import { OrderEventService } from './order-event.service';
+import { OrderRepository } from './order.repository';
+import { OutboxRelayService } from './outbox-relay.service';
+import { PendingOrderEvent } from '../types/order-outbox';
 
 /**
  * Error types for order operations
@@ -63,98 +67,33 @@ export class OrderNotEditableError extends OrderError {
 }
 
 /**
- * In-memory storage for demonstration purposes
- * In production, this would be replaced with a database
+ * Additional work for a state transition
  */
-class OrderRepository {
-  private orders: Map<string, Order> = new Map();
+interface TransitionOptions {
+  /** Further changes to the order */
+  apply?: (order: Order) => void;
 
-  async create(order: Order): Promise<Order> {
-    this.orders.set(order.orderId, order);
-    return order;
-  }
-
-  async findById(orderId: string): Promise<Order | null> {
-    return this.orders.get(orderId) || null;
-  }
-
-  async update(orderId: string, order: Order): Promise<Order> {
-    this.orders.set(orderId, order);
-    return order;
-  }
-
-  async delete(orderId: string): Promise<boolean> {
-    return this.orders.delete(orderId);
-  }
-
-  async findMany(filters: OrderFilters): Promise<{ orders: Order[]; total: number }> {
-    let filteredOrders = Array.from(this.orders.values());
-
-    // Apply filters
-    if (filters.facilityId) {
-      filteredOrders = filteredOrders.filter(o => o.facilityId === filters.facilityId);
-    }
-    if (filters.departmentId) {
-      filteredOrders = filteredOrders.filter(o => o.departmentId === filters.departmentId);
-    }
-    if (filters.orderType) {
-      filteredOrders = filteredOrders.filter(o => o.orderType === filters.orderType);
-    }
-    if (filters.status) {
-      filteredOrders = filteredOrders.filter(o => o.status === filters.status);
-    }
-    if (filters.priority) {
-      filteredOrders = filteredOrders.filter(o => o.priority === filters.priority);
-    }
-    if (filters.requestedBy) {
-      filteredOrders = filteredOrders.filter(o => o.requestedBy === filters.requestedBy);
-    }
-    if (filters.vendorId) {
-      filteredOrders = filteredOrders.filter(o => o.vendor?.vendorId === filters.vendorId);
-    }
-    if (filters.dateFrom) {
-      filteredOrders = filteredOrders.filter(o => o.createdAt >= filters.dateFrom!);
-    }
-    if (filters.dateTo) {
-      filteredOrders = filteredOrders.filter(o => o.createdAt <= filters.dateTo!);
-    }
-    if (filters.tags && filters.tags.length > 0) {
-      filteredOrders = filteredOrders.filter(o =>
-        o.tags?.some(tag => filters.tags!.includes(tag)),
-      );
-    }
-
-    // Sort
-    if (filters.sortBy) {
-      filteredOrders.sort((a, b) => {
-        const aValue = (a as any)[filters.sortBy!];
-        const bValue = (b as any)[filters.sortBy!];
-        const comparison = aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
-        return filters.sortOrder === 'desc' ? -comparison : comparison;
-      });
-    }
-
-    const total = filteredOrders.length;
-
-    // Pagination
-    if (filters.offset) {
-      filteredOrders = filteredOrders.slice(filters.offset);
-    }
-    if (filters.limit) {
-      filteredOrders = filteredOrders.slice(0, filters.limit);
-    }
-
-    return { orders: filteredOrders, total };
-  }
+  /** Build the transition event from the updated order */
+  buildEvent?: (order: Order) => PendingOrderEvent;
 }
 
 export class OrderService {
   private repository: OrderRepository;
   private eventService: OrderEventService;
+  private outboxRelay: OutboxRelayService | undefined;
 
-  constructor(eventService: OrderEventService) {
-    this.repository = new OrderRepository();
+  /**
+   * Order events are written to the repository outbox together with the order
+   * change; the outbox relay (when given) is triggered after each write.
+   */
+  constructor(
+    eventService: OrderEventService,
+    repository: OrderRepository = new OrderRepository(),
+    outboxRelay?: OutboxRelayService,
+  ) {
+    this.repository = repository;
     this.eventService = eventService;
+    this.outboxRelay = outboxRelay;
   }
 
   /**
@@ -207,15 +146,11 @@ export class OrderService {
         lastModifiedBy: userId,
       };
 
-      const createdOrder = await this.repository.create(order);
-
-      // Emit creation event
-      await this.eventService.emitOrderCreated(
-        createdOrder,
-        userId,
-        correlationId,
-        sessionId,
-      );
+      // Record the creation event with the order
+      const createdOrder = await this.repository.create(order, [
+        this.eventService.buildOrderCreatedEvent(order, userId, correlationId, sessionId),
+      ]);
+      this.outboxRelay?.trigger();
 
       logger.info('Order created successfully', {
         orderId,
@@ -327,18 +262,22 @@ export class OrderService {
       existingOrder.updatedAt = new Date().toISOString();
       existingOrder.lastModifiedBy = userId;
 
-      const updatedOrder = await this.repository.update(orderId, existingOrder);
-
-      // Emit update event if changes were made
-      if (updatedFields.length > 0) {
-        await this.eventService.emitOrderUpdated(
-          updatedOrder,
+      // Record an update event if changes were made
+      const events = updatedFields.length > 0
+        ? [this.eventService.buildOrderUpdatedEvent(
+          existingOrder,
           updatedFields,
           previousValues,
           userId,
           correlationId,
           sessionId,
-        );
+        )]
+        : [];
+
+      const updatedOrder = await this.repository.update(orderId, existingOrder, events);
+
+      if (updatedFields.length > 0) {
+        this.outboxRelay?.trigger();
 
         logger.info('Order updated successfully', {
           orderId,
@@ -377,16 +316,17 @@ export class OrderService {
         );
       }
 
-      // Emit deletion event before deleting
-      await this.eventService.emitOrderDeleted(
-        order,
-        deletionReason,
-        userId,
-        correlationId,
-        sessionId,
-      );
-
-      await this.repository.delete(orderId);
+      // Record the deletion event with the deletion
+      await this.repository.delete(orderId, [
+        this.eventService.buildOrderDeletedEvent(
+          order,
+          deletionReason,
+          userId,
+          correlationId,
+          sessionId,
+        ),
+      ]);
+      this.outboxRelay?.trigger();
 
       logger.info('Order deleted successfully', {
         orderId,
@@ -448,19 +388,20 @@ export class OrderService {
       userId,
       correlationId,
       sessionId,
-    );
-
-    // Emit approval event with additional data
-    await this.eventService.emitOrderApproved(
-      order,
       {
-        approvedBy: userId,
-        approvalDate: new Date().toISOString(),
-        notes,
+        // Record approval event with additional data
+        buildEvent: approvedOrder => this.eventService.buildOrderApprovedEvent(
+          approvedOrder,
+          {
+            approvedBy: userId,
+            approvalDate: new Date().toISOString(),
+            notes,
+          },
+          userId,
+          correlationId,
+          sessionId,
+        ),
       },
-      userId,
-      correlationId,
-      sessionId,
     );
 
     return order;
@@ -501,15 +442,11 @@ export class OrderService {
     };
     order.statusHistory.push(statusChange);
 
-    const updatedOrder = await this.repository.update(orderId, order);
-
-    // Emit rejection event
-    await this.eventService.emitOrderRejected(
-      updatedOrder,
-      rejectionData,
-      correlationId,
-      sessionId,
-    );
+    // Record rejection event with the rejection
+    const updatedOrder = await this.repository.update(orderId, order, [
+      this.eventService.buildOrderRejectedEvent(order, rejectionData, correlationId, sessionId),
+    ]);
+    this.outboxRelay?.trigger();
 
     // Automatically transition back to DRAFT for editing
     await this.transitionOrderState(
@@ -560,29 +497,30 @@ export class OrderService {
       userId,
       correlationId,
       sessionId,
+      {
+        // Update delivery info
+        apply: shippedOrder => {
+          shippedOrder.deliveryInfo = {
+            ...shippedOrder.deliveryInfo,
+            ...(shippingData.trackingNumber && { trackingNumber: shippingData.trackingNumber }),
+            ...(shippingData.carrier && { carrier: shippingData.carrier }),
+            ...(shippingData.estimatedDelivery && {
+              estimatedDeliveryDate: shippingData.estimatedDelivery,
+            }),
+          };
+        },
+        // Record shipping event
+        buildEvent: shippedOrder => this.eventService.buildOrderShippedEvent(
+          shippedOrder,
+          shippingData,
+          userId,
+          correlationId,
+          sessionId,
+        ),
+      },
     );
 
-    // Update delivery info
-    order.deliveryInfo = {
-      ...order.deliveryInfo,
-      ...(shippingData.trackingNumber && { trackingNumber: shippingData.trackingNumber }),
-      ...(shippingData.carrier && { carrier: shippingData.carrier }),
-      ...(shippingData.estimatedDelivery && { estimatedDeliveryDate: shippingData.estimatedDelivery }),
-    };
-    order.updatedAt = new Date().toISOString();
-
-    const updatedOrder = await this.repository.update(orderId, order);
-
-    // Emit shipping event
-    await this.eventService.emitOrderShipped(
-      updatedOrder,
-      shippingData,
-      userId,
-      correlationId,
-      sessionId,
-    );
-
-    return updatedOrder;
+    return order;
   }
 
   /**
@@ -602,30 +540,29 @@ export class OrderService {
       userId,
       correlationId,
       sessionId,
+      {
+        // Update delivery info
+        apply: receivedOrder => {
+          receivedOrder.deliveryInfo = {
+            ...receivedOrder.deliveryInfo,
+            actualDeliveryDate: new Date().toISOString(),
+            ...(receivedData.deliveredBy && { deliveredBy: receivedData.deliveredBy }),
+            receivedBy: receivedData.receivedBy,
+            ...(receivedData.notes && { deliveryNotes: receivedData.notes }),
+          };
+        },
+        // Record received event
+        buildEvent: receivedOrder => this.eventService.buildOrderReceivedEvent(
+          receivedOrder,
+          receivedData,
+          userId,
+          correlationId,
+          sessionId,
+        ),
+      },
     );
 
-    // Update delivery info
-    order.deliveryInfo = {
-      ...order.deliveryInfo,
-      actualDeliveryDate: new Date().toISOString(),
-      ...(receivedData.deliveredBy && { deliveredBy: receivedData.deliveredBy }),
-      receivedBy: receivedData.receivedBy,
-      ...(receivedData.notes && { deliveryNotes: receivedData.notes }),
-    };
-    order.updatedAt = new Date().toISOString();
-
-    const updatedOrder = await this.repository.update(orderId, order);
-
-    // Emit received event
-    await this.eventService.emitOrderReceived(
-      updatedOrder,
-      receivedData,
-      userId,
-      correlationId,
-      sessionId,
-    );
-
-    return updatedOrder;
+    return order;
   }
 
   /**
@@ -645,15 +582,16 @@ export class OrderService {
       userId,
       correlationId,
       sessionId,
-    );
-
-    // Emit fulfillment event
-    await this.eventService.emitOrderFulfilled(
-      order,
-      fulfillmentData,
-      userId,
-      correlationId,
-      sessionId,
+      {
+        // Record fulfillment event
+        buildEvent: fulfilledOrder => this.eventService.buildOrderFulfilledEvent(
+          fulfilledOrder,
+          fulfillmentData,
+          userId,
+          correlationId,
+          sessionId,
+        ),
+      },
     );
 
     return order;
@@ -698,15 +636,11 @@ export class OrderService {
     };
     order.statusHistory.push(statusChange);
 
-    const updatedOrder = await this.repository.update(orderId, order);
-
-    // Emit return event
-    await this.eventService.emitOrderReturned(
-      updatedOrder,
-      returnData,
-      correlationId,
-      sessionId,
-    );
+    // Record return event with the return
+    const updatedOrder = await this.repository.update(orderId, order, [
+      this.eventService.buildOrderReturnedEvent(order, returnData, correlationId, sessionId),
+    ]);
+    this.outboxRelay?.trigger();
 
     return updatedOrder;
   }
@@ -737,8 +671,18 @@ export class OrderService {
     return getNextStates(order.status);
   }
 
+  /**
+   * Get the health of the order event publisher
+   */
+  getEventPublisherHealth(): EmitterHealth {
+    return this.eventService.getHealth();
+  }
+
   /**
    * Generic state transition method
+   *
+   * The transition, any changes made by `options.apply` and the transition
+   * event are stored in one repository write.
    */
   private async transitionOrderState(
     orderId: string,
@@ -747,6 +691,7 @@ export class OrderService {
     userId: string,
     correlationId?: string,
     sessionId?: string,
+    options: TransitionOptions = {},
   ): Promise<Order> {
     try {
       const order = await this.getOrder(orderId);
@@ -770,20 +715,22 @@ export class OrderService {
         reason,
       };
       order.statusHistory.push(statusChange);
-
-      const updatedOrder = await this.repository.update(orderId, order);
-
-      // Emit appropriate event based on new status
-      switch (newStatus) {
-      case OrderStatus.SUBMITTED:
-        await this.eventService.emitOrderSubmitted(
-          updatedOrder,
-          userId,
-          correlationId,
-          sessionId,
+      options.apply?.(order);
+
+      // Record appropriate event based on new status
+      const events: PendingOrderEvent[] = [];
+      if (options.buildEvent) {
+        events.push(options.buildEvent(order));
+      } else if (newStatus === OrderStatus.SUBMITTED) {
+        events.push(
+          this.eventService.buildOrderSubmittedEvent(order, userId, correlationId, sessionId),
         );
-        break;
-        // Other specific events are handled by their dedicated methods
+      }
+      // Other specific events are built by their dedicated methods
+
+      const updatedOrder = await this.repository.update(orderId, order, events);
+      if (events.length > 0) {
+        this.outboxRelay?.trigger();
       }
 
       logger.info('Order state transition completed', {
@@ -0,0 +1,214 @@
+/**
+ * Outbox Relay Service
+ *
+ * Publishes order events recorded in the repository outbox. Entries are
+ * published in recording order; an entry that fails is retried with backoff
+ * and holds back the later events of the same order, so consumers never see an
+ * order's events out of order. Entries are never dropped: those that keep
+ * failing are reported as stuck for operators.
+ */
+
+import { logger } from '@smile/common';
+import { OrderEventService } from './order-event.service';
+import { OrderRepository } from './order.repository';
+import { OutboxEntry, OutboxStatus } from '../types/order-outbox';
+
+export interface OutboxRelayConfig {
+  /** How often to look for pending entries (ms) */
+  pollInterval: number;
+
+  /** Maximum entries published per pass */
+  batchSize: number;
+
+  /** Delay before the first retry (ms) */
+  initialRetryDelay: number;
+
+  /** Upper bound for the retry delay (ms) */
+  maxRetryDelay: number;
+
+  retryMultiplier: number;
+
+  /** Entries with at least this many failed attempts are reported as stuck */
+  stuckAfterAttempts: number;
+
+  /** Entries pending for longer than this are reported as stuck (ms) */
+  stuckAfterMs: number;
+
+  /** How long sent entries are kept (ms) */
+  sentRetention: number;
+}
+
+export const DEFAULT_OUTBOX_RELAY_CONFIG: OutboxRelayConfig = {
+  pollInterval: 1000,
+  batchSize: 100,
+  initialRetryDelay: 1000,
+  maxRetryDelay: 60000,
+  retryMultiplier: 2,
+  stuckAfterAttempts: 5,
+  stuckAfterMs: 300000,
+  sentRetention: 3600000,
+};
+
+export class OutboxRelayService {
+  private config: OutboxRelayConfig;
+  private timer: NodeJS.Timeout | undefined;
+  private running: Promise<void> | undefined;
+  private rerun = false;
+
+  constructor(
+    private readonly repository: OrderRepository,
+    private readonly eventService: OrderEventService,
+    config: Partial<OutboxRelayConfig> = {},
+  ) {
+    this.config = { ...DEFAULT_OUTBOX_RELAY_CONFIG, ...config };
+  }
+
+  /**
+   * Start polling the outbox
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.trigger(), this.config.pollInterval);
+    this.timer.unref();
+    void this.trigger();
+
+    logger.info('Outbox relay started', {
+      pollInterval: this.config.pollInterval,
+      batchSize: this.config.batchSize,
+    });
+  }
+
+  /**
+   * Stop polling and wait for the current pass
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.rerun = false;
+    await this.running;
+
+    logger.info('Outbox relay stopped');
+  }
+
+  /**
+   * Publish pending entries now
+   *
+   * Passes never overlap; a trigger during a pass runs another pass after it.
+   */
+  trigger(): Promise<void> {
+    if (this.running) {
+      this.rerun = true;
+      return this.running;
+    }
+
+    this.running = this.relay().finally(() => {
+      this.running = undefined;
+      if (this.rerun) {
+        this.rerun = false;
+        void this.trigger();
+      }
+    });
+    return this.running;
+  }
+
+  /**
+   * Get outbox counts and the stuck entries
+   */
+  async getStatus(): Promise<OutboxStatus> {
+    const [pending, sent] = await Promise.all([
+      this.repository.listOutboxEntries('pending'),
+      this.repository.listOutboxEntries('sent'),
+    ]);
+    const oldest = pending[0];
+
+    return {
+      pending: pending.length,
+      sent: sent.length,
+      ...(oldest && { oldestPendingAt: oldest.createdAt }),
+      stuck: pending.filter(entry => this.isStuck(entry, Date.now())),
+    };
+  }
+
+  private async relay(): Promise<void> {
+    try {
+      const entries = await this.repository.findPendingOutboxEntries(this.config.batchSize);
+      const blockedOrders = new Set<string>();
+
+      for (const entry of entries) {
+        if (blockedOrders.has(entry.orderId)) {
+          continue;
+        }
+        if (Date.parse(entry.nextAttemptAt) > Date.now()) {
+          blockedOrders.add(entry.orderId);
+          continue;
+        }
+        if (!(await this.publish(entry))) {
+          blockedOrders.add(entry.orderId);
+        }
+      }
+
+      await this.pruneSentEntries();
+    } catch (error: any) {
+      logger.error('Outbox relay pass failed', { error });
+    }
+  }
+
+  /**
+   * Publish one entry and record the outcome
+   *
+   * @returns Whether the entry was published
+   */
+  private async publish(entry: OutboxEntry): Promise<boolean> {
+    const attemptedAt = new Date();
+
+    try {
+      await this.eventService.publish(entry);
+    } catch (error: any) {
+      const delay = Math.min(
+        this.config.initialRetryDelay * Math.pow(this.config.retryMultiplier, entry.attempts),
+        this.config.maxRetryDelay,
+      );
+      const nextAttemptAt = new Date(attemptedAt.getTime() + delay).toISOString();
+
+      await this.repository.markOutboxEntryFailed(
+        entry.id,
+        error?.message ?? String(error),
+        attemptedAt.toISOString(),
+        nextAttemptAt,
+      );
+
+      const attempts = entry.attempts + 1;
+      const level = attempts >= this.config.stuckAfterAttempts ? 'error' : 'warn';
+      logger[level]('Failed to publish outbox entry, will retry', {
+        outboxEntryId: entry.id,
+        orderId: entry.orderId,
+        eventType: entry.eventType,
+        attempts,
+        nextAttemptAt,
+        error,
+      });
+      return false;
+    }
+
+    await this.repository.markOutboxEntrySent(entry.id, attemptedAt.toISOString());
+    return true;
+  }
+
+  private async pruneSentEntries(): Promise<void> {
+    const before = new Date(Date.now() - this.config.sentRetention).toISOString();
+    const removed = await this.repository.deleteSentOutboxEntries(before);
+    if (removed > 0) {
+      logger.debug('Pruned sent outbox entries', { removed });
+    }
+  }
+
+  private isStuck(entry: OutboxEntry, now: number): boolean {
+    return entry.attempts >= this.config.stuckAfterAttempts
+      || now - Date.parse(entry.createdAt) > this.config.stuckAfterMs;
+  }
+}
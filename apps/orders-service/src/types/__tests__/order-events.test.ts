@@ -0,0 +1,35 @@
+/**
+ * Order Event Priority Tests
+ *
+ * Unit tests for the AMQP priority derived from order events
+ */
+
+import { CloudEventV1 } from 'cloudevents';
+import { resolvePriority } from '@smile/cloud-events';
+import { OrderEventType, ORDER_EVENT_PRIORITY } from '../order-events';
+import { OrderPriority } from '../order-status';
+
+describe('ORDER_EVENT_PRIORITY', () => {
+  const orderEvent = (type: string, priority?: OrderPriority): CloudEventV1<unknown> => ({
+    specversion: '1.0',
+    type,
+    source: 'urn:smile:orders-service',
+    id: 'evt-1',
+    data: { eventData: { orderId: 'order-1', ...(priority && { priority }) } },
+  });
+
+  it('should give every event of an order the same priority', () => {
+    const priorities = [
+      orderEvent(OrderEventType.ORDER_CREATED, OrderPriority.NORMAL),
+      orderEvent(OrderEventType.ORDER_UPDATED, OrderPriority.URGENT),
+      orderEvent(OrderEventType.ORDER_URGENT_REMINDER),
+      orderEvent(OrderEventType.ORDER_SHIPPED),
+    ].map((event) => resolvePriority(event, ORDER_EVENT_PRIORITY));
+
+    expect(new Set(priorities)).toEqual(new Set([5]));
+  });
+
+  it('should fall back to the default priority', () => {
+    expect(resolvePriority(orderEvent('orders.unknown'), ORDER_EVENT_PRIORITY)).toBe(5);
+  });
+});
@@ -5,6 +5,7 @@
  * These events are emitted to RabbitMQ for downstream processing.
  */
 
+import { PriorityConfig } from '@smile/cloud-events';
 import { OrderStatus, OrderType, OrderPriority } from './order-status';
 
 /**
@@ -409,4 +410,15 @@ export const ORDER_EVENT_ROUTING: Record<OrderEventType, OrderEventRouting> = {
     priority: 8,
     deliveryMode: 2,
   },
-};
\ No newline at end of file
+};
+
+/**
+ * AMQP priority of order events. Consumers keep the events of one order in
+ * order, and a priority queue would let a later event of the order overtake
+ * an earlier one, so every order event gets the same priority: the order
+ * priority can change over its lifetime and is not carried by every event.
+ */
+export const ORDER_EVENT_PRIORITY: PriorityConfig = {
+  rules: [],
+  defaultPriority: 5,
+};
@@ -0,0 +1,64 @@
+/**
+ * Order Outbox Types
+ *
+ * Transactional outbox for order events: each CloudEvent is recorded with the
+ * order change that produced it and published afterwards by the outbox relay.
+ */
+
+import { OrderCloudEvent } from './order-events';
+
+/**
+ * Order event built for an order change, not yet published
+ */
+export interface PendingOrderEvent {
+  event: OrderCloudEvent;
+  routingKey?: string;
+}
+
+/**
+ * Outbox entry status
+ * - pending: waiting to be published (or retried)
+ * - sent: published to RabbitMQ
+ */
+export type OutboxEntryStatus = 'pending' | 'sent';
+
+/**
+ * Order event recorded in the outbox
+ */
+export interface OutboxEntry extends PendingOrderEvent {
+  /** Outbox entry ID */
+  id: string;
+
+  /** Recording order; the events of an order are published in this order */
+  sequence: number;
+
+  orderId: string;
+  eventType: string;
+  status: OutboxEntryStatus;
+
+  /** Publish attempts so far */
+  attempts: number;
+
+  createdAt: string;
+
+  /** Earliest time of the next publish attempt */
+  nextAttemptAt: string;
+
+  lastAttemptAt?: string;
+  lastError?: string;
+  sentAt?: string;
+}
+
+/**
+ * Outbox state for operators
+ */
+export interface OutboxStatus {
+  pending: number;
+  sent: number;
+
+  /** Creation time of the oldest pending entry */
+  oldestPendingAt?: string;
+
+  /** Pending entries that failed repeatedly or waited too long, oldest first */
+  stuck: OutboxEntry[];
+}
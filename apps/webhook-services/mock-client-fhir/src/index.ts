@@ -56,6 +56,7 @@ app.post('/orders', (req: Request, res: Response) => {
     authoredOn: serviceRequest.authoredOn,
     requester: serviceRequest.requester?.display,
     containedResources: serviceRequest.contained?.length || 0,
+    traceparent: req.headers.traceparent,
   };
 
   console.log('📊 Summary:', JSON.stringify(summary, null, 2));
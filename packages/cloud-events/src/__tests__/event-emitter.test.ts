@@ -0,0 +1,226 @@
+/**
+ * EventEmitter Unit Tests
+ *
+ * Tests publishing through the in-memory broker with a disk buffer:
+ * - Nacked and unconfirmed publishes are buffered and republished
+ * - Buffered events are flushed in emit order on reconnect
+ * - A full buffer rejects events
+ * - Events buffered before a restart are published on the next start
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CloudEventV1 } from 'cloudevents';
+import { EventEmitter, EventEmitterConfig } from '../event-emitter';
+import { InMemoryBroker } from '../in-memory-broker';
+import {
+  ConfirmMessageChannel,
+  MessageChannel,
+  MessageTransport,
+  TransportConnection,
+} from '../transport';
+
+jest.mock('@smile/common', () => ({
+  ...jest.requireActual('@smile/common'),
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+/** How the next publishes of the emitter fail */
+type PublishFailure = 'nack' | 'no-confirm';
+
+describe('EventEmitter', () => {
+  let broker: InMemoryBroker;
+  let transport: MessageTransport;
+  let failures: PublishFailure[];
+  let directory: string;
+  let emitters: EventEmitter[];
+
+  const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+  const eventually = async (condition: () => boolean | Promise<boolean>): Promise<void> => {
+    for (let attempt = 0; attempt < 200; attempt++) {
+      if (await condition()) {
+        return;
+      }
+      await sleep(5);
+    }
+    throw new Error('Condition not met');
+  };
+
+  const event = (id: string): CloudEventV1<unknown> => ({
+    specversion: '1.0',
+    type: 'order.updated',
+    source: 'urn:smile:test',
+    id,
+    subject: 'order/1',
+    data: { orderId: '1' },
+  });
+
+  const createEmitter = (config: Partial<EventEmitterConfig> = {}): EventEmitter => {
+    const emitter = new EventEmitter({
+      rabbitmqUrl: 'amqp://in-memory',
+      exchange: 'orders.events',
+      reconnect: { initialDelay: 10, maxDelay: 10 },
+      buffer: { path: path.join(directory, 'events.jsonl') },
+      confirmTimeout: 50,
+      transport,
+      ...config,
+    });
+    emitters.push(emitter);
+    return emitter;
+  };
+
+  /** Run on a channel of its own connection, which survives dropped emitter connections */
+  const withChannel = async <T>(run: (channel: MessageChannel) => Promise<T>): Promise<T> => {
+    const connection = await broker.connect();
+    try {
+      return await run(await connection.createChannel());
+    } finally {
+      await connection.close();
+    }
+  };
+
+  /** Ids of the events published so far, in order */
+  const published: string[] = [];
+  const drain = (): Promise<string[]> =>
+    withChannel(async (channel) => {
+      for (let message = await channel.get('audit', { noAck: true }); message;) {
+        published.push(JSON.parse(message.content.toString()).id);
+        message = await channel.get('audit', { noAck: true });
+      }
+      return published;
+    });
+
+  beforeEach(async () => {
+    broker = new InMemoryBroker();
+    failures = [];
+    emitters = [];
+    published.length = 0;
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'event-emitter-'));
+
+    // Fails the next publishes of the emitter as listed in failures
+    transport = {
+      connect: async (): Promise<TransportConnection> => {
+        const connection = await broker.connect();
+        const createConfirmChannel = connection.createConfirmChannel.bind(connection);
+        connection.createConfirmChannel = async (): Promise<ConfirmMessageChannel> => {
+          const confirmChannel = await createConfirmChannel();
+          const publish = confirmChannel.publish.bind(confirmChannel);
+          confirmChannel.publish = (exchange, routingKey, content, options, callback): boolean => {
+            const failure = failures.shift();
+            if (failure === 'nack') {
+              void Promise.resolve().then(() => callback?.(new Error('Nacked'), {}));
+              return true;
+            }
+            if (failure === 'no-confirm') {
+              return true;
+            }
+            return publish(exchange, routingKey, content, options, callback);
+          };
+          return confirmChannel;
+        };
+        return connection;
+      },
+    };
+
+    await withChannel(async (channel) => {
+      await channel.assertExchange('orders.events', 'topic');
+      await channel.assertQueue('audit');
+      await channel.bindQueue('audit', 'orders.events', '#');
+    });
+  });
+
+  afterEach(async () => {
+    for (const emitter of emitters) {
+      await emitter.close();
+    }
+    broker.close();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should buffer a nacked event and republish it', async () => {
+    const emitter = createEmitter();
+    await emitter.connect();
+    failures.push('nack');
+
+    await emitter.emit(event('evt-1'));
+
+    await eventually(async () => (await drain()).length === 1);
+    expect(published).toEqual(['evt-1']);
+    expect(emitter.getHealth().bufferedEvents).toBe(0);
+  });
+
+  it('should buffer an event the broker did not confirm in time', async () => {
+    const emitter = createEmitter();
+    await emitter.connect();
+    failures.push('no-confirm');
+
+    await emitter.emit(event('evt-1'));
+
+    await eventually(async () => (await drain()).length === 1);
+    expect(published).toEqual(['evt-1']);
+  });
+
+  it('should not let a later event overtake a failed publish', async () => {
+    const emitter = createEmitter();
+    await emitter.connect();
+    failures.push('nack');
+
+    await Promise.all([emitter.emit(event('evt-1')), emitter.emit(event('evt-2'))]);
+    await emitter.emit(event('evt-3'));
+
+    await eventually(async () => (await drain()).length === 3);
+    expect(published).toEqual(['evt-1', 'evt-2', 'evt-3']);
+  });
+
+  it('should flush buffered events in emit order on reconnect', async () => {
+    const emitter = createEmitter();
+    await emitter.connect();
+    broker.dropConnections();
+
+    await emitter.emit(event('evt-1'));
+    await emitter.emit(event('evt-2'));
+    await emitter.emit(event('evt-3'));
+    expect(emitter.getHealth()).toMatchObject({ state: 'reconnecting', bufferedEvents: 3 });
+
+    await eventually(async () => (await drain()).length === 3);
+    expect(published).toEqual(['evt-1', 'evt-2', 'evt-3']);
+    expect(emitter.getHealth()).toMatchObject({ state: 'connected', bufferedEvents: 0 });
+  });
+
+  it('should reject events once the buffer is full', async () => {
+    const emitter = createEmitter({
+      buffer: { path: path.join(directory, 'events.jsonl'), maxEvents: 1 },
+      reconnect: { initialDelay: 60000, maxDelay: 60000 },
+    });
+    await emitter.connect();
+    broker.dropConnections();
+
+    await emitter.emit(event('evt-1'));
+
+    await expect(emitter.emit(event('evt-2'))).rejects.toThrow('Event buffer is full');
+    expect(emitter.getHealth().status).toBe('unhealthy');
+  });
+
+  it('should publish events buffered before a restart', async () => {
+    const stopped = createEmitter({ reconnect: { initialDelay: 60000, maxDelay: 60000 } });
+    await stopped.connect();
+    broker.dropConnections();
+    await stopped.emit(event('evt-1'));
+    await stopped.emit(event('evt-2'));
+    await stopped.close();
+
+    const restarted = createEmitter();
+    await restarted.connect();
+
+    await eventually(async () => (await drain()).length === 2);
+    expect(published).toEqual(['evt-1', 'evt-2']);
+    expect(restarted.getHealth().bufferedEvents).toBe(0);
+  });
+});
@@ -1,12 +1,14 @@
 import { CloudEvent } from 'cloudevents';
-import * as amqp from 'amqplib';
-import { logger } from '@smile/common';
+import { logger, withSpan, extractTraceContext, SpanKind } from '@smile/common';
+import { AmqpTransport, MessageTransport } from './transport';
 
 export interface EventConsumerConfig {
   rabbitmqUrl: string;
   exchange: string;
   queue: string;
   routingKey: string;
+  /** Broker transport (AMQP if omitted) */
+  transport?: MessageTransport;
 }
 
 export type EventHandler<T = unknown> = (event: CloudEvent<T>) => Promise<void>;
@@ -19,7 +21,8 @@ export class EventConsumer {
 
   async connect(): Promise<void> {
     try {
-      this.connection = await amqp.connect(this.config.rabbitmqUrl);
+      const transport = this.config.transport ?? new AmqpTransport();
+      this.connection = await transport.connect(this.config.rabbitmqUrl);
       this.channel = await this.connection.createChannel();
 
       if (!this.channel) {
@@ -59,7 +62,22 @@ export class EventConsumer {
           const eventData = JSON.parse(msg.content.toString());
           const cloudEvent = new CloudEvent(eventData);
 
-          await handler(cloudEvent as CloudEvent<T>);
+          // Continue the producer's trace (distributed tracing extension)
+          await withSpan(
+            `${this.config.queue} process`,
+            () => handler(cloudEvent as CloudEvent<T>),
+            {
+              kind: SpanKind.CONSUMER,
+              parent: extractTraceContext(eventData),
+              attributes: {
+                'messaging.system': 'rabbitmq',
+                'messaging.destination.name': this.config.queue,
+                'cloudevents.event_id': cloudEvent.id,
+                'cloudevents.event_type': cloudEvent.type,
+                'cloudevents.event_source': cloudEvent.source,
+              },
+            },
+          );
 
           if (this.channel) {
             this.channel.ack(msg);
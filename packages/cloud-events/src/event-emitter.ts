@@ -1,68 +1,240 @@
 import { CloudEvent, CloudEventV1 } from 'cloudevents';
 import * as amqp from 'amqplib';
-import { logger } from '@smile/common';
+import { logger, createSpan, endSpan, injectTraceContext, SpanKind } from '@smile/common';
+import { PriorityConfig, resolvePriority } from './priority';
+import { BufferedMessage, PublishBuffer } from './publish-buffer';
+import {
+  AmqpTransport,
+  ConfirmMessageChannel,
+  MessageTransport,
+  TransportConnection,
+} from './transport';
+
+/**
+ * CloudEvents AMQP content mode
+ * - structured: the whole event as an application/cloudevents+json body
+ * - binary: attributes in ce-* headers, data as the body with datacontenttype as content type
+ */
+export type CloudEventContentMode = 'structured' | 'binary';
 
 export interface EventEmitterConfig {
   rabbitmqUrl: string;
   exchange: string;
   routingKey?: string;
+  /** Default content mode (structured if omitted) */
+  mode?: CloudEventContentMode;
+  /** Rules deriving the AMQP priority from the event type and payload */
+  priority?: PriorityConfig;
+  /** Backoff between reconnection attempts (1s doubling up to 30s by default) */
+  reconnect?: Partial<ReconnectOptions>;
+  /**
+   * Buffer events on disk while RabbitMQ is unreachable and publish them in order
+   * once reconnected. Without a buffer, emit fails while disconnected.
+   */
+  buffer?: EventBufferOptions;
+  /** Time to wait for the broker to confirm a publish, in milliseconds (default 10000) */
+  confirmTimeout?: number;
+  /** Broker transport (AMQP if omitted); InMemoryBroker runs without RabbitMQ */
+  transport?: MessageTransport;
 }
 
-export class EventEmitter {
-  private connection: any = null;
-  private channel: any = null;
+export interface ReconnectOptions {
+  initialDelay: number;
+  maxDelay: number;
+  backoffMultiplier: number;
+}
 
-  constructor(private readonly config: EventEmitterConfig) {}
+export interface EventBufferOptions {
+  /** JSON-lines file holding unpublished events */
+  path: string;
+  /** Events kept before emit fails (default 10000) */
+  maxEvents?: number;
+}
 
-  async connect(): Promise<void> {
-    try {
-      this.connection = await amqp.connect(this.config.rabbitmqUrl);
-      this.channel = await this.connection.createChannel();
+/**
+ * Emitter connection state
+ * - disconnected: not connected yet
+ * - connected: publishing with broker confirms
+ * - reconnecting: connection lost, events are buffered (or rejected without a buffer)
+ * - closed: closed by the application
+ */
+export type EmitterState = 'disconnected' | 'connected' | 'reconnecting' | 'closed';
 
-      if (!this.channel) {
-        throw new Error('Failed to create channel');
-      }
+export interface EmitterHealth {
+  /**
+   * healthy when connected, degraded while events are buffered, unhealthy when
+   * events are rejected (disconnected without a buffer, buffer full, or closed)
+   */
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  state: EmitterState;
+  /** Events waiting in the disk buffer */
+  bufferedEvents: number;
+  /** Buffer capacity (omitted without a buffer) */
+  bufferCapacity?: number;
+  /** Reconnection attempts since the connection was lost */
+  reconnectAttempts: number;
+  lastConnectedAt?: string;
+  lastError?: string;
+}
 
-      await this.channel.assertExchange(this.config.exchange, 'topic', {
-        durable: true,
-      });
+export interface EmitOptions {
+  /** Content mode for this event (overrides the configured mode) */
+  mode?: CloudEventContentMode;
+  /** AMQP priority for this event (overrides the priority rules) */
+  priority?: number;
+}
+
+interface EncodedMessage {
+  body: Buffer;
+  contentType: string;
+  headers: Record<string, unknown>;
+}
+
+const DEFAULT_RECONNECT: ReconnectOptions = {
+  initialDelay: 1000,
+  maxDelay: 30000,
+  backoffMultiplier: 2,
+};
+const DEFAULT_BUFFER_MAX_EVENTS = 10000;
+const DEFAULT_CONFIRM_TIMEOUT = 10000;
 
-      logger.info('EventEmitter connected to RabbitMQ');
+/** Buffered events published (and confirmed) at a time when flushing */
+const FLUSH_BATCH_SIZE = 100;
+
+/**
+ * Publishes CloudEvents to a topic exchange
+ *
+ * Publishes are confirmed by the broker. A lost connection is re-established
+ * with exponential backoff; meanwhile, and until earlier buffered events are
+ * flushed, events go to the disk buffer if one is configured, so they are
+ * published in emit order.
+ */
+export class EventEmitter {
+  private connection: TransportConnection | null = null;
+  private channel: ConfirmMessageChannel | null = null;
+  private readonly transport: MessageTransport;
+  private readonly buffer: PublishBuffer | null;
+  private readonly reconnectOptions: ReconnectOptions;
+
+  private state: EmitterState = 'disconnected';
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  /** Last message send; with a buffer, each send waits for the previous one */
+  private sending: Promise<unknown> = Promise.resolve();
+  private lastConnectedAt: Date | null = null;
+  private lastError: string | null = null;
+
+  constructor(private readonly config: EventEmitterConfig) {
+    this.reconnectOptions = { ...DEFAULT_RECONNECT, ...config.reconnect };
+    this.transport = config.transport ?? new AmqpTransport();
+    const maxEvents = config.buffer?.maxEvents ?? DEFAULT_BUFFER_MAX_EVENTS;
+    this.buffer = config.buffer ? new PublishBuffer(config.buffer.path, maxEvents) : null;
+  }
+
+  /**
+   * Connect to RabbitMQ
+   *
+   * With a buffer, a failed first connection is retried in the background and
+   * events are buffered meanwhile; without one, the error is thrown.
+   */
+  async connect(): Promise<void> {
+    if (this.buffer) {
+      await this.buffer.open();
+    }
+
+    try {
+      await this.establish();
     } catch (error) {
+      this.lastError = (error as Error).message;
       logger.error('Failed to connect EventEmitter to RabbitMQ', { error });
-      throw error;
+      if (!this.buffer) {
+        throw error;
+      }
+      this.scheduleReconnect();
     }
   }
 
-  async emit(event: CloudEventV1<unknown>, routingKeyOverride?: string): Promise<void> {
-    if (!this.channel) {
+  /**
+   * Get the emitter health
+   */
+  getHealth(): EmitterHealth {
+    let status: EmitterHealth['status'] = 'healthy';
+    if (this.state === 'closed' || (!this.channel && !this.buffer)) {
+      status = 'unhealthy';
+    } else if (this.buffer && this.buffer.size >= this.buffer.capacity) {
+      status = 'unhealthy';
+    } else if (!this.channel || (this.buffer?.size ?? 0) > 0) {
+      status = 'degraded';
+    }
+
+    return {
+      status,
+      state: this.state,
+      bufferedEvents: this.buffer?.size ?? 0,
+      ...(this.buffer && { bufferCapacity: this.buffer.capacity }),
+      reconnectAttempts: this.reconnectAttempts,
+      ...(this.lastConnectedAt && { lastConnectedAt: this.lastConnectedAt.toISOString() }),
+      ...(this.lastError && { lastError: this.lastError }),
+    };
+  }
+
+  async emit(
+    event: CloudEventV1<unknown>,
+    routingKeyOverride?: string,
+    options: EmitOptions = {},
+  ): Promise<void> {
+    if (this.state === 'closed' || (!this.channel && !this.buffer)) {
       throw new Error('EventEmitter not connected');
     }
 
-    try {
-      const cloudEvent = new CloudEvent(event);
-      const message = Buffer.from(JSON.stringify(cloudEvent.toJSON()));
+    const mode = options.mode ?? this.config.mode ?? 'structured';
+    const routingKey = routingKeyOverride ?? this.config.routingKey ?? event.type;
+    const priority =
+      options.priority ??
+      (this.config.priority ? resolvePriority(event, this.config.priority) : undefined);
 
-      const routingKey = routingKeyOverride ?? this.config.routingKey ?? event.type;
+    const span = createSpan(`${this.config.exchange} publish`, {
+      kind: SpanKind.PRODUCER,
+      attributes: {
+        'messaging.system': 'rabbitmq',
+        'messaging.destination.name': this.config.exchange,
+        'messaging.rabbitmq.destination.routing_key': routingKey,
+        'cloudevents.event_id': event.id,
+        'cloudevents.event_type': event.type,
+        'cloudevents.event_source': event.source,
+      },
+    });
 
-      const published = this.channel.publish(
-        this.config.exchange,
+    try {
+      // Distributed tracing extension: consumers continue the trace from the publish span.
+      // Events that already carry a trace context keep it.
+      const cloudEvent = new CloudEvent({ ...injectTraceContext(span), ...event });
+      const encoded =
+        mode === 'binary' ? this.encodeBinary(cloudEvent) : this.encodeStructured(cloudEvent);
+
+      const message: BufferedMessage = {
+        exchange: this.config.exchange,
         routingKey,
-        message,
-        {
+        content: encoded.body.toString('base64'),
+        options: {
           persistent: true,
-          contentType: 'application/json',
-          headers: {
-            'ce-specversion': event.specversion,
-            'ce-type': event.type,
-            'ce-source': event.source,
-            'ce-id': event.id,
-          },
+          contentType: encoded.contentType,
+          messageId: event.id,
+          headers: encoded.headers,
+          ...(priority !== undefined && { priority }),
         },
-      );
+      };
 
-      if (!published) {
-        throw new Error('Failed to publish event');
+      if (!(await this.send(message))) {
+        logger.warn('Event buffered until RabbitMQ is reachable', {
+          type: event.type,
+          id: event.id,
+          routingKey,
+          bufferedEvents: this.buffer?.size,
+        });
+        endSpan(span);
+        return;
       }
 
       logger.info('Event emitted successfully', {
@@ -70,22 +242,318 @@ export class EventEmitter {
         id: event.id,
         source: event.source,
         routingKey,
+        mode,
+        priority,
       });
+      endSpan(span);
     } catch (error) {
       logger.error('Failed to emit event', { error, event });
+      endSpan(span, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Publish a message, or buffer it while disconnected or behind buffered events
+   *
+   * With a buffer, messages are sent one at a time in emit order: a message
+   * whose publish fails is buffered before the next one is sent, so no later
+   * message reaches the broker ahead of it.
+   *
+   * @returns Whether the message was published (false if buffered)
+   * @throws Error if the message was neither published nor buffered
+   */
+  private send(message: BufferedMessage): Promise<boolean> {
+    if (!this.buffer) {
+      return this.sendNow(message);
+    }
+
+    const result = this.sending.then(() => this.sendNow(message));
+    this.sending = result.catch(() => undefined);
+    return result;
+  }
+
+  private async sendNow(message: BufferedMessage): Promise<boolean> {
+    const channel = this.channel;
+
+    if (this.buffer && (!channel || this.buffer.size > 0)) {
+      await this.buffer.push(message);
+      this.startFlush();
+      return false;
+    }
+    if (!channel) {
+      throw new Error('EventEmitter not connected');
+    }
+
+    try {
+      await this.publish(channel, message);
+      return true;
+    } catch (error) {
+      if (!this.buffer) {
+        throw error;
+      }
+      logger.warn('Publish failed, buffering event', { error: (error as Error).message });
+      await this.buffer.push(message);
+      this.startFlush();
+      return false;
+    }
+  }
+
+  /**
+   * Publish a message and wait for the broker confirm
+   */
+  private publish(channel: ConfirmMessageChannel, message: BufferedMessage): Promise<void> {
+    const timeout = this.config.confirmTimeout ?? DEFAULT_CONFIRM_TIMEOUT;
+
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error(`Publish not confirmed within ${timeout}ms`)),
+        timeout,
+      );
+
+      try {
+        channel.publish(
+          message.exchange,
+          message.routingKey,
+          Buffer.from(message.content, 'base64'),
+          message.options as amqp.Options.Publish,
+          (error) => {
+            clearTimeout(timer);
+            if (error) {
+              reject(error instanceof Error ? error : new Error('Publish rejected by the broker'));
+            } else {
+              resolve();
+            }
+          },
+        );
+      } catch (error) {
+        clearTimeout(timer);
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Open a connection and confirm channel, then flush buffered events
+   */
+  private async establish(): Promise<void> {
+    const connection = await this.transport.connect(this.config.rabbitmqUrl);
+
+    let channel: ConfirmMessageChannel;
+    try {
+      channel = await connection.createConfirmChannel();
+      await channel.assertExchange(this.config.exchange, 'topic', {
+        durable: true,
+      });
+    } catch (error) {
+      await connection.close().catch(() => undefined);
       throw error;
     }
+
+    // An error event is always followed by close, which triggers the reconnect
+    connection.on('error', (error: Error) => {
+      this.lastError = error.message;
+      logger.warn('EventEmitter connection error', { error: error.message });
+    });
+    connection.on('close', () => this.handleDisconnect(connection));
+    channel.on('error', (error: Error) => {
+      this.lastError = error.message;
+      logger.warn('EventEmitter channel error', { error: error.message });
+    });
+    channel.on('close', () => this.handleDisconnect(connection));
+
+    if (this.state === 'closed') {
+      await connection.close().catch(() => undefined);
+      return;
+    }
+
+    this.connection = connection;
+    this.channel = channel;
+    this.state = 'connected';
+    this.reconnectAttempts = 0;
+    this.lastConnectedAt = new Date();
+
+    logger.info('EventEmitter connected to RabbitMQ', {
+      bufferedEvents: this.buffer?.size ?? 0,
+    });
+    this.startFlush();
+  }
+
+  /**
+   * Drop a lost connection and schedule a reconnect
+   */
+  private handleDisconnect(connection: TransportConnection): void {
+    if (this.connection !== connection) {
+      return;
+    }
+
+    this.connection = null;
+    this.channel = null;
+    connection.close().catch(() => undefined);
+
+    logger.warn('EventEmitter lost its RabbitMQ connection', {
+      bufferedEvents: this.buffer?.size ?? 0,
+    });
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Schedule a reconnection attempt with exponential backoff
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || this.state === 'closed') {
+      return;
+    }
+
+    const { initialDelay, maxDelay, backoffMultiplier } = this.reconnectOptions;
+    this.state = 'reconnecting';
+    this.reconnectAttempts++;
+    const delay = Math.min(
+      initialDelay * Math.pow(backoffMultiplier, this.reconnectAttempts - 1),
+      maxDelay,
+    );
+
+    logger.info('Scheduling EventEmitter reconnection', {
+      attempt: this.reconnectAttempts,
+      delay,
+    });
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      try {
+        await this.establish();
+      } catch (error) {
+        this.lastError = (error as Error).message;
+        logger.warn('EventEmitter reconnection failed', {
+          attempt: this.reconnectAttempts,
+          error: this.lastError,
+        });
+        this.scheduleReconnect();
+      }
+    }, delay);
   }
 
+  /**
+   * Flush buffered events in the background (once at a time)
+   */
+  private startFlush(): void {
+    if (this.flushing || !this.channel || !this.buffer || this.buffer.size === 0) {
+      return;
+    }
+
+    this.flushing = this.flushBuffer(this.buffer)
+      .catch((error) => {
+        logger.error('Failed to flush buffered events', { error: (error as Error).message });
+      })
+      .finally(() => {
+        this.flushing = null;
+      });
+  }
+
+  /**
+   * Publish buffered events in order, removing each batch once confirmed
+   *
+   * Stops at the first failed publish; the rest waits for the next connection.
+   */
+  private async flushBuffer(buffer: PublishBuffer): Promise<void> {
+    logger.info('Publishing buffered events', { count: buffer.size });
+    let published = 0;
+
+    while (buffer.size > 0 && this.channel) {
+      const channel = this.channel;
+      const batch = buffer.peek(FLUSH_BATCH_SIZE);
+
+      try {
+        // A channel delivers in publish order, so the batch is confirmed together
+        await Promise.all(batch.map((message) => this.publish(channel, message)));
+      } catch (error) {
+        this.lastError = (error as Error).message;
+        logger.warn('Failed to publish buffered events', {
+          error: this.lastError,
+          published,
+          remaining: buffer.size,
+        });
+        return;
+      }
+
+      await buffer.remove(batch.length);
+      published += batch.length;
+    }
+
+    logger.info('Buffered events published', { published, remaining: buffer.size });
+  }
+
+  private encodeStructured(cloudEvent: CloudEvent<unknown>): EncodedMessage {
+    return {
+      body: Buffer.from(JSON.stringify(cloudEvent.toJSON())),
+      contentType: 'application/cloudevents+json',
+      // Core attributes are also sent as headers for header-based routing
+      headers: {
+        'ce-specversion': cloudEvent.specversion,
+        'ce-type': cloudEvent.type,
+        'ce-source': cloudEvent.source,
+        'ce-id': cloudEvent.id,
+      },
+    };
+  }
+
+  private encodeBinary(cloudEvent: CloudEvent<unknown>): EncodedMessage {
+    const { data, data_base64: dataBase64, datacontenttype, ...attributes } =
+      cloudEvent.toJSON() as Record<string, unknown>;
+
+    const headers: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(attributes)) {
+      if (value !== undefined && value !== null) {
+        headers[`ce-${name}`] = value instanceof Date ? value.toISOString() : String(value);
+      }
+    }
+
+    let body: Buffer;
+    if (typeof dataBase64 === 'string') {
+      body = Buffer.from(dataBase64, 'base64');
+    } else if (data === undefined || data === null) {
+      body = Buffer.alloc(0);
+    } else if (Buffer.isBuffer(data) || data instanceof Uint8Array) {
+      body = Buffer.from(data);
+    } else if (typeof data === 'string') {
+      body = Buffer.from(data);
+    } else {
+      body = Buffer.from(JSON.stringify(data));
+    }
+
+    return {
+      body,
+      contentType: typeof datacontenttype === 'string' ? datacontenttype : 'application/json',
+      headers,
+    };
+  }
+
+  /**
+   * Close the connection; buffered events stay on disk for the next start
+   */
   async close(): Promise<void> {
+    this.state = 'closed';
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
     try {
-      if (this.channel) {
-        await this.channel.close();
+      await this.flushing;
+
+      const { connection, channel } = this;
+      this.connection = null;
+      this.channel = null;
+      if (channel) {
+        await channel.close();
       }
-      if (this.connection) {
-        await this.connection.close();
+      if (connection) {
+        await connection.close();
       }
-      logger.info('EventEmitter disconnected from RabbitMQ');
+      await this.buffer?.close();
+      logger.info('EventEmitter disconnected from RabbitMQ', {
+        bufferedEvents: this.buffer?.size ?? 0,
+      });
     } catch (error) {
       logger.error('Error closing EventEmitter connection', { error });
     }
@@ -0,0 +1,887 @@
+import { EventEmitter as NodeEventEmitter } from 'events';
+import * as amqp from 'amqplib';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ConfirmMessageChannel,
+  MessageChannel,
+  MessageTransport,
+  TransportConnection,
+} from './transport';
+
+type ExchangeType = 'direct' | 'topic' | 'fanout' | 'headers';
+
+const EXCHANGE_TYPES: ExchangeType[] = ['direct', 'topic', 'fanout', 'headers'];
+
+interface Binding {
+  queue: string;
+  pattern: string;
+  args: Record<string, unknown>;
+}
+
+interface Exchange {
+  name: string;
+  type: ExchangeType;
+  bindings: Binding[];
+}
+
+interface StoredMessage {
+  content: Buffer;
+  exchange: string;
+  routingKey: string;
+  properties: amqp.MessageProperties;
+  redelivered: boolean;
+  /** When the message expires (per-queue or per-message TTL) */
+  expiresAt?: number;
+}
+
+interface Queue {
+  name: string;
+  messageTtl?: number;
+  deadLetterExchange?: string;
+  deadLetterRoutingKey?: string;
+  maxLength?: number;
+  maxPriority?: number;
+  autoDelete: boolean;
+  ready: StoredMessage[];
+  consumers: Consumer[];
+  /** Round-robin position among the consumers */
+  nextConsumer: number;
+}
+
+interface Consumer {
+  tag: string;
+  queue: Queue;
+  channel: InMemoryChannel;
+  onMessage: (message: amqp.ConsumeMessage | null) => void;
+  noAck: boolean;
+  /** Unacknowledged deliveries allowed (0 = unlimited) */
+  prefetch: number;
+  unacked: number;
+}
+
+interface Delivery {
+  message: StoredMessage;
+  queue: Queue;
+  consumer?: Consumer;
+}
+
+/**
+ * Queue depth of an in-memory queue
+ */
+export interface InMemoryQueueStats {
+  /** Messages waiting for delivery */
+  messageCount: number;
+  /** Messages delivered but not yet acked or nacked */
+  unacknowledgedCount: number;
+  consumerCount: number;
+}
+
+/**
+ * Error closing a channel, shaped like an amqplib server channel close
+ */
+class ChannelError extends Error {
+  constructor(
+    readonly code: number,
+    text: string,
+    detail: string,
+  ) {
+    super(
+      `Channel closed by server: ${code} (${text}) ` +
+        `with message "${text.replace('-', '_')} - ${detail}"`,
+    );
+  }
+}
+
+const notFound = (detail: string): ChannelError => new ChannelError(404, 'NOT-FOUND', detail);
+const preconditionFailed = (detail: string): ChannelError =>
+  new ChannelError(406, 'PRECONDITION-FAILED', detail);
+
+/**
+ * Whether a topic routing key matches a binding pattern
+ * (* matches one word, # matches zero or more)
+ */
+function matchesTopic(pattern: string[], words: string[]): boolean {
+  const [head, ...rest] = pattern;
+  if (head === undefined) {
+    return words.length === 0;
+  }
+  if (head === '#') {
+    return words.some((_, index) => matchesTopic(rest, words.slice(index))) ||
+      matchesTopic(rest, []);
+  }
+  if (words.length === 0) {
+    return false;
+  }
+  return (head === '*' || head === words[0]) && matchesTopic(rest, words.slice(1));
+}
+
+/**
+ * Whether message headers match a headers exchange binding (x-match all or any)
+ */
+function matchesHeaders(args: Record<string, unknown>, headers: Record<string, unknown>): boolean {
+  const required = Object.entries(args).filter(([name]) => !name.startsWith('x-'));
+  const matches = ([name, value]: [string, unknown]): boolean => headers[name] === value;
+  return args['x-match'] === 'any' ? required.some(matches) : required.every(matches);
+}
+
+function toProperties(options: amqp.Options.Publish = {}): amqp.MessageProperties {
+  let deliveryMode: number | undefined;
+  if (typeof options.deliveryMode === 'number') {
+    deliveryMode = options.deliveryMode;
+  } else if (options.deliveryMode !== undefined || options.persistent !== undefined) {
+    deliveryMode = options.deliveryMode || options.persistent ? 2 : 1;
+  }
+
+  return {
+    contentType: options.contentType,
+    contentEncoding: options.contentEncoding,
+    headers: { ...options.headers },
+    deliveryMode,
+    priority: options.priority,
+    correlationId: options.correlationId,
+    replyTo: options.replyTo,
+    expiration: options.expiration === undefined ? undefined : String(options.expiration),
+    messageId: options.messageId,
+    timestamp: options.timestamp,
+    type: options.type,
+    userId: options.userId,
+    appId: options.appId,
+    clusterId: undefined,
+  };
+}
+
+/**
+ * Exchanges, queues and deliveries shared by all connections of a broker
+ */
+class BrokerState {
+  readonly exchanges = new Map<string, Exchange>();
+  readonly queues = new Map<string, Queue>();
+  readonly connections = new Set<InMemoryConnection>();
+  private readonly scheduled = new Set<Queue>();
+  private readonly timers = new Set<NodeJS.Timeout>();
+
+  assertExchange(name: string, type: string): void {
+    const existing = this.exchanges.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw preconditionFailed(
+          `inequivalent arg 'type' for exchange '${name}': ` +
+            `received '${type}' but current is '${existing.type}'`,
+        );
+      }
+      return;
+    }
+    if (!EXCHANGE_TYPES.includes(type as ExchangeType)) {
+      throw new ChannelError(503, 'COMMAND-INVALID', `unknown exchange type '${type}'`);
+    }
+    this.exchanges.set(name, { name, type: type as ExchangeType, bindings: [] });
+  }
+
+  assertQueue(name: string, options: amqp.Options.AssertQueue = {}): Queue {
+    const existing = this.queues.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    const args: Record<string, unknown> = options.arguments ?? {};
+    const setting = <T>(value: T | undefined, argument: string): T | undefined =>
+      value ?? (args[argument] as T | undefined);
+
+    const queue: Queue = {
+      name,
+      autoDelete: options.autoDelete ?? false,
+      ready: [],
+      consumers: [],
+      nextConsumer: 0,
+    };
+    const settings = {
+      messageTtl: setting(options.messageTtl, 'x-message-ttl'),
+      deadLetterExchange: setting(options.deadLetterExchange, 'x-dead-letter-exchange'),
+      deadLetterRoutingKey: setting(options.deadLetterRoutingKey, 'x-dead-letter-routing-key'),
+      maxLength: setting(options.maxLength, 'x-max-length'),
+      maxPriority: setting(options.maxPriority, 'x-max-priority'),
+    };
+    for (const [key, value] of Object.entries(settings)) {
+      if (value !== undefined) {
+        Object.assign(queue, { [key]: value });
+      }
+    }
+
+    this.queues.set(name, queue);
+    return queue;
+  }
+
+  getQueue(name: string): Queue {
+    const queue = this.queues.get(name);
+    if (!queue) {
+      throw notFound(`no queue '${name}' in vhost '/'`);
+    }
+    return queue;
+  }
+
+  bindQueue(queueName: string, exchangeName: string, pattern: string, args: unknown): void {
+    this.getQueue(queueName);
+    const exchange = this.exchanges.get(exchangeName);
+    if (!exchange) {
+      throw notFound(`no exchange '${exchangeName}' in vhost '/'`);
+    }
+
+    const duplicate = exchange.bindings.some(
+      (binding) => binding.queue === queueName && binding.pattern === pattern,
+    );
+    if (!duplicate) {
+      exchange.bindings.push({
+        queue: queueName,
+        pattern,
+        args: (args as Record<string, unknown>) ?? {},
+      });
+    }
+  }
+
+  deleteQueue(queue: Queue): void {
+    this.queues.delete(queue.name);
+    for (const exchange of this.exchanges.values()) {
+      exchange.bindings = exchange.bindings.filter((binding) => binding.queue !== queue.name);
+    }
+  }
+
+  /**
+   * Route a message to the queues bound to an exchange
+   *
+   * @returns Number of queues the message was routed to
+   */
+  route(exchangeName: string, message: StoredMessage): number {
+    const queues = new Set<Queue>();
+
+    if (exchangeName === '') {
+      const queue = this.queues.get(message.routingKey);
+      if (queue) {
+        queues.add(queue);
+      }
+    } else {
+      const exchange = this.exchanges.get(exchangeName);
+      if (!exchange) {
+        throw notFound(`no exchange '${exchangeName}' in vhost '/'`);
+      }
+      for (const binding of exchange.bindings) {
+        const queue = this.queues.get(binding.queue);
+        if (queue && this.matches(exchange, binding, message)) {
+          queues.add(queue);
+        }
+      }
+    }
+
+    for (const queue of queues) {
+      this.enqueue(queue, {
+        ...message,
+        properties: { ...message.properties, headers: { ...message.properties.headers } },
+      });
+    }
+    return queues.size;
+  }
+
+  /**
+   * Return a delivered message to the head of its queue
+   */
+  requeue(queue: Queue, message: StoredMessage): void {
+    if (!this.queues.has(queue.name)) {
+      return;
+    }
+    message.redelivered = true;
+    const priority = this.priority(queue, message);
+    const index = queue.maxPriority === undefined
+      ? 0
+      : queue.ready.findIndex((other) => this.priority(queue, other) <= priority);
+    queue.ready.splice(index === -1 ? queue.ready.length : index, 0, message);
+    this.schedule(queue);
+  }
+
+  /**
+   * Republish a message to the queue's dead-letter exchange (dropped without one)
+   */
+  deadLetter(queue: Queue, message: StoredMessage, reason: amqp.XDeath['reason']): void {
+    if (queue.deadLetterExchange === undefined) {
+      return;
+    }
+
+    const headers: amqp.MessagePropertyHeaders = { ...message.properties.headers };
+    const deaths = [...(headers['x-death'] ?? [])];
+    const index = deaths.findIndex(
+      (death) => death.queue === queue.name && death.reason === reason,
+    );
+    const previous = index === -1 ? undefined : deaths.splice(index, 1)[0];
+
+    deaths.unshift({
+      count: (previous?.count ?? 0) + 1,
+      reason,
+      queue: queue.name,
+      time: { '!': 'timestamp', value: Math.floor(Date.now() / 1000) },
+      exchange: message.exchange,
+      'routing-keys': [message.routingKey],
+    });
+    headers['x-death'] = deaths;
+    if (headers['x-first-death-reason'] === undefined) {
+      headers['x-first-death-reason'] = reason;
+      headers['x-first-death-queue'] = queue.name;
+      headers['x-first-death-exchange'] = message.exchange;
+    }
+
+    // The per-message TTL is removed so the message does not expire again
+    const routingKey = queue.deadLetterRoutingKey ?? message.routingKey;
+    const deadLettered: StoredMessage = {
+      content: message.content,
+      exchange: queue.deadLetterExchange,
+      routingKey,
+      properties: { ...message.properties, headers, expiration: undefined },
+      redelivered: false,
+    };
+
+    if (this.exchanges.has(queue.deadLetterExchange) || queue.deadLetterExchange === '') {
+      this.route(queue.deadLetterExchange, deadLettered);
+    }
+  }
+
+  /**
+   * Take the next unexpired message from a queue
+   */
+  take(queue: Queue): StoredMessage | undefined {
+    this.expire(queue);
+    return queue.ready.shift();
+  }
+
+  /**
+   * Deliver ready messages on the next microtask
+   */
+  schedule(queue: Queue): void {
+    if (this.scheduled.has(queue)) {
+      return;
+    }
+    this.scheduled.add(queue);
+    void Promise.resolve().then(() => {
+      this.scheduled.delete(queue);
+      this.dispatch(queue);
+    });
+  }
+
+  close(): void {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  private matches(exchange: Exchange, binding: Binding, message: StoredMessage): boolean {
+    const matchers: Record<ExchangeType, () => boolean> = {
+      direct: () => binding.pattern === message.routingKey,
+      fanout: () => true,
+      topic: () => matchesTopic(binding.pattern.split('.'), message.routingKey.split('.')),
+      headers: () => matchesHeaders(binding.args, message.properties.headers ?? {}),
+    };
+    return matchers[exchange.type]();
+  }
+
+  private enqueue(queue: Queue, message: StoredMessage): void {
+    const expiration = message.properties.expiration === undefined
+      ? undefined
+      : Number(message.properties.expiration);
+    const ttls = [queue.messageTtl, expiration].filter((ttl): ttl is number => ttl !== undefined);
+    if (ttls.length > 0) {
+      const ttl = Math.min(...ttls);
+      message.expiresAt = Date.now() + ttl;
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        this.expire(queue);
+      }, ttl);
+      timer.unref();
+      this.timers.add(timer);
+    }
+
+    if (queue.maxPriority === undefined) {
+      queue.ready.push(message);
+    } else {
+      const index = queue.ready.findIndex(
+        (other) => this.priority(queue, other) < this.priority(queue, message),
+      );
+      queue.ready.splice(index === -1 ? queue.ready.length : index, 0, message);
+    }
+
+    // Overflow drops (dead-letters) the oldest messages
+    while (queue.maxLength !== undefined && queue.ready.length > queue.maxLength) {
+      const dropped = queue.ready.shift();
+      if (dropped) {
+        this.deadLetter(queue, dropped, 'maxlen');
+      }
+    }
+
+    this.schedule(queue);
+  }
+
+  private expire(queue: Queue): void {
+    const now = Date.now();
+    const expired = queue.ready.filter(
+      (message) => message.expiresAt !== undefined && message.expiresAt <= now,
+    );
+    if (expired.length === 0) {
+      return;
+    }
+
+    queue.ready = queue.ready.filter((message) => !expired.includes(message));
+    for (const message of expired) {
+      this.deadLetter(queue, message, 'expired');
+    }
+  }
+
+  private priority(queue: Queue, message: StoredMessage): number {
+    return Math.min(message.properties.priority ?? 0, queue.maxPriority ?? 0);
+  }
+
+  /**
+   * Deliver ready messages round-robin to consumers with prefetch capacity
+   */
+  private dispatch(queue: Queue): void {
+    this.expire(queue);
+
+    while (queue.ready.length > 0) {
+      const consumer = this.nextConsumer(queue);
+      const message = consumer && queue.ready.shift();
+      if (!consumer || !message) {
+        return;
+      }
+      consumer.channel.deliver(consumer, { message, queue, consumer });
+    }
+  }
+
+  private nextConsumer(queue: Queue): Consumer | undefined {
+    const count = queue.consumers.length;
+    for (let offset = 0; offset < count; offset++) {
+      const index = (queue.nextConsumer + offset) % count;
+      const consumer = queue.consumers[index];
+      if (consumer && consumer.channel.canDeliver(consumer)) {
+        queue.nextConsumer = (index + 1) % count;
+        return consumer;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Channel on an in-memory broker
+ */
+class InMemoryChannel extends NodeEventEmitter implements ConfirmMessageChannel {
+  private readonly unacked = new Map<number, Delivery>();
+  private readonly consumers = new Map<string, Consumer>();
+  private deliveryTag = 0;
+  private prefetchCount = 0;
+  private globalPrefetch = 0;
+  private closed = false;
+
+  constructor(
+    private readonly state: BrokerState,
+    private readonly onClose: (channel: InMemoryChannel) => void,
+  ) {
+    super();
+  }
+
+  async assertExchange(exchange: string, type: string): Promise<amqp.Replies.AssertExchange> {
+    this.operation(() => this.state.assertExchange(exchange, type));
+    return { exchange };
+  }
+
+  async assertQueue(
+    queue: string,
+    options?: amqp.Options.AssertQueue,
+  ): Promise<amqp.Replies.AssertQueue> {
+    const name = queue === '' ? `amq.gen-${uuidv4()}` : queue;
+    return this.operation(() => this.queueReply(this.state.assertQueue(name, options)));
+  }
+
+  async checkQueue(queue: string): Promise<amqp.Replies.AssertQueue> {
+    return this.operation(() => this.queueReply(this.state.getQueue(queue)));
+  }
+
+  async bindQueue(
+    queue: string,
+    source: string,
+    pattern: string,
+    args?: unknown,
+  ): Promise<amqp.Replies.Empty> {
+    this.operation(() => this.state.bindQueue(queue, source, pattern, args));
+    return {};
+  }
+
+  async prefetch(count: number, global?: boolean): Promise<amqp.Replies.Empty> {
+    this.ensureOpen();
+    if (global) {
+      this.globalPrefetch = count;
+    } else {
+      this.prefetchCount = count;
+    }
+    return {};
+  }
+
+  async consume(
+    queue: string,
+    onMessage: (message: amqp.ConsumeMessage | null) => void,
+    options: amqp.Options.Consume = {},
+  ): Promise<amqp.Replies.Consume> {
+    return this.operation(() => {
+      const target = this.state.getQueue(queue);
+      const consumer: Consumer = {
+        tag: options.consumerTag ?? `amq.ctag-${uuidv4()}`,
+        queue: target,
+        channel: this,
+        onMessage,
+        noAck: options.noAck ?? false,
+        prefetch: this.prefetchCount,
+        unacked: 0,
+      };
+      this.consumers.set(consumer.tag, consumer);
+      target.consumers.push(consumer);
+      this.state.schedule(target);
+      return { consumerTag: consumer.tag };
+    });
+  }
+
+  async cancel(consumerTag: string): Promise<amqp.Replies.Empty> {
+    this.ensureOpen();
+    const consumer = this.consumers.get(consumerTag);
+    if (consumer) {
+      this.removeConsumer(consumer);
+    }
+    return {};
+  }
+
+  async get(queue: string, options: amqp.Options.Get = {}): Promise<amqp.GetMessage | false> {
+    return this.operation(() => {
+      const source = this.state.getQueue(queue);
+      const message = this.state.take(source);
+      if (!message) {
+        return false;
+      }
+
+      const deliveryTag = ++this.deliveryTag;
+      if (!options.noAck) {
+        this.unacked.set(deliveryTag, { message, queue: source });
+      }
+      return {
+        content: message.content,
+        fields: {
+          deliveryTag,
+          redelivered: message.redelivered,
+          exchange: message.exchange,
+          routingKey: message.routingKey,
+          messageCount: source.ready.length,
+        },
+        properties: message.properties,
+      };
+    });
+  }
+
+  ack(message: amqp.Message, allUpTo?: boolean): void {
+    for (const delivery of this.settle(message, allUpTo)) {
+      this.state.schedule(delivery.queue);
+    }
+  }
+
+  nack(message: amqp.Message, allUpTo?: boolean, requeue = true): void {
+    for (const delivery of this.settle(message, allUpTo)) {
+      if (requeue) {
+        this.state.requeue(delivery.queue, delivery.message);
+      } else {
+        this.state.deadLetter(delivery.queue, delivery.message, 'rejected');
+        this.state.schedule(delivery.queue);
+      }
+    }
+  }
+
+  publish(
+    exchange: string,
+    routingKey: string,
+    content: Buffer,
+    options?: amqp.Options.Publish,
+    callback?: (err: any, ok: amqp.Replies.Empty) => void,
+  ): boolean {
+    this.ensureOpen();
+    const message: StoredMessage = {
+      content: Buffer.from(content),
+      exchange,
+      routingKey,
+      properties: toProperties(options),
+      redelivered: false,
+    };
+
+    // Like RabbitMQ, a publish to a missing exchange closes the channel asynchronously
+    let error: ChannelError | undefined;
+    try {
+      this.state.route(exchange, message);
+    } catch (routeError) {
+      error = routeError as ChannelError;
+    }
+
+    void Promise.resolve().then(() => {
+      if (error) {
+        this.fail(error);
+      }
+      callback?.(error ?? null, {});
+    });
+    return true;
+  }
+
+  sendToQueue(
+    queue: string,
+    content: Buffer,
+    options?: amqp.Options.Publish,
+    callback?: (err: any, ok: amqp.Replies.Empty) => void,
+  ): boolean {
+    return this.publish('', queue, content, options, callback);
+  }
+
+  async waitForConfirms(): Promise<void> {
+    this.ensureOpen();
+  }
+
+  async close(): Promise<void> {
+    this.ensureOpen();
+    this.shutdown();
+  }
+
+  /**
+   * Whether a consumer may receive another message under its prefetch limits
+   */
+  canDeliver(consumer: Consumer): boolean {
+    if (this.closed) {
+      return false;
+    }
+    if (consumer.noAck) {
+      return true;
+    }
+    return (consumer.prefetch === 0 || consumer.unacked < consumer.prefetch) &&
+      (this.globalPrefetch === 0 || this.unacked.size < this.globalPrefetch);
+  }
+
+  deliver(consumer: Consumer, delivery: Delivery): void {
+    const deliveryTag = ++this.deliveryTag;
+    if (!consumer.noAck) {
+      this.unacked.set(deliveryTag, delivery);
+      consumer.unacked++;
+    }
+
+    const { message } = delivery;
+    consumer.onMessage({
+      content: message.content,
+      fields: {
+        deliveryTag,
+        redelivered: message.redelivered,
+        exchange: message.exchange,
+        routingKey: message.routingKey,
+        consumerTag: consumer.tag,
+      },
+      properties: message.properties,
+    });
+  }
+
+  /**
+   * Close the channel; unacknowledged messages return to their queues
+   */
+  shutdown(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    for (const consumer of [...this.consumers.values()]) {
+      this.removeConsumer(consumer);
+    }
+    // Requeued last-delivered first, so they return to the head in delivery order
+    const deliveries = [...this.unacked.values()].reverse();
+    this.unacked.clear();
+    for (const delivery of deliveries) {
+      this.state.requeue(delivery.queue, delivery.message);
+    }
+
+    this.onClose(this);
+    this.emit('close');
+  }
+
+  private settle(message: amqp.Message, allUpTo = false): Delivery[] {
+    this.ensureOpen();
+    const { deliveryTag } = message.fields;
+    if (!this.unacked.has(deliveryTag)) {
+      this.fail(preconditionFailed(`unknown delivery tag ${deliveryTag}`));
+      return [];
+    }
+
+    const tags = allUpTo
+      ? [...this.unacked.keys()].filter((tag) => tag <= deliveryTag)
+      : [deliveryTag];
+    return tags.map((tag) => {
+      const delivery = this.unacked.get(tag)!;
+      this.unacked.delete(tag);
+      if (delivery.consumer) {
+        delivery.consumer.unacked--;
+      }
+      return delivery;
+    });
+  }
+
+  private removeConsumer(consumer: Consumer): void {
+    this.consumers.delete(consumer.tag);
+    const { queue } = consumer;
+    queue.consumers = queue.consumers.filter((other) => other !== consumer);
+    if (queue.autoDelete && queue.consumers.length === 0) {
+      this.state.deleteQueue(queue);
+    }
+  }
+
+  private queueReply(queue: Queue): amqp.Replies.AssertQueue {
+    return {
+      queue: queue.name,
+      messageCount: queue.ready.length,
+      consumerCount: queue.consumers.length,
+    };
+  }
+
+  /**
+   * Run a broker operation; a channel error closes the channel and rejects it
+   */
+  private operation<T>(run: () => T): T {
+    this.ensureOpen();
+    try {
+      return run();
+    } catch (error) {
+      if (error instanceof ChannelError) {
+        this.fail(error);
+      }
+      throw error;
+    }
+  }
+
+  private fail(error: ChannelError): void {
+    if (this.closed) {
+      return;
+    }
+    this.emit('error', error);
+    this.shutdown();
+  }
+
+  private ensureOpen(): void {
+    if (this.closed) {
+      throw new Error('Channel closed');
+    }
+  }
+}
+
+/**
+ * Connection to an in-memory broker
+ */
+class InMemoryConnection extends NodeEventEmitter implements TransportConnection {
+  private readonly channels = new Set<InMemoryChannel>();
+  private closed = false;
+
+  constructor(private readonly state: BrokerState) {
+    super();
+  }
+
+  async createChannel(): Promise<MessageChannel> {
+    return this.openChannel();
+  }
+
+  async createConfirmChannel(): Promise<ConfirmMessageChannel> {
+    return this.openChannel();
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      throw new Error('Connection closed');
+    }
+    this.shutdown();
+  }
+
+  /**
+   * Close the connection and its channels, reporting an error if given
+   */
+  shutdown(error?: Error): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.state.connections.delete(this);
+
+    for (const channel of [...this.channels]) {
+      channel.shutdown();
+    }
+    if (error) {
+      this.emit('error', error);
+    }
+    this.emit('close', error);
+  }
+
+  private openChannel(): InMemoryChannel {
+    if (this.closed) {
+      throw new Error('Connection closed');
+    }
+    const channel = new InMemoryChannel(this.state, (closed) => this.channels.delete(closed));
+    this.channels.add(channel);
+    return channel;
+  }
+}
+
+/**
+ * In-process message broker with RabbitMQ semantics
+ *
+ * Runs the messaging pipeline without RabbitMQ, for tests and local demos:
+ * direct, topic (* and # wildcards), fanout and headers exchanges, acks and
+ * nacks with requeue, per-consumer and global prefetch, priority queues, and
+ * dead-lettering of rejected, expired (queue or message TTL) and overflowing
+ * (max length) messages with x-death headers. Channel errors (missing queue or
+ * exchange, unknown delivery tag) close the channel like RabbitMQ does.
+ *
+ * Every connection of a broker sees the same exchanges and queues; the
+ * connection URL is ignored. Nothing is persisted and the arguments of an
+ * existing queue are not compared when it is asserted again.
+ */
+export class InMemoryBroker implements MessageTransport {
+  private readonly state = new BrokerState();
+
+  async connect(): Promise<TransportConnection> {
+    const connection = new InMemoryConnection(this.state);
+    this.state.connections.add(connection);
+    return connection;
+  }
+
+  /**
+   * Get the depth of a queue (undefined if it does not exist)
+   */
+  getQueueStats(queue: string): InMemoryQueueStats | undefined {
+    const target = this.state.queues.get(queue);
+    if (!target) {
+      return undefined;
+    }
+    return {
+      messageCount: target.ready.length,
+      unacknowledgedCount: target.consumers.reduce((sum, consumer) => sum + consumer.unacked, 0),
+      consumerCount: target.consumers.length,
+    };
+  }
+
+  /**
+   * Drop every open connection with an error, as when the broker goes away;
+   * unacknowledged messages return to their queues
+   */
+  dropConnections(reason = 'Connection dropped by broker'): void {
+    for (const connection of [...this.state.connections]) {
+      connection.shutdown(new Error(reason));
+    }
+  }
+
+  /**
+   * Close every connection and stop message expiry timers
+   */
+  close(): void {
+    for (const connection of [...this.state.connections]) {
+      connection.shutdown();
+    }
+    this.state.close();
+  }
+}
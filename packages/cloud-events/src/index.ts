@@ -1,3 +1,6 @@
 export * from './event-emitter';
 export * from './event-consumer';
-export * from './schemas';
\ No newline at end of file
+export * from './schemas';
+export * from './priority';
+export * from './transport';
+export * from './in-memory-broker';
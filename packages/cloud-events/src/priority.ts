@@ -0,0 +1,87 @@
+import { CloudEventV1 } from 'cloudevents';
+
+/**
+ * Priority queues are declared with this x-max-priority unless configured otherwise.
+ * RabbitMQ recommends staying below 10 levels; higher message priorities are capped.
+ */
+export const DEFAULT_MAX_PRIORITY = 10;
+
+/**
+ * Rule deriving the AMQP priority of an event
+ *
+ * A rule matches when the event type matches `type` (* matches any characters)
+ * and the `field` value equals one of `equals`. A field without `equals` must be
+ * truthy. Fields are dot paths into the event (e.g. `data.priority`); a path
+ * through an array matches if any element matches.
+ */
+export interface PriorityRule {
+  /** Event type pattern (any type if omitted) */
+  type?: string;
+  /** Dot path of the field to check */
+  field?: string;
+  /** Field value(s) that match */
+  equals?: string | number | boolean | Array<string | number | boolean>;
+  /** AMQP priority of matching events (0-255) */
+  priority: number;
+}
+
+export interface PriorityConfig {
+  /** Rules in order; the first matching rule sets the priority */
+  rules: PriorityRule[];
+  /** Priority of events no rule matches (no priority property if omitted) */
+  defaultPriority?: number;
+}
+
+/**
+ * Derive the AMQP priority of an event
+ *
+ * @param event - The CloudEvent
+ * @param config - Priority rules
+ * @returns Priority of the first matching rule, or the default priority
+ */
+export function resolvePriority(
+  event: CloudEventV1<unknown>,
+  config: PriorityConfig,
+): number | undefined {
+  const rule = config.rules.find((candidate) => matchesRule(event, candidate));
+  return rule ? rule.priority : config.defaultPriority;
+}
+
+function matchesRule(event: CloudEventV1<unknown>, rule: PriorityRule): boolean {
+  if (rule.type !== undefined && !matchesType(event.type, rule.type)) {
+    return false;
+  }
+  if (rule.field === undefined) {
+    return true;
+  }
+
+  const values = getValues(event, rule.field.split('.'));
+  if (rule.equals === undefined) {
+    return values.some(Boolean);
+  }
+
+  const expected = Array.isArray(rule.equals) ? rule.equals : [rule.equals];
+  return values.some((value) => expected.includes(value as string | number | boolean));
+}
+
+function matchesType(type: string, pattern: string): boolean {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`).test(type);
+}
+
+/**
+ * Values at a path, flattening arrays met along the way
+ */
+function getValues(value: unknown, path: string[]): unknown[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => getValues(item, path));
+  }
+  const [key, ...rest] = path;
+  if (key === undefined) {
+    return [value];
+  }
+  if (typeof value !== 'object' || value === null) {
+    return [];
+  }
+  return getValues((value as Record<string, unknown>)[key], rest);
+}
@@ -0,0 +1,133 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '@smile/common';
+
+/**
+ * A message waiting to be published
+ */
+export interface BufferedMessage {
+  exchange: string;
+  routingKey: string;
+  /** Message body, base64 encoded */
+  content: string;
+  options: Record<string, unknown>;
+}
+
+/**
+ * Bounded FIFO of unpublished messages, kept as a JSON-lines file
+ *
+ * Messages survive restarts and are removed only after the broker confirmed
+ * them; a crash between the confirm and the removal republishes them (consumers
+ * deduplicate by event id). Unreadable lines are skipped.
+ */
+export class PublishBuffer {
+  private messages: BufferedMessage[] = [];
+
+  /** Serializes file writes */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly maxMessages: number,
+  ) {}
+
+  /**
+   * Load messages left over from a previous run
+   */
+  async open(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    let content = '';
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    let skipped = 0;
+    this.messages = [];
+    for (const line of content.split('\n')) {
+      if (line.trim() === '') {
+        continue;
+      }
+      try {
+        this.messages.push(JSON.parse(line) as BufferedMessage);
+      } catch {
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      logger.warn('Skipped unreadable buffered events', { path: this.filePath, skipped });
+    }
+    if (this.messages.length > 0) {
+      logger.info('Loaded buffered events', { path: this.filePath, count: this.messages.length });
+    }
+  }
+
+  get size(): number {
+    return this.messages.length;
+  }
+
+  get capacity(): number {
+    return this.maxMessages;
+  }
+
+  /**
+   * Append a message
+   *
+   * @throws Error if the buffer is full or the message could not be written
+   */
+  push(message: BufferedMessage): Promise<void> {
+    if (this.messages.length >= this.maxMessages) {
+      return Promise.reject(
+        new Error(`Event buffer is full (${this.maxMessages} events), event not published`),
+      );
+    }
+
+    this.messages.push(message);
+    return this.write(() => fs.appendFile(this.filePath, `${JSON.stringify(message)}\n`)).catch(
+      (error) => {
+        this.messages.splice(this.messages.indexOf(message), 1);
+        throw error;
+      },
+    );
+  }
+
+  /**
+   * Get the oldest messages
+   */
+  peek(count: number): BufferedMessage[] {
+    return this.messages.slice(0, count);
+  }
+
+  /**
+   * Remove the oldest messages once published
+   */
+  remove(count: number): Promise<void> {
+    this.messages.splice(0, count);
+    // Messages pushed after this point are appended after the rewrite
+    const content = this.messages.map((message) => `${JSON.stringify(message)}\n`).join('');
+
+    return this.write(async () => {
+      const temporary = `${this.filePath}.tmp`;
+      await fs.writeFile(temporary, content);
+      await fs.rename(temporary, this.filePath);
+    });
+  }
+
+  /**
+   * Wait for pending writes
+   */
+  async close(): Promise<void> {
+    await this.pending;
+  }
+
+  private write(operation: () => Promise<void>): Promise<void> {
+    const result = this.pending.then(operation, operation);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,58 @@
+import * as amqp from 'amqplib';
+
+/**
+ * Channel operations the SMILE services use (a subset of the amqplib channel)
+ */
+export type MessageChannel = Pick<
+  amqp.Channel,
+  | 'assertExchange'
+  | 'assertQueue'
+  | 'checkQueue'
+  | 'bindQueue'
+  | 'prefetch'
+  | 'consume'
+  | 'cancel'
+  | 'get'
+  | 'ack'
+  | 'nack'
+  | 'publish'
+  | 'sendToQueue'
+  | 'close'
+> & {
+  on(event: string, listener: (...args: any[]) => void): unknown;
+};
+
+/**
+ * Channel whose publishes are confirmed by the broker
+ */
+export type ConfirmMessageChannel = Omit<MessageChannel, 'publish' | 'sendToQueue'> &
+  Pick<amqp.ConfirmChannel, 'publish' | 'sendToQueue' | 'waitForConfirms'>;
+
+/**
+ * Connection to a message broker
+ *
+ * Emits 'error' and 'close' like an amqplib connection.
+ */
+export type TransportConnection = Pick<amqp.ChannelModel, 'close'> & {
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  createChannel(): Promise<MessageChannel>;
+  createConfirmChannel(): Promise<ConfirmMessageChannel>;
+};
+
+/**
+ * Opens broker connections
+ *
+ * AmqpTransport talks to RabbitMQ; InMemoryBroker runs the same topology in-process.
+ */
+export interface MessageTransport {
+  connect(url: string, socketOptions?: Record<string, unknown>): Promise<TransportConnection>;
+}
+
+/**
+ * RabbitMQ over AMQP 0-9-1 (amqplib)
+ */
+export class AmqpTransport implements MessageTransport {
+  connect(url: string, socketOptions?: Record<string, unknown>): Promise<TransportConnection> {
+    return amqp.connect(url, socketOptions);
+  }
+}
@@ -14,6 +14,16 @@ export class ValidationError extends BaseError {
   readonly statusCode = 400;
 }
 
+export class UnauthorizedError extends BaseError {
+  readonly code = 'UNAUTHORIZED';
+  readonly statusCode = 401;
+}
+
+export class ForbiddenError extends BaseError {
+  readonly code = 'FORBIDDEN';
+  readonly statusCode = 403;
+}
+
 export class NotFoundError extends BaseError {
   readonly code = 'NOT_FOUND';
   readonly statusCode = 404;
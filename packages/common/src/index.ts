@@ -3,6 +3,7 @@ export * from './types';
 export * from './config';
 export * from './errors';
 export * from './telemetry';
+export * from './tracing';
 export * from './validation';
 
 // Security utilities
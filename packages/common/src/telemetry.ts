@@ -1,44 +1,126 @@
-import { trace, context, SpanStatusCode, SpanKind } from '@opentelemetry/api';
+import {
+  trace,
+  context,
+  propagation,
+  Attributes,
+  Context,
+  Span,
+  SpanStatusCode,
+  SpanKind,
+} from '@opentelemetry/api';
 import { v4 as uuidv4 } from 'uuid';
 
+export { SpanKind, SpanStatusCode };
+export type { Attributes, Context, Span };
+
 export interface TraceContext {
   traceId: string;
   spanId: string;
   correlationId: string;
 }
 
+/**
+ * W3C trace context, as carried in HTTP headers and CloudEvent extension attributes
+ */
+export interface TraceCarrier {
+  traceparent?: string;
+  tracestate?: string;
+}
+
+export interface CreateSpanOptions {
+  kind?: SpanKind;
+  attributes?: Attributes;
+  /** Parent context (defaults to the active context) */
+  parent?: Context;
+}
+
 export const generateCorrelationId = (): string => uuidv4();
 
-export const createSpan = (name: string, options?: { kind?: SpanKind }): any => {
+export const createSpan = (name: string, options?: CreateSpanOptions): Span => {
   const tracer = trace.getTracer('smile-interop');
-  return tracer.startSpan(name, {
-    kind: options?.kind ?? SpanKind.INTERNAL,
-  });
+  return tracer.startSpan(
+    name,
+    {
+      kind: options?.kind ?? SpanKind.INTERNAL,
+      ...(options?.attributes && { attributes: options.attributes }),
+    },
+    options?.parent ?? context.active(),
+  );
+};
+
+/**
+ * Run a function with a span as the active span
+ */
+export const runWithSpan = <T>(span: Span, fn: () => T): T =>
+  context.with(trace.setSpan(context.active(), span), fn);
+
+/**
+ * End a span, marking it failed if an error is given
+ */
+export const endSpan = (span: Span, error?: unknown): void => {
+  if (error !== undefined) {
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    if (error instanceof Error) {
+      span.recordException(error);
+    }
+  }
+  span.end();
 };
 
 export const withSpan = async <T>(
   name: string,
-  fn: () => Promise<T>,
-  options?: { kind?: SpanKind },
+  fn: (span: Span) => Promise<T>,
+  options?: CreateSpanOptions,
 ): Promise<T> => {
   const span = createSpan(name, options);
 
   try {
-    const result = await context.with(trace.setSpan(context.active(), span), fn);
+    const result = await runWithSpan(span, () => fn(span));
     span.setStatus({ code: SpanStatusCode.OK });
+    span.end();
     return result;
   } catch (error) {
-    span.setStatus({
-      code: SpanStatusCode.ERROR,
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
-    span.recordException(error as Error);
+    endSpan(span, error);
     throw error;
-  } finally {
-    span.end();
   }
 };
 
+/**
+ * Serialize the trace context of a span (or the active span) as traceparent/tracestate
+ *
+ * Returns an empty carrier when there is no recording trace (e.g. tracing is not started).
+ */
+export const injectTraceContext = (span?: Span): TraceCarrier => {
+  const carrier: Record<string, string> = {};
+  const ctx = span ? trace.setSpan(context.active(), span) : context.active();
+  propagation.inject(ctx, carrier);
+
+  return {
+    ...(carrier.traceparent && { traceparent: carrier.traceparent }),
+    ...(carrier.tracestate && { tracestate: carrier.tracestate }),
+  };
+};
+
+/**
+ * Build a parent context from traceparent/tracestate values (e.g. CloudEvent extensions)
+ *
+ * Returns the active context when the carrier has no valid traceparent.
+ */
+export const extractTraceContext = (carrier: Record<string, unknown> | undefined): Context => {
+  const values: Record<string, string> = {};
+  for (const key of ['traceparent', 'tracestate'] as const) {
+    const value = carrier?.[key];
+    if (typeof value === 'string') {
+      values[key] = value;
+    }
+  }
+
+  return propagation.extract(context.active(), values);
+};
+
 export const getCurrentTraceContext = (): TraceContext | null => {
   const span = trace.getActiveSpan();
   if (!span) {
@@ -51,4 +133,4 @@ export const getCurrentTraceContext = (): TraceContext | null => {
     spanId: spanContext.spanId,
     correlationId: generateCorrelationId(),
   };
-};
\ No newline at end of file
+};
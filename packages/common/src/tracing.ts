@@ -0,0 +1,55 @@
+import { NodeSDK, tracing } from '@opentelemetry/sdk-node';
+import { logger } from './logger';
+
+export interface TracingConfig {
+  serviceName: string;
+  /** Defaults to true unless OTEL_SDK_DISABLED=true */
+  enabled?: boolean;
+  /**
+   * Span processor to export with (e.g. a SimpleSpanProcessor over an InMemorySpanExporter
+   * in tests). Without one, spans are batched to the OTLP exporter configured by the
+   * standard OTEL_EXPORTER_OTLP_* environment variables (default http://localhost:4318).
+   */
+  spanProcessor?: tracing.SpanProcessor;
+}
+
+export interface TracingHandle {
+  shutdown: () => Promise<void>;
+}
+
+/**
+ * Start the OpenTelemetry SDK for this process
+ *
+ * Registers the tracer provider and the W3C trace context propagator used by
+ * withSpan, injectTraceContext and extractTraceContext.
+ */
+export const startTracing = (config: TracingConfig): TracingHandle => {
+  const enabled = config.enabled ?? process.env.OTEL_SDK_DISABLED !== 'true';
+  if (!enabled) {
+    logger.info('Tracing disabled', { serviceName: config.serviceName });
+    return { shutdown: async (): Promise<void> => undefined };
+  }
+
+  const sdk = new NodeSDK({
+    serviceName: config.serviceName,
+    ...(config.spanProcessor && { spanProcessors: [config.spanProcessor] }),
+  });
+  sdk.start();
+
+  logger.info('Tracing started', {
+    serviceName: config.serviceName,
+    exporter: config.spanProcessor ? 'custom' : process.env.OTEL_TRACES_EXPORTER ?? 'otlp',
+    endpoint:
+      process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ?? process.env.OTEL_EXPORTER_OTLP_ENDPOINT,
+  });
+
+  return {
+    shutdown: async (): Promise<void> => {
+      try {
+        await sdk.shutdown();
+      } catch (error) {
+        logger.warn('Failed to flush spans on shutdown', { error });
+      }
+    },
+  };
+};
@@ -0,0 +1,92 @@
+/**
+ * Tests for trace context propagation
+ */
+
+import { AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import { Request, Response } from 'express';
+import {
+  getRequestTraceHeaders,
+  getTraceHeaders,
+  injectTraceHeaders,
+  traceContextMiddleware,
+} from '../../utils/trace-context';
+
+const TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+const EVENT_TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-b7ad6b7169203331-01';
+
+function request(headers: Record<string, string>, body: unknown = {}): Request {
+  return { headers, body } as unknown as Request;
+}
+
+function axiosConfig(headers: Record<string, string> = {}): InternalAxiosRequestConfig {
+  return { headers: new AxiosHeaders(headers) } as InternalAxiosRequestConfig;
+}
+
+describe('Trace Context', () => {
+  describe('getRequestTraceHeaders', () => {
+    it('should read traceparent and tracestate headers', () => {
+      const req = request({ traceparent: TRACEPARENT, tracestate: 'vendor=value' });
+
+      expect(getRequestTraceHeaders(req)).toEqual({
+        traceparent: TRACEPARENT,
+        tracestate: 'vendor=value',
+      });
+    });
+
+    it('should fall back to the CloudEvent extension attributes', () => {
+      const req = request({}, { specversion: '1.0', traceparent: EVENT_TRACEPARENT });
+
+      expect(getRequestTraceHeaders(req)).toEqual({ traceparent: EVENT_TRACEPARENT });
+    });
+
+    it('should prefer headers over the event', () => {
+      const req = request({ traceparent: TRACEPARENT }, { traceparent: EVENT_TRACEPARENT });
+
+      expect(getRequestTraceHeaders(req).traceparent).toBe(TRACEPARENT);
+    });
+
+    it('should return nothing without a trace context', () => {
+      expect(getRequestTraceHeaders(request({}, 'plain text'))).toEqual({});
+    });
+  });
+
+  describe('traceContextMiddleware', () => {
+    it('should expose the request trace context to code run while handling it', async () => {
+      let seen: unknown;
+
+      traceContextMiddleware(request({ traceparent: TRACEPARENT }), {} as Response, () => {
+        setImmediate(() => {
+          seen = getTraceHeaders();
+        });
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(seen).toEqual({ traceparent: TRACEPARENT });
+      expect(getTraceHeaders()).toEqual({});
+    });
+  });
+
+  describe('injectTraceHeaders', () => {
+    it('should add the trace context to outbound requests', () => {
+      traceContextMiddleware(request({ traceparent: TRACEPARENT }), {} as Response, () => {
+        const config = injectTraceHeaders(axiosConfig());
+
+        expect(config.headers.get('traceparent')).toBe(TRACEPARENT);
+      });
+    });
+
+    it('should keep headers set on the request', () => {
+      traceContextMiddleware(request({ traceparent: TRACEPARENT }), {} as Response, () => {
+        const config = injectTraceHeaders(axiosConfig({ traceparent: EVENT_TRACEPARENT }));
+
+        expect(config.headers.get('traceparent')).toBe(EVENT_TRACEPARENT);
+      });
+    });
+
+    it('should leave requests outside a request context unchanged', () => {
+      const config = injectTraceHeaders(axiosConfig());
+
+      expect(config.headers.has('traceparent')).toBe(false);
+    });
+  });
+});
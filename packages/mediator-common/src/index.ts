@@ -19,6 +19,14 @@ export {
   type MediatorConfig,
 } from './utils/registration';
 export { createDefaultChannels } from './utils/channel-manager';
+export {
+  getRequestTraceHeaders,
+  getTraceHeaders,
+  traceContextMiddleware,
+  injectTraceHeaders,
+  propagateTraceContext,
+  type TraceHeaders,
+} from './utils/trace-context';
 
 // Validators exports
 export {
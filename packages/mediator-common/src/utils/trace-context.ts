@@ -0,0 +1,89 @@
+/**
+ * W3C trace context propagation
+ *
+ * Carries the trace context of the request being handled onto the outbound
+ * HTTP requests made while handling it, so downstream calls join the same trace:
+ * - traceparent/tracestate request headers (set by the OpenHIM bridge)
+ * - or the traceparent/tracestate extension attributes of the CloudEvent body
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import axios, { InternalAxiosRequestConfig } from 'axios';
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Trace context headers
+ */
+export interface TraceHeaders {
+  traceparent?: string;
+  tracestate?: string;
+}
+
+const TRACE_FIELDS = ['traceparent', 'tracestate'] as const;
+
+const storage = new AsyncLocalStorage<TraceHeaders>();
+
+let interceptorRegistered = false;
+
+/**
+ * Read the trace context of an incoming request
+ */
+export function getRequestTraceHeaders(req: Request): TraceHeaders {
+  const fromHeaders = pickTraceFields(req.headers);
+  return fromHeaders.traceparent ? fromHeaders : pickTraceFields(req.body);
+}
+
+/**
+ * Trace context of the request being handled (empty outside a request)
+ */
+export function getTraceHeaders(): TraceHeaders {
+  return storage.getStore() ?? {};
+}
+
+/**
+ * Middleware that handles each request within its trace context
+ * (register after the body parser)
+ */
+export function traceContextMiddleware(req: Request, _res: Response, next: NextFunction): void {
+  storage.run(getRequestTraceHeaders(req), next);
+}
+
+/**
+ * Add the current trace context to outbound axios requests
+ * (headers set explicitly on a request are kept)
+ */
+export function injectTraceHeaders(
+  requestConfig: InternalAxiosRequestConfig,
+): InternalAxiosRequestConfig {
+  for (const [name, value] of Object.entries(getTraceHeaders())) {
+    if (value && !requestConfig.headers.has(name)) {
+      requestConfig.headers.set(name, value);
+    }
+  }
+  return requestConfig;
+}
+
+/**
+ * Register the axios interceptor that propagates the trace context
+ */
+export function propagateTraceContext(): void {
+  if (!interceptorRegistered) {
+    axios.interceptors.request.use(injectTraceHeaders);
+    interceptorRegistered = true;
+  }
+}
+
+function pickTraceFields(source: unknown): TraceHeaders {
+  const headers: TraceHeaders = {};
+  if (typeof source !== 'object' || source === null) {
+    return headers;
+  }
+
+  for (const field of TRACE_FIELDS) {
+    const value = (source as Record<string, unknown>)[field];
+    if (typeof value === 'string') {
+      headers[field] = value;
+    }
+  }
+  return headers;
+}